@@ -13,7 +13,7 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-import { Bundle } from '@sigstore/protobuf-specs';
+import { Bundle, HashAlgorithm } from '@sigstore/protobuf-specs';
 import { toDSSEBundle, toMessageSignatureBundle } from '../build';
 
 const signature = Buffer.from('signature');
@@ -51,6 +51,22 @@ describe('toMessageSignatureBundle', () => {
       expect(Bundle.toJSON(b)).toMatchSnapshot();
     });
   });
+
+  describe('when the digestAlgorithm option is set', () => {
+    it('records the algorithm in the message digest', () => {
+      const b = toMessageSignatureBundle({
+        digest,
+        digestAlgorithm: HashAlgorithm.SHA2_384,
+        signature,
+        keyHint,
+      });
+
+      expect(b.content.messageSignature.messageDigest).toEqual({
+        algorithm: HashAlgorithm.SHA2_384,
+        digest,
+      });
+    });
+  });
 });
 
 describe('toDSSEBundle', () => {
@@ -146,4 +162,23 @@ describe('toDSSEBundle', () => {
       });
     });
   });
+
+  describe('when cosignatures are provided', () => {
+    const cosignature = { sig: Buffer.from('cosignature'), keyid: 'other' };
+
+    it('appends the new signature to the envelope', () => {
+      const b = toDSSEBundle({
+        artifact,
+        artifactType,
+        signature,
+        keyHint,
+        cosignatures: [cosignature],
+      });
+
+      expect(b.content.dsseEnvelope.signatures).toEqual([
+        cosignature,
+        { sig: signature, keyid: keyHint },
+      ]);
+    });
+  });
 });
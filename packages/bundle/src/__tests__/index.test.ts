@@ -28,6 +28,7 @@ import {
   BundleWithPublicKey,
   BundleWithSingleCertificate,
   Envelope,
+  FetchProofsFunc,
   InclusionProof,
   MessageSignature,
   PublicKeyIdentifier,
@@ -39,6 +40,7 @@ import {
   TLogEntryWithInclusionProof,
   TimestampVerificationData,
   TransparencyLogEntry,
+  UpgradeBundleOptions,
   ValidationError,
   VerificationMaterial,
   X509Certificate,
@@ -58,6 +60,7 @@ import {
   isBundleWithPublicKey,
   toDSSEBundle,
   toMessageSignatureBundle,
+  upgradeBundle,
 } from '../index';
 
 describe('public interface', () => {
@@ -137,6 +140,12 @@ describe('public interface', () => {
 
     const x509CertificateChain: X509CertificateChain = fromPartial({});
     expect(x509CertificateChain).toBeDefined();
+
+    const fetchProofs: FetchProofsFunc = fromPartial({});
+    expect(fetchProofs).toBeDefined();
+
+    const upgradeBundleOptions: UpgradeBundleOptions = fromPartial({});
+    expect(upgradeBundleOptions).toBeDefined();
   });
 
   it('exports bundle construction functions', () => {
@@ -159,6 +168,10 @@ describe('public interface', () => {
     expect(assertBundleV02).toBeDefined();
   });
 
+  it('exports bundle upgrade functions', () => {
+    expect(upgradeBundle).toBeDefined();
+  });
+
   it('exports serialization functions', () => {
     expect(bundleFromJSON).toBeDefined();
     expect(bundleToJSON).toBeDefined();
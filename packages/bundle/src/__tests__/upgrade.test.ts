@@ -0,0 +1,154 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { fromPartial } from '@total-typescript/shoehorn';
+import assert from 'assert';
+import {
+  BUNDLE_V01_MEDIA_TYPE,
+  BUNDLE_V02_MEDIA_TYPE,
+  BUNDLE_V03_MEDIA_TYPE,
+} from '../bundle';
+import { ValidationError } from '../error';
+import { upgradeBundle } from '../upgrade';
+
+import type { Bundle, InclusionProof } from '../bundle';
+
+describe('upgradeBundle', () => {
+  const leafCert = { rawBytes: Buffer.from('leaf') };
+  const intermediateCert = { rawBytes: Buffer.from('intermediate') };
+
+  const tlogEntry = {
+    logIndex: '123',
+    logId: { keyId: Buffer.from('logId') },
+    kindVersion: { kind: 'hashedrekord', version: '0.0.1' },
+    integratedTime: '123',
+    inclusionPromise: { signedEntryTimestamp: Buffer.from('set') },
+    canonicalizedBody: Buffer.from('body'),
+  };
+
+  const inclusionProof: InclusionProof = {
+    logIndex: '123',
+    rootHash: Buffer.from('root'),
+    treeSize: '124',
+    hashes: [Buffer.from('hash')],
+    checkpoint: { envelope: 'checkpoint' },
+  };
+
+  const content: Bundle['content'] = {
+    $case: 'messageSignature',
+    messageSignature: {
+      messageDigest: { algorithm: 1, digest: Buffer.from('digest') },
+      signature: Buffer.from('signature'),
+    },
+  };
+
+  describe('when the bundle is a v0.1 bundle', () => {
+    const bundle: Bundle = fromPartial({
+      mediaType: BUNDLE_V01_MEDIA_TYPE,
+      verificationMaterial: {
+        content: {
+          $case: 'x509CertificateChain',
+          x509CertificateChain: {
+            certificates: [leafCert, intermediateCert],
+          },
+        },
+        tlogEntries: [tlogEntry],
+        timestampVerificationData: undefined,
+      },
+      content,
+    });
+
+    describe('when the inclusion proofs are fetched', () => {
+      const fetchProofs = jest.fn().mockResolvedValue(inclusionProof);
+
+      it('returns a v0.3 bundle', async () => {
+        const upgraded = await upgradeBundle(bundle, { fetchProofs });
+
+        expect(upgraded.mediaType).toEqual(BUNDLE_V03_MEDIA_TYPE);
+        expect(upgraded.content).toEqual(content);
+        expect(upgraded.verificationMaterial.content).toEqual({
+          $case: 'certificate',
+          certificate: leafCert,
+        });
+
+        expect(fetchProofs).toHaveBeenCalledWith(tlogEntry);
+        expect(upgraded.verificationMaterial.tlogEntries).toEqual([
+          { ...tlogEntry, inclusionProof },
+        ]);
+      });
+
+      it('does NOT modify the original bundle', async () => {
+        await upgradeBundle(bundle, { fetchProofs });
+
+        expect(bundle.mediaType).toEqual(BUNDLE_V01_MEDIA_TYPE);
+        expect(bundle.verificationMaterial.content.$case).toEqual(
+          'x509CertificateChain'
+        );
+        expect(
+          bundle.verificationMaterial.tlogEntries[0].inclusionProof
+        ).toBeUndefined();
+      });
+    });
+
+    describe('when the inclusion proofs are NOT fetched', () => {
+      it('throws an error', async () => {
+        expect.assertions(2);
+        try {
+          await upgradeBundle(bundle);
+        } catch (e) {
+          assert(e instanceof ValidationError);
+          expect(e.fields).toHaveLength(1);
+          expect(e.fields).toContain(
+            'verificationMaterial.tlogEntries[0].inclusionProof'
+          );
+        }
+      });
+    });
+
+    describe('when the inclusion proofs can NOT be fetched', () => {
+      const fetchProofs = jest.fn().mockRejectedValue(new Error('oops'));
+
+      it('throws an error', async () => {
+        await expect(upgradeBundle(bundle, { fetchProofs })).rejects.toThrow(
+          'oops'
+        );
+      });
+    });
+  });
+
+  describe('when the bundle is a v0.2 bundle', () => {
+    const bundle: Bundle = fromPartial({
+      mediaType: BUNDLE_V02_MEDIA_TYPE,
+      verificationMaterial: {
+        content: {
+          $case: 'publicKey',
+          publicKey: { hint: 'hint' },
+        },
+        tlogEntries: [{ ...tlogEntry, inclusionProof }],
+        timestampVerificationData: undefined,
+      },
+      content,
+    });
+
+    const fetchProofs = jest.fn();
+
+    it('returns a v0.3 bundle', async () => {
+      const upgraded = await upgradeBundle(bundle, { fetchProofs });
+
+      expect(upgraded).toEqual({ ...bundle, mediaType: BUNDLE_V03_MEDIA_TYPE });
+      expect(fetchProofs).not.toHaveBeenCalled();
+    });
+  });
+});
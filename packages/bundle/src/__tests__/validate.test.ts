@@ -192,7 +192,7 @@ describe('assertBundle', () => {
     });
   });
 
-  describe('when there are too many signatures for dsseEnvelope', () => {
+  describe('when there are multiple signatures for dsseEnvelope', () => {
     const bundle: ProtoBundle = fromPartial({
       mediaType: 'application/vnd.dev.sigstore.bundle+json;version=0.1',
       content: {
@@ -208,6 +208,34 @@ describe('assertBundle', () => {
       },
     });
 
+    it('does not flag the signatures', () => {
+      expect.assertions(2);
+      try {
+        assertBundle(bundle);
+      } catch (e) {
+        assert(e instanceof ValidationError);
+        expect(e.fields).toHaveLength(1);
+        expect(e.fields).toContain('verificationMaterial');
+      }
+    });
+  });
+
+  describe('when a co-signature value is empty for dsseEnvelope', () => {
+    const bundle: ProtoBundle = fromPartial({
+      mediaType: 'application/vnd.dev.sigstore.bundle+json;version=0.1',
+      content: {
+        $case: 'dsseEnvelope',
+        dsseEnvelope: {
+          payload: Buffer.from('ABC'),
+          payloadType: 'application/json',
+          signatures: [
+            { sig: Buffer.from('ABC'), keyid: '' },
+            { sig: Buffer.from(''), keyid: '' },
+          ],
+        },
+      },
+    });
+
     it('throws an error', () => {
       expect.assertions(3);
       try {
@@ -215,7 +243,7 @@ describe('assertBundle', () => {
       } catch (e) {
         assert(e instanceof ValidationError);
         expect(e.fields).toHaveLength(2);
-        expect(e.fields).toContain('content.dsseEnvelope.signatures');
+        expect(e.fields).toContain('content.dsseEnvelope.signatures[1].sig');
         expect(e.fields).toContain('verificationMaterial');
       }
     });
@@ -37,6 +37,8 @@ type VerificationMaterialOptions = {
 
 type MessageSignatureBundleOptions = {
   digest: Buffer;
+  // The hash algorithm used to compute the digest. Defaults to SHA2_256.
+  digestAlgorithm?: HashAlgorithm;
   signature: Buffer;
 } & VerificationMaterialOptions;
 
@@ -44,6 +46,10 @@ type DSSEBundleOptions = {
   artifact: Buffer;
   artifactType: string;
   signature: Buffer;
+  // Signatures from other signers which are already present on the envelope.
+  // The new signature is appended after these, and the verification material
+  // in the bundle corresponds to the new (final) signature.
+  cosignatures?: Signature[];
 } & VerificationMaterialOptions;
 
 // Message signature bundle - $case: 'messageSignature'
@@ -58,7 +64,7 @@ export function toMessageSignatureBundle(
       $case: 'messageSignature',
       messageSignature: {
         messageDigest: {
-          algorithm: HashAlgorithm.SHA2_256,
+          algorithm: options.digestAlgorithm ?? HashAlgorithm.SHA2_256,
           digest: options.digest,
         },
         signature: options.signature,
@@ -89,7 +95,7 @@ function toEnvelope(options: DSSEBundleOptions): Envelope {
   return {
     payloadType: options.artifactType,
     payload: options.artifact,
-    signatures: [toSignature(options)],
+    signatures: [...(options.cosignatures ?? []), toSignature(options)],
   };
 }
 
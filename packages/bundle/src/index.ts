@@ -31,6 +31,7 @@ export {
   envelopeFromJSON,
   envelopeToJSON,
 } from './serialized';
+export { upgradeBundle } from './upgrade';
 export {
   assertBundle,
   assertBundleLatest,
@@ -65,3 +66,4 @@ export type {
   VerificationMaterial,
 } from './bundle';
 export type { SerializedBundle, SerializedEnvelope } from './serialized';
+export type { FetchProofsFunc, UpgradeBundleOptions } from './upgrade';
@@ -0,0 +1,88 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { BUNDLE_V03_MEDIA_TYPE } from './bundle';
+import { assertBundleLatest } from './validate';
+
+import type {
+  Bundle,
+  BundleLatest,
+  InclusionProof,
+  TransparencyLogEntry,
+  VerificationMaterial,
+} from './bundle';
+
+// Retrieves the inclusion proof for a transparency log entry (typically from
+// the log which issued the entry)
+export type FetchProofsFunc = (
+  entry: TransparencyLogEntry
+) => Promise<InclusionProof>;
+
+export type UpgradeBundleOptions = {
+  // Used to retrieve the inclusion proofs for any tlog entries which carry
+  // only an inclusion promise. Bundles with such entries can NOT be upgraded
+  // without it.
+  fetchProofs?: FetchProofsFunc;
+};
+
+// Upgrades a bundle of any version to the latest (v0.3) bundle format:
+// * A certificate chain is collapsed into the single leaf certificate
+// * Missing inclusion proofs are fetched with the fetchProofs function
+// * The media type is updated to the v0.3 media type
+// The upgraded bundle is validated before it is returned. The supplied bundle
+// is NOT modified.
+export async function upgradeBundle(
+  bundle: Bundle,
+  options: UpgradeBundleOptions = {}
+): Promise<BundleLatest> {
+  const { fetchProofs } = options;
+  const { verificationMaterial } = bundle;
+
+  const tlogEntries = await Promise.all(
+    verificationMaterial.tlogEntries.map(async (entry: TransparencyLogEntry) =>
+      entry.inclusionProof || !fetchProofs
+        ? entry
+        : { ...entry, inclusionProof: await fetchProofs(entry) }
+    )
+  );
+
+  const upgraded = {
+    ...bundle,
+    mediaType: BUNDLE_V03_MEDIA_TYPE,
+    verificationMaterial: {
+      ...verificationMaterial,
+      content: toSingleCertificate(verificationMaterial.content),
+      tlogEntries,
+    },
+  };
+
+  assertBundleLatest(upgraded);
+  return upgraded;
+}
+
+// The leaf certificate is the only certificate in the chain which is needed
+// for verification -- the rest of the chain comes from the trusted root
+function toSingleCertificate(
+  content: VerificationMaterial['content']
+): VerificationMaterial['content'] {
+  if (content.$case !== 'x509CertificateChain') {
+    return content;
+  }
+
+  return {
+    $case: 'certificate',
+    certificate: content.x509CertificateChain.certificates[0],
+  };
+}
@@ -113,12 +113,16 @@ function validateBundleBase(b: ProtoBundle): string[] {
           invalidValues.push('content.dsseEnvelope.payload');
         }
 
-        if (b.content.dsseEnvelope.signatures.length !== 1) {
+        // Multiple signatures are permitted so that an envelope may be
+        // co-signed by several signers
+        if (b.content.dsseEnvelope.signatures.length === 0) {
           invalidValues.push('content.dsseEnvelope.signatures');
         } else {
-          if (b.content.dsseEnvelope.signatures[0].sig.length === 0) {
-            invalidValues.push('content.dsseEnvelope.signatures[0].sig');
-          }
+          b.content.dsseEnvelope.signatures.forEach((signature, i) => {
+            if (signature.sig.length === 0) {
+              invalidValues.push(`content.dsseEnvelope.signatures[${i}].sig`);
+            }
+          });
         }
 
         break;
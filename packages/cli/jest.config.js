@@ -18,5 +18,9 @@ const base = require('../../jest.config.base');
 module.exports = {
   ...base,
   displayName: 'cli',
-  testPathIgnorePatterns: ['<rootDir>/dist/'],
+  testPathIgnorePatterns: [
+    '<rootDir>/dist/',
+    '<rootDir>/src/__tests__/__fixtures__',
+  ],
+  coveragePathIgnorePatterns: ['__fixtures__'],
 };
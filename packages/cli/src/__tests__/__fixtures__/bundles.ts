@@ -0,0 +1,125 @@
+// Message signature bundle with a Fulcio certificate chain, an RFC 3161
+// timestamp and a Rekor v1 entry
+export const CERT_CHAIN_BUNDLE = {
+  mediaType: 'application/vnd.dev.sigstore.bundle+json;version=0.1',
+  verificationMaterial: {
+    x509CertificateChain: {
+      certificates: [
+        {
+          rawBytes:
+            'MIIDKTCCAs+gAwIBAgIEERggBDAKBggqhkjOPQQDAzArMREwDwYDVQQDEwhzaWdzdG9yZTEWMBQGA1UEChMNc2lnc3RvcmUubW9jazAeFw0yNDA1MDExMjAwMDBaFw0yNDA1MDExMjEwMDBaMAAwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAATNMMFpjw8UeRQYKpConxXwIBE20LJmk3myaGkByr8Zp8V3Iqv6yjhg6TOLHMsn22gDqfFDvFfKLCw0BjddyngVo4ICCjCCAgYwDgYDVR0PAQH/BAQDAgeAMBMGA1UdJQQMMAoGCCsGAQUFBwMDMFYGA1UdEQEB/wRMMEqGSGh0dHBzOi8vZ2l0aHViLmNvbS9mb28vYmFyLy5naXRodWIvd29ya2Zsb3dzL3JlbGVhc2UueW1sQHJlZnMvaGVhZHMvbWFpbjAdBgNVHQ4EFgQUqTSPK02sK72vl8of7CmkzGtVImgwHwYDVR0jBBgwFoAUuDAHiBGI5FiaOAbyRVQoz3tX2IkwOQYKKwYBBAGDvzABAQQraHR0cHM6Ly90b2tlbi5hY3Rpb25zLmdpdGh1YnVzZXJjb250ZW50LmNvbTA7BgorBgEEAYO/MAEIBC0MK2h0dHBzOi8vdG9rZW4uYWN0aW9ucy5naXRodWJ1c2VyY29udGVudC5jb20wKgYKKwYBBAGDvzABDAQcDBpodHRwczovL2dpdGh1Yi5jb20vZm9vL2JhcjAXBgorBgEEAYO/MAFjBAkMB215c3RlcnkwgYkGCisGAQQB1nkCBAIEewR5AHcAdQDLH7hHIySb1HefruV0Yd+FETPjSDOOKoDsaf4VOh/FXQAAAY80Bp4AAAAEAwBGMEQCIEDhD/W4Dj07CSE47vgTUHyqu3dTqczRhy2zwP2FLcBIAiBMA47egfhZ4CNOqIsNxNHSd2ta5FN4PXLAnuy5iqsWjzAKBggqhkjOPQQDAwNIADBFAiEA0sqW3+RNaicv2HuvKaGgrntn5LsJVemOWpcEIc5K1W4CIDBzwy+8a5a2hVKaYtpdRsC5qvT3j0qI6dm4S/jCdZhc',
+        },
+        {
+          rawBytes:
+            'MIIBpzCCAU6gAwIBAgIBATAKBggqhkjOPQQDAzArMREwDwYDVQQDEwhzaWdzdG9yZTEWMBQGA1UEChMNc2lnc3RvcmUubW9jazAeFw0yNjEwMTkxMjMyNTFaFw0yNzEwMTkxMjMyNTFaMCsxETAPBgNVBAMTCHNpZ3N0b3JlMRYwFAYDVQQKEw1zaWdzdG9yZS5tb2NrMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEjL2ahv2KpDIe0LyWCwTyU4ZnLyczhoYuRKIMdU+OJw3FJfoPYWM4/Q1LMBsYVmFMESebheBydUtvdFv10V7qgaNjMGEwDwYDVR0TAQH/BAUwAwEB/zAOBgNVHQ8BAf8EBAMCAQYwHQYDVR0OBBYEFLgwB4gRiORYmjgG8kVUKM97V9iJMB8GA1UdIwQYMBaAFLgwB4gRiORYmjgG8kVUKM97V9iJMAoGCCqGSM49BAMDA0cAMEQCIEi1rJzS2AoMSnywgHfItUGjV3UJ4XQ3CypXXX6QPRAIAiBOaJBDereN1oDmkZNq30cGD9qf1EdrUzVvfWnCj1i6Uw==',
+        },
+      ],
+    },
+    tlogEntries: [
+      {
+        logIndex: '6757503',
+        logId: { keyId: 'wNI9atQGlz+VWfO6LRygH4QUfY/8W4RFwiT5i5WRgB0=' },
+        kindVersion: { kind: 'hashedrekord', version: '0.0.1' },
+        integratedTime: '1667957590',
+        inclusionPromise: {
+          signedEntryTimestamp:
+            'MEUCIFUNcHgHB318gCNJR0/CH4E0daODbnfePyzKCDqrt3twAiEA9N+ZObaLwVJwvOtPgkfoBa5NzjTH0eC06YBlOyZlMiY=',
+        },
+        canonicalizedBody:
+          'eyJhcGlWZXJzaW9uIjoiMC4wLjEiLCJraW5kIjoiaGFzaGVkcmVrb3JkIiwic3BlYyI6eyJkYXRhIjp7Imhhc2giOnsiYWxnb3JpdGhtIjoic2hhMjU2IiwidmFsdWUiOiI2OGU2NTZiMjUxZTY3ZTgzNThiZWY4NDgzYWIwZDUxYzY2MTlmM2U3YTFhOWYwZTc1ODM4ZDQxZmYzNjhmNzI4In19LCJzaWduYXR1cmUiOnsiY29udGVudCI6Ik1FUUNJSHM1YVV1bHExSHBSK2Z3bVNLcExrL29Bd3E1TzlDRE5GSGhaQUtmRzVHbUFpQndjVm5mMm9ienNDR1ZsZjBBSXZidkhyMjFOWHQ3dHBMQmw0K0JyaDZPS0E9PSIsInB1YmxpY0tleSI6eyJjb250ZW50IjoiTFMwdExTMUNSVWRKVGlCRFJWSlVTVVpKUTBGVVJTMHRMUzB0Q2sxSlNVTnZSRU5EUVdsaFowRjNTVUpCWjBsVlpYWmhaU3R1VEZFNGJXYzJUM2xQUWpRelRVdEtNVEJHTWtORmQwTm5XVWxMYjFwSmVtb3dSVUYzVFhjS1RucEZWazFDVFVkQk1WVkZRMmhOVFdNeWJHNWpNMUoyWTIxVmRWcEhWakpOVWpSM1NFRlpSRlpSVVVSRmVGWjZZVmRrZW1SSE9YbGFVekZ3WW01U2JBcGpiVEZzV2tkc2FHUkhWWGRJYUdOT1RXcEplRTFVUVRWTlJFVjZUWHBCTlZkb1kwNU5ha2w0VFZSQk5VMUVSVEJOZWtFMVYycEJRVTFHYTNkRmQxbElDa3R2V2tsNmFqQkRRVkZaU1V0dldrbDZhakJFUVZGalJGRm5RVVU1UkdKWlFrbE5VVXgwVjJJMlNqVm5kRXcyT1dwblVuZDNSV1prZEZGMFMzWjJSelFLSzI4elducHNUM0p2U25Cc2NGaGhWbWRHTm5kQ1JHOWlLeXR5VGtjNUwwRjZVMkZDYlVGd2EwVjNTVFV5V0VKcVYzRlBRMEZWVlhkblowWkNUVUUwUndwQk1WVmtSSGRGUWk5M1VVVkJkMGxJWjBSQlZFSm5UbFpJVTFWRlJFUkJTMEpuWjNKQ1owVkdRbEZqUkVGNlFXUkNaMDVXU0ZFMFJVWm5VVlZXU1VsR0NtTXdPSG8yZFZZNVdUazJVeXQyTlc5RVltSnRTRVZaZDBoM1dVUldVakJxUWtKbmQwWnZRVlV6T1ZCd2VqRlphMFZhWWpWeFRtcHdTMFpYYVhocE5Ga0tXa1E0ZDBoM1dVUldVakJTUVZGSUwwSkNWWGRGTkVWU1dXNUtjRmxYTlVGYVIxWnZXVmN4YkdOcE5XcGlNakIzVEVGWlMwdDNXVUpDUVVkRWRucEJRZ3BCVVZGbFlVaFNNR05JVFRaTWVUbHVZVmhTYjJSWFNYVlpNamwwVERKNGRsb3liSFZNTWpsb1pGaFNiMDFKUjB0Q1oyOXlRbWRGUlVGa1dqVkJaMUZEQ2tKSWQwVmxaMEkwUVVoWlFUTlVNSGRoYzJKSVJWUktha2RTTkdOdFYyTXpRWEZLUzFoeWFtVlFTek12YURSd2VXZERPSEEzYnpSQlFVRkhSVmRuVlVjS1VYZEJRVUpCVFVGU2VrSkdRV2xGUVd4TGVXTk5Ra015Y1N0UlRTdHRZM1EyTUZKT1JVNTRjRlZTU0dWek5uWm5UMEpYWkhnM01WaGpXR2REU1VGMGJncE5lbmN2WTBKM05XZ3dhSEpaU2poaU1WQkthbTk0YmpOck1VNHlWR1JuYjJaeGRrMW9ZbE5VVFVGdlIwTkRjVWRUVFRRNVFrRk5SRUV5WjBGTlIxVkRDazFSUXpKTFRFWlpVMmxFTHl0VE1WZEZjM2xtT1dONlpqVXlkeXRGTlRjM1NHazNOM0k0Y0VkVlRURnlVUzlDZW1jeFlVZDJVWE13TDJ0Qlp6TlRMMG9LVTBSblEwMUZaRTQxWkVsVE1IUlNiVEZUVDAxaVQwWmpWeXN4ZVhwU0swOXBRMVpLTjBSV1JuZFZaRWt6UkM4M1JWSjRkRTQ1WlM5TVNqWjFZVkp1VWdvdlUyRnVjbmM5UFFvdExTMHRMVVZPUkNCRFJWSlVTVVpKUTBGVVJTMHRMUzB0Q2c9PSJ9fX19',
+      },
+    ],
+    timestampVerificationData: {
+      rfc3161Timestamps: [
+        {
+          signedTimestamp:
+            'MIICFDADAgEAMIICCwYJKoZIhvcNAQcCoIIB/DCCAfgCAQMxDzANBglghkgBZQMEAgEFADBrBgsqhkiG9w0BCRABBKBcBFowWAIBAQYDKgMEMC8wCwYJYIZIAWUDBAIBBCAUG+IiYdxGWHxSA1p4bfJVBcMluzqISlm1NJIkmzEdCwIE3q2+7xgPMjAyNDA1MDExMjAwMDBaMAMCAQECAQGgADGCAXEwggFtAgEBMCswJjEMMAoGA1UEAxMDdHNhMRYwFAYDVQQKEw1zaWdzdG9yZS5tb2NrAgECMA0GCWCGSAFlAwQCAQUAoIHVMBoGCSqGSIb3DQEJAzENBgsqhkiG9w0BCRABBDAcBgkqhkiG9w0BCQUxDxcNMjQwNTAxMTIwMDAwWjAvBgkqhkiG9w0BCQQxIgQgiBLFX3Z7T7lQflPDHoZvRVn2xDFyr1Vs/v/3BWMiyzwwaAYLKoZIhvcNAQkQAi8xWTBXMFUwUwQg3bEm4RsrhLbby3+f3d3uRJuebKe4ykqxs3NpJ6H7y4QwLzAqpCgwJjEMMAoGA1UEAxMDdHNhMRYwFAYDVQQKEw1zaWdzdG9yZS5tb2NrAgECMAoGCCqGSM49BAMCBEgwRgIhAN/jzpNccywdBiXpjPCUTZqMbi1Lq5HOcPm1DRUq1mN0AiEAtlTqrts8savUbMlgLB2mgr5PVD4WvHxXQuoibbwOFm8=',
+        },
+      ],
+    },
+  },
+  messageSignature: {
+    messageDigest: {
+      algorithm: 'SHA2_256',
+      digest: 'aOZWslHmfoNYvvhIOrDVHGYZ8+ehqfDnWDjUH/No9yg=',
+    },
+    signature:
+      'MEUCIC9X0GjyS75pGPYhzS5J4w4Ma6SZ1J0wD3Us3ZRABsi6AiEA7qrQ/XkZ2+8SZ6v57PcdhpmzeqoasXcdaU2SGlfnHuw=',
+  },
+};
+
+// DSSE bundle with an in-toto statement, a single Fulcio certificate and a
+// Rekor v2 entry
+export const INTOTO_BUNDLE = {
+  mediaType: 'application/vnd.dev.sigstore.bundle.v0.3+json',
+  verificationMaterial: {
+    certificate: {
+      rawBytes:
+        'MIIDKTCCAs+gAwIBAgIEERggBDAKBggqhkjOPQQDAzArMREwDwYDVQQDEwhzaWdzdG9yZTEWMBQGA1UEChMNc2lnc3RvcmUubW9jazAeFw0yNDA1MDExMjAwMDBaFw0yNDA1MDExMjEwMDBaMAAwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAATNMMFpjw8UeRQYKpConxXwIBE20LJmk3myaGkByr8Zp8V3Iqv6yjhg6TOLHMsn22gDqfFDvFfKLCw0BjddyngVo4ICCjCCAgYwDgYDVR0PAQH/BAQDAgeAMBMGA1UdJQQMMAoGCCsGAQUFBwMDMFYGA1UdEQEB/wRMMEqGSGh0dHBzOi8vZ2l0aHViLmNvbS9mb28vYmFyLy5naXRodWIvd29ya2Zsb3dzL3JlbGVhc2UueW1sQHJlZnMvaGVhZHMvbWFpbjAdBgNVHQ4EFgQUqTSPK02sK72vl8of7CmkzGtVImgwHwYDVR0jBBgwFoAUuDAHiBGI5FiaOAbyRVQoz3tX2IkwOQYKKwYBBAGDvzABAQQraHR0cHM6Ly90b2tlbi5hY3Rpb25zLmdpdGh1YnVzZXJjb250ZW50LmNvbTA7BgorBgEEAYO/MAEIBC0MK2h0dHBzOi8vdG9rZW4uYWN0aW9ucy5naXRodWJ1c2VyY29udGVudC5jb20wKgYKKwYBBAGDvzABDAQcDBpodHRwczovL2dpdGh1Yi5jb20vZm9vL2JhcjAXBgorBgEEAYO/MAFjBAkMB215c3RlcnkwgYkGCisGAQQB1nkCBAIEewR5AHcAdQDLH7hHIySb1HefruV0Yd+FETPjSDOOKoDsaf4VOh/FXQAAAY80Bp4AAAAEAwBGMEQCIEDhD/W4Dj07CSE47vgTUHyqu3dTqczRhy2zwP2FLcBIAiBMA47egfhZ4CNOqIsNxNHSd2ta5FN4PXLAnuy5iqsWjzAKBggqhkjOPQQDAwNIADBFAiEA0sqW3+RNaicv2HuvKaGgrntn5LsJVemOWpcEIc5K1W4CIDBzwy+8a5a2hVKaYtpdRsC5qvT3j0qI6dm4S/jCdZhc',
+    },
+    tlogEntries: [
+      {
+        logIndex: '4367707',
+        logId: { keyId: 'RjMuO20QJDA+PuEQpIei+qxev2kOnW6Z1cwcH5rvHNo=' },
+        kindVersion: { kind: 'dsse', version: '0.0.2' },
+        inclusionProof: {
+          rootHash: 'tNhldM/luBoMGxgAmTCzI+ZTzFXtwwaokk2eqb/FLhY=',
+          treeSize: '1',
+          checkpoint: {
+            envelope:
+              'rekor-v2.example.com\n1\ntNhldM/luBoMGxgAmTCzI+ZTzFXtwwaokk2eqb/FLhY=\nTimestamp: 1792411404000000000\n\n— rekor-v2.example.com RjMuOzBFAiEA4RdxE6wuQgrPZfV5H9ea3mixTwud1h8KosNCVK9b+r0CIHLKF+50dOf+IZoQFjRVc6ourav5/4cWwTg1eK+uFcsJ\n',
+          },
+        },
+        canonicalizedBody:
+          'eyJhcGlWZXJzaW9uIjoiMC4wLjIiLCJraW5kIjoiZHNzZSIsInNwZWMiOnsiZHNzZVYwMDIiOnsicGF5bG9hZEhhc2giOnsiYWxnb3JpdGhtIjoiU0hBMl8yNTYiLCJkaWdlc3QiOiJrNkk1Y2FrVTVlckw4S2pTVVZUTm93bkR3Y2N2dTVrVTFIeGc4OHRvRllnPSJ9LCJzaWduYXR1cmVzIjpbeyJjb250ZW50IjoiTUVRQ0lHWjUvWTFSSkFPRlJZdjZ2aDdtNi9YWFgxYmZJRHUvZVRmODNMaGhGZ245QWlBYisrSGFJOVR5aGJTNXFqM2Nhem5qVStrL1lRYjgyaGFsWGhvQTRUbDdydz09IiwidmVyaWZpZXIiOnsia2V5RGV0YWlscyI6IlBLSVhfRUNEU0FfUDI1Nl9TSEFfMjU2IiwicHVibGljS2V5Ijp7InJhd0J5dGVzIjoiTUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFUVJiTVVNT2xPTW5aUnVIWDh0VFdyTFh5ZFlaeTF2Wks0Zk5EaTgremR4Ui9YbnBFeEUwd1RDTUpOZHFiaUFaWE9YNkNpb2JRdHhzZEp2djRyY2dOc1E9PSJ9fX1dfX19',
+      },
+    ],
+  },
+  dsseEnvelope: {
+    payload:
+      'eyJfdHlwZSI6Imh0dHBzOi8vaW4tdG90by5pby9TdGF0ZW1lbnQvdjEiLCJzdWJqZWN0IjpbeyJuYW1lIjoiZm9vLTEuMC4wLnRneiIsImRpZ2VzdCI6eyJzaGEyNTYiOiI2OGU2NTZiMjUxZTY3ZTgzNThiZWY4NDgzYWIwZDUxYzY2MTlmM2U3YTFhOWYwZTc1ODM4ZDQxZmYzNjhmNzI4In19XSwicHJlZGljYXRlVHlwZSI6Imh0dHBzOi8vc2xzYS5kZXYvcHJvdmVuYW5jZS92MSIsInByZWRpY2F0ZSI6e319',
+    payloadType: 'application/vnd.in-toto+json',
+    signatures: [
+      {
+        sig: 'MEUCIC9X0GjyS75pGPYhzS5J4w4Ma6SZ1J0wD3Us3ZRABsi6AiEA7qrQ/XkZ2+8SZ6v57PcdhpmzeqoasXcdaU2SGlfnHuw=',
+        keyid: '',
+      },
+    ],
+  },
+};
+
+// DSSE bundle signed with a public key
+export const PUBLIC_KEY_BUNDLE = {
+  mediaType: 'application/vnd.dev.sigstore.bundle.v0.3+json',
+  verificationMaterial: {
+    publicKey: { hint: 'rekor-v2-key' },
+    tlogEntries: [
+      {
+        logIndex: '4367707',
+        logId: { keyId: 'RjMuO20QJDA+PuEQpIei+qxev2kOnW6Z1cwcH5rvHNo=' },
+        kindVersion: { kind: 'dsse', version: '0.0.2' },
+        inclusionProof: {
+          rootHash: 'tNhldM/luBoMGxgAmTCzI+ZTzFXtwwaokk2eqb/FLhY=',
+          treeSize: '1',
+          checkpoint: {
+            envelope:
+              'rekor-v2.example.com\n1\ntNhldM/luBoMGxgAmTCzI+ZTzFXtwwaokk2eqb/FLhY=\nTimestamp: 1792411404000000000\n\n— rekor-v2.example.com RjMuOzBFAiEA4RdxE6wuQgrPZfV5H9ea3mixTwud1h8KosNCVK9b+r0CIHLKF+50dOf+IZoQFjRVc6ourav5/4cWwTg1eK+uFcsJ\n',
+          },
+        },
+        canonicalizedBody:
+          'eyJhcGlWZXJzaW9uIjoiMC4wLjIiLCJraW5kIjoiZHNzZSIsInNwZWMiOnsiZHNzZVYwMDIiOnsicGF5bG9hZEhhc2giOnsiYWxnb3JpdGhtIjoiU0hBMl8yNTYiLCJkaWdlc3QiOiJrNkk1Y2FrVTVlckw4S2pTVVZUTm93bkR3Y2N2dTVrVTFIeGc4OHRvRllnPSJ9LCJzaWduYXR1cmVzIjpbeyJjb250ZW50IjoiTUVRQ0lHWjUvWTFSSkFPRlJZdjZ2aDdtNi9YWFgxYmZJRHUvZVRmODNMaGhGZ245QWlBYisrSGFJOVR5aGJTNXFqM2Nhem5qVStrL1lRYjgyaGFsWGhvQTRUbDdydz09IiwidmVyaWZpZXIiOnsia2V5RGV0YWlscyI6IlBLSVhfRUNEU0FfUDI1Nl9TSEFfMjU2IiwicHVibGljS2V5Ijp7InJhd0J5dGVzIjoiTUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFUVJiTVVNT2xPTW5aUnVIWDh0VFdyTFh5ZFlaeTF2Wks0Zk5EaTgremR4Ui9YbnBFeEUwd1RDTUpOZHFiaUFaWE9YNkNpb2JRdHhzZEp2djRyY2dOc1E9PSJ9fX1dfX19',
+      },
+    ],
+    timestampVerificationData: {},
+  },
+  dsseEnvelope: {
+    payload: 'eyJoZWxsbyI6IndvcmxkIn0=',
+    payloadType: 'application/json',
+    signatures: [
+      {
+        sig: 'MEQCIGZ5/Y1RJAOFRYv6vh7m6/XXX1bfIDu/eTf83LhhFgn9AiAb++HaI9TyhbS5qj3caznjU+k/YQb82halXhoA4Tl7rw==',
+        keyid: 'rekor-v2-key',
+      },
+    ],
+  },
+};
@@ -0,0 +1,16 @@
+import { Config } from '@oclif/core';
+import fs from 'fs';
+import path from 'path';
+
+import type { Interfaces } from '@oclif/core';
+
+const root = path.resolve(__dirname, '../../..');
+
+// Loads the CLI config without command discovery so that running a command in
+// a test doesn't import (and report coverage for) every other command
+export function loadConfig(): Promise<Config> {
+  const pjson: Interfaces.PJSON = JSON.parse(
+    fs.readFileSync(path.join(root, 'package.json'), 'utf-8')
+  );
+  return Config.load({ root, pjson: { ...pjson, oclif: {} } });
+}
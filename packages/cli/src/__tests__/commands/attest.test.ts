@@ -0,0 +1,116 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import nock from 'nock';
+import path from 'path';
+import Attest from '../../commands/attest';
+import { loadConfig } from '../__fixtures__/config';
+
+describe('Attest', () => {
+  const statement = Buffer.from(JSON.stringify({ _type: 'statement' }));
+  const { privateKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  let tmpDir: string;
+  let statementPath: string;
+  let keyPath: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'attest-command-'));
+    statementPath = path.join(tmpDir, 'statement.json');
+    fs.writeFileSync(statementPath, statement);
+    keyPath = path.join(tmpDir, 'key.pem');
+    fs.writeFileSync(
+      keyPath,
+      privateKey.export({ format: 'pem', type: 'pkcs8' })
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Attest.prototype, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prints a DSSE bundle with the in-toto payload type', async () => {
+    const bundle = await Attest.run(
+      [statementPath, '--key', keyPath, '--no-tlog-upload'],
+      await loadConfig()
+    );
+
+    expect(bundle.mediaType).toEqual(
+      'application/vnd.dev.sigstore.bundle.v0.3+json'
+    );
+    expect(bundle.dsseEnvelope?.payloadType).toEqual(
+      'application/vnd.in-toto+json'
+    );
+    expect(bundle.dsseEnvelope?.payload).toEqual(statement.toString('base64'));
+    expect(bundle.dsseEnvelope?.signatures).toHaveLength(1);
+    expect(Attest.prototype.log).toHaveBeenCalledWith(JSON.stringify(bundle));
+  });
+
+  describe('when the entry is uploaded to a transparency log', () => {
+    const rekorURL = 'https://rekor.example.com';
+
+    beforeEach(() => {
+      jest.spyOn(Attest.prototype, 'logToStderr').mockImplementation();
+
+      const body = { kind: 'intoto', apiVersion: '0.0.2', spec: {} };
+      nock(rekorURL)
+        .post('/api/v1/log/entries')
+        .reply(201, {
+          abc123: {
+            body: Buffer.from(JSON.stringify(body)).toString('base64'),
+            integratedTime: 1654015743,
+            logID:
+              'c0d23d6ad406973f9559f3ba2d1ca01f84147d8ffc5b8445c224f98b9591801d',
+            logIndex: 42,
+          },
+        });
+    });
+
+    it('reports the entry on stderr', async () => {
+      const bundle = await Attest.run(
+        [statementPath, '--key', keyPath, '--rekor-url', rekorURL],
+        await loadConfig()
+      );
+
+      expect(bundle.verificationMaterial.tlogEntries[0].kindVersion).toEqual({
+        kind: 'intoto',
+        version: '0.0.2',
+      });
+      expect(Attest.prototype.logToStderr).toHaveBeenCalledWith(
+        expect.stringContaining(`${rekorURL}/api/v1/log/entries?logIndex=42`)
+      );
+    });
+  });
+
+  describe('when a payload type and output file are supplied', () => {
+    it('writes the bundle to the file', async () => {
+      const outputPath = path.join(tmpDir, 'statement.sigstore.json');
+      const bundle = await Attest.run(
+        [
+          statementPath,
+          '--key',
+          keyPath,
+          '--no-tlog-upload',
+          '--payload-type',
+          'text/plain',
+          '-o',
+          outputPath,
+        ],
+        await loadConfig()
+      );
+
+      expect(bundle.dsseEnvelope?.payloadType).toEqual('text/plain');
+      expect(JSON.parse(fs.readFileSync(outputPath, 'utf-8'))).toEqual(bundle);
+      expect(Attest.prototype.log).not.toHaveBeenCalled();
+    });
+  });
+});
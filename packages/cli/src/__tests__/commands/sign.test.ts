@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import nock from 'nock';
+import path from 'path';
+import Sign from '../../commands/sign';
+import { loadConfig } from '../__fixtures__/config';
+
+describe('Sign', () => {
+  const data = Buffer.from('hello, world');
+  let tmpDir: string;
+  let artifactPath: string;
+
+  // Writes the PEM-encoded private key to the temp directory and returns the
+  // path to the key
+  const writeKey = (name: string, key: crypto.KeyObject): string => {
+    const keyPath = path.join(tmpDir, name);
+    fs.writeFileSync(keyPath, key.export({ format: 'pem', type: 'pkcs8' }));
+    return keyPath;
+  };
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sign-command-'));
+    artifactPath = path.join(tmpDir, 'artifact.txt');
+    fs.writeFileSync(artifactPath, data);
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(Sign.prototype, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('when signing with an ECDSA key', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+
+    it('prints a message signature bundle', async () => {
+      const keyPath = writeKey('ec.pem', privateKey);
+      const bundle = await Sign.run(
+        [artifactPath, '--key', keyPath, '--no-tlog-upload'],
+        await loadConfig()
+      );
+
+      expect(bundle.mediaType).toEqual(
+        'application/vnd.dev.sigstore.bundle.v0.3+json'
+      );
+      expect(bundle.messageSignature?.messageDigest?.digest).toEqual(
+        crypto.createHash('sha256').update(data).digest('base64')
+      );
+      expect(
+        crypto.verify(
+          'sha256',
+          data,
+          publicKey,
+          Buffer.from(bundle.messageSignature!.signature, 'base64')
+        )
+      ).toBe(true);
+      expect(Sign.prototype.log).toHaveBeenCalledWith(JSON.stringify(bundle));
+    });
+  });
+
+  describe('when signing with an Ed25519 key', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+
+    it('signs the full artifact', async () => {
+      const keyPath = writeKey('ed25519.pem', privateKey);
+      const bundle = await Sign.run(
+        [artifactPath, '--key', keyPath, '--no-tlog-upload'],
+        await loadConfig()
+      );
+
+      expect(
+        crypto.verify(
+          null,
+          data,
+          publicKey,
+          Buffer.from(bundle.messageSignature!.signature, 'base64')
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('when the entry is uploaded to a transparency log', () => {
+    const rekorURL = 'https://rekor.example.com';
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+
+    beforeEach(() => {
+      jest.spyOn(Sign.prototype, 'logToStderr').mockImplementation();
+
+      const body = { kind: 'hashedrekord', apiVersion: '0.0.1', spec: {} };
+      nock(rekorURL)
+        .post('/api/v1/log/entries')
+        .reply(201, {
+          abc123: {
+            body: Buffer.from(JSON.stringify(body)).toString('base64'),
+            integratedTime: 1654015743,
+            logID:
+              'c0d23d6ad406973f9559f3ba2d1ca01f84147d8ffc5b8445c224f98b9591801d',
+            logIndex: 42,
+          },
+        });
+    });
+
+    it('reports the entry on stderr', async () => {
+      const keyPath = writeKey('ec.pem', privateKey);
+      const bundle = await Sign.run(
+        [artifactPath, '--key', keyPath, '--rekor-url', rekorURL],
+        await loadConfig()
+      );
+
+      expect(bundle.verificationMaterial.tlogEntries[0].logIndex).toEqual('42');
+      expect(Sign.prototype.logToStderr).toHaveBeenCalledWith(
+        expect.stringContaining(`${rekorURL}/api/v1/log/entries?logIndex=42`)
+      );
+    });
+  });
+
+  describe('when an output file is supplied', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+
+    it('writes the bundle to the file', async () => {
+      const keyPath = writeKey('ec.pem', privateKey);
+      const outputPath = path.join(tmpDir, 'artifact.sigstore.json');
+      const bundle = await Sign.run(
+        [artifactPath, '--key', keyPath, '--no-tlog-upload', '-o', outputPath],
+        await loadConfig()
+      );
+
+      expect(JSON.parse(fs.readFileSync(outputPath, 'utf-8'))).toEqual(bundle);
+      expect(Sign.prototype.log).not.toHaveBeenCalled();
+    });
+  });
+});
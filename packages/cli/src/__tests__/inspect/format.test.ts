@@ -0,0 +1,91 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { bundleFromJSON } from '@sigstore/bundle';
+import { formatInspection, inspectBundle } from '../../inspect';
+import {
+  CERT_CHAIN_BUNDLE,
+  INTOTO_BUNDLE,
+  PUBLIC_KEY_BUNDLE,
+} from '../__fixtures__/bundles';
+
+describe('formatInspection', () => {
+  describe('when the bundle contains a message signature and certificate chain', () => {
+    const inspection = inspectBundle(bundleFromJSON(CERT_CHAIN_BUNDLE));
+
+    it('renders the bundle as text', () => {
+      const text = formatInspection(inspection);
+
+      expect(text).toMatch(
+        /^Media Type: application\/vnd.dev.sigstore.bundle\+json;version=0.1\nContent Type: messageSignature\n/
+      );
+      expect(text).toContain(
+        '\nMessage Signature:\n  Digest: 68e656b251e67e8358bef8483ab0d51c6619f3e7a1a9f0e75838d41ff368f728\n'
+      );
+      expect(text).toContain('\nCertificate [0]:\n  Subject:\n');
+      expect(text).toContain('\nCertificate [1]:\n  Subject: CN=sigstore');
+      expect(text).toContain(
+        '  Subject Alternative Name: https://github.com/foo/bar/.github/workflows/release.yml@refs/heads/main\n'
+      );
+      expect(text).toContain(
+        '  Fulcio Extensions:\n    issuer (1.3.6.1.4.1.57264.1.1): https://token.actions.githubusercontent.com\n'
+      );
+      expect(text).toContain('  Signed Certificate Timestamps:\n    Log ID: ');
+      expect(text).toContain(
+        '\nTransparency Log Entry [0]:\n  Log Index: 6757503\n'
+      );
+      expect(text).toContain(
+        '  Integrated Time: 2022-11-09T01:33:10.000Z\n  Body:\n    {\n      "apiVersion": "0.0.1",\n'
+      );
+      expect(text).not.toContain('Checkpoint:');
+      expect(text).toMatch(
+        /\nRFC 3161 Timestamps:\n {2}2024-05-01T12:00:00.000Z$/
+      );
+    });
+  });
+
+  describe('when the bundle contains an in-toto DSSE envelope', () => {
+    const inspection = inspectBundle(bundleFromJSON(INTOTO_BUNDLE));
+
+    it('renders the bundle as text', () => {
+      const text = formatInspection(inspection);
+
+      expect(text).toContain(
+        '\nDSSE Envelope:\n  Payload Type: application/vnd.in-toto+json\n  Predicate Type: https://slsa.dev/provenance/v1\n'
+      );
+      expect(text).toContain(
+        '  Subjects:\n    foo-1.0.0.tgz:\n      sha256: 68e656b251e67e8358bef8483ab0d51c6619f3e7a1a9f0e75838d41ff368f728\n'
+      );
+      expect(text).toContain('  Signatures:\n    (no keyid): ');
+      expect(text).not.toContain('Integrated Time:');
+      expect(text).toContain('  Checkpoint:\n    rekor-v2.example.com\n');
+      expect(text).not.toContain('RFC 3161 Timestamps:');
+    });
+  });
+
+  describe('when the bundle contains a DSSE envelope signed with a public key', () => {
+    const inspection = inspectBundle(bundleFromJSON(PUBLIC_KEY_BUNDLE));
+
+    it('renders the bundle as text', () => {
+      const text = formatInspection(inspection);
+
+      expect(text).toContain(
+        '\nDSSE Envelope:\n  Payload Type: application/json\n  Payload:\n    {\n      "hello": "world"\n    }\n  Signatures:\n    rekor-v2-key: '
+      );
+      expect(text).toContain('\nPublic Key:\n  Hint: rekor-v2-key\n');
+      expect(text).not.toContain('Certificate [0]:');
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { Bundle, bundleFromJSON } from '@sigstore/bundle';
+import { inspectBundle } from '../../inspect';
+import {
+  CERT_CHAIN_BUNDLE,
+  INTOTO_BUNDLE,
+  PUBLIC_KEY_BUNDLE,
+} from '../__fixtures__/bundles';
+
+describe('inspectBundle', () => {
+  describe('when the bundle contains a message signature and certificate chain', () => {
+    const bundle = bundleFromJSON(CERT_CHAIN_BUNDLE);
+
+    it('returns the decoded bundle', () => {
+      const inspection = inspectBundle(bundle);
+
+      expect(inspection.mediaType).toEqual(
+        'application/vnd.dev.sigstore.bundle+json;version=0.1'
+      );
+      expect(inspection.contentType).toEqual('messageSignature');
+      expect(inspection.messageSignature).toEqual({
+        digest:
+          '68e656b251e67e8358bef8483ab0d51c6619f3e7a1a9f0e75838d41ff368f728',
+        signature: CERT_CHAIN_BUNDLE.messageSignature.signature,
+      });
+      expect(inspection.dsseEnvelope).toBeUndefined();
+      expect(inspection.publicKeyHint).toBeUndefined();
+      expect(inspection.rfc3161Timestamps).toEqual([
+        '2024-05-01T12:00:00.000Z',
+      ]);
+    });
+
+    it('decodes the certificates', () => {
+      const { certificates } = inspectBundle(bundle);
+
+      expect(certificates).toHaveLength(2);
+
+      const [leaf, root] = certificates;
+      expect(leaf.subject).toEqual('');
+      expect(leaf.issuer).toEqual('CN=sigstore, O=sigstore.mock');
+      expect(leaf.serialNumber).toMatch(/^[0-9a-f]+$/);
+      expect(leaf.subjectAltName).toEqual(
+        'https://github.com/foo/bar/.github/workflows/release.yml@refs/heads/main'
+      );
+      expect(leaf.notBefore).toEqual('2024-05-01T12:00:00.000Z');
+      expect(leaf.notAfter).toEqual('2024-05-01T12:10:00.000Z');
+      expect(leaf.extensions).toEqual([
+        {
+          name: 'issuer',
+          oid: '1.3.6.1.4.1.57264.1.1',
+          value: 'https://token.actions.githubusercontent.com',
+        },
+        {
+          name: 'issuer',
+          oid: '1.3.6.1.4.1.57264.1.8',
+          value: 'https://token.actions.githubusercontent.com',
+        },
+        {
+          name: 'sourceRepositoryURI',
+          oid: '1.3.6.1.4.1.57264.1.12',
+          value: 'https://github.com/foo/bar',
+        },
+        {
+          name: '1.3.6.1.4.1.57264.1.99',
+          oid: '1.3.6.1.4.1.57264.1.99',
+          value: 'mystery',
+        },
+      ]);
+      expect(leaf.scts).toHaveLength(1);
+      expect(leaf.scts[0].logID).toMatch(/^[0-9a-f]{64}$/);
+      expect(leaf.scts[0].timestamp).toEqual('2024-05-01T12:00:00.000Z');
+      expect(leaf.scts[0].hashAlgorithm).toEqual('sha256');
+
+      expect(root.subject).toEqual('CN=sigstore, O=sigstore.mock');
+      expect(root.subjectAltName).toBeUndefined();
+      expect(root.extensions).toHaveLength(0);
+      expect(root.scts).toHaveLength(0);
+    });
+
+    it('decodes the tlog entries', () => {
+      const { tlogEntries } = inspectBundle(bundle);
+
+      expect(tlogEntries).toHaveLength(1);
+      expect(tlogEntries[0]).toEqual({
+        logIndex: '6757503',
+        logID:
+          'c0d23d6ad406973f9559f3ba2d1ca01f84147d8ffc5b8445c224f98b9591801d',
+        kind: 'hashedrekord',
+        version: '0.0.1',
+        integratedTime: '2022-11-09T01:33:10.000Z',
+        body: expect.objectContaining({
+          apiVersion: '0.0.1',
+          kind: 'hashedrekord',
+        }),
+        checkpoint: undefined,
+      });
+    });
+  });
+
+  describe('when the bundle contains an in-toto DSSE envelope', () => {
+    const bundle = bundleFromJSON(INTOTO_BUNDLE);
+
+    it('returns the decoded bundle', () => {
+      const inspection = inspectBundle(bundle);
+
+      expect(inspection.contentType).toEqual('dsseEnvelope');
+      expect(inspection.messageSignature).toBeUndefined();
+      expect(inspection.certificates).toHaveLength(1);
+      expect(inspection.rfc3161Timestamps).toHaveLength(0);
+    });
+
+    it('decodes the in-toto statement', () => {
+      const { dsseEnvelope } = inspectBundle(bundle);
+
+      expect(dsseEnvelope?.payloadType).toEqual('application/vnd.in-toto+json');
+      expect(dsseEnvelope?.payload).toEqual(
+        expect.objectContaining({ _type: 'https://in-toto.io/Statement/v1' })
+      );
+      expect(dsseEnvelope?.predicateType).toEqual(
+        'https://slsa.dev/provenance/v1'
+      );
+      expect(dsseEnvelope?.subjects).toEqual([
+        {
+          name: 'foo-1.0.0.tgz',
+          digest: {
+            sha256:
+              '68e656b251e67e8358bef8483ab0d51c6619f3e7a1a9f0e75838d41ff368f728',
+          },
+        },
+      ]);
+      expect(dsseEnvelope?.signatures).toEqual([
+        { keyid: '', sig: INTOTO_BUNDLE.dsseEnvelope.signatures[0].sig },
+      ]);
+    });
+
+    it('decodes the Rekor v2 tlog entry', () => {
+      const { tlogEntries } = inspectBundle(bundle);
+
+      expect(tlogEntries).toHaveLength(1);
+      expect(tlogEntries[0].kind).toEqual('dsse');
+      expect(tlogEntries[0].version).toEqual('0.0.2');
+      expect(tlogEntries[0].integratedTime).toBeUndefined();
+      expect(tlogEntries[0].checkpoint).toMatch(/^rekor-v2.example.com\n/);
+    });
+
+    describe('when the statement has no subjects', () => {
+      const noSubject: Bundle = {
+        ...bundle,
+        content: {
+          $case: 'dsseEnvelope',
+          dsseEnvelope: {
+            payloadType: 'application/vnd.in-toto+json',
+            payload: Buffer.from('{}'),
+            signatures: [],
+          },
+        },
+      };
+
+      it('returns an empty list of subjects', () => {
+        const { dsseEnvelope } = inspectBundle(noSubject);
+
+        expect(dsseEnvelope?.subjects).toEqual([]);
+        expect(dsseEnvelope?.predicateType).toBeUndefined();
+      });
+    });
+  });
+
+  describe('when the bundle contains a DSSE envelope signed with a public key', () => {
+    const bundle = bundleFromJSON(PUBLIC_KEY_BUNDLE);
+
+    it('returns the decoded bundle', () => {
+      const inspection = inspectBundle(bundle);
+
+      expect(inspection.publicKeyHint).toEqual('rekor-v2-key');
+      expect(inspection.certificates).toHaveLength(0);
+      expect(inspection.dsseEnvelope?.payloadType).toEqual('application/json');
+      expect(inspection.dsseEnvelope?.payload).toEqual({ hello: 'world' });
+      expect(inspection.dsseEnvelope?.subjects).toBeUndefined();
+    });
+
+    describe('when the payload is not JSON', () => {
+      const text: Bundle = {
+        ...bundle,
+        content: {
+          $case: 'dsseEnvelope',
+          dsseEnvelope: {
+            payloadType: 'text/plain',
+            payload: Buffer.from('hello, world!'),
+            signatures: [],
+          },
+        },
+      };
+
+      it('returns the payload as a string', () => {
+        const { dsseEnvelope } = inspectBundle(text);
+
+        expect(dsseEnvelope?.payload).toEqual('hello, world!');
+      });
+    });
+  });
+});
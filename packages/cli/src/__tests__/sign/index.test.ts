@@ -0,0 +1,282 @@
+import {
+  CIContextProvider,
+  DEFAULT_REKOR_URL,
+  FulcioSigner,
+  KeySigner,
+  RekorWitness,
+  TSAWitness,
+} from '@sigstore/sign';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OAuthIdentityProvider } from '../../oauth';
+import {
+  formatRekorEntry,
+  initIdentityProvider,
+  initSignOptions,
+  initSigner,
+  initWitnesses,
+  isEd25519Key,
+} from '../../sign';
+
+import type { Bundle } from '@sigstore/sign';
+import type { SignFlags, SignOptions } from '../../sign';
+
+// Flag values as parsed by oclif when no flags are supplied
+const defaultFlags: SignFlags = {
+  'fulcio-url': undefined,
+  'rekor-url': undefined,
+  'tsa-server-url': undefined,
+  'use-signing-config': false,
+  'request-timestamp': false,
+  'tlog-upload': true,
+  'tuf-mirror-url': undefined,
+  'tuf-root-path': undefined,
+  'tuf-cache-path': undefined,
+  'tuf-force-cache': false,
+  'oidc-client-id': 'sigstore',
+  'oidc-client-secret': undefined,
+  'oidc-issuer': 'https://oauth2.sigstore.dev/auth',
+  'oidc-redirect-url': undefined,
+  key: undefined,
+  'key-passphrase': undefined,
+  'output-file': undefined,
+  timeout: 5,
+  json: undefined,
+};
+
+const defaultOptions: SignOptions = {
+  identityProvider: { getToken: jest.fn() },
+  rekorServices: [],
+  tsaServerURLs: [],
+};
+
+describe('initSignOptions', () => {
+  let tmpDir: string;
+  let keyPath: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sign-options-'));
+    keyPath = path.join(tmpDir, 'key.pem');
+    fs.writeFileSync(keyPath, 'key');
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('when the service URLs are supplied', () => {
+    it('returns the supplied services', async () => {
+      const options = await initSignOptions({
+        ...defaultFlags,
+        'fulcio-url': 'https://fulcio.example.com',
+        'rekor-url': 'https://rekor.example.com',
+        'tsa-server-url': 'https://tsa.example.com',
+        'key-passphrase': 'secret',
+        timeout: 10,
+      });
+
+      expect(options).toEqual({
+        fulcioURL: 'https://fulcio.example.com',
+        privateKey: undefined,
+        privateKeyPassphrase: 'secret',
+        rekorServices: [
+          { url: 'https://rekor.example.com', majorApiVersion: 1 },
+        ],
+        tsaServerURLs: ['https://tsa.example.com'],
+        identityProvider: expect.anything(),
+        timeout: 10000,
+      });
+    });
+  });
+
+  describe('when a key is supplied and the tlog upload is disabled', () => {
+    it('reads the key and selects no services', async () => {
+      const options = await initSignOptions({
+        ...defaultFlags,
+        key: keyPath,
+        'tlog-upload': false,
+      });
+
+      expect(options.privateKey).toEqual(Buffer.from('key'));
+      expect(options.fulcioURL).toBeUndefined();
+      expect(options.rekorServices).toHaveLength(0);
+      expect(options.tsaServerURLs).toHaveLength(0);
+    });
+  });
+});
+
+describe('initIdentityProvider', () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  describe('when running in CI', () => {
+    beforeEach(() => {
+      process.env = { ...env, CI: 'true' };
+    });
+
+    it('returns a CI context provider', () => {
+      expect(initIdentityProvider(defaultFlags)).toBeInstanceOf(
+        CIContextProvider
+      );
+    });
+  });
+
+  describe('when CI is disabled', () => {
+    beforeEach(() => {
+      process.env = { ...env, CI: 'false' };
+    });
+
+    it('returns an OAuth identity provider', () => {
+      expect(initIdentityProvider(defaultFlags)).toBeInstanceOf(
+        OAuthIdentityProvider
+      );
+    });
+  });
+});
+
+describe('initSigner', () => {
+  describe('when a private key is supplied', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+
+    it('returns a key signer', () => {
+      const signer = initSigner({
+        ...defaultOptions,
+        privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }),
+      });
+
+      expect(signer).toBeInstanceOf(KeySigner);
+    });
+  });
+
+  describe('when no private key is supplied', () => {
+    it('returns a Fulcio signer', () => {
+      const signer = initSigner({
+        ...defaultOptions,
+        fulcioURL: 'https://fulcio.example.com',
+      });
+
+      expect(signer).toBeInstanceOf(FulcioSigner);
+    });
+  });
+});
+
+describe('initWitnesses', () => {
+  it('returns a witness for each service', () => {
+    const witnesses = initWitnesses({
+      ...defaultOptions,
+      rekorServices: [
+        { url: 'https://rekor.example.com', majorApiVersion: 1 },
+        { url: 'https://log2025.example.com', majorApiVersion: 2 },
+      ],
+      tsaServerURLs: ['https://tsa.example.com'],
+    });
+
+    expect(witnesses).toHaveLength(3);
+    expect(witnesses[0]).toBeInstanceOf(RekorWitness);
+    expect(witnesses[1]).toBeInstanceOf(RekorWitness);
+    expect(witnesses[2]).toBeInstanceOf(TSAWitness);
+  });
+
+  it('returns no witnesses when there are no services', () => {
+    expect(initWitnesses(defaultOptions, 'intoto')).toHaveLength(0);
+  });
+});
+
+describe('formatRekorEntry', () => {
+  const bundle = {
+    verificationMaterial: { tlogEntries: [{ logIndex: '42' }] },
+  } as unknown as Bundle;
+
+  describe('when the entry is in the public-good instance', () => {
+    it('returns a link to the search UI', () => {
+      const options: SignOptions = {
+        ...defaultOptions,
+        rekorServices: [{ url: DEFAULT_REKOR_URL, majorApiVersion: 1 }],
+      };
+
+      expect(formatRekorEntry(options, bundle)).toEqual([
+        'Created entry at index 42, available at',
+        'https://search.sigstore.dev?logIndex=42',
+      ]);
+    });
+  });
+
+  describe('when the entry is in a Rekor v1 log', () => {
+    it('returns a link to the entry', () => {
+      const options: SignOptions = {
+        ...defaultOptions,
+        rekorServices: [
+          { url: 'https://rekor.example.com', majorApiVersion: 1 },
+        ],
+      };
+
+      expect(formatRekorEntry(options, bundle)).toEqual([
+        'Created entry at index 42, available at',
+        'https://rekor.example.com/api/v1/log/entries?logIndex=42',
+      ]);
+    });
+  });
+
+  describe('when the entry is in a Rekor v2 log', () => {
+    it('returns the log index', () => {
+      const options: SignOptions = {
+        ...defaultOptions,
+        rekorServices: [
+          { url: 'https://log2025.example.com', majorApiVersion: 2 },
+        ],
+      };
+
+      expect(formatRekorEntry(options, bundle)).toEqual([
+        'Created entry at index 42 in https://log2025.example.com',
+      ]);
+    });
+  });
+
+  describe('when the bundle was not uploaded to a log', () => {
+    it('returns nothing', () => {
+      const unlogged = {
+        verificationMaterial: { tlogEntries: [] },
+      } as unknown as Bundle;
+
+      expect(formatRekorEntry(defaultOptions, unlogged)).toEqual([]);
+    });
+  });
+});
+
+describe('isEd25519Key', () => {
+  const ed25519 = crypto.generateKeyPairSync('ed25519').privateKey;
+  const ec = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  it('returns true for a PEM-encoded Ed25519 key', () => {
+    const privateKey = Buffer.from(
+      ed25519.export({ format: 'pem', type: 'pkcs8' })
+    );
+    expect(isEd25519Key({ ...defaultOptions, privateKey })).toBe(true);
+  });
+
+  it('returns true for a DER-encoded Ed25519 key', () => {
+    const privateKey = ed25519.export({ format: 'der', type: 'pkcs8' });
+    expect(isEd25519Key({ ...defaultOptions, privateKey })).toBe(true);
+  });
+
+  it('returns false for an ECDSA key', () => {
+    const privateKey = ec.privateKey.export({ format: 'der', type: 'pkcs8' });
+    expect(isEd25519Key({ ...defaultOptions, privateKey })).toBe(false);
+  });
+
+  it('returns false for an invalid key', () => {
+    const privateKey = Buffer.from('not a key');
+    expect(isEd25519Key({ ...defaultOptions, privateKey })).toBe(false);
+  });
+
+  it('returns false when there is no key', () => {
+    expect(isEd25519Key(defaultOptions)).toBe(false);
+  });
+});
@@ -1,30 +1,15 @@
 import color from '@oclif/color';
 import { Args, Command, Flags } from '@oclif/core';
 import { SerializedBundle, bundleToJSON } from '@sigstore/bundle';
-import {
-  Bundle,
-  BundleBuilder,
-  CIContextProvider,
-  DEFAULT_REKOR_URL,
-  DSSEBundleBuilder,
-  FulcioSigner,
-  IdentityProvider,
-  RekorWitness,
-  TSAWitness,
-  Witness,
-} from '@sigstore/sign';
+import { DSSEBundleBuilder } from '@sigstore/sign';
 import fs from 'fs/promises';
-import { OAuthIdentityProvider } from '../oauth';
-
-const OIDC_AUDIENCE = 'sigstore';
-
-type SignOptions = {
-  fulcioURL: string;
-  identityProvider: IdentityProvider;
-  rekorURL?: string;
-  tsaServerURL?: string;
-  timeout?: number;
-};
+import {
+  formatRekorEntry,
+  initSignOptions,
+  initSigner,
+  initWitnesses,
+  signFlags,
+} from '../sign';
 
 export default class Attest extends Command {
   static override description = 'attest the supplied file';
@@ -34,45 +19,7 @@ export default class Attest extends Command {
   static override enableJsonFlag = true;
 
   static override flags = {
-    'fulcio-url': Flags.string({
-      description: 'URL to the Sigstore PKI server',
-      default: 'https://fulcio.sigstore.dev',
-      required: false,
-    }),
-    'rekor-url': Flags.string({
-      description: 'URL to the Rekor transparency log',
-      default: 'https://rekor.sigstore.dev',
-      required: false,
-    }),
-    'tsa-server-url': Flags.string({
-      description: 'URL to the Timestamping Authority',
-      required: false,
-    }),
-    'tlog-upload': Flags.boolean({
-      description: 'whether or not to upload entry to the transparency log',
-      default: true,
-      required: false,
-      allowNo: true,
-    }),
-    'oidc-client-id': Flags.string({
-      description: 'OIDC client ID for application',
-      default: 'sigstore',
-      required: false,
-    }),
-    'oidc-client-secret': Flags.string({
-      description: 'OIDC client secret for application',
-      required: false,
-    }),
-    'oidc-issuer': Flags.string({
-      description: 'OIDC provider to be used to issue ID token',
-      default: 'https://oauth2.sigstore.dev/auth',
-      required: false,
-    }),
-    'oidc-redirect-url': Flags.string({
-      description: 'OIDC redirect URL',
-      required: false,
-      env: 'OIDC_REDIRECT_URL',
-    }),
+    ...signFlags,
     'payload-type': Flags.string({
       char: 't',
       description: 'MIME or content type to apply to the DSSE envelope',
@@ -80,17 +27,6 @@ export default class Attest extends Command {
       required: false,
       aliases: ['type'],
     }),
-    'output-file': Flags.string({
-      char: 'o',
-      description: 'write output to file',
-      required: false,
-      aliases: ['output', 'out'],
-    }),
-    timeout: Flags.integer({
-      description: 'timeout in seconds for API requests',
-      default: 5,
-      required: false,
-    }),
   };
 
   static override args = {
@@ -103,36 +39,22 @@ export default class Attest extends Command {
 
   public async run(): Promise<SerializedBundle> {
     const { args, flags } = await this.parse(Attest);
+    const options = await initSignOptions(flags);
 
-    // If we're running in CI, we don't want to try to authenticate with an
-    // OAuth provider because we won't be able to interactively authenticate.
-    const identityProvider =
-      'CI' in process.env && process.env.CI !== 'false'
-        ? new CIContextProvider(OIDC_AUDIENCE)
-        : new OAuthIdentityProvider({
-            issuer: flags['oidc-issuer'],
-            clientID: flags['oidc-client-id'],
-            clientSecret: flags['oidc-client-secret'],
-            redirectURL: flags['oidc-redirect-url'],
-          });
-
-    const options: SignOptions = {
-      fulcioURL: flags['fulcio-url'],
-      tsaServerURL: flags['tsa-server-url'],
-      rekorURL: flags['tlog-upload'] ? flags['rekor-url'] : undefined,
-      identityProvider,
-      timeout: flags.timeout * 1000,
-    };
-
-    const bundler = initBundleBuilder(options);
+    // Build the bundle with the singleCertificate option which will
+    // trigger the creation of v0.3 DSSE bundles
+    const bundler = new DSSEBundleBuilder({
+      signer: initSigner(options),
+      witnesses: initWitnesses(options, 'intoto'),
+    });
 
     const bundle = await fs
       .readFile(args.file)
       .then((data) => bundler.create({ data, type: flags['payload-type'] }));
 
     const jsonBundle = bundleToJSON(bundle);
-    if (uploadedToTLog(bundle)) {
-      this.printRekorEntry(flags['rekor-url'], bundle);
+    for (const line of formatRekorEntry(options, bundle)) {
+      this.logToStderr(color.yellow(line));
     }
 
     if (flags['output-file']) {
@@ -143,53 +65,4 @@ export default class Attest extends Command {
 
     return jsonBundle;
   }
-
-  private printRekorEntry(baseURL: string, bundle: Bundle) {
-    const url =
-      baseURL === DEFAULT_REKOR_URL
-        ? `https://search.sigstore.dev`
-        : `${baseURL}/api/v1/log/entries`;
-    const logIndex = bundle.verificationMaterial.tlogEntries[0].logIndex;
-    this.logToStderr(
-      color.yellow(`Created entry at index ${logIndex}, available at`)
-    );
-    this.logToStderr(color.yellow(`${url}?logIndex=${logIndex}`));
-  }
 }
-
-function uploadedToTLog(bundle: Bundle): boolean {
-  return bundle.verificationMaterial.tlogEntries.length > 0;
-}
-
-const initBundleBuilder = (opts: SignOptions): BundleBuilder => {
-  const witnesses: Witness[] = [];
-
-  const signer = new FulcioSigner({
-    identityProvider: opts.identityProvider,
-    fulcioBaseURL: opts.fulcioURL,
-    timeout: opts.timeout,
-  });
-
-  if (opts.rekorURL) {
-    witnesses.push(
-      new RekorWitness({
-        rekorBaseURL: opts.rekorURL,
-        entryType: 'intoto',
-        timeout: opts.timeout,
-      })
-    );
-  }
-
-  if (opts.tsaServerURL) {
-    witnesses.push(
-      new TSAWitness({
-        tsaBaseURL: opts.tsaServerURL,
-        timeout: opts.timeout,
-      })
-    );
-  }
-
-  // Build the bundle with the singleCertificate option which will
-  // trigger the creation of v0.3 DSSE bundles
-  return new DSSEBundleBuilder({ signer, witnesses });
-};
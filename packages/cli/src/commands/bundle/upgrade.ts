@@ -0,0 +1,72 @@
+import { Args, Command, Flags } from '@oclif/core';
+import {
+  SerializedBundle,
+  TransparencyLogEntry,
+  bundleFromJSON,
+  bundleToJSON,
+  upgradeBundle,
+} from '@sigstore/bundle';
+import { RekorClient } from '@sigstore/sign';
+import fs from 'fs/promises';
+
+export default class BundleUpgrade extends Command {
+  static override description =
+    'upgrade the supplied .sigstore bundle file to the latest bundle version';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ./bundle.sigstore',
+    '<%= config.bin %> <%= command.id %> --fetch-proofs ./bundle.sigstore',
+  ];
+  static override enableJsonFlag = true;
+
+  static override flags = {
+    'fetch-proofs': Flags.boolean({
+      description:
+        'fetch any missing inclusion proofs from the Rekor transparency log. Required for bundles with entries which carry only an inclusion promise',
+      default: false,
+    }),
+    'rekor-url': Flags.string({
+      description: 'URL to the Rekor transparency log',
+      default: 'https://rekor.sigstore.dev',
+      required: false,
+    }),
+    'output-file': Flags.string({
+      char: 'o',
+      description: 'write output to file',
+      required: false,
+      aliases: ['output', 'out'],
+    }),
+  };
+
+  static override args = {
+    bundle: Args.file({
+      description: 'bundle to upgrade',
+      required: true,
+      exists: true,
+    }),
+  };
+
+  public async run(): Promise<SerializedBundle> {
+    const { args, flags } = await this.parse(BundleUpgrade);
+
+    const bundle = await fs
+      .readFile(args.bundle)
+      .then((data) => bundleFromJSON(JSON.parse(data.toString())));
+
+    const rekor = new RekorClient();
+    const fetchProofs = flags['fetch-proofs']
+      ? (entry: TransparencyLogEntry) =>
+          rekor.getInclusionProof(flags['rekor-url'], entry)
+      : undefined;
+
+    const upgraded = await upgradeBundle(bundle, { fetchProofs });
+
+    const jsonBundle = bundleToJSON(upgraded);
+    if (flags['output-file']) {
+      await fs.writeFile(flags['output-file'], JSON.stringify(jsonBundle));
+    } else {
+      this.log(JSON.stringify(jsonBundle));
+    }
+
+    return jsonBundle;
+  }
+}
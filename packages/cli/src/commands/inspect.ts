@@ -0,0 +1,37 @@
+import { Args, Command } from '@oclif/core';
+import { bundleFromJSON } from '@sigstore/bundle';
+import fs from 'fs/promises';
+import { BundleInspection, formatInspection, inspectBundle } from '../inspect';
+
+export default class Inspect extends Command {
+  static override description =
+    'display the decoded contents of the supplied .sigstore bundle file';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ./bundle.sigstore',
+    '<%= config.bin %> <%= command.id %> --json ./bundle.sigstore',
+  ];
+  static override enableJsonFlag = true;
+
+  static override args = {
+    bundle: Args.file({
+      description: 'bundle to inspect',
+      required: true,
+      exists: true,
+    }),
+  };
+
+  public async run(): Promise<BundleInspection> {
+    const { args } = await this.parse(Inspect);
+
+    const bundle = await fs
+      .readFile(args.bundle)
+      .then((data) => bundleFromJSON(JSON.parse(data.toString())));
+
+    const inspection = inspectBundle(bundle);
+
+    // Text output is suppressed when the --json flag is set
+    this.log(formatInspection(inspection));
+
+    return inspection;
+  }
+}
@@ -0,0 +1,65 @@
+import color from '@oclif/color';
+import { Args, Command } from '@oclif/core';
+import { SerializedBundle, bundleToJSON } from '@sigstore/bundle';
+import { MessageSignatureBundleBuilder } from '@sigstore/sign';
+import { createReadStream } from 'fs';
+import fs from 'fs/promises';
+import {
+  formatRekorEntry,
+  initSignOptions,
+  initSigner,
+  initWitnesses,
+  isEd25519Key,
+  signFlags,
+} from '../sign';
+
+export default class Sign extends Command {
+  static override description = 'sign the supplied file';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> ./artifact.tgz',
+  ];
+  static override enableJsonFlag = true;
+
+  static override flags = signFlags;
+
+  static override args = {
+    file: Args.file({
+      description: 'file to sign',
+      required: true,
+      exists: true,
+    }),
+  };
+
+  public async run(): Promise<SerializedBundle> {
+    const { args, flags } = await this.parse(Sign);
+    const options = await initSignOptions(flags);
+
+    // Disable the certificate chain representation which will trigger the
+    // creation of v0.3 message signature bundles
+    const bundler = new MessageSignatureBundleBuilder({
+      signer: initSigner(options),
+      witnesses: initWitnesses(options),
+      certificateChain: false,
+    });
+
+    // The file is streamed from disk and hashed incrementally unless the
+    // signing key requires the full message
+    const data = isEd25519Key(options)
+      ? await fs.readFile(args.file)
+      : createReadStream(args.file);
+    const bundle = await bundler.create({ data });
+
+    const jsonBundle = bundleToJSON(bundle);
+    for (const line of formatRekorEntry(options, bundle)) {
+      this.logToStderr(color.yellow(line));
+    }
+
+    if (flags['output-file']) {
+      await fs.writeFile(flags['output-file'], JSON.stringify(jsonBundle));
+    } else {
+      this.log(JSON.stringify(jsonBundle));
+    }
+
+    return jsonBundle;
+  }
+}
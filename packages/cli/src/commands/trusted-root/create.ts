@@ -0,0 +1,229 @@
+import { Command, Flags } from '@oclif/core';
+import { TrustedRootBuilder } from '@sigstore/verify';
+import fs from 'fs/promises';
+
+import type { ValidityPeriod } from '@sigstore/verify';
+
+const PEM_CERTIFICATE =
+  /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+// Parses an ISO 8601 time interval of the form <start>/<end>, where either
+// date may be omitted
+const validityPeriod = Flags.custom<ValidityPeriod>({
+  parse: async (input) => {
+    const [start, end, ...rest] = input.split('/');
+    if (end === undefined || rest.length > 0) {
+      throw new Error(`invalid interval: ${input}`);
+    }
+    return { start: parseDate(start), end: parseDate(end) };
+  },
+});
+
+export default class TrustedRootCreate extends Command {
+  static override description =
+    'create a trusted root from the key material of a set of Sigstore services';
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> --ca ./fulcio-chain.pem --ca-uri https://fulcio.example.com --tlog-key ./rekor.pub --tlog-url https://rekor.example.com --ctlog-key ./ctfe.pub --ctlog-url https://ctfe.example.com -o trusted_root.json',
+  ];
+  static override enableJsonFlag = true;
+
+  static override flags = {
+    ca: Flags.file({
+      description:
+        'Path to a PEM or DER-encoded certificate chain for a certificate authority, ordered from the issuing certificate to the root. May be specified multiple times',
+      exists: true,
+      multiple: true,
+    }),
+    'ca-uri': Flags.string({
+      description:
+        'URI of the certificate authority. When specified, must be given once for each --ca',
+      multiple: true,
+    }),
+    'ca-valid-for': validityPeriod({
+      description:
+        'ISO 8601 interval (<start>/<end>) during which the certificate authority is trusted. Either end may be omitted; the start defaults to the issuance of the certificate and the end to never. When specified, must be given once for each --ca',
+      multiple: true,
+    }),
+    tsa: Flags.file({
+      description:
+        'Path to a PEM or DER-encoded certificate chain for a timestamp authority, ordered from the signing certificate to the root. May be specified multiple times',
+      exists: true,
+      multiple: true,
+    }),
+    'tsa-uri': Flags.string({
+      description:
+        'URI of the timestamp authority. When specified, must be given once for each --tsa',
+      multiple: true,
+    }),
+    'tsa-valid-for': validityPeriod({
+      description:
+        'ISO 8601 interval (<start>/<end>) during which the timestamp authority is trusted. Either end may be omitted; the start defaults to the issuance of the certificate and the end to never. When specified, must be given once for each --tsa',
+      multiple: true,
+    }),
+    'tlog-key': Flags.file({
+      description:
+        'Path to the PEM or DER-encoded public key of a transparency log. May be specified multiple times',
+      exists: true,
+      multiple: true,
+      dependsOn: ['tlog-url'],
+    }),
+    'tlog-url': Flags.string({
+      description:
+        'Base URL of the transparency log. Must be given once for each --tlog-key',
+      multiple: true,
+      dependsOn: ['tlog-key'],
+    }),
+    'tlog-valid-for': validityPeriod({
+      description:
+        'ISO 8601 interval (<start>/<end>) during which the transparency log is trusted. Either end may be omitted; the start defaults to the beginning of time and the end to never. When specified, must be given once for each --tlog-key',
+      multiple: true,
+    }),
+    'ctlog-key': Flags.file({
+      description:
+        'Path to the PEM or DER-encoded public key of a certificate transparency log. May be specified multiple times',
+      exists: true,
+      multiple: true,
+      dependsOn: ['ctlog-url'],
+    }),
+    'ctlog-url': Flags.string({
+      description:
+        'Base URL of the certificate transparency log. Must be given once for each --ctlog-key',
+      multiple: true,
+      dependsOn: ['ctlog-key'],
+    }),
+    'ctlog-valid-for': validityPeriod({
+      description:
+        'ISO 8601 interval (<start>/<end>) during which the certificate transparency log is trusted. Either end may be omitted; the start defaults to the beginning of time and the end to never. When specified, must be given once for each --ctlog-key',
+      multiple: true,
+    }),
+    'output-file': Flags.string({
+      char: 'o',
+      description: 'write output to file',
+      required: false,
+      aliases: ['output', 'out'],
+    }),
+  };
+
+  public async run(): Promise<unknown> {
+    const { flags } = await this.parse(TrustedRootCreate);
+
+    const builder = new TrustedRootBuilder();
+
+    const cas = this.pair(flags['ca'], flags['ca-uri'], '--ca', '--ca-uri');
+    const caValidFor = this.pair(
+      flags['ca'],
+      flags['ca-valid-for'],
+      '--ca',
+      '--ca-valid-for'
+    );
+    for (const [i, [path, uri]] of cas.entries()) {
+      const certChain = await readCertChain(path);
+      const validFor = caValidFor[i][1];
+      builder.addCertificateAuthority({ certChain, uri, validFor });
+    }
+
+    const tsas = this.pair(
+      flags['tsa'],
+      flags['tsa-uri'],
+      '--tsa',
+      '--tsa-uri'
+    );
+    const tsaValidFor = this.pair(
+      flags['tsa'],
+      flags['tsa-valid-for'],
+      '--tsa',
+      '--tsa-valid-for'
+    );
+    for (const [i, [path, uri]] of tsas.entries()) {
+      const certChain = await readCertChain(path);
+      const validFor = tsaValidFor[i][1];
+      builder.addTimestampAuthority({ certChain, uri, validFor });
+    }
+
+    const tlogs = this.pair(
+      flags['tlog-key'],
+      flags['tlog-url'],
+      '--tlog-key',
+      '--tlog-url'
+    );
+    const tlogValidFor = this.pair(
+      flags['tlog-key'],
+      flags['tlog-valid-for'],
+      '--tlog-key',
+      '--tlog-valid-for'
+    );
+    for (const [i, [path, baseURL]] of tlogs.entries()) {
+      const publicKey = await readPublicKey(path);
+      const validFor = tlogValidFor[i][1];
+      builder.addTLog({ baseURL: baseURL!, publicKey, validFor });
+    }
+
+    const ctlogs = this.pair(
+      flags['ctlog-key'],
+      flags['ctlog-url'],
+      '--ctlog-key',
+      '--ctlog-url'
+    );
+    const ctlogValidFor = this.pair(
+      flags['ctlog-key'],
+      flags['ctlog-valid-for'],
+      '--ctlog-key',
+      '--ctlog-valid-for'
+    );
+    for (const [i, [path, baseURL]] of ctlogs.entries()) {
+      const publicKey = await readPublicKey(path);
+      const validFor = ctlogValidFor[i][1];
+      builder.addCTLog({ baseURL: baseURL!, publicKey, validFor });
+    }
+
+    const json = builder.toJSON();
+    if (flags['output-file']) {
+      await fs.writeFile(flags['output-file'], JSON.stringify(json, null, 2));
+    } else {
+      this.log(JSON.stringify(json, null, 2));
+    }
+
+    return json;
+  }
+
+  // Matches each of the given files with the value supplied at the same
+  // position for the companion flag
+  private pair<T>(
+    files: string[] = [],
+    values: T[] | undefined,
+    fileFlag: string,
+    valueFlag: string
+  ): [string, T | undefined][] {
+    if (values && values.length !== files.length) {
+      this.error(`${valueFlag} must be specified once for each ${fileFlag}`);
+    }
+
+    return files.map((file, i) => [file, values?.[i]]);
+  }
+}
+
+// Reads a file containing one or more PEM-encoded certificates or a single
+// DER-encoded certificate
+async function readCertChain(path: string): Promise<(string | Buffer)[]> {
+  const data = await fs.readFile(path);
+  const pem = data.toString('utf8').match(PEM_CERTIFICATE);
+  return pem || [data];
+}
+
+async function readPublicKey(path: string): Promise<string | Buffer> {
+  const data = await fs.readFile(path);
+  const text = data.toString('utf8');
+  return text.includes('-----BEGIN') ? text : data;
+}
+
+function parseDate(input: string): Date | undefined {
+  if (!input) {
+    return undefined;
+  }
+
+  const date = new Date(input);
+  if (isNaN(date.getTime())) {
+    throw new Error(`invalid date: ${input}`);
+  }
+  return date;
+}
@@ -1,5 +1,7 @@
 import { Args, Command, Flags } from '@oclif/core';
+import { createReadStream } from 'fs';
 import fs from 'fs/promises';
+import { Readable } from 'stream';
 import * as sigstore from 'sigstore';
 
 export default class Verify extends Command {
@@ -37,6 +39,17 @@ export default class Verify extends Command {
       dependsOn: ['certificate-issuer'],
       exclusive: ['certificate-identity-email'],
     }),
+    'trusted-root': Flags.file({
+      description:
+        'Path to a trusted_root.json file to use for verification. Skips retrieval of the trusted root from the Sigstore TUF repository',
+      exists: true,
+      exclusive: [
+        'tuf-mirror-url',
+        'tuf-root-path',
+        'tuf-cache-path',
+        'tuf-force-cache',
+      ],
+    }),
     'tuf-mirror-url': Flags.string({
       description: 'Base URL for the Sigstore TUF repository',
     }),
@@ -53,16 +66,33 @@ export default class Verify extends Command {
       default: false,
       required: false,
     }),
+    crl: Flags.file({
+      description:
+        'Path to a PEM or DER-encoded CRL used to check the revocation status of certificates. May be specified multiple times',
+      exists: true,
+      multiple: true,
+    }),
+    'revocation-mode': Flags.option({
+      description:
+        'Whether certificates without a current CRL from their issuer are rejected (hard-fail) or accepted (soft-fail)',
+      options: ['soft-fail', 'hard-fail'] as const,
+      default: 'soft-fail',
+    })(),
     'blob-file': Flags.file({
       description:
         'File containing data to verify. Only required if bundle was not signed using attest',
       exists: true,
-      exclusive: ['blob'],
+      exclusive: ['blob', 'digest'],
     }),
     blob: Flags.string({
       description:
         'Base64 encoded data to verify. Only required if bundle was not signed using attest',
-      exclusive: ['blob-file'],
+      exclusive: ['blob-file', 'digest'],
+    }),
+    digest: Flags.string({
+      description:
+        'Hex encoded digest of the data to verify, optionally prefixed with the algorithm (e.g. sha256:<hex>). May be used in place of the data when verifying a bundle signed using sign',
+      exclusive: ['blob', 'blob-file'],
     }),
   };
 
@@ -83,21 +113,29 @@ export default class Verify extends Command {
       certificateIssuer: flags['certificate-issuer'],
       certificateIdentityEmail: flags['certificate-identity-email'],
       certificateIdentityURI: flags['certificate-identity-uri'],
+      trustedRootPath: flags['trusted-root'],
       tufMirrorURL: flags['tuf-mirror-url'],
       tufRootPath: flags['tuf-root-path'],
       tufCachePath: flags['tuf-cache-path'],
       tufForceCache: flags['tuf-force-cache'],
+      crlPaths: flags['crl'],
+      revocationMode: flags['revocation-mode'],
     };
 
     const bundle = await fs
       .readFile(args.bundle)
       .then((data) => JSON.parse(data.toString()));
 
-    let blob: Buffer | undefined;
+    let blob: Buffer | Readable | { digest: Buffer } | undefined;
     if (flags['blob-file']) {
-      blob = await fs.readFile(flags['blob-file']).then(Buffer.from);
+      // Stream the file so that it is never loaded in to memory in full. The
+      // file is only read in full when the bundle was signed with an Ed25519
+      // key, as those signatures cannot be verified against a digest.
+      blob = createReadStream(flags['blob-file']);
     } else if (flags['blob']) {
       blob = Buffer.from(flags['data'], 'base64');
+    } else if (flags['digest']) {
+      blob = { digest: toDigest(flags['digest']) };
     }
 
     return (
@@ -110,3 +148,13 @@ export default class Verify extends Command {
     });
   }
 }
+
+// Parses a hex-encoded digest with an optional "<algorithm>:" prefix. The
+// algorithm itself is implied by the digest recorded in the bundle.
+function toDigest(value: string): Buffer {
+  const hex = value.includes(':') ? value.slice(value.indexOf(':') + 1) : value;
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) {
+    throw new Error(`invalid digest: ${value}`);
+  }
+  return Buffer.from(hex, 'hex');
+}
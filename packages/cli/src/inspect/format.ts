@@ -0,0 +1,134 @@
+import type { BundleInspection, CertificateInspection } from './index';
+
+const INDENT = '  ';
+
+// Renders the bundle inspection as human-readable text
+export function formatInspection(inspection: BundleInspection): string {
+  const lines: string[] = [
+    `Media Type: ${inspection.mediaType}`,
+    `Content Type: ${inspection.contentType}`,
+  ];
+
+  if (inspection.messageSignature) {
+    lines.push(
+      '',
+      'Message Signature:',
+      field('Digest', inspection.messageSignature.digest),
+      field('Signature', inspection.messageSignature.signature)
+    );
+  }
+
+  if (inspection.dsseEnvelope) {
+    const dsse = inspection.dsseEnvelope;
+    lines.push('', 'DSSE Envelope:', field('Payload Type', dsse.payloadType));
+
+    if (dsse.predicateType) {
+      lines.push(field('Predicate Type', dsse.predicateType));
+    }
+
+    if (dsse.subjects) {
+      lines.push(`${INDENT}Subjects:`);
+      dsse.subjects.forEach((subject) => {
+        lines.push(field(subject.name, '', 2));
+        Object.entries(subject.digest).forEach(([alg, digest]) =>
+          lines.push(field(alg, digest, 3))
+        );
+      });
+    }
+
+    lines.push(`${INDENT}Payload:`, ...block(dsse.payload, 2));
+
+    lines.push(`${INDENT}Signatures:`);
+    dsse.signatures.forEach((sig) =>
+      lines.push(field(sig.keyid || '(no keyid)', sig.sig, 2))
+    );
+  }
+
+  if (inspection.publicKeyHint !== undefined) {
+    lines.push('', 'Public Key:', field('Hint', inspection.publicKeyHint));
+  }
+
+  inspection.certificates.forEach((cert, i) => {
+    lines.push('', `Certificate [${i}]:`, ...formatCertificate(cert));
+  });
+
+  inspection.tlogEntries.forEach((entry, i) => {
+    lines.push(
+      '',
+      `Transparency Log Entry [${i}]:`,
+      field('Log Index', entry.logIndex),
+      field('Log ID', entry.logID),
+      field('Kind', `${entry.kind} ${entry.version}`)
+    );
+
+    if (entry.integratedTime) {
+      lines.push(field('Integrated Time', entry.integratedTime));
+    }
+
+    lines.push(`${INDENT}Body:`, ...block(entry.body, 2));
+
+    if (entry.checkpoint) {
+      lines.push(`${INDENT}Checkpoint:`, ...block(entry.checkpoint, 2));
+    }
+  });
+
+  if (inspection.rfc3161Timestamps.length > 0) {
+    lines.push('', 'RFC 3161 Timestamps:');
+    inspection.rfc3161Timestamps.forEach((time) =>
+      lines.push(`${INDENT}${time}`)
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function formatCertificate(cert: CertificateInspection): string[] {
+  const lines = [
+    field('Subject', cert.subject),
+    field('Issuer', cert.issuer),
+    field('Serial Number', cert.serialNumber),
+  ];
+
+  if (cert.subjectAltName) {
+    lines.push(field('Subject Alternative Name', cert.subjectAltName));
+  }
+
+  lines.push(
+    field('Not Before', cert.notBefore),
+    field('Not After', cert.notAfter)
+  );
+
+  if (cert.extensions.length > 0) {
+    lines.push(`${INDENT}Fulcio Extensions:`);
+    cert.extensions.forEach((ext) =>
+      lines.push(field(`${ext.name} (${ext.oid})`, ext.value, 2))
+    );
+  }
+
+  if (cert.scts.length > 0) {
+    lines.push(`${INDENT}Signed Certificate Timestamps:`);
+    cert.scts.forEach((sct) =>
+      lines.push(
+        field('Log ID', sct.logID, 2),
+        field('Timestamp', sct.timestamp, 2),
+        field('Hash Algorithm', sct.hashAlgorithm, 2)
+      )
+    );
+  }
+
+  return lines;
+}
+
+function field(name: string, value: string, depth = 1): string {
+  return `${INDENT.repeat(depth)}${name}: ${value}`.trimEnd();
+}
+
+// Renders a (possibly multi-line) value with each line indented
+function block(value: unknown, depth: number): string[] {
+  const text =
+    typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return text
+    .trimEnd()
+    .split('\n')
+    .map((line) => `${INDENT.repeat(depth)}${line}`);
+}
@@ -0,0 +1,249 @@
+import {
+  ASN1Obj,
+  RFC3161Timestamp,
+  SignedCertificateTimestamp,
+  X509Certificate,
+} from '@sigstore/core';
+import { FULCIO_EXTENSIONS, getFulcioExtension } from '@sigstore/verify';
+
+import type { Bundle, TransparencyLogEntry } from '@sigstore/bundle';
+
+export { formatInspection } from './format';
+
+const INTOTO_PAYLOAD_TYPE = 'application/vnd.in-toto+json';
+
+// Prefix of the OIDs of the Fulcio certificate extensions
+// https://github.com/sigstore/fulcio/blob/main/docs/oid-info.md
+const FULCIO_OID_PREFIX = '1.3.6.1.4.1.57264.1.';
+
+// Short names for the attribute types commonly found in distinguished names
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'emailAddress',
+};
+
+export type ExtensionInspection = {
+  name: string;
+  oid: string;
+  value: string;
+};
+
+export type SCTInspection = {
+  logID: string;
+  timestamp: string;
+  hashAlgorithm: string;
+};
+
+export type CertificateInspection = {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  subjectAltName?: string;
+  notBefore: string;
+  notAfter: string;
+  extensions: ExtensionInspection[];
+  scts: SCTInspection[];
+};
+
+export type DSSEInspection = {
+  payloadType: string;
+  // The decoded payload. JSON payloads are parsed, all others are returned as
+  // a string.
+  payload: unknown;
+  // The subjects and predicate type of in-toto statements
+  subjects?: { name: string; digest: Record<string, string> }[];
+  predicateType?: string;
+  signatures: { keyid: string; sig: string }[];
+};
+
+export type MessageSignatureInspection = {
+  digest: string;
+  signature: string;
+};
+
+export type TLogEntryInspection = {
+  logIndex: string;
+  logID: string;
+  kind: string;
+  version: string;
+  // Rekor v2 entries have no integrated time
+  integratedTime?: string;
+  body: unknown;
+  checkpoint?: string;
+};
+
+export type BundleInspection = {
+  mediaType: string;
+  contentType: Bundle['content']['$case'];
+  messageSignature?: MessageSignatureInspection;
+  dsseEnvelope?: DSSEInspection;
+  publicKeyHint?: string;
+  certificates: CertificateInspection[];
+  tlogEntries: TLogEntryInspection[];
+  rfc3161Timestamps: string[];
+};
+
+// Decodes the contents of the bundle into a JSON-serializable structure
+export function inspectBundle(bundle: Bundle): BundleInspection {
+  const { content, verificationMaterial } = bundle;
+
+  const inspection: BundleInspection = {
+    mediaType: bundle.mediaType,
+    contentType: content.$case,
+    certificates: [],
+    tlogEntries: verificationMaterial.tlogEntries.map(inspectTLogEntry),
+    rfc3161Timestamps: (
+      verificationMaterial.timestampVerificationData?.rfc3161Timestamps || []
+    ).map((ts) =>
+      RFC3161Timestamp.parse(ts.signedTimestamp).signingTime.toISOString()
+    ),
+  };
+
+  switch (content.$case) {
+    case 'messageSignature':
+      inspection.messageSignature = {
+        digest: content.messageSignature.messageDigest!.digest.toString('hex'),
+        signature: content.messageSignature.signature.toString('base64'),
+      };
+      break;
+    case 'dsseEnvelope':
+      inspection.dsseEnvelope = inspectDSSE(
+        content.dsseEnvelope.payloadType,
+        content.dsseEnvelope.payload,
+        content.dsseEnvelope.signatures
+      );
+      break;
+  }
+
+  const material = verificationMaterial.content;
+  switch (material.$case) {
+    case 'publicKey':
+      inspection.publicKeyHint = material.publicKey.hint;
+      break;
+    case 'x509CertificateChain':
+      inspection.certificates = material.x509CertificateChain.certificates.map(
+        (cert) => inspectCertificate(X509Certificate.parse(cert.rawBytes))
+      );
+      break;
+    case 'certificate':
+      inspection.certificates = [
+        inspectCertificate(
+          X509Certificate.parse(material.certificate.rawBytes)
+        ),
+      ];
+      break;
+  }
+
+  return inspection;
+}
+
+function inspectDSSE(
+  payloadType: string,
+  payload: Buffer,
+  signatures: { keyid: string; sig: Buffer }[]
+): DSSEInspection {
+  const inspection: DSSEInspection = {
+    payloadType,
+    payload: parseJSON(payload.toString('utf-8')),
+    signatures: signatures.map(({ keyid, sig }) => ({
+      keyid,
+      sig: sig.toString('base64'),
+    })),
+  };
+
+  if (payloadType === INTOTO_PAYLOAD_TYPE) {
+    const statement = inspection.payload as {
+      subject?: { name: string; digest: Record<string, string> }[];
+      predicateType?: string;
+    };
+    inspection.subjects = statement.subject || [];
+    inspection.predicateType = statement.predicateType;
+  }
+
+  return inspection;
+}
+
+function inspectCertificate(cert: X509Certificate): CertificateInspection {
+  // The issuer and subject are the fourth and sixth elements of the
+  // tbsCertificate sequence
+  // https://www.rfc-editor.org/rfc/rfc5280#section-4.1
+  const tbs = cert.tbsCertificate;
+
+  return {
+    subject: formatName(tbs.subs[5]),
+    issuer: formatName(tbs.subs[3]),
+    serialNumber: cert.serialNumber.toString('hex'),
+    subjectAltName: cert.subjectAltName,
+    notBefore: cert.notBefore.toISOString(),
+    notAfter: cert.notAfter.toISOString(),
+    extensions: cert.extensions
+      .map((ext) => ext.subs[0].toOID())
+      .filter((oid) => oid.startsWith(FULCIO_OID_PREFIX))
+      .map((oid) => inspectFulcioExtension(cert, oid)),
+    scts: (cert.extSCT?.signedCertificateTimestamps || []).map(inspectSCT),
+  };
+}
+
+function inspectFulcioExtension(
+  cert: X509Certificate,
+  oid: string
+): ExtensionInspection {
+  // Extensions are named as in certificate identity policies
+  const ext = FULCIO_EXTENSIONS.find((ext) => ext.oid === oid);
+
+  return {
+    name: ext?.name || oid,
+    oid,
+    value: getFulcioExtension(cert, oid)!,
+  };
+}
+
+function inspectSCT(sct: SignedCertificateTimestamp): SCTInspection {
+  return {
+    logID: sct.logID.toString('hex'),
+    timestamp: sct.datetime.toISOString(),
+    hashAlgorithm: sct.algorithm,
+  };
+}
+
+function inspectTLogEntry(entry: TransparencyLogEntry): TLogEntryInspection {
+  const integratedTime = Number(entry.integratedTime);
+
+  return {
+    logIndex: entry.logIndex,
+    logID: entry.logId.keyId.toString('hex'),
+    kind: entry.kindVersion.kind,
+    version: entry.kindVersion.version,
+    integratedTime:
+      integratedTime > 0
+        ? new Date(integratedTime * 1000).toISOString()
+        : undefined,
+    body: parseJSON(entry.canonicalizedBody.toString('utf-8')),
+    checkpoint: entry.inclusionProof?.checkpoint?.envelope,
+  };
+}
+
+// Formats a distinguished name as a comma-separated list of attributes
+function formatName(name: ASN1Obj): string {
+  return name.subs
+    .flatMap((rdn) => rdn.subs)
+    .map((attr) => {
+      const oid = attr.subs[0].toOID();
+      const label = NAME_ATTRIBUTES[oid] || /* istanbul ignore next */ oid;
+      return `${label}=${attr.subs[1].value.toString()}`;
+    })
+    .join(', ');
+}
+
+function parseJSON(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return value;
+  }
+}
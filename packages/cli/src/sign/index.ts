@@ -0,0 +1,271 @@
+import { Flags } from '@oclif/core';
+import {
+  CIContextProvider,
+  DEFAULT_REKOR_URL,
+  FulcioSigner,
+  KeySigner,
+  RekorWitness,
+  TSAWitness,
+} from '@sigstore/sign';
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { getSigningServices } from 'sigstore';
+import { OAuthIdentityProvider } from '../oauth';
+
+import type { Interfaces } from '@oclif/core';
+import type { Bundle, IdentityProvider, Signer, Witness } from '@sigstore/sign';
+import type { RekorService } from 'sigstore';
+
+// Shared by the sign and attest commands, which differ only in the type of
+// bundle which is created
+
+const OIDC_AUDIENCE = 'sigstore';
+
+export const signFlags = {
+  'fulcio-url': Flags.string({
+    description:
+      'URL to the Sigstore PKI server. Defaults to https://fulcio.sigstore.dev, or the CA listed in the signing config with --use-signing-config',
+    required: false,
+  }),
+  'rekor-url': Flags.string({
+    description:
+      'URL to the Rekor transparency log. Defaults to https://rekor.sigstore.dev, or the logs listed in the signing config with --use-signing-config',
+    required: false,
+  }),
+  'tsa-server-url': Flags.string({
+    description: 'URL to the Timestamping Authority',
+    required: false,
+  }),
+  'use-signing-config': Flags.boolean({
+    description:
+      'Whether to select any service URLs which are not supplied from the signing config in the TUF repository',
+    default: false,
+    required: false,
+  }),
+  'request-timestamp': Flags.boolean({
+    description:
+      'Whether to request a timestamp from the Timestamping Authorities listed in the signing config',
+    default: false,
+    required: false,
+  }),
+  'tlog-upload': Flags.boolean({
+    description: 'whether or not to upload entry to the transparency log',
+    default: true,
+    required: false,
+    allowNo: true,
+  }),
+  'tuf-mirror-url': Flags.string({
+    description: 'Base URL for the Sigstore TUF repository',
+  }),
+  'tuf-root-path': Flags.directory({
+    description: 'Path to the initial trust root for the TUF repository',
+  }),
+  'tuf-cache-path': Flags.directory({
+    description:
+      'Absolute path to the directory to be used for caching downloaded TUF metadata and targets',
+  }),
+  'tuf-force-cache': Flags.boolean({
+    description:
+      'Whether to give precedence to cached, un-expired TUF metadata and targets over remote versions',
+    default: false,
+    required: false,
+  }),
+  'oidc-client-id': Flags.string({
+    description: 'OIDC client ID for application',
+    default: 'sigstore',
+    required: false,
+  }),
+  'oidc-client-secret': Flags.string({
+    description: 'OIDC client secret for application',
+    required: false,
+  }),
+  'oidc-issuer': Flags.string({
+    description: 'OIDC provider to be used to issue ID token',
+    default: 'https://oauth2.sigstore.dev/auth',
+    required: false,
+  }),
+  'oidc-redirect-url': Flags.string({
+    description: 'OIDC redirect URL',
+    required: false,
+    env: 'OIDC_REDIRECT_URL',
+  }),
+  key: Flags.file({
+    description:
+      'path to a PKCS#8 private key to sign with instead of a Fulcio-issued certificate',
+    required: false,
+    exists: true,
+  }),
+  'key-passphrase': Flags.string({
+    description: 'passphrase for an encrypted private key',
+    required: false,
+    env: 'SIGSTORE_KEY_PASSPHRASE',
+  }),
+  'output-file': Flags.string({
+    char: 'o',
+    description: 'write output to file',
+    required: false,
+    aliases: ['output', 'out'],
+  }),
+  timeout: Flags.integer({
+    description: 'timeout in seconds for API requests',
+    default: 5,
+    required: false,
+  }),
+};
+
+export type SignFlags = Interfaces.InferredFlags<typeof signFlags>;
+
+export type SignOptions = {
+  fulcioURL?: string;
+  identityProvider: IdentityProvider;
+  privateKey?: Buffer;
+  privateKeyPassphrase?: string;
+  rekorServices: RekorService[];
+  tsaServerURLs: string[];
+  timeout?: number;
+};
+
+// Resolves the identity provider, signing key and service URLs from the
+// supplied flags
+export async function initSignOptions(flags: SignFlags): Promise<SignOptions> {
+  const privateKey = flags.key ? await fs.readFile(flags.key) : undefined;
+
+  // Any service URLs which are not supplied are discovered from the signing
+  // config published in the TUF repository when opted in to
+  const services = await getSigningServices({
+    fulcioURL: flags['fulcio-url'],
+    rekorURL: flags['rekor-url'],
+    tsaServerURL: flags['tsa-server-url'],
+    tlogUpload: flags['tlog-upload'],
+    useSigningConfig: flags['use-signing-config'],
+    requestTimestamp: flags['request-timestamp'],
+    privateKey,
+    tufMirrorURL: flags['tuf-mirror-url'],
+    tufRootPath: flags['tuf-root-path'],
+    tufCachePath: flags['tuf-cache-path'],
+    tufForceCache: flags['tuf-force-cache'],
+    timeout: flags.timeout * 1000,
+  });
+
+  return {
+    fulcioURL: services.fulcioURL,
+    privateKey,
+    privateKeyPassphrase: flags['key-passphrase'],
+    tsaServerURLs: services.tsaServerURLs,
+    rekorServices: services.rekorServices,
+    identityProvider: initIdentityProvider(flags),
+    timeout: flags.timeout * 1000,
+  };
+}
+
+// If we're running in CI, we don't want to try to authenticate with an
+// OAuth provider because we won't be able to interactively authenticate.
+export function initIdentityProvider(flags: SignFlags): IdentityProvider {
+  return 'CI' in process.env && process.env.CI !== 'false'
+    ? new CIContextProvider(OIDC_AUDIENCE)
+    : new OAuthIdentityProvider({
+        issuer: flags['oidc-issuer'],
+        clientID: flags['oidc-client-id'],
+        clientSecret: flags['oidc-client-secret'],
+        redirectURL: flags['oidc-redirect-url'],
+      });
+}
+
+// Signs with the supplied private key or, when no key is supplied, with an
+// ephemeral key bound to a Fulcio-issued certificate
+export function initSigner(opts: SignOptions): Signer {
+  return opts.privateKey
+    ? new KeySigner({
+        privateKey: toPrivateKey(opts.privateKey),
+        passphrase: opts.privateKeyPassphrase,
+      })
+    : new FulcioSigner({
+        identityProvider: opts.identityProvider,
+        fulcioBaseURL: opts.fulcioURL,
+        timeout: opts.timeout,
+      });
+}
+
+export function initWitnesses(
+  opts: SignOptions,
+  // TODO: Remove this parameter once have completely switched to 'dsse' entries
+  entryType?: 'dsse' | 'intoto'
+): Witness[] {
+  const witnesses: Witness[] = [];
+
+  for (const rekor of opts.rekorServices) {
+    witnesses.push(
+      new RekorWitness({
+        rekorBaseURL: rekor.url,
+        majorApiVersion: rekor.majorApiVersion,
+        entryType,
+        timeout: opts.timeout,
+      })
+    );
+  }
+
+  for (const tsaServerURL of opts.tsaServerURLs) {
+    witnesses.push(
+      new TSAWitness({
+        tsaBaseURL: tsaServerURL,
+        timeout: opts.timeout,
+      })
+    );
+  }
+
+  return witnesses;
+}
+
+// Returns the lines describing where the transparency log entry for the
+// bundle can be found. Empty if the bundle was not uploaded to a log.
+export function formatRekorEntry(opts: SignOptions, bundle: Bundle): string[] {
+  const [rekor] = opts.rekorServices;
+  const [entry] = bundle.verificationMaterial.tlogEntries;
+  if (!rekor || !entry) {
+    return [];
+  }
+
+  // Rekor v2 logs don't offer a lookup by log index
+  if (rekor.majorApiVersion === 2) {
+    return [`Created entry at index ${entry.logIndex} in ${rekor.url}`];
+  }
+
+  const url =
+    rekor.url === DEFAULT_REKOR_URL
+      ? `https://search.sigstore.dev`
+      : `${rekor.url}/api/v1/log/entries`;
+  return [
+    `Created entry at index ${entry.logIndex}, available at`,
+    `${url}?logIndex=${entry.logIndex}`,
+  ];
+}
+
+// Ed25519 signatures are computed over the entire message rather than a
+// digest, so the artifact cannot be streamed when signing with an Ed25519 key
+export function isEd25519Key(opts: SignOptions): boolean {
+  if (!opts.privateKey) {
+    return false;
+  }
+
+  const key = toPrivateKey(opts.privateKey);
+  try {
+    return (
+      crypto.createPrivateKey({
+        key,
+        format: typeof key === 'string' ? 'pem' : 'der',
+        type: 'pkcs8',
+        passphrase: opts.privateKeyPassphrase,
+      }).asymmetricKeyType === 'ed25519'
+    );
+  } catch {
+    // Invalid keys are reported by the signer
+    return false;
+  }
+}
+
+// Keys may be stored either PEM or DER-encoded. PEM-encoded keys are passed
+// along as strings.
+function toPrivateKey(key: Buffer): string | Buffer {
+  const pem = key.toString('utf8');
+  return pem.includes('-----BEGIN') ? pem : key;
+}
@@ -13,15 +13,23 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import assert from 'assert';
+import crypto from 'crypto';
+import nock from 'nock';
 import {
+  DEFAULT_FULCIO_URL,
+  DEFAULT_REKOR_URL,
   DSSEBundleBuilder,
   MessageSignatureBundleBuilder,
 } from '@sigstore/sign';
+import { SigningConfig, TUFError } from '@sigstore/tuf';
 import { VerificationError } from '@sigstore/verify';
 import {
   createBundleBuilder,
   createKeyFinder,
   createVerificationPolicy,
+  needsSigningConfig,
+  selectSigningServices,
 } from '../config';
 import { publicKeys } from './__fixtures__/bundles/valid';
 
@@ -63,6 +71,74 @@ describe('createBundleBuilder', () => {
     });
   });
 
+  describe('when a private key is provided', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const options = {
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+      keyHint: 'my-key',
+      tlogUpload: false,
+    };
+
+    it('returns a bundler which signs with the key', async () => {
+      const bundler = createBundleBuilder('messageSignature', options);
+      const bundle = await bundler.create({ data: Buffer.from('hello') });
+
+      assert(bundle.verificationMaterial.content.$case === 'publicKey');
+      expect(bundle.verificationMaterial.content.publicKey.hint).toEqual(
+        'my-key'
+      );
+    });
+  });
+
+  describe('when signing with a Rekor v2 instance', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const options = {
+      privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+    };
+    const rekorURL = 'https://rekor-v2.example.com';
+    const services = {
+      rekorServices: [{ url: rekorURL, majorApiVersion: 2 as const }],
+      tsaServerURLs: [],
+    };
+
+    const body = { apiVersion: '0.0.2', kind: 'hashedrekord', spec: {} };
+    const tlogEntry = {
+      logIndex: '12',
+      logId: { keyId: Buffer.from('logid').toString('base64') },
+      kindVersion: { kind: 'hashedrekord', version: '0.0.2' },
+      integratedTime: '0',
+      inclusionProof: {
+        logIndex: '12',
+        rootHash: Buffer.from('root').toString('base64'),
+        treeSize: '13',
+        hashes: [Buffer.from('hash').toString('base64')],
+        checkpoint: { envelope: 'checkpoint' },
+      },
+      canonicalizedBody: Buffer.from(JSON.stringify(body)).toString('base64'),
+    };
+
+    beforeEach(() => {
+      nock(rekorURL).post('/api/v2/log/entries').reply(201, tlogEntry);
+    });
+
+    it('records the signature with the v2 API', async () => {
+      const bundler = createBundleBuilder(
+        'messageSignature',
+        options,
+        services
+      );
+      const bundle = await bundler.create({ data: Buffer.from('hello') });
+
+      const [entry] = bundle.verificationMaterial.tlogEntries;
+      expect(entry.kindVersion).toEqual(tlogEntry.kindVersion);
+      expect(entry.inclusionPromise).toBeUndefined();
+    });
+  });
+
   describe('when the bundleType is dsseEnvelope', () => {
     const bundleType = 'dsseEnvelope';
 
@@ -73,6 +149,194 @@ describe('createBundleBuilder', () => {
   });
 });
 
+describe('selectSigningServices', () => {
+  const service = (
+    url: string,
+    start: string,
+    end?: string,
+    majorApiVersion = 1
+  ) => ({
+    url,
+    majorApiVersion,
+    validFor: { start: new Date(start), end: end ? new Date(end) : undefined },
+    operator: url,
+  });
+
+  const signingConfig: SigningConfig = {
+    mediaType: 'application/vnd.dev.sigstore.signingconfig.v0.2+json',
+    caUrls: [
+      service('https://old.fulcio.example.com', '2020-01-01', '2021-01-01'),
+      service('https://fulcio.example.com', '2021-01-01'),
+    ],
+    oidcUrls: [],
+    rekorTlogUrls: [
+      service('https://rekor1.example.com', '2021-01-01'),
+      service('https://rekor2.example.com', '2022-01-01'),
+    ],
+    rekorTlogConfig: { selector: 'ALL' },
+    tsaUrls: [service('https://tsa.example.com', '2021-01-01')],
+    tsaConfig: { selector: 'ANY' },
+  };
+
+  describe('when there is no signing config', () => {
+    it('returns the public-good services', () => {
+      expect(selectSigningServices({})).toEqual({
+        fulcioURL: DEFAULT_FULCIO_URL,
+        rekorServices: [{ url: DEFAULT_REKOR_URL, majorApiVersion: 1 }],
+        tsaServerURLs: [],
+      });
+    });
+  });
+
+  describe('when there is a signing config', () => {
+    it('returns the services selected from the config', () => {
+      expect(selectSigningServices({}, signingConfig)).toEqual({
+        fulcioURL: 'https://fulcio.example.com',
+        rekorServices: [
+          { url: 'https://rekor2.example.com', majorApiVersion: 1 },
+          { url: 'https://rekor1.example.com', majorApiVersion: 1 },
+        ],
+        tsaServerURLs: [],
+      });
+    });
+
+    it('selects TSAs when a timestamp is requested', () => {
+      expect(
+        selectSigningServices({ requestTimestamp: true }, signingConfig)
+          .tsaServerURLs
+      ).toEqual(['https://tsa.example.com']);
+    });
+
+    it('selects Rekor v2 instances', () => {
+      const rekorV2 = service(
+        'https://rekor3.example.com',
+        '2023-01-01',
+        undefined,
+        2
+      );
+      const config = {
+        ...signingConfig,
+        rekorTlogUrls: [...signingConfig.rekorTlogUrls, rekorV2],
+      };
+
+      expect(selectSigningServices({}, config).rekorServices).toContainEqual({
+        url: 'https://rekor3.example.com',
+        majorApiVersion: 2,
+      });
+    });
+
+    it('throws when a timestamp is requested and no TSA is listed', () => {
+      expect(() =>
+        selectSigningServices(
+          { requestTimestamp: true },
+          { ...signingConfig, tsaUrls: [] }
+        )
+      ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+    });
+
+    it('throws when no CA is valid', () => {
+      expect(() =>
+        selectSigningServices({}, { ...signingConfig, caUrls: [] })
+      ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+    });
+  });
+
+  describe('when the service URLs are explicitly supplied', () => {
+    const options = {
+      fulcioURL: 'https://fulcio.other.com',
+      rekorURL: 'https://rekor.other.com',
+      tsaServerURL: 'https://tsa.other.com',
+    };
+
+    it('returns the supplied services', () => {
+      expect(selectSigningServices(options, signingConfig)).toEqual({
+        fulcioURL: options.fulcioURL,
+        rekorServices: [{ url: options.rekorURL, majorApiVersion: 1 }],
+        tsaServerURLs: [options.tsaServerURL],
+      });
+    });
+  });
+
+  describe('when signing with a key without Rekor', () => {
+    const options = {
+      privateKey: 'key',
+      tlogUpload: false,
+      requestTimestamp: true,
+    };
+
+    it('returns no CA or tlogs', () => {
+      expect(selectSigningServices(options, signingConfig)).toEqual({
+        fulcioURL: undefined,
+        rekorServices: [],
+        tsaServerURLs: ['https://tsa.example.com'],
+      });
+    });
+  });
+});
+
+describe('needsSigningConfig', () => {
+  const useSigningConfig = true;
+
+  it('returns false when the signing config is not opted in to', () => {
+    expect(needsSigningConfig({})).toBe(false);
+  });
+
+  it('returns true when the CA is not supplied', () => {
+    expect(
+      needsSigningConfig({
+        useSigningConfig,
+        rekorURL: 'https://rekor.example.com',
+      })
+    ).toBe(true);
+  });
+
+  it('returns true when Rekor is not supplied', () => {
+    expect(
+      needsSigningConfig({
+        useSigningConfig,
+        fulcioURL: 'https://fulcio.example.com',
+      })
+    ).toBe(true);
+  });
+
+  it('returns true when a timestamp is requested without a TSA', () => {
+    expect(
+      needsSigningConfig({
+        useSigningConfig,
+        privateKey: 'key',
+        tlogUpload: false,
+        requestTimestamp: true,
+      })
+    ).toBe(true);
+  });
+
+  it('returns false when all required services are supplied', () => {
+    expect(
+      needsSigningConfig({
+        useSigningConfig,
+        fulcioURL: 'https://fulcio.example.com',
+        rekorURL: 'https://rekor.example.com',
+      })
+    ).toBe(false);
+    expect(
+      needsSigningConfig({
+        useSigningConfig,
+        privateKey: 'key',
+        tlogUpload: false,
+      })
+    ).toBe(false);
+    expect(
+      needsSigningConfig({
+        useSigningConfig,
+        privateKey: 'key',
+        tlogUpload: false,
+        requestTimestamp: true,
+        tsaServerURL: 'https://tsa.example.com',
+      })
+    ).toBe(false);
+  });
+});
+
 describe('createKeyFinder', () => {
   describe('when the supplied key selector finds the key', () => {
     const keyFinder = createKeyFinder(() => Object.values(publicKeys)[0]);
@@ -134,4 +398,16 @@ describe('createVerificationPolicy', () => {
       expect(policy.subjectAlternativeName).toBeUndefined();
     });
   });
+
+  describe('when the options specify certificateOIDs', () => {
+    const options = { certificateOIDs: { '1.2.3.4': 'foo' } };
+
+    it('returns a verification policy', () => {
+      const policy = createVerificationPolicy(options);
+      expect(policy).toBeDefined();
+      expect(policy.oids).toEqual(options.certificateOIDs);
+      expect(policy.extensions).toBeUndefined();
+      expect(policy.subjectAlternativeName).toBeUndefined();
+    });
+  });
 });
@@ -24,6 +24,9 @@ it('exports sigstore types', async () => {
   const signOptions: sigstore.SignOptions = fromPartial({});
   expect(signOptions).toBeDefined();
 
+  const signingServices: sigstore.SigningServices = fromPartial({});
+  expect(signingServices).toBeDefined();
+
   const verifyOptions: sigstore.VerifyOptions = fromPartial({});
   expect(verifyOptions).toBeDefined();
 
@@ -32,6 +35,9 @@ it('exports sigstore types', async () => {
 
   const bundleVerifier: sigstore.BundleVerifier = fromPartial({});
   expect(bundleVerifier).toBeDefined();
+
+  const verificationResult: sigstore.VerificationResult = fromPartial({});
+  expect(verificationResult).toBeDefined();
 });
 
 it('exports sigstore core functions', async () => {
@@ -39,6 +45,7 @@ it('exports sigstore core functions', async () => {
   expect(sigstore.sign).toBeInstanceOf(Function);
   expect(sigstore.verify).toBeInstanceOf(Function);
   expect(sigstore.createVerifier).toBeInstanceOf(Function);
+  expect(sigstore.getSigningServices).toBeInstanceOf(Function);
 });
 
 it('exports errors', () => {
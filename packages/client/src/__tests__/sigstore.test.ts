@@ -13,17 +13,31 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import { bundleToJSON } from '@sigstore/bundle';
 import type { SerializedBundle } from '@sigstore/bundle';
 import { mockFulcio, mockRekor, mockTSA } from '@sigstore/mock';
+import { KeySigner, MessageSignatureBundleBuilder } from '@sigstore/sign';
+import { TrustedRoot } from '@sigstore/protobuf-specs';
 import { VerificationError } from '@sigstore/verify';
 import { fromPartial } from '@total-typescript/shoehorn';
 import mocktuf, { Target } from '@tufjs/repo-mock';
-import { attest, createVerifier, sign, verify } from '../sigstore';
+import { SIGNING_CONFIG_TARGET, TUFError } from '@sigstore/tuf';
+import {
+  attest,
+  createVerifier,
+  getSigningServices,
+  sign,
+  verify,
+} from '../sigstore';
 import * as invalidBundles from './__fixtures__/bundles/invalid';
 import * as validBundles from './__fixtures__/bundles/valid';
 import { trustedRoot } from './__fixtures__/trust';
 
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
+import { Readable } from 'stream';
 import type { SignOptions, VerifyOptions } from '../config';
 
 const fulcioURL = 'https://fulcio.example.com';
@@ -74,6 +88,201 @@ describe('sign', () => {
       bundle.verificationMaterial.timestampVerificationData?.rfc3161Timestamps
     ).toHaveLength(1);
   });
+
+  describe('when the payload is streamed', () => {
+    it('returns the signed bundle', async () => {
+      const options: SignOptions = {
+        fulcioURL,
+        rekorURL,
+        identityProvider: idp,
+      };
+      const bundle = await sign(Readable.from([payload]), options);
+
+      expect(bundle.messageSignature?.signature).toBeDefined();
+      expect(bundle.messageSignature?.messageDigest.digest).toEqual(
+        crypto.createHash('sha256').update(payload).digest('base64')
+      );
+      expect(bundle.verificationMaterial.tlogEntries).toHaveLength(1);
+    });
+  });
+});
+
+describe('getSigningServices', () => {
+  const signingConfig = {
+    mediaType: 'application/vnd.dev.sigstore.signingconfig.v0.2+json',
+    caUrls: [
+      {
+        url: fulcioURL,
+        majorApiVersion: 1,
+        validFor: { start: '2023-01-01T00:00:00Z' },
+        operator: 'example.com',
+      },
+    ],
+    rekorTlogUrls: [
+      {
+        url: rekorURL,
+        majorApiVersion: 1,
+        validFor: { start: '2023-01-01T00:00:00Z' },
+        operator: 'example.com',
+      },
+    ],
+    rekorTlogConfig: { selector: 'ANY' },
+    tsaUrls: [
+      {
+        url: tsaURL,
+        majorApiVersion: 1,
+        validFor: { start: '2023-01-01T00:00:00Z' },
+        operator: 'example.com',
+      },
+    ],
+    tsaConfig: { selector: 'ANY' },
+  };
+
+  let tufRepo: ReturnType<typeof mocktuf> | undefined;
+  let tufOptions: SignOptions | undefined;
+
+  const initTUFRepo = (targets: Target[]) => {
+    tufRepo = mocktuf(targets, { metadataPathPrefix: '' });
+    tufOptions = {
+      useSigningConfig: true,
+      tufMirrorURL: tufRepo.baseURL,
+      tufCachePath: tufRepo.cachePath,
+      tufRootPath: path.join(tufRepo.cachePath, 'root.json'),
+      retry: false,
+    };
+  };
+
+  afterEach(() => {
+    tufRepo?.teardown();
+    tufRepo = undefined;
+  });
+
+  describe('when the TUF repository publishes a signing config', () => {
+    beforeEach(() => {
+      initTUFRepo([
+        {
+          name: SIGNING_CONFIG_TARGET,
+          content: JSON.stringify(signingConfig),
+        },
+      ]);
+    });
+
+    it('returns the services from the signing config', async () => {
+      await expect(getSigningServices(tufOptions)).resolves.toEqual({
+        fulcioURL,
+        rekorServices: [{ url: rekorURL, majorApiVersion: 1 }],
+        tsaServerURLs: [],
+      });
+    });
+
+    it('returns the TSAs when a timestamp is requested', async () => {
+      const services = await getSigningServices({
+        ...tufOptions,
+        requestTimestamp: true,
+      });
+
+      expect(services.tsaServerURLs).toEqual([tsaURL]);
+    });
+
+    it('prefers explicitly supplied URLs', async () => {
+      const services = await getSigningServices({
+        ...tufOptions,
+        fulcioURL: 'https://fulcio.other.com',
+      });
+
+      expect(services.fulcioURL).toEqual('https://fulcio.other.com');
+      expect(services.rekorServices).toEqual([
+        { url: rekorURL, majorApiVersion: 1 },
+      ]);
+    });
+
+    it('signs with the services from the signing config', async () => {
+      await mockFulcio({ baseURL: fulcioURL });
+      await mockRekor({ baseURL: rekorURL });
+      await mockTSA({ baseURL: tsaURL });
+
+      const bundle = await sign(Buffer.from('Hello, world!'), {
+        ...tufOptions,
+        requestTimestamp: true,
+        identityProvider: idp,
+      });
+
+      expect(bundle.verificationMaterial.tlogEntries).toHaveLength(1);
+      expect(
+        bundle.verificationMaterial.timestampVerificationData?.rfc3161Timestamps
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('when the TUF repository does not publish a signing config', () => {
+    beforeEach(() => {
+      initTUFRepo([]);
+    });
+
+    it('throws an error', async () => {
+      await expect(getSigningServices(tufOptions)).rejects.toThrowWithCode(
+        TUFError,
+        'TUF_FIND_TARGET_ERROR'
+      );
+    });
+  });
+
+  describe('when the signing config is not opted in to', () => {
+    // No TUF repository is mocked, so any attempt to reach the network will
+    // fail
+    it('returns the public-good services', async () => {
+      await expect(
+        getSigningServices({ requestTimestamp: true })
+      ).resolves.toEqual({
+        fulcioURL: 'https://fulcio.sigstore.dev',
+        rekorServices: [
+          { url: 'https://rekor.sigstore.dev', majorApiVersion: 1 },
+        ],
+        tsaServerURLs: [],
+      });
+    });
+  });
+
+  describe('when the TUF repository cannot be initialized', () => {
+    let cachePath: string;
+
+    beforeEach(async () => {
+      cachePath = await fs.mkdtemp(path.join(os.tmpdir(), 'sigstore-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(cachePath, { recursive: true });
+    });
+
+    it('throws an error', async () => {
+      await expect(
+        getSigningServices({
+          useSigningConfig: true,
+          tufMirrorURL: 'https://tuf.example.com',
+          tufCachePath: cachePath,
+        })
+      ).rejects.toThrowWithCode(TUFError, 'TUF_INIT_CACHE_ERROR');
+    });
+  });
+
+  describe('when all of the required services are supplied', () => {
+    // No TUF repository is mocked, so any attempt to reach the network will
+    // fail
+    it('returns the supplied services', async () => {
+      await expect(
+        getSigningServices({
+          useSigningConfig: true,
+          fulcioURL,
+          rekorURL,
+          tsaServerURL: tsaURL,
+        })
+      ).resolves.toEqual({
+        fulcioURL,
+        rekorServices: [{ url: rekorURL, majorApiVersion: 1 }],
+        tsaServerURLs: [tsaURL],
+      });
+    });
+  });
 });
 
 describe('signAttestation (legacy)', () => {
@@ -166,6 +375,7 @@ describe('#verify', () => {
   beforeEach(() => {
     tufRepo = mocktuf(target, { metadataPathPrefix: '' });
     tufOptions = {
+      useSigningConfig: true,
       tufMirrorURL: tufRepo.baseURL,
       tufCachePath: tufRepo.cachePath,
       tufRootPath: path.join(tufRepo.cachePath, 'root.json'),
@@ -181,7 +391,19 @@ describe('#verify', () => {
     );
 
     it('does not throw an error', async () => {
-      await expect(verify(bundle, tufOptions)).resolves.toBe(undefined);
+      await expect(verify(bundle, tufOptions)).resolves.toBeDefined();
+    }, 10000);
+
+    it('returns the verification result', async () => {
+      const result = await verify(bundle, tufOptions);
+      expect(result.identity?.extensions?.issuer).toEqual(
+        'https://github.com/login/oauth'
+      );
+      expect(result.timestamps).toHaveLength(1);
+      expect(result.timestamps[0].type).toEqual('transparency-log');
+      expect(result.certificateChain?.path.length).toBeGreaterThan(1);
+      expect(result.sctLogIDs).toHaveLength(1);
+      expect(result.tlogEntries).toHaveLength(1);
     }, 10000);
   });
 
@@ -197,7 +419,7 @@ describe('#verify', () => {
     };
 
     it('does not throw an error', async () => {
-      await expect(verify(bundle, options)).resolves.toBe(undefined);
+      await expect(verify(bundle, options)).resolves.toBeDefined();
     });
   });
 
@@ -208,9 +430,7 @@ describe('#verify', () => {
     const artifact = validBundles.artifact;
 
     it('does not throw an error', async () => {
-      await expect(verify(bundle, artifact, tufOptions)).resolves.toBe(
-        undefined
-      );
+      await expect(verify(bundle, artifact, tufOptions)).resolves.toBeDefined();
     });
   });
 
@@ -221,9 +441,7 @@ describe('#verify', () => {
     const artifact = validBundles.artifact;
 
     it('does not throw an error', async () => {
-      await expect(verify(bundle, artifact, tufOptions)).resolves.toBe(
-        undefined
-      );
+      await expect(verify(bundle, artifact, tufOptions)).resolves.toBeDefined();
     });
   });
 
@@ -234,9 +452,7 @@ describe('#verify', () => {
     const artifact = validBundles.artifact;
 
     it('does not throw an error', async () => {
-      await expect(verify(bundle, artifact, tufOptions)).resolves.toBe(
-        undefined
-      );
+      await expect(verify(bundle, artifact, tufOptions)).resolves.toBeDefined();
     });
   });
 
@@ -247,9 +463,7 @@ describe('#verify', () => {
     const artifact = validBundles.artifact;
 
     it('does not throw an error', async () => {
-      await expect(verify(bundle, artifact, tufOptions)).resolves.toBe(
-        undefined
-      );
+      await expect(verify(bundle, artifact, tufOptions)).resolves.toBeDefined();
     });
   });
 
@@ -289,8 +503,197 @@ describe('#verify', () => {
     const artifact = validBundles.artifact;
 
     it('does not throw an error', async () => {
-      await expect(verify(bundle, artifact, tufOptions)).resolves.toBe(
-        undefined
+      await expect(verify(bundle, artifact, tufOptions)).resolves.toBeDefined();
+    });
+  });
+});
+
+describe('#verify with a local trusted root', () => {
+  const bundle: SerializedBundle = fromPartial(
+    validBundles.v1.dsse.withSigningCert
+  );
+
+  // No TUF repository is mocked, so any attempt to reach the network will
+  // cause verification to fail
+  describe('when a trusted root is supplied', () => {
+    const options: VerifyOptions = {
+      trustedRoot: TrustedRoot.fromJSON(trustedRoot),
+    };
+
+    it('does not throw an error', async () => {
+      await expect(verify(bundle, options)).resolves.toBeDefined();
+    });
+  });
+
+  describe('when a trusted root path is supplied', () => {
+    let tmpDir: string;
+    let options: VerifyOptions;
+
+    beforeAll(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'trusted-root-'));
+      const trustedRootPath = path.join(tmpDir, 'trusted_root.json');
+      await fs.writeFile(trustedRootPath, JSON.stringify(trustedRoot));
+      options = { trustedRootPath };
+    });
+
+    afterAll(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it('does not throw an error', async () => {
+      await expect(verify(bundle, options)).resolves.toBeDefined();
+    });
+  });
+
+  describe('when CRL paths are supplied', () => {
+    // CRL issued by a CA which is not part of the trusted root
+    const crlPEM = `-----BEGIN X509 CRL-----
+MIHNMHQCAQEwCgYIKoZIzj0EAwIwMzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazEZ
+MBcGA1UEAwwQY3JsIGludGVybWVkaWF0ZRcNMjYxMDE5MTI1MzE4WhgPMjEyNjA5
+MjUxMjUzMThaoA4wDDAKBgNVHRQEAwIBATAKBggqhkjOPQQDAgNJADBGAiEAkN83
+eVSiYoiS5geKPgeQeRhDaeVi+dI0blDMRFKY8akCIQCAy06r2q5mCwCGcBcMdTsw
+KLex1R0j7PZAf1WaS1ipkg==
+-----END X509 CRL-----`;
+
+    let tmpDir: string;
+    let crlPaths: string[];
+
+    beforeAll(async () => {
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'crls-'));
+      const pemPath = path.join(tmpDir, 'crl.pem');
+      const derPath = path.join(tmpDir, 'crl.der');
+      const der = Buffer.from(
+        crlPEM.replace(/-----(BEGIN|END) X509 CRL-----|\s/g, ''),
+        'base64'
+      );
+      await fs.writeFile(pemPath, crlPEM);
+      await fs.writeFile(derPath, der);
+      crlPaths = [pemPath, derPath];
+    });
+
+    afterAll(async () => {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    });
+
+    describe('when the revocation mode is soft-fail', () => {
+      it('does not throw an error', async () => {
+        const options: VerifyOptions = {
+          trustedRoot: TrustedRoot.fromJSON(trustedRoot),
+          crlPaths,
+          revocationMode: 'soft-fail',
+        };
+
+        await expect(verify(bundle, options)).resolves.toBeDefined();
+      });
+    });
+
+    describe('when the revocation mode is hard-fail', () => {
+      it('throws an error', async () => {
+        const options: VerifyOptions = {
+          trustedRoot: TrustedRoot.fromJSON(trustedRoot),
+          crlPaths,
+          revocationMode: 'hard-fail',
+        };
+
+        await expect(verify(bundle, options)).rejects.toThrowWithCode(
+          VerificationError,
+          'CERTIFICATE_REVOCATION_ERROR'
+        );
+      });
+    });
+  });
+});
+
+describe('#verify with an artifact digest', () => {
+  const bundle: SerializedBundle = fromPartial(
+    validBundles.v3.messageSignature.withSigningCert
+  );
+  const options: VerifyOptions = {
+    trustedRoot: TrustedRoot.fromJSON(trustedRoot),
+  };
+
+  describe('when the digest matches the artifact', () => {
+    const digest = crypto
+      .createHash('sha256')
+      .update(validBundles.artifact)
+      .digest();
+
+    it('does not throw an error', async () => {
+      await expect(verify(bundle, { digest }, options)).resolves.toBeDefined();
+    });
+  });
+
+  describe('when the artifact is streamed', () => {
+    it('does not throw an error', async () => {
+      await expect(
+        verify(bundle, Readable.from([validBundles.artifact]), options)
+      ).resolves.toBeDefined();
+    });
+
+    describe('when the bundle has a certificate chain', () => {
+      const bundle: SerializedBundle = fromPartial(
+        validBundles.v2.messageSignature.withSigningCert
+      );
+
+      it('does not throw an error', async () => {
+        await expect(
+          verify(bundle, Readable.from([validBundles.artifact]), options)
+        ).resolves.toBeDefined();
+      });
+    });
+
+    describe('when the bundle was signed with an Ed25519 key', () => {
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+      const keySelector = () =>
+        publicKey.export({ format: 'pem', type: 'spki' }).toString();
+
+      let bundle: SerializedBundle;
+      beforeAll(async () => {
+        const bundler = new MessageSignatureBundleBuilder({
+          signer: new KeySigner({
+            privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+          }),
+          witnesses: [],
+        });
+        bundle = bundleToJSON(
+          await bundler.create({ data: validBundles.artifact })
+        );
+      });
+
+      it('verifies the signature against the full artifact', async () => {
+        await expect(
+          verify(
+            bundle,
+            Readable.from([
+              validBundles.artifact.subarray(0, 5),
+              validBundles.artifact.subarray(5),
+            ]),
+            { ...options, keySelector, tlogThreshold: 0 }
+          )
+        ).resolves.toBeDefined();
+      });
+    });
+
+    describe('when the public key cannot be selected', () => {
+      const bundle: SerializedBundle = fromPartial(
+        validBundles.v1.dsse.withPublicKey
+      );
+
+      it('throws an error', async () => {
+        await expect(
+          verify(bundle, Readable.from([validBundles.artifact]), options)
+        ).rejects.toThrowWithCode(VerificationError, 'PUBLIC_KEY_ERROR');
+      });
+    });
+  });
+
+  describe('when the digest does not match the artifact', () => {
+    const digest = crypto.createHash('sha256').update('foo').digest();
+
+    it('throws an error', async () => {
+      await expect(verify(bundle, { digest }, options)).rejects.toThrowWithCode(
+        VerificationError,
+        'SIGNATURE_ERROR'
       );
     });
   });
@@ -309,6 +712,7 @@ describe('#createVerifier', () => {
   beforeEach(() => {
     tufRepo = mocktuf(target, { metadataPathPrefix: '' });
     tufOptions = {
+      useSigningConfig: true,
       tufMirrorURL: tufRepo.baseURL,
       tufCachePath: tufRepo.cachePath,
       tufRootPath: path.join(tufRepo.cachePath, 'root.json'),
@@ -329,7 +733,7 @@ describe('#createVerifier', () => {
 
     it('does not throw an error when invoked', async () => {
       const verifier = await createVerifier(tufOptions!);
-      expect(verifier.verify(bundle)).toBeUndefined();
+      expect(verifier.verify(bundle)).toBeDefined();
     });
   });
 
@@ -18,21 +18,27 @@ import {
   BundleBuilder,
   BundleBuilderOptions,
   CIContextProvider,
+  DEFAULT_FULCIO_URL,
+  DEFAULT_REKOR_URL,
   DSSEBundleBuilder,
   FulcioSigner,
   IdentityProvider,
+  KeySigner,
   MessageSignatureBundleBuilder,
   RekorWitness,
   Signer,
   TSAWitness,
   Witness,
 } from '@sigstore/sign';
+import { SigningConfig, selectServices } from '@sigstore/tuf';
 import {
   KeyFinderFunc,
   VerificationError,
   VerificationPolicy,
 } from '@sigstore/verify';
 
+import type { TrustedRoot } from '@sigstore/protobuf-specs';
+import type { RevocationMode } from '@sigstore/verify';
 import type { MakeFetchHappenOptions } from 'make-fetch-happen';
 
 type Retry = MakeFetchHappenOptions['retry'];
@@ -44,6 +50,17 @@ type FetchOptions = {
 
 type KeySelector = (hint: string) => string | Buffer | undefined;
 
+type TUFOptions = {
+  tufMirrorURL?: string;
+  tufRootPath?: string;
+  tufCachePath?: string;
+  tufForceCache?: boolean;
+};
+
+// Explicitly supplied service URLs take precedence over those listed in the
+// signing config retrieved from the TUF repository. The signing config is only
+// consulted when useSigningConfig is set, otherwise the public-good instance is
+// used.
 export type SignOptions = {
   fulcioURL?: string;
   identityProvider?: IdentityProvider;
@@ -51,8 +68,15 @@ export type SignOptions = {
   rekorURL?: string;
   tlogUpload?: boolean;
   tsaServerURL?: string;
+  useSigningConfig?: boolean;
+  // Whether to request a timestamp from the TSAs listed in the signing config
+  requestTimestamp?: boolean;
   legacyCompatibility?: boolean;
-} & FetchOptions;
+  privateKey?: string | Buffer;
+  privateKeyPassphrase?: string;
+  keyHint?: string;
+} & TUFOptions &
+  FetchOptions;
 
 export type VerifyOptions = {
   ctLogThreshold?: number;
@@ -62,32 +86,58 @@ export type VerifyOptions = {
   certificateIdentityURI?: string;
   certificateOIDs?: Record<string, string>;
   keySelector?: KeySelector;
-  tufMirrorURL?: string;
-  tufRootPath?: string;
-  tufCachePath?: string;
-  tufForceCache?: boolean;
-} & FetchOptions;
+  trustedRoot?: TrustedRoot;
+  trustedRootPath?: string;
+  // Paths to PEM or DER-encoded CRLs used to check the revocation status of
+  // the certificates issued by the trusted CAs and TSAs
+  crlPaths?: string[];
+  // Whether certificates without a current CRL from their issuer are
+  // rejected ("hard-fail") or accepted ("soft-fail")
+  revocationMode?: RevocationMode;
+} & TUFOptions &
+  FetchOptions;
+
+// A Rekor instance and the major version of the API it implements
+export type RekorService = {
+  url: string;
+  majorApiVersion: 1 | 2;
+};
+
+// The service endpoints used when signing
+export type SigningServices = {
+  fulcioURL?: string;
+  rekorServices: RekorService[];
+  tsaServerURLs: string[];
+};
 
 export const DEFAULT_RETRY: Retry = { retries: 2 };
 export const DEFAULT_TIMEOUT = 5000;
 
+// Major versions of the service APIs implemented by the signers and witnesses
+const FULCIO_API_VERSIONS = [1];
+const REKOR_API_VERSIONS = [1, 2];
+const TSA_API_VERSIONS = [1];
+
 type BundleType = 'messageSignature' | 'dsseEnvelope';
 
 export function createBundleBuilder(
   bundleType: 'messageSignature',
-  options: SignOptions
+  options: SignOptions,
+  services?: SigningServices
 ): MessageSignatureBundleBuilder;
 export function createBundleBuilder(
   bundleType: 'dsseEnvelope',
-  options: SignOptions
+  options: SignOptions,
+  services?: SigningServices
 ): DSSEBundleBuilder;
 export function createBundleBuilder(
   bundleType: BundleType,
-  options: SignOptions
+  options: SignOptions,
+  services: SigningServices = selectSigningServices(options)
 ): BundleBuilder {
   const bundlerOptions: BundleBuilderOptions = {
-    signer: initSigner(options),
-    witnesses: initWitnesses(options),
+    signer: initSigner(options, services),
+    witnesses: initWitnesses(options, services),
   };
 
   switch (bundleType) {
@@ -121,6 +171,33 @@ export function createKeyFinder(keySelector: KeySelector): KeyFinderFunc {
   };
 }
 
+// Determines the service endpoints to use when signing. Explicitly supplied
+// URLs are always used as-is. Otherwise, the services are selected from the
+// signing config by validity period and API version, falling back to the
+// public-good instance when there is no signing config. TSAs are only selected
+// from the signing config when a timestamp is requested.
+export function selectSigningServices(
+  options: SignOptions,
+  signingConfig?: SigningConfig
+): SigningServices {
+  return {
+    fulcioURL: selectCA(options, signingConfig),
+    rekorServices: selectTLogs(options, signingConfig),
+    tsaServerURLs: selectTSAs(options, signingConfig),
+  };
+}
+
+// Whether the signing config has been opted in to and any of the services
+// required to sign are not explicitly supplied
+export function needsSigningConfig(options: SignOptions): boolean {
+  return (
+    !!options.useSigningConfig &&
+    ((!options.privateKey && !options.fulcioURL) ||
+      (isRekorEnabled(options) && !options.rekorURL) ||
+      (!!options.requestTimestamp && !options.tsaServerURL))
+  );
+}
+
 export function createVerificationPolicy(
   options: VerifyOptions
 ): VerificationPolicy {
@@ -136,13 +213,26 @@ export function createVerificationPolicy(
     policy.extensions = { issuer: options.certificateIssuer };
   }
 
+  if (options.certificateOIDs) {
+    policy.oids = { ...options.certificateOIDs };
+  }
+
   return policy;
 }
 
-// Instantiate the FulcioSigner based on the supplied options.
-function initSigner(options: SignOptions): Signer {
+// Instantiate the signer based on the supplied options. If a private key is
+// provided, a KeySigner is used. Otherwise, a FulcioSigner is used.
+function initSigner(options: SignOptions, services: SigningServices): Signer {
+  if (options.privateKey) {
+    return new KeySigner({
+      privateKey: options.privateKey,
+      passphrase: options.privateKeyPassphrase,
+      keyHint: options.keyHint,
+    });
+  }
+
   return new FulcioSigner({
-    fulcioBaseURL: options.fulcioURL,
+    fulcioBaseURL: services.fulcioURL,
     identityProvider: options.identityProvider || initIdentityProvider(options),
     retry: options.retry ?? DEFAULT_RETRY,
     timeout: options.timeout ?? DEFAULT_TIMEOUT,
@@ -164,13 +254,17 @@ function initIdentityProvider(options: SignOptions): IdentityProvider {
 }
 
 // Instantiate a collection of witnesses based on the supplied options.
-function initWitnesses(options: SignOptions): Witness[] {
+function initWitnesses(
+  options: SignOptions,
+  services: SigningServices
+): Witness[] {
   const witnesses: Witness[] = [];
 
-  if (isRekorEnabled(options)) {
+  for (const rekor of services.rekorServices) {
     witnesses.push(
       new RekorWitness({
-        rekorBaseURL: options.rekorURL,
+        rekorBaseURL: rekor.url,
+        majorApiVersion: rekor.majorApiVersion,
         entryType: options.legacyCompatibility ? 'intoto' : 'dsse',
         fetchOnConflict: false,
         retry: options.retry ?? DEFAULT_RETRY,
@@ -179,10 +273,10 @@ function initWitnesses(options: SignOptions): Witness[] {
     );
   }
 
-  if (isTSAEnabled(options)) {
+  for (const tsaServerURL of services.tsaServerURLs) {
     witnesses.push(
       new TSAWitness({
-        tsaBaseURL: options.tsaServerURL,
+        tsaBaseURL: tsaServerURL,
         retry: options.retry ?? DEFAULT_RETRY,
         timeout: options.timeout ?? DEFAULT_TIMEOUT,
       })
@@ -199,9 +293,68 @@ function isRekorEnabled(
   return options.tlogUpload !== false;
 }
 
-// Type assertion to ensure that TSA is enabled
-function isTSAEnabled(
-  options: SignOptions
-): options is SignOptions & { tsaServerURL: string } {
-  return options.tsaServerURL !== undefined;
+// The CA is only needed when signing with a Fulcio-issued certificate
+function selectCA(
+  options: SignOptions,
+  signingConfig?: SigningConfig
+): string | undefined {
+  if (options.privateKey || options.fulcioURL) {
+    return options.fulcioURL;
+  }
+
+  return signingConfig
+    ? selectServices(
+        signingConfig.caUrls,
+        { selector: 'ANY' },
+        FULCIO_API_VERSIONS
+      )[0].url
+    : DEFAULT_FULCIO_URL;
+}
+
+// Explicitly supplied Rekor URLs and the public-good instance are accessed via
+// the v1 API
+function selectTLogs(
+  options: SignOptions,
+  signingConfig?: SigningConfig
+): RekorService[] {
+  if (!isRekorEnabled(options)) {
+    return [];
+  }
+
+  if (options.rekorURL) {
+    return [{ url: options.rekorURL, majorApiVersion: 1 }];
+  }
+
+  if (!signingConfig) {
+    return [{ url: DEFAULT_REKOR_URL, majorApiVersion: 1 }];
+  }
+
+  // Only the supported API versions are selected
+  return selectServices(
+    signingConfig.rekorTlogUrls,
+    signingConfig.rekorTlogConfig,
+    REKOR_API_VERSIONS
+  ).map((service) => ({
+    url: service.url,
+    majorApiVersion: service.majorApiVersion as RekorService['majorApiVersion'],
+  }));
+}
+
+// Timestamping is optional, so TSAs are only used when explicitly supplied or
+// when a timestamp is requested from those listed in the signing config
+function selectTSAs(
+  options: SignOptions,
+  signingConfig?: SigningConfig
+): string[] {
+  if (options.tsaServerURL) {
+    return [options.tsaServerURL];
+  }
+
+  return signingConfig && options.requestTimestamp
+    ? selectServices(
+        signingConfig.tsaUrls,
+        signingConfig.tsaConfig,
+        TSA_API_VERSIONS
+      ).map((service) => service.url)
+    : [];
 }
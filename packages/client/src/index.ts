@@ -21,9 +21,21 @@ export {
 } from '@sigstore/sign';
 export { TUFError } from '@sigstore/tuf';
 export { PolicyError, VerificationError } from '@sigstore/verify';
-export { attest, createVerifier, sign, verify } from './sigstore';
+export {
+  attest,
+  createVerifier,
+  getSigningServices,
+  sign,
+  verify,
+} from './sigstore';
 
 export type { SerializedBundle as Bundle } from '@sigstore/bundle';
-export type { IdentityProvider } from '@sigstore/sign';
-export type { SignOptions, VerifyOptions } from './config';
+export type { ArtifactStream, IdentityProvider } from '@sigstore/sign';
+export type { ArtifactDigest, VerificationResult } from '@sigstore/verify';
+export type {
+  RekorService,
+  SignOptions,
+  SigningServices,
+  VerifyOptions,
+} from './config';
 export type { BundleVerifier } from './sigstore';
@@ -14,25 +14,40 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import {
+  Bundle,
   SerializedBundle,
   bundleFromJSON,
   bundleToJSON,
 } from '@sigstore/bundle';
+import { X509CRL, X509Certificate, crypto } from '@sigstore/core';
+import { TrustedRoot } from '@sigstore/protobuf-specs';
 import * as tuf from '@sigstore/tuf';
 import {
+  ArtifactDigest,
+  VerificationResult,
   Verifier,
   VerifierOptions,
+  toArtifactDigest,
   toSignedEntity,
   toTrustMaterial,
 } from '@sigstore/verify';
+import fs from 'fs/promises';
 import * as config from './config';
 
+import type { ArtifactStream } from '@sigstore/sign';
+
+// The payload may be supplied as a stream (e.g. a Readable) in which case it
+// is hashed incrementally rather than being loaded in to memory in full
 export async function sign(
-  payload: Buffer,
+  payload: Buffer | ArtifactStream,
   /* istanbul ignore next */
   options: config.SignOptions = {}
 ): Promise<SerializedBundle> {
-  const bundler = config.createBundleBuilder('messageSignature', options);
+  const bundler = config.createBundleBuilder(
+    'messageSignature',
+    options,
+    await getSigningServices(options)
+  );
   const bundle = await bundler.create({ data: payload });
   return bundleToJSON(bundle);
 }
@@ -43,72 +58,218 @@ export async function attest(
   /* istanbul ignore next */
   options: config.SignOptions = {}
 ): Promise<SerializedBundle> {
-  const bundler = config.createBundleBuilder('dsseEnvelope', options);
+  const bundler = config.createBundleBuilder(
+    'dsseEnvelope',
+    options,
+    await getSigningServices(options)
+  );
   const bundle = await bundler.create({ data: payload, type: payloadType });
   return bundleToJSON(bundle);
 }
 
+// Resolves the service endpoints used when signing. The signing config is only
+// retrieved from the TUF repository when it has been opted in to and some of
+// the required services are not explicitly supplied. Otherwise, the public-good
+// instance is used for any missing services.
+export async function getSigningServices(
+  /* istanbul ignore next */
+  options: config.SignOptions = {}
+): Promise<config.SigningServices> {
+  if (!config.needsSigningConfig(options)) {
+    return config.selectSigningServices(options);
+  }
+
+  const signingConfig = await tuf.getSigningConfig(tufOptions(options));
+  return config.selectSigningServices(options, signingConfig);
+}
+
 export async function verify(
   bundle: SerializedBundle,
   options?: config.VerifyOptions
-): Promise<void>;
+): Promise<VerificationResult>;
 export async function verify(
   bundle: SerializedBundle,
-  data: Buffer,
+  data: Buffer | ArtifactDigest | ArtifactStream,
   options?: config.VerifyOptions
-): Promise<void>;
+): Promise<VerificationResult>;
 export async function verify(
   bundle: SerializedBundle,
-  dataOrOptions?: Buffer | config.VerifyOptions,
+  dataOrOptions?:
+    | Buffer
+    | ArtifactDigest
+    | ArtifactStream
+    | config.VerifyOptions,
   options?: config.VerifyOptions
-): Promise<void> {
-  let data: Buffer | undefined;
-  if (Buffer.isBuffer(dataOrOptions)) {
+): Promise<VerificationResult> {
+  let data: Buffer | ArtifactDigest | ArtifactStream | undefined;
+  if (
+    Buffer.isBuffer(dataOrOptions) ||
+    isArtifactDigest(dataOrOptions) ||
+    isArtifactStream(dataOrOptions)
+  ) {
     data = dataOrOptions;
   } else {
     options = dataOrOptions;
   }
 
-  return createVerifier(options).then((verifier) =>
-    verifier.verify(bundle, data)
-  );
+  const verifier = await createVerifier(options);
+
+  // Streamed artifacts are hashed up-front so that the signature can be
+  // verified against the digest. Ed25519 signatures can only be verified
+  // against the full message, so the stream is read in to memory instead.
+  if (isArtifactStream(data)) {
+    const deserializedBundle = bundleFromJSON(bundle);
+    data = isEd25519Signed(deserializedBundle, options?.keySelector)
+      ? await readStream(data)
+      : await toArtifactDigest(deserializedBundle, data);
+  }
+
+  return verifier.verify(bundle, data);
 }
 
 export interface BundleVerifier {
-  verify(bundle: SerializedBundle, data?: Buffer): void;
+  verify(
+    bundle: SerializedBundle,
+    data?: Buffer | ArtifactDigest
+  ): VerificationResult;
 }
 
 export async function createVerifier(
   /* istanbul ignore next */
   options: config.VerifyOptions = {}
 ): Promise<BundleVerifier> {
-  const trustedRoot = await tuf.getTrustedRoot({
-    mirrorURL: options.tufMirrorURL,
-    rootPath: options.tufRootPath,
-    cachePath: options.tufCachePath,
-    forceCache: options.tufForceCache,
-    retry: options.retry ?? config.DEFAULT_RETRY,
-    timeout: options.timeout ?? config.DEFAULT_TIMEOUT,
-  });
+  const trustedRoot = await getTrustedRoot(options);
 
   const keyFinder = options.keySelector
     ? config.createKeyFinder(options.keySelector)
     : undefined;
-  const trustMaterial = toTrustMaterial(trustedRoot, keyFinder);
+  const trustMaterial = {
+    ...toTrustMaterial(trustedRoot, keyFinder),
+    crls: await getCRLs(options),
+  };
 
   const verifierOptions: VerifierOptions = {
     ctlogThreshold: options.ctLogThreshold,
     tlogThreshold: options.tlogThreshold,
+    revocationMode: options.revocationMode,
   };
   const verifier = new Verifier(trustMaterial, verifierOptions);
   const policy = config.createVerificationPolicy(options);
 
   return {
-    verify: (bundle: SerializedBundle, payload?: Buffer): void => {
+    verify: (
+      bundle: SerializedBundle,
+      payload?: Buffer | ArtifactDigest
+    ): VerificationResult => {
       const deserializedBundle = bundleFromJSON(bundle);
       const signedEntity = toSignedEntity(deserializedBundle, payload);
-      verifier.verify(signedEntity, policy);
-      return;
+      return verifier.verify(signedEntity, policy);
     },
   };
 }
+
+// Retrieves the trusted root used for verification. An explicitly supplied
+// trusted root (or path to one) takes precedence and bypasses TUF entirely.
+async function getTrustedRoot(
+  options: config.VerifyOptions
+): Promise<TrustedRoot> {
+  if (options.trustedRoot) {
+    return options.trustedRoot;
+  }
+
+  if (options.trustedRootPath) {
+    const json = await fs.readFile(options.trustedRootPath, 'utf8');
+    return TrustedRoot.fromJSON(JSON.parse(json));
+  }
+
+  return tuf.getTrustedRoot(tufOptions(options));
+}
+
+function tufOptions(
+  options: config.SignOptions | config.VerifyOptions
+): tuf.TUFOptions {
+  return {
+    mirrorURL: options.tufMirrorURL,
+    rootPath: options.tufRootPath,
+    cachePath: options.tufCachePath,
+    forceCache: options.tufForceCache,
+    retry: options.retry ?? config.DEFAULT_RETRY,
+    timeout: options.timeout ?? config.DEFAULT_TIMEOUT,
+  };
+}
+
+// Loads the CRLs used to check the revocation status of certificates. Each
+// file may contain either a PEM or DER-encoded CRL.
+async function getCRLs(
+  options: config.VerifyOptions
+): Promise<X509CRL[] | undefined> {
+  if (!options.crlPaths) {
+    return undefined;
+  }
+
+  return Promise.all(
+    options.crlPaths.map(async (crlPath) => {
+      const data = await fs.readFile(crlPath);
+      const text = data.toString('utf8');
+      return X509CRL.parse(text.startsWith('-----BEGIN') ? text : data);
+    })
+  );
+}
+
+// Determines whether the bundle was signed with an Ed25519 key. For public-key
+// bundles the key is looked up with the supplied key selector.
+function isEd25519Signed(
+  bundle: Bundle,
+  keySelector?: config.VerifyOptions['keySelector']
+): boolean {
+  const { content } = bundle.verificationMaterial;
+  let key: crypto.KeyObject | undefined;
+
+  switch (content.$case) {
+    case 'publicKey':
+      key = keySelector
+        ? config.createKeyFinder(keySelector)(content.publicKey.hint).publicKey
+        : undefined;
+      break;
+    case 'x509CertificateChain':
+      key = certificateKey(
+        content.x509CertificateChain.certificates[0].rawBytes
+      );
+      break;
+    case 'certificate':
+      key = certificateKey(content.certificate.rawBytes);
+      break;
+  }
+
+  return key?.asymmetricKeyType === 'ed25519';
+}
+
+function certificateKey(der: Buffer): crypto.KeyObject {
+  return crypto.createPublicKey(X509Certificate.parse(der).publicKey);
+}
+
+async function readStream(data: ArtifactStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of data) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+function isArtifactStream(
+  value?: Buffer | ArtifactDigest | ArtifactStream | config.VerifyOptions
+): value is ArtifactStream {
+  return value !== undefined && Symbol.asyncIterator in value;
+}
+
+// An artifact digest is distinguished from the verification options by the
+// presence of a Buffer-valued "digest" property
+function isArtifactDigest(
+  value?: ArtifactDigest | ArtifactStream | config.VerifyOptions
+): value is ArtifactDigest {
+  return (
+    value !== undefined &&
+    'digest' in value &&
+    Buffer.isBuffer((value as ArtifactDigest).digest)
+  );
+}
@@ -1,10 +1,8 @@
 import { Args, Command, Flags } from '@oclif/core';
-import { Bundle, bundleFromJSON, MessageSignature } from '@sigstore/bundle';
+import { Bundle, bundleFromJSON } from '@sigstore/bundle';
 import { SignedEntity, toSignedEntity, Verifier } from '@sigstore/verify';
-import { ec as EC } from 'elliptic';
 import { existsSync } from 'fs';
 import fs from 'fs/promises';
-import crypto from 'node:crypto';
 import { trustMaterialFromPath, trustMaterialFromTUF } from '../trust';
 
 const DIGEST_PREFIX = 'sha256:';
@@ -82,16 +80,9 @@ async function signedEntityFromDigest(
   bundle: Bundle,
   digest: string
 ): Promise<SignedEntity> {
-  const signedEntity = toSignedEntity(bundle);
-
-  if (bundle.content.$case === 'messageSignature') {
-    signedEntity.signature = new MessageDigestSignatureContent(
-      bundle.content.messageSignature,
-      digest.split(':')[1]
-    );
-  }
-
-  return signedEntity;
+  return toSignedEntity(bundle, {
+    digest: Buffer.from(digest.slice(DIGEST_PREFIX.length), 'hex'),
+  });
 }
 
 function isDigest(fileOrDigest: string): boolean {
@@ -101,63 +92,3 @@ function isDigest(fileOrDigest: string): boolean {
     !existsSync(fileOrDigest)
   );
 }
-
-// Signature content implementation which can verify an artifact's signature
-// given the digest of the artifact. The default implementation requires the
-// artifact itself, which is not available when verifying a digest.
-// The crypto library in Node.js does not provide a way to verify a signature
-// given only the digest of the signed data. To work around this, we're using
-// the elliptic library to verify the signature on the digest directly.
-class MessageDigestSignatureContent {
-  constructor(
-    private messageSignature: MessageSignature,
-    private digest: string
-  ) {
-    this.messageSignature = messageSignature;
-    this.digest = digest;
-  }
-
-  get signature(): Buffer {
-    return this.messageSignature.signature;
-  }
-
-  public compareSignature(signature: Buffer): boolean {
-    return crypto.timingSafeEqual(signature, this.signature);
-  }
-
-  public compareDigest(digest: Buffer): boolean {
-    return crypto.timingSafeEqual(
-      digest,
-      this.messageSignature.messageDigest.digest
-    );
-  }
-
-  verifySignature(key: crypto.KeyObject): boolean {
-    // Export public key to JWK format
-    const jwk = key.export({ format: 'jwk' });
-    const ec = initEC(key.asymmetricKeyDetails?.namedCurve);
-
-    // Create an elliptic-compatible key from the JWK
-    const eckey = ec.keyFromPublic(
-      {
-        x: Buffer.from(jwk.x!, 'base64').toString('hex'),
-        y: Buffer.from(jwk.y!, 'base64').toString('hex'),
-      },
-      'hex'
-    );
-
-    return eckey.verify(this.digest, this.signature);
-  }
-}
-
-function initEC(curve: string | undefined): EC {
-  console.log(curve);
-  switch (curve) {
-    case 'prime256v1':
-      return new EC('p256');
-    case 'secp384r1':
-      return new EC('p384');
-    default:
-      throw new Error(`unsupported curve: ${curve}`);
-  }
-}
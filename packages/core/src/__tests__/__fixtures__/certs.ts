@@ -183,4 +183,104 @@ export const certificates = {
   rtECMQCDR5Zb2cwiENFL1XGg5E7si96en+Hc/F9EMKjQUHLHWRnMSRukC7jr3GnF
   NWj3tGQ=
   -----END CERTIFICATE-----`,
+
+  // Self-signed CA with name constraints permitting names under example.com,
+  // 10.0.0.0/8 and O=sigstore.mock, but excluding bad.example.com
+  nameconstraints: `-----BEGIN CERTIFICATE-----
+  MIICBzCCAa2gAwIBAgIBATAKBggqhkjOPQQDAjAqMRYwFAYDVQQKDA1zaWdzdG9y
+  ZS5tb2NrMRAwDgYDVQQDDAduYyByb290MCAXDTI2MTAxOTEzMDE0OFoYDzIxMjYw
+  OTI1MTMwMTQ4WjAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdu
+  YyByb290MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEqCPw8Xokm4v7uuNNP8Q/
+  Byvt5YlXywVhCp3GR8GUg9Op0MCeR7LLYrJaOxlpycp/1qJ38C1bHd1vrvVsr+zK
+  AKOBwTCBvjAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwIBBjAdBgNVHQ4E
+  FgQUbkG0lGlx9ShcSy4LXRM8OwqwAJ8wfAYDVR0eAQH/BHIwcKBZMA2CC2V4YW1w
+  bGUuY29tMA6BDC5leGFtcGxlLmNvbTAOhgwuZXhhbXBsZS5jb20wCocICgAAAP8A
+  AAAwHKQaMBgxFjAUBgNVBAoMDXNpZ3N0b3JlLm1vY2uhEzARgg9iYWQuZXhhbXBs
+  ZS5jb20wCgYIKoZIzj0EAwIDSAAwRQIhANEJVQ6Lql5kS7ZHnmKp6ldWH3zcFOVw
+  n9McWgEOdJWNAiAQnjaiH6Q1+h9fQLuIkpZVjW5UNqPailMrgkYa4O8C+A==
+  -----END CERTIFICATE-----`,
+  // Self-signed RSA CA with a PKCS#1 v1.5 (SHA-256) signature
+  rsaroot: `-----BEGIN CERTIFICATE-----
+  MIIDFTCCAf2gAwIBAgIBATANBgkqhkiG9w0BAQsFADArMRYwFAYDVQQKDA1zaWdz
+  dG9yZS5tb2NrMREwDwYDVQQDDAhyc2Egcm9vdDAgFw0yNjEwMTkxMzA4MDBaGA8y
+  MTI2MDkyNTEzMDgwMFowKzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazERMA8GA1UE
+  AwwIcnNhIHJvb3QwggEiMA0GCSqGSIb3DQEBAQUAA4IBDwAwggEKAoIBAQDI0xeJ
+  4VDTn+Ha01x52ATRjbMUyh7COGRE+JFW8gwBVRsezLQg98PHDRRs8ADbvKCJuf/c
+  honMndEGRmohhnVp7XMsGIGO6qPpswB3vw2pqiaapbS6L3QjYXF2y98/7NSt/U+t
+  u8GG1FQnP2vlpSrctOD07KtB4+H6X31wAGY0JP+wKsq8lxrDuG/f44imo4ZLEPg0
+  4L8YBB7wou+BgIqHQVD0UUZcyJ+BiAsGxK/GKwQyCszgtr6to/4OYLyQx4PUZ3fb
+  zXsmUWmWoFNs5g1N5nxxWOsLhmubTAI/S9W6xTpXFWXxcUy0uHeG/71j7Ig//H+Z
+  ECINlK2ytPe0TTBPAgMBAAGjQjBAMA8GA1UdEwEB/wQFMAMBAf8wDgYDVR0PAQH/
+  BAQDAgEGMB0GA1UdDgQWBBR5WXK49AgLDy4SbucQUHMIKDvqVjANBgkqhkiG9w0B
+  AQsFAAOCAQEAT41OwbMKKSNCXfqdvpKfCynWLVi3zH/jpRBM0K8r0557TDDAGPIq
+  IHsrj/nMimXEsKYRNOa2B+tTptnF7VyjBEv5hNS17Lts+PlO9sIG6HH6tpmq3Znc
+  7t3JrZSvro4zFs/TwxCrYca3rv+0QSkx94G3hjqko5a94lfkzi0nYotV/0KLN8RT
+  7bMf+DBEd9Cies985obOhuh9Sc4r16MCCaZHhuELE2XtgB2ebBdMyRxll0n5DMjF
+  kivaLl9ixbxWrbgpyRMG7My3g7HszEHo8cxIHWm++slDX/8IaAFYdlNxQzKSoWCi
+  wUQ/dl8CzhRbPP3hI9yNX/kVdOm1DUsc/A==
+  -----END CERTIFICATE-----`,
+
+  // Leaf issued by rsaroot with an RSASSA-PSS (SHA-384, 48 byte salt) signature
+  rsapssleaf: `-----BEGIN CERTIFICATE-----
+  MIIC5TCCAZmgAwIBAgIBAjBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQCAgUA
+  oRwwGgYJKoZIhvcNAQEIMA0GCWCGSAFlAwQCAgUAogMCATAwKzEWMBQGA1UECgwN
+  c2lnc3RvcmUubW9jazERMA8GA1UEAwwIcnNhIHJvb3QwIBcNMjYxMDE5MTMwODAw
+  WhgPMjEyNjA5MjUxMzA4MDBaMCsxFjAUBgNVBAoMDXNpZ3N0b3JlLm1vY2sxETAP
+  BgNVBAMMCGFsZyBsZWFmMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAERADpMFzb
+  fdj0+Cnq6mtzmf7t0zrXyoRjGe0eskSGmja3aYrc82OOfZABrYih221FHDFCXbki
+  lzndGgV2kzmtRKN1MHMwDAYDVR0TAQH/BAIwADAOBgNVHQ8BAf8EBAMCB4AwEwYD
+  VR0lBAwwCgYIKwYBBQUHAwMwHQYDVR0OBBYEFKYcw+mfg6mXCOcGWSmoGiKpbIxQ
+  MB8GA1UdIwQYMBaAFHlZcrj0CAsPLhJu5xBQcwgoO+pWMEEGCSqGSIb3DQEBCjA0
+  oA8wDQYJYIZIAWUDBAICBQChHDAaBgkqhkiG9w0BAQgwDQYJYIZIAWUDBAICBQCi
+  AwIBMAOCAQEAlYfaTBRAzAavjm35rC4a3ZTE3hj/8E27yKag0TGtX4Nj97OT38SV
+  NJ9nn0LhH+nxpBgvAn8RO7NmA+O+MgCTVm0GhsMVDUK2LmRUfBPq49ma+kIp5WGe
+  aTaAAbTwQQT80LvXD+TJlski1xxsgse0SftYNi/pQnPNn0g8cbYE1pZhwZoCX7+e
+  xUjjOKdZd5fozlG0tflf1+CnkE1ZggnFxOi0/GKrGJNn/L4xR/teP6r0phPeGur8
+  UGfvtwrSxhzBiNHgNo6Rkj8rCSRsKw59X+x0CYHn3sYT/aU58zuFFRZSX/3BJJLK
+  q/YAsdvB+47khUhIwTVvEKcu2xvfTM25og==
+  -----END CERTIFICATE-----`,
+
+  // Leaf issued by rsaroot with a PKCS#1 v1.5 (SHA-512) signature
+  rsaleaf: `-----BEGIN CERTIFICATE-----
+  MIICfTCCAWWgAwIBAgIBAzANBgkqhkiG9w0BAQ0FADArMRYwFAYDVQQKDA1zaWdz
+  dG9yZS5tb2NrMREwDwYDVQQDDAhyc2Egcm9vdDAgFw0yNjEwMTkxMzA4MDBaGA8y
+  MTI2MDkyNTEzMDgwMFowKzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazERMA8GA1UE
+  AwwIYWxnIGxlYWYwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAAREAOkwXNt92PT4
+  Kerqa3OZ/u3TOtfKhGMZ7R6yRIaaNrdpitzzY459kAGtiKHbbUUcMUJduSKXOd0a
+  BXaTOa1Eo3UwczAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIHgDATBgNVHSUE
+  DDAKBggrBgEFBQcDAzAdBgNVHQ4EFgQUphzD6Z+DqZcI5wZZKagaIqlsjFAwHwYD
+  VR0jBBgwFoAUeVlyuPQICw8uEm7nEFBzCCg76lYwDQYJKoZIhvcNAQENBQADggEB
+  AKhLkhnuab45IaiGRUKm6Tkd9ehuDAZzYHm+PIeB89Ln5qAx5IbqPWr4yry9bpRW
+  E+8PbxbvIAKmMX47pNnFbNwaDi8d+34FI8HHg56tntKSLHsvctq+5SKuqXQ8/Omt
+  hDpdBZKQogYHCaC91XjDqDmycpFSWYmkBvvW3FtPEMXz8LVUTBmki4dpj+ZZ3+PY
+  76DW30olRkx7Zwzp6Nfk+KEd6LiiqK4O9zJVJu44AOIVVMwv5Jbs1LrdliCRxcbW
+  9B+C50ujPJPnhPsS84v9ooSEVMlSNzgynq3ox3B1UvjVfEyzGVKaq2kZ9lIhIjuK
+  Zq54vbfKG0DvomMcblGZuus=
+  -----END CERTIFICATE-----`,
+
+  // Self-signed Ed25519 CA
+  ed25519root: `-----BEGIN CERTIFICATE-----
+  MIIBUTCCAQOgAwIBAgIBBDAFBgMrZXAwLzEWMBQGA1UECgwNc2lnc3RvcmUubW9j
+  azEVMBMGA1UEAwwMZWQyNTUxOSByb290MCAXDTI2MTAxOTEzMDgwMFoYDzIxMjYw
+  OTI1MTMwODAwWjAvMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRUwEwYDVQQDDAxl
+  ZDI1NTE5IHJvb3QwKjAFBgMrZXADIQB8slttjVpgSdTuUANzcQGLVShjvoyiO83X
+  Cg5wSmbAPqNCMEAwDwYDVR0TAQH/BAUwAwEB/zAOBgNVHQ8BAf8EBAMCAQYwHQYD
+  VR0OBBYEFEd0y9xt8urnSift6Xgb+2KBjHN3MAUGAytlcANBAFmHQOwe5uIwXvIj
+  c7QSlxLRBLTNFFGHl8Zyt2S0QJ/J788Y+KjQxfYxDYS3dij1UOP5klLp7LLliHj6
+  CqMAkQ4=
+  -----END CERTIFICATE-----`,
+
+  // Leaf issued by ed25519root
+  ed25519leaf: `-----BEGIN CERTIFICATE-----
+  MIIBrzCCAWGgAwIBAgIBBTAFBgMrZXAwLzEWMBQGA1UECgwNc2lnc3RvcmUubW9j
+  azEVMBMGA1UEAwwMZWQyNTUxOSByb290MCAXDTI2MTAxOTEzMDgwMFoYDzIxMjYw
+  OTI1MTMwODAwWjArMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMREwDwYDVQQDDAhh
+  bGcgbGVhZjBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABEQA6TBc233Y9Pgp6upr
+  c5n+7dM618qEYxntHrJEhpo2t2mK3PNjjn2QAa2IodttRRwxQl25Ipc53RoFdpM5
+  rUSjdTBzMAwGA1UdEwEB/wQCMAAwDgYDVR0PAQH/BAQDAgeAMBMGA1UdJQQMMAoG
+  CCsGAQUFBwMDMB0GA1UdDgQWBBSmHMPpn4OplwjnBlkpqBoiqWyMUDAfBgNVHSME
+  GDAWgBRHdMvcbfLq50on7el4G/tigYxzdzAFBgMrZXADQQDdnBLka7q6hm18KhQT
+  8FpZ2O+7zFOVVOS+Kkf1QbkwfSwiLmCKbKLaXv03kvdmgIxfd4LSZ6FkEnuJecdl
+  V0wE
+  -----END CERTIFICATE-----`,
 };
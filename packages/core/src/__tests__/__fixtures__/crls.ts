@@ -0,0 +1,140 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+// Certificate hierarchy and CRLs generated with OpenSSL. The "revoked" leaf
+// (serial 0x1001) is listed in the intermediate's revoked CRL and the
+// intermediate is listed in the root's revoked CRL.
+export const certificates = {
+  root: `-----BEGIN CERTIFICATE-----
+MIIBiTCCAS+gAwIBAgIBATAKBggqhkjOPQQDAjArMRYwFAYDVQQKDA1zaWdzdG9y
+ZS5tb2NrMREwDwYDVQQDDAhjcmwgcm9vdDAgFw0yNjEwMTkxMjUzMTdaGA8yMTI2
+MDkyNTEyNTMxN1owKzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazERMA8GA1UEAwwI
+Y3JsIHJvb3QwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAATpPdZLo1mvXm9Ujtaf
+miDa8uwzib5m7n/3+tlSlp/zPtJfZSakkhM3IOcLX4J9WNLfj478Tifl419/kHFz
+a2VBo0IwQDAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwIBBjAdBgNVHQ4E
+FgQUQc/RZCRcMtBnT3bqSGTWGpjtICMwCgYIKoZIzj0EAwIDSAAwRQIgcQWilQ8C
+ippGGPJ6cejxlvLfgO1z4W58lD4CeEwg5wkCIQCYSEcF+2gFbJcQefvfrOotve3j
+aD0xp5Sti5M58h3WeA==
+-----END CERTIFICATE-----`,
+  intermediate: `-----BEGIN CERTIFICATE-----
+MIIBtTCCAVugAwIBAgIBAjAKBggqhkjOPQQDAjArMRYwFAYDVQQKDA1zaWdzdG9y
+ZS5tb2NrMREwDwYDVQQDDAhjcmwgcm9vdDAgFw0yNjEwMTkxMjUzMTdaGA8yMTI2
+MDkyNTEyNTMxN1owMzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazEZMBcGA1UEAwwQ
+Y3JsIGludGVybWVkaWF0ZTBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABHG7zswk
+q/CN+LnMXc+N+2I/2SZudAYKC9M6bZoSq0lekdIP8Yw3frVld1m8bm3aOX7iujD2
+Zvu0N/mc4Jf6RcqjZjBkMBIGA1UdEwEB/wQIMAYBAf8CAQAwDgYDVR0PAQH/BAQD
+AgEGMB0GA1UdDgQWBBSotFcFIcVqB3qmTXfnImXrKQYUBTAfBgNVHSMEGDAWgBRB
+z9FkJFwy0GdPdupIZNYamO0gIzAKBggqhkjOPQQDAgNIADBFAiEA89RLfunFirLO
+Ai77NRwxHGfHe4qm25dbxvUCSGRU8B4CIAyKoIz8fH2JbPaziHUptvUEsta+jpg+
+/8TDsrKX82wk
+-----END CERTIFICATE-----`,
+  leaf: `-----BEGIN CERTIFICATE-----
+MIIBxDCCAWugAwIBAgICEAAwCgYIKoZIzj0EAwIwMzEWMBQGA1UECgwNc2lnc3Rv
+cmUubW9jazEZMBcGA1UEAwwQY3JsIGludGVybWVkaWF0ZTAgFw0yNjEwMTkxMzA0
+MjlaGA8yMTI2MDkyNTEzMDQyOVowKzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazER
+MA8GA1UEAwwIY3JsIGxlYWYwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAAQp73+G
+brUpeWc3YFjmZABQvDSG7uk/MNeZ0GTp3/+IRWAWbL421wsnZ4QCjQZthAOO0PV8
+jFS81DUTXWRNqK92o3UwczAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIHgDAT
+BgNVHSUEDDAKBggrBgEFBQcDAzAdBgNVHQ4EFgQUBjb5C4x0NeVg/PzWTS3H+H5j
+MDkwHwYDVR0jBBgwFoAUqLRXBSHFagd6pk135yJl6ykGFAUwCgYIKoZIzj0EAwID
+RwAwRAIgZ6xqTvbY0ss69ywv82zYx2gEbeoTi+NPYVFf0+Vk6PACIBrmMjSdfsjZ
+qoiIw0ql3HqBhujVJRP/jAtc4Nf3Tw93
+-----END CERTIFICATE-----`,
+  revoked: `-----BEGIN CERTIFICATE-----
+MIIByDCCAW6gAwIBAgICEAEwCgYIKoZIzj0EAwIwMzEWMBQGA1UECgwNc2lnc3Rv
+cmUubW9jazEZMBcGA1UEAwwQY3JsIGludGVybWVkaWF0ZTAgFw0yNjEwMTkxMzA0
+MjlaGA8yMTI2MDkyNTEzMDQyOVowLjEWMBQGA1UECgwNc2lnc3RvcmUubW9jazEU
+MBIGA1UEAwwLY3JsIHJldm9rZWQwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAASp
+xFTOHdrZloaDvYMleu8In3n/1rWu24zp3AhB6xkDWNPCwx8FC+de0emYnDZTaZdq
+8zoBacUp7EZDkrnSK1lJo3UwczAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIH
+gDATBgNVHSUEDDAKBggrBgEFBQcDAzAdBgNVHQ4EFgQUlJEL0K4MrLBM28zWWD/h
+3bhMTVAwHwYDVR0jBBgwFoAUqLRXBSHFagd6pk135yJl6ykGFAUwCgYIKoZIzj0E
+AwIDSAAwRQIhALeGEM2XKjJKNmiCMznsNpQFV651UV9PH82haTL8ckG/AiA4vjFA
+PNCi4wxYUjKPuGKieiZKr8NAX6ZuxEKIlHxKcw==
+-----END CERTIFICATE-----`,
+  // RSA CA which signs its CRLs with RSASSA-PSS
+  rsaRoot: `-----BEGIN CERTIFICATE-----
+MIIDFTCCAf2gAwIBAgIBATANBgkqhkiG9w0BAQsFADArMRYwFAYDVQQKDA1zaWdz
+dG9yZS5tb2NrMREwDwYDVQQDDAhyc2Egcm9vdDAgFw0yNjEwMTkxMzA4MDBaGA8y
+MTI2MDkyNTEzMDgwMFowKzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazERMA8GA1UE
+AwwIcnNhIHJvb3QwggEiMA0GCSqGSIb3DQEBAQUAA4IBDwAwggEKAoIBAQDI0xeJ
+4VDTn+Ha01x52ATRjbMUyh7COGRE+JFW8gwBVRsezLQg98PHDRRs8ADbvKCJuf/c
+honMndEGRmohhnVp7XMsGIGO6qPpswB3vw2pqiaapbS6L3QjYXF2y98/7NSt/U+t
+u8GG1FQnP2vlpSrctOD07KtB4+H6X31wAGY0JP+wKsq8lxrDuG/f44imo4ZLEPg0
+4L8YBB7wou+BgIqHQVD0UUZcyJ+BiAsGxK/GKwQyCszgtr6to/4OYLyQx4PUZ3fb
+zXsmUWmWoFNs5g1N5nxxWOsLhmubTAI/S9W6xTpXFWXxcUy0uHeG/71j7Ig//H+Z
+ECINlK2ytPe0TTBPAgMBAAGjQjBAMA8GA1UdEwEB/wQFMAMBAf8wDgYDVR0PAQH/
+BAQDAgEGMB0GA1UdDgQWBBR5WXK49AgLDy4SbucQUHMIKDvqVjANBgkqhkiG9w0B
+AQsFAAOCAQEAT41OwbMKKSNCXfqdvpKfCynWLVi3zH/jpRBM0K8r0557TDDAGPIq
+IHsrj/nMimXEsKYRNOa2B+tTptnF7VyjBEv5hNS17Lts+PlO9sIG6HH6tpmq3Znc
+7t3JrZSvro4zFs/TwxCrYca3rv+0QSkx94G3hjqko5a94lfkzi0nYotV/0KLN8RT
+7bMf+DBEd9Cies985obOhuh9Sc4r16MCCaZHhuELE2XtgB2ebBdMyRxll0n5DMjF
+kivaLl9ixbxWrbgpyRMG7My3g7HszEHo8cxIHWm++slDX/8IaAFYdlNxQzKSoWCi
+wUQ/dl8CzhRbPP3hI9yNX/kVdOm1DUsc/A==
+-----END CERTIFICATE-----`,
+};
+
+export const crls = {
+  intEmpty: `-----BEGIN X509 CRL-----
+MIHNMHQCAQEwCgYIKoZIzj0EAwIwMzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazEZ
+MBcGA1UEAwwQY3JsIGludGVybWVkaWF0ZRcNMjYxMDE5MTI1MzE4WhgPMjEyNjA5
+MjUxMjUzMThaoA4wDDAKBgNVHRQEAwIBATAKBggqhkjOPQQDAgNJADBGAiEAkN83
+eVSiYoiS5geKPgeQeRhDaeVi+dI0blDMRFKY8akCIQCAy06r2q5mCwCGcBcMdTsw
+KLex1R0j7PZAf1WaS1ipkg==
+-----END X509 CRL-----`,
+  intExpired: `-----BEGIN X509 CRL-----
+MIHKMHICAQEwCgYIKoZIzj0EAwIwMzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazEZ
+MBcGA1UEAwwQY3JsIGludGVybWVkaWF0ZRcNMjAwMTAxMDAwMDAwWhcNMjAwMjAx
+MDAwMDAwWqAOMAwwCgYDVR0UBAMCAQIwCgYIKoZIzj0EAwIDSAAwRQIgPXct9Uqn
+hWkRSCd8KAQ/34Lo5z2WKg1F6ugft9hfnrECIQCv9mBPNA6VrpMsm0ZICkglJ1jX
+4dCI7zv4u65bepDUDA==
+-----END X509 CRL-----`,
+  intRevoked: `-----BEGIN X509 CRL-----
+MIIBEjCBugIBATAKBggqhkjOPQQDAjAzMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2Nr
+MRkwFwYDVQQDDBBjcmwgaW50ZXJtZWRpYXRlFw0yNjEwMTkxMjUzMThaGA8yMTI2
+MDkyNTEyNTMxOFowIzAhAgIQARcNMjYxMDE5MTI1MzE4WjAMMAoGA1UdFQQDCgEB
+oC8wLTAfBgNVHSMEGDAWgBSotFcFIcVqB3qmTXfnImXrKQYUBTAKBgNVHRQEAwIB
+AzAKBggqhkjOPQQDAgNHADBEAiB8sAxwHvqPi58TCEahojBrjC5AMKsnALU8za7I
+5677KAIgJLpWx434UXa8deYduRJ+nJ+Yk9Gc8IZWJRZ1RUNTCZM=
+-----END X509 CRL-----`,
+  rootEmpty: `-----BEGIN X509 CRL-----
+MIHEMGwCAQEwCgYIKoZIzj0EAwIwKzEWMBQGA1UECgwNc2lnc3RvcmUubW9jazER
+MA8GA1UEAwwIY3JsIHJvb3QXDTI2MTAxOTEyNTMxOFoYDzIxMjYwOTI1MTI1MzE4
+WqAOMAwwCgYDVR0UBAMCAQEwCgYIKoZIzj0EAwIDSAAwRQIhAMtLaOVyBG4BHmhu
+mZuCgbyLikyBkrfBi0IbU4NJ7zpNAiBo/N3GGcdc3/O5Nq4Unwpqv+gVJilTSEbp
+4LtX8Zfibw==
+-----END X509 CRL-----`,
+  rootRevoked: `-----BEGIN X509 CRL-----
+MIH9MIGjAgEBMAoGCCqGSM49BAMCMCsxFjAUBgNVBAoMDXNpZ3N0b3JlLm1vY2sx
+ETAPBgNVBAMMCGNybCByb290Fw0yNjEwMTkxMjUzMThaGA8yMTI2MDkyNTEyNTMx
+OFowFDASAgECFw0yNjEwMTkxMjUzMThaoC8wLTAfBgNVHSMEGDAWgBRBz9FkJFwy
+0GdPdupIZNYamO0gIzAKBgNVHRQEAwIBAjAKBggqhkjOPQQDAgNJADBGAiEApCy7
+oHi9vXD8c7wOFHFIsooZq6MNsZ3fty0ukiyXwVMCIQCnPdbzuIBaUTwe5VQGkCij
+gCHhplKja4p7GSojBId0IQ==
+-----END X509 CRL-----`,
+  rsaRootPSS: `-----BEGIN X509 CRL-----
+MIIB7jCBowIBATBBBgkqhkiG9w0BAQowNKAPMA0GCWCGSAFlAwQCAQUAoRwwGgYJ
+KoZIhvcNAQEIMA0GCWCGSAFlAwQCAQUAogMCASAwKzEWMBQGA1UECgwNc2lnc3Rv
+cmUubW9jazERMA8GA1UEAwwIcnNhIHJvb3QXDTI2MTAxOTEzMTIyN1oYDzIxMjYw
+OTI1MTMxMjI3WqAOMAwwCgYDVR0UBAMCAQEwQQYJKoZIhvcNAQEKMDSgDzANBglg
+hkgBZQMEAgEFAKEcMBoGCSqGSIb3DQEBCDANBglghkgBZQMEAgEFAKIDAgEgA4IB
+AQB+Qt1IjPeRe1/40bOYcwtRJZE3Xqubtc7owsgNiilBh13xTNqzHQMTnw3O1q8g
+4Basj4M00tXH/7LGw0ov56CvcMMo1D0pE7GY0fsVIhqzj4V/HOY1tLZMWyDtKC8/
+GjO2XOON1/BIVnrlME2jOj9srNaYRkb+Rac/IWPt72BgA+98Xze6QIbMR54l4e3S
+/fefFimHasFSN5fD6vc3ktX4AqcgJ0veBhe5ALrlRk+mgKyV311w8cnzvrL4hqn7
+IAMCXW2UNesn4NwPzBcaC4Tgbhouea/s48AumVkJjp63KSiTIDL/gyb31u3mu9u7
+IfeM/+hXqzFEWpbcgf6a1XDw
+-----END X509 CRL-----`,
+};
@@ -0,0 +1,150 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+// Known-answer vectors for signatures over pre-computed digests.
+//
+// The ECDSA vectors are the deterministic signatures of the messages "sample"
+// and "test" from RFC 6979 appendix A.2.5 (P-256) and A.2.6 (P-384).
+//
+// The RSA signatures over the message "sample" were generated with OpenSSL
+// using a fixed 2048-bit key.
+export const ecdsaKeys: Record<string, { x: string; y: string }> = {
+  'P-256': {
+    x: '60fed4ba255a9d31c961eb74c6356d68c049b8923b61fa6ce669622e60f29fb6',
+    y: '7903fe1008b8bc99a41ae9e95628bc64f2f1b20c2d7e9f5177a3c294d4462299',
+  },
+  'P-384': {
+    x:
+      'ec3a4e415b4e19a4568618029f427fa5da9a8bc4ae92e02e06aae5286b300c64' +
+      'def8f0ea9055866064a254515480bc13',
+    y:
+      '8015d9b72d7d57244ea8ef9ac0c621896708a59367f9dfb9f54ca84b3f1c9db1' +
+      '288b231c3ae0d4fe7344fd2533264720',
+  },
+};
+
+export const ecdsaVectors = [
+  {
+    curve: 'P-256',
+    hash: 'sha256',
+    message: 'sample',
+    r: 'efd48b2aacb6a8fd1140dd9cd45e81d69d2c877b56aaf991c34d0ea84eaf3716',
+    s: 'f7cb1c942d657c41d436c7a1b6e29f65f3e900dbb9aff4064dc4ab2f843acda8',
+  },
+  {
+    curve: 'P-256',
+    hash: 'sha256',
+    message: 'test',
+    r: 'f1abb023518351cd71d881567b1ea663ed3efcf6c5132b354f28d3b0b7d38367',
+    s: '019f4113742a2b14bd25926b49c649155f267e60d3814b4c0cc84250e46f0083',
+  },
+  {
+    curve: 'P-256',
+    hash: 'sha384',
+    message: 'sample',
+    r: '0eafea039b20e9b42309fb1d89e213057cbf973dc0cfc8f129edddc800ef7719',
+    s: '4861f0491e6998b9455193e34e7b0d284ddd7149a74b95b9261f13abde940954',
+  },
+  {
+    curve: 'P-256',
+    hash: 'sha512',
+    message: 'sample',
+    r: '8496a60b5e9b47c825488827e0495b0e3fa109ec4568fd3f8d1097678eb97f00',
+    s: '2362ab1adbe2b8adf9cb9edab740ea6049c028114f2460f96554f61fae3302fe',
+  },
+  {
+    curve: 'P-384',
+    hash: 'sha256',
+    message: 'sample',
+    r:
+      '21b13d1e013c7fa1392d03c5f99af8b30c570c6f98d4ea8e354b63a21d3daa33' +
+      'bde1e888e63355d92fa2b3c36d8fb2cd',
+    s:
+      'f3aa443fb107745bf4bd77cb3891674632068a10ca67e3d45db2266fa7d1feeb' +
+      'efdc63eccd1ac42ec0cb8668a4fa0ab0',
+  },
+  {
+    curve: 'P-384',
+    hash: 'sha384',
+    message: 'sample',
+    r:
+      '94edbb92a5ecb8aad4736e56c691916b3f88140666ce9fa73d64c4ea95ad133c' +
+      '81a648152e44acf96e36dd1e80fabe46',
+    s:
+      '99ef4aeb15f178cea1fe40db2603138f130e740a19624526203b6351d0a3a94f' +
+      'a329c145786e679e7b82c71a38628ac8',
+  },
+  {
+    curve: 'P-384',
+    hash: 'sha384',
+    message: 'test',
+    r:
+      '8203b63d3c853e8d77227fb377bcf7b7b772e97892a80f36ab775d509d7a5feb' +
+      '0542a7f0812998da8f1dd3ca3cf023db',
+    s:
+      'ddd0760448d42d8a43af45af836fce4de8be06b485e9b61b827c2f13173923e0' +
+      '6a739f040649a667bf3b828246baa5a5',
+  },
+  {
+    curve: 'P-384',
+    hash: 'sha512',
+    message: 'sample',
+    r:
+      'ed0959d5880ab2d869ae7f6c2915c6d60f96507f9cb3e047c0046861da4a799c' +
+      'fe30f35cc900056d7c99cd7882433709',
+    s:
+      '512c8cceee3890a84058ce1e22dbc2198f42323ce8aca9135329f03c068e5112' +
+      'dc7cc3ef3446defceb01a45c2667fdd5',
+  },
+];
+
+export const rsaPublicKey = `-----BEGIN PUBLIC KEY-----
+MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAzODThty9F+Pj5auv5w0l
+DZBpXn9lik0j2ECrfSkdO1pIacHDhJzaXB4uVap3zfIJZtPnlpBGN3vREPRMerXz
+BuVZdBWOxRag50FVAEnRDmK5ugVJhGgQispdNjITGQHDq5ZSAr9qTaV2Ck59pbyN
+v6PjhVN2nw5z/sSRAK+l4RGd3r4XS1hYcPnlrseAvNCnzmUNpi9SZ/XAkhMLVjC9
+YW8g4o6OOPny5Uzvf7C00cfwf5BWaUUVNAjoAZM4AdnDo666/bIhzlwxvyimwMnF
+oaeDqob9tFBm1aDhd5RZ66cSgWa4SeI+jA8OVJHpYiMN8FSd+4PM/+M/BE+7NEKI
+dwIDAQAB
+-----END PUBLIC KEY-----`;
+
+export const rsaVectors = {
+  pkcs1: {
+    sha256: `ffkyEtAiUZMy9K4pLsb9MVTb/Wdp7yUdFCdanlefu0iYpS9bwYgvjz2H6gymmyaJXqg7gZJCl8R0
+jhchTo8mmSR7YzeCew2t4ncffUnAikiXiRRb2Qbv0XLUSmwfwBcXzoopNTW7Zu9nViBBX6zkwyli
+YRZF/2Ahl0Ok7UkdwdafJOQkwUluk1WZFzWirp80iCX6ZCLiyN7kz1Vol3uAt5PeenngeRFa4kVR
+T08gU1DxmV3SKmPRg/P1gukRNSCKszWNzGeEjdxKGXJkcxceKBoIE1YsYfOxaogSgETuKIcPymcF
+LntS2emYt1kTeg8YQQIoyqmutXSOw/kmqmaULQ==`,
+    sha512: `nwpDd5JKMHnTbkFQxBJiGT5yzGFqPndCBvChtl1cQKJvrjW4tPoWrxFCT7Pz2CVF53zuVQbfVDOk
+mTVC8j+pxJ8+L9za7yCX58Yw/bl0Ggr9bdjVj5wlj0NNw9a83SeL8ndge9WgIV5i7YGeLhXRsDnA
+DJvcH8c7t/SoqQf0la8DbBdwD+AzU0K1BhR+SYU9Rroc7zthkaUkIWNr2WHWQx1lXvA3MuDD7V4N
+kVYkcfgLH/kZKlCNQXmSMps3Xvojh+S+elVJqBmHAVt4ZfX23NniT8WofegPIxDCAx2iGZpTkyMG
+YYmCWpMtehfr4fT7jZYpxhNnt+drZQCEIzt7EA==`,
+  },
+  pss: {
+    // Salt length 32
+    sha256: `vzYk8W7lGKRU2dP8ySt+p4ePY/c1fiXoZjvXZpGvOgqHM1CH9JeVLri9wU5vmYtz9gv4hRKw9N2a
+xZlLV0TnGuc2A4A/R1h30WDXs4Q/HK8iECb4Tavyt7eUAiw+kMIHVXfGSBB3XCVkN2YRR5lSCf+q
+4VbMwi/NOLzrrThuXOBwgNszoXD1AJzOTJ6oT0QQxIfHCgpdrlO+hneDNLc4KNSIhP2X51vw2H9Z
+sts1BUZg48+yysRZGRbTS++4imLAF3ORiZljG5VVMV8Onn4whYB4t8MDbJ61n8D9OkVlcGAv14sL
+iVHRQEruHKFALSBQPdGIIJmrIrGeIVvq7X5YCg==`,
+    // Salt length 0
+    sha384: `H7gDcjxETWiHCedqv4CxGiLnxqAfQbYpfRkIXrGbiU7LuszG/S1r0297Ud4MmfAyQ4/c8nEUlDNp
+LG7eDT0Ysifv5XvDThVAmqpgFH55nTcj/ieUwkJDxtxCKy80neh1fEZhKGEXBrU5M9h+ouPQrWWe
+AeXrl+mht1mKpATDtpBF4NWUH1pU8bD9l6h4WgVm85E+bMEhPPBLEP8DLixRO6jRovxWDdksIEBk
+ueExEMrDpi1uuzMgjqDszCJFrszAK57NTJkXMAUXqLm6WlT37wxwsEpgEKf+PyfMPppe+QSEjBk7
+kSR2xFssr2/z6BGfNQmbqeTecJaLYKHkVbd76w==`,
+  },
+};
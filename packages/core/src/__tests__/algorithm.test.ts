@@ -0,0 +1,165 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { parseSignatureAlgorithm } from '../algorithm';
+import { ASN1Obj } from '../asn1';
+
+describe('parseSignatureAlgorithm', () => {
+  // Encodes a DER TLV for short (< 128 byte) values
+  const tlv = (tag: string, value: string): string =>
+    tag + (value.length / 2).toString(16).padStart(2, '0') + value;
+
+  const parse = (hex: string) =>
+    parseSignatureAlgorithm(ASN1Obj.parseBuffer(Buffer.from(hex, 'hex')));
+
+  describe('when the algorithm is ECDSA', () => {
+    // ecdsa-with-SHA256
+    const algId = tlv('30', '06082a8648ce3d040302');
+
+    it('returns the hash', () => {
+      expect(parse(algId)).toEqual({ hash: 'sha256' });
+    });
+  });
+
+  describe('when the algorithm is RSA PKCS#1 v1.5', () => {
+    // sha512WithRSAEncryption
+    const algId = tlv('30', '06092a864886f70d01010d0500');
+
+    it('returns the hash and padding', () => {
+      expect(parse(algId)).toEqual({ hash: 'sha512', padding: 'pkcs1' });
+    });
+  });
+
+  describe('when the algorithm is Ed25519', () => {
+    const algId = tlv('30', '06032b6570');
+
+    it('returns an algorithm without a hash', () => {
+      expect(parse(algId)).toEqual({});
+    });
+  });
+
+  describe('when the algorithm is not supported', () => {
+    // Ed448
+    const algId = tlv('30', '06032b6571');
+
+    it('returns undefined', () => {
+      expect(parse(algId)).toBeUndefined();
+    });
+  });
+
+  describe('when the algorithm is RSASSA-PSS', () => {
+    const oidPSS = '06092a864886f70d01010a';
+    const oidMGF1 = '06092a864886f70d010108';
+    const sha256 = tlv('30', '06096086480165030402010500');
+    const sha384 = tlv('30', '06096086480165030402020500');
+    const sha1 = tlv('30', '06052b0e03021a0500');
+
+    const pss = (...params: string[]) =>
+      tlv('30', oidPSS + tlv('30', params.join('')));
+    const hashParam = (hash: string) => tlv('a0', hash);
+    const mgfParam = (mgf: string) => tlv('a1', mgf);
+    const saltParam = tlv('a2', '020130');
+
+    describe('when all parameters are present', () => {
+      const algId = pss(
+        hashParam(sha384),
+        mgfParam(tlv('30', oidMGF1 + sha384)),
+        saltParam,
+        tlv('a3', '020101')
+      );
+
+      it('returns the hash, padding and salt length', () => {
+        expect(parse(algId)).toEqual({
+          hash: 'sha384',
+          padding: 'pss',
+          saltLength: 48,
+        });
+      });
+    });
+
+    describe('when the salt length is absent', () => {
+      const algId = pss(
+        hashParam(sha256),
+        mgfParam(tlv('30', oidMGF1 + sha256))
+      );
+
+      it('returns the default salt length', () => {
+        expect(parse(algId)).toEqual({
+          hash: 'sha256',
+          padding: 'pss',
+          saltLength: 20,
+        });
+      });
+    });
+
+    describe('when the parameters are absent', () => {
+      const algId = tlv('30', oidPSS);
+
+      it('returns undefined', () => {
+        expect(parse(algId)).toBeUndefined();
+      });
+    });
+
+    describe('when the hash is SHA-1', () => {
+      const algId = pss(hashParam(sha1), mgfParam(tlv('30', oidMGF1 + sha1)));
+
+      it('returns undefined', () => {
+        expect(parse(algId)).toBeUndefined();
+      });
+    });
+
+    describe('when the MGF1 hash does not match', () => {
+      const algId = pss(
+        hashParam(sha384),
+        mgfParam(tlv('30', oidMGF1 + sha256))
+      );
+
+      it('returns undefined', () => {
+        expect(parse(algId)).toBeUndefined();
+      });
+    });
+
+    describe('when the MGF1 hash is missing', () => {
+      const algId = pss(hashParam(sha256), mgfParam(tlv('30', oidMGF1)));
+
+      it('returns undefined', () => {
+        expect(parse(algId)).toBeUndefined();
+      });
+    });
+
+    describe('when the mask generation function is not MGF1', () => {
+      const algId = pss(
+        hashParam(sha256),
+        mgfParam(tlv('30', oidPSS + sha256))
+      );
+
+      it('returns undefined', () => {
+        expect(parse(algId)).toBeUndefined();
+      });
+    });
+
+    describe('when the trailer field is not supported', () => {
+      const algId = pss(
+        hashParam(sha256),
+        mgfParam(tlv('30', oidMGF1 + sha256)),
+        tlv('a3', '020102')
+      );
+
+      it('returns undefined', () => {
+        expect(parse(algId)).toBeUndefined();
+      });
+    });
+  });
+});
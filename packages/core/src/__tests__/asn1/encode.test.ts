@@ -0,0 +1,59 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { encodeInteger, encodeOID } from '../../asn1/encode';
+import { parseInteger, parseOID } from '../../asn1/parse';
+
+describe('encodeInteger', () => {
+  it('encodes positive integers', () => {
+    expect(encodeInteger(BigInt(0))).toEqual(Buffer.from([0x00]));
+    expect(encodeInteger(BigInt(127))).toEqual(Buffer.from([0x7f]));
+    expect(encodeInteger(BigInt(128))).toEqual(Buffer.from([0x00, 0x80]));
+    expect(encodeInteger(BigInt(256))).toEqual(Buffer.from([0x01, 0x00]));
+  });
+
+  it('encodes negative integers', () => {
+    expect(encodeInteger(BigInt(-1))).toEqual(Buffer.from([0xff]));
+    expect(encodeInteger(BigInt(-128))).toEqual(Buffer.from([0x80]));
+    expect(encodeInteger(BigInt(-129))).toEqual(Buffer.from([0xff, 0x7f]));
+    expect(encodeInteger(BigInt(-256))).toEqual(Buffer.from([0xff, 0x00]));
+  });
+
+  it('round-trips large integers', () => {
+    const n = BigInt('0xdeadbeefcafef00d1234');
+    expect(parseInteger(encodeInteger(n))).toEqual(n);
+    expect(parseInteger(encodeInteger(-n))).toEqual(-n);
+  });
+});
+
+describe('encodeOID', () => {
+  const tests = [
+    '1.2.840.10045.4.3.3',
+    '1.3.6.1.4.1.311.21.20',
+    '1.2.840.10045.2.1',
+    '2.16.840.1.101.3.4.2.1',
+    '1.3.6.1.4.1.57264.2',
+  ];
+
+  it.each(tests)('round-trips %s', (oid) => {
+    expect(parseOID(encodeOID(oid))).toEqual(oid);
+  });
+
+  it('encodes multi-byte components', () => {
+    expect(encodeOID('1.2.840.10045.4.3.3')).toEqual(
+      Buffer.from('2A8648CE3D040303', 'hex')
+    );
+  });
+});
@@ -193,6 +193,25 @@ describe('ASN1Tag', () => {
     });
   });
 
+  describe('#isUTF8String', () => {
+    describe('when the tag is a UTF8String', () => {
+      it('should return true', () => {
+        const tag = new ASN1Tag(0x0c);
+        expect(tag.isUTF8String()).toEqual(true);
+      });
+    });
+
+    describe('when the tag is not a UTF8String', () => {
+      it('should return false', () => {
+        let tag = new ASN1Tag(0x02);
+        expect(tag.isUTF8String()).toEqual(false);
+
+        tag = new ASN1Tag(0x8c);
+        expect(tag.isUTF8String()).toEqual(false);
+      });
+    });
+  });
+
   describe('#isUTCTime', () => {
     describe('when the tag is a UTCTime', () => {
       it('should return true', () => {
@@ -13,7 +13,25 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-import { bufferEqual, createPublicKey, digest } from '../crypto';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { ASN1Obj } from '../asn1';
+import {
+  bufferEqual,
+  createPublicKey,
+  digest,
+  digestStream,
+  signDigest,
+  signStream,
+  verify,
+  verifyDigest,
+} from '../crypto';
+import {
+  ecdsaKeys,
+  ecdsaVectors,
+  rsaPublicKey,
+  rsaVectors,
+} from './__fixtures__/signatures';
 
 describe('createPublicKey', () => {
   it('should create a public key from a PEM string', () => {
@@ -62,3 +80,608 @@ describe('bufferEqual', () => {
     expect(bufferEqual(a, b)).toBe(false);
   });
 });
+
+describe('digestStream', () => {
+  const data = Buffer.from('hello world');
+
+  it('returns the digest of the streamed data', async () => {
+    const stream = Readable.from([data.subarray(0, 5), data.subarray(5)]);
+    await expect(digestStream('sha256', stream)).resolves.toEqual(
+      digest('sha256', data)
+    );
+  });
+
+  it('accepts any async iterable', async () => {
+    async function* chunks() {
+      yield 'hello';
+      yield ' world';
+    }
+    await expect(digestStream('sha512', chunks())).resolves.toEqual(
+      digest('sha512', data)
+    );
+  });
+});
+
+describe('signStream', () => {
+  const message = Buffer.from('hello world');
+
+  describe.each([
+    ['ECDSA P-256', crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })],
+    ['ECDSA P-384', crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' })],
+    ['RSA', crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })],
+  ])('when the key is %s', (_, { privateKey, publicKey }) => {
+    it('returns a signature which verifies against the message', async () => {
+      const stream = Readable.from([
+        message.subarray(0, 5),
+        message.subarray(5),
+      ]);
+      const signature = await signStream(stream, privateKey);
+
+      expect(crypto.verify(null, message, publicKey, signature)).toBe(true);
+    });
+  });
+});
+
+describe('verify', () => {
+  const message = Buffer.from('hello world');
+
+  describe('when the algorithm is a hash name', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-384',
+    });
+    const signature = crypto.sign('sha384', message, privateKey);
+
+    it('returns true for a valid signature', () => {
+      expect(verify(message, publicKey, signature, 'sha384')).toBe(true);
+    });
+
+    it('returns false for a different message', () => {
+      expect(verify(Buffer.from('oops'), publicKey, signature, 'sha384')).toBe(
+        false
+      );
+    });
+  });
+
+  describe('when the signature is RSA-PSS', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    const signature = crypto.sign('sha256', message, {
+      key: privateKey,
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: 32,
+    });
+    const algorithm = {
+      hash: 'sha256',
+      padding: 'pss',
+      saltLength: 32,
+    } as const;
+
+    it('returns true for a valid signature', () => {
+      expect(verify(message, publicKey, signature, algorithm)).toBe(true);
+    });
+
+    it('accepts a PEM-encoded key', () => {
+      const pem = publicKey.export({ format: 'pem', type: 'spki' });
+      expect(verify(message, pem, signature, algorithm)).toBe(true);
+    });
+
+    it('returns false when PKCS#1 v1.5 padding is expected', () => {
+      expect(
+        verify(message, publicKey, signature, {
+          hash: 'sha256',
+          padding: 'pkcs1',
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('when the signature is Ed25519', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const signature = crypto.sign(null, message, privateKey);
+
+    it('returns true for a valid signature', () => {
+      expect(verify(message, publicKey, signature, {})).toBe(true);
+    });
+  });
+});
+
+describe('signDigest', () => {
+  const message = Buffer.from('hello world');
+
+  describe('when the key is RSA', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+
+    it.each(['sha256', 'sha384', 'sha512'])(
+      'returns a valid %s signature',
+      (algorithm) => {
+        const signature = signDigest(
+          digest(algorithm, message),
+          privateKey,
+          algorithm
+        );
+        expect(crypto.verify(algorithm, message, publicKey, signature)).toBe(
+          true
+        );
+      }
+    );
+
+    it('throws an error when the digest does not match the hash', () => {
+      expect(() =>
+        signDigest(digest('sha256', message), privateKey, 'sha512')
+      ).toThrow(/invalid sha512 digest length/);
+    });
+
+    it('throws an error when the hash is not supported', () => {
+      expect(() =>
+        signDigest(digest('sha1', message), privateKey, 'sha1')
+      ).toThrow(/unsupported hash algorithm/);
+    });
+  });
+
+  describe('when the key is ECDSA', () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+
+    it('throws an error', () => {
+      expect(() =>
+        signDigest(digest('sha256', message), privateKey, 'sha256')
+      ).toThrow(/unsupported key type/);
+    });
+  });
+});
+
+describe('verifyDigest', () => {
+  const message = Buffer.from('hello world');
+  const sha256 = digest('sha256', message);
+
+  describe.each([
+    ['P-256', 'sha256'],
+    ['P-384', 'sha256'],
+    ['P-384', 'sha384'],
+    ['P-256', 'sha512'],
+  ])('when the key is ECDSA %s with %s', (namedCurve, algorithm) => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve,
+    });
+    const d = digest(algorithm, message);
+    const signature = crypto.sign(algorithm, message, privateKey);
+
+    it('returns true for a valid signature', () => {
+      expect(verifyDigest(d, publicKey, signature, algorithm)).toBe(true);
+    });
+
+    it('returns false for a different digest', () => {
+      expect(
+        verifyDigest(
+          digest(algorithm, Buffer.from('foo')),
+          publicKey,
+          signature,
+          algorithm
+        )
+      ).toBe(false);
+    });
+
+    it('returns false when the digest does not match the hash', () => {
+      expect(verifyDigest(d, publicKey, signature, 'sha1')).toBe(false);
+    });
+  });
+
+  describe.each(ecdsaVectors)(
+    'when the key is ECDSA $curve with $hash (RFC 6979 "$message")',
+    ({ curve, hash, message, r, s }) => {
+      const publicKey = crypto.createPublicKey({
+        key: {
+          kty: 'EC',
+          crv: curve,
+          x: Buffer.from(ecdsaKeys[curve].x, 'hex').toString('base64url'),
+          y: Buffer.from(ecdsaKeys[curve].y, 'hex').toString('base64url'),
+        },
+        format: 'jwk',
+      });
+      const d = digest(hash, message);
+
+      it('returns true for the known signature', () => {
+        expect(verifyDigest(d, publicKey, derSignature(r, s), hash)).toBe(true);
+      });
+
+      it('returns false when the signature is modified', () => {
+        const tampered = (BigInt(`0x${s}`) ^ BigInt(1)).toString(16);
+        expect(
+          verifyDigest(d, publicKey, derSignature(r, tampered), hash)
+        ).toBe(false);
+      });
+
+      it('returns false when r and s are swapped', () => {
+        expect(verifyDigest(d, publicKey, derSignature(s, r), hash)).toBe(
+          false
+        );
+      });
+    }
+  );
+
+  describe('when the key is ECDSA', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const signature = crypto.sign('sha256', message, privateKey);
+
+    it('returns false when the signature is not DER-encoded', () => {
+      expect(
+        verifyDigest(sha256, publicKey, Buffer.from('foo'), 'sha256')
+      ).toBe(false);
+    });
+
+    it('returns false when the signature values are out of range', () => {
+      // SEQUENCE { INTEGER 0, INTEGER 1 }
+      const sig = Buffer.from('3006020100020101', 'hex');
+      expect(verifyDigest(sha256, publicKey, sig, 'sha256')).toBe(false);
+    });
+
+    it('returns false when the signature was created with another key', () => {
+      const other = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      expect(verifyDigest(sha256, other.publicKey, signature, 'sha256')).toBe(
+        false
+      );
+    });
+
+    it('returns false when the hash is not supported', () => {
+      expect(verifyDigest(sha256, publicKey, signature, 'foo')).toBe(false);
+    });
+
+    it('returns false when no hash is given', () => {
+      expect(verifyDigest(sha256, publicKey, signature, {})).toBe(false);
+    });
+  });
+
+  describe('when the curve is not supported', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'secp256k1',
+    });
+    const signature = crypto.sign('sha256', message, privateKey);
+
+    it('returns false', () => {
+      expect(verifyDigest(sha256, publicKey, signature, 'sha256')).toBe(false);
+    });
+  });
+
+  describe('when the key is RSA', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+
+    describe.each(['sha256', 'sha384', 'sha512'])(
+      'when the signature is PKCS#1 v1.5 with %s',
+      (algorithm) => {
+        const signature = crypto.sign(algorithm, message, privateKey);
+
+        it('returns true for a valid signature', () => {
+          expect(
+            verifyDigest(
+              digest(algorithm, message),
+              publicKey,
+              signature,
+              algorithm
+            )
+          ).toBe(true);
+        });
+
+        it('returns false when PSS padding is requested', () => {
+          expect(
+            verifyDigest(digest(algorithm, message), publicKey, signature, {
+              hash: algorithm,
+              padding: 'pss',
+            })
+          ).toBe(false);
+        });
+      }
+    );
+
+    describe.each([
+      ['sha256', 32],
+      ['sha384', 0],
+      ['sha512', 64],
+    ])('when the signature is PSS with %s', (algorithm, saltLength) => {
+      const signature = crypto.sign(algorithm, message, {
+        key: privateKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+        saltLength,
+      });
+
+      const pss = { hash: algorithm, padding: 'pss' } as const;
+
+      it('returns true for a valid signature', () => {
+        expect(
+          verifyDigest(digest(algorithm, message), publicKey, signature, pss)
+        ).toBe(true);
+      });
+
+      it('returns true when the salt length matches', () => {
+        expect(
+          verifyDigest(digest(algorithm, message), publicKey, signature, {
+            ...pss,
+            saltLength,
+          })
+        ).toBe(true);
+      });
+
+      it('returns false when the salt length does not match', () => {
+        expect(
+          verifyDigest(digest(algorithm, message), publicKey, signature, {
+            ...pss,
+            saltLength: saltLength + 1,
+          })
+        ).toBe(false);
+      });
+
+      it('returns false when PSS padding is not requested', () => {
+        expect(
+          verifyDigest(
+            digest(algorithm, message),
+            publicKey,
+            signature,
+            algorithm
+          )
+        ).toBe(false);
+      });
+
+      it('returns false for a different digest', () => {
+        expect(
+          verifyDigest(
+            digest(algorithm, Buffer.from('foo')),
+            publicKey,
+            signature,
+            pss
+          )
+        ).toBe(false);
+      });
+    });
+
+    describe('when the signature is invalid', () => {
+      it('returns false', () => {
+        expect(
+          verifyDigest(sha256, publicKey, Buffer.from('foo'), 'sha256')
+        ).toBe(false);
+        // Larger than the modulus
+        expect(
+          verifyDigest(sha256, publicKey, Buffer.alloc(256, 0xff), {
+            hash: 'sha256',
+            padding: 'pss',
+          })
+        ).toBe(false);
+      });
+    });
+
+    describe('when the digest does not match the hash', () => {
+      const signature = crypto.sign('sha256', message, privateKey);
+
+      it('returns false', () => {
+        expect(
+          verifyDigest(Buffer.alloc(20), publicKey, signature, 'sha256')
+        ).toBe(false);
+      });
+    });
+
+    describe('when the signature was created with another hash', () => {
+      const signature = crypto.sign('sha256', message, privateKey);
+
+      it('returns false', () => {
+        // Same digest bytes, but the DigestInfo identifies another hash
+        expect(
+          verifyDigest(
+            Buffer.concat([sha256, sha256]),
+            publicKey,
+            signature,
+            'sha512'
+          )
+        ).toBe(false);
+      });
+    });
+
+    describe('when the hash is not supported', () => {
+      const signature = crypto.sign('sha1', message, privateKey);
+      const sha1 = digest('sha1', message);
+
+      it('returns false', () => {
+        expect(verifyDigest(sha1, publicKey, signature, 'sha1')).toBe(false);
+        expect(
+          verifyDigest(sha1, publicKey, signature, {
+            hash: 'sha1',
+            padding: 'pss',
+          })
+        ).toBe(false);
+      });
+    });
+  });
+
+  describe('when the key is RSA (known-answer vectors)', () => {
+    const publicKey = crypto.createPublicKey(rsaPublicKey);
+    const sample = Buffer.from('sample');
+
+    describe.each(Object.entries(rsaVectors.pkcs1))(
+      'when the signature is PKCS#1 v1.5 with %s',
+      (hash, signature) => {
+        const sig = Buffer.from(signature, 'base64');
+
+        it('returns true for the known signature', () => {
+          expect(verifyDigest(digest(hash, sample), publicKey, sig, hash)).toBe(
+            true
+          );
+        });
+
+        it('returns false for a different message', () => {
+          expect(
+            verifyDigest(digest(hash, message), publicKey, sig, hash)
+          ).toBe(false);
+        });
+      }
+    );
+
+    describe.each([
+      ['sha256', 32],
+      ['sha384', 0],
+    ] as const)('when the signature is PSS with %s', (hash, saltLength) => {
+      const sig = Buffer.from(rsaVectors.pss[hash], 'base64');
+      const pss = { hash, padding: 'pss', saltLength } as const;
+
+      it('returns true for the known signature', () => {
+        expect(verifyDigest(digest(hash, sample), publicKey, sig, pss)).toBe(
+          true
+        );
+      });
+
+      it('returns false for a different message', () => {
+        expect(verifyDigest(digest(hash, message), publicKey, sig, pss)).toBe(
+          false
+        );
+      });
+
+      it('returns false when PKCS#1 v1.5 padding is expected', () => {
+        expect(verifyDigest(digest(hash, sample), publicKey, sig, hash)).toBe(
+          false
+        );
+      });
+    });
+  });
+
+  describe('when the PSS-encoded message is malformed', () => {
+    // Modulus length which is not a multiple of 8 so that the leftmost bits
+    // of the encoded message are unused
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2047,
+    });
+
+    // Produces a "signature" which decrypts to the supplied encoded message
+    const rawSign = (em: Buffer): Buffer =>
+      crypto.privateDecrypt(
+        { key: privateKey, padding: crypto.constants.RSA_NO_PADDING },
+        em
+      );
+
+    const pss = { hash: 'sha256', padding: 'pss' } as const;
+
+    it('returns true for a valid signature', () => {
+      const signature = crypto.sign('sha256', message, {
+        key: privateKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      });
+      expect(verifyDigest(sha256, publicKey, signature, pss)).toBe(true);
+    });
+
+    it('returns false when the trailer is invalid', () => {
+      const em = Buffer.alloc(256, 0x01);
+      expect(verifyDigest(sha256, publicKey, rawSign(em), pss)).toBe(false);
+    });
+
+    it('returns false when the unused bits are set', () => {
+      const em = Buffer.alloc(256);
+      em[0] = 0x40;
+      em[em.length - 1] = 0xbc;
+      expect(verifyDigest(sha256, publicKey, rawSign(em), pss)).toBe(false);
+    });
+
+    it('returns false when the separator is missing', () => {
+      // Masking the DB with the output of MGF1 yields all zeros
+      const h = Buffer.alloc(32);
+      const mask = mgf1(h, 256 - 32 - 1);
+      mask[0] &= 0x3f;
+      const em = Buffer.concat([mask, h, Buffer.from([0xbc])]);
+      expect(verifyDigest(sha256, publicKey, rawSign(em), pss)).toBe(false);
+    });
+  });
+
+  describe('when the key is RSA-PSS', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa-pss', {
+      modulusLength: 2048,
+    });
+    const signature = crypto.sign('sha256', message, privateKey);
+
+    it('returns true for a valid signature', () => {
+      expect(verifyDigest(sha256, publicKey, signature, 'sha256')).toBe(true);
+    });
+
+    it('returns false when PKCS#1 v1.5 padding is requested', () => {
+      expect(
+        verifyDigest(sha256, publicKey, signature, {
+          hash: 'sha256',
+          padding: 'pkcs1',
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe('when the RSA-PSS key is bound to a hash', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa-pss', {
+      modulusLength: 2048,
+      hashAlgorithm: 'sha256',
+      mgf1HashAlgorithm: 'sha256',
+    });
+    const signature = crypto.sign('sha256', message, privateKey);
+
+    it('returns true for a signature with that hash', () => {
+      expect(verifyDigest(sha256, publicKey, signature, 'sha256')).toBe(true);
+    });
+
+    it('returns false for a signature with another hash', () => {
+      // Node refuses to sign with another hash using the bound key, so the
+      // RSAPrivateKey is extracted from the PKCS#8 and used as a plain RSA key
+      const pkcs8 = ASN1Obj.parseBuffer(
+        privateKey.export({ format: 'der', type: 'pkcs8' })
+      );
+      const rsaKey = crypto.createPrivateKey({
+        key: pkcs8.subs[2].value,
+        format: 'der',
+        type: 'pkcs1',
+      });
+      const sig = crypto.sign('sha384', message, {
+        key: rsaKey,
+        padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      });
+      const sha384 = digest('sha384', message);
+
+      expect(
+        verifyDigest(sha384, crypto.createPublicKey(rsaKey), sig, {
+          hash: 'sha384',
+          padding: 'pss',
+        })
+      ).toBe(true);
+      expect(verifyDigest(sha384, publicKey, sig, 'sha384')).toBe(false);
+    });
+  });
+
+  describe('when the key type is not supported', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const signature = crypto.sign(null, message, privateKey);
+
+    it('returns false', () => {
+      expect(verifyDigest(sha256, publicKey, signature, 'sha256')).toBe(false);
+    });
+  });
+});
+
+// DER-encodes an ECDSA signature from the hex-encoded r and s values
+function derSignature(r: string, s: string): Buffer {
+  const integer = (value: string): Buffer => {
+    const hex = BigInt(`0x${value}`).toString(16);
+    let bytes = Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex');
+    if (bytes[0] & 0x80) {
+      bytes = Buffer.concat([Buffer.from([0]), bytes]);
+    }
+    return Buffer.concat([Buffer.from([0x02, bytes.length]), bytes]);
+  };
+  const body = Buffer.concat([integer(r), integer(s)]);
+  return Buffer.concat([Buffer.from([0x30, body.length]), body]);
+}
+
+function mgf1(seed: Buffer, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  for (let i = 0; blocks.length * 32 < length; i++) {
+    const c = Buffer.alloc(4);
+    c.writeUInt32BE(i);
+    blocks.push(crypto.createHash('sha256').update(seed).update(c).digest());
+  }
+  return Buffer.concat(blocks).subarray(0, length);
+}
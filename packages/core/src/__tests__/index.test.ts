@@ -19,8 +19,11 @@ it('exports classes', () => {
   expect(core.ASN1Obj).toBeInstanceOf(Function);
   expect(core.ByteStream).toBeInstanceOf(Function);
   expect(core.RFC3161Timestamp).toBeInstanceOf(Function);
+  expect(core.encodeTimestampRequest).toBeInstanceOf(Function);
   expect(core.X509Certificate).toBeInstanceOf(Function);
+  expect(core.X509CRL).toBeInstanceOf(Function);
   expect(core.X509SCTExtension).toBeInstanceOf(Function);
+  expect(core.SignedCertificateTimestamp).toBeInstanceOf(Function);
 });
 
 it('exports modules', () => {
@@ -0,0 +1,87 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { ASN1Obj } from '../../asn1';
+import { RFC3161TimestampRequestError } from '../../rfc3161/error';
+import { encodeTimestampRequest } from '../../rfc3161/request';
+
+describe('encodeTimestampRequest', () => {
+  const digest = Buffer.from(
+    '853ff93762a06ddbf722c4ebe9ddd66d8f63ddaea97f521c3ecc20da7c976020',
+    'hex'
+  );
+
+  describe('when only the required fields are supplied', () => {
+    const req = ASN1Obj.parseBuffer(
+      encodeTimestampRequest({ digest, hashAlgorithm: 'sha256' })
+    );
+
+    it('encodes the version and message imprint', () => {
+      expect(req.subs).toHaveLength(2);
+      expect(req.subs[0].toInteger()).toEqual(1n);
+
+      const [hashAlgorithm, hashedMessage] = req.subs[1].subs;
+      expect(hashAlgorithm.subs[0].toOID()).toEqual('2.16.840.1.101.3.4.2.1');
+      expect(hashAlgorithm.subs[1].tag.number).toEqual(0x05);
+      expect(hashedMessage.value).toEqual(digest);
+    });
+  });
+
+  describe('when all of the optional fields are supplied', () => {
+    const der = encodeTimestampRequest({
+      digest,
+      hashAlgorithm: 'sha256',
+      policyOID: '1.3.6.1.4.1.57264.2',
+      nonce: BigInt('0x8badf00ddeadbeef'),
+      certReq: true,
+    });
+    const req = ASN1Obj.parseBuffer(der);
+
+    it('encodes the optional fields', () => {
+      expect(req.subs).toHaveLength(5);
+      expect(req.subs[2].toOID()).toEqual('1.3.6.1.4.1.57264.2');
+      expect(req.subs[3].toInteger()).toEqual(BigInt('0x8badf00ddeadbeef'));
+      expect(req.subs[4].toBoolean()).toBe(true);
+    });
+
+    it('round-trips the DER encoding', () => {
+      expect(req.toDER()).toEqual(der);
+    });
+  });
+
+  describe('when certReq is false', () => {
+    const req = ASN1Obj.parseBuffer(
+      encodeTimestampRequest({
+        digest,
+        hashAlgorithm: 'sha256',
+        certReq: false,
+      })
+    );
+
+    it('omits the certReq field', () => {
+      expect(req.subs).toHaveLength(2);
+    });
+  });
+
+  describe('when the hash algorithm is not supported', () => {
+    it('throws an error', () => {
+      const encode = () =>
+        encodeTimestampRequest({ digest, hashAlgorithm: 'md5' });
+
+      expect(encode).toThrow(RFC3161TimestampRequestError);
+      expect(encode).toThrow('unsupported hash algorithm: md5');
+    });
+  });
+});
@@ -13,6 +13,7 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import { ASN1Obj } from '../../asn1';
 import { createPublicKey } from '../../crypto';
 import { RFC3161TimestampVerificationError } from '../../rfc3161/error';
 import { RFC3161Timestamp } from '../../rfc3161/timestamp';
@@ -40,6 +41,18 @@ describe('RFC3161Timestamp', () => {
     });
   });
 
+  describe('statusString', () => {
+    it('should return undefined when no status text is present', () => {
+      expect(subject.statusString).toBeUndefined();
+    });
+  });
+
+  describe('failureInfo', () => {
+    it('should return an empty list when no failure info is present', () => {
+      expect(subject.failureInfo).toEqual([]);
+    });
+  });
+
   describe('signingTime', () => {
     it('should return the timestamp signing time', () => {
       expect(subject.signingTime).toEqual(new Date('2023-12-20T21:49:18.000Z'));
@@ -72,6 +85,141 @@ describe('RFC3161Timestamp', () => {
     });
   });
 
+  describe('signingCertificateIDs', () => {
+    const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+
+    // Locates the SigningCertificateV2 attribute and the set which contains it
+    const findAttribute = (obj: ASN1Obj): [ASN1Obj, ASN1Obj] | undefined => {
+      for (const sub of obj.subs) {
+        if (
+          sub.subs[0]?.tag.isOID() &&
+          sub.subs[0].toOID() === OID_SIGNING_CERTIFICATE_V2
+        ) {
+          return [sub, obj];
+        }
+        const found = findAttribute(sub);
+        if (found) {
+          return found;
+        }
+      }
+    };
+
+    // Re-encodes the timestamp with the given hashAlgorithm inserted into the
+    // ESSCertIDv2
+    const withHashAlgorithm = (algorithm: string): RFC3161Timestamp => {
+      const root = ASN1Obj.parseBuffer(ts);
+      const [attr] = findAttribute(root)!;
+      const essCertID = attr.subs[1].subs[0].subs[0].subs[0];
+      essCertID.subs.unshift(
+        ASN1Obj.parseBuffer(Buffer.from(algorithm, 'hex'))
+      );
+      return RFC3161Timestamp.parse(root.toDER());
+    };
+
+    describe('when the hashAlgorithm is omitted', () => {
+      it('returns the cert ID with the default hash algorithm', () => {
+        expect(subject.signingCertificateIDs).toEqual([
+          {
+            hashAlgorithm: 'sha256',
+            certHash: Buffer.from(
+              '2e17ebb7b3578ab438579c9e4454031eac5518dbfd0ea7658cb471f31f1ca801',
+              'hex'
+            ),
+          },
+        ]);
+      });
+    });
+
+    describe('when the hashAlgorithm is specified', () => {
+      // AlgorithmIdentifier for SHA-384
+      const subject = withHashAlgorithm('300d06096086480165030402020500');
+
+      it('returns the cert ID with the specified hash algorithm', () => {
+        const ids = subject.signingCertificateIDs;
+        expect(ids).toHaveLength(1);
+        expect(ids?.[0].hashAlgorithm).toEqual('sha384');
+        expect(ids?.[0].certHash).toHaveLength(32);
+      });
+    });
+
+    describe('when the hashAlgorithm is not a SHA-2 algorithm', () => {
+      // AlgorithmIdentifier for SHA-1
+      const subject = withHashAlgorithm('300906052b0e03021a0500');
+
+      it('returns the cert ID with the algorithm OID', () => {
+        const ids = subject.signingCertificateIDs;
+        expect(ids?.[0].hashAlgorithm).toEqual('1.3.14.3.2.26');
+      });
+    });
+
+    describe('when the SigningCertificateV2 attribute is missing', () => {
+      const root = ASN1Obj.parseBuffer(ts);
+      const [attr, signedAttrs] = findAttribute(root)!;
+      signedAttrs.subs.splice(signedAttrs.subs.indexOf(attr), 1);
+      const subject = RFC3161Timestamp.parse(root.toDER());
+
+      it('returns undefined', () => {
+        expect(subject.signingCertificateIDs).toBeUndefined();
+      });
+    });
+  });
+
+  describe('verifyStatus', () => {
+    describe('when the request was granted', () => {
+      it('does not throw an error', () => {
+        expect(() => subject.verifyStatus()).not.toThrow();
+      });
+    });
+
+    describe('when the request was rejected', () => {
+      // TimeStampResp with status rejection, the text "bad", badAlg and
+      // badRequest
+      const subject = RFC3161Timestamp.parse(
+        Buffer.from('3010300e02010230050c03626164030205a0', 'hex')
+      );
+
+      it('returns the status details', () => {
+        expect(subject.status).toEqual(2n);
+        expect(subject.statusString).toEqual('bad');
+        expect(subject.failureInfo).toEqual(['badAlg', 'badRequest']);
+      });
+
+      it('throws an error', () => {
+        expect(() => subject.verifyStatus()).toThrow(
+          new RFC3161TimestampVerificationError(
+            'timestamp request failed with status rejection: badAlg, badRequest, bad'
+          )
+        );
+      });
+    });
+
+    describe('when the request is waiting', () => {
+      const subject = RFC3161Timestamp.parse(
+        Buffer.from('30053003020103', 'hex')
+      );
+
+      it('throws an error', () => {
+        expect(() => subject.verifyStatus()).toThrow(
+          new RFC3161TimestampVerificationError(
+            'timestamp request failed with status waiting'
+          )
+        );
+      });
+    });
+
+    describe('when the timestamp token is missing', () => {
+      const subject = RFC3161Timestamp.parse(
+        Buffer.from('30053003020100', 'hex')
+      );
+
+      it('throws an error', () => {
+        expect(() => subject.verifyStatus()).toThrow(
+          new RFC3161TimestampVerificationError('timeStampToken is missing')
+        );
+      });
+    });
+  });
+
   describe('verify', () => {
     describe('when the timestamp is valid', () => {
       const subject = RFC3161Timestamp.parse(ts);
@@ -95,6 +243,55 @@ describe('RFC3161Timestamp', () => {
       });
     });
 
+    describe('when the timestamp is signed with RSA', () => {
+      // Generated with "openssl ts", which identifies the signature algorithm
+      // as rsaEncryption
+      const subject = RFC3161Timestamp.parse(
+        Buffer.from(
+          'MIIF2DADAgEAMIIFzwYJKoZIhvcNAQcCoIIFwDCCBbwCAQMxDzANBglghkgBZQMEAgEFADBxBgsqhkiG9w0BCRABBKBiBGAwXgIBAQYDKgMEMDEwDQYJYIZIAWUDBAIBBQAEIIU/+TdioG3b9yLE6+nd1m2PY92uqX9SHD7MINp8l2AgAgECGA8yMDI2MTAxOTEzMTI1MFowAwIBAQIIFHezTZs5+xOgggMsMIIDKDCCAhCgAwIBAgIBBjANBgkqhkiG9w0BAQsFADAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdyc2EgdHNhMCAXDTI2MTAxOTEzMTI1MFoYDzIxMjYwOTI1MTMxMjUwWjAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdyc2EgdHNhMIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAyNMXieFQ05/h2tNcedgE0Y2zFMoewjhkRPiRVvIMAVUbHsy0IPfDxw0UbPAA27ygibn/3IaJzJ3RBkZqIYZ1ae1zLBiBjuqj6bMAd78NqaommqW0ui90I2FxdsvfP+zUrf1PrbvBhtRUJz9r5aUq3LTg9OyrQePh+l99cABmNCT/sCrKvJcaw7hv3+OIpqOGSxD4NOC/GAQe8KLvgYCKh0FQ9FFGXMifgYgLBsSvxisEMgrM4La+raP+DmC8kMeD1Gd32817JlFplqBTbOYNTeZ8cVjrC4Zrm0wCP0vVusU6VxVl8XFMtLh3hv+9Y+yIP/x/mRAiDZStsrT3tE0wTwIDAQABo1cwVTAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIHgDAWBgNVHSUBAf8EDDAKBggrBgEFBQcDCDAdBgNVHQ4EFgQUeVlyuPQICw8uEm7nEFBzCCg76lYwDQYJKoZIhvcNAQELBQADggEBACAOLO31m01Cc4zlgWKc0q5ycoqMUE01ZTNCmSkzyFRXxmNZGPl2ZgKE9M0ojyPIyS34IEOMa74PMjCNO5QMfUa96reNxL0u0a5Q79vc2rDJJPrKYXVuUOS21UvPhCRvLu90jm/SLhARu5ERza2ysYwZf0OsPZ3msorCoJOTbXSmRB2ZOLnaz6Kl6fiAR2dpLYPfexjD4AXsYnCsTQ7k95e8shUcC4B/TmxORvuq7Bu5/dM8cgJwvqfP9N6RMJTy4AAAKI35VXSawrrdWWI8QDmZBlxfzaeFnAbKyhnQM5Up/fJyFGUFci+Fj+lz5T5s2GNOOer4mi+OvsEscIYvt+UxggIBMIIB/QIBATAvMCoxFjAUBgNVBAoMDXNpZ3N0b3JlLm1vY2sxEDAOBgNVBAMMB3JzYSB0c2ECAQYwDQYJYIZIAWUDBAIBBQCggaQwGgYJKoZIhvcNAQkDMQ0GCyqGSIb3DQEJEAEEMBwGCSqGSIb3DQEJBTEPFw0yNjEwMTkxMzEyNTBaMC8GCSqGSIb3DQEJBDEiBCDJa1CcUeifHgfZu83YhANtUpS0axODXAFbnIAqp2hEdTA3BgsqhkiG9w0BCRACLzEoMCYwJDAiBCCCBwUNGLpDaoseuw/j3x0CWVU4rgIhjwCEmacXCf3bpDANBgkqhkiG9w0BAQEFAASCAQA9xGEe5ETjqDcXOOAePsVG6MzUPJGcRkHEyFaJXzedbwX9PvtdUAKyfuMc7FEoDsfMHmO0wPdVmcGfeb0ed8jYlMUeYfr6RVE5B/o4LDM0zAfT7tKTMC2JsMZJ+h4KcUJORWn88nHHXgGCepVSTxzxyd+3U9E1pMp/qUn8JfBtkoc/4JITU98dBHQh7uadRiXx/LhVibwqPK52c2KZ31pjaII7pRbZojV+QQYtt7Oe87uhLsAPl1FAh6Ei8qeMo/l6TlRN8DqkTvU/liE9d2rz0i6zW+1ZhQYNHK4IIRKMvwR0pPoOvMgTAnr/vMCc79UExQ4d8JyV6kEnk0Zgmgor',
+          'base64'
+        )
+      );
+      const key = createPublicKey(
+        '-----BEGIN PUBLIC KEY-----\n' +
+          'MIIBIjANBgkqhkiG9w0BAQEFAAOCAQ8AMIIBCgKCAQEAyNMXieFQ05/h2tNcedgE\n' +
+          '0Y2zFMoewjhkRPiRVvIMAVUbHsy0IPfDxw0UbPAA27ygibn/3IaJzJ3RBkZqIYZ1\n' +
+          'ae1zLBiBjuqj6bMAd78NqaommqW0ui90I2FxdsvfP+zUrf1PrbvBhtRUJz9r5aUq\n' +
+          '3LTg9OyrQePh+l99cABmNCT/sCrKvJcaw7hv3+OIpqOGSxD4NOC/GAQe8KLvgYCK\n' +
+          'h0FQ9FFGXMifgYgLBsSvxisEMgrM4La+raP+DmC8kMeD1Gd32817JlFplqBTbOYN\n' +
+          'TeZ8cVjrC4Zrm0wCP0vVusU6VxVl8XFMtLh3hv+9Y+yIP/x/mRAiDZStsrT3tE0w\n' +
+          'TwIDAQAB\n' +
+          '-----END PUBLIC KEY-----\n'
+      );
+
+      it('returns the signature algorithm from the digest algorithm', () => {
+        expect(subject.signatureAlgorithm).toEqual('sha256');
+      });
+
+      it('does not throw an error', () => {
+        expect(() => subject.verify(artifact, key)).not.toThrow();
+      });
+    });
+
+    describe('when the signature algorithm is not supported', () => {
+      // Replace the signature algorithm of the signer info with Ed448
+      const root = ASN1Obj.parseBuffer(ts);
+      const signedData = root.subs[1].subs[1].subs[0];
+      const signerInfo = signedData.subs[signedData.subs.length - 1].subs[0];
+      signerInfo.subs[4] = ASN1Obj.parseBuffer(
+        Buffer.from('300506032b6571', 'hex')
+      );
+      const subject = RFC3161Timestamp.parse(root.toDER());
+      const key = createPublicKey(publicKey);
+
+      it('throws an error', () => {
+        expect(subject.signatureAlgorithm).toBeUndefined();
+        expect(() => subject.verify(artifact, key)).toThrow(
+          RFC3161TimestampVerificationError
+        );
+      });
+    });
+
     describe('when the key does NOT match the signature', () => {
       const subject = RFC3161Timestamp.parse(ts);
       const data = artifact;
@@ -31,12 +31,82 @@ describe('TSTInfo', () => {
     });
   });
 
+  describe('policy', () => {
+    it('returns the policy', () => {
+      expect(subject.policy).toEqual('1.3.6.1.4.1.57264.2');
+    });
+  });
+
   describe('genTime', () => {
     it('returns the genTime', () => {
       expect(subject.genTime).toEqual(new Date('2023-12-20T21:49:18.000Z'));
     });
   });
 
+  describe('nonce', () => {
+    describe('when the nonce is absent', () => {
+      it('returns undefined', () => {
+        expect(subject.nonce).toBeUndefined();
+      });
+    });
+
+    describe('when the nonce is present', () => {
+      // Same TSTInfo with a nonce of 42 following the accuracy field
+      const der = Buffer.from(
+        tstInfoDER
+          .toString('hex')
+          .replace(/^3081a6/, '3081a9')
+          .replace('3003020101a036', '3003020101' + '02012a' + 'a036'),
+        'hex'
+      );
+      const subject = new TSTInfo(ASN1Obj.parseBuffer(der));
+
+      it('returns the nonce', () => {
+        expect(subject.nonce).toEqual(BigInt(42));
+      });
+    });
+  });
+
+  describe('accuracy', () => {
+    describe('when the accuracy is specified in seconds', () => {
+      it('returns the accuracy in milliseconds', () => {
+        expect(subject.accuracy).toEqual(1000);
+      });
+    });
+
+    describe('when the accuracy includes millis and micros', () => {
+      // Same TSTInfo with an accuracy of 1s, 500ms and 10us
+      const der = Buffer.from(
+        tstInfoDER
+          .toString('hex')
+          .replace(/^3081a6/, '3081ad')
+          .replace('3003020101a036', '300a020101800201f481010a' + 'a036'),
+        'hex'
+      );
+      const subject = new TSTInfo(ASN1Obj.parseBuffer(der));
+
+      it('returns the accuracy in milliseconds', () => {
+        expect(subject.accuracy).toEqual(1500.01);
+      });
+    });
+
+    describe('when the accuracy is absent', () => {
+      // Same TSTInfo without the accuracy field
+      const der = Buffer.from(
+        tstInfoDER
+          .toString('hex')
+          .replace(/^3081a6/, '3081a1')
+          .replace('3003020101a036', 'a036'),
+        'hex'
+      );
+      const subject = new TSTInfo(ASN1Obj.parseBuffer(der));
+
+      it('returns undefined', () => {
+        expect(subject.accuracy).toBeUndefined();
+      });
+    });
+  });
+
   describe('messageImprintHashAlgorithm', () => {
     it('returns the messageImprintHashAlgorithm', () => {
       expect(subject.messageImprintHashAlgorithm).toEqual('sha256');
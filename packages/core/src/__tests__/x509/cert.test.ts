@@ -54,6 +54,7 @@ describe('X509Certificate', () => {
         expect(cert.extSubjectKeyID?.critical).toBe(false);
         expect(cert.extSubjectKeyID?.keyIdentifier).toBeTruthy();
 
+        expect(cert.extExtendedKeyUsage).toBeUndefined();
         expect(cert.extAuthorityKeyID).toBeUndefined();
         expect(cert.extSubjectAltName).toBeUndefined();
         expect(cert.extSCT).toBeUndefined();
@@ -120,6 +121,13 @@ describe('X509Certificate', () => {
         expect(cert.extKeyUsage?.keyCertSign).toBe(false);
         expect(cert.extKeyUsage?.crlSign).toBe(false);
 
+        expect(cert.extExtendedKeyUsage).toBeDefined();
+        expect(cert.extExtendedKeyUsage?.oid).toBe('2.5.29.37');
+        expect(cert.extExtendedKeyUsage?.critical).toBe(false);
+        expect(cert.extExtendedKeyUsage?.keyPurposeIDs).toEqual([
+          '1.3.6.1.5.5.7.3.3',
+        ]);
+
         expect(cert.extSubjectAltName).toBeDefined();
         expect(cert.extSubjectAltName?.rfc822Name).toBeUndefined();
         expect(cert.extSubjectAltName?.uri).toBe('http://foobar.dev');
@@ -206,6 +214,27 @@ describe('X509Certificate', () => {
     });
   });
 
+  describe('#extNameConstraints', () => {
+    describe('when the certificate has a name constraints extension', () => {
+      const cert = X509Certificate.parse(certificates.nameconstraints);
+
+      it('returns the name constraints extension', () => {
+        expect(cert.extNameConstraints).toBeDefined();
+        expect(cert.extNameConstraints?.critical).toBe(true);
+        expect(cert.extNameConstraints?.permittedSubtrees).toHaveLength(5);
+        expect(cert.extNameConstraints?.excludedSubtrees).toHaveLength(1);
+      });
+    });
+
+    describe('when the certificate does not have a name constraints extension', () => {
+      const cert = X509Certificate.parse(certificates.root);
+
+      it('returns undefined', () => {
+        expect(cert.extNameConstraints).toBeUndefined();
+      });
+    });
+  });
+
   describe('#equals', () => {
     const leaf1Cert = X509Certificate.parse(certificates.leaf);
     const leaf2Cert = X509Certificate.parse(certificates.leaf);
@@ -332,5 +361,75 @@ describe('X509Certificate', () => {
         });
       });
     });
+
+    describe('when the signature is RSA PKCS#1 v1.5', () => {
+      const root = X509Certificate.parse(certificates.rsaroot);
+      const leaf = X509Certificate.parse(certificates.rsaleaf);
+
+      it('returns true', () => {
+        expect(root.verify()).toBe(true);
+        expect(leaf.verify(root)).toBe(true);
+      });
+
+      it('returns the signature hash algorithm', () => {
+        expect(root.signatureAlgorithm).toEqual('sha256');
+        expect(leaf.signatureAlgorithm).toEqual('sha512');
+      });
+    });
+
+    describe('when the signature is RSASSA-PSS', () => {
+      const root = X509Certificate.parse(certificates.rsaroot);
+      const leaf = X509Certificate.parse(certificates.rsapssleaf);
+
+      it('returns true', () => {
+        expect(leaf.verify(root)).toBe(true);
+      });
+
+      it('returns the signature hash algorithm', () => {
+        expect(leaf.signatureAlgorithm).toEqual('sha384');
+      });
+
+      it('returns false for a different issuer', () => {
+        expect(leaf.verify(X509Certificate.parse(certificates.root))).toBe(
+          false
+        );
+      });
+    });
+
+    describe('when the signature is Ed25519', () => {
+      const root = X509Certificate.parse(certificates.ed25519root);
+      const leaf = X509Certificate.parse(certificates.ed25519leaf);
+
+      it('returns true', () => {
+        expect(root.verify()).toBe(true);
+        expect(leaf.verify(root)).toBe(true);
+      });
+
+      it('returns no signature hash algorithm', () => {
+        expect(leaf.signatureAlgorithm).toBeUndefined();
+      });
+
+      it('returns false for a different issuer', () => {
+        expect(leaf.verify(X509Certificate.parse(certificates.rsaroot))).toBe(
+          false
+        );
+      });
+    });
+
+    describe('when the signature algorithm is not supported', () => {
+      // Replace the outer Ed25519 signature algorithm OID (1.3.101.112) with
+      // Ed448 (1.3.101.113)
+      const hex = X509Certificate.parse(certificates.ed25519root)
+        .root.toDER()
+        .toString('hex');
+      const at = hex.lastIndexOf('06032b6570');
+      const cert = X509Certificate.parse(
+        Buffer.from(hex.slice(0, at) + '06032b6571' + hex.slice(at + 10), 'hex')
+      );
+
+      it('returns false', () => {
+        expect(cert.verify()).toBe(false);
+      });
+    });
   });
 });
@@ -0,0 +1,231 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { ASN1Obj } from '../../asn1';
+import * as pem from '../../pem';
+import { X509Certificate } from '../../x509/cert';
+import { X509CRL } from '../../x509/crl';
+import { certificates, crls } from '../__fixtures__/crls';
+
+describe('X509CRL', () => {
+  const root = X509Certificate.parse(certificates.root);
+  const intermediate = X509Certificate.parse(certificates.intermediate);
+  const leaf = X509Certificate.parse(certificates.leaf);
+  const revoked = X509Certificate.parse(certificates.revoked);
+
+  // Re-encodes the CRL after removing the tbsCertList element at the index
+  const withoutField = (crl: string, index: number): X509CRL => {
+    const asn1 = ASN1Obj.parseBuffer(pem.toDER(crl));
+    asn1.subs[0].subs.splice(index, 1);
+    return X509CRL.parse(asn1.toDER());
+  };
+
+  describe('.parse', () => {
+    describe('when parsing a PEM-encoded CRL', () => {
+      it('parses successfully', () => {
+        const crl = X509CRL.parse(crls.intRevoked);
+
+        expect(crl.version).toBe('v2');
+        expect(crl.issuer).toEqual(intermediate.subject);
+        expect(crl.thisUpdate).toBeInstanceOf(Date);
+        expect(crl.nextUpdate).toBeInstanceOf(Date);
+        expect(crl.signatureAlgorithm).toBe('sha256');
+        expect(crl.signatureValue).toBeDefined();
+        expect(crl.tbsCertList).toBeDefined();
+      });
+    });
+
+    describe('when parsing a DER-encoded CRL', () => {
+      it('parses successfully', () => {
+        const crl = X509CRL.parse(pem.toDER(crls.rootRevoked));
+
+        expect(crl.version).toBe('v2');
+        expect(crl.issuer).toEqual(root.subject);
+      });
+    });
+
+    describe('when the CRL has no version', () => {
+      const crl = withoutField(crls.intRevoked, 0);
+
+      it('parses a v1 CRL', () => {
+        expect(crl.version).toBe('v1');
+        expect(crl.issuer).toEqual(intermediate.subject);
+        expect(crl.thisUpdate).toBeInstanceOf(Date);
+        expect(crl.nextUpdate).toBeInstanceOf(Date);
+        expect(crl.revokedCertificates).toHaveLength(1);
+      });
+    });
+  });
+
+  describe('#nextUpdate', () => {
+    describe('when the nextUpdate is absent', () => {
+      // Removes the nextUpdate field
+      const crl = withoutField(crls.intEmpty, 4);
+
+      it('returns undefined', () => {
+        expect(crl.nextUpdate).toBeUndefined();
+      });
+    });
+
+    describe('when no fields follow the thisUpdate', () => {
+      // Removes the nextUpdate and the CRL extensions
+      const asn1 = ASN1Obj.parseBuffer(pem.toDER(crls.intEmpty));
+      asn1.subs[0].subs.splice(4, 2);
+      const crl = X509CRL.parse(asn1.toDER());
+
+      it('returns undefined', () => {
+        expect(crl.nextUpdate).toBeUndefined();
+        expect(crl.revokedCertificates).toEqual([]);
+      });
+    });
+  });
+
+  describe('#revokedCertificates', () => {
+    describe('when certificates have been revoked', () => {
+      const crl = X509CRL.parse(crls.intRevoked);
+
+      it('returns the revoked certificates', () => {
+        const entries = crl.revokedCertificates;
+
+        expect(entries).toHaveLength(1);
+        expect(entries[0].serialNumber).toEqual(revoked.serialNumber);
+        expect(entries[0].revocationDate).toBeInstanceOf(Date);
+      });
+    });
+
+    describe('when no certificates have been revoked', () => {
+      const crl = X509CRL.parse(crls.intEmpty);
+
+      it('returns an empty list', () => {
+        expect(crl.revokedCertificates).toEqual([]);
+      });
+    });
+  });
+
+  describe('#extensions', () => {
+    describe('when the CRL has extensions', () => {
+      const crl = X509CRL.parse(crls.intRevoked);
+
+      it('returns the extensions', () => {
+        const extensions = crl.extensions;
+
+        // authorityKeyIdentifier and cRLNumber
+        expect(extensions.map((ext) => ext.oid)).toEqual([
+          '2.5.29.35',
+          '2.5.29.20',
+        ]);
+        expect(extensions.every((ext) => !ext.critical)).toBe(true);
+      });
+    });
+
+    describe('when the CRL has no extensions', () => {
+      // Removes the CRL extensions
+      const crl = withoutField(crls.intEmpty, 5);
+
+      it('returns an empty list', () => {
+        expect(crl.extensions).toEqual([]);
+      });
+    });
+  });
+
+  describe('#verify', () => {
+    const crl = X509CRL.parse(crls.intRevoked);
+
+    describe('when the CRL was signed by the issuer', () => {
+      it('returns true', () => {
+        expect(crl.verify(intermediate)).toBe(true);
+      });
+    });
+
+    describe('when the CRL was NOT signed by the issuer', () => {
+      it('returns false', () => {
+        expect(crl.verify(root)).toBe(false);
+      });
+    });
+
+    describe('when the CRL is signed with RSASSA-PSS', () => {
+      const crl = X509CRL.parse(crls.rsaRootPSS);
+      const issuer = X509Certificate.parse(certificates.rsaRoot);
+
+      it('returns true', () => {
+        expect(crl.signatureAlgorithm).toBe('sha256');
+        expect(crl.verify(issuer)).toBe(true);
+      });
+    });
+
+    describe('when the signature algorithm is not supported', () => {
+      // Replace the signature algorithm with Ed448
+      const asn1 = ASN1Obj.parseBuffer(pem.toDER(crls.intRevoked));
+      asn1.subs[1] = ASN1Obj.parseBuffer(Buffer.from('300506032b6571', 'hex'));
+      const crl = X509CRL.parse(asn1.toDER());
+
+      it('returns false', () => {
+        expect(crl.verify(intermediate)).toBe(false);
+      });
+    });
+  });
+
+  describe('#isRevoked', () => {
+    const crl = X509CRL.parse(crls.intRevoked);
+
+    describe('when the certificate is in the list', () => {
+      it('returns true', () => {
+        expect(crl.isRevoked(revoked)).toBe(true);
+      });
+    });
+
+    describe('when the certificate is NOT in the list', () => {
+      it('returns false', () => {
+        expect(crl.isRevoked(leaf)).toBe(false);
+      });
+    });
+
+    describe('when the certificate was issued by a different CA', () => {
+      it('returns false', () => {
+        expect(X509CRL.parse(crls.rootRevoked).isRevoked(revoked)).toBe(false);
+      });
+    });
+  });
+
+  describe('#validForDate', () => {
+    describe('when the date is within the update window', () => {
+      it('returns true', () => {
+        const crl = X509CRL.parse(crls.intEmpty);
+        expect(crl.validForDate(new Date())).toBe(true);
+      });
+    });
+
+    describe('when the date is after the nextUpdate', () => {
+      it('returns false', () => {
+        const crl = X509CRL.parse(crls.intExpired);
+        expect(crl.validForDate(new Date())).toBe(false);
+      });
+    });
+
+    describe('when the date is before the thisUpdate', () => {
+      it('returns false', () => {
+        const crl = X509CRL.parse(crls.intExpired);
+        expect(crl.validForDate(new Date('2019-01-01'))).toBe(false);
+      });
+    });
+
+    describe('when the CRL has no nextUpdate', () => {
+      it('returns true', () => {
+        const crl = withoutField(crls.intEmpty, 4);
+        expect(crl.validForDate(new Date('2100-01-01'))).toBe(true);
+      });
+    });
+  });
+});
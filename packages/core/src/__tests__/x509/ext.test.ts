@@ -17,8 +17,10 @@ import { ASN1Obj } from '../../asn1';
 import {
   X509AuthorityKeyIDExtension,
   X509BasicConstraintsExtension,
+  X509ExtendedKeyUsageExtension,
   X509Extension,
   X509KeyUsageExtension,
+  X509NameConstraintsExtension,
   X509SCTExtension,
   X509SubjectAlternativeNameExtension,
   X509SubjectKeyIDExtension,
@@ -265,6 +267,40 @@ describe('x509KeyUsageExtension', () => {
   });
 });
 
+describe('x509ExtendedKeyUsageExtension', () => {
+  describe('constructor', () => {
+    const ekuExtension = Buffer.from(
+      '30160603551D250101FF040C300A06082B06010505070308',
+      'hex'
+    );
+    const obj = ASN1Obj.parseBuffer(ekuExtension);
+
+    it('parses the extension', () => {
+      const subject = new X509ExtendedKeyUsageExtension(obj);
+      expect(subject.critical).toBe(true);
+      expect(subject.oid).toBe('2.5.29.37');
+    });
+  });
+
+  describe('#keyPurposeIDs', () => {
+    // Extension w/ codeSigning and timeStamping key purposes
+    const ekuExtension = Buffer.from(
+      '301D0603551D250416301406082B0601050507030306082B06010505070308',
+      'hex'
+    );
+    const subject = new X509ExtendedKeyUsageExtension(
+      ASN1Obj.parseBuffer(ekuExtension)
+    );
+
+    it('returns the key purpose IDs', () => {
+      expect(subject.keyPurposeIDs).toEqual([
+        '1.3.6.1.5.5.7.3.3',
+        '1.3.6.1.5.5.7.3.8',
+      ]);
+    });
+  });
+});
+
 describe('x509SubjectAlternativeNameExtension', () => {
   describe('constructor', () => {
     const subjectAltNameExtension = Buffer.from(
@@ -390,6 +426,90 @@ describe('x509SubjectAlternativeNameExtension', () => {
       });
     });
   });
+
+  describe('#names', () => {
+    // Extension w/ dNSName, rfc822Name, URI and iPAddress
+    const subjectAltNameExtension = Buffer.from(
+      '30580603551d110101ff044e304c820f666f6f2e6578616d706c652e636f6d8115616c696365407375622e6578616d706c652e636f6d861c68747470733a2f2f7777772e6578616d706c652e636f6d2f7061746887040a010203',
+      'hex'
+    );
+    const subject = new X509SubjectAlternativeNameExtension(
+      ASN1Obj.parseBuffer(subjectAltNameExtension)
+    );
+
+    it('returns all of the names', () => {
+      expect(subject.names).toEqual([
+        { type: 'dNSName', value: Buffer.from('foo.example.com') },
+        { type: 'rfc822Name', value: Buffer.from('alice@sub.example.com') },
+        {
+          type: 'uniformResourceIdentifier',
+          value: Buffer.from('https://www.example.com/path'),
+        },
+        { type: 'iPAddress', value: Buffer.from([10, 1, 2, 3]) },
+      ]);
+    });
+  });
+});
+
+describe('x509NameConstraintsExtension', () => {
+  describe('when the extension has permitted and excluded subtrees', () => {
+    const nameConstraintsExtension = Buffer.from(
+      '307c0603551d1e0101ff04723070a059300d820b6578616d706c652e636f6d300e810c2e6578616d706c652e636f6d300e860c2e6578616d706c652e636f6d300a87080a000000ff000000301ca41a301831163014060355040a0c0d73696773746f72652e6d6f636ba1133011820f6261642e6578616d706c652e636f6d',
+      'hex'
+    );
+    const subject = new X509NameConstraintsExtension(
+      ASN1Obj.parseBuffer(nameConstraintsExtension)
+    );
+
+    it('returns the permitted subtrees', () => {
+      expect(subject.permittedSubtrees).toEqual([
+        { type: 'dNSName', value: Buffer.from('example.com') },
+        { type: 'rfc822Name', value: Buffer.from('.example.com') },
+        {
+          type: 'uniformResourceIdentifier',
+          value: Buffer.from('.example.com'),
+        },
+        {
+          type: 'iPAddress',
+          value: Buffer.from([10, 0, 0, 0, 255, 0, 0, 0]),
+        },
+        {
+          type: 'directoryName',
+          value: Buffer.from(
+            '31163014060355040a0c0d73696773746f72652e6d6f636b',
+            'hex'
+          ),
+        },
+      ]);
+    });
+
+    it('returns the excluded subtrees', () => {
+      expect(subject.excludedSubtrees).toEqual([
+        { type: 'dNSName', value: Buffer.from('bad.example.com') },
+      ]);
+    });
+  });
+
+  describe('when the extension has no excluded subtrees', () => {
+    // Extension permitting example.com
+    const nameConstraintsExtension = Buffer.from(
+      '301a0603551d1e04133011a00f300d820b6578616d706c652e636f6d',
+      'hex'
+    );
+    const subject = new X509NameConstraintsExtension(
+      ASN1Obj.parseBuffer(nameConstraintsExtension)
+    );
+
+    it('returns the permitted subtrees', () => {
+      expect(subject.permittedSubtrees).toEqual([
+        { type: 'dNSName', value: Buffer.from('example.com') },
+      ]);
+    });
+
+    it('returns no excluded subtrees', () => {
+      expect(subject.excludedSubtrees).toEqual([]);
+    });
+  });
 });
 
 describe('x509AuthorityKeyIDExtension', () => {
@@ -13,7 +13,9 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import nodeCrypto from 'crypto';
 import * as crypto from '../../crypto';
+import { ByteStream } from '../../stream';
 import { SignedCertificateTimestamp } from '../../x509/sct';
 
 describe('SignedCertificateTimestamp', () => {
@@ -128,5 +130,98 @@ describe('SignedCertificateTimestamp', () => {
         expect(subject.verify(preCert, key)).toEqual(false);
       });
     });
+
+    describe('when the SCT uses other signature schemes', () => {
+      const rsaKey = nodeCrypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+      });
+      const edKey = nodeCrypto.generateKeyPairSync('ed25519');
+
+      // Builds an SCT over the pre-certificate signed with the given scheme
+      const signSCT = (
+        hashAlgorithm: number,
+        signatureAlgorithm: number,
+        sign: (data: Buffer) => Buffer
+      ): SignedCertificateTimestamp => {
+        const data = new ByteStream();
+        data.appendChar(0x00);
+        data.appendChar(0x00);
+        data.appendView(Buffer.from(timestamp, 'hex'));
+        data.appendUint16(0x01);
+        data.appendView(preCert);
+        data.appendUint16(0x00);
+
+        return new SignedCertificateTimestamp({
+          version: 0,
+          logID: Buffer.from(logID, 'hex'),
+          timestamp: Buffer.from(timestamp, 'hex'),
+          extensions: Buffer.alloc(0),
+          hashAlgorithm,
+          signatureAlgorithm,
+          signature: sign(data.buffer),
+        });
+      };
+
+      const pss = (hash: string, saltLength: number) => (data: Buffer) =>
+        nodeCrypto.sign(hash, data, {
+          key: rsaKey.privateKey,
+          padding: nodeCrypto.constants.RSA_PKCS1_PSS_PADDING,
+          saltLength,
+        });
+
+      describe('when the signature is RSA PKCS#1 v1.5', () => {
+        const sct = signSCT(4, 1, (data) =>
+          nodeCrypto.sign('sha256', data, rsaKey.privateKey)
+        );
+
+        it('returns true', () => {
+          expect(sct.verify(preCert, rsaKey.publicKey)).toEqual(true);
+        });
+      });
+
+      describe.each([
+        [4, 'sha256', 32],
+        [5, 'sha384', 48],
+        [6, 'sha512', 64],
+        [9, 'sha256', 32],
+        [10, 'sha384', 48],
+        [11, 'sha512', 64],
+      ])('when the signature is RSA-PSS (%i)', (sigAlg, hash, saltLength) => {
+        const sct = signSCT(8, sigAlg, pss(hash, saltLength));
+
+        it('returns true', () => {
+          expect(sct.verify(preCert, rsaKey.publicKey)).toEqual(true);
+        });
+
+        it('returns false when the salt length does not match', () => {
+          const sct = signSCT(8, sigAlg, pss(hash, saltLength + 1));
+          expect(sct.verify(preCert, rsaKey.publicKey)).toEqual(false);
+        });
+      });
+
+      describe('when the signature is Ed25519', () => {
+        const sct = signSCT(8, 7, (data) =>
+          nodeCrypto.sign(null, data, edKey.privateKey)
+        );
+
+        it('returns the intrinsic hash algorithm', () => {
+          expect(sct.algorithm).toEqual('intrinsic');
+        });
+
+        it('returns true', () => {
+          expect(sct.verify(preCert, edKey.publicKey)).toEqual(true);
+        });
+      });
+
+      describe('when the signature scheme is not supported', () => {
+        const sct = signSCT(8, 99, (data) =>
+          nodeCrypto.sign(null, data, edKey.privateKey)
+        );
+
+        it('returns false', () => {
+          expect(sct.verify(preCert, edKey.publicKey)).toEqual(false);
+        });
+      });
+    });
   });
 });
@@ -0,0 +1,99 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { ASN1Obj } from './asn1';
+import type { SignatureAlgorithm } from './crypto';
+import {
+  ECDSA_SIGNATURE_ALGOS,
+  OID_ED25519,
+  OID_MGF1,
+  OID_RSASSA_PSS,
+  RSA_SIGNATURE_ALGOS,
+  SHA2_HASH_ALGOS,
+} from './oid';
+
+// Default salt length for RSASSA-PSS signatures when the parameter is omitted
+// https://www.rfc-editor.org/rfc/rfc4055#section-3.1
+const PSS_DEFAULT_SALT_LENGTH = 20;
+
+// Resolves an AlgorithmIdentifier to the parameters needed to verify a
+// signature. Returns undefined if the algorithm is not supported.
+export function parseSignatureAlgorithm(
+  obj: ASN1Obj
+): SignatureAlgorithm | undefined {
+  const oid = obj.subs[0].toOID();
+
+  if (ECDSA_SIGNATURE_ALGOS[oid]) {
+    return { hash: ECDSA_SIGNATURE_ALGOS[oid] };
+  }
+
+  if (RSA_SIGNATURE_ALGOS[oid]) {
+    return { hash: RSA_SIGNATURE_ALGOS[oid], padding: 'pkcs1' };
+  }
+
+  switch (oid) {
+    case OID_ED25519:
+      return {};
+    case OID_RSASSA_PSS:
+      return parsePSSParams(obj.subs[1]);
+    default:
+      return undefined;
+  }
+}
+
+// RSASSA-PSS-params ::= SEQUENCE {
+//   hashAlgorithm      [0] HashAlgorithm      DEFAULT sha1,
+//   maskGenAlgorithm   [1] MaskGenAlgorithm   DEFAULT mgf1SHA1,
+//   saltLength         [2] INTEGER            DEFAULT 20,
+//   trailerField       [3] TrailerField       DEFAULT trailerFieldBC }
+// SHA-1 is not supported, so the hash and mask generation algorithms must both
+// be present and must agree.
+function parsePSSParams(params?: ASN1Obj): SignatureAlgorithm | undefined {
+  const field = (num: number) =>
+    params?.subs.find((sub) => sub.tag.isContextSpecific(num))?.subs[0];
+
+  const hashObj = field(0);
+  const mgfObj = field(1);
+  const saltObj = field(2);
+  const trailerObj = field(3);
+
+  if (!hashObj || !mgfObj) {
+    return undefined;
+  }
+
+  const hash = SHA2_HASH_ALGOS[hashObj.subs[0].toOID()];
+  if (!hash) {
+    return undefined;
+  }
+
+  // The mask generation function must be MGF1 using the same hash
+  if (
+    mgfObj.subs[0].toOID() !== OID_MGF1 ||
+    SHA2_HASH_ALGOS[mgfObj.subs[1]?.subs[0].toOID()] !== hash
+  ) {
+    return undefined;
+  }
+
+  // Only the trailerFieldBC (1) is defined
+  if (trailerObj && trailerObj.toInteger() !== BigInt(1)) {
+    return undefined;
+  }
+
+  const saltLength = saltObj
+    ? Number(saltObj.toInteger())
+    : PSS_DEFAULT_SALT_LENGTH;
+
+  return { hash, padding: 'pss', saltLength };
+}
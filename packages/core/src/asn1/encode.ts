@@ -0,0 +1,57 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+// Encode a BigInt as a DER-encoded two's complement integer
+// https://learn.microsoft.com/en-us/windows/win32/seccertenroll/about-integer
+export function encodeInteger(n: bigint): Buffer {
+  const bytes: number[] = [];
+  let val = n;
+
+  for (;;) {
+    const byte = Number(val & 255n);
+    bytes.unshift(byte);
+    val = val >> 8n;
+
+    // Stop once the remaining bits are just the sign-extension of the most
+    // significant byte emitted so far
+    if ((val === 0n && byte < 0x80) || (val === -1n && byte >= 0x80)) {
+      break;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// Encode an OID string as DER
+// https://learn.microsoft.com/en-us/windows/win32/seccertenroll/about-object-identifier
+export function encodeOID(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+
+  // The first two components are packed into a single value
+  const bytes: number[] = [];
+  for (const component of [first * 40 + second, ...rest]) {
+    // Each component is encoded in base-128 with the high bit set on all but
+    // the last byte
+    const encoded = [component & 0x7f];
+    let val = Math.floor(component / 128);
+    while (val > 0) {
+      encoded.unshift((val & 0x7f) | 0x80);
+      val = Math.floor(val / 128);
+    }
+    bytes.push(...encoded);
+  }
+
+  return Buffer.from(bytes);
+}
@@ -21,6 +21,7 @@ const UNIVERSAL_TAG = {
   BIT_STRING: 0x03,
   OCTET_STRING: 0x04,
   OBJECT_IDENTIFIER: 0x06,
+  UTF8_STRING: 0x0c,
   SEQUENCE: 0x10,
   SET: 0x11,
   PRINTABLE_STRING: 0x13,
@@ -91,6 +92,10 @@ export class ASN1Tag {
     );
   }
 
+  public isUTF8String(): boolean {
+    return this.isUniversal() && this.number === UNIVERSAL_TAG.UTF8_STRING;
+  }
+
   public isUTCTime(): boolean {
     return this.isUniversal() && this.number === UNIVERSAL_TAG.UTC_TIME;
   }
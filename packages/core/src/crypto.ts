@@ -14,8 +14,21 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import crypto, { BinaryLike } from 'crypto';
+import { ASN1Obj } from './asn1';
+import * as ecdsa from './ecdsa';
+import * as rsa from './rsa';
 export type { KeyObject } from 'crypto';
 
+// Describes how a signature was generated. The hash is absent for algorithms
+// which hash the message internally (Ed25519). The padding and salt length only
+// apply to RSA signatures; PKCS#1 v1.5 padding is used when no padding is given
+// and the PSS salt length is detected from the signature when none is given.
+export interface SignatureAlgorithm {
+  hash?: string;
+  padding?: 'pkcs1' | 'pss';
+  saltLength?: number;
+}
+
 export function createPublicKey(
   key: string | Buffer,
   type: 'spki' | 'pkcs1' = 'spki'
@@ -35,22 +48,132 @@ export function digest(algorithm: string, ...data: BinaryLike[]): Buffer {
   return hash.digest();
 }
 
+// Computes the digest of data which is read incrementally (e.g. from a
+// Readable stream) so that the data never needs to be held in memory in full
+export async function digestStream(
+  algorithm: string,
+  data: AsyncIterable<BinaryLike>
+): Promise<Buffer> {
+  const hash = crypto.createHash(algorithm);
+  for await (const chunk of data) {
+    hash.update(chunk);
+  }
+  return hash.digest();
+}
+
+// Generates a signature over data which is read incrementally. The data is
+// hashed with SHA-256, which is the digest Node uses by default when signing
+// with ECDSA and RSA keys.
+export async function signStream(
+  data: AsyncIterable<BinaryLike>,
+  key: crypto.KeyObject
+): Promise<Buffer> {
+  const signer = crypto.createSign('sha256');
+  for await (const chunk of data) {
+    signer.update(chunk);
+  }
+  return signer.sign(key);
+}
+
 export function verify(
   data: Buffer,
   key: crypto.KeyLike,
   signature: Buffer,
-  algorithm?: string
+  algorithm?: string | SignatureAlgorithm
 ): boolean {
+  const { hash, padding, saltLength } =
+    typeof algorithm === 'object' ? algorithm : { hash: algorithm };
+
+  const options =
+    padding === 'pss'
+      ? {
+          key:
+            key instanceof crypto.KeyObject ? key : crypto.createPublicKey(key),
+          padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+          saltLength,
+        }
+      : key;
+
   // The try/catch is to work around an issue in Node 14.x where verify throws
   // an error in some scenarios if the signature is invalid.
   try {
-    return crypto.verify(algorithm, data, key, signature);
+    return crypto.verify(hash, data, options, signature);
   } catch (e) {
     /* istanbul ignore next */
     return false;
   }
 }
 
+// Verifies a signature over a pre-computed digest of the signed data. Supports
+// ECDSA (P-256/P-384) and RSA keys. The digest must have been computed with
+// the given hash. RSA keys only accept PKCS#1 v1.5 signatures unless PSS
+// padding is requested, while RSA-PSS keys only accept PSS signatures using
+// the hash bound to the key (if any).
+export function verifyDigest(
+  digest: Buffer,
+  key: crypto.KeyObject,
+  signature: Buffer,
+  algorithm: string | SignatureAlgorithm
+): boolean {
+  const { hash, padding, saltLength } =
+    typeof algorithm === 'object' ? algorithm : { hash: algorithm };
+
+  if (!hash || digest.length !== hashLength(hash)) {
+    return false;
+  }
+
+  switch (key.asymmetricKeyType) {
+    case 'ec': {
+      const curve = ecCurve(key);
+      const jwk = key.export({ format: 'jwk' });
+      return (
+        !!curve &&
+        ecdsa.verifyDigest(
+          curve,
+          { x: base64URLToInteger(jwk.x), y: base64URLToInteger(jwk.y) },
+          digest,
+          signature
+        )
+      );
+    }
+    case 'rsa':
+      return padding === 'pss'
+        ? rsa.verifyDigestPSS(digest, key, signature, hash, saltLength)
+        : rsa.verifyDigestPKCS1(digest, key, signature, hash);
+    case 'rsa-pss': {
+      const details = key.asymmetricKeyDetails;
+      return (
+        padding !== 'pkcs1' &&
+        (!details?.hashAlgorithm || details.hashAlgorithm === hash) &&
+        rsa.verifyDigestPSS(
+          digest,
+          toRSAPublicKey(key),
+          signature,
+          hash,
+          saltLength
+        )
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+// Generates a signature over a pre-computed digest which was computed with
+// the given hash. Only RSA (PKCS#1 v1.5) keys are supported as Node offers no
+// way to generate an ECDSA signature over a digest without re-hashing it.
+export function signDigest(
+  digest: Buffer,
+  key: crypto.KeyObject,
+  hash: string
+): Buffer {
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw new Error(`unsupported key type: ${key.asymmetricKeyType}`);
+  }
+
+  return rsa.signDigestPKCS1(digest, key, hash);
+}
+
 export function bufferEqual(a: Buffer, b: Buffer): boolean {
   try {
     return crypto.timingSafeEqual(a, b);
@@ -59,3 +182,37 @@ export function bufferEqual(a: Buffer, b: Buffer): boolean {
     return false;
   }
 }
+
+// Node does not support the raw RSA operations on RSA-PSS keys, so the
+// RSAPublicKey is extracted from the SPKI and re-imported as a plain RSA key
+function toRSAPublicKey(key: crypto.KeyObject): crypto.KeyObject {
+  const spki = ASN1Obj.parseBuffer(key.export({ format: 'der', type: 'spki' }));
+
+  // Skip the leading byte of the BIT STRING which holds the unused bit count
+  return crypto.createPublicKey({
+    key: spki.subs[1].value.subarray(1),
+    format: 'der',
+    type: 'pkcs1',
+  });
+}
+
+// Returns the output length of the hash, or 0 if the hash is not supported
+function hashLength(hash: string): number {
+  try {
+    return crypto.createHash(hash).digest().length;
+  } catch {
+    return 0;
+  }
+}
+
+function ecCurve(key: crypto.KeyObject): ecdsa.Curve | undefined {
+  return ecdsa.CURVES[
+    key.asymmetricKeyDetails?.namedCurve || /* istanbul ignore next */ ''
+  ];
+}
+
+function base64URLToInteger(value?: string): bigint {
+  return BigInt(
+    `0x${Buffer.from(value || /* istanbul ignore next */ '', 'base64url').toString('hex')}`
+  );
+}
@@ -0,0 +1,182 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { ASN1Obj } from './asn1';
+
+// Minimal ECDSA implementation for verifying a signature over a pre-computed
+// digest. Node's crypto module always hashes the input before verifying an
+// ECDSA signature so there is no way to operate on a digest directly.
+//
+// Only verification is implemented as it involves no secret values. A signing
+// implementation would need to be constant-time to protect the private key.
+
+type Point = { x: bigint; y: bigint } | null;
+
+export type Curve = {
+  p: bigint;
+  a: bigint;
+  n: bigint;
+  g: Point;
+  size: number;
+};
+
+// Curve parameters from SEC 2: Recommended Elliptic Curve Domain Parameters.
+// Keyed by the OpenSSL curve name.
+export const CURVES: Record<string, Curve | undefined> = {
+  prime256v1: {
+    p: BigInt(
+      '0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'
+    ),
+    a: BigInt(
+      '0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc'
+    ),
+    n: BigInt(
+      '0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551'
+    ),
+    g: {
+      x: BigInt(
+        '0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296'
+      ),
+      y: BigInt(
+        '0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5'
+      ),
+    },
+    size: 32,
+  },
+  secp384r1: {
+    p: BigInt(
+      '0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffeffffffff0000000000000000ffffffff'
+    ),
+    a: BigInt(
+      '0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffeffffffff0000000000000000fffffffc'
+    ),
+    n: BigInt(
+      '0xffffffffffffffffffffffffffffffffffffffffffffffffc7634d81f4372ddf581a0db248b0a77aecec196accc52973'
+    ),
+    g: {
+      x: BigInt(
+        '0xaa87ca22be8b05378eb1c71ef320ad746e1d3b628ba79b9859f741e082542a385502f25dbf55296c3a545e3872760ab7'
+      ),
+      y: BigInt(
+        '0x3617de4a96262c6f5d9e98bf9292dc29f8f41dbd289a147ce9da3113b5f0b8c00a60b1ce1d7e819d7a431d7c90ea0e5f'
+      ),
+    },
+    size: 48,
+  },
+};
+
+// Verifies a DER-encoded ECDSA signature over the supplied digest using the
+// public point (x, y)
+export function verifyDigest(
+  curve: Curve,
+  publicKey: { x: bigint; y: bigint },
+  digest: Buffer,
+  signature: Buffer
+): boolean {
+  let r: bigint;
+  let s: bigint;
+  try {
+    const sig = ASN1Obj.parseBuffer(signature);
+    r = sig.subs[0].toInteger();
+    s = sig.subs[1].toInteger();
+  } catch (e) {
+    return false;
+  }
+
+  if (r <= 0n || r >= curve.n || s <= 0n || s >= curve.n) {
+    return false;
+  }
+
+  const e = digestToInteger(curve, digest);
+  const w = invert(s, curve.n);
+  const point = add(
+    curve,
+    multiply(curve, curve.g, mod(e * w, curve.n)),
+    multiply(curve, publicKey, mod(r * w, curve.n))
+  );
+
+  return point !== null && mod(point.x, curve.n) === r;
+}
+
+// Converts the digest into an integer, truncating it to the bit length of the
+// curve order (as described in FIPS 186-4 section 6.4)
+function digestToInteger(curve: Curve, digest: Buffer): bigint {
+  const e = BigInt(`0x${digest.toString('hex')}`);
+  const excessBits = digest.length * 8 - curve.size * 8;
+  return excessBits > 0 ? e >> BigInt(excessBits) : e;
+}
+
+function multiply(curve: Curve, point: Point, scalar: bigint): Point {
+  let result: Point = null;
+  let addend = point;
+
+  while (scalar > 0n) {
+    if (scalar & 1n) {
+      result = add(curve, result, addend);
+    }
+    addend = add(curve, addend, addend);
+    scalar >>= 1n;
+  }
+
+  return result;
+}
+
+function add(curve: Curve, p1: Point, p2: Point): Point {
+  if (!p1) {
+    return p2;
+  }
+
+  /* istanbul ignore if */
+  if (!p2) {
+    return p1;
+  }
+
+  let lambda: bigint;
+  if (p1.x === p2.x) {
+    /* istanbul ignore if */
+    if (mod(p1.y + p2.y, curve.p) === 0n) {
+      return null;
+    }
+    lambda = mod(
+      (3n * p1.x * p1.x + curve.a) * invert(2n * p1.y, curve.p),
+      curve.p
+    );
+  } else {
+    lambda = mod((p2.y - p1.y) * invert(p2.x - p1.x, curve.p), curve.p);
+  }
+
+  const x = mod(lambda * lambda - p1.x - p2.x, curve.p);
+  const y = mod(lambda * (p1.x - x) - p1.y, curve.p);
+  return { x, y };
+}
+
+function mod(a: bigint, m: bigint): bigint {
+  const result = a % m;
+  return result >= 0n ? result : result + m;
+}
+
+// Modular inverse using the extended Euclidean algorithm
+function invert(a: bigint, m: bigint): bigint {
+  let [r0, r1] = [mod(a, m), m];
+  let [s0, s1] = [1n, 0n];
+
+  while (r1 !== 0n) {
+    const q = r0 / r1;
+    [r0, r1] = [r1, r0 - q * r1];
+    [s0, s1] = [s1, s0 - q * s1];
+  }
+
+  return mod(s0, m);
+}
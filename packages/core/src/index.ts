@@ -19,6 +19,14 @@ export * as dsse from './dsse';
 export * as encoding from './encoding';
 export * as json from './json';
 export * as pem from './pem';
-export { RFC3161Timestamp } from './rfc3161';
+export { RFC3161Timestamp, encodeTimestampRequest } from './rfc3161';
+export type { ESSCertIDv2, RFC3161TimestampRequestOptions } from './rfc3161';
 export { ByteStream } from './stream';
-export { EXTENSION_OID_SCT, X509Certificate, X509SCTExtension } from './x509';
+export {
+  EXTENSION_OID_SCT,
+  SignedCertificateTimestamp,
+  X509CRL,
+  X509Certificate,
+  X509SCTExtension,
+} from './x509';
+export type { GeneralName, GeneralNameType, RevokedCertificate } from './x509';
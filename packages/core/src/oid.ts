@@ -10,3 +10,15 @@ export const SHA2_HASH_ALGOS: Record<string, string> = {
   '2.16.840.1.101.3.4.2.2': 'sha384',
   '2.16.840.1.101.3.4.2.3': 'sha512',
 };
+
+export const RSA_SIGNATURE_ALGOS: Record<string, string> = {
+  '1.2.840.113549.1.1.11': 'sha256',
+  '1.2.840.113549.1.1.12': 'sha384',
+  '1.2.840.113549.1.1.13': 'sha512',
+  '1.2.840.113549.1.1.14': 'sha224',
+};
+
+export const OID_RSA_ENCRYPTION = '1.2.840.113549.1.1.1';
+export const OID_RSASSA_PSS = '1.2.840.113549.1.1.10';
+export const OID_MGF1 = '1.2.840.113549.1.1.8';
+export const OID_ED25519 = '1.3.101.112';
@@ -14,3 +14,5 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 export class RFC3161TimestampVerificationError extends Error {}
+
+export class RFC3161TimestampRequestError extends Error {}
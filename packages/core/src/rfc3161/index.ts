@@ -14,4 +14,7 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
+export { encodeTimestampRequest } from './request';
+export type { RFC3161TimestampRequestOptions } from './request';
 export { RFC3161Timestamp } from './timestamp';
+export type { ESSCertIDv2 } from './timestamp';
@@ -0,0 +1,91 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { ASN1Obj } from '../asn1';
+import { encodeInteger, encodeOID } from '../asn1/encode';
+import { ASN1Tag } from '../asn1/tag';
+import { SHA2_HASH_ALGOS } from '../oid';
+import { RFC3161TimestampRequestError } from './error';
+
+const TAG_BOOLEAN = 0x01;
+const TAG_INTEGER = 0x02;
+const TAG_OCTET_STRING = 0x04;
+const TAG_NULL = 0x05;
+const TAG_OID = 0x06;
+const TAG_SEQUENCE = 0x30;
+
+const TIMESTAMP_REQUEST_VERSION = 1n;
+
+export type RFC3161TimestampRequestOptions = {
+  // Digest of the data to be timestamped
+  digest: Buffer;
+  // Name of the hash algorithm used to compute the digest (e.g. 'sha256')
+  hashAlgorithm: string;
+  // Random value used to match the response to the request
+  nonce?: bigint;
+  // Whether the TSA should include its signing certificate in the response
+  certReq?: boolean;
+  // TSA policy under which the timestamp should be issued
+  policyOID?: string;
+};
+
+// Encodes a DER TimeStampReq
+// https://www.rfc-editor.org/rfc/rfc3161#section-2.4.1
+export function encodeTimestampRequest(
+  options: RFC3161TimestampRequestOptions
+): Buffer {
+  const hashOID = Object.keys(SHA2_HASH_ALGOS).find(
+    (oid) => SHA2_HASH_ALGOS[oid] === options.hashAlgorithm
+  );
+
+  if (!hashOID) {
+    throw new RFC3161TimestampRequestError(
+      `unsupported hash algorithm: ${options.hashAlgorithm}`
+    );
+  }
+
+  const messageImprint = sequence(
+    sequence(primitive(TAG_OID, encodeOID(hashOID)), primitive(TAG_NULL)),
+    primitive(TAG_OCTET_STRING, options.digest)
+  );
+
+  const fields = [
+    primitive(TAG_INTEGER, encodeInteger(TIMESTAMP_REQUEST_VERSION)),
+    messageImprint,
+  ];
+
+  if (options.policyOID) {
+    fields.push(primitive(TAG_OID, encodeOID(options.policyOID)));
+  }
+
+  if (options.nonce !== undefined) {
+    fields.push(primitive(TAG_INTEGER, encodeInteger(options.nonce)));
+  }
+
+  // certReq defaults to FALSE so DER requires it to be omitted unless set
+  if (options.certReq) {
+    fields.push(primitive(TAG_BOOLEAN, Buffer.from([0xff])));
+  }
+
+  return sequence(...fields).toDER();
+}
+
+function sequence(...subs: ASN1Obj[]): ASN1Obj {
+  return new ASN1Obj(new ASN1Tag(TAG_SEQUENCE), Buffer.alloc(0), subs);
+}
+
+function primitive(tag: number, value: Buffer = Buffer.alloc(0)): ASN1Obj {
+  return new ASN1Obj(new ASN1Tag(tag), value, []);
+}
@@ -13,15 +13,48 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import { parseSignatureAlgorithm } from '../algorithm';
 import { ASN1Obj } from '../asn1';
 import * as crypto from '../crypto';
-import { ECDSA_SIGNATURE_ALGOS, SHA2_HASH_ALGOS } from '../oid';
+import { OID_RSA_ENCRYPTION, SHA2_HASH_ALGOS } from '../oid';
 import { RFC3161TimestampVerificationError } from './error';
 import { TSTInfo } from './tstinfo';
 
 const OID_PKCS9_CONTENT_TYPE_SIGNED_DATA = '1.2.840.113549.1.7.2';
 const OID_PKCS9_CONTENT_TYPE_TSTINFO = '1.2.840.113549.1.9.16.1.4';
 const OID_PKCS9_MESSAGE_DIGEST_KEY = '1.2.840.113549.1.9.4';
+const OID_PKCS9_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+
+// Identifies a certificate by its hash, as carried in the SigningCertificateV2
+// signed attribute
+// https://www.rfc-editor.org/rfc/rfc5035#section-4
+export type ESSCertIDv2 = {
+  hashAlgorithm: string;
+  certHash: Buffer;
+};
+
+// https://www.rfc-editor.org/rfc/rfc3161#section-2.4.2
+const PKI_STATUS: Record<string, string> = {
+  '0': 'granted',
+  '1': 'grantedWithMods',
+  '2': 'rejection',
+  '3': 'waiting',
+  '4': 'revocationWarning',
+  '5': 'revocationNotification',
+};
+
+// Bit positions in the PKIFailureInfo bit string
+const PKI_FAILURE_INFO: Record<number, string> = {
+  0: 'badAlg',
+  2: 'badRequest',
+  5: 'badDataFormat',
+  14: 'timeNotAvailable',
+  15: 'unacceptedPolicy',
+  16: 'unacceptedExtension',
+  17: 'addInfoNotAvailable',
+  25: 'systemFailure',
+};
 
 export class RFC3161Timestamp {
   public root: ASN1Obj;
@@ -39,6 +72,31 @@ export class RFC3161Timestamp {
     return this.pkiStatusInfoObj.subs[0].toInteger();
   }
 
+  // Free-form text supplied by the TSA to describe the status, if any
+  get statusString(): string | undefined {
+    const freeText = this.pkiStatusInfoObj.subs.find(
+      (sub) => sub.tag.constructed
+    );
+    return freeText?.subs.map((text) => text.value.toString()).join('; ');
+  }
+
+  // Names of the failure conditions reported by the TSA, if any
+  get failureInfo(): string[] {
+    const failInfo = this.pkiStatusInfoObj.subs.find((sub) =>
+      sub.tag.isBitString()
+    );
+
+    if (!failInfo) {
+      return [];
+    }
+
+    return failInfo
+      .toBitString()
+      .flatMap((bit, i) =>
+        bit ? [PKI_FAILURE_INFO[i] || /* istanbul ignore next */ `${i}`] : []
+      );
+  }
+
   get contentType(): string {
     return this.contentTypeObj.toOID();
   }
@@ -64,20 +122,68 @@ export class RFC3161Timestamp {
     return SHA2_HASH_ALGOS[oid];
   }
 
-  get signatureAlgorithm(): string {
-    const oid = this.signatureAlgorithmObj.subs[0].toOID();
-    return ECDSA_SIGNATURE_ALGOS[oid];
+  get signatureAlgorithm(): string | undefined {
+    return this.signatureScheme?.hash;
   }
 
   get signatureValue(): Buffer {
     return this.signatureValueObj.value;
   }
 
+  // The ESSCertIDv2 entries from the SigningCertificateV2 signed attribute.
+  // Returns undefined if the attribute is not present.
+  get signingCertificateIDs(): ESSCertIDv2[] | undefined {
+    const attr = this.signedAttrsObj.subs.find(
+      (sub) =>
+        sub.subs[0].tag.isOID() &&
+        sub.subs[0].toOID() === OID_PKCS9_SIGNING_CERTIFICATE_V2
+    );
+
+    if (!attr) {
+      return undefined;
+    }
+
+    // SigningCertificateV2 ::= SEQUENCE { certs SEQUENCE OF ESSCertIDv2, ... }
+    const certs = attr.subs[1].subs[0].subs[0];
+    return certs.subs.map((essCertID) => {
+      // The hashAlgorithm is omitted when it is the default of SHA-256
+      const hasAlgorithm =
+        essCertID.subs[0].tag.isUniversal() &&
+        essCertID.subs[0].tag.constructed;
+      const oid = hasAlgorithm ? essCertID.subs[0].subs[0].toOID() : OID_SHA256;
+
+      return {
+        hashAlgorithm: SHA2_HASH_ALGOS[oid] || oid,
+        certHash: essCertID.subs[hasAlgorithm ? 1 : 0].value,
+      };
+    });
+  }
+
   get tstInfo(): TSTInfo {
     // Need to unpack tstInfo from an OCTET STRING
     return new TSTInfo(this.eContentObj.subs[0].subs[0]);
   }
 
+  // Checks that the TSA granted the timestamp request and returned a token
+  public verifyStatus(): void {
+    // Only "granted" and "grantedWithMods" are accompanied by a token
+    if (this.status > 1n) {
+      const details = [...this.failureInfo, this.statusString].filter(Boolean);
+      const status =
+        PKI_STATUS[this.status.toString()] ||
+        /* istanbul ignore next */ this.status;
+
+      throw new RFC3161TimestampVerificationError(
+        `timestamp request failed with status ${status}` +
+          (details.length > 0 ? `: ${details.join(', ')}` : '')
+      );
+    }
+
+    if (!this.timeStampTokenObj) {
+      throw new RFC3161TimestampVerificationError('timeStampToken is missing');
+    }
+  }
+
   public verify(data: Buffer, publicKey: crypto.KeyObject): void {
     if (!this.timeStampTokenObj) {
       throw new RFC3161TimestampVerificationError('timeStampToken is missing');
@@ -126,12 +232,10 @@ export class RFC3161Timestamp {
     signedAttrs[0] = 0x31; // Change context-specific tag to SET
 
     // Check that the signature is valid for the signed attributes
-    const verified = crypto.verify(
-      signedAttrs,
-      key,
-      this.signatureValue,
-      this.signatureAlgorithm
-    );
+    const algorithm = this.signatureScheme;
+    const verified =
+      !!algorithm &&
+      crypto.verify(signedAttrs, key, this.signatureValue, algorithm);
 
     if (!verified) {
       throw new RFC3161TimestampVerificationError(
@@ -222,6 +326,16 @@ export class RFC3161Timestamp {
   }
 
   // https://datatracker.ietf.org/doc/html/rfc5652#section-5.3
+  private get signatureScheme(): crypto.SignatureAlgorithm | undefined {
+    // CMS permits the bare rsaEncryption OID as the signature algorithm, in
+    // which case the signer's digest algorithm applies (RFC 5754 section 3.2)
+    if (this.signatureAlgorithmObj.subs[0].toOID() === OID_RSA_ENCRYPTION) {
+      return { hash: this.signerDigestAlgorithm, padding: 'pkcs1' };
+    }
+
+    return parseSignatureAlgorithm(this.signatureAlgorithmObj);
+  }
+
   private get signatureAlgorithmObj(): ASN1Obj {
     // Signature is the 4th element of the signerInfoObj object
     return this.signerInfoObj.subs[4];
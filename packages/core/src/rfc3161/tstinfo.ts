@@ -14,6 +14,7 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import { ASN1Obj } from '../asn1';
+import { parseInteger } from '../asn1/parse';
 import * as crypto from '../crypto';
 import { SHA2_HASH_ALGOS } from '../oid';
 import { RFC3161TimestampVerificationError } from './error';
@@ -29,10 +30,49 @@ export class TSTInfo {
     return this.root.subs[0].toInteger();
   }
 
+  get policy(): string {
+    return this.root.subs[1].toOID();
+  }
+
   get genTime(): Date {
     return this.root.subs[4].toDate();
   }
 
+  // Accuracy of the genTime in milliseconds. The accuracy is the only optional
+  // field encoded as a universal SEQUENCE, so it can be located by its tag.
+  // https://www.rfc-editor.org/rfc/rfc3161#section-2.4.2
+  get accuracy(): number | undefined {
+    const accuracy = this.root.subs
+      .slice(5)
+      .find((sub) => sub.tag.isUniversal() && sub.tag.constructed);
+
+    if (!accuracy) {
+      return undefined;
+    }
+
+    // Each of the seconds, millis [0] and micros [1] fields is optional
+    return accuracy.subs.reduce((total, sub) => {
+      if (sub.tag.isInteger()) {
+        return total + Number(sub.toInteger()) * 1000;
+      } else if (sub.tag.isContextSpecific(0x00)) {
+        return total + Number(parseInteger(sub.value));
+      } else if (sub.tag.isContextSpecific(0x01)) {
+        return total + Number(parseInteger(sub.value)) / 1000;
+      }
+      /* istanbul ignore next */
+      return total;
+    }, 0);
+  }
+
+  // The nonce is the only optional field encoded as an INTEGER, so it can be
+  // located by its tag
+  get nonce(): bigint | undefined {
+    return this.root.subs
+      .slice(5)
+      .find((sub) => sub.tag.isInteger())
+      ?.toInteger();
+  }
+
   get messageImprintHashAlgorithm(): string {
     const oid = this.messageImprintObj.subs[0].subs[0].toOID();
     return SHA2_HASH_ALGOS[oid];
@@ -0,0 +1,182 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto from 'crypto';
+
+// RSA signature operations over a pre-computed digest. Node's crypto module
+// always hashes the input before generating or verifying a signature, so the
+// signature encodings from RFC 8017 are implemented here on top of the raw
+// RSA primitives.
+
+// ASN.1 DigestInfo prefixes for RSASSA-PKCS1-v1_5 signatures (RFC 8017
+// section 9.2). Keyed by the name of the hash function.
+const DIGEST_INFO_PREFIX: Record<string, Buffer | undefined> = {
+  sha256: Buffer.from('3031300d060960864801650304020105000420', 'hex'),
+  sha384: Buffer.from('3041300d060960864801650304020205000430', 'hex'),
+  sha512: Buffer.from('3051300d060960864801650304020305000440', 'hex'),
+};
+
+// Generates an RSASSA-PKCS1-v1_5 signature over the digest, which must have
+// been computed with the named hash function
+export function signDigestPKCS1(
+  digest: Buffer,
+  privateKey: crypto.KeyObject,
+  hashAlgorithm: string
+): Buffer {
+  return crypto.privateEncrypt(
+    { key: privateKey, padding: crypto.constants.RSA_PKCS1_PADDING },
+    encodeDigestInfo(digest, hashAlgorithm)
+  );
+}
+
+// Verifies an RSASSA-PKCS1-v1_5 signature over the digest. The DigestInfo in
+// the signature must identify the named hash function.
+export function verifyDigestPKCS1(
+  digest: Buffer,
+  publicKey: crypto.KeyObject,
+  signature: Buffer,
+  hashAlgorithm: string
+): boolean {
+  try {
+    const encoded = crypto.publicDecrypt(
+      { key: publicKey, padding: crypto.constants.RSA_PKCS1_PADDING },
+      signature
+    );
+    return bufferEqual(encoded, encodeDigestInfo(digest, hashAlgorithm));
+  } catch (e) {
+    return false;
+  }
+}
+
+// Verifies an RSASSA-PSS signature over the digest (RFC 8017 section 9.1.2).
+// The named hash function is used for both the message hash and MGF1. The salt
+// length is recovered from the encoded message unless one is given.
+export function verifyDigestPSS(
+  digest: Buffer,
+  publicKey: crypto.KeyObject,
+  signature: Buffer,
+  hashAlgorithm: string,
+  saltLength?: number
+): boolean {
+  const hLen = hashLength(hashAlgorithm);
+  if (!hLen || digest.length !== hLen) {
+    return false;
+  }
+
+  let em: Buffer;
+  try {
+    em = crypto.publicDecrypt(
+      { key: publicKey, padding: crypto.constants.RSA_NO_PADDING },
+      signature
+    );
+  } catch (e) {
+    return false;
+  }
+
+  const modBits =
+    publicKey.asymmetricKeyDetails?.modulusLength ||
+    /* istanbul ignore next */ 0;
+  const emBits = modBits - 1;
+  const emLen = Math.ceil(emBits / 8);
+
+  // The encoded message is one byte shorter than the modulus when the
+  // modulus bit length is one more than a multiple of 8
+  /* istanbul ignore if */
+  if (em.length > emLen) {
+    if (em[0] !== 0) {
+      return false;
+    }
+    em = em.subarray(em.length - emLen);
+  }
+
+  if (emLen < hLen + 2 || em[emLen - 1] !== 0xbc) {
+    return false;
+  }
+
+  const maskedDB = em.subarray(0, emLen - hLen - 1);
+  const h = em.subarray(emLen - hLen - 1, emLen - 1);
+
+  // The leftmost bits of the masked DB which are not part of the encoded
+  // message must be zero
+  const unusedBits = 8 * emLen - emBits;
+  const topMask = 0xff >> unusedBits;
+  if ((maskedDB[0] & ~topMask) !== 0) {
+    return false;
+  }
+
+  const dbMask = mgf1(hashAlgorithm, h, maskedDB.length);
+  const db = Buffer.alloc(maskedDB.length);
+  for (let i = 0; i < db.length; i++) {
+    db[i] = maskedDB[i] ^ dbMask[i];
+  }
+  db[0] &= topMask;
+
+  // DB = PS || 0x01 || salt, where PS is a string of zero bytes
+  const separator = db.findIndex((b) => b !== 0);
+  if (separator === -1 || db[separator] !== 0x01) {
+    return false;
+  }
+  const salt = db.subarray(separator + 1);
+  if (saltLength !== undefined && salt.length !== saltLength) {
+    return false;
+  }
+
+  const expected = crypto
+    .createHash(hashAlgorithm)
+    .update(Buffer.alloc(8))
+    .update(digest)
+    .update(salt)
+    .digest();
+
+  return bufferEqual(h, expected);
+}
+
+// DigestInfo = SEQUENCE { AlgorithmIdentifier, OCTET STRING digest }
+function encodeDigestInfo(digest: Buffer, hashAlgorithm: string): Buffer {
+  const prefix = DIGEST_INFO_PREFIX[hashAlgorithm];
+  if (!prefix) {
+    throw new Error(`unsupported hash algorithm: ${hashAlgorithm}`);
+  }
+  if (digest.length !== hashLength(hashAlgorithm)) {
+    throw new Error(`invalid ${hashAlgorithm} digest length: ${digest.length}`);
+  }
+  return Buffer.concat([prefix, digest]);
+}
+
+// The last byte of the DigestInfo prefix holds the length of the digest
+function hashLength(hashAlgorithm: string): number {
+  const prefix = DIGEST_INFO_PREFIX[hashAlgorithm];
+  return prefix ? prefix[prefix.length - 1] : 0;
+}
+
+// Mask generation function from RFC 8017 appendix B.2.1
+function mgf1(algorithm: string, seed: Buffer, length: number): Buffer {
+  const blocks: Buffer[] = [];
+  let size = 0;
+
+  for (let counter = 0; size < length; counter++) {
+    const c = Buffer.alloc(4);
+    c.writeUInt32BE(counter);
+    const block = crypto.createHash(algorithm).update(seed).update(c).digest();
+    blocks.push(block);
+    size += block.length;
+  }
+
+  return Buffer.concat(blocks).subarray(0, length);
+}
+
+function bufferEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -13,15 +13,17 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import { parseSignatureAlgorithm } from '../algorithm';
 import { ASN1Obj } from '../asn1';
 import * as crypto from '../crypto';
-import { ECDSA_SIGNATURE_ALGOS } from '../oid';
 import * as pem from '../pem';
 import {
   X509AuthorityKeyIDExtension,
   X509BasicConstraintsExtension,
+  X509ExtendedKeyUsageExtension,
   X509Extension,
   X509KeyUsageExtension,
+  X509NameConstraintsExtension,
   X509SCTExtension,
   X509SubjectAlternativeNameExtension,
   X509SubjectKeyIDExtension,
@@ -31,6 +33,8 @@ const EXTENSION_OID_SUBJECT_KEY_ID = '2.5.29.14';
 const EXTENSION_OID_KEY_USAGE = '2.5.29.15';
 const EXTENSION_OID_SUBJECT_ALT_NAME = '2.5.29.17';
 const EXTENSION_OID_BASIC_CONSTRAINTS = '2.5.29.19';
+const EXTENSION_OID_NAME_CONSTRAINTS = '2.5.29.30';
+const EXTENSION_OID_EXT_KEY_USAGE = '2.5.29.37';
 const EXTENSION_OID_AUTHORITY_KEY_ID = '2.5.29.35';
 export const EXTENSION_OID_SCT = '1.3.6.1.4.1.11129.2.4.2';
 
@@ -83,9 +87,10 @@ export class X509Certificate {
     return this.subjectPublicKeyInfoObj.toDER();
   }
 
-  get signatureAlgorithm(): string {
-    const oid: string = this.signatureAlgorithmObj.subs[0].toOID();
-    return ECDSA_SIGNATURE_ALGOS[oid];
+  // The digest algorithm used by the signature. Undefined for algorithms which
+  // do not use a separate digest (Ed25519) or are not supported.
+  get signatureAlgorithm(): string | undefined {
+    return parseSignatureAlgorithm(this.signatureAlgorithmObj)?.hash;
   }
 
   get signatureValue(): Buffer {
@@ -112,11 +117,21 @@ export class X509Certificate {
     return ext ? new X509KeyUsageExtension(ext) : undefined;
   }
 
+  get extExtendedKeyUsage(): X509ExtendedKeyUsageExtension | undefined {
+    const ext = this.findExtension(EXTENSION_OID_EXT_KEY_USAGE);
+    return ext ? new X509ExtendedKeyUsageExtension(ext) : undefined;
+  }
+
   get extBasicConstraints(): X509BasicConstraintsExtension | undefined {
     const ext = this.findExtension(EXTENSION_OID_BASIC_CONSTRAINTS);
     return ext ? new X509BasicConstraintsExtension(ext) : undefined;
   }
 
+  get extNameConstraints(): X509NameConstraintsExtension | undefined {
+    const ext = this.findExtension(EXTENSION_OID_NAME_CONSTRAINTS);
+    return ext ? new X509NameConstraintsExtension(ext) : undefined;
+  }
+
   get extSubjectAltName(): X509SubjectAlternativeNameExtension | undefined {
     const ext = this.findExtension(EXTENSION_OID_SUBJECT_ALT_NAME);
     return ext ? new X509SubjectAlternativeNameExtension(ext) : undefined;
@@ -162,11 +177,16 @@ export class X509Certificate {
     const publicKey = issuerCertificate?.publicKey || this.publicKey;
     const key = crypto.createPublicKey(publicKey);
 
-    return crypto.verify(
-      this.tbsCertificate.toDER(),
-      key,
-      this.signatureValue,
-      this.signatureAlgorithm
+    const algorithm = parseSignatureAlgorithm(this.signatureAlgorithmObj);
+
+    return (
+      !!algorithm &&
+      crypto.verify(
+        this.tbsCertificate.toDER(),
+        key,
+        this.signatureValue,
+        algorithm
+      )
     );
   }
 
@@ -0,0 +1,197 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { parseSignatureAlgorithm } from '../algorithm';
+import { ASN1Obj } from '../asn1';
+import * as crypto from '../crypto';
+import * as pem from '../pem';
+import { X509Extension } from './ext';
+
+import type { X509Certificate } from './cert';
+
+// An entry in the list of revoked certificates
+export type RevokedCertificate = {
+  serialNumber: Buffer;
+  revocationDate: Date;
+};
+
+// https://www.rfc-editor.org/rfc/rfc5280#section-5
+export class X509CRL {
+  public root: ASN1Obj;
+
+  constructor(asn1: ASN1Obj) {
+    this.root = asn1;
+  }
+
+  public static parse(crl: Buffer | string): X509CRL {
+    const der = typeof crl === 'string' ? pem.toDER(crl) : crl;
+    const asn1 = ASN1Obj.parseBuffer(der);
+    return new X509CRL(asn1);
+  }
+
+  get tbsCertList(): ASN1Obj {
+    return this.tbsCertListObj;
+  }
+
+  get version(): string {
+    // The version is omitted from v1 CRLs
+    const ver = this.versionObj ? this.versionObj.toInteger() : BigInt(0);
+    return `v${(ver + BigInt(1)).toString()}`;
+  }
+
+  get issuer(): Buffer {
+    return this.issuerObj.value;
+  }
+
+  get thisUpdate(): Date {
+    return this.thisUpdateObj.toDate();
+  }
+
+  get nextUpdate(): Date | undefined {
+    return this.nextUpdateObj?.toDate();
+  }
+
+  get revokedCertificates(): RevokedCertificate[] {
+    const revoked = this.revokedCertificatesObj;
+
+    if (!revoked) {
+      return [];
+    }
+
+    // Each entry is a sequence of the serial number, revocation date and
+    // optional entry extensions
+    return revoked.subs.map((entry) => ({
+      serialNumber: entry.subs[0].value,
+      revocationDate: entry.subs[1].toDate(),
+    }));
+  }
+
+  get extensions(): X509Extension[] {
+    // The extension list is the only element of the crlExtensions context
+    // specific tag
+    const extSeq = this.crlExtensionsObj?.subs[0];
+    return (extSeq?.subs || []).map((ext) => new X509Extension(ext));
+  }
+
+  get signatureAlgorithm(): string | undefined {
+    return parseSignatureAlgorithm(this.signatureAlgorithmObj)?.hash;
+  }
+
+  get signatureValue(): Buffer {
+    // Signature value is a bit string, so we need to skip the first byte
+    return this.signatureValueObj.value.subarray(1);
+  }
+
+  // Verifies the CRL signature with the public key of the issuing certificate
+  public verify(issuerCertificate: X509Certificate): boolean {
+    const key = crypto.createPublicKey(issuerCertificate.publicKey);
+
+    const algorithm = parseSignatureAlgorithm(this.signatureAlgorithmObj);
+
+    return (
+      !!algorithm &&
+      crypto.verify(
+        this.tbsCertList.toDER(),
+        key,
+        this.signatureValue,
+        algorithm
+      )
+    );
+  }
+
+  // Returns true if the certificate was issued by the CRL issuer and appears
+  // in the list of revoked certificates
+  public isRevoked(certificate: X509Certificate): boolean {
+    return (
+      this.issuer.equals(certificate.issuer) &&
+      this.revokedCertificates.some((entry) =>
+        entry.serialNumber.equals(certificate.serialNumber)
+      )
+    );
+  }
+
+  // Returns true if the CRL has been issued and has not yet been superseded
+  // at the given date
+  public validForDate(date: Date): boolean {
+    const nextUpdate = this.nextUpdate;
+    return this.thisUpdate <= date && (!nextUpdate || date <= nextUpdate);
+  }
+
+  /////////////////////////////////////////////////////////////////////////////
+  // The following properties use the documented CRL structure to locate the
+  // desired ASN.1 object
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.1.1
+  private get tbsCertListObj(): ASN1Obj {
+    // tbsCertList is the first element of the certificate list sequence
+    return this.root.subs[0];
+  }
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.1.2
+  private get signatureAlgorithmObj(): ASN1Obj {
+    // signatureAlgorithm is the second element of the certificate list
+    // sequence
+    return this.root.subs[1];
+  }
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.1.3
+  private get signatureValueObj(): ASN1Obj {
+    // signatureValue is the third element of the certificate list sequence
+    return this.root.subs[2];
+  }
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.2.1
+  private get versionObj(): ASN1Obj | undefined {
+    // The optional version is the only INTEGER in the tbsCertList sequence
+    const first = this.tbsCertListObj.subs[0];
+    return first.tag.isInteger() ? first : undefined;
+  }
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.2.3
+  private get issuerObj(): ASN1Obj {
+    // issuer follows the version (if present) and signature algorithm
+    return this.tbsCertListObj.subs[this.versionObj ? 2 : 1];
+  }
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.2.4
+  private get thisUpdateObj(): ASN1Obj {
+    return this.tbsCertListObj.subs[this.versionObj ? 3 : 2];
+  }
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.2.5
+  private get nextUpdateObj(): ASN1Obj | undefined {
+    const next = this.tbsCertListObj.subs[this.versionObj ? 4 : 3];
+    return next?.tag.isUTCTime() || next?.tag.isGeneralizedTime()
+      ? next
+      : undefined;
+  }
+
+  // The revoked certificates are omitted when the list is empty. They can be
+  // located as the only universal SEQUENCE following the update times.
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.2.6
+  private get revokedCertificatesObj(): ASN1Obj | undefined {
+    return this.tbsCertListObj.subs
+      .slice(this.versionObj ? 4 : 3)
+      .find((sub) => sub.tag.isUniversal() && sub.tag.constructed);
+  }
+
+  // https://www.rfc-editor.org/rfc/rfc5280#section-5.1.2.7
+  private get crlExtensionsObj(): ASN1Obj | undefined {
+    return this.tbsCertListObj.subs.find((sub) =>
+      sub.tag.isContextSpecific(0x00)
+    );
+  }
+}
@@ -17,6 +17,39 @@ import { ASN1Obj } from '../asn1';
 import { ByteStream } from '../stream';
 import { SignedCertificateTimestamp } from './sct';
 
+// https://www.rfc-editor.org/rfc/rfc5280#section-4.2.1.6
+export type GeneralNameType =
+  | 'otherName'
+  | 'rfc822Name'
+  | 'dNSName'
+  | 'x400Address'
+  | 'directoryName'
+  | 'ediPartyName'
+  | 'uniformResourceIdentifier'
+  | 'iPAddress'
+  | 'registeredID';
+
+// The value is the raw content of the name. For a directoryName it is the
+// content of the Name sequence, which is comparable with the subject and
+// issuer of a certificate.
+export type GeneralName = {
+  type: GeneralNameType;
+  value: Buffer;
+};
+
+// Indexed by the context-specific tag number of the GeneralName
+const GENERAL_NAME_TYPES: GeneralNameType[] = [
+  'otherName',
+  'rfc822Name',
+  'dNSName',
+  'x400Address',
+  'directoryName',
+  'ediPartyName',
+  'uniformResourceIdentifier',
+  'iPAddress',
+  'registeredID',
+];
+
 // https://www.rfc-editor.org/rfc/rfc5280#section-4.1
 export class X509Extension {
   protected root: ASN1Obj;
@@ -89,6 +122,14 @@ export class X509KeyUsageExtension extends X509Extension {
   }
 }
 
+// https://www.rfc-editor.org/rfc/rfc5280#section-4.2.1.12
+export class X509ExtendedKeyUsageExtension extends X509Extension {
+  // The extnValue field contains a sequence of key purpose OIDs
+  get keyPurposeIDs(): string[] {
+    return this.extnValueObj.subs[0].subs.map((oid) => oid.toOID());
+  }
+}
+
 // https://www.rfc-editor.org/rfc/rfc5280#section-4.2.1.6
 export class X509SubjectAlternativeNameExtension extends X509Extension {
   get rfc822Name(): string | undefined {
@@ -99,6 +140,11 @@ export class X509SubjectAlternativeNameExtension extends X509Extension {
     return this.findGeneralName(0x06)?.value.toString('ascii');
   }
 
+  // All of the names in the extension
+  get names(): GeneralName[] {
+    return this.generalNames.map(toGeneralName);
+  }
+
   // Retrieve the value of an otherName with the given OID.
   public otherName(oid: string): string | undefined {
     const otherName = this.findGeneralName(0x00);
@@ -129,6 +175,34 @@ export class X509SubjectAlternativeNameExtension extends X509Extension {
   }
 }
 
+// https://www.rfc-editor.org/rfc/rfc5280#section-4.2.1.10
+export class X509NameConstraintsExtension extends X509Extension {
+  get permittedSubtrees(): GeneralName[] {
+    return this.findSubtrees(0x00);
+  }
+
+  get excludedSubtrees(): GeneralName[] {
+    return this.findSubtrees(0x01);
+  }
+
+  // Returns the base name of each GeneralSubtree. The minimum and maximum
+  // fields are ignored as RFC 5280 requires them to be absent.
+  private findSubtrees(tag: number): GeneralName[] {
+    const subtrees = this.sequence.subs.find((el) =>
+      el.tag.isContextSpecific(tag)
+    );
+    return (
+      subtrees?.subs.map((subtree) => toGeneralName(subtree.subs[0])) || []
+    );
+  }
+
+  // The extnValue field contains a single sequence wrapping the permitted and
+  // excluded subtrees
+  private get sequence(): ASN1Obj {
+    return this.extnValueObj.subs[0];
+  }
+}
+
 // https://www.rfc-editor.org/rfc/rfc5280#section-4.2.1.1
 export class X509AuthorityKeyIDExtension extends X509Extension {
   get keyIdentifier(): Buffer | undefined {
@@ -183,3 +257,11 @@ export class X509SCTExtension extends X509Extension {
     return sctList;
   }
 }
+
+function toGeneralName(obj: ASN1Obj): GeneralName {
+  const type = GENERAL_NAME_TYPES[obj.tag.number];
+
+  // The directoryName is explicitly tagged so the Name sequence is wrapped
+  const value = type === 'directoryName' ? obj.subs[0].value : obj.value;
+  return { type, value };
+}
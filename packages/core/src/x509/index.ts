@@ -15,4 +15,8 @@ limitations under the License.
 */
 
 export { EXTENSION_OID_SCT, X509Certificate } from './cert';
+export { X509CRL } from './crl';
+export type { RevokedCertificate } from './crl';
+export type { GeneralName, GeneralNameType } from './ext';
 export { X509SCTExtension } from './ext';
+export { SignedCertificateTimestamp } from './sct';
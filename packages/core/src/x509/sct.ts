@@ -73,6 +73,8 @@ export class SignedCertificateTimestamp {
       /* istanbul ignore next */
       case 6:
         return 'sha512';
+      case 8:
+        return 'intrinsic';
       /* istanbul ignore next */
       default:
         return 'unknown';
@@ -96,7 +98,37 @@ export class SignedCertificateTimestamp {
       stream.appendView(this.extensions);
     }
 
-    return crypto.verify(stream.buffer, key, this.signature, this.algorithm);
+    const algorithm = this.signatureScheme;
+
+    return (
+      !!algorithm &&
+      crypto.verify(stream.buffer, key, this.signature, algorithm)
+    );
+  }
+
+  // Signature schemes from TLS 1.3 (RSA-PSS and Ed25519) are identified by the
+  // "intrinsic" hash algorithm and a signature algorithm specific to the scheme.
+  // https://www.rfc-editor.org/rfc/rfc8446#section-4.2.3
+  private get signatureScheme(): crypto.SignatureAlgorithm | undefined {
+    if (this.hashAlgorithm !== 8) {
+      return { hash: this.algorithm };
+    }
+
+    switch (this.signatureAlgorithm) {
+      case 4: // rsa_pss_rsae_sha256
+      case 9: // rsa_pss_pss_sha256
+        return { hash: 'sha256', padding: 'pss', saltLength: 32 };
+      case 5: // rsa_pss_rsae_sha384
+      case 10: // rsa_pss_pss_sha384
+        return { hash: 'sha384', padding: 'pss', saltLength: 48 };
+      case 6: // rsa_pss_rsae_sha512
+      case 11: // rsa_pss_pss_sha512
+        return { hash: 'sha512', padding: 'pss', saltLength: 64 };
+      case 7: // ed25519
+        return {};
+      default:
+        return undefined;
+    }
   }
 
   // Parses a SignedCertificateTimestamp from a buffer. SCTs are encoded using
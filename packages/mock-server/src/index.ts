@@ -1,7 +1,11 @@
 import color from '@oclif/color';
 import { Command, Flags, ux } from '@oclif/core';
 import {
+  type CA,
+  type CTLog,
   HandlerFn,
+  type TLog,
+  type TSA,
   fulcioHandler,
   initializeCA,
   initializeCTLog,
@@ -10,24 +14,13 @@ import {
   rekorHandler,
   tsaHandler,
 } from '@sigstore/mock';
-import {
-  CertificateAuthority,
-  HashAlgorithm,
-  PublicKeyDetails,
-  TransparencyLogInstance,
-  TrustedRoot,
-} from '@sigstore/protobuf-specs';
+import { TrustedRoot } from '@sigstore/protobuf-specs';
+import { TrustedRootBuilder } from '@sigstore/verify';
 import { initializeTUFRepo, tufHandlers } from '@tufjs/repo-mock';
 import crypto, { generateKeyPairSync } from 'crypto';
 import express from 'express';
 import fs from 'fs';
 
-// TODO: Export these types from @sigstore/mock
-type CA = Awaited<ReturnType<typeof initializeCA>>;
-type TLog = Awaited<ReturnType<typeof initializeTLog>>;
-type CTLog = Awaited<ReturnType<typeof initializeCTLog>>;
-type TSA = Awaited<ReturnType<typeof initializeTSA>>;
-
 export default class Server extends Command {
   static override description = 'start mock services';
 
@@ -75,7 +68,7 @@ export default class Server extends Command {
 
     // Set-up the fake Rekor server
     const tlog = await initializeTLog(url, keyPair);
-    const rekor = rekorHandler(tlog, { strict: flags['strict'] });
+    const rekorEndpoints = rekorHandler(tlog, { strict: flags['strict'] });
 
     // Set-up the fake TSA server
     const tsa = await initializeTSA(keyPair);
@@ -98,7 +91,13 @@ export default class Server extends Command {
     app.use(loggerMiddleware(this.log.bind(this)));
     app.use(express.json());
     app.post(fulcio.path, adapt(fulcio.fn));
-    app.post(rekor.path, adapt(rekor.fn));
+    rekorEndpoints.forEach(({ method, path, fn }) => {
+      if (method === 'GET') {
+        app.get(path, adapt(fn));
+      } else {
+        app.post(path, adapt(fn));
+      }
+    });
     app.post(timestamp.path, adapt(timestamp.fn));
 
     tufEndpoints.forEach(({ path, fn }) => {
@@ -131,60 +130,30 @@ function assembleTrustedRoot({
   tsa: TSA;
   url: string;
 }): TrustedRoot {
-  return {
-    mediaType: 'application/vnd.dev.sigstore.trustedroot+json;version=0.1',
-    certificateAuthorities: [certificateAuthority([ca.rootCertificate], url)],
-    ctlogs: [transparencyLogInstance(ctlog.publicKey, url)],
-    tlogs: [transparencyLogInstance(tlog.publicKey, url)],
-    timestampAuthorities: [
-      certificateAuthority([tsa.intCertificate, tsa.rootCertificate], url),
-    ],
-  };
-}
-
-function certificateAuthority(
-  certificates: Buffer[],
-  url: string
-): CertificateAuthority {
-  return {
-    subject: {
-      commonName: 'sigstore',
-      organization: 'sigstore.mock',
-    },
-    uri: url,
-    certChain: {
-      certificates: certificates.map((certificate) => ({
-        rawBytes: certificate,
-      })),
-    },
-    validFor: { start: new Date() },
-  };
-}
-
-function transparencyLogInstance(
-  key: Buffer,
-  url: string
-): TransparencyLogInstance {
-  return {
-    baseUrl: url,
-    logId: {
-      keyId: crypto.createHash('sha256').update(key).digest(),
-    },
-    hashAlgorithm: HashAlgorithm.SHA2_256,
-    publicKey: {
-      rawBytes: key,
-      keyDetails: PublicKeyDetails.PKIX_ECDSA_P256_SHA_256,
-      validFor: { start: new Date() },
-    },
-    checkpointKeyId: undefined,
-  };
+  const validFor = { start: new Date() };
+
+  return new TrustedRootBuilder()
+    .addCertificateAuthority({
+      certChain: [ca.rootCertificate],
+      uri: url,
+      validFor,
+    })
+    .addTimestampAuthority({
+      certChain: [tsa.intCertificate, tsa.rootCertificate],
+      uri: url,
+      validFor,
+    })
+    .addTLog({ baseURL: url, publicKey: tlog.publicKey, validFor })
+    .addCTLog({ baseURL: url, publicKey: ctlog.publicKey, validFor })
+    .build();
 }
 
 // Translate our generic handler into an express request handler
 function adapt(handler: HandlerFn): express.RequestHandler {
-  return async ({ body }, res) => {
+  return async ({ body, originalUrl }, res) => {
     const { response, statusCode, contentType } = await handler(
-      JSON.stringify(body)
+      JSON.stringify(body),
+      originalUrl
     );
     if (contentType) {
       res.setHeader('Content-Type', contentType);
@@ -67,12 +67,19 @@ describe('exports mock functions', () => {
   describe('mockRekor', () => {
     it('mocks rekor', async () => {
       await mockRekor();
-      expect(nock.pendingMocks()).toHaveLength(1);
+      expect(nock.pendingMocks()).toHaveLength(4);
     });
 
     it('mocks rekor w/ options', async () => {
       await mockRekor({ strict: true });
-      expect(nock.pendingMocks()).toHaveLength(1);
+      expect(nock.pendingMocks()).toHaveLength(4);
+    });
+
+    it('mocks rekor v2', async () => {
+      await mockRekor({ majorApiVersion: 2 });
+      expect(nock.pendingMocks()).toEqual([
+        expect.stringContaining('/api/v2/log/entries'),
+      ]);
     });
   });
 
@@ -86,5 +93,10 @@ describe('exports mock functions', () => {
       await mockTSA({ strict: true });
       expect(nock.pendingMocks()).toHaveLength(1);
     });
+
+    it('mocks an RFC 3161 tsa', async () => {
+      await mockTSA({ protocol: 'rfc3161' });
+      expect(nock.pendingMocks()).toHaveLength(1);
+    });
   });
 });
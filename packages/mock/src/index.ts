@@ -19,6 +19,7 @@ import { fulcioHandler, initializeCA, initializeCTLog } from './fulcio';
 import { mock } from './mock';
 import { initializeTLog, rekorHandler } from './rekor';
 import { initializeTSA, tsaHandler } from './timestamp';
+import type { TSAProtocol } from './timestamp';
 import { generateKeyPair } from './util/key';
 
 const DEFAULT_FULCIO_URL = 'https://fulcio.sigstore.dev';
@@ -35,12 +36,14 @@ interface RekorOptions {
   baseURL?: string;
   strict?: boolean;
   keyPair?: KeyPairKeyObjectResult;
+  majorApiVersion?: 1 | 2;
 }
 
 interface TSAOptions {
   baseURL?: string;
   strict?: boolean;
   keyPair?: KeyPairKeyObjectResult;
+  protocol?: TSAProtocol;
 }
 
 export async function mockFulcio(options: FulcioOptions = {}) {
@@ -57,10 +60,10 @@ export async function mockRekor(options: RekorOptions = {}) {
   const url = options.baseURL || DEFAULT_REKOR_URL;
   const strict = options.strict ?? true;
   const keyPair = options.keyPair || generateKeyPair('prime256v1');
-  const handler = await initializeTLog(url, keyPair).then((tlog) =>
-    rekorHandler(tlog, { strict })
+  const handlers = await initializeTLog(url, keyPair).then((tlog) =>
+    rekorHandler(tlog, { strict, majorApiVersion: options.majorApiVersion })
   );
-  mock(url, handler);
+  mock(url, handlers);
 }
 
 export async function mockTSA(options: TSAOptions = {}) {
@@ -68,12 +71,15 @@ export async function mockTSA(options: TSAOptions = {}) {
   const strict = options.strict ?? true;
   const keyPair = options.keyPair || generateKeyPair('prime256v1');
   const handler = await initializeTSA(keyPair).then((tsa) =>
-    tsaHandler(tsa, { strict })
+    tsaHandler(tsa, { strict, protocol: options.protocol })
   );
   mock(url, handler);
 }
 
-export type { HandlerFn } from './shared.types';
+export type { CA, CTLog } from './fulcio';
+export type { TLog } from './rekor';
+export type { Handler, HandlerFn } from './shared.types';
+export type { TSA, TSAProtocol, TSATimestampOptions } from './timestamp';
 export {
   fulcioHandler,
   initializeCA,
@@ -15,6 +15,7 @@ limitations under the License.
 */
 
 import fetch from 'make-fetch-happen';
+import nock from 'nock';
 import { mock } from './mock';
 import type { Handler, HandlerFnResult } from './shared.types';
 
@@ -55,4 +56,21 @@ describe('mock', () => {
       await expect(response.text()).resolves.toBe(result.response);
     });
   });
+
+  describe('when there are multiple handlers', () => {
+    const getHandler: Handler = {
+      method: 'GET',
+      path: /^\/test\/\w+$/,
+      fn: jest.fn().mockResolvedValue(result),
+    };
+
+    it('mocks each handler', async () => {
+      mock('http://example.com', [handler, getHandler]);
+      const response = await fetch('http://example.com/test/foo');
+      expect(getHandler.fn).toHaveBeenCalledWith('', '/test/foo');
+      expect(response.status).toBe(result.statusCode);
+      expect(nock.pendingMocks()).toHaveLength(1);
+      nock.cleanAll();
+    });
+  });
 });
@@ -22,17 +22,21 @@ type NockHandler = (
   request: nock.Body
 ) => Promise<nock.ReplyFnResult>;
 
-// Sets-up nock-based mocking for the given handler
-export function mock(base: string, handler: Handler): void {
-  nock(base).post(handler.path).reply(adapt(handler.fn));
+// Sets-up nock-based mocking for the given handler(s)
+export function mock(base: string, handlers: Handler | Handler[]): void {
+  const scope = nock(base);
+  [handlers].flat().forEach(({ method, path, fn }) => {
+    const interceptor = method === 'GET' ? scope.get(path) : scope.post(path);
+    interceptor.reply(adapt(fn));
+  });
 }
 
 // Adapts our HandlerFn to nock's NockHandler format
 function adapt(handler: HandlerFn): NockHandler {
   /* istanbul ignore next */
-  return async (_: string, body: nock.Body): Promise<nock.ReplyFnResult> => {
+  return async (uri: string, body: nock.Body): Promise<nock.ReplyFnResult> => {
     const req = typeof body === 'string' ? body : JSON.stringify(body);
-    return handler(req).then(({ statusCode, response, contentType }) => [
+    return handler(req, uri).then(({ statusCode, response, contentType }) => [
       statusCode,
       response,
       { 'Content-Type': contentType || 'text/plain' },
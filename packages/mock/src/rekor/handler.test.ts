@@ -25,17 +25,22 @@ describe('rekorHandler', () => {
   const keyPair = generateKeyPair();
 
   describe('#path', () => {
-    it('returns the correct path', async () => {
+    it('returns the correct paths', async () => {
       const tlog = await initializeTLog(url, keyPair);
-      const handler = rekorHandler(tlog);
-      expect(handler.path).toBe('/api/v1/log/entries');
+      const handlers = rekorHandler(tlog);
+      expect(handlers.map(({ method, path }) => [method, path])).toEqual([
+        [undefined, '/api/v1/log/entries'],
+        ['GET', expect.any(RegExp)],
+        ['GET', '/api/v1/log'],
+        ['GET', expect.any(RegExp)],
+      ]);
     });
   });
 
   describe('#fn', () => {
     it('returns a function', async () => {
       const tlog = await initializeTLog(url, keyPair);
-      const handler = rekorHandler(tlog);
+      const [handler] = rekorHandler(tlog);
       expect(handler.fn).toBeInstanceOf(Function);
     });
 
@@ -47,7 +52,7 @@ describe('rekorHandler', () => {
 
       it('returns a tlog entry', async () => {
         const tlog = await initializeTLog(url, keyPair);
-        const { fn } = rekorHandler(tlog);
+        const [{ fn }] = rekorHandler(tlog);
 
         const resp = await fn(JSON.stringify(proposedEntry));
         expect(resp.statusCode).toBe(201);
@@ -73,11 +78,47 @@ describe('rekorHandler', () => {
         ).toEqual(proposedEntry);
         expect(entry.integratedTime).toBeGreaterThan(0);
         expect(entry.logID).toBe(logID);
-        expect(entry.logIndex).toBeGreaterThan(0);
+        expect(entry.logIndex).toBe(0);
         expect(entry.verification).toBeDefined();
         expect(entry.verification?.signedEntryTimestamp).toBeDefined();
       });
 
+      describe('when a hashedrekord entry has an Ed25519 key', () => {
+        const toEntry = (key: crypto.KeyObject) => ({
+          apiVersion: '0.0.1',
+          kind: 'hashedrekord',
+          spec: {
+            signature: {
+              publicKey: {
+                content: Buffer.from(
+                  key.export({ format: 'pem', type: 'spki' })
+                ).toString('base64'),
+              },
+            },
+          },
+        });
+
+        it('returns 400 error', async () => {
+          const tlog = await initializeTLog(url, keyPair);
+          const [{ fn }] = rekorHandler(tlog);
+          const { publicKey } = crypto.generateKeyPairSync('ed25519');
+
+          const resp = await fn(JSON.stringify(toEntry(publicKey)));
+          expect(resp.statusCode).toBe(400);
+        });
+
+        it('accepts other key types', async () => {
+          const tlog = await initializeTLog(url, keyPair);
+          const [{ fn }] = rekorHandler(tlog);
+          const { publicKey } = crypto.generateKeyPairSync('ec', {
+            namedCurve: 'P-256',
+          });
+
+          const resp = await fn(JSON.stringify(toEntry(publicKey)));
+          expect(resp.statusCode).toBe(201);
+        });
+      });
+
       describe('when the TLog raises an error', () => {
         const tlog = fromPartial<TLog>({
           log: async () => {
@@ -86,7 +127,7 @@ describe('rekorHandler', () => {
         });
 
         it('returns 400 error', async () => {
-          const { fn } = rekorHandler(tlog, { strict: false });
+          const [{ fn }] = rekorHandler(tlog, { strict: false });
 
           // Make a request
           const request = {};
@@ -97,4 +138,222 @@ describe('rekorHandler', () => {
       });
     });
   });
+
+  describe('when emulating the Rekor v2 API', () => {
+    const signature = {
+      content: Buffer.from('signature').toString('base64'),
+      verifier: {
+        publicKey: { rawBytes: Buffer.from('key').toString('base64') },
+        keyDetails: 'PKIX_ECDSA_P256_SHA_256',
+      },
+    };
+
+    it('returns the correct path', async () => {
+      const tlog = await initializeTLog(url, keyPair);
+      const handlers = rekorHandler(tlog, { majorApiVersion: 2 });
+      expect(handlers).toHaveLength(1);
+      expect(handlers[0].path).toBe('/api/v2/log/entries');
+    });
+
+    describe('when a hashedrekord entry is requested', () => {
+      const request = {
+        hashedRekordRequestV002: {
+          digest: Buffer.from('digest').toString('base64'),
+          signature,
+        },
+      };
+
+      it('returns a tlog entry', async () => {
+        const tlog = await initializeTLog(url, keyPair);
+        const [{ fn }] = rekorHandler(tlog, { majorApiVersion: 2 });
+
+        const resp = await fn(JSON.stringify(request));
+        expect(resp.statusCode).toBe(201);
+
+        const entry = JSON.parse(resp.response.toString());
+        expect(entry.integratedTime).toBe('0');
+        expect(entry.inclusionPromise).toBeUndefined();
+        expect(entry.inclusionProof.checkpoint.envelope).toBeDefined();
+        expect(
+          JSON.parse(Buffer.from(entry.canonicalizedBody, 'base64').toString())
+        ).toEqual({
+          apiVersion: '0.0.2',
+          kind: 'hashedrekord',
+          spec: {
+            hashedRekordV002: {
+              data: {
+                algorithm: 'SHA2_256',
+                digest: request.hashedRekordRequestV002.digest,
+              },
+              signature,
+            },
+          },
+        });
+      });
+    });
+
+    describe('when a dsse entry is requested', () => {
+      const payload = Buffer.from('payload');
+      const request = {
+        dsseRequestV002: {
+          envelope: {
+            payload: payload.toString('base64'),
+            payloadType: 'text/plain',
+            signatures: [{ sig: signature.content, keyid: '' }],
+          },
+          verifiers: [signature.verifier],
+        },
+      };
+
+      it('returns a tlog entry', async () => {
+        const tlog = await initializeTLog(url, keyPair);
+        const [{ fn }] = rekorHandler(tlog, { majorApiVersion: 2 });
+
+        const resp = await fn(JSON.stringify(request));
+        expect(resp.statusCode).toBe(201);
+
+        const entry = JSON.parse(resp.response.toString());
+        expect(
+          JSON.parse(Buffer.from(entry.canonicalizedBody, 'base64').toString())
+        ).toEqual({
+          apiVersion: '0.0.2',
+          kind: 'dsse',
+          spec: {
+            dsseV002: {
+              payloadHash: {
+                algorithm: 'SHA2_256',
+                digest: crypto
+                  .createHash('sha256')
+                  .update(payload)
+                  .digest('base64'),
+              },
+              signatures: [signature],
+            },
+          },
+        });
+      });
+    });
+
+    describe('when the entry type is not supported', () => {
+      it('returns 400 error', async () => {
+        const tlog = await initializeTLog(url, keyPair);
+        const [{ fn }] = rekorHandler(tlog, { majorApiVersion: 2 });
+
+        const resp = await fn(JSON.stringify({ intotoRequestV002: {} }));
+        expect(resp.statusCode).toBe(400);
+      });
+    });
+
+    describe('when not in strict mode', () => {
+      it('returns a tlog entry', async () => {
+        const tlog = await initializeTLog(url, keyPair);
+        const [{ fn }] = rekorHandler(tlog, {
+          majorApiVersion: 2,
+          strict: false,
+        });
+
+        const resp = await fn('');
+        expect(resp.statusCode).toBe(201);
+      });
+    });
+  });
+
+  describe('when reading from the log', () => {
+    // Dispatches a GET request to the handler whose path matches the URI
+    const get = async (tlog: TLog, uri?: string, route = uri) => {
+      const handler = rekorHandler(tlog).find(
+        ({ method, path }) =>
+          method === 'GET' &&
+          (typeof path === 'string' ? path === route : path.test(route!))
+      );
+      return handler!.fn('', uri);
+    };
+
+    let tlog: TLog;
+    let uuid: string;
+
+    beforeEach(async () => {
+      tlog = await initializeTLog(url, keyPair);
+      const [{ fn }] = rekorHandler(tlog);
+      const resp = await fn(JSON.stringify({ foo: 'bar' }));
+      uuid = Object.keys(JSON.parse(resp.response.toString()))[0];
+      await fn(JSON.stringify({ foo: 'baz' }));
+    });
+
+    describe('when an entry is requested by UUID', () => {
+      it('returns the entry', async () => {
+        const resp = await get(tlog, `/api/v1/log/entries/${uuid}`);
+        expect(resp.statusCode).toBe(200);
+        expect(resp.contentType).toBe('application/json');
+
+        const body = JSON.parse(resp.response.toString());
+        expect(body[uuid].logIndex).toBe(0);
+        expect(body[uuid].verification.inclusionProof.treeSize).toBe(2);
+      });
+    });
+
+    describe('when an entry is requested by log index', () => {
+      it('returns the entry', async () => {
+        const resp = await get(tlog, '/api/v1/log/entries?logIndex=0');
+        expect(resp.statusCode).toBe(200);
+        expect(Object.keys(JSON.parse(resp.response.toString()))).toEqual([
+          uuid,
+        ]);
+      });
+    });
+
+    describe('when the entry does not exist', () => {
+      it('returns 404 error', async () => {
+        const resp = await get(tlog, '/api/v1/log/entries?logIndex=2');
+        expect(resp.statusCode).toBe(404);
+      });
+    });
+
+    describe('when the log index is invalid', () => {
+      it('returns 400 error', async () => {
+        const resp = await get(tlog, '/api/v1/log/entries?logIndex=-1');
+        expect(resp.statusCode).toBe(400);
+      });
+    });
+
+    describe('when no entry is specified', () => {
+      it('returns 400 error', async () => {
+        const resp = await get(tlog, undefined, '/api/v1/log/entries');
+        expect(resp.statusCode).toBe(400);
+      });
+    });
+
+    describe('when the log info is requested', () => {
+      it('returns the log info', async () => {
+        const resp = await get(tlog, '/api/v1/log');
+        expect(resp.statusCode).toBe(200);
+
+        const body = JSON.parse(resp.response.toString());
+        expect(body.treeSize).toBe(2);
+        expect(body.rootHash).toMatch(/^[0-9a-f]{64}$/);
+        expect(body.signedTreeHead).toBeDefined();
+        expect(body.treeID).toBeDefined();
+      });
+    });
+
+    describe('when a consistency proof is requested', () => {
+      it('returns the proof', async () => {
+        const resp = await get(tlog, '/api/v1/log/proof?lastSize=2');
+        expect(resp.statusCode).toBe(200);
+
+        const body = JSON.parse(resp.response.toString());
+        expect(body.hashes).toHaveLength(1);
+        expect(body.rootHash).toEqual((await tlog.getLogInfo()).rootHash);
+      });
+
+      it('returns 400 error for invalid tree sizes', async () => {
+        const resp = await get(
+          tlog,
+          '/api/v1/log/proof?firstSize=1&lastSize=3'
+        );
+        expect(resp.statusCode).toBe(400);
+        expect(resp.response).toBe('invalid tree size: 3');
+      });
+    });
+  });
 });
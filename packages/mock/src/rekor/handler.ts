@@ -15,23 +15,59 @@ limitations under the License.
 */
 
 import assert from 'assert';
+import crypto from 'crypto';
+
+import type {
+  CreateEntryRequest,
+  EntryV002,
+  ProposedEntry,
+} from '@sigstore/rekor-types';
 import type { Handler, HandlerFn, HandlerFnResult } from '../shared.types';
 import type { TLog } from './tlog';
 
 const CREATE_ENTRY_PATH = '/api/v1/log/entries';
+const CREATE_ENTRY_V2_PATH = '/api/v2/log/entries';
+const LOG_INFO_PATH = '/api/v1/log';
+
+// Entries may be retrieved by UUID (/api/v1/log/entries/{uuid}) or by index
+// (/api/v1/log/entries?logIndex={index})
+const GET_ENTRY_PATH = /^\/api\/v1\/log\/entries(\/[0-9a-f]+)?(\?.*)?$/;
+const CONSISTENCY_PROOF_PATH = /^\/api\/v1\/log\/proof(\?.*)?$/;
 
 interface RekorHandlerOptions {
   strict?: boolean;
+  // Major version of the Rekor API to emulate
+  majorApiVersion?: 1 | 2;
 }
 
+// Returns the handlers for the Rekor API. The create-entry handler is always
+// the first in the list.
 export function rekorHandler(
   tlog: TLog,
   opts: RekorHandlerOptions = {}
-): Handler {
-  return {
-    path: CREATE_ENTRY_PATH,
-    fn: createEntryHandler(tlog, opts),
-  };
+): Handler[] {
+  if (opts.majorApiVersion === 2) {
+    return [
+      {
+        path: CREATE_ENTRY_V2_PATH,
+        fn: createEntryV2Handler(tlog, opts),
+      },
+    ];
+  }
+
+  return [
+    {
+      path: CREATE_ENTRY_PATH,
+      fn: createEntryHandler(tlog, opts),
+    },
+    { method: 'GET', path: GET_ENTRY_PATH, fn: getEntryHandler(tlog) },
+    { method: 'GET', path: LOG_INFO_PATH, fn: getLogInfoHandler(tlog) },
+    {
+      method: 'GET',
+      path: CONSISTENCY_PROOF_PATH,
+      fn: getConsistencyProofHandler(tlog),
+    },
+  ];
 }
 
 function createEntryHandler(tlog: TLog, opts: RekorHandlerOptions): HandlerFn {
@@ -40,7 +76,7 @@ function createEntryHandler(tlog: TLog, opts: RekorHandlerOptions): HandlerFn {
   return async (body: string): Promise<HandlerFnResult> => {
     try {
       const proposedEntry = strict
-        ? JSON.parse(body)
+        ? checkProposedEntry(JSON.parse(body))
         : { kind: 'intoto', apiVersion: '0.0.2' };
       const tlogEntry = await tlog.log(proposedEntry);
       const response = JSON.stringify(tlogEntry);
@@ -52,3 +88,152 @@ function createEntryHandler(tlog: TLog, opts: RekorHandlerOptions): HandlerFn {
     }
   };
 }
+
+function createEntryV2Handler(
+  tlog: TLog,
+  opts: RekorHandlerOptions
+): HandlerFn {
+  const strict = opts.strict ?? true;
+
+  return async (body: string): Promise<HandlerFnResult> => {
+    try {
+      const entry = strict
+        ? toEntryV2(JSON.parse(body))
+        : { kind: 'hashedrekord', apiVersion: '0.0.2', spec: {} };
+      const tlogEntry = await tlog.logV2(entry);
+      const response = JSON.stringify(tlogEntry);
+
+      return { statusCode: 201, response, contentType: 'application/json' };
+    } catch (e) {
+      assert(e instanceof Error);
+      return { statusCode: 400, response: e.message };
+    }
+  };
+}
+
+function getEntryHandler(tlog: TLog): HandlerFn {
+  return async (_: string, uri?: string): Promise<HandlerFnResult> => {
+    const url = parseURI(uri);
+    const uuid = url.pathname.split('/entries/')[1];
+    const logIndex = url.searchParams.get('logIndex');
+
+    let id: string | number;
+    if (uuid) {
+      id = uuid;
+    } else if (logIndex && /^\d+$/.test(logIndex)) {
+      id = Number(logIndex);
+    } else {
+      return { statusCode: 400, response: 'missing entry UUID or log index' };
+    }
+
+    const entry = await tlog.getEntry(id);
+    if (!entry) {
+      return { statusCode: 404, response: 'entry not found' };
+    }
+
+    return {
+      statusCode: 200,
+      response: JSON.stringify(entry),
+      contentType: 'application/json',
+    };
+  };
+}
+
+function getLogInfoHandler(tlog: TLog): HandlerFn {
+  return async (): Promise<HandlerFnResult> => {
+    const logInfo = await tlog.getLogInfo();
+    return {
+      statusCode: 200,
+      response: JSON.stringify(logInfo),
+      contentType: 'application/json',
+    };
+  };
+}
+
+function getConsistencyProofHandler(tlog: TLog): HandlerFn {
+  return async (_: string, uri?: string): Promise<HandlerFnResult> => {
+    const { searchParams } = parseURI(uri);
+    const firstSize = Number(searchParams.get('firstSize') || '1');
+    const lastSize = Number(searchParams.get('lastSize'));
+
+    try {
+      const proof = await tlog.getConsistencyProof(firstSize, lastSize);
+      return {
+        statusCode: 200,
+        response: JSON.stringify(proof),
+        contentType: 'application/json',
+      };
+    } catch (e) {
+      assert(e instanceof Error);
+      return { statusCode: 400, response: e.message };
+    }
+  };
+}
+
+// Rejects the entries which Rekor v1 refuses to log. Ed25519 signatures can't
+// be verified against the digest in a hashedrekord entry.
+function checkProposedEntry(entry: ProposedEntry): ProposedEntry {
+  const key =
+    entry.kind === 'hashedrekord'
+      ? entry.spec?.signature?.publicKey?.content
+      : undefined;
+
+  if (
+    key &&
+    crypto.createPublicKey(Buffer.from(key, 'base64')).asymmetricKeyType ===
+      'ed25519'
+  ) {
+    throw new Error('ed25519 keys are not supported for hashedrekord');
+  }
+
+  return entry;
+}
+
+// The URI is relative to the server so a placeholder base is required to
+// parse it
+function parseURI(uri = '/'): URL {
+  return new URL(uri, 'http://localhost');
+}
+
+// Converts a Rekor v2 create-entry request into the canonicalized body of the
+// resulting log entry
+function toEntryV2(request: CreateEntryRequest): EntryV002 {
+  if ('hashedRekordRequestV002' in request) {
+    const { digest, signature } = request.hashedRekordRequestV002;
+    return {
+      apiVersion: '0.0.2',
+      kind: 'hashedrekord',
+      spec: {
+        hashedRekordV002: {
+          data: { algorithm: 'SHA2_256', digest },
+          signature,
+        },
+      },
+    };
+  }
+
+  if ('dsseRequestV002' in request) {
+    const { envelope, verifiers } = request.dsseRequestV002;
+    const payloadHash = crypto
+      .createHash('sha256')
+      .update(Buffer.from(envelope.payload, 'base64'))
+      .digest('base64');
+
+    return {
+      apiVersion: '0.0.2',
+      kind: 'dsse',
+      spec: {
+        dsseV002: {
+          payloadHash: { algorithm: 'SHA2_256', digest: payloadHash },
+          // Signatures are paired with the verifier at the same position
+          signatures: envelope.signatures.map((sig, i) => ({
+            content: sig.sig,
+            verifier: verifiers[i],
+          })),
+        },
+      },
+    };
+  }
+
+  throw new Error('unsupported entry type');
+}
@@ -0,0 +1,206 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto from 'crypto';
+import { MerkleTree } from './merkle';
+
+describe('MerkleTree', () => {
+  const leafHash = (data: Buffer) => hash(Buffer.from([0x00]), data);
+  const nodeHash = (left: Buffer, right: Buffer) =>
+    hash(Buffer.from([0x01]), left, right);
+
+  const leaves = [...Array(9).keys()].map((i) => Buffer.from(`leaf-${i}`));
+
+  const subject = new MerkleTree();
+  leaves.forEach((leaf) => subject.append(leaf));
+
+  describe('#append', () => {
+    it('returns the leaf hash', () => {
+      const tree = new MerkleTree();
+      expect(tree.append(leaves[0])).toEqual(leafHash(leaves[0]));
+      expect(tree.size).toBe(1);
+    });
+  });
+
+  describe('#rootHash', () => {
+    it('returns the hash of the empty string for an empty tree', () => {
+      expect(new MerkleTree().rootHash()).toEqual(hash());
+    });
+
+    it('returns the root hash for the current size', () => {
+      // Tree of 3 leaves -- the right subtree is the lone third leaf
+      const [a, b, c] = leaves.map(leafHash);
+      expect(subject.rootHash(3)).toEqual(nodeHash(nodeHash(a, b), c));
+      expect(subject.rootHash()).toEqual(subject.rootHash(leaves.length));
+    });
+
+    it('throws when the size exceeds the tree size', () => {
+      expect(() => subject.rootHash(10)).toThrow('invalid tree size: 10');
+    });
+  });
+
+  describe('#inclusionProof', () => {
+    it('returns verifiable proofs for every leaf and tree size', () => {
+      for (let size = 1; size <= leaves.length; size++) {
+        for (let index = 0; index < size; index++) {
+          const proof = subject.inclusionProof(index, size);
+          const root = rootFromInclusionProof(
+            index,
+            size,
+            leafHash(leaves[index]),
+            proof
+          );
+          expect(root).toEqual(subject.rootHash(size));
+        }
+      }
+    });
+
+    it('returns an empty proof for a single-leaf tree', () => {
+      expect(subject.inclusionProof(0, 1)).toEqual([]);
+    });
+
+    it('throws when the index is out of range', () => {
+      expect(() => subject.inclusionProof(3, 3)).toThrow(
+        'invalid leaf index: 3'
+      );
+      expect(() => subject.inclusionProof(-1)).toThrow(
+        'invalid leaf index: -1'
+      );
+    });
+  });
+
+  describe('#consistencyProof', () => {
+    it('returns verifiable proofs for every pair of tree sizes', () => {
+      for (let second = 1; second <= leaves.length; second++) {
+        for (let first = 1; first <= second; first++) {
+          const proof = subject.consistencyProof(first, second);
+          expect(
+            verifyConsistency(
+              first,
+              second,
+              subject.rootHash(first),
+              subject.rootHash(second),
+              proof
+            )
+          ).toBe(true);
+        }
+      }
+    });
+
+    it('defaults to the current tree size', () => {
+      expect(subject.consistencyProof(4)).toEqual(
+        subject.consistencyProof(4, leaves.length)
+      );
+    });
+
+    it('throws when the first size is out of range', () => {
+      expect(() => subject.consistencyProof(0, 4)).toThrow(
+        'invalid tree size: 0'
+      );
+      expect(() => subject.consistencyProof(5, 4)).toThrow(
+        'invalid tree size: 5'
+      );
+    });
+
+    it('throws when the second size exceeds the tree size', () => {
+      expect(() => subject.consistencyProof(1, 10)).toThrow(
+        'invalid tree size: 10'
+      );
+    });
+  });
+
+  function hash(...data: Buffer[]): Buffer {
+    const hasher = crypto.createHash('sha256');
+    data.forEach((d) => hasher.update(d));
+    return hasher.digest();
+  }
+
+  // Inclusion proof verification from RFC 9162 section 2.1.3.2
+  function rootFromInclusionProof(
+    index: number,
+    size: number,
+    leaf: Buffer,
+    proof: Buffer[]
+  ): Buffer {
+    let fn = index;
+    let sn = size - 1;
+    let r = leaf;
+    for (const p of proof) {
+      if (sn === 0) {
+        throw new Error('proof too long');
+      }
+      if (fn % 2 === 1 || fn === sn) {
+        r = nodeHash(p, r);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn >>= 1;
+          sn >>= 1;
+        }
+      } else {
+        r = nodeHash(r, p);
+      }
+      fn >>= 1;
+      sn >>= 1;
+    }
+    expect(sn).toBe(0);
+    return r;
+  }
+
+  // Consistency proof verification from RFC 9162 section 2.1.4.2
+  function verifyConsistency(
+    first: number,
+    second: number,
+    firstHash: Buffer,
+    secondHash: Buffer,
+    proof: Buffer[]
+  ): boolean {
+    if (first === second) {
+      return proof.length === 0 && firstHash.equals(secondHash);
+    }
+
+    const path = isPowerOfTwo(first) ? [firstHash, ...proof] : [...proof];
+    let fn = first - 1;
+    let sn = second - 1;
+    while (fn % 2 === 1) {
+      fn >>= 1;
+      sn >>= 1;
+    }
+
+    let fr = path[0];
+    let sr = path[0];
+    for (const c of path.slice(1)) {
+      if (sn === 0) {
+        return false;
+      }
+      if (fn % 2 === 1 || fn === sn) {
+        fr = nodeHash(c, fr);
+        sr = nodeHash(c, sr);
+        while (fn % 2 === 0 && fn !== 0) {
+          fn >>= 1;
+          sn >>= 1;
+        }
+      } else {
+        sr = nodeHash(sr, c);
+      }
+      fn >>= 1;
+      sn >>= 1;
+    }
+
+    return fr.equals(firstHash) && sr.equals(secondHash) && sn === 0;
+  }
+
+  function isPowerOfTwo(n: number): boolean {
+    return (n & (n - 1)) === 0;
+  }
+});
@@ -0,0 +1,130 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto from 'crypto';
+
+const LEAF_HASH_PREFIX = Buffer.from([0x00]);
+const NODE_HASH_PREFIX = Buffer.from([0x01]);
+
+// Append-only Merkle tree as described in RFC 6962 section 2.1. Only the leaf
+// hashes are retained -- interior nodes are recomputed on demand, which is
+// plenty fast for the size of logs used in tests.
+export class MerkleTree {
+  private readonly leaves: Buffer[] = [];
+
+  get size(): number {
+    return this.leaves.length;
+  }
+
+  // Adds the data to the tree and returns the resulting leaf hash
+  public append(data: Buffer): Buffer {
+    const leafHash = hash(LEAF_HASH_PREFIX, data);
+    this.leaves.push(leafHash);
+    return leafHash;
+  }
+
+  // Returns the root hash of the tree comprised of the first `size` leaves
+  public rootHash(size = this.size): Buffer {
+    this.assertSize(size);
+    return size === 0 ? hash() : this.subtreeHash(0, size);
+  }
+
+  // Returns the audit path for the leaf at the given index in the tree
+  // comprised of the first `size` leaves (RFC 6962 section 2.1.1)
+  public inclusionProof(index: number, size = this.size): Buffer[] {
+    this.assertSize(size);
+    if (!Number.isInteger(index) || index < 0 || index >= size) {
+      throw new Error(`invalid leaf index: ${index}`);
+    }
+    return this.path(index, 0, size);
+  }
+
+  // Returns the proof that the tree of size `first` is a prefix of the tree of
+  // size `second` (RFC 6962 section 2.1.2)
+  public consistencyProof(first: number, second = this.size): Buffer[] {
+    this.assertSize(second);
+    if (!Number.isInteger(first) || first < 1 || first > second) {
+      throw new Error(`invalid tree size: ${first}`);
+    }
+    return first === second ? [] : this.subproof(first, 0, second, true);
+  }
+
+  // MTH(D[start:end])
+  private subtreeHash(start: number, end: number): Buffer {
+    if (end - start === 1) {
+      return this.leaves[start];
+    }
+    const mid = start + split(end - start);
+    return hash(
+      NODE_HASH_PREFIX,
+      this.subtreeHash(start, mid),
+      this.subtreeHash(mid, end)
+    );
+  }
+
+  // PATH(m, D[start:end])
+  private path(index: number, start: number, end: number): Buffer[] {
+    if (end - start === 1) {
+      return [];
+    }
+    const mid = start + split(end - start);
+    return index < mid
+      ? [...this.path(index, start, mid), this.subtreeHash(mid, end)]
+      : [...this.path(index, mid, end), this.subtreeHash(start, mid)];
+  }
+
+  // SUBPROOF(m, D[start:end], b)
+  private subproof(
+    size: number,
+    start: number,
+    end: number,
+    complete: boolean
+  ): Buffer[] {
+    if (size === end - start) {
+      return complete ? [] : [this.subtreeHash(start, end)];
+    }
+    const k = split(end - start);
+    return size <= k
+      ? [
+          ...this.subproof(size, start, start + k, complete),
+          this.subtreeHash(start + k, end),
+        ]
+      : [
+          ...this.subproof(size - k, start + k, end, false),
+          this.subtreeHash(start, start + k),
+        ];
+  }
+
+  private assertSize(size: number): void {
+    if (!Number.isInteger(size) || size < 0 || size > this.size) {
+      throw new Error(`invalid tree size: ${size}`);
+    }
+  }
+}
+
+// Largest power of two smaller than n
+function split(n: number): number {
+  let k = 1;
+  while (k * 2 < n) {
+    k *= 2;
+  }
+  return k;
+}
+
+function hash(...data: Buffer[]): Buffer {
+  const hasher = crypto.createHash('sha256');
+  data.forEach((d) => hasher.update(d));
+  return hasher.digest();
+}
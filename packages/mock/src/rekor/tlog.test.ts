@@ -14,6 +14,7 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
+import canonicalize from 'canonicalize';
 import crypto from 'crypto';
 import { generateKeyPair } from '../util/key';
 import { initializeTLog } from './tlog';
@@ -53,7 +54,7 @@ describe('TLog', () => {
       );
       expect(entry.integratedTime).toBeGreaterThan(0);
       expect(entry.logID).toEqual(logID);
-      expect(entry.logIndex).toBeGreaterThan(0);
+      expect(entry.logIndex).toBe(0);
       expect(entry.verification).toBeDefined();
       expect(entry.verification?.signedEntryTimestamp).toBeDefined();
       expect(entry.verification?.inclusionProof).toBeDefined();
@@ -63,5 +64,180 @@ describe('TLog', () => {
       expect(entry.verification?.inclusionProof?.hashes).toHaveLength(0);
       expect(entry.verification?.inclusionProof?.checkpoint).toBeDefined();
     });
+
+    it('appends entries to the log', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      await subject.log({ foo: 'bar' });
+      const result = await subject.log({ foo: 'baz' });
+
+      const entry = Object.values(result)[0];
+      const proof = entry.verification?.inclusionProof;
+      expect(entry.logIndex).toBe(1);
+      expect(proof?.logIndex).toBe(1);
+      expect(proof?.treeSize).toBe(2);
+      expect(proof?.hashes).toEqual([
+        leafHash(Buffer.from(canonicalize({ foo: 'bar' })!)).toString('hex'),
+      ]);
+      expect(proof?.checkpoint).toContain(
+        `\n2\n${Buffer.from(proof!.rootHash, 'hex').toString('base64')}\n`
+      );
+    });
+  });
+
+  describe('#logV2', () => {
+    it('returns an entry with an inclusion proof', async () => {
+      const entry = { kind: 'hashedrekord', apiVersion: '0.0.2' };
+      const subject = await initializeTLog(url, keyPair);
+      const result = await subject.logV2(entry);
+
+      const logID = crypto
+        .createHash('sha256')
+        .update(subject.publicKey)
+        .digest()
+        .toString('base64');
+
+      expect(
+        JSON.parse(Buffer.from(result.canonicalizedBody, 'base64').toString())
+      ).toEqual(entry);
+      expect(result.kindVersion).toEqual({
+        kind: 'hashedrekord',
+        version: '0.0.2',
+      });
+      expect(result.integratedTime).toBe('0');
+      expect(result.logId.keyId).toEqual(logID);
+      expect(Number(result.logIndex)).toBeGreaterThanOrEqual(0);
+      expect(result.inclusionProof.logIndex).toBe('0');
+      expect(result.inclusionProof.treeSize).toBe('1');
+      expect(result.inclusionProof.hashes).toHaveLength(0);
+      expect(result.inclusionProof.rootHash).toEqual(
+        crypto
+          .createHash('sha256')
+          .update(Buffer.from([0x00]))
+          .update(Buffer.from(result.canonicalizedBody, 'base64'))
+          .digest('base64')
+      );
+      expect(result.inclusionProof.checkpoint.envelope).toMatch(
+        /^tlog\.sigstore\.dev\n1\n/
+      );
+    });
+
+    it('returns base64-encoded proof hashes', async () => {
+      const entry = { kind: 'hashedrekord', apiVersion: '0.0.2' };
+      const subject = await initializeTLog(url, keyPair);
+      const first = await subject.logV2(entry);
+      const result = await subject.logV2(entry);
+
+      expect(result.logIndex).toBe('1');
+      expect(result.inclusionProof.treeSize).toBe('2');
+      expect(result.inclusionProof.hashes).toEqual([
+        leafHash(Buffer.from(first.canonicalizedBody, 'base64')).toString(
+          'base64'
+        ),
+      ]);
+    });
+  });
+
+  describe('#getEntry', () => {
+    it('returns the entry by UUID with a proof for the current tree', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      const logged = await subject.log({ foo: 'bar' });
+      await subject.log({ foo: 'baz' });
+
+      const uuid = Object.keys(logged)[0];
+      const result = await subject.getEntry(uuid);
+
+      expect(result).toBeDefined();
+      expect(result![uuid].logIndex).toBe(0);
+      expect(result![uuid].body).toEqual(logged[uuid].body);
+      expect(result![uuid].verification?.signedEntryTimestamp).toEqual(
+        logged[uuid].verification?.signedEntryTimestamp
+      );
+      expect(result![uuid].verification?.inclusionProof?.treeSize).toBe(2);
+    });
+
+    it('returns the entry by entry ID', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      const logged = await subject.log({ foo: 'bar' });
+      const uuid = Object.keys(logged)[0];
+
+      const result = await subject.getEntry(`0123456789abcdef${uuid}`);
+      expect(Object.keys(result!)).toEqual([uuid]);
+    });
+
+    it('returns the entry by log index', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      await subject.log({ foo: 'bar' });
+      const logged = await subject.log({ foo: 'baz' });
+
+      const result = await subject.getEntry(1);
+      expect(Object.keys(result!)).toEqual(Object.keys(logged));
+    });
+
+    it('returns Rekor v2 entries without a SET', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      await subject.logV2({ kind: 'hashedrekord', apiVersion: '0.0.2' });
+
+      const result = await subject.getEntry(0);
+      const entry = Object.values(result!)[0];
+      expect(entry.integratedTime).toBe(0);
+      expect(entry.verification?.signedEntryTimestamp).toBeUndefined();
+    });
+
+    it('returns undefined for unknown entries', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      await subject.log({ foo: 'bar' });
+
+      await expect(subject.getEntry('deadbeef')).resolves.toBeUndefined();
+      await expect(subject.getEntry(1)).resolves.toBeUndefined();
+    });
   });
+
+  describe('#getLogInfo', () => {
+    it('returns the current state of the log', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      const logged = await subject.log({ foo: 'bar' });
+      const proof = Object.values(logged)[0].verification?.inclusionProof;
+
+      const result = await subject.getLogInfo();
+      expect(result.treeSize).toBe(1);
+      expect(result.rootHash).toEqual(proof?.rootHash);
+      expect(result.treeID).toMatch(/^\d+$/);
+      expect(result.signedTreeHead).toMatch(
+        new RegExp(`^tlog\\.sigstore\\.dev - ${result.treeID}\\n1\\n`)
+      );
+    });
+  });
+
+  describe('#getConsistencyProof', () => {
+    it('returns a proof between the tree sizes', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      const first = await subject.log({ foo: 'bar' });
+      await subject.log({ foo: 'baz' });
+      const logInfo = await subject.getLogInfo();
+
+      const result = await subject.getConsistencyProof(1, 2);
+      expect(result.rootHash).toEqual(logInfo.rootHash);
+      expect(result.hashes).toHaveLength(1);
+      expect(result.hashes[0]).not.toEqual(
+        Object.values(first)[0].verification?.inclusionProof?.rootHash
+      );
+    });
+
+    it('rejects invalid tree sizes', async () => {
+      const subject = await initializeTLog(url, keyPair);
+      await subject.log({ foo: 'bar' });
+
+      await expect(subject.getConsistencyProof(1, 2)).rejects.toThrow(
+        'invalid tree size: 2'
+      );
+    });
+  });
+
+  function leafHash(data: Buffer): Buffer {
+    return crypto
+      .createHash('sha256')
+      .update(Buffer.from([0x00]))
+      .update(data)
+      .digest();
+  }
 });
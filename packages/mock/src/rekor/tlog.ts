@@ -14,19 +14,46 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
-import { LogEntry } from '@sigstore/rekor-types';
+import type {
+  ConsistencyProof,
+  LogEntry,
+  LogInfo,
+  TransparencyLogEntryV2,
+} from '@sigstore/rekor-types';
 import canonicalize from 'canonicalize';
 import crypto from 'crypto';
+import { MerkleTree } from './merkle';
 
 type InclusionProof = NonNullable<
-  LogEntry['x']['verification']
->['inclusionProof'];
+  NonNullable<LogEntry['x']['verification']>['inclusionProof']
+>;
 
 export interface TLog {
   publicKey: Buffer;
   log(proposedEntry: object): Promise<LogEntry>;
+  // Records the canonicalized body of a Rekor v2 entry
+  logV2(entry: {
+    kind: string;
+    apiVersion: string;
+  }): Promise<TransparencyLogEntryV2>;
+  // Looks up an entry by UUID or log index. The entry is returned with an
+  // inclusion proof against the current state of the log.
+  getEntry(id: string | number): Promise<LogEntry | undefined>;
+  getLogInfo(): Promise<LogInfo>;
+  getConsistencyProof(
+    firstSize: number,
+    lastSize: number
+  ): Promise<ConsistencyProof>;
 }
 
+type StoredEntry = {
+  uuid: string;
+  body: Buffer;
+  integratedTime: number;
+  // Signed Entry Timestamp -- not issued for Rekor v2 entries
+  set?: Buffer;
+};
+
 export async function initializeTLog(
   url: string,
   keyPair: crypto.KeyPairKeyObjectResult,
@@ -43,6 +70,10 @@ class TLogImpl implements TLog {
   private readonly privateKey: crypto.KeyObject;
   private readonly getCurrentTime: () => number;
   private readonly host: string;
+  private readonly logID: Buffer;
+  private readonly treeID: string;
+  private readonly tree = new MerkleTree();
+  private readonly entries: StoredEntry[] = [];
 
   constructor(
     host: string,
@@ -54,29 +85,109 @@ class TLogImpl implements TLog {
     this.privateKey = privateKey;
     this.publicKey = publicKey.export({ format: 'der', type: 'spki' });
     this.getCurrentTime = () => (clock || new Date()).getTime();
+    this.logID = crypto.createHash('sha256').update(this.publicKey).digest();
+    this.treeID = crypto.randomInt(2 ** 48 - 1).toString();
   }
 
   public async log(proposedEntry: object): Promise<LogEntry> {
-    const logID = crypto.createHash('sha256').update(this.publicKey).digest();
-    const logIndex = crypto.randomInt(10_000_000);
+    const logIndex = this.tree.size;
     const timestamp = Math.floor(this.getCurrentTime() / 1000);
     const body = Buffer.from(canonicalize(proposedEntry)!);
+    const set = this.calculateSET({ body, timestamp, logIndex });
+
+    this.append({ body, integratedTime: timestamp, set });
+    return this.toLogEntry(logIndex);
+  }
 
-    const entry = { logID, logIndex, timestamp, body };
-    const set = this.calculateSET(entry);
-    const proof = this.calculateInclusionProof(entry);
+  // Rekor v2 entries carry no SET and no integrated time -- only an inclusion
+  // proof and checkpoint
+  public async logV2(entry: {
+    kind: string;
+    apiVersion: string;
+  }): Promise<TransparencyLogEntryV2> {
+    const logIndex = this.tree.size;
+    const body = Buffer.from(canonicalize(entry)!);
 
-    const uuid = crypto.randomBytes(32).toString('hex');
+    this.append({ body, integratedTime: 0 });
+
+    // Rekor v2 checkpoints use the bare host name as the origin
+    const proof = this.calculateInclusionProof(logIndex, this.host);
+
+    return {
+      logIndex: logIndex.toString(),
+      logId: { keyId: this.logID.toString('base64') },
+      kindVersion: { kind: entry.kind, version: entry.apiVersion },
+      integratedTime: '0',
+      inclusionProof: {
+        logIndex: proof.logIndex.toString(),
+        rootHash: Buffer.from(proof.rootHash, 'hex').toString('base64'),
+        treeSize: proof.treeSize.toString(),
+        hashes: proof.hashes.map((h) =>
+          Buffer.from(h, 'hex').toString('base64')
+        ),
+        checkpoint: { envelope: proof.checkpoint },
+      },
+      canonicalizedBody: body.toString('base64'),
+    };
+  }
+
+  // Entries may be looked up by their UUID alone or by the entry ID (the UUID
+  // prefixed with the tree ID)
+  public async getEntry(id: string | number): Promise<LogEntry | undefined> {
+    const logIndex =
+      typeof id === 'number'
+        ? id
+        : this.entries.findIndex((entry) => entry.uuid === id.slice(-64));
+
+    return this.entries[logIndex] ? this.toLogEntry(logIndex) : undefined;
+  }
+
+  public async getLogInfo(): Promise<LogInfo> {
+    const treeSize = this.tree.size;
+    const rootHash = this.tree.rootHash(treeSize);
+
+    return {
+      rootHash: rootHash.toString('hex'),
+      treeSize,
+      signedTreeHead: this.calculateCheckpoint(this.origin, treeSize, rootHash),
+      treeID: this.treeID,
+    };
+  }
+
+  public async getConsistencyProof(
+    firstSize: number,
+    lastSize: number
+  ): Promise<ConsistencyProof> {
+    const hashes = this.tree.consistencyProof(firstSize, lastSize);
+
+    return {
+      rootHash: this.tree.rootHash(lastSize).toString('hex'),
+      hashes: hashes.map((h) => h.toString('hex')),
+    };
+  }
+
+  // Checkpoint origin for the Rekor v1 API
+  private get origin(): string {
+    return `${this.host} - ${this.treeID}`;
+  }
+
+  private append(entry: Omit<StoredEntry, 'uuid'>): void {
+    const leafHash = this.tree.append(entry.body);
+    this.entries.push({ ...entry, uuid: leafHash.toString('hex') });
+  }
+
+  private toLogEntry(logIndex: number): LogEntry {
+    const { uuid, body, integratedTime, set } = this.entries[logIndex];
 
     return {
       [uuid]: {
         body: body.toString('base64'),
-        integratedTime: timestamp,
-        logID: logID.toString('hex'),
-        logIndex: logIndex,
+        integratedTime,
+        logID: this.logID.toString('hex'),
+        logIndex,
         verification: {
-          inclusionProof: proof,
-          signedEntryTimestamp: set.toString('base64'),
+          inclusionProof: this.calculateInclusionProof(logIndex, this.origin),
+          signedEntryTimestamp: set?.toString('base64'),
         },
       },
     };
@@ -88,47 +199,52 @@ class TLogImpl implements TLog {
     body,
     timestamp,
     logIndex,
-    logID,
   }: {
     body: Buffer;
     timestamp: number;
     logIndex: number;
-    logID: Buffer;
   }): Buffer {
     const setData = {
       body: body.toString('base64'),
       integratedTime: timestamp,
       logIndex: logIndex,
-      logID: logID.toString('hex'),
+      logID: this.logID.toString('hex'),
     };
     const setBuffer = Buffer.from(canonicalize(setData)!, 'utf8');
     return crypto.sign('sha256', setBuffer, this.privateKey);
   }
 
-  // Calculate inclusion proof assuming that the entry being added is the
-  // first and only entry in the log.
-  // https://github.com/sigstore/rekor/blob/2bd83dacf5a302da83ab4eaf20ff7ad119cb6c11/pkg/util/signed_note.go
-  private calculateInclusionProof({
-    body,
-    timestamp,
-    logID,
-  }: {
-    body: Buffer;
-    timestamp: number;
-    logID: Buffer;
-  }): InclusionProof {
-    const treeSize = 1;
-    const treeID = crypto.randomInt(2 ** 48 - 1);
+  // Calculate the inclusion proof for the entry against the current size of
+  // the log
+  private calculateInclusionProof(
+    logIndex: number,
+    origin: string
+  ): InclusionProof {
+    const treeSize = this.tree.size;
+    const rootHash = this.tree.rootHash(treeSize);
+    const hashes = this.tree.inclusionProof(logIndex, treeSize);
 
-    const rootHash = crypto
-      .createHash('sha256')
-      .update(Buffer.from([0x00]))
-      .update(body)
-      .digest();
+    return {
+      logIndex,
+      treeSize,
+      checkpoint: this.calculateCheckpoint(origin, treeSize, rootHash),
+      hashes: hashes.map((h) => h.toString('hex')),
+      rootHash: rootHash.toString('hex'),
+    };
+  }
+
+  // Construct a signed checkpoint for the given tree state.
+  // https://github.com/sigstore/rekor/blob/2bd83dacf5a302da83ab4eaf20ff7ad119cb6c11/pkg/util/signed_note.go
+  private calculateCheckpoint(
+    origin: string,
+    treeSize: number,
+    rootHash: Buffer
+  ): string {
+    const timestamp = Math.floor(this.getCurrentTime() / 1000);
 
     // Construct checkpoint note
     const note = [
-      `${this.host} - ${treeID}`,
+      origin,
       `${treeSize}`,
       rootHash.toString('base64'),
       `Timestamp: ${timestamp * 1_000_000_000}`,
@@ -137,18 +253,10 @@ class TLogImpl implements TLog {
 
     // Calculate checkpoint signature
     const sig = crypto.sign('sha256', Buffer.from(note), this.privateKey);
-    const hintAndSig = Buffer.concat([logID.subarray(0, 4), sig]);
+    const hintAndSig = Buffer.concat([this.logID.subarray(0, 4), sig]);
     const sigLine = `\u2014 ${this.host} ${hintAndSig.toString('base64')}`;
 
     // Assemble checkpoint from note and signature
-    const checkpoint = [note, sigLine, ''].join('\n');
-
-    return {
-      logIndex: 0,
-      treeSize: treeSize,
-      checkpoint,
-      hashes: [],
-      rootHash: rootHash.toString('hex'),
-    };
+    return [note, sigLine, ''].join('\n');
   }
 }
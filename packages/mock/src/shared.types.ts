@@ -19,9 +19,17 @@ export type HandlerFnResult = {
   response: string | Buffer;
   contentType?: string;
 };
-export type HandlerFn = (request: string) => Promise<HandlerFnResult>;
+// The request URI (path and query string) is supplied so that handlers can
+// read any parameters encoded in it
+export type HandlerFn = (
+  request: string,
+  uri?: string
+) => Promise<HandlerFnResult>;
 
 export type Handler = {
-  path: string;
+  // HTTP method of the endpoint. Defaults to POST.
+  method?: 'GET' | 'POST';
+  // Paths containing parameters are matched with a RegExp
+  path: string | RegExp;
   fn: HandlerFn;
 };
@@ -15,6 +15,8 @@ limitations under the License.
 */
 
 import { fromPartial } from '@total-typescript/shoehorn';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
 import { generateKeyPair } from '../util/key';
 import { tsaHandler } from './handler';
 import { initializeTSA, TSA } from './tsa';
@@ -73,5 +75,87 @@ describe('tsaHandler', () => {
         });
       });
     });
+
+    describe('when the protocol is rfc3161', () => {
+      const artifactHash = Buffer.alloc(32, 0xab);
+
+      const query = (
+        hashAlgorithmOID: string,
+        opts: { nonce?: bigint; policy?: string; certReq?: boolean } = {}
+      ): Buffer => {
+        const req = new pkijs.TimeStampReq({
+          version: 1,
+          messageImprint: new pkijs.MessageImprint({
+            hashAlgorithm: new pkijs.AlgorithmIdentifier({
+              algorithmId: hashAlgorithmOID,
+            }),
+            hashedMessage: new asn1js.OctetString({ valueHex: artifactHash }),
+          }),
+          reqPolicy: opts.policy,
+          certReq: opts.certReq,
+        });
+        // Setting an undefined nonce in the constructor encodes an empty
+        // INTEGER, so it is only assigned when present
+        if (opts.nonce !== undefined) {
+          req.nonce = asn1js.Integer.fromBigInt(opts.nonce);
+        }
+        return Buffer.from(req.toSchema().toBER(false));
+      };
+
+      it('is served at the root of the TSA URL', async () => {
+        const tsa = await initializeTSA(keyPair);
+        expect(tsaHandler(tsa, { protocol: 'rfc3161' }).path).toEqual('/');
+      });
+
+      it('returns a timestamp', async () => {
+        const tsa = await initializeTSA(keyPair);
+        const { fn } = tsaHandler(tsa, { protocol: 'rfc3161' });
+
+        const nonce = BigInt('0x8badf00ddeadbeef');
+        const resp = await fn(
+          query('2.16.840.1.101.3.4.2.1', {
+            nonce,
+            policy: '1.2.3.4',
+            certReq: true,
+          }).toString('hex')
+        );
+        expect(resp.statusCode).toBe(201);
+        expect(resp.contentType).toBe('application/timestamp-reply');
+
+        const tsr = pkijs.TimeStampResp.fromBER(resp.response as Buffer);
+        expect(tsr.status.status).toBe(0);
+
+        const signedData = new pkijs.SignedData({
+          schema: tsr.timeStampToken?.content,
+        });
+        expect(signedData.certificates).toHaveLength(1);
+
+        const tstInfo = pkijs.TSTInfo.fromBER(
+          signedData.encapContentInfo.eContent!.valueBlock.valueHexView
+        );
+        expect(tstInfo.nonce?.toBigInt()).toEqual(nonce);
+        expect(tstInfo.policy).toEqual('1.2.3.4');
+        expect(
+          Buffer.from(
+            tstInfo.messageImprint.hashedMessage.valueBlock.valueHexView
+          )
+        ).toEqual(artifactHash);
+      });
+
+      it('rejects an unsupported hash algorithm', async () => {
+        const tsa = await initializeTSA(keyPair);
+        const { fn } = tsaHandler(tsa, { protocol: 'rfc3161' });
+
+        const resp = await fn(query('1.2.840.113549.2.5').toString('hex'));
+        expect(resp.statusCode).toBe(200);
+
+        const tsr = pkijs.TimeStampResp.fromBER(resp.response as Buffer);
+        expect(tsr.status.status).toBe(2);
+        expect(tsr.status.failInfo?.valueBlock.valueHexView).toEqual(
+          new Uint8Array([0x80])
+        );
+        expect(tsr.timeStampToken).toBeUndefined();
+      });
+    });
   });
 });
@@ -15,6 +15,8 @@ limitations under the License.
 */
 
 import assert from 'assert';
+import * as asn1js from 'asn1js';
+import * as pkijs from 'pkijs';
 import type { Handler, HandlerFn, HandlerFnResult } from '../shared.types';
 import type { TSA, TimestampRequest } from './tsa';
 
@@ -27,24 +29,57 @@ const OID_TSA_POLICY = '1.3.6.1.4.1.57264.2';
 const DEFAULT_NONCE = 1234567890;
 
 const CREATE_TIMESTAMP_PATH = '/api/v1/timestamp';
+const CREATE_TIMESTAMP_QUERY_PATH = '/';
+
+const SUPPORTED_HASH_ALGORITHMS = [
+  OID_SHA256_ALGO_ID,
+  OID_SHA384_ALGO_ID,
+  OID_SHA512_ALGO_ID,
+];
+
+// PKIStatus and PKIFailureInfo values from RFC 3161 section 2.4.2
+const PKI_STATUS_REJECTION = 2;
+const PKI_FAILURE_BAD_ALG = 0;
+
+// The TSA can accept either the JSON request format supported by the
+// Sigstore timestamp-authority or a DER-encoded RFC 3161 TimeStampReq
+// (application/timestamp-query)
+export type TSAProtocol = 'json' | 'rfc3161';
 
 interface TSAHandlerOptions {
   strict?: boolean;
+  protocol?: TSAProtocol;
 }
 
+// The JSON API is served at the Sigstore timestamp-authority's path while RFC
+// 3161 requests are accepted at the root of the TSA's URL
 export function tsaHandler(tsa: TSA, opts: TSAHandlerOptions = {}): Handler {
   return {
-    path: CREATE_TIMESTAMP_PATH,
+    path:
+      opts.protocol === 'rfc3161'
+        ? CREATE_TIMESTAMP_QUERY_PATH
+        : CREATE_TIMESTAMP_PATH,
     fn: createTimestampHandler(tsa, opts),
   };
 }
 
 function createTimestampHandler(tsa: TSA, opts: TSAHandlerOptions): HandlerFn {
   const strict = opts.strict ?? true;
+  const parse = opts.protocol === 'rfc3161' ? parseQuery : parseRequest;
 
   return async (body: string): Promise<HandlerFnResult> => {
     try {
-      const tsr = strict ? parseRequest(body) : stubRequest();
+      const tsr = strict ? parse(body) : stubRequest();
+
+      // RFC 3161 TSAs report errors in the status of the TimeStampResp
+      if (!SUPPORTED_HASH_ALGORITHMS.includes(tsr.hashAlgorithmOID)) {
+        return {
+          statusCode: 200,
+          response: rejection(PKI_FAILURE_BAD_ALG),
+          contentType: 'application/timestamp-reply',
+        };
+      }
+
       const timestamp = await tsa.timestamp(tsr);
 
       return {
@@ -72,6 +107,42 @@ function parseRequest(body: string): TimestampRequest {
   };
 }
 
+// Parses a DER-encoded TimeStampReq. Nock hands request bodies which are not
+// valid UTF-8 to the handler as a hex string. The encoded hash algorithm OID
+// always makes a TimeStampReq invalid UTF-8.
+function parseQuery(body: string): TimestampRequest {
+  const req = pkijs.TimeStampReq.fromBER(Buffer.from(body, 'hex'));
+
+  return {
+    artifactHash: Buffer.from(
+      req.messageImprint.hashedMessage.valueBlock.valueHexView
+    ),
+    hashAlgorithmOID: req.messageImprint.hashAlgorithm.algorithmId,
+    nonce: req.nonce?.toBigInt() ?? DEFAULT_NONCE,
+    policyOID: req.reqPolicy || OID_TSA_POLICY,
+    certReq: req.certReq ?? false,
+  };
+}
+
+// Builds a TimeStampResp which rejects the request with the given failure
+function rejection(failure: number): Buffer {
+  // Bits are numbered from the most significant bit of the first byte
+  const bits = Buffer.alloc(Math.floor(failure / 8) + 1);
+  bits[bits.length - 1] = 0x80 >> failure % 8;
+
+  const response = new pkijs.TimeStampResp({
+    status: new pkijs.PKIStatusInfo({
+      status: PKI_STATUS_REJECTION,
+      failInfo: new asn1js.BitString({
+        valueHex: bits,
+        unusedBits: 7 - (failure % 8),
+      }),
+    }),
+  });
+
+  return Buffer.from(response.toSchema().toBER(false));
+}
+
 function stubRequest(): TimestampRequest {
   return {
     artifactHash: Buffer.from('deadbeef', 'hex'),
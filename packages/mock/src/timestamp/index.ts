@@ -16,4 +16,6 @@ limitations under the License.
 */
 
 export { tsaHandler } from './handler';
+export type { TSAProtocol } from './handler';
 export { TSA, initializeTSA } from './tsa';
+export type { TSATimestampOptions } from './tsa';
@@ -14,12 +14,30 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 
+import * as asn1js from 'asn1js';
 import * as pkijs from 'pkijs';
 import { generateKeyPair } from '../util/key';
 import { initializeTSA, TimestampRequest } from './tsa';
 
 const OID_TSA_POLICY = '1.3.6.1.4.1.57264.2';
 const OID_SHA256_ALGO_ID = '2.16.840.1.101.3.4.2.1';
+const OID_EKU = '2.5.29.37';
+const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+
+// Unpacks the SignedData and TSTInfo from a TimeStampResp
+function parseTimestamp(der: Buffer): {
+  signedData: pkijs.SignedData;
+  tstInfo: pkijs.TSTInfo;
+} {
+  const resp = pkijs.TimeStampResp.fromBER(der);
+  const signedData = new pkijs.SignedData({
+    schema: resp.timeStampToken!.content,
+  });
+  const eContent = signedData.encapContentInfo.eContent as asn1js.OctetString;
+  const tstInfo = pkijs.TSTInfo.fromBER(eContent.valueBlock.valueHexView);
+
+  return { signedData, tstInfo };
+}
 
 describe('TSA', () => {
   const keyPair = generateKeyPair('prime256v1');
@@ -54,6 +72,20 @@ describe('TSA', () => {
       expect(cert.subject.typesAndValues[1].value.valueBlock.value).toBe(
         'sigstore.mock'
       );
+      expect(cert.extensions?.map((ext) => ext.extnID)).toContain(OID_EKU);
+    });
+
+    describe('when the timeStamping EKU is disabled', () => {
+      it('returns a certificate without the EKU', async () => {
+        const tsa = await initializeTSA(keyPair, clock, {
+          timeStampingEKU: false,
+        });
+        const cert = pkijs.Certificate.fromBER(tsa.intCertificate);
+
+        expect(cert.extensions?.map((ext) => ext.extnID)).not.toContain(
+          OID_EKU
+        );
+      });
     });
   });
 
@@ -75,6 +107,43 @@ describe('TSA', () => {
       expect(timestamp.timeStampToken?.contentType).toBe(
         '1.2.840.113549.1.7.2'
       );
+
+      const { signedData, tstInfo } = parseTimestamp(result);
+      expect(tstInfo.accuracy?.seconds).toBe(1);
+      expect(
+        signedData.signerInfos[0].signedAttrs?.attributes.map((a) => a.type)
+      ).toContain(OID_SIGNING_CERTIFICATE_V2);
+    });
+
+    describe('when an accuracy is specified', () => {
+      it('returns a timestamp with the accuracy', async () => {
+        const tsa = await initializeTSA(keyPair, clock, { accuracy: 5 });
+        const { tstInfo } = parseTimestamp(await tsa.timestamp(request));
+
+        expect(tstInfo.accuracy?.seconds).toBe(5);
+      });
+    });
+
+    describe('when the accuracy is zero', () => {
+      it('returns a timestamp without the accuracy', async () => {
+        const tsa = await initializeTSA(keyPair, clock, { accuracy: 0 });
+        const { tstInfo } = parseTimestamp(await tsa.timestamp(request));
+
+        expect(tstInfo.accuracy).toBeUndefined();
+      });
+    });
+
+    describe('when the signing certificate attribute is disabled', () => {
+      it('returns a timestamp without the attribute', async () => {
+        const tsa = await initializeTSA(keyPair, clock, {
+          signingCertificate: false,
+        });
+        const { signedData } = parseTimestamp(await tsa.timestamp(request));
+
+        expect(
+          signedData.signerInfos[0].signedAttrs?.attributes.map((a) => a.type)
+        ).not.toContain(OID_SIGNING_CERTIFICATE_V2);
+      });
     });
   });
 });
@@ -48,14 +48,29 @@ export interface TSA {
 export interface TimestampRequest {
   artifactHash: Buffer;
   hashAlgorithmOID: string;
-  nonce: number;
+  nonce: number | bigint;
   policyOID: string;
   certReq?: boolean;
 }
 
+// Options for producing timestamps which deviate from a well-formed TSA
+// response. Useful for exercising the verification of TSA tokens.
+export interface TSATimestampOptions {
+  // Accuracy of the genTime in seconds. A value of 0 omits the accuracy field.
+  // Defaults to 1.
+  accuracy?: number;
+  // Whether the SigningCertificateV2 signed attribute is included. Defaults to
+  // true.
+  signingCertificate?: boolean;
+  // Whether the signing certificate carries the timeStamping EKU. Defaults to
+  // true.
+  timeStampingEKU?: boolean;
+}
+
 export async function initializeTSA(
   keyPair: KeyPairKeyObjectResult,
-  clock?: Date
+  clock?: Date,
+  options: TSATimestampOptions = {}
 ): Promise<TSA> {
   const cryptoKeyPair = {
     privateKey: await keyObjectToCryptoKey(keyPair.privateKey),
@@ -72,7 +87,8 @@ export async function initializeTSA(
     INT_NAME,
     ROOT_NAME,
     cryptoKeyPair,
-    SIGNING_ALGORITHM_ECDSA_SHA384
+    SIGNING_ALGORITHM_ECDSA_SHA384,
+    options.timeStampingEKU ?? true
   );
 
   return new TSAImpl({
@@ -80,6 +96,8 @@ export async function initializeTSA(
     intCertificate: pkijs.Certificate.fromBER(int.cert.rawData),
     keyPair: cryptoKeyPair,
     clock,
+    accuracy: options.accuracy ?? 1,
+    signingCertificate: options.signingCertificate ?? true,
   });
 }
 
@@ -88,6 +106,8 @@ interface TSAOptions {
   intCertificate: pkijs.Certificate;
   keyPair: CryptoKeyPair;
   clock?: Date;
+  accuracy: number;
+  signingCertificate: boolean;
 }
 
 class TSAImpl implements TSA {
@@ -95,11 +115,15 @@ class TSAImpl implements TSA {
   private intCert: pkijs.Certificate;
   private keyPair: CryptoKeyPair;
   private getCurrentTime: () => Date;
+  private accuracy: number;
+  private signingCertificate: boolean;
   private crypto: pkijs.ICryptoEngine;
   constructor(options: TSAOptions) {
     this.rootCert = options.rootCertificate;
     this.intCert = options.intCertificate;
     this.keyPair = options.keyPair;
+    this.accuracy = options.accuracy;
+    this.signingCertificate = options.signingCertificate;
     this.getCurrentTime = () => options.clock || new Date();
     this.crypto = new pkijs.CryptoEngine({
       crypto: new Crypto(),
@@ -139,7 +163,7 @@ class TSAImpl implements TSA {
 
   // Assemble the TSTInfo structure from the request
   private tstInfo(req: TimestampRequest): pkijs.TSTInfo {
-    return new pkijs.TSTInfo({
+    const tstInfo = new pkijs.TSTInfo({
       version: 1,
       policy: req.policyOID,
       messageImprint: new pkijs.MessageImprint({
@@ -152,9 +176,16 @@ class TSAImpl implements TSA {
         valueHex: Buffer.from('DEADBEEF', 'hex'),
       }),
       genTime: this.getCurrentTime(),
-      accuracy: new pkijs.Accuracy({ seconds: 1 }),
-      nonce: new asn1js.Integer({ value: req.nonce }),
+      nonce: asn1js.Integer.fromBigInt(req.nonce),
     });
+
+    // Assigned separately as pkijs encodes an undefined accuracy as an empty
+    // SEQUENCE
+    if (this.accuracy > 0) {
+      tstInfo.accuracy = new pkijs.Accuracy({ seconds: this.accuracy });
+    }
+
+    return tstInfo;
   }
 
   // Wrap the TSTInfo structure in a SignedData structure
@@ -201,29 +232,36 @@ class TSAImpl implements TSA {
     // - contentType
     // - signingTime
     // - messageDigest (digest of the tstInfo structure)
-    // - signingCertificateV2
-    const signedAttrs = new pkijs.SignedAndUnsignedAttributes({
-      type: 0,
-      attributes: [
-        new pkijs.Attribute({
-          type: OID_PKCS9_CONTENT_TYPE_KEY,
-          values: [
-            new asn1js.ObjectIdentifier({ value: OID_TSTINFO_CONTENT_TYPE }),
-          ],
-        }),
-        new pkijs.Attribute({
-          type: OID_PKCS9_SIGNING_TIME_KEY,
-          values: [new asn1js.UTCTime({ valueDate: this.getCurrentTime() })],
-        }),
-        new pkijs.Attribute({
-          type: OKD_PKCS9_MESSAGE_DIGEST_KEY,
-          values: [new asn1js.OctetString({ valueHex: tstInfoDigest })],
-        }),
+    // - signingCertificateV2 (unless disabled)
+    const attributes = [
+      new pkijs.Attribute({
+        type: OID_PKCS9_CONTENT_TYPE_KEY,
+        values: [
+          new asn1js.ObjectIdentifier({ value: OID_TSTINFO_CONTENT_TYPE }),
+        ],
+      }),
+      new pkijs.Attribute({
+        type: OID_PKCS9_SIGNING_TIME_KEY,
+        values: [new asn1js.UTCTime({ valueDate: this.getCurrentTime() })],
+      }),
+      new pkijs.Attribute({
+        type: OKD_PKCS9_MESSAGE_DIGEST_KEY,
+        values: [new asn1js.OctetString({ valueHex: tstInfoDigest })],
+      }),
+    ];
+
+    if (this.signingCertificate) {
+      attributes.push(
         new pkijs.Attribute({
           type: OID_PKCS9_SIGNING_CERTIFICATE_V2_KEY,
           values: [new asn1js.Sequence({ value: [signingCert.toSchema()] })],
-        }),
-      ],
+        })
+      );
+    }
+
+    const signedAttrs = new pkijs.SignedAndUnsignedAttributes({
+      type: 0,
+      attributes,
     });
 
     /* istanbul ignore next */
@@ -66,7 +66,8 @@ export async function createIntermediateCertificate(
   subject: string,
   issuer: string,
   keyPair: CryptoKeyPair,
-  signAlgo: EcdsaParams
+  signAlgo: EcdsaParams,
+  timeStamping: boolean
 ): Promise<CertWithKey> {
   const crypto = new Crypto();
 
@@ -82,10 +83,14 @@ export async function createIntermediateCertificate(
     extensions: [
       new x509.BasicConstraintsExtension(false, undefined, true),
       new x509.KeyUsagesExtension(x509.KeyUsageFlags.digitalSignature, true),
-      new x509.ExtendedKeyUsageExtension(
-        [x509.ExtendedKeyUsage.timeStamping],
-        true
-      ),
+      ...(timeStamping
+        ? [
+            new x509.ExtendedKeyUsageExtension(
+              [x509.ExtendedKeyUsage.timeStamping],
+              true
+            ),
+          ]
+        : []),
       await x509.SubjectKeyIdentifierExtension.create(
         keyPair.publicKey,
         false,
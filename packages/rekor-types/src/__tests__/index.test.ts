@@ -14,6 +14,13 @@ describe('rekor-types', () => {
     const searchIndex: rekor.SearchIndex = {} as rekor.SearchIndex;
     expect(searchIndex).toBeDefined();
 
+    const logInfo: rekor.LogInfo = {} as rekor.LogInfo;
+    expect(logInfo).toBeDefined();
+
+    const consistencyProof: rekor.ConsistencyProof =
+      {} as rekor.ConsistencyProof;
+    expect(consistencyProof).toBeDefined();
+
     const hashedRekorV001Schema: rekor.HashedRekorV001Schema =
       {} as rekor.HashedRekorV001Schema;
     expect(hashedRekorV001Schema).toBeDefined();
@@ -36,5 +43,16 @@ describe('rekor-types', () => {
     const proposedIntotoEntry: rekor.ProposedIntotoEntry =
       {} as rekor.ProposedIntotoEntry;
     expect(proposedIntotoEntry).toBeDefined();
+
+    const createEntryRequest: rekor.CreateEntryRequest =
+      {} as rekor.CreateEntryRequest;
+    expect(createEntryRequest).toBeDefined();
+
+    const entryV002: rekor.EntryV002 = {} as rekor.EntryV002;
+    expect(entryV002).toBeDefined();
+
+    const transparencyLogEntryV2: rekor.TransparencyLogEntryV2 =
+      {} as rekor.TransparencyLogEntryV2;
+    expect(transparencyLogEntryV2).toBeDefined();
   });
 });
@@ -46,10 +46,31 @@ export type SearchLogQuery = {
   entries?: Array<ProposedEntry>;
 };
 
-export type { InclusionProof, LogEntry, SearchIndex } from './__generated__/';
+export type {
+  ConsistencyProof,
+  InclusionProof,
+  LogEntry,
+  LogInfo,
+  SearchIndex,
+} from './__generated__/';
 export type { DSSEV001Schema } from './__generated__/dsse';
 export type { HashedRekorV001Schema } from './__generated__/hashedrekord';
 export type {
   IntotoV001Schema,
   IntotoV002Schema,
 } from './__generated__/intoto';
+export type {
+  CreateEntryRequest,
+  DSSEEntryV002,
+  DSSELogEntryV002,
+  DSSERequestV002,
+  EntryV002,
+  HashAlgorithmV2,
+  HashedRekordEntryV002,
+  HashedRekordLogEntryV002,
+  HashedRekordRequestV002,
+  HashOutput,
+  SignatureV2,
+  TransparencyLogEntryV2,
+  Verifier,
+} from './v2';
@@ -0,0 +1,89 @@
+// Types for the Rekor v2 (tile-backed log) API. Rekor v2 is defined by
+// protobuf messages rather than JSON schemas, so these types describe the
+// canonical JSON mapping of those messages (byte fields are base64-encoded and
+// 64-bit integers are encoded as strings).
+// https://github.com/sigstore/rekor-tiles/tree/main/api/proto
+
+export type HashAlgorithmV2 = 'SHA2_256' | 'SHA2_384' | 'SHA2_512';
+
+export type HashOutput = {
+  algorithm: HashAlgorithmV2;
+  digest: string;
+};
+
+// Public key or certificate used to verify an entry's signature. Exactly one
+// of publicKey or x509Certificate is set.
+export type Verifier = {
+  publicKey?: { rawBytes: string };
+  x509Certificate?: { rawBytes: string };
+  keyDetails: string;
+};
+
+export type SignatureV2 = {
+  content: string;
+  verifier: Verifier;
+};
+
+export type HashedRekordRequestV002 = {
+  digest: string;
+  signature: SignatureV2;
+};
+
+export type DSSERequestV002 = {
+  envelope: {
+    payload: string;
+    payloadType: string;
+    signatures: { sig: string; keyid?: string }[];
+  };
+  verifiers: Verifier[];
+};
+
+// Request body for POST /api/v2/log/entries. Exactly one of the request types
+// is set.
+export type CreateEntryRequest =
+  | { hashedRekordRequestV002: HashedRekordRequestV002 }
+  | { dsseRequestV002: DSSERequestV002 };
+
+export type HashedRekordLogEntryV002 = {
+  data: HashOutput;
+  signature: SignatureV2;
+};
+
+export type DSSELogEntryV002 = {
+  payloadHash: HashOutput;
+  signatures: SignatureV2[];
+};
+
+// Canonicalized body of a Rekor v2 log entry
+export type HashedRekordEntryV002 = {
+  apiVersion: '0.0.2';
+  kind: 'hashedrekord';
+  spec: { hashedRekordV002: HashedRekordLogEntryV002 };
+};
+
+export type DSSEEntryV002 = {
+  apiVersion: '0.0.2';
+  kind: 'dsse';
+  spec: { dsseV002: DSSELogEntryV002 };
+};
+
+export type EntryV002 = HashedRekordEntryV002 | DSSEEntryV002;
+
+// Response from POST /api/v2/log/entries. Matches the TransparencyLogEntry
+// message from the Sigstore protobuf specs. Rekor v2 entries carry an
+// inclusion proof and checkpoint but no inclusion promise (SET), and the
+// integrated time is always zero.
+export type TransparencyLogEntryV2 = {
+  logIndex: string;
+  logId: { keyId: string };
+  kindVersion: { kind: string; version: string };
+  integratedTime: string;
+  inclusionProof: {
+    logIndex: string;
+    rootHash: string;
+    treeSize: string;
+    hashes: string[];
+    checkpoint: { envelope: string };
+  };
+  canonicalizedBody: string;
+};
@@ -66,6 +66,38 @@ describe('toMessageSignatureBundle', () => {
         .rawBytes
     ).toEqual(pem.toDER(certificate));
   });
+
+  describe('when the signer pre-hashed the data', () => {
+    const digest = crypto.digest('sha384', artifact.data);
+
+    it('records the digest which was signed', () => {
+      const b = toMessageSignatureBundle(artifact, {
+        ...signature,
+        messageDigest: { algorithm: 'sha384', digest },
+      });
+
+      assert(b.content?.$case === 'messageSignature');
+      expect(b.content.messageSignature.messageDigest).toEqual({
+        algorithm: HashAlgorithm.SHA2_384,
+        digest,
+      });
+    });
+  });
+
+  describe('when the single certificate representation is requested', () => {
+    it('returns a v0.3 message signature bundle', () => {
+      const b = toMessageSignatureBundle(artifact, signature, false);
+
+      expect(b.mediaType).toEqual(
+        'application/vnd.dev.sigstore.bundle.v0.3+json'
+      );
+
+      assert(b.verificationMaterial.content?.$case === 'certificate');
+      expect(b.verificationMaterial.content?.certificate.rawBytes).toEqual(
+        pem.toDER(certificate)
+      );
+    });
+  });
 });
 
 describe('toDSSEBundle', () => {
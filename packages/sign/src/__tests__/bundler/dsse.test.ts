@@ -175,4 +175,88 @@ describe('DSSEBundleBuilder', () => {
       });
     });
   });
+
+  describe('#cosign', () => {
+    const artifact = {
+      data: Buffer.from('artifact'),
+      type: 'text/plain',
+    } satisfies Artifact;
+
+    const cosignature = {
+      key: {
+        $case: 'publicKey',
+        publicKey: 'cosignerkey',
+        hint: 'cosigner',
+      },
+      signature: Buffer.from('cosignature'),
+    } satisfies Signature;
+
+    const cosigner = {
+      sign: jest.fn().mockResolvedValue(cosignature),
+    } satisfies Signer;
+
+    const witness = {
+      testify: jest.fn().mockResolvedValue({}),
+    };
+
+    const subject = new DSSEBundleBuilder({
+      signer: cosigner,
+      witnesses: [witness],
+    });
+
+    it('invokes the signer with the envelope payload', async () => {
+      const bundle = await new DSSEBundleBuilder({
+        signer,
+        witnesses: [],
+      }).create(artifact);
+
+      await subject.cosign(bundle);
+
+      const expectedBlob = dsse.preAuthEncoding(artifact.type, artifact.data);
+      expect(cosigner.sign).toHaveBeenCalledWith(expectedBlob);
+    });
+
+    it('returns a bundle with the signatures appended', async () => {
+      const bundle = await new DSSEBundleBuilder({
+        signer,
+        witnesses: [],
+      }).create(artifact);
+
+      const b = await subject.cosign(bundle);
+
+      expect(b.content.dsseEnvelope.payload).toEqual(artifact.data);
+      expect(b.content.dsseEnvelope.payloadType).toEqual(artifact.type);
+      expect(b.content.dsseEnvelope.signatures).toEqual([
+        { keyid: signature.key.hint, sig: signature.signature },
+        { keyid: cosignature.key.hint, sig: cosignature.signature },
+      ]);
+
+      assert(b.verificationMaterial.content?.$case === 'publicKey');
+      expect(b.verificationMaterial.content?.publicKey.hint).toEqual(
+        cosignature.key.hint
+      );
+    });
+
+    it('invokes the witnesses', async () => {
+      const bundle = await new DSSEBundleBuilder({
+        signer,
+        witnesses: [],
+      }).create(artifact);
+
+      await subject.cosign(bundle);
+
+      expect(witness.testify).toHaveBeenCalledWith(
+        {
+          $case: 'dsseEnvelope',
+          dsseEnvelope: expect.objectContaining({
+            signatures: [
+              { keyid: signature.key.hint, sig: signature.signature },
+              { keyid: cosignature.key.hint, sig: cosignature.signature },
+            ],
+          }),
+        },
+        expect.anything()
+      );
+    });
+  });
 });
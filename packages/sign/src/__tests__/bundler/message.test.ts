@@ -15,7 +15,9 @@ limitations under the License.
 */
 import { HashAlgorithm } from '@sigstore/protobuf-specs';
 import assert from 'assert';
+import { Readable } from 'stream';
 import { MessageSignatureBundleBuilder } from '../../bundler/message';
+import { InternalError } from '../../error';
 import { crypto } from '../../util';
 
 import type { Artifact } from '../../bundler';
@@ -88,5 +90,76 @@ describe('MessageSignatureBundleBuilder', () => {
         signature.key.hint
       );
     });
+
+    describe('when the artifact is streamed', () => {
+      const chunks: Buffer[] = [];
+      const streamSigner = {
+        sign: jest.fn().mockResolvedValue(signature),
+        signStream: jest.fn(async (stream: AsyncIterable<Buffer>) => {
+          for await (const chunk of stream) {
+            chunks.push(chunk);
+          }
+          return signature;
+        }),
+      } satisfies Signer;
+
+      const subject = new MessageSignatureBundleBuilder({
+        signer: streamSigner,
+        witnesses: [],
+      });
+
+      const data = Buffer.from('artifact');
+      const digest = crypto.digest('sha256', data);
+
+      beforeEach(() => {
+        chunks.length = 0;
+      });
+
+      it('passes the streamed data to the signer', async () => {
+        await subject.create({
+          data: Readable.from([data.subarray(0, 3), data.subarray(3)]),
+        });
+        expect(streamSigner.sign).not.toHaveBeenCalled();
+        expect(streamSigner.signStream).toHaveBeenCalled();
+        expect(Buffer.concat(chunks)).toEqual(data);
+      });
+
+      it('returns a bundle', async () => {
+        const b = await subject.create({ data: Readable.from([data]) });
+
+        expect(b.content.messageSignature.messageDigest.digest).toEqual(digest);
+        expect(b.content.messageSignature.signature).toEqual(sigBytes);
+        expect(b.verificationMaterial.tlogEntries).toEqual([]);
+      });
+
+      describe('when the signer does not support stream signing', () => {
+        const subject = new MessageSignatureBundleBuilder({
+          signer: signer,
+          witnesses: [],
+        });
+
+        it('throws an error', async () => {
+          await expect(
+            subject.create({ data: Readable.from([data]) })
+          ).rejects.toThrowWithCode(InternalError, 'SIGNING_KEY_ERROR');
+        });
+      });
+    });
+
+    describe('when the certificate chain is disabled', () => {
+      const subject = new MessageSignatureBundleBuilder({
+        signer: signer,
+        witnesses: [],
+        certificateChain: false,
+      });
+
+      it('returns a v0.3 bundle', async () => {
+        const b = await subject.create(artifact);
+
+        expect(b.mediaType).toEqual(
+          'application/vnd.dev.sigstore.bundle.v0.3+json'
+        );
+      });
+    });
   });
 });
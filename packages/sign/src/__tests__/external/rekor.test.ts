@@ -14,9 +14,13 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import nock from 'nock';
-import { Rekor } from '../../external/rekor';
+import { Rekor, RekorV2 } from '../../external/rekor';
 
-import type { ProposedHashedRekordEntry } from '../../external/rekor';
+import type {
+  CreateEntryRequest,
+  ProposedHashedRekordEntry,
+  TransparencyLogEntryV2,
+} from '../../external/rekor';
 
 describe('Rekor', () => {
   const baseURL = 'http://localhost:8080';
@@ -234,4 +238,107 @@ describe('Rekor', () => {
       });
     });
   });
+
+  describe('#getConsistencyProof', () => {
+    const responseBody = { rootHash: 'abcd', hashes: ['0102', '0304'] };
+
+    describe('when the proof exists', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .get('/api/v1/log/proof')
+          .query({ firstSize: 2, lastSize: 5 })
+          .reply(200, responseBody);
+      });
+
+      it('returns the proof', async () => {
+        const result = await subject.getConsistencyProof(2n, 5n);
+
+        expect(result).toEqual(responseBody);
+      });
+    });
+
+    describe('when the proof cannot be retrieved', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .get('/api/v1/log/proof')
+          .query({ firstSize: 5, lastSize: 2 })
+          .reply(400, { code: 400, message: 'invalid tree sizes' });
+      });
+
+      it('returns an error', async () => {
+        await expect(subject.getConsistencyProof(5n, 2n)).rejects.toThrow(
+          '(400) invalid tree sizes'
+        );
+      });
+    });
+  });
+});
+
+describe('RekorV2', () => {
+  const baseURL = 'http://localhost:8080';
+  const subject = new RekorV2({ baseURL });
+
+  it('should create an instance', () => {
+    expect(subject).toBeTruthy();
+  });
+
+  describe('#createEntry', () => {
+    const request: CreateEntryRequest = {
+      hashedRekordRequestV002: {
+        digest: 'HAJabkjOuL8Q4Bs2cIlzIybqvjVB0D00hyTHkEA4LGU=',
+        signature: {
+          content:
+            'MEUCIDB2SWDabztSC8RrlfRCWUf04LBN0E2CEwiDZJLacDS8AiEA3bQHMBpodxA3dvJ+JK1SALkuzju/w4oCg3S89c8CtN8=',
+          verifier: {
+            publicKey: { rawBytes: 'Zm9vCg==' },
+            keyDetails: 'PKIX_ECDSA_P256_SHA_256',
+          },
+        },
+      },
+    };
+    const responseBody: TransparencyLogEntryV2 = {
+      logIndex: '12',
+      logId: { keyId: 'wNI9atQGlz+VWfO6LRygH4QUfY/8W4RFwiT5i5WRgB0=' },
+      kindVersion: { kind: 'hashedrekord', version: '0.0.2' },
+      integratedTime: '0',
+      inclusionProof: {
+        logIndex: '12',
+        rootHash: 'Zm9vCg==',
+        treeSize: '13',
+        hashes: ['Zm9vCg=='],
+        checkpoint: { envelope: 'checkpoint' },
+      },
+      canonicalizedBody: 'Zm9vCg==',
+    };
+
+    describe('when the entry is successfully added', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .matchHeader('Accept', 'application/json')
+          .matchHeader('Content-Type', 'application/json')
+          .matchHeader('User-Agent', new RegExp('sigstore-js\\/\\d+.\\d+.\\d+'))
+          .post('/api/v2/log/entries', request)
+          .reply(201, responseBody);
+      });
+
+      it('returns the new entry', async () => {
+        const result = await subject.createEntry(request);
+        expect(result).toEqual(responseBody);
+      });
+    });
+
+    describe('when the request is rejected', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .post('/api/v2/log/entries')
+          .reply(400, { code: 3, message: 'invalid signature' });
+      });
+
+      it('returns an error', async () => {
+        await expect(subject.createEntry(request)).rejects.toThrow(
+          '(400) invalid signature'
+        );
+      });
+    });
+  });
 });
@@ -85,4 +85,38 @@ describe('TimestampAuthority', () => {
       });
     });
   });
+
+  describe('#createTimestampQuery', () => {
+    // RFC 3161 requests are posted to the TSA's URL as-is
+    const tsa = new TimestampAuthority({ baseURL: `${baseURL}/tsr` });
+    const query = Buffer.from('timestamp-query');
+    const response = Buffer.from('timestamp-reply');
+
+    describe('when the timestamp request is valid', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .matchHeader('Content-Type', 'application/timestamp-query')
+          .matchHeader('User-Agent', new RegExp('sigstore-js\\/\\d+.\\d+.\\d+'))
+          .post('/tsr', query.toString())
+          .reply(200, response);
+      });
+
+      it('returns the timestamp response', async () => {
+        const result = await tsa.createTimestampQuery(query);
+        expect(result).toEqual(response);
+      });
+    });
+
+    describe('when the timestamp request is invalid', () => {
+      beforeEach(() => {
+        nock(baseURL).post('/tsr').reply(400, { message: 'Bad Request' });
+      });
+
+      it('returns an error', async () => {
+        await expect(tsa.createTimestampQuery(query)).rejects.toThrow(
+          '(400) Bad Request'
+        );
+      });
+    });
+  });
 });
@@ -19,9 +19,13 @@ import {
   DEFAULT_FULCIO_URL,
   DEFAULT_REKOR_URL,
   DSSEBundleBuilder,
+  DigestSignerAdapter,
+  FileDigestSigner,
   FulcioSigner,
   InternalError,
+  KeySigner,
   MessageSignatureBundleBuilder,
+  RekorClient,
   RekorWitness,
   TSAWitness,
 } from '..';
@@ -31,8 +35,14 @@ import type {
   Bundle,
   BundleBuilder,
   BundleBuilderOptions,
+  DigestAlgorithm,
+  DigestSigner,
+  DigestSignerAdapterOptions,
+  FileDigestSignerOptions,
   FulcioSignerOptions,
   IdentityProvider,
+  KeySignerOptions,
+  RekorClientOptions,
   RekorWitnessOptions,
   Signature,
   SignatureBundle,
@@ -68,6 +78,9 @@ it('exports types', async () => {
   const witness: Witness = fromPartial({});
   expect(witness).toBeDefined();
 
+  const rekorClientOptions: RekorClientOptions = fromPartial({});
+  expect(rekorClientOptions).toBeDefined();
+
   const rekorWitnessOptions: RekorWitnessOptions = fromPartial({});
   expect(rekorWitnessOptions).toBeDefined();
 
@@ -80,6 +93,23 @@ it('exports types', async () => {
   const fulcioSignerOptions: FulcioSignerOptions = fromPartial({});
   expect(fulcioSignerOptions).toBeDefined();
 
+  const keySignerOptions: KeySignerOptions = fromPartial({});
+  expect(keySignerOptions).toBeDefined();
+
+  const digestAlgorithm: DigestAlgorithm = 'sha256';
+  expect(digestAlgorithm).toBeDefined();
+
+  const digestSigner: DigestSigner = fromPartial({});
+  expect(digestSigner).toBeDefined();
+
+  const digestSignerAdapterOptions: DigestSignerAdapterOptions = fromPartial(
+    {}
+  );
+  expect(digestSignerAdapterOptions).toBeDefined();
+
+  const fileDigestSignerOptions: FileDigestSignerOptions = fromPartial({});
+  expect(fileDigestSignerOptions).toBeDefined();
+
   const identityProvider: IdentityProvider = fromPartial({});
   expect(identityProvider).toBeDefined();
 });
@@ -89,6 +119,10 @@ it('exports classes', () => {
   expect(DSSEBundleBuilder).toBeInstanceOf(Function);
   expect(MessageSignatureBundleBuilder).toBeInstanceOf(Function);
   expect(FulcioSigner).toBeInstanceOf(Function);
+  expect(KeySigner).toBeInstanceOf(Function);
+  expect(DigestSignerAdapter).toBeInstanceOf(Function);
+  expect(FileDigestSigner).toBeInstanceOf(Function);
+  expect(RekorClient).toBeInstanceOf(Function);
   expect(RekorWitness).toBeInstanceOf(Function);
   expect(TSAWitness).toBeInstanceOf(Function);
 });
@@ -1,13 +1,23 @@
 import { mockFulcio, mockRekor, mockTSA } from '@sigstore/mock';
+import { HashAlgorithm } from '@sigstore/protobuf-specs';
 import assert from 'assert';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import {
   DSSEBundleBuilder,
+  DigestSignerAdapter,
+  FileDigestSigner,
   FulcioSigner,
+  KeySigner,
   MessageSignatureBundleBuilder,
   RekorWitness,
   TSAWitness,
 } from '..';
 
+import type { DigestSigner } from '..';
+
 describe('artifact signing', () => {
   const fulcioURL = 'https://fulcio.example.com';
   const rekorURL = 'https://rekor.example.com';
@@ -66,6 +76,141 @@ describe('artifact signing', () => {
     });
   });
 
+  describe('when signing with a private key', () => {
+    const data = Buffer.from('hello, world');
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const bundler = new MessageSignatureBundleBuilder({
+      signer: new KeySigner({
+        privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+      }),
+      witnesses: [rekorWitness, tsaWitness],
+    });
+
+    it('returns the signed bundle', async () => {
+      const bundle = await bundler.create({ data });
+
+      expect(bundle).toBeDefined();
+      expect(bundle.content.messageSignature.signature).toBeDefined();
+
+      assert(bundle.verificationMaterial.content.$case === 'publicKey');
+      expect(bundle.verificationMaterial.content.publicKey.hint).toBeDefined();
+
+      expect(bundle.verificationMaterial.tlogEntries).toHaveLength(1);
+      expect(bundle.verificationMaterial.tlogEntries[0].kindVersion.kind).toBe(
+        'hashedrekord'
+      );
+
+      expect(
+        bundle.verificationMaterial.timestampVerificationData?.rfc3161Timestamps
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('when signing with a digest signer', () => {
+    const data = Buffer.from('hello, world');
+    const { privateKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+    let tmpDir: string;
+    let keyPath: string;
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'digest-signer-'));
+      keyPath = path.join(tmpDir, 'key.pem');
+      fs.writeFileSync(
+        keyPath,
+        privateKey.export({ format: 'pem', type: 'pkcs8' })
+      );
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('can be used as the key holder for a Fulcio signer', async () => {
+      // The mock Fulcio instance only issues certificates for ECDSA keys.
+      // Node always hashes the data before signing, so the digest signer
+      // signs whichever of the expected messages matches the digest.
+      const ecKey = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const messages = [data, Buffer.from(subject)];
+      const keyHolder: DigestSigner = {
+        digestAlgorithm: 'sha256',
+        getPublicKey: async () =>
+          ecKey.publicKey.export({ format: 'pem', type: 'spki' }).toString(),
+        signDigest: async (digest) =>
+          crypto.sign(
+            'sha256',
+            messages.find((m) =>
+              crypto.createHash('sha256').update(m).digest().equals(digest)
+            )!,
+            ecKey.privateKey
+          ),
+      };
+
+      const bundler = new MessageSignatureBundleBuilder({
+        signer: new FulcioSigner({
+          fulcioBaseURL: fulcioURL,
+          identityProvider: idp,
+          keyHolder,
+        }),
+        witnesses: [rekorWitness, tsaWitness],
+      });
+
+      const bundle = await bundler.create({ data });
+
+      assert(
+        bundle.verificationMaterial.content.$case === 'x509CertificateChain'
+      );
+      expect(bundle.verificationMaterial.tlogEntries).toHaveLength(1);
+    });
+
+    it('can be used to create a public key bundle', async () => {
+      const bundler = new MessageSignatureBundleBuilder({
+        signer: new DigestSignerAdapter({
+          digestSigner: new FileDigestSigner({ keyPath }),
+        }),
+        witnesses: [rekorWitness, tsaWitness],
+      });
+
+      const bundle = await bundler.create({ data });
+
+      assert(bundle.verificationMaterial.content.$case === 'publicKey');
+      expect(bundle.verificationMaterial.content.publicKey.hint).toBeDefined();
+      expect(bundle.verificationMaterial.tlogEntries).toHaveLength(1);
+    });
+
+    it('records the digest algorithm of the digest signer', async () => {
+      const bundler = new MessageSignatureBundleBuilder({
+        signer: new DigestSignerAdapter({
+          digestSigner: new FileDigestSigner({
+            keyPath,
+            digestAlgorithm: 'sha384',
+          }),
+        }),
+        witnesses: [rekorWitness],
+      });
+
+      const bundle = await bundler.create({ data });
+      const { messageDigest, signature } = bundle.content.messageSignature;
+
+      expect(messageDigest.algorithm).toBe(HashAlgorithm.SHA2_384);
+      expect(messageDigest.digest).toEqual(
+        crypto.createHash('sha384').update(data).digest()
+      );
+      expect(
+        crypto.verify(
+          'sha384',
+          data,
+          crypto.createPublicKey(privateKey),
+          signature
+        )
+      ).toBe(true);
+      expect(bundle.verificationMaterial.tlogEntries).toHaveLength(1);
+    });
+  });
+
   describe('when building a DSSE envelope bundle', () => {
     const data = Buffer.from('hello, world');
     const bundler = new DSSEBundleBuilder({
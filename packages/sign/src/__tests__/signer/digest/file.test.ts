@@ -0,0 +1,145 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { InternalError } from '../../../error';
+import { FileDigestSigner } from '../../../signer/digest';
+
+import type { DigestAlgorithm } from '../../../signer/digest';
+
+describe('FileDigestSigner', () => {
+  const message = Buffer.from('message');
+  let tmpDir: string;
+
+  // Writes the key to a file in the temp directory and returns the path
+  const writeKey = (name: string, key: string | Buffer): string => {
+    const keyPath = path.join(tmpDir, name);
+    fs.writeFileSync(keyPath, key);
+    return keyPath;
+  };
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'digest-signer-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('#signDigest', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+    });
+
+    const algorithms: DigestAlgorithm[] = ['sha256', 'sha384', 'sha512'];
+
+    it.each(algorithms)(
+      'returns a verifiable %s signature',
+      async (digestAlgorithm) => {
+        const subject = new FileDigestSigner({
+          keyPath: writeKey(
+            'rsa.pem',
+            privateKey.export({ format: 'pem', type: 'pkcs8' })
+          ),
+          digestAlgorithm,
+        });
+        const digest = crypto
+          .createHash(digestAlgorithm)
+          .update(message)
+          .digest();
+        const signature = await subject.signDigest(digest);
+
+        expect(subject.digestAlgorithm).toEqual(digestAlgorithm);
+        expect(
+          crypto.verify(digestAlgorithm, message, publicKey, signature)
+        ).toBe(true);
+      }
+    );
+
+    it('returns the public key', async () => {
+      const subject = new FileDigestSigner({
+        keyPath: writeKey(
+          'rsa.pem',
+          privateKey.export({ format: 'pem', type: 'pkcs8' })
+        ),
+      });
+
+      expect(subject.digestAlgorithm).toEqual('sha256');
+      await expect(subject.getPublicKey()).resolves.toEqual(
+        publicKey.export({ format: 'pem', type: 'spki' })
+      );
+    });
+
+    describe('when the key is DER-encoded and encrypted', () => {
+      const passphrase = 'password';
+
+      it('returns a verifiable signature', async () => {
+        const subject = new FileDigestSigner({
+          keyPath: writeKey(
+            'encrypted.der',
+            privateKey.export({
+              format: 'der',
+              type: 'pkcs8',
+              cipher: 'aes-256-cbc',
+              passphrase,
+            })
+          ),
+          passphrase,
+          digestAlgorithm: 'sha256',
+        });
+        const digest = crypto.createHash('sha256').update(message).digest();
+        const signature = await subject.signDigest(digest);
+
+        expect(crypto.verify('sha256', message, publicKey, signature)).toBe(
+          true
+        );
+      });
+    });
+
+    describe.each([
+      ['ECDSA', crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })],
+      ['Ed25519', crypto.generateKeyPairSync('ed25519')],
+    ])('when the key is %s', (name, { privateKey }) => {
+      it('throws an error', async () => {
+        const subject = new FileDigestSigner({
+          keyPath: writeKey(
+            `${name}.pem`,
+            privateKey.export({ format: 'pem', type: 'pkcs8' })
+          ),
+        });
+
+        await expect(
+          subject.signDigest(Buffer.alloc(32))
+        ).rejects.toThrowWithCode(InternalError, 'SIGNING_KEY_ERROR');
+      });
+
+      it('throws an error when the public key is requested', async () => {
+        const subject = new FileDigestSigner({
+          keyPath: writeKey(
+            `${name}.pem`,
+            privateKey.export({ format: 'pem', type: 'pkcs8' })
+          ),
+        });
+
+        await expect(subject.getPublicKey()).rejects.toThrow(
+          /FileDigestSigner only supports RSA keys/
+        );
+      });
+    });
+  });
+});
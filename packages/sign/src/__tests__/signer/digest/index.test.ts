@@ -0,0 +1,156 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import assert from 'assert';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { DigestSignerAdapter, isDigestSigner } from '../../../signer/digest';
+
+import type { DigestSigner } from '../../../signer/digest';
+import type { Signer } from '../../../signer';
+
+describe('DigestSignerAdapter', () => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+  });
+  const publicKeyPEM = publicKey
+    .export({ format: 'pem', type: 'spki' })
+    .toString();
+
+  // Fake DigestSigner which records the digests it is asked to sign
+  const digestSigner = {
+    digestAlgorithm: 'sha256',
+    getPublicKey: jest.fn().mockResolvedValue(publicKeyPEM),
+    signDigest: jest.fn().mockResolvedValue(Buffer.from('signature')),
+  } satisfies DigestSigner;
+
+  const message = Buffer.from('message');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('#sign', () => {
+    const subject = new DigestSignerAdapter({ digestSigner });
+
+    it('signs the digest of the data', async () => {
+      const signature = await subject.sign(message);
+      const digest = crypto.createHash('sha256').update(message).digest();
+
+      expect(digestSigner.signDigest).toHaveBeenCalledWith(digest);
+      expect(signature.signature).toEqual(Buffer.from('signature'));
+      expect(signature.messageDigest).toEqual({ algorithm: 'sha256', digest });
+    });
+
+    it('returns the public key and default hint', async () => {
+      const signature = await subject.sign(message);
+
+      assert(signature.key.$case === 'publicKey');
+      expect(signature.key.publicKey).toEqual(publicKeyPEM);
+      expect(signature.key.hint).toEqual(
+        crypto
+          .createHash('sha256')
+          .update(publicKey.export({ format: 'der', type: 'spki' }))
+          .digest('hex')
+      );
+    });
+
+    it('only retrieves the public key once', async () => {
+      const subject = new DigestSignerAdapter({ digestSigner });
+      await subject.sign(message);
+      await subject.sign(message);
+
+      expect(digestSigner.getPublicKey).toHaveBeenCalledTimes(1);
+    });
+
+    describe('when a key hint is supplied', () => {
+      const subject = new DigestSignerAdapter({
+        digestSigner,
+        keyHint: 'my-key',
+      });
+
+      it('returns the supplied hint', async () => {
+        const signature = await subject.sign(message);
+
+        assert(signature.key.$case === 'publicKey');
+        expect(signature.key.hint).toEqual('my-key');
+      });
+    });
+  });
+
+  describe('#signStream', () => {
+    const subject = new DigestSignerAdapter({ digestSigner });
+
+    it('signs the digest of the streamed data', async () => {
+      const signature = await subject.signStream(
+        Readable.from([message.subarray(0, 3), message.subarray(3)])
+      );
+
+      expect(digestSigner.signDigest).toHaveBeenCalledWith(
+        crypto.createHash('sha256').update(message).digest()
+      );
+      expect(signature.signature).toEqual(Buffer.from('signature'));
+    });
+  });
+
+  describe('when the digest signer uses SHA-384', () => {
+    const subject = new DigestSignerAdapter({
+      digestSigner: { ...digestSigner, digestAlgorithm: 'sha384' },
+    });
+
+    it('signs and returns the SHA-384 digest of the data', async () => {
+      const signature = await subject.sign(message);
+      const digest = crypto.createHash('sha384').update(message).digest();
+
+      expect(digestSigner.signDigest).toHaveBeenCalledWith(digest);
+      expect(signature.messageDigest).toEqual({ algorithm: 'sha384', digest });
+    });
+  });
+
+  describe('when used with a real key', () => {
+    const subject = new DigestSignerAdapter({
+      digestSigner: {
+        digestAlgorithm: 'sha256',
+        getPublicKey: async () => publicKeyPEM,
+        // Node always hashes the data before signing, so the raw message is
+        // signed here to produce a signature over the expected digest
+        signDigest: async () => crypto.sign('sha256', message, privateKey),
+      },
+    });
+
+    it('returns a verifiable signature', async () => {
+      const signature = await subject.sign(message);
+      expect(crypto.verify(null, message, publicKey, signature.signature)).toBe(
+        true
+      );
+    });
+  });
+});
+
+describe('isDigestSigner', () => {
+  it('returns true for a DigestSigner', () => {
+    const signer: DigestSigner = {
+      digestAlgorithm: 'sha256',
+      getPublicKey: jest.fn(),
+      signDigest: jest.fn(),
+    };
+    expect(isDigestSigner(signer)).toBe(true);
+  });
+
+  it('returns false for a Signer', () => {
+    const signer: Signer = { sign: jest.fn() };
+    expect(isDigestSigner(signer)).toBe(false);
+  });
+});
@@ -14,6 +14,8 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import assert from 'assert';
+import crypto from 'crypto';
+import { Readable } from 'stream';
 import { EphemeralSigner } from '../../../signer/fulcio/ephemeral';
 
 describe('EphemeralSigner', () => {
@@ -37,4 +39,25 @@ describe('EphemeralSigner', () => {
       expect(signature.key.publicKey).toBeDefined();
     });
   });
+
+  describe('signStream', () => {
+    const subject = new EphemeralSigner();
+    const message = Buffer.from('message');
+
+    it('returns a signature which verifies against the message', async () => {
+      const signature = await subject.signStream(
+        Readable.from([message.subarray(0, 3), message.subarray(3)])
+      );
+
+      assert(signature.key.$case === 'publicKey');
+      expect(
+        crypto.verify(
+          null,
+          message,
+          signature.key.publicKey,
+          signature.signature
+        )
+      ).toBe(true);
+    });
+  });
 });
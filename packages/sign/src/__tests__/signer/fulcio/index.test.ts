@@ -15,6 +15,7 @@ limitations under the License.
 */
 import assert from 'assert';
 import nock from 'nock';
+import { Readable } from 'stream';
 import { InternalError } from '../../../error';
 import { FulcioSigner, FulcioSignerOptions } from '../../../signer/fulcio';
 
@@ -188,4 +189,68 @@ describe('KeylessSigner', () => {
       });
     });
   });
+
+  describe('signStream', () => {
+    const data = Readable.from([Buffer.from('data')]);
+
+    const jwt = `.${Buffer.from(
+      JSON.stringify({ iss: 'https://example.com', sub: 'foo@bar.com' })
+    ).toString('base64')}.`;
+    const identityProvider: IdentityProvider = {
+      getToken: jest.fn().mockResolvedValue(jwt),
+    };
+
+    describe('when the key holder supports stream signing', () => {
+      const leafCertificate = `-----BEGIN CERTIFICATE-----\nabc\n-----END CERTIFICATE-----`;
+
+      const streamKeyHolder: Signer = {
+        ...keyHolder,
+        signStream: jest.fn().mockResolvedValue({
+          signature: Buffer.from('stream-signature'),
+          key: { $case: 'publicKey', publicKey },
+          messageDigest: { algorithm: 'sha384', digest: Buffer.from('digest') },
+        }),
+      };
+
+      const subject = new FulcioSigner({
+        ...options,
+        identityProvider,
+        keyHolder: streamKeyHolder,
+      });
+
+      beforeEach(() => {
+        nock(fulcioBaseURL)
+          .post('/api/v2/signingCert')
+          .reply(200, {
+            signedCertificateEmbeddedSct: {
+              chain: { certificates: [leafCertificate] },
+            },
+          });
+      });
+
+      it('returns a signature over the streamed data', async () => {
+        const result = await subject.signStream(data);
+
+        expect(streamKeyHolder.signStream).toHaveBeenCalledWith(data);
+        expect(result.signature).toEqual(Buffer.from('stream-signature'));
+        expect(result.messageDigest).toEqual({
+          algorithm: 'sha384',
+          digest: Buffer.from('digest'),
+        });
+        assert(result.key.$case === 'x509Certificate');
+        expect(result.key.certificate).toEqual(leafCertificate);
+      });
+    });
+
+    describe('when the key holder does not support stream signing', () => {
+      const subject = new FulcioSigner({ ...options, identityProvider });
+
+      it('throws an error', async () => {
+        await expect(subject.signStream(data)).rejects.toThrowWithCode(
+          InternalError,
+          'SIGNING_KEY_ERROR'
+        );
+      });
+    });
+  });
 });
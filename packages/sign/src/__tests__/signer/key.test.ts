@@ -0,0 +1,212 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import assert from 'assert';
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { InternalError } from '../../error';
+import { KeySigner } from '../../signer/key';
+
+describe('KeySigner', () => {
+  const message = Buffer.from('message');
+
+  describe('#sign', () => {
+    const keypairs = {
+      'ECDSA P-256': crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-256',
+      }),
+      'ECDSA P-384': crypto.generateKeyPairSync('ec', {
+        namedCurve: 'P-384',
+      }),
+      Ed25519: crypto.generateKeyPairSync('ed25519'),
+      RSA: crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }),
+    };
+
+    describe.each(Object.entries(keypairs))(
+      'when the key is %s',
+      (_, { privateKey, publicKey }) => {
+        const subject = new KeySigner({
+          privateKey: privateKey
+            .export({ format: 'pem', type: 'pkcs8' })
+            .toString(),
+        });
+
+        it('returns a verifiable signature', async () => {
+          const signature = await subject.sign(message);
+
+          assert(signature.key.$case === 'publicKey');
+          expect(signature.key.publicKey).toEqual(
+            publicKey.export({ format: 'pem', type: 'spki' })
+          );
+          expect(
+            crypto.verify(
+              null,
+              message,
+              crypto.createPublicKey(signature.key.publicKey),
+              signature.signature
+            )
+          ).toBe(true);
+        });
+
+        it('returns the hint for the public key', async () => {
+          const signature = await subject.sign(message);
+          const expectedHint = crypto
+            .createHash('sha256')
+            .update(publicKey.export({ format: 'der', type: 'spki' }))
+            .digest('hex');
+
+          assert(signature.key.$case === 'publicKey');
+          expect(signature.key.hint).toEqual(expectedHint);
+        });
+      }
+    );
+
+    describe('when the key is encrypted', () => {
+      const { privateKey } = keypairs['ECDSA P-256'];
+      const passphrase = 'password';
+      const encryptedKey = privateKey.export({
+        format: 'pem',
+        type: 'pkcs8',
+        cipher: 'aes-256-cbc',
+        passphrase,
+      });
+
+      it('decrypts the key with the passphrase', async () => {
+        const subject = new KeySigner({ privateKey: encryptedKey, passphrase });
+        const signature = await subject.sign(message);
+        expect(signature.signature).toBeDefined();
+      });
+
+      it('throws an error when the passphrase is wrong', () => {
+        expect(
+          () => new KeySigner({ privateKey: encryptedKey, passphrase: 'nope' })
+        ).toThrowWithCode(InternalError, 'SIGNING_KEY_ERROR');
+      });
+    });
+
+    describe('when the key is DER-encoded', () => {
+      const { privateKey } = keypairs.Ed25519;
+      const subject = new KeySigner({
+        privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }),
+      });
+
+      it('returns a signature', async () => {
+        const signature = await subject.sign(message);
+        expect(signature.signature).toBeDefined();
+      });
+    });
+
+    describe('when a key hint is supplied', () => {
+      const { privateKey } = keypairs['ECDSA P-256'];
+      const subject = new KeySigner({
+        privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+        keyHint: 'my-key',
+      });
+
+      it('returns the supplied hint', async () => {
+        const signature = await subject.sign(message);
+        assert(signature.key.$case === 'publicKey');
+        expect(signature.key.hint).toEqual('my-key');
+      });
+    });
+  });
+
+  describe('#signStream', () => {
+    const stream = () =>
+      Readable.from([message.subarray(0, 3), message.subarray(3)]);
+
+    describe.each([
+      [
+        'ECDSA P-256',
+        crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }),
+      ],
+      [
+        'ECDSA P-384',
+        crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' }),
+      ],
+      ['RSA', crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })],
+    ])('when the key is %s', (_, { privateKey }) => {
+      const subject = new KeySigner({
+        privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+      });
+
+      it('returns a signature which verifies against the message', async () => {
+        const signature = await subject.signStream(stream());
+
+        assert(signature.key.$case === 'publicKey');
+        expect(
+          crypto.verify(
+            null,
+            message,
+            signature.key.publicKey,
+            signature.signature
+          )
+        ).toBe(true);
+      });
+    });
+
+    describe('when the key is Ed25519', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ed25519');
+      const subject = new KeySigner({
+        privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+      });
+
+      it('throws an error', async () => {
+        await expect(subject.signStream(stream())).rejects.toThrowWithCode(
+          InternalError,
+          'SIGNING_KEY_ERROR'
+        );
+      });
+    });
+  });
+
+  describe('constructor', () => {
+    describe('when the key is not a valid private key', () => {
+      it('throws an error', () => {
+        expect(
+          () => new KeySigner({ privateKey: 'not a key' })
+        ).toThrowWithCode(InternalError, 'SIGNING_KEY_ERROR');
+      });
+    });
+
+    describe('when the key uses an unsupported curve', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'secp256k1',
+      });
+
+      it('throws an error', () => {
+        expect(
+          () =>
+            new KeySigner({
+              privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+            })
+        ).toThrowWithCode(InternalError, 'SIGNING_KEY_ERROR');
+      });
+    });
+
+    describe('when the key type is unsupported', () => {
+      const { privateKey } = crypto.generateKeyPairSync('ed448');
+
+      it('throws an error', () => {
+        expect(
+          () =>
+            new KeySigner({
+              privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }),
+            })
+        ).toThrowWithCode(InternalError, 'SIGNING_KEY_ERROR');
+      });
+    });
+  });
+});
@@ -15,7 +15,12 @@ limitations under the License.
 */
 import nock from 'nock';
 import { InternalError } from '../../../error';
-import { ProposedEntry, TLogClient } from '../../../witness/tlog/client';
+import {
+  CreateEntryRequest,
+  ProposedEntry,
+  TLogClient,
+  TLogV2Client,
+} from '../../../witness/tlog/client';
 
 describe('TLogClient', () => {
   const rekorBaseURL = 'http://localhost:8080';
@@ -194,3 +199,64 @@ describe('TLogClient', () => {
     });
   });
 });
+
+describe('TLogV2Client', () => {
+  const rekorBaseURL = 'http://localhost:8080';
+
+  describe('createEntry', () => {
+    const subject = new TLogV2Client({ rekorBaseURL, retry: false });
+
+    const request = {
+      hashedRekordRequestV002: {
+        digest: Buffer.from('digest').toString('base64'),
+        signature: {
+          content: Buffer.from('signature').toString('base64'),
+          verifier: {
+            publicKey: { rawBytes: Buffer.from('key').toString('base64') },
+            keyDetails: 'PKIX_ECDSA_P256_SHA_256',
+          },
+        },
+      },
+    } satisfies CreateEntryRequest;
+
+    const tlogEntry = {
+      logIndex: '12',
+      logId: { keyId: Buffer.from('logid').toString('base64') },
+      kindVersion: { kind: 'hashedrekord', version: '0.0.2' },
+      integratedTime: '0',
+      inclusionProof: {
+        logIndex: '12',
+        rootHash: Buffer.from('root').toString('base64'),
+        treeSize: '13',
+        hashes: [],
+        checkpoint: { envelope: 'checkpoint' },
+      },
+      canonicalizedBody: Buffer.from('body').toString('base64'),
+    };
+
+    describe('when Rekor returns an error', () => {
+      beforeEach(() => {
+        nock(rekorBaseURL).post('/api/v2/log/entries', request).reply(500, {});
+      });
+
+      it('returns an error', async () => {
+        await expect(subject.createEntry(request)).rejects.toThrowWithCode(
+          InternalError,
+          'TLOG_CREATE_ENTRY_ERROR'
+        );
+      });
+    });
+
+    describe('when Rekor returns a valid response', () => {
+      beforeEach(() => {
+        nock(rekorBaseURL)
+          .post('/api/v2/log/entries', request)
+          .reply(201, tlogEntry);
+      });
+
+      it('returns the tlog entry', async () => {
+        await expect(subject.createEntry(request)).resolves.toEqual(tlogEntry);
+      });
+    });
+  });
+});
@@ -16,8 +16,13 @@ limitations under the License.
 import { envelopeToJSON } from '@sigstore/bundle';
 import { HashAlgorithm } from '@sigstore/protobuf-specs';
 import assert from 'assert';
-import { crypto, encoding as enc } from '../../../util';
-import { toProposedEntry } from '../../../witness/tlog/entry';
+import { crypto as core, encoding as enc, pem } from '../../../util';
+import crypto from 'crypto';
+import { InternalError } from '../../../error';
+import {
+  toCreateEntryRequest,
+  toProposedEntry,
+} from '../../../witness/tlog/entry';
 
 import type { SignatureBundle } from '../../../witness';
 
@@ -60,6 +65,49 @@ describe('toProposedEntry', () => {
     });
   });
 
+  describe.each([
+    [HashAlgorithm.SHA2_384, 'sha384'],
+    [HashAlgorithm.SHA2_512, 'sha512'],
+  ])('when the message digest algorithm is %s', (algorithm, expected) => {
+    const sigBundle: SignatureBundle = {
+      $case: 'messageSignature',
+      messageSignature: {
+        signature: signature,
+        messageDigest: { algorithm, digest: Buffer.from('digest') },
+      },
+    };
+
+    it('records the algorithm in the entry', () => {
+      const entry = toProposedEntry(sigBundle, publicKey);
+
+      assert(entry.kind === 'hashedrekord');
+      expect(entry.spec.data.hash?.algorithm).toBe(expected);
+    });
+  });
+
+  describe('when a message signature is signed with an Ed25519 key', () => {
+    const { publicKey: key } = crypto.generateKeyPairSync('ed25519');
+    const sigBundle: SignatureBundle = {
+      $case: 'messageSignature',
+      messageSignature: {
+        signature,
+        messageDigest: {
+          algorithm: HashAlgorithm.SHA2_256,
+          digest: Buffer.from('digest'),
+        },
+      },
+    };
+
+    it('throws an error', () => {
+      expect(() =>
+        toProposedEntry(
+          sigBundle,
+          key.export({ format: 'pem', type: 'spki' }).toString()
+        )
+      ).toThrowWithCode(InternalError, 'TLOG_CREATE_ENTRY_ERROR');
+    });
+  });
+
   describe('when a DSSE envelope is provided', () => {
     describe('when the keyid is a non-empty string', () => {
       const sigBundle: SignatureBundle = {
@@ -124,9 +172,7 @@ describe('toProposedEntry', () => {
         expect(entry.spec.content.payloadHash).toBeTruthy();
         expect(entry.spec.content.payloadHash?.algorithm).toBe('sha256');
         expect(entry.spec.content.payloadHash?.value).toBe(
-          crypto
-            .digest('sha256', sigBundle.dsseEnvelope.payload)
-            .toString('hex')
+          core.digest('sha256', sigBundle.dsseEnvelope.payload).toString('hex')
         );
         expect(entry.spec.content.hash).toBeTruthy();
         expect(entry.spec.content.hash?.algorithm).toBe('sha256');
@@ -144,8 +190,8 @@ describe('toProposedEntry', () => {
         $case: 'dsseEnvelope',
         dsseEnvelope: {
           signatures: [
+            { keyid: '', sig: Buffer.from('cosignature') },
             { keyid: '123', sig: signature },
-            { keyid: '', sig: signature },
           ],
           payloadType: 'application/vnd.in-toto+json',
           payload: Buffer.from('payload'),
@@ -159,15 +205,16 @@ describe('toProposedEntry', () => {
           assert(entry.apiVersion === '0.0.2');
           assert(entry.kind === 'intoto');
 
-          // Check to ensure only the first signature is included in the envelope
+          // Check to ensure only the signer's (final) signature is included
+          // in the envelope
           const e = entry.spec.content.envelope;
           expect(e?.signatures).toHaveLength(1);
           expect(e?.signatures[0].keyid).toEqual(
-            sigBundle.dsseEnvelope.signatures[0].keyid
+            sigBundle.dsseEnvelope.signatures[1].keyid
           );
           expect(e?.signatures[0].sig).toEqual(
             enc.base64Encode(
-              sigBundle.dsseEnvelope.signatures[0].sig.toString('base64')
+              sigBundle.dsseEnvelope.signatures[1].sig.toString('base64')
             )
           );
           expect(e?.signatures[0].publicKey).toEqual(
@@ -190,8 +237,15 @@ describe('toProposedEntry', () => {
           assert(entry.kind === 'dsse');
 
           expect(entry.spec.proposedContent).toBeTruthy();
+          // Check to ensure only the signer's (final) signature is included
+          // in the envelope
           expect(entry.spec.proposedContent?.envelope).toEqual(
-            JSON.stringify(envelopeToJSON(sigBundle.dsseEnvelope))
+            JSON.stringify(
+              envelopeToJSON({
+                ...sigBundle.dsseEnvelope,
+                signatures: [sigBundle.dsseEnvelope.signatures[1]],
+              })
+            )
           );
           expect(entry.spec.proposedContent?.verifiers).toHaveLength(1);
           expect(entry.spec.proposedContent?.verifiers[0]).toEqual(
@@ -234,3 +288,212 @@ describe('toProposedEntry', () => {
     });
   });
 });
+
+describe('toCreateEntryRequest', () => {
+  const signature = Buffer.from('signature');
+  const { publicKey: keyObject } = crypto.generateKeyPairSync('ec', {
+    namedCurve: 'prime256v1',
+  });
+  const publicKey = keyObject
+    .export({ format: 'pem', type: 'spki' })
+    .toString();
+  const verifier = {
+    publicKey: {
+      rawBytes: keyObject
+        .export({ format: 'der', type: 'spki' })
+        .toString('base64'),
+    },
+    keyDetails: 'PKIX_ECDSA_P256_SHA_256',
+  };
+
+  describe('when a message signature is provided', () => {
+    const sigBundle: SignatureBundle = {
+      $case: 'messageSignature',
+      messageSignature: {
+        signature,
+        messageDigest: {
+          algorithm: HashAlgorithm.SHA2_256,
+          digest: Buffer.from('digest'),
+        },
+      },
+    };
+
+    it('returns a hashedrekord request', () => {
+      expect(toCreateEntryRequest(sigBundle, publicKey)).toEqual({
+        hashedRekordRequestV002: {
+          digest: Buffer.from('digest').toString('base64'),
+          signature: { content: signature.toString('base64'), verifier },
+        },
+      });
+    });
+  });
+
+  describe('when the message digest is not SHA-256', () => {
+    const sigBundle: SignatureBundle = {
+      $case: 'messageSignature',
+      messageSignature: {
+        signature,
+        messageDigest: {
+          algorithm: HashAlgorithm.SHA2_384,
+          digest: Buffer.from('digest'),
+        },
+      },
+    };
+
+    it('throws an error', () => {
+      expect(() => toCreateEntryRequest(sigBundle, publicKey)).toThrowWithCode(
+        InternalError,
+        'TLOG_CREATE_ENTRY_ERROR'
+      );
+    });
+  });
+
+  describe('when a co-signed DSSE envelope is provided', () => {
+    const sigBundle: SignatureBundle = {
+      $case: 'dsseEnvelope',
+      dsseEnvelope: {
+        signatures: [
+          { keyid: '', sig: Buffer.from('cosignature') },
+          { keyid: '123', sig: signature },
+        ],
+        payloadType: 'application/vnd.in-toto+json',
+        payload: Buffer.from('payload'),
+      },
+    };
+
+    it("returns a dsse request with the signer's signature", () => {
+      expect(toCreateEntryRequest(sigBundle, publicKey)).toEqual({
+        dsseRequestV002: {
+          envelope: {
+            payload: Buffer.from('payload').toString('base64'),
+            payloadType: 'application/vnd.in-toto+json',
+            signatures: [{ sig: signature.toString('base64'), keyid: '123' }],
+          },
+          verifiers: [verifier],
+        },
+      });
+    });
+  });
+
+  describe('when a signing certificate is provided', () => {
+    const certificate = pem.fromDER(Buffer.from('cert'));
+    const sigBundle: SignatureBundle = {
+      $case: 'messageSignature',
+      messageSignature: {
+        signature,
+        messageDigest: {
+          algorithm: HashAlgorithm.SHA2_256,
+          digest: Buffer.from('digest'),
+        },
+      },
+    };
+
+    it('returns the certificate as the verifier', () => {
+      const spy = jest
+        .spyOn(crypto, 'createPublicKey')
+        .mockReturnValueOnce(keyObject);
+
+      const request = toCreateEntryRequest(sigBundle, certificate);
+      assert('hashedRekordRequestV002' in request);
+      expect(request.hashedRekordRequestV002.signature.verifier).toEqual({
+        x509Certificate: { rawBytes: Buffer.from('cert').toString('base64') },
+        keyDetails: 'PKIX_ECDSA_P256_SHA_256',
+      });
+      expect(spy).toHaveBeenCalledWith(certificate);
+    });
+  });
+
+  describe.each([
+    [
+      'an EC P-384 key',
+      () => crypto.generateKeyPairSync('ec', { namedCurve: 'secp384r1' }),
+      'PKIX_ECDSA_P384_SHA_384',
+    ],
+    [
+      'an EC P-521 key',
+      () => crypto.generateKeyPairSync('ec', { namedCurve: 'secp521r1' }),
+      'PKIX_ECDSA_P521_SHA_512',
+    ],
+    [
+      'a 2048-bit RSA key',
+      () => crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }),
+      'PKIX_RSA_PKCS1V15_2048_SHA256',
+    ],
+    [
+      'a 3072-bit RSA key',
+      () => crypto.generateKeyPairSync('rsa', { modulusLength: 3072 }),
+      'PKIX_RSA_PKCS1V15_3072_SHA256',
+    ],
+    [
+      'a 4096-bit RSA key',
+      () => crypto.generateKeyPairSync('rsa', { modulusLength: 4096 }),
+      'PKIX_RSA_PKCS1V15_4096_SHA256',
+    ],
+    [
+      'an Ed25519 key',
+      () => crypto.generateKeyPairSync('ed25519'),
+      'PKIX_ED25519',
+    ],
+  ])('when the key is %s', (_, generateKeyPair, keyDetails) => {
+    const sigBundle: SignatureBundle = {
+      $case: 'messageSignature',
+      messageSignature: {
+        signature,
+        messageDigest: {
+          algorithm: HashAlgorithm.SHA2_256,
+          digest: Buffer.from('digest'),
+        },
+      },
+    };
+
+    it(`uses the ${keyDetails} key details`, () => {
+      const { publicKey } = generateKeyPair();
+      const request = toCreateEntryRequest(
+        sigBundle,
+        publicKey.export({ format: 'pem', type: 'spki' }).toString()
+      );
+
+      assert('hashedRekordRequestV002' in request);
+      expect(
+        request.hashedRekordRequestV002.signature.verifier.keyDetails
+      ).toBe(keyDetails);
+    });
+  });
+
+  describe('when the key type is not supported', () => {
+    const sigBundle: SignatureBundle = {
+      $case: 'messageSignature',
+      messageSignature: {
+        signature,
+        messageDigest: {
+          algorithm: HashAlgorithm.SHA2_256,
+          digest: Buffer.from('digest'),
+        },
+      },
+    };
+
+    it('throws an error', () => {
+      const { publicKey } = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'secp256k1',
+      });
+      expect(() =>
+        toCreateEntryRequest(
+          sigBundle,
+          publicKey.export({ format: 'pem', type: 'spki' }).toString()
+        )
+      ).toThrowWithCode(InternalError, 'TLOG_CREATE_ENTRY_ERROR');
+    });
+
+    it('throws an error for unsupported RSA key sizes', () => {
+      const { publicKey } = crypto.generateKeyPairSync('rsa', {
+        modulusLength: 1024,
+      });
+      expect(() =>
+        toCreateEntryRequest(
+          sigBundle,
+          publicKey.export({ format: 'pem', type: 'spki' }).toString()
+        )
+      ).toThrowWithCode(InternalError, 'TLOG_CREATE_ENTRY_ERROR');
+    });
+  });
+});
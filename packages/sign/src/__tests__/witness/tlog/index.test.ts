@@ -15,6 +15,7 @@ limitations under the License.
 */
 import { HashAlgorithm } from '@sigstore/protobuf-specs';
 import assert from 'assert';
+import crypto from 'crypto';
 import nock from 'nock';
 import { InternalError } from '../../../error';
 import { RekorWitness } from '../../../witness/tlog';
@@ -372,5 +373,78 @@ describe('RekorWitness', () => {
         ).rejects.toThrowWithCode(InternalError, 'TLOG_CREATE_ENTRY_ERROR');
       });
     });
+
+    describe('when using the Rekor v2 API', () => {
+      const subject = new RekorWitness({ rekorBaseURL, majorApiVersion: 2 });
+      const { publicKey: keyObject } = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'prime256v1',
+      });
+      const publicKey = keyObject
+        .export({ format: 'pem', type: 'spki' })
+        .toString();
+
+      const sigBundle: SignatureBundle = {
+        $case: 'messageSignature',
+        messageSignature: {
+          signature: signature,
+          messageDigest: {
+            algorithm: HashAlgorithm.SHA2_256,
+            digest: Buffer.from('digest'),
+          },
+        },
+      };
+
+      const body = {
+        apiVersion: '0.0.2',
+        kind: 'hashedrekord',
+        spec: {},
+      };
+
+      const tlogEntry = {
+        logIndex: '12',
+        logId: { keyId: Buffer.from('logid').toString('base64') },
+        kindVersion: { kind: 'hashedrekord', version: '0.0.2' },
+        integratedTime: '0',
+        inclusionProof: {
+          logIndex: '12',
+          rootHash: Buffer.from('root').toString('base64'),
+          treeSize: '13',
+          hashes: [Buffer.from('hash').toString('base64')],
+          checkpoint: { envelope: 'checkpoint' },
+        },
+        canonicalizedBody: Buffer.from(JSON.stringify(body)).toString('base64'),
+      };
+
+      beforeEach(() => {
+        nock(rekorBaseURL)
+          .post(
+            '/api/v2/log/entries',
+            (req) => 'hashedRekordRequestV002' in req
+          )
+          .reply(201, tlogEntry);
+      });
+
+      it('returns the tlog entry without a SET', async () => {
+        const vm = await subject.testify(sigBundle, publicKey);
+
+        expect(vm.tlogEntries).toEqual([
+          {
+            logIndex: '12',
+            logId: { keyId: Buffer.from('logid') },
+            kindVersion: { kind: 'hashedrekord', version: '0.0.2' },
+            integratedTime: '0',
+            inclusionPromise: undefined,
+            inclusionProof: {
+              logIndex: '12',
+              rootHash: Buffer.from('root'),
+              treeSize: '13',
+              hashes: [Buffer.from('hash')],
+              checkpoint: { envelope: 'checkpoint' },
+            },
+            canonicalizedBody: Buffer.from(JSON.stringify(body)),
+          },
+        ]);
+      });
+    });
   });
 });
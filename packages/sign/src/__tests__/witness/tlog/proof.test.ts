@@ -0,0 +1,160 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { fromPartial } from '@total-typescript/shoehorn';
+import crypto from 'crypto';
+import nock from 'nock';
+import { InternalError } from '../../../error';
+import { RekorClient } from '../../../witness/tlog/proof';
+
+import type { TransparencyLogEntry } from '@sigstore/bundle';
+
+describe('RekorClient', () => {
+  const baseURL = 'http://localhost:8080';
+  const subject = new RekorClient({ retry: false });
+
+  const canonicalizedBody = Buffer.from('{"kind":"hashedrekord"}');
+  const entry: TransparencyLogEntry = fromPartial({ canonicalizedBody });
+  const uuid = crypto
+    .createHash('sha256')
+    .update(Buffer.from([0x00]))
+    .update(canonicalizedBody)
+    .digest('hex');
+
+  const inclusionProof = {
+    logIndex: 2,
+    rootHash: 'abcd',
+    treeSize: 3,
+    hashes: ['0102', '0304'],
+    checkpoint: 'rekor.example.com - 123\n3\nq80=\n',
+  };
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it('defaults the fetch options', () => {
+    expect(new RekorClient()).toHaveProperty('options', {
+      retry: { retries: 2 },
+      timeout: 5000,
+    });
+  });
+
+  describe('#getInclusionProof', () => {
+    describe('when the entry exists', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .get(`/api/v1/log/entries/${uuid}`)
+          .reply(200, { [uuid]: { verification: { inclusionProof } } });
+      });
+
+      it('returns the inclusion proof', async () => {
+        const proof = await subject.getInclusionProof(baseURL, entry);
+
+        expect(proof).toEqual({
+          logIndex: '2',
+          rootHash: Buffer.from('abcd', 'hex'),
+          treeSize: '3',
+          hashes: [Buffer.from('0102', 'hex'), Buffer.from('0304', 'hex')],
+          checkpoint: { envelope: inclusionProof.checkpoint },
+        });
+      });
+    });
+
+    describe('when the entry is keyed by its full UUID', () => {
+      const treeID = '24296fb24b8ad77a';
+
+      beforeEach(() => {
+        nock(baseURL)
+          .get(`/api/v1/log/entries/${uuid}`)
+          .reply(200, {
+            [treeID + uuid]: { verification: { inclusionProof } },
+          });
+      });
+
+      it('returns the inclusion proof', async () => {
+        const proof = await subject.getInclusionProof(baseURL, entry);
+
+        expect(proof.treeSize).toEqual('3');
+      });
+    });
+
+    describe('when the entry does not exist', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .get(`/api/v1/log/entries/${uuid}`)
+          .reply(404, { code: 404, message: 'Entry not found' });
+      });
+
+      it('throws an error', async () => {
+        await expect(
+          subject.getInclusionProof(baseURL, entry)
+        ).rejects.toThrowWithCode(InternalError, 'TLOG_FETCH_ENTRY_ERROR');
+      });
+    });
+
+    describe('when the entry has no inclusion proof', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .get(`/api/v1/log/entries/${uuid}`)
+          .reply(200, { [uuid]: {} });
+      });
+
+      it('throws an error', async () => {
+        await expect(subject.getInclusionProof(baseURL, entry)).rejects.toThrow(
+          new InternalError({
+            code: 'TLOG_FETCH_ENTRY_ERROR',
+            message: `no inclusion proof for entry ${uuid}`,
+          })
+        );
+      });
+    });
+  });
+
+  describe('#getConsistencyProof', () => {
+    describe('when the proof exists', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .get('/api/v1/log/proof')
+          .query({ firstSize: 2, lastSize: 5 })
+          .reply(200, { rootHash: 'abcd', hashes: ['0102', '0304'] });
+      });
+
+      it('returns the proof hashes', async () => {
+        const hashes = await subject.getConsistencyProof(baseURL, 2n, 5n);
+
+        expect(hashes).toEqual([
+          Buffer.from('0102', 'hex'),
+          Buffer.from('0304', 'hex'),
+        ]);
+      });
+    });
+
+    describe('when the proof cannot be retrieved', () => {
+      beforeEach(() => {
+        nock(baseURL)
+          .get('/api/v1/log/proof')
+          .query({ firstSize: 5, lastSize: 2 })
+          .reply(400, { code: 400, message: 'invalid tree sizes' });
+      });
+
+      it('throws an error', async () => {
+        await expect(
+          subject.getConsistencyProof(baseURL, 5n, 2n)
+        ).rejects.toThrowWithCode(InternalError, 'TLOG_FETCH_PROOF_ERROR');
+      });
+    });
+  });
+});
@@ -13,7 +13,9 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-import { mockTSA } from '@sigstore/mock';
+import { ASN1Obj, RFC3161Timestamp } from '@sigstore/core';
+import { initializeTSA, mockTSA } from '@sigstore/mock';
+import { generateKeyPairSync } from 'crypto';
 import nock from 'nock';
 import { InternalError } from '../../../error';
 import { crypto } from '../../../util';
@@ -90,4 +92,129 @@ describe('TSAClient', () => {
       });
     });
   });
+
+  describe('createTimestamp (rfc3161)', () => {
+    const subject = new TSAClient({ tsaBaseURL: baseURL, protocol: 'rfc3161' });
+
+    const signature = Buffer.from('signature');
+
+    describe('when TSA returns a timestamp', () => {
+      beforeEach(async () => {
+        await mockTSA({ baseURL, protocol: 'rfc3161' });
+      });
+
+      it('returns the timestamp', async () => {
+        const timestamp = await subject.createTimestamp(signature);
+
+        const tsr = RFC3161Timestamp.parse(timestamp);
+        expect(tsr.status).toEqual(0n);
+        expect(() => tsr.tstInfo.verify(signature)).not.toThrow();
+      });
+    });
+
+    describe('when TSA rejects the request', () => {
+      beforeEach(() => {
+        // TimeStampResp with status rejection and failure info badAlg
+        nock(baseURL)
+          .matchHeader('Content-Type', 'application/timestamp-query')
+          .post('/')
+          .reply(200, Buffer.from('3009300702010203020780', 'hex'));
+      });
+
+      it('returns an error', async () => {
+        await expect(
+          subject.createTimestamp(signature)
+        ).rejects.toThrowWithCode(InternalError, 'TSA_CREATE_TIMESTAMP_ERROR');
+      });
+    });
+
+    describe('when TSA returns an error', () => {
+      beforeEach(() => {
+        nock(baseURL).post('/').reply(500, {});
+      });
+
+      it('returns an error', async () => {
+        await expect(
+          subject.createTimestamp(signature)
+        ).rejects.toThrowWithCode(InternalError, 'TSA_CREATE_TIMESTAMP_ERROR');
+      });
+    });
+
+    describe('when the request is sent', () => {
+      let query: ASN1Obj;
+
+      beforeEach(async () => {
+        const tsa = await initializeTSA(
+          generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        );
+
+        nock(baseURL)
+          .post('/')
+          .reply(200, (_, body) => {
+            query = ASN1Obj.parseBuffer(Buffer.from(body as string, 'hex'));
+            return tsa.timestamp({
+              artifactHash: query.subs[1].subs[1].value,
+              hashAlgorithmOID: '2.16.840.1.101.3.4.2.1',
+              nonce: query.subs[2].toInteger(),
+              policyOID: '1.3.6.1.4.1.57264.2',
+            });
+          });
+      });
+
+      it('asks for the TSA certificate', async () => {
+        await subject.createTimestamp(signature);
+
+        // TimeStampReq: version, messageImprint, nonce, certReq
+        expect(query.subs).toHaveLength(4);
+        expect(query.subs[3].toBoolean()).toBe(true);
+      });
+    });
+
+    describe('when the message imprint does not match the request', () => {
+      beforeEach(async () => {
+        const tsa = await initializeTSA(
+          generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        );
+
+        // Timestamps some other artifact, but echoes the request nonce
+        nock(baseURL)
+          .post('/')
+          .reply(200, (_, body) =>
+            tsa.timestamp({
+              artifactHash: crypto.digest('sha256', Buffer.from('other')),
+              hashAlgorithmOID: '2.16.840.1.101.3.4.2.1',
+              nonce: ASN1Obj.parseBuffer(
+                Buffer.from(body as string, 'hex')
+              ).subs[2].toInteger(),
+              policyOID: '1.3.6.1.4.1.57264.2',
+            })
+          );
+      });
+
+      it('returns an error', async () => {
+        await expect(subject.createTimestamp(signature)).rejects.toThrow(
+          new InternalError({
+            code: 'TSA_CREATE_TIMESTAMP_ERROR',
+            message: 'timestamp message imprint does not match request',
+          })
+        );
+      });
+    });
+
+    describe('when the timestamp nonce does not match the request', () => {
+      beforeEach(async () => {
+        // A non-strict mock ignores the request and uses a fixed nonce
+        await mockTSA({ baseURL, strict: false, protocol: 'rfc3161' });
+      });
+
+      it('returns an error', async () => {
+        await expect(subject.createTimestamp(signature)).rejects.toThrow(
+          new InternalError({
+            code: 'TSA_CREATE_TIMESTAMP_ERROR',
+            message: 'timestamp nonce does not match request',
+          })
+        );
+      });
+    });
+  });
 });
@@ -13,9 +13,11 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import { mockTSA } from '@sigstore/mock';
 import { HashAlgorithm } from '@sigstore/protobuf-specs';
 import nock from 'nock';
 import { InternalError } from '../../../error';
+import { crypto } from '../../../util';
 import { TSAWitness } from '../../../witness/tsa';
 
 import type { SignatureBundle } from '../../../witness';
@@ -82,6 +84,36 @@ describe('TSAWitness', () => {
       });
     });
 
+    describe('when the DSSE envelope has been co-signed', () => {
+      const timestamp = Buffer.from('timestamp');
+      const sigBundle: SignatureBundle = {
+        $case: 'dsseEnvelope',
+        dsseEnvelope: {
+          signatures: [
+            { keyid: '', sig: Buffer.from('cosignature') },
+            { keyid: '', sig: signature },
+          ],
+          payload: Buffer.from('payload'),
+          payloadType: 'payloadType',
+        },
+      };
+
+      beforeEach(() => {
+        nock(tsaBaseURL)
+          .post('/api/v1/timestamp', {
+            artifactHash: crypto.digest('sha256', signature).toString('base64'),
+            hashAlgorithm: 'sha256',
+          })
+          .reply(201, timestamp);
+      });
+
+      it('timestamps the final signature', async () => {
+        await expect(subject.testify(sigBundle)).resolves.toEqual({
+          rfc3161Timestamps: [{ signedTimestamp: timestamp }],
+        });
+      });
+    });
+
     describe('when TSA returns an error', () => {
       const sigBundle: SignatureBundle = {
         $case: 'dsseEnvelope',
@@ -106,5 +138,33 @@ describe('TSAWitness', () => {
         );
       });
     });
+
+    describe('when the protocol is rfc3161', () => {
+      const subject = new TSAWitness({ tsaBaseURL, protocol: 'rfc3161' });
+
+      const sigBundle: SignatureBundle = {
+        $case: 'messageSignature',
+        messageSignature: {
+          signature: signature,
+          messageDigest: {
+            algorithm: HashAlgorithm.SHA2_256,
+            digest: Buffer.from('digest'),
+          },
+        },
+      };
+
+      beforeEach(async () => {
+        await mockTSA({ baseURL: tsaBaseURL, protocol: 'rfc3161' });
+      });
+
+      it('returns the timestamp', async () => {
+        const result = await subject.testify(sigBundle);
+
+        expect(result.rfc3161Timestamps).toHaveLength(1);
+        expect(
+          result.rfc3161Timestamps[0].signedTimestamp.byteLength
+        ).toBeGreaterThan(0);
+      });
+    });
   });
 });
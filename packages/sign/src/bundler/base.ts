@@ -33,6 +33,10 @@ export interface Artifact {
   type?: string;
 }
 
+// Artifact data which is read incrementally, such as a Node.js Readable
+// stream. Allows artifacts to be signed without being held in memory in full.
+export type ArtifactStream = AsyncIterable<Uint8Array | string>;
+
 // Interface for bundler implementations. A bundler is responsible for signing
 // and witnessing an artifact.
 export interface BundleBuilder {
@@ -60,7 +64,12 @@ export abstract class BaseBundleBuilder<T extends Bundle>
       this.signer.sign(blob)
     );
     const bundle = await this.package(artifact, signature);
+    return this.witness(bundle, signature);
+  }
 
+  // Collects verification material for the signature from all of the
+  // configured witnesses and merges it into the bundle.
+  protected async witness(bundle: T, signature: Signature): Promise<T> {
     // Invoke all of the witnesses in parallel
     const verificationMaterials = await Promise.all(
       this.witnesses.map((witness) =>
@@ -14,22 +14,40 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import * as sigstore from '@sigstore/bundle';
+import { HashAlgorithm } from '@sigstore/protobuf-specs';
 import { crypto, pem } from '../util';
 
-import type { Signature } from '../signer';
+import type { DigestAlgorithm, Signature } from '../signer';
 import type { Artifact } from './base';
 
 // Helper functions for assembling the parts of a Sigstore bundle
 
+const HASH_ALGORITHMS: Record<DigestAlgorithm, HashAlgorithm> = {
+  sha256: HashAlgorithm.SHA2_256,
+  sha384: HashAlgorithm.SHA2_384,
+  sha512: HashAlgorithm.SHA2_512,
+};
+
 // Message signature bundle - $case: 'messageSignature'
+// The SHA-256 digest of the artifact may be supplied in place of the artifact
+// itself when the artifact data has already been hashed. When the signer
+// pre-hashed the data, the digest it signed is recorded instead.
 export function toMessageSignatureBundle(
-  artifact: Artifact,
-  signature: Signature
+  artifact: Artifact | { digest: Buffer },
+  signature: Signature,
+  certificateChain = true
 ): sigstore.BundleWithMessageSignature {
-  const digest = crypto.digest('sha256', artifact.data);
+  const { algorithm, digest } = signature.messageDigest || {
+    algorithm: 'sha256',
+    digest:
+      'digest' in artifact
+        ? artifact.digest
+        : crypto.digest('sha256', artifact.data),
+  };
 
   return sigstore.toMessageSignatureBundle({
     digest,
+    digestAlgorithm: HASH_ALGORITHMS[algorithm],
     signature: signature.signature,
     certificate:
       signature.key.$case === 'x509Certificate'
@@ -37,20 +55,23 @@ export function toMessageSignatureBundle(
         : undefined,
     keyHint:
       signature.key.$case === 'publicKey' ? signature.key.hint : undefined,
-    certificateChain: true,
+    certificateChain,
   });
 }
 
-// DSSE envelope bundle - $case: 'dsseEnvelope'
+// DSSE envelope bundle - $case: 'dsseEnvelope'. Any co-signatures are
+// retained in the envelope ahead of the new signature.
 export function toDSSEBundle(
   artifact: Required<Artifact>,
   signature: Signature,
-  certificateChain?: boolean
+  certificateChain?: boolean,
+  cosignatures?: sigstore.Envelope['signatures']
 ): sigstore.BundleWithDsseEnvelope {
   return sigstore.toDSSEBundle({
     artifact: artifact.data,
     artifactType: artifact.type,
     signature: signature.signature,
+    cosignatures,
     certificate:
       signature.key.$case === 'x509Certificate'
         ? pem.toDER(signature.key.certificate)
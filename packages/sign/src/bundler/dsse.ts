@@ -42,6 +42,30 @@ export class DSSEBundleBuilder extends BaseBundleBuilder<BundleWithDsseEnvelope>
     return dsse.preAuthEncoding(a.type, a.data);
   }
 
+  // Adds a signature to the DSSE envelope in an existing bundle. The returned
+  // bundle contains the envelope with all of the existing signatures plus the
+  // new one, along with the verification material for the new signature. The
+  // verification material from the existing bundle is NOT carried over -- each
+  // co-signer's bundle must be retained in order to verify their signature.
+  public async cosign(
+    bundle: BundleWithDsseEnvelope
+  ): Promise<BundleWithDsseEnvelope> {
+    const envelope = bundle.content.dsseEnvelope;
+    const artifact = { data: envelope.payload, type: envelope.payloadType };
+
+    const signature = await this.prepare(artifact).then((blob) =>
+      this.signer.sign(blob)
+    );
+    const cosigned = toDSSEBundle(
+      artifact,
+      signature,
+      this.certificateChain,
+      envelope.signatures
+    );
+
+    return this.witness(cosigned, signature);
+  }
+
   // Packages the artifact and signature into a DSSE bundle
   protected override async package(
     artifact: Artifact,
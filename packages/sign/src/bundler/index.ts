@@ -13,6 +13,11 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-export type { Artifact, BundleBuilder, BundleBuilderOptions } from './base';
+export type {
+  Artifact,
+  ArtifactStream,
+  BundleBuilder,
+  BundleBuilderOptions,
+} from './base';
 export { DSSEBundleBuilder } from './dsse';
 export { MessageSignatureBundleBuilder } from './message';
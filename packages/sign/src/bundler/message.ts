@@ -13,22 +13,82 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-import { Artifact, BaseBundleBuilder, BundleBuilderOptions } from './base';
+import crypto from 'crypto';
+import { InternalError } from '../error';
+import {
+  Artifact,
+  ArtifactStream,
+  BaseBundleBuilder,
+  BundleBuilderOptions,
+} from './base';
 import { toMessageSignatureBundle } from './bundle';
 
 import type { BundleWithMessageSignature } from '@sigstore/bundle';
 import type { Signature } from '../signer';
 
+type MessageSignatureBundleBuilderOptions = BundleBuilderOptions & {
+  // When set to false, the bundle verification material will use the
+  // certificate field instead of the x509CertificateChain field and a v0.3
+  // bundle will be created. When undefined/true, a v0.2 bundle will be created.
+  certificateChain?: boolean;
+};
+
 // BundleBuilder implementation for raw message signatures
 export class MessageSignatureBundleBuilder extends BaseBundleBuilder<BundleWithMessageSignature> {
-  constructor(options: BundleBuilderOptions) {
+  private certificateChain: boolean;
+  constructor(options: MessageSignatureBundleBuilderOptions) {
     super(options);
+    this.certificateChain = options.certificateChain ?? true;
+  }
+
+  // Accepts either the artifact data or a stream from which the artifact data
+  // can be read. Streamed data is passed through to the signer and hashed as
+  // it is read, so the signer must support stream signing.
+  public override async create(
+    artifact: Omit<Artifact, 'data'> & { data: Buffer | ArtifactStream }
+  ): Promise<BundleWithMessageSignature> {
+    if (Buffer.isBuffer(artifact.data)) {
+      return super.create({ ...artifact, data: artifact.data });
+    }
+
+    if (!this.signer.signStream) {
+      throw new InternalError({
+        code: 'SIGNING_KEY_ERROR',
+        message: 'signer does not support signing streamed artifacts',
+      });
+    }
+
+    const hash = crypto.createHash('sha256');
+    const signature = await this.signer.signStream(
+      tee(artifact.data, (chunk) => hash.update(chunk))
+    );
+    const digest = hash.digest();
+
+    const bundle = toMessageSignatureBundle(
+      { digest },
+      signature,
+      this.certificateChain
+    );
+
+    return this.witness(bundle, signature);
   }
 
   protected override async package(
     artifact: Artifact,
     signature: Signature
   ): Promise<BundleWithMessageSignature> {
-    return toMessageSignatureBundle(artifact, signature);
+    return toMessageSignatureBundle(artifact, signature, this.certificateChain);
+  }
+}
+
+// Yields the chunks of the stream unchanged while passing each one to the
+// supplied callback
+async function* tee(
+  data: ArtifactStream,
+  fn: (chunk: Uint8Array | string) => void
+): ArtifactStream {
+  for await (const chunk of data) {
+    fn(chunk);
+    yield chunk;
   }
 }
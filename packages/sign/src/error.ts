@@ -19,11 +19,13 @@ import { HTTPError } from './external/error';
 /* eslint-disable @typescript-eslint/no-explicit-any */
 type InternalErrorCode =
   | 'TLOG_FETCH_ENTRY_ERROR'
+  | 'TLOG_FETCH_PROOF_ERROR'
   | 'TLOG_CREATE_ENTRY_ERROR'
   | 'CA_CREATE_SIGNING_CERTIFICATE_ERROR'
   | 'TSA_CREATE_TIMESTAMP_ERROR'
   | 'IDENTITY_TOKEN_READ_ERROR'
-  | 'IDENTITY_TOKEN_PARSE_ERROR';
+  | 'IDENTITY_TOKEN_PARSE_ERROR'
+  | 'SIGNING_KEY_ERROR';
 
 export class InternalError extends Error {
   code: InternalErrorCode;
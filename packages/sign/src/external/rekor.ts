@@ -16,19 +16,27 @@ limitations under the License.
 import { fetchWithRetry } from './fetch';
 
 import type {
+  ConsistencyProof,
+  CreateEntryRequest,
   LogEntry,
   ProposedDSSEEntry,
   ProposedEntry,
   ProposedHashedRekordEntry,
   ProposedIntotoEntry,
+  TransparencyLogEntryV2,
+  Verifier,
 } from '@sigstore/rekor-types';
 import type { FetchOptions } from '../types/fetch';
 
 export type {
+  ConsistencyProof,
+  CreateEntryRequest,
   ProposedDSSEEntry,
   ProposedEntry,
   ProposedHashedRekordEntry,
   ProposedIntotoEntry,
+  TransparencyLogEntryV2,
+  Verifier,
 };
 
 // The LogEntry type from @sigstore/rekor-types is a Record type
@@ -99,6 +107,66 @@ export class Rekor {
     const data: LogEntry = await response.json();
     return entryFromResponse(data);
   }
+
+  /**
+   * Get a consistency proof between two sizes of the Rekor log.
+   * @param firstSize {bigint} The size of the older tree
+   * @param lastSize {bigint} The size of the newer tree
+   * @returns {Promise<ConsistencyProof>} The retrieved proof
+   */
+  public async getConsistencyProof(
+    firstSize: bigint,
+    lastSize: bigint
+  ): Promise<ConsistencyProof> {
+    const { baseURL, timeout, retry } = this.options;
+    const url = `${baseURL}/api/v1/log/proof?firstSize=${firstSize}&lastSize=${lastSize}`;
+
+    const response = await fetchWithRetry(url, {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
+      timeout,
+      retry,
+    });
+
+    return response.json();
+  }
+}
+
+/**
+ * Rekor v2 API client.
+ */
+export class RekorV2 {
+  private options: RekorOptions;
+
+  constructor(options: RekorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Create a new entry in the Rekor v2 log.
+   * @param request {CreateEntryRequest} Data to create a new entry
+   * @returns {Promise<TransparencyLogEntryV2>} The created entry
+   */
+  public async createEntry(
+    request: CreateEntryRequest
+  ): Promise<TransparencyLogEntryV2> {
+    const { baseURL, timeout, retry } = this.options;
+    const url = `${baseURL}/api/v2/log/entries`;
+
+    const response = await fetchWithRetry(url, {
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+      body: JSON.stringify(request),
+      timeout,
+      retry,
+    });
+
+    return response.json();
+  }
 }
 
 // Unpack the response from the Rekor API into a more convenient format.
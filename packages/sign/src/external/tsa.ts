@@ -51,4 +51,22 @@ export class TimestampAuthority {
 
     return response.buffer();
   }
+
+  // Submits a DER-encoded RFC 3161 TimeStampReq and returns the DER-encoded
+  // TimeStampResp. Standard TSAs serve requests at their configured URL, so
+  // the base URL is used as-is.
+  public async createTimestampQuery(query: Buffer): Promise<Buffer> {
+    const { baseURL, timeout, retry } = this.options;
+
+    const response = await fetchWithRetry(baseURL, {
+      headers: {
+        'Content-Type': 'application/timestamp-query',
+      },
+      body: query,
+      timeout,
+      retry,
+    });
+
+    return response.buffer();
+  }
 }
@@ -1,15 +1,42 @@
 export type { Bundle } from '@sigstore/bundle';
 export { DSSEBundleBuilder, MessageSignatureBundleBuilder } from './bundler';
-export type { Artifact, BundleBuilder, BundleBuilderOptions } from './bundler';
+export type {
+  Artifact,
+  ArtifactStream,
+  BundleBuilder,
+  BundleBuilderOptions,
+} from './bundler';
 export { InternalError } from './error';
 export { CIContextProvider } from './identity';
 export type { IdentityProvider } from './identity';
-export { DEFAULT_FULCIO_URL, FulcioSigner } from './signer';
-export type { FulcioSignerOptions, Signature, Signer } from './signer';
-export { DEFAULT_REKOR_URL, RekorWitness, TSAWitness } from './witness';
+export {
+  DEFAULT_FULCIO_URL,
+  DigestSignerAdapter,
+  FileDigestSigner,
+  FulcioSigner,
+  KeySigner,
+} from './signer';
+export type {
+  DigestAlgorithm,
+  DigestSigner,
+  DigestSignerAdapterOptions,
+  FileDigestSignerOptions,
+  FulcioSignerOptions,
+  KeySignerOptions,
+  Signature,
+  Signer,
+} from './signer';
+export {
+  DEFAULT_REKOR_URL,
+  RekorClient,
+  RekorWitness,
+  TSAWitness,
+} from './witness';
 export type {
+  RekorClientOptions,
   RekorWitnessOptions,
   SignatureBundle,
+  TSAProtocol,
   TSAWitnessOptions,
   VerificationMaterial,
   Witness,
@@ -0,0 +1,87 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto, { KeyObject } from 'crypto';
+import fs from 'fs/promises';
+import { InternalError } from '../../error';
+import { crypto as core } from '../../util';
+import { loadPrivateKey } from '../key';
+
+import type { DigestAlgorithm, DigestSigner } from '.';
+
+export type FileDigestSignerOptions = {
+  // Path to a PKCS#8 private key (PEM or DER-encoded)
+  keyPath: string;
+  // Passphrase used to decrypt an encrypted private key
+  passphrase?: string;
+  digestAlgorithm?: DigestAlgorithm;
+};
+
+// Reference DigestSigner implementation backed by a private key on the local
+// filesystem. Stands in for a KMS or HSM so that digest-signing flows can be
+// exercised offline. Only RSA (PKCS#1 v1.5) keys are supported -- Node can
+// sign a pre-computed digest with the native RSA primitives, but offers no
+// constant-time way to do the same for ECDSA keys.
+export class FileDigestSigner implements DigestSigner {
+  public readonly digestAlgorithm: DigestAlgorithm;
+  private keyPath: string;
+  private passphrase?: string;
+  private privateKey?: Promise<KeyObject>;
+
+  constructor(options: FileDigestSignerOptions) {
+    this.keyPath = options.keyPath;
+    this.passphrase = options.passphrase;
+    this.digestAlgorithm = options.digestAlgorithm || 'sha256';
+  }
+
+  public async getPublicKey(): Promise<string> {
+    const privateKey = await this.loadKey();
+    return crypto
+      .createPublicKey(privateKey)
+      .export({ format: 'pem', type: 'spki' })
+      .toString('ascii');
+  }
+
+  public async signDigest(digest: Buffer): Promise<Buffer> {
+    const privateKey = await this.loadKey();
+    return core.signDigest(digest, privateKey, this.digestAlgorithm);
+  }
+
+  // The key is read from disk the first time it is needed
+  private loadKey(): Promise<KeyObject> {
+    if (!this.privateKey) {
+      this.privateKey = readKey(this.keyPath, this.passphrase);
+    }
+    return this.privateKey;
+  }
+}
+
+async function readKey(path: string, passphrase?: string): Promise<KeyObject> {
+  const keyBytes = await fs.readFile(path);
+  const pem = keyBytes.toString('utf8');
+  const key = loadPrivateKey(
+    pem.includes('-----BEGIN') ? pem : keyBytes,
+    passphrase
+  );
+
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw new InternalError({
+      code: 'SIGNING_KEY_ERROR',
+      message: `unsupported key type: ${key.asymmetricKeyType} (FileDigestSigner only supports RSA keys)`,
+    });
+  }
+
+  return key;
+}
@@ -0,0 +1,111 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto from 'crypto';
+import { crypto as core } from '../../util';
+import { computeKeyHint } from '../key';
+
+import type { ArtifactStream } from '../../bundler';
+import type { Signature, Signer } from '../signer';
+
+export { FileDigestSigner } from './file';
+export type { FileDigestSignerOptions } from './file';
+
+// The algorithm is recorded alongside the digest in message signature bundles
+// and Rekor hashedrekord entries so that the signature can be verified
+// against the digest
+export type DigestAlgorithm = 'sha256' | 'sha384' | 'sha512';
+
+// A DigestSigner generates signatures over a pre-computed digest rather than
+// the raw data. This is the model used by most KMS and HSM services where the
+// data is hashed locally and only the digest is sent to be signed by a key
+// which never leaves the service.
+export interface DigestSigner {
+  // The algorithm used to pre-hash the data before it is signed
+  digestAlgorithm: DigestAlgorithm;
+  // Returns the PEM-encoded public key which corresponds to the signing key
+  getPublicKey: () => Promise<string>;
+  // Signs the supplied digest and returns the signature
+  signDigest: (digest: Buffer) => Promise<Buffer>;
+}
+
+export type DigestSignerAdapterOptions = {
+  digestSigner: DigestSigner;
+  // Hint used to identify the public key during verification. Defaults to the
+  // hex-encoded SHA-256 digest of the DER-encoded public key.
+  keyHint?: string;
+};
+
+// Signer implementation which hashes the data locally and delegates the
+// signing of the digest to a DigestSigner. Can be used directly with a
+// BundleBuilder to create public-key bundles or as the key holder for a
+// FulcioSigner.
+export class DigestSignerAdapter implements Signer {
+  private digestSigner: DigestSigner;
+  private keyHint?: string;
+  private publicKey?: string;
+
+  constructor(options: DigestSignerAdapterOptions) {
+    this.digestSigner = options.digestSigner;
+    this.keyHint = options.keyHint;
+  }
+
+  public async sign(data: Buffer): Promise<Signature> {
+    const digest = crypto
+      .createHash(this.digestSigner.digestAlgorithm)
+      .update(data)
+      .digest();
+    return this.signHash(digest);
+  }
+
+  public async signStream(data: ArtifactStream): Promise<Signature> {
+    const digest = await core.digestStream(
+      this.digestSigner.digestAlgorithm,
+      data
+    );
+    return this.signHash(digest);
+  }
+
+  private async signHash(digest: Buffer): Promise<Signature> {
+    const signature = await this.digestSigner.signDigest(digest);
+    const publicKey = await this.getPublicKey();
+
+    return {
+      signature,
+      key: {
+        $case: 'publicKey',
+        publicKey,
+        hint: this.keyHint || computeKeyHint(crypto.createPublicKey(publicKey)),
+      },
+      messageDigest: { algorithm: this.digestSigner.digestAlgorithm, digest },
+    };
+  }
+
+  // The public key is cached after the first retrieval to avoid repeated
+  // round-trips to the backing service
+  private async getPublicKey(): Promise<string> {
+    if (!this.publicKey) {
+      this.publicKey = await this.digestSigner.getPublicKey();
+    }
+    return this.publicKey;
+  }
+}
+
+// DigestSigners are identified by their digest algorithm
+export function isDigestSigner(
+  signer: Signer | DigestSigner
+): signer is DigestSigner {
+  return 'digestAlgorithm' in signer;
+}
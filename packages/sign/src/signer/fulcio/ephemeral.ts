@@ -14,7 +14,9 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import crypto, { KeyPairKeyObjectResult } from 'crypto';
+import { crypto as core } from '../../util';
 
+import type { ArtifactStream } from '../../bundler';
 import type { Signature, Signer } from '../signer';
 
 const EC_KEYPAIR_TYPE = 'ec';
@@ -34,6 +36,15 @@ export class EphemeralSigner implements Signer {
 
   public async sign(data: Buffer): Promise<Signature> {
     const signature = crypto.sign(null, data, this.keypair.privateKey);
+    return this.toSignature(signature);
+  }
+
+  public async signStream(data: ArtifactStream): Promise<Signature> {
+    const signature = await core.signStream(data, this.keypair.privateKey);
+    return this.toSignature(signature);
+  }
+
+  private toSignature(signature: Buffer): Signature {
     const publicKey = this.keypair.publicKey
       .export({ format: 'pem', type: 'spki' })
       .toString('ascii');
@@ -15,17 +15,20 @@ limitations under the License.
 */
 import { InternalError } from '../../error';
 import { oidc } from '../../util';
+import { DigestSignerAdapter, isDigestSigner } from '../digest';
 import { CA, CAClient, CAClientOptions } from './ca';
 import { EphemeralSigner } from './ephemeral';
 
+import type { ArtifactStream } from '../../bundler';
 import type { IdentityProvider } from '../../identity';
+import type { DigestSigner } from '../digest';
 import type { Signature, Signer } from '../signer';
 
 export const DEFAULT_FULCIO_URL = 'https://fulcio.sigstore.dev';
 
 export type FulcioSignerOptions = {
   identityProvider: IdentityProvider;
-  keyHolder?: Signer;
+  keyHolder?: Signer | DigestSigner;
 } & Partial<CAClientOptions>;
 
 // Signer implementation which can be used to decorate another signer
@@ -44,10 +47,45 @@ export class FulcioSigner implements Signer {
         options.fulcioBaseURL || /* istanbul ignore next */ DEFAULT_FULCIO_URL,
     });
     this.identityProvider = options.identityProvider;
-    this.keyHolder = options.keyHolder || new EphemeralSigner();
+    this.keyHolder = initKeyHolder(options.keyHolder);
   }
 
   public async sign(data: Buffer): Promise<Signature> {
+    const certificate = await this.getSigningCertificate();
+
+    // Generate artifact signature
+    const signature = await this.keyHolder.sign(data);
+
+    // Specifically returning only the first certificate in the chain
+    // as the key.
+    return {
+      signature: signature.signature,
+      key: { $case: 'x509Certificate', certificate },
+      messageDigest: signature.messageDigest,
+    };
+  }
+
+  public async signStream(data: ArtifactStream): Promise<Signature> {
+    if (!this.keyHolder.signStream) {
+      throw new InternalError({
+        code: 'SIGNING_KEY_ERROR',
+        message: 'key holder does not support stream signing',
+      });
+    }
+
+    const certificate = await this.getSigningCertificate();
+    const signature = await this.keyHolder.signStream(data);
+
+    return {
+      signature: signature.signature,
+      key: { $case: 'x509Certificate', certificate },
+      messageDigest: signature.messageDigest,
+    };
+  }
+
+  // Requests a signing certificate from Fulcio for the key holder's public key.
+  // Returns the leaf certificate.
+  private async getSigningCertificate(): Promise<string> {
     // Retrieve identity token from the supplied identity provider
     const identityToken = await this.getIdentityToken();
 
@@ -80,18 +118,7 @@ export class FulcioSigner implements Signer {
       challenge.signature
     );
 
-    // Generate artifact signature
-    const signature = await this.keyHolder.sign(data);
-
-    // Specifically returning only the first certificate in the chain
-    // as the key.
-    return {
-      signature: signature.signature,
-      key: {
-        $case: 'x509Certificate',
-        certificate: certificates[0],
-      },
-    };
+    return certificates[0];
   }
 
   private async getIdentityToken(): Promise<string> {
@@ -106,3 +133,16 @@ export class FulcioSigner implements Signer {
     }
   }
 }
+
+// A DigestSigner may be supplied as the key holder, in which case it is
+// adapted to the Signer interface. When no key holder is supplied, an
+// ephemeral keypair is used.
+function initKeyHolder(keyHolder?: Signer | DigestSigner): Signer {
+  if (!keyHolder) {
+    return new EphemeralSigner();
+  }
+
+  return isDigestSigner(keyHolder)
+    ? new DigestSignerAdapter({ digestSigner: keyHolder })
+    : keyHolder;
+}
@@ -20,4 +20,12 @@ export {
   FulcioSigner,
   FulcioSignerOptions,
 } from './fulcio';
+export { DigestSignerAdapter, FileDigestSigner } from './digest';
+export type {
+  DigestAlgorithm,
+  DigestSigner,
+  DigestSignerAdapterOptions,
+  FileDigestSignerOptions,
+} from './digest';
+export { KeySigner, KeySignerOptions } from './key';
 export type { KeyMaterial, Signature, Signer } from './signer';
@@ -0,0 +1,139 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto, { KeyObject } from 'crypto';
+import { InternalError } from '../error';
+import { crypto as core } from '../util';
+
+import type { ArtifactStream } from '../bundler';
+import type { Signature, Signer } from './signer';
+
+// Curves supported for ECDSA signing keys
+const SUPPORTED_EC_CURVES = ['prime256v1', 'secp384r1'];
+
+export type KeySignerOptions = {
+  // PKCS#8 private key. May be supplied as a PEM-encoded string or a
+  // DER-encoded buffer.
+  privateKey: string | Buffer;
+  // Passphrase used to decrypt an encrypted private key
+  passphrase?: string;
+  // Hint used to identify the public key during verification. Defaults to the
+  // hex-encoded SHA-256 digest of the DER-encoded public key.
+  keyHint?: string;
+};
+
+// Signer implementation which uses a long-lived private key to sign artifacts.
+// The resulting signature carries the public key and key hint (instead of a
+// signing certificate) as the verification material.
+export class KeySigner implements Signer {
+  private privateKey: KeyObject;
+  private publicKey: string;
+  private keyHint: string;
+
+  constructor(options: KeySignerOptions) {
+    this.privateKey = loadPrivateKey(options.privateKey, options.passphrase);
+
+    const publicKey = crypto.createPublicKey(this.privateKey);
+    this.publicKey = publicKey
+      .export({ format: 'pem', type: 'spki' })
+      .toString('ascii');
+    this.keyHint = options.keyHint || computeKeyHint(publicKey);
+  }
+
+  public async sign(data: Buffer): Promise<Signature> {
+    const signature = crypto.sign(null, data, this.privateKey);
+    return this.toSignature(signature);
+  }
+
+  public async signStream(data: ArtifactStream): Promise<Signature> {
+    // Ed25519 signatures are computed over the raw message in a single pass,
+    // so there is no way to sign data incrementally
+    if (this.privateKey.asymmetricKeyType === 'ed25519') {
+      throw new InternalError({
+        code: 'SIGNING_KEY_ERROR',
+        message: 'ed25519 keys do not support stream signing',
+      });
+    }
+
+    const signature = await core.signStream(data, this.privateKey);
+    return this.toSignature(signature);
+  }
+
+  private toSignature(signature: Buffer): Signature {
+    return {
+      signature,
+      key: {
+        $case: 'publicKey',
+        publicKey: this.publicKey,
+        hint: this.keyHint,
+      },
+    };
+  }
+}
+
+// Loads a PKCS#8 private key, ensuring that it is one of the supported key
+// types
+export function loadPrivateKey(
+  key: string | Buffer,
+  passphrase?: string
+): KeyObject {
+  let privateKey: KeyObject;
+  try {
+    privateKey = crypto.createPrivateKey({
+      key,
+      format: typeof key === 'string' ? 'pem' : 'der',
+      type: 'pkcs8',
+      passphrase,
+    });
+  } catch (err) {
+    throw new InternalError({
+      code: 'SIGNING_KEY_ERROR',
+      message: 'error loading private key',
+      cause: err,
+    });
+  }
+
+  if (!isSupportedKey(privateKey)) {
+    throw new InternalError({
+      code: 'SIGNING_KEY_ERROR',
+      message: `unsupported key type: ${privateKey.asymmetricKeyType}`,
+    });
+  }
+
+  return privateKey;
+}
+
+// Computes the default key hint -- the hex-encoded SHA-256 digest of the
+// DER-encoded public key
+export function computeKeyHint(publicKey: KeyObject): string {
+  return crypto
+    .createHash('sha256')
+    .update(publicKey.export({ format: 'der', type: 'spki' }))
+    .digest('hex');
+}
+
+function isSupportedKey(key: KeyObject): boolean {
+  switch (key.asymmetricKeyType) {
+    case 'ec':
+      return SUPPORTED_EC_CURVES.includes(
+        key.asymmetricKeyDetails?.namedCurve || /* istanbul ignore next */ ''
+      );
+    case 'ed25519':
+    case 'rsa':
+      return true;
+    default:
+      return false;
+  }
+}
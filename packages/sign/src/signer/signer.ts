@@ -13,6 +13,8 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import type { ArtifactStream } from '../bundler';
+import type { DigestAlgorithm } from './digest';
 
 // KeyMaterial is a union type representing either a public key or an X.509
 // certificate.
@@ -33,6 +35,10 @@ export type KeyMaterial =
 export type Signature = {
   signature: Buffer;
   key: KeyMaterial;
+  // The digest which was signed, for signers which pre-hash the data. Message
+  // signature bundles record this digest in place of the SHA-256 digest of
+  // the data so that the signature can be verified against it.
+  messageDigest?: { algorithm: DigestAlgorithm; digest: Buffer };
 };
 
 // A Signer is responsible for generating a signature for the given blob
@@ -40,4 +46,8 @@ export type Signature = {
 // the key material used for verification.
 export interface Signer {
   sign: (data: Buffer) => Promise<Signature>;
+  // Optional. Generates the same signature as `sign` for data which is read
+  // incrementally. Must consume the entire stream. Required when signing
+  // streamed artifacts.
+  signStream?: (data: ArtifactStream) => Promise<Signature>;
 }
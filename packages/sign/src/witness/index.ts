@@ -15,6 +15,12 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-export { DEFAULT_REKOR_URL, RekorWitness, RekorWitnessOptions } from './tlog';
-export { TSAWitness, TSAWitnessOptions } from './tsa';
+export {
+  DEFAULT_REKOR_URL,
+  RekorClient,
+  RekorClientOptions,
+  RekorWitness,
+  RekorWitnessOptions,
+} from './tlog';
+export { TSAProtocol, TSAWitness, TSAWitnessOptions } from './tsa';
 export type { SignatureBundle, VerificationMaterial, Witness } from './witness';
@@ -15,17 +15,31 @@ limitations under the License.
 */
 import { internalError } from '../../error';
 import { HTTPError } from '../../external/error';
-import { Rekor } from '../../external/rekor';
+import { Rekor, RekorV2 } from '../../external/rekor';
 
-import type { Entry, ProposedEntry } from '../../external/rekor';
+import type {
+  CreateEntryRequest,
+  Entry,
+  ProposedEntry,
+  TransparencyLogEntryV2,
+} from '../../external/rekor';
 import type { FetchOptions } from '../../types/fetch';
 
-export type { Entry, ProposedEntry };
+export type {
+  CreateEntryRequest,
+  Entry,
+  ProposedEntry,
+  TransparencyLogEntryV2,
+};
 
 export interface TLog {
   createEntry: (proposedEntry: ProposedEntry) => Promise<Entry>;
 }
 
+export interface TLogV2 {
+  createEntry: (request: CreateEntryRequest) => Promise<TransparencyLogEntryV2>;
+}
+
 export type TLogClientOptions = {
   rekorBaseURL: string;
   fetchOnConflict?: boolean;
@@ -77,6 +91,33 @@ export class TLogClient implements TLog {
   }
 }
 
+// Client for the Rekor v2 (tile-backed log) API
+export class TLogV2Client implements TLogV2 {
+  private rekor: RekorV2;
+
+  constructor(options: Omit<TLogClientOptions, 'fetchOnConflict'>) {
+    this.rekor = new RekorV2({
+      baseURL: options.rekorBaseURL,
+      retry: options.retry,
+      timeout: options.timeout,
+    });
+  }
+
+  public async createEntry(
+    request: CreateEntryRequest
+  ): Promise<TransparencyLogEntryV2> {
+    return this.rekor
+      .createEntry(request)
+      .catch((err) =>
+        internalError(
+          err,
+          'TLOG_CREATE_ENTRY_ERROR',
+          'error creating tlog entry'
+        )
+      );
+  }
+}
+
 function entryExistsError(
   value: unknown
 ): value is HTTPError & { location: string } {
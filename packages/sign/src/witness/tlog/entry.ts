@@ -14,13 +14,22 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import { Envelope, MessageSignature, envelopeToJSON } from '@sigstore/bundle';
-import { crypto, encoding as enc, json } from '../../util';
+import {
+  HashAlgorithm,
+  PublicKeyDetails,
+  publicKeyDetailsToJSON,
+} from '@sigstore/protobuf-specs';
+import nodeCrypto from 'crypto';
+import { InternalError } from '../../error';
+import { crypto, encoding as enc, json, pem } from '../../util';
 
 import type {
+  CreateEntryRequest,
   ProposedDSSEEntry,
   ProposedEntry,
   ProposedHashedRekordEntry,
   ProposedIntotoEntry,
+  Verifier,
 } from '../../external/rekor';
 import type { SignatureBundle } from '../witness';
 
@@ -44,12 +53,74 @@ export function toProposedEntry(
   }
 }
 
+// Returns the Rekor v2 request for the given signature bundle. Rekor v2 only
+// supports "hashedrekord" and "dsse" entries.
+export function toCreateEntryRequest(
+  content: SignatureBundle,
+  publicKey: string
+): CreateEntryRequest {
+  const verifier = toVerifier(publicKey);
+
+  switch (content.$case) {
+    case 'dsseEnvelope': {
+      const envelope = content.dsseEnvelope;
+      const signature = signerSignature(envelope);
+      return {
+        dsseRequestV002: {
+          envelope: {
+            payload: envelope.payload.toString('base64'),
+            payloadType: envelope.payloadType,
+            signatures: [
+              {
+                sig: signature.sig.toString('base64'),
+                keyid: signature.keyid,
+              },
+            ],
+          },
+          verifiers: [verifier],
+        },
+      };
+    }
+    case 'messageSignature':
+      // The hash used to verify the signature is implied by the key details,
+      // which only describe SHA-256 signatures for the supported RSA keys
+      if (
+        content.messageSignature.messageDigest.algorithm !==
+        HashAlgorithm.SHA2_256
+      ) {
+        throw new InternalError({
+          code: 'TLOG_CREATE_ENTRY_ERROR',
+          message: 'only SHA-256 digests are supported for Rekor v2 entries',
+        });
+      }
+
+      return {
+        hashedRekordRequestV002: {
+          digest:
+            content.messageSignature.messageDigest.digest.toString('base64'),
+          signature: {
+            content: content.messageSignature.signature.toString('base64'),
+            verifier,
+          },
+        },
+      };
+  }
+}
+
 // Returns a properly formatted Rekor "hashedrekord" entry for the given digest
-// and signature
+// and signature. Rekor v1 verifies the signature against the digest alone,
+// which isn't possible for Ed25519 signatures over the full message.
 function toProposedHashedRekordEntry(
   messageSignature: MessageSignature,
   publicKey: string
 ): ProposedHashedRekordEntry {
+  if (isEd25519Key(publicKey)) {
+    throw new InternalError({
+      code: 'TLOG_CREATE_ENTRY_ERROR',
+      message: 'ed25519 keys are not supported for hashedrekord entries',
+    });
+  }
+
   const hexDigest = messageSignature.messageDigest.digest.toString('hex');
   const b64Signature = messageSignature.signature.toString('base64');
   const b64Key = enc.base64Encode(publicKey);
@@ -60,7 +131,7 @@ function toProposedHashedRekordEntry(
     spec: {
       data: {
         hash: {
-          algorithm: SHA256_ALGORITHM,
+          algorithm: hashAlgorithm(messageSignature.messageDigest.algorithm),
           value: hexDigest,
         },
       },
@@ -74,13 +145,39 @@ function toProposedHashedRekordEntry(
   };
 }
 
+function hashAlgorithm(
+  algorithm: HashAlgorithm
+): 'sha256' | 'sha384' | 'sha512' {
+  switch (algorithm) {
+    case HashAlgorithm.SHA2_384:
+      return 'sha384';
+    case HashAlgorithm.SHA2_512:
+      return 'sha512';
+    default:
+      return SHA256_ALGORITHM;
+  }
+}
+
+// Keys which can't be parsed are left for Rekor to reject
+function isEd25519Key(publicKey: string): boolean {
+  try {
+    return (
+      nodeCrypto.createPublicKey(publicKey).asymmetricKeyType === 'ed25519'
+    );
+  } catch {
+    return false;
+  }
+}
+
 // Returns a properly formatted Rekor "dsse" entry for the given DSSE envelope
 // and signature
 function toProposedDSSEEntry(
   envelope: Envelope,
   publicKey: string
 ): ProposedDSSEEntry {
-  const envelopeJSON = JSON.stringify(envelopeToJSON(envelope));
+  const envelopeJSON = JSON.stringify(
+    envelopeToJSON({ ...envelope, signatures: [signerSignature(envelope)] })
+  );
   const encodedKey = enc.base64Encode(publicKey);
 
   return {
@@ -112,8 +209,9 @@ function toProposedIntotoEntry(
   // Collect values for re-creating the DSSE envelope.
   // Double-encode payload and signature cause that's what Rekor expects
   const payload = enc.base64Encode(envelope.payload.toString('base64'));
-  const sig = enc.base64Encode(envelope.signatures[0].sig.toString('base64'));
-  const keyid = envelope.signatures[0].keyid;
+  const signature = signerSignature(envelope);
+  const sig = enc.base64Encode(signature.sig.toString('base64'));
+  const keyid = signature.keyid;
   const encodedKey = enc.base64Encode(publicKey);
 
   // Create the envelope portion of the entry. Note the inclusion of the
@@ -149,24 +247,77 @@ function toProposedIntotoEntry(
 // There is no standard way to do this, so the scheme we're using as as
 // follows:
 //  * payload is base64 encoded
-//  * signature is base64 encoded (only the first signature is used)
+//  * signature is base64 encoded (only the signer's signature is used)
 //  * keyid is included ONLY if it is NOT an empty string
 //  * The resulting JSON is canonicalized and hashed to a hex string
 function calculateDSSEHash(envelope: Envelope, publicKey: string): string {
+  const signature = signerSignature(envelope);
   const dsse: ProposedIntotoEntry['spec']['content']['envelope'] = {
     payloadType: envelope.payloadType,
     payload: envelope.payload.toString('base64'),
-    signatures: [
-      { sig: envelope.signatures[0].sig.toString('base64'), publicKey },
-    ],
+    signatures: [{ sig: signature.sig.toString('base64'), publicKey }],
   };
 
   // If the keyid is an empty string, Rekor seems to remove it altogether.
-  if (envelope.signatures[0].keyid.length > 0) {
-    dsse.signatures[0].keyid = envelope.signatures[0].keyid;
+  if (signature.keyid.length > 0) {
+    dsse.signatures[0].keyid = signature.keyid;
   }
 
   return crypto
     .digest(SHA256_ALGORITHM, json.canonicalize(dsse))
     .toString('hex');
 }
+
+// Rekor v2 requires the verification material to be DER-encoded and
+// accompanied by the details of the key type
+function toVerifier(publicKey: string): Verifier {
+  const rawBytes = pem.toDER(publicKey).toString('base64');
+  const keyDetails = publicKeyDetailsToJSON(
+    toKeyDetails(nodeCrypto.createPublicKey(publicKey))
+  );
+
+  return publicKey.includes('CERTIFICATE')
+    ? { x509Certificate: { rawBytes }, keyDetails }
+    : { publicKey: { rawBytes }, keyDetails };
+}
+
+function toKeyDetails(key: nodeCrypto.KeyObject): PublicKeyDetails {
+  const details = key.asymmetricKeyDetails;
+
+  switch (key.asymmetricKeyType) {
+    case 'ec':
+      switch (details?.namedCurve) {
+        case 'prime256v1':
+          return PublicKeyDetails.PKIX_ECDSA_P256_SHA_256;
+        case 'secp384r1':
+          return PublicKeyDetails.PKIX_ECDSA_P384_SHA_384;
+        case 'secp521r1':
+          return PublicKeyDetails.PKIX_ECDSA_P521_SHA_512;
+      }
+      break;
+    case 'rsa':
+      switch (details?.modulusLength) {
+        case 2048:
+          return PublicKeyDetails.PKIX_RSA_PKCS1V15_2048_SHA256;
+        case 3072:
+          return PublicKeyDetails.PKIX_RSA_PKCS1V15_3072_SHA256;
+        case 4096:
+          return PublicKeyDetails.PKIX_RSA_PKCS1V15_4096_SHA256;
+      }
+      break;
+    case 'ed25519':
+      return PublicKeyDetails.PKIX_ED25519;
+  }
+
+  throw new InternalError({
+    code: 'TLOG_CREATE_ENTRY_ERROR',
+    message: `unsupported key type: ${key.asymmetricKeyType}`,
+  });
+}
+
+// Returns the signature created by the signer whose key is being recorded in
+// the log. When an envelope has been co-signed, this is the final signature --
+// the co-signatures are recorded by their own signers.
+function signerSignature(envelope: Envelope): Envelope['signatures'][number] {
+  return envelope.signatures[envelope.signatures.length - 1];
+}
@@ -20,8 +20,14 @@ import {
   TLog,
   TLogClient,
   TLogClientOptions,
+  TLogV2,
+  TLogV2Client,
+  TransparencyLogEntryV2,
 } from './client';
-import { toProposedEntry } from './entry';
+import { toCreateEntryRequest, toProposedEntry } from './entry';
+
+export { RekorClient } from './proof';
+export type { RekorClientOptions } from './proof';
 
 import type { TransparencyLogEntry } from '@sigstore/bundle';
 import type { SignatureBundle, Witness } from '../witness';
@@ -32,25 +38,43 @@ type TransparencyLogEntries = { tlogEntries: TransparencyLogEntry[] };
 
 export type RekorWitnessOptions = Partial<TLogClientOptions> & {
   entryType?: 'dsse' | 'intoto';
+  // Major version of the Rekor API to use. Rekor v2 logs return entries
+  // which carry only an inclusion proof and checkpoint (no SET or integrated
+  // time), so a timestamp authority must be used alongside them. The
+  // entryType option is ignored for v2 -- DSSE envelopes are always recorded
+  // as "dsse" entries.
+  majorApiVersion?: 1 | 2;
 };
 
 export class RekorWitness implements Witness {
   private tlog: TLog;
+  private tlogV2?: TLogV2;
   private entryType?: 'dsse' | 'intoto';
 
   constructor(options: RekorWitnessOptions) {
     this.entryType = options.entryType;
-    this.tlog = new TLogClient({
+
+    const clientOptions = {
       ...options,
       rekorBaseURL:
         options.rekorBaseURL || /* istanbul ignore next */ DEFAULT_REKOR_URL,
-    });
+    };
+    this.tlog = new TLogClient(clientOptions);
+    if (options.majorApiVersion === 2) {
+      this.tlogV2 = new TLogV2Client(clientOptions);
+    }
   }
 
   public async testify(
     content: SignatureBundle,
     publicKey: string
   ): Promise<TransparencyLogEntries> {
+    if (this.tlogV2) {
+      const request = toCreateEntryRequest(content, publicKey);
+      const entry = await this.tlogV2.createEntry(request);
+      return toTransparencyLogEntryV2(entry);
+    }
+
     const proposedEntry = toProposedEntry(content, publicKey, this.entryType);
     const entry = await this.tlog.createEntry(proposedEntry);
     return toTransparencyLogEntry(entry);
@@ -92,6 +116,35 @@ function toTransparencyLogEntry(entry: Entry): TransparencyLogEntries {
   };
 }
 
+// Converts the JSON-encoded TransparencyLogEntry returned by Rekor v2
+function toTransparencyLogEntryV2(
+  entry: TransparencyLogEntryV2
+): TransparencyLogEntries {
+  const proof = entry.inclusionProof;
+
+  const tlogEntry: TransparencyLogEntry = {
+    logIndex: entry.logIndex,
+    logId: {
+      keyId: Buffer.from(entry.logId.keyId, 'base64'),
+    },
+    integratedTime: entry.integratedTime,
+    kindVersion: entry.kindVersion,
+    inclusionPromise: undefined,
+    inclusionProof: {
+      logIndex: proof.logIndex,
+      treeSize: proof.treeSize,
+      rootHash: Buffer.from(proof.rootHash, 'base64'),
+      hashes: proof.hashes.map((h) => Buffer.from(h, 'base64')),
+      checkpoint: proof.checkpoint,
+    },
+    canonicalizedBody: Buffer.from(entry.canonicalizedBody, 'base64'),
+  };
+
+  return {
+    tlogEntries: [tlogEntry],
+  };
+}
+
 function inclusionPromise(
   promise: NonNullable<
     NonNullable<Entry['verification']>['signedEntryTimestamp']
@@ -0,0 +1,101 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { InternalError, internalError } from '../../error';
+import { Rekor } from '../../external/rekor';
+import { crypto } from '../../util';
+
+import type { InclusionProof, TransparencyLogEntry } from '@sigstore/bundle';
+import type { FetchOptions } from '../../types/fetch';
+
+const DEFAULT_RETRY = { retries: 2 };
+const DEFAULT_TIMEOUT = 5000;
+
+// Domain separation prefix for the leaf hashes of the log's Merkle tree
+const LEAF_HASH_PREFIX = Buffer.from([0x00]);
+
+export type RekorClientOptions = FetchOptions;
+
+// Retrieves the current inclusion proof for an entry (and the consistency
+// proofs between checkpoints) from a Rekor v1 log. Implements the TLogClient
+// interface used by the @sigstore/verify Verifier for online verification.
+// Entries are looked up by the leaf hash of the canonicalized body, so the
+// returned proof is always for the requested entry.
+export class RekorClient {
+  private options: FetchOptions;
+
+  constructor(options: RekorClientOptions = {}) {
+    this.options = {
+      retry: options.retry ?? DEFAULT_RETRY,
+      timeout: options.timeout ?? DEFAULT_TIMEOUT,
+    };
+  }
+
+  public async getInclusionProof(
+    baseURL: string,
+    entry: TransparencyLogEntry
+  ): Promise<InclusionProof> {
+    const uuid = crypto
+      .digest('sha256', LEAF_HASH_PREFIX, entry.canonicalizedBody)
+      .toString('hex');
+    const rekorEntry = await this.rekor(baseURL)
+      .getEntry(uuid)
+      .catch((err) =>
+        internalError(
+          err,
+          'TLOG_FETCH_ENTRY_ERROR',
+          'error fetching tlog entry'
+        )
+      );
+    const proof = rekorEntry.verification?.inclusionProof;
+
+    if (!proof) {
+      throw new InternalError({
+        code: 'TLOG_FETCH_ENTRY_ERROR',
+        message: `no inclusion proof for entry ${uuid}`,
+      });
+    }
+
+    return {
+      logIndex: proof.logIndex.toString(),
+      rootHash: Buffer.from(proof.rootHash, 'hex'),
+      treeSize: proof.treeSize.toString(),
+      hashes: proof.hashes.map((hash) => Buffer.from(hash, 'hex')),
+      checkpoint: { envelope: proof.checkpoint },
+    };
+  }
+
+  public async getConsistencyProof(
+    baseURL: string,
+    oldSize: bigint,
+    newSize: bigint
+  ): Promise<Buffer[]> {
+    const proof = await this.rekor(baseURL)
+      .getConsistencyProof(oldSize, newSize)
+      .catch((err) =>
+        internalError(
+          err,
+          'TLOG_FETCH_PROOF_ERROR',
+          'error fetching consistency proof'
+        )
+      );
+
+    return proof.hashes.map((hash) => Buffer.from(hash, 'hex'));
+  }
+
+  private rekor(baseURL: string): Rekor {
+    return new Rekor({ baseURL, ...this.options });
+  }
+}
@@ -13,7 +13,9 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-import { internalError } from '../../error';
+import { RFC3161Timestamp, encodeTimestampRequest } from '@sigstore/core';
+import { randomBytes } from 'crypto';
+import { InternalError, internalError } from '../../error';
 import { TimestampAuthority } from '../../external/tsa';
 import { crypto } from '../../util';
 
@@ -21,16 +23,29 @@ import type { FetchOptions } from '../../types/fetch';
 
 const SHA256_ALGORITHM = 'sha256';
 
+// Size (in bytes) of the random nonce included in RFC 3161 requests
+const NONCE_SIZE = 8;
+
+// Requests can be made with either the JSON API offered by the Sigstore
+// timestamp-authority or the standard RFC 3161 protocol
+// (application/timestamp-query) supported by any TSA
+export type TSAProtocol = 'json' | 'rfc3161';
+
 export interface TSA {
   createTimestamp: (signature: Buffer) => Promise<Buffer>;
 }
 
 export type TSAClientOptions = {
+  // Base URL of the Sigstore timestamp-authority or, for the 'rfc3161'
+  // protocol, the URL at which the TSA accepts requests
   tsaBaseURL: string;
+  // Defaults to 'json'
+  protocol?: TSAProtocol;
 } & FetchOptions;
 
 export class TSAClient implements TSA {
   private tsa: TimestampAuthority;
+  private protocol: TSAProtocol;
 
   constructor(options: TSAClientOptions) {
     this.tsa = new TimestampAuthority({
@@ -38,9 +53,16 @@ export class TSAClient implements TSA {
       retry: options.retry,
       timeout: options.timeout,
     });
+    this.protocol = options.protocol || 'json';
   }
 
   public async createTimestamp(signature: Buffer): Promise<Buffer> {
+    return this.protocol === 'rfc3161'
+      ? this.createTimestampRFC3161(signature)
+      : this.createTimestampJSON(signature);
+  }
+
+  private async createTimestampJSON(signature: Buffer): Promise<Buffer> {
     const request = {
       artifactHash: crypto
         .digest(SHA256_ALGORITHM, signature)
@@ -58,4 +80,53 @@ export class TSAClient implements TSA {
       );
     }
   }
+
+  private async createTimestampRFC3161(signature: Buffer): Promise<Buffer> {
+    const digest = crypto.digest(SHA256_ALGORITHM, signature);
+    const nonce = BigInt(`0x${randomBytes(NONCE_SIZE).toString('hex')}`);
+    // Ask for the TSA's certificate to be included in the token so that it
+    // can be matched against the trusted root
+    const query = encodeTimestampRequest({
+      digest,
+      hashAlgorithm: SHA256_ALGORITHM,
+      nonce,
+      certReq: true,
+    });
+
+    let response: Buffer;
+    let timestamp: RFC3161Timestamp;
+    try {
+      response = await this.tsa.createTimestampQuery(query);
+      timestamp = RFC3161Timestamp.parse(response);
+      timestamp.verifyStatus();
+    } catch (err) {
+      internalError(
+        err,
+        'TSA_CREATE_TIMESTAMP_ERROR',
+        'error creating timestamp'
+      );
+    }
+
+    // Guard against replayed responses
+    if (timestamp.tstInfo.nonce !== nonce) {
+      throw new InternalError({
+        code: 'TSA_CREATE_TIMESTAMP_ERROR',
+        message: 'timestamp nonce does not match request',
+      });
+    }
+
+    // Guard against a token issued for some other artifact
+    const { tstInfo } = timestamp;
+    if (
+      tstInfo.messageImprintHashAlgorithm !== SHA256_ALGORITHM ||
+      !crypto.bufferEqual(tstInfo.messageImprintHashedMessage, digest)
+    ) {
+      throw new InternalError({
+        code: 'TSA_CREATE_TIMESTAMP_ERROR',
+        message: 'timestamp message imprint does not match request',
+      });
+    }
+
+    return response;
+  }
 }
@@ -15,6 +15,8 @@ limitations under the License.
 */
 import { TSA, TSAClient, TSAClientOptions } from './client';
 
+export type { TSAProtocol } from './client';
+
 import type { RFC3161SignedTimestamp } from '@sigstore/bundle';
 import type { SignatureBundle, Witness } from '../witness';
 
@@ -28,6 +30,7 @@ export class TSAWitness implements Witness {
   constructor(options: TSAWitnessOptions) {
     this.tsa = new TSAClient({
       tsaBaseURL: options.tsaBaseURL,
+      protocol: options.protocol,
       retry: options.retry,
       timeout: options.timeout,
     });
@@ -47,8 +50,12 @@ export class TSAWitness implements Witness {
 
 function extractSignature(content: SignatureBundle) {
   switch (content.$case) {
+    // The final signature in a co-signed envelope belongs to the signer whose
+    // bundle is being created
     case 'dsseEnvelope':
-      return content.dsseEnvelope.signatures[0].sig;
+      return content.dsseEnvelope.signatures[
+        content.dsseEnvelope.signatures.length - 1
+      ].sig;
     case 'messageSignature':
       return content.messageSignature.signature;
   }
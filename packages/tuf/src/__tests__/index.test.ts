@@ -20,11 +20,14 @@ import path from 'path';
 import { TUFClient } from '../client';
 import {
   DEFAULT_MIRROR_URL,
+  SIGNING_CONFIG_TARGET,
   TUF,
   TUFError,
   TUFOptions,
+  getSigningConfig,
   getTrustedRoot,
   initTUF,
+  selectServices,
 } from '../index';
 
 describe('public interface', () => {
@@ -53,11 +56,14 @@ describe('public interface', () => {
 
   it('exports funcs', () => {
     expect(getTrustedRoot).toBeInstanceOf(Function);
+    expect(getSigningConfig).toBeInstanceOf(Function);
+    expect(selectServices).toBeInstanceOf(Function);
     expect(initTUF).toBeInstanceOf(Function);
   });
 
   it('exports constants', () => {
     expect(DEFAULT_MIRROR_URL).toBeDefined();
+    expect(SIGNING_CONFIG_TARGET).toEqual('signing_config.json');
   });
 });
 
@@ -97,6 +103,56 @@ describe('getTrustedRoot', () => {
   });
 });
 
+describe('getSigningConfig', () => {
+  let tufRepo: ReturnType<typeof mocktuf> | undefined;
+  let options: TUFOptions | undefined;
+
+  const signingConfig = {
+    mediaType: 'application/vnd.dev.sigstore.signingconfig.v0.2+json',
+    caUrls: [
+      {
+        url: 'https://fulcio.example.com',
+        majorApiVersion: 1,
+        validFor: { start: '2024-01-01T00:00:00Z' },
+        operator: 'example.com',
+      },
+    ],
+    rekorTlogConfig: { selector: 'ANY' },
+  };
+
+  const target: Target = {
+    name: SIGNING_CONFIG_TARGET,
+    content: JSON.stringify(signingConfig),
+  };
+
+  beforeEach(() => {
+    tufRepo = mocktuf(target, { metadataPathPrefix: '' });
+    options = {
+      mirrorURL: tufRepo.baseURL,
+      cachePath: tufRepo.cachePath,
+      retry: false,
+      rootPath: path.join(tufRepo.cachePath, 'root.json'),
+    };
+  });
+
+  afterEach(() => tufRepo?.teardown());
+
+  it('returns the signing config', async () => {
+    const config = await getSigningConfig(options);
+    expect(config.mediaType).toEqual(signingConfig.mediaType);
+    expect(config.caUrls).toEqual([
+      {
+        url: 'https://fulcio.example.com',
+        majorApiVersion: 1,
+        validFor: { start: new Date('2024-01-01T00:00:00Z'), end: undefined },
+        operator: 'example.com',
+      },
+    ]);
+    expect(config.rekorTlogUrls).toHaveLength(0);
+    expect(config.tsaConfig).toEqual({ selector: 'ANY', count: undefined });
+  });
+});
+
 describe('initTUF', () => {
   let tufRepo: ReturnType<typeof mocktuf> | undefined;
   let options: TUFOptions | undefined;
@@ -0,0 +1,313 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { TUFError } from '../error';
+import {
+  Service,
+  ServiceConfiguration,
+  parseSigningConfig,
+  selectServices,
+} from '../signing-config';
+
+describe('parseSigningConfig', () => {
+  describe('when the config uses the v0.1 format', () => {
+    const json = {
+      mediaType: 'application/vnd.dev.sigstore.signingconfig.v0.1+json',
+      caUrl: 'https://fulcio.example.com',
+      oidcUrl: 'https://oauth2.example.com',
+      tlogUrls: ['https://rekor1.example.com', 'https://rekor2.example.com'],
+    };
+
+    it('returns a config with each URL as a service', () => {
+      const config = parseSigningConfig(json);
+
+      expect(config.mediaType).toEqual(json.mediaType);
+      expect(config.caUrls).toEqual([
+        {
+          url: 'https://fulcio.example.com',
+          majorApiVersion: 1,
+          validFor: { start: new Date(0) },
+          operator: 'https://fulcio.example.com',
+        },
+      ]);
+      expect(config.oidcUrls).toHaveLength(1);
+      expect(config.rekorTlogUrls).toHaveLength(2);
+      expect(config.rekorTlogConfig).toEqual({ selector: 'ALL' });
+      expect(config.tsaUrls).toHaveLength(0);
+      expect(config.tsaConfig).toEqual({ selector: 'ALL' });
+    });
+
+    it('omits missing URLs', () => {
+      const config = parseSigningConfig({ mediaType: json.mediaType });
+
+      expect(config.caUrls).toHaveLength(0);
+      expect(config.oidcUrls).toHaveLength(0);
+      expect(config.rekorTlogUrls).toHaveLength(0);
+    });
+
+    it('throws when a URL is not a string', () => {
+      expect(() =>
+        parseSigningConfig({ ...json, tlogUrls: [1] })
+      ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+    });
+  });
+
+  describe('when the config uses the v0.2 format', () => {
+    const json = {
+      mediaType: 'application/vnd.dev.sigstore.signingconfig.v0.2+json',
+      rekorTlogUrls: [
+        {
+          url: 'https://rekor.example.com',
+          majorApiVersion: 1,
+          validFor: {
+            start: '2023-01-01T00:00:00Z',
+            end: '2024-01-01T00:00:00Z',
+          },
+        },
+      ],
+      rekorTlogConfig: { selector: 'EXACT', count: 2 },
+      tsaConfig: { selector: 'UNKNOWN' },
+    };
+
+    it('returns the config', () => {
+      const config = parseSigningConfig(json);
+
+      expect(config.caUrls).toHaveLength(0);
+      expect(config.rekorTlogUrls).toEqual([
+        {
+          url: 'https://rekor.example.com',
+          majorApiVersion: 1,
+          validFor: {
+            start: new Date('2023-01-01T00:00:00Z'),
+            end: new Date('2024-01-01T00:00:00Z'),
+          },
+          operator: '',
+        },
+      ]);
+      expect(config.rekorTlogConfig).toEqual({ selector: 'EXACT', count: 2 });
+      expect(config.tsaConfig).toEqual({ selector: 'ANY', count: undefined });
+    });
+
+    describe('when a service is missing the start of its validity period', () => {
+      const invalid = {
+        ...json,
+        rekorTlogUrls: [{ ...json.rekorTlogUrls[0], validFor: {} }],
+      };
+
+      it('throws an error', () => {
+        expect(() => parseSigningConfig(invalid)).toThrow(
+          'invalid signing config: rekorTlogUrls[0].validFor.start must be a string'
+        );
+      });
+    });
+
+    describe('when a service has an invalid validity period', () => {
+      const invalid = {
+        ...json,
+        rekorTlogUrls: [
+          {
+            ...json.rekorTlogUrls[0],
+            validFor: { start: '2023-01-01T00:00:00Z', end: 'tomorrow' },
+          },
+        ],
+      };
+
+      it('throws an error', () => {
+        expect(() => parseSigningConfig(invalid)).toThrowWithCode(
+          TUFError,
+          'TUF_SIGNING_CONFIG_ERROR'
+        );
+      });
+    });
+
+    describe('when a service is missing its validity period', () => {
+      const invalid = {
+        ...json,
+        tsaUrls: [{ url: 'https://tsa.example.com', majorApiVersion: 1 }],
+      };
+
+      it('throws an error', () => {
+        expect(() => parseSigningConfig(invalid)).toThrow(
+          'invalid signing config: tsaUrls[0].validFor must be an object'
+        );
+      });
+    });
+
+    describe('when a service has a malformed field', () => {
+      it.each([
+        ['url', { url: 1 }],
+        ['majorApiVersion', { majorApiVersion: '1' }],
+        ['operator', { operator: 1 }],
+      ])('throws when the %s is invalid', (_, fields) => {
+        const invalid = {
+          ...json,
+          rekorTlogUrls: [{ ...json.rekorTlogUrls[0], ...fields }],
+        };
+
+        expect(() => parseSigningConfig(invalid)).toThrowWithCode(
+          TUFError,
+          'TUF_SIGNING_CONFIG_ERROR'
+        );
+      });
+    });
+
+    describe('when a list of services is not an array', () => {
+      it('throws an error', () => {
+        expect(() =>
+          parseSigningConfig({ ...json, caUrls: json.rekorTlogUrls[0] })
+        ).toThrow('invalid signing config: caUrls must be an array');
+      });
+    });
+
+    describe('when a service configuration is malformed', () => {
+      it('throws when the count is not a number', () => {
+        expect(() =>
+          parseSigningConfig({ ...json, tsaConfig: { count: '1' } })
+        ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+      });
+
+      it('throws when it is not an object', () => {
+        expect(() =>
+          parseSigningConfig({ ...json, tsaConfig: 'ANY' })
+        ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+      });
+    });
+  });
+
+  describe('when the media type is not supported', () => {
+    it('throws an error', () => {
+      expect(() =>
+        parseSigningConfig({
+          mediaType: 'application/vnd.dev.sigstore.signingconfig.v9+json',
+        })
+      ).toThrow(
+        'invalid signing config: unsupported media type: "application/vnd.dev.sigstore.signingconfig.v9+json"'
+      );
+    });
+  });
+
+  describe('when the media type is missing', () => {
+    it('throws an error', () => {
+      expect(() =>
+        parseSigningConfig({ caUrl: 'https://fulcio.example.com' })
+      ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+    });
+  });
+
+  describe('when the config is not an object', () => {
+    it('throws an error', () => {
+      expect(() => parseSigningConfig(null)).toThrow(
+        'invalid signing config: signing config must be an object'
+      );
+    });
+  });
+});
+
+describe('selectServices', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+
+  const service = (
+    url: string,
+    operator: string,
+    start: string,
+    end?: string,
+    majorApiVersion = 1
+  ): Service => ({
+    url,
+    operator,
+    majorApiVersion,
+    validFor: { start: new Date(start), end: end ? new Date(end) : undefined },
+  });
+
+  const services: Service[] = [
+    service('https://old.a.com', 'a.com', '2023-01-01T00:00:00Z'),
+    service('https://new.a.com', 'a.com', '2024-01-01T00:00:00Z'),
+    service('https://b.com', 'b.com', '2023-06-01T00:00:00Z'),
+    service('https://v2.b.com', 'b.com', '2024-02-01T00:00:00Z', undefined, 2),
+    service(
+      'https://expired.c.com',
+      'c.com',
+      '2023-01-01T00:00:00Z',
+      '2024-01-01T00:00:00Z'
+    ),
+    service('https://future.c.com', 'c.com', '2025-01-01T00:00:00Z'),
+  ];
+
+  const urls = (selected: Service[]) => selected.map((s) => s.url);
+
+  describe('when the selector is ALL', () => {
+    const config: ServiceConfiguration = { selector: 'ALL' };
+
+    it('returns the newest valid service from each operator', () => {
+      expect(urls(selectServices(services, config, [1], now))).toEqual([
+        'https://new.a.com',
+        'https://b.com',
+      ]);
+    });
+
+    it('honors the supported API versions', () => {
+      expect(selectServices(services, config, [1, 2], now)).toEqual([
+        services[3],
+        services[1],
+      ]);
+    });
+  });
+
+  describe('when the selector is ANY', () => {
+    const config: ServiceConfiguration = { selector: 'ANY' };
+
+    it('returns the newest valid service', () => {
+      expect(urls(selectServices(services, config, [1], now))).toEqual([
+        'https://new.a.com',
+      ]);
+    });
+
+    it('defaults to the current time', () => {
+      expect(urls(selectServices(services, config, [1]))).toEqual([
+        'https://future.c.com',
+      ]);
+    });
+  });
+
+  describe('when the selector is EXACT', () => {
+    it('returns the requested number of services', () => {
+      expect(
+        urls(
+          selectServices(services, { selector: 'EXACT', count: 2 }, [1], now)
+        )
+      ).toEqual(['https://new.a.com', 'https://b.com']);
+    });
+
+    it('defaults to a single service', () => {
+      expect(
+        urls(selectServices(services, { selector: 'EXACT' }, [1], now))
+      ).toEqual(['https://new.a.com']);
+    });
+
+    it('throws when there are too few valid services', () => {
+      expect(() =>
+        selectServices(services, { selector: 'EXACT', count: 3 }, [1], now)
+      ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+    });
+  });
+
+  describe('when there are no valid services', () => {
+    it('throws an error', () => {
+      expect(() =>
+        selectServices(services, { selector: 'ANY' }, [3], now)
+      ).toThrowWithCode(TUFError, 'TUF_SIGNING_CONFIG_ERROR');
+    });
+  });
+});
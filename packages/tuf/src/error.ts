@@ -19,7 +19,8 @@ type TUFErrorCode =
   | 'TUF_FIND_TARGET_ERROR'
   | 'TUF_REFRESH_METADATA_ERROR'
   | 'TUF_DOWNLOAD_TARGET_ERROR'
-  | 'TUF_READ_TARGET_ERROR';
+  | 'TUF_READ_TARGET_ERROR'
+  | 'TUF_SIGNING_CONFIG_ERROR';
 
 export class TUFError extends Error {
   code: TUFErrorCode;
@@ -21,6 +21,7 @@ import {
   TUF,
   TUFClient,
 } from './client';
+import { SigningConfig, parseSigningConfig } from './signing-config';
 
 export const DEFAULT_MIRROR_URL = 'https://tuf-repo-cdn.sigstore.dev';
 const DEFAULT_CACHE_DIR = 'sigstore-js';
@@ -29,6 +30,9 @@ const DEFAULT_TIMEOUT = 5000;
 
 const TRUSTED_ROOT_TARGET = 'trusted_root.json';
 
+// Name of the TUF target listing the service endpoints used when signing
+export const SIGNING_CONFIG_TARGET = 'signing_config.json';
+
 export type TUFOptions = Partial<RequiredTUFOptions> & {
   // Deprecated, use forceInit instead
   force?: boolean;
@@ -43,6 +47,16 @@ export async function getTrustedRoot(
   return TrustedRoot.fromJSON(JSON.parse(trustedRoot));
 }
 
+// Retrieves the signing service endpoints published alongside the trusted root
+export async function getSigningConfig(
+  /* istanbul ignore next */
+  options: TUFOptions = {}
+): Promise<SigningConfig> {
+  const client = createClient(options);
+  const signingConfig = await client.getTarget(SIGNING_CONFIG_TARGET);
+  return parseSigningConfig(JSON.parse(signingConfig));
+}
+
 export async function initTUF(
   /* istanbul ignore next */
   options: TUFOptions = {}
@@ -67,3 +81,11 @@ function createClient(options: TUFOptions) {
 
 export type { TUF } from './client';
 export { TUFError } from './error';
+export { selectServices } from './signing-config';
+export type {
+  Service,
+  ServiceConfiguration,
+  ServiceSelector,
+  SigningConfig,
+  ValidityPeriod,
+} from './signing-config';
@@ -0,0 +1,254 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { TUFError } from './error';
+
+export type ValidityPeriod = {
+  start: Date;
+  end?: Date;
+};
+
+export type Service = {
+  url: string;
+  majorApiVersion: number;
+  validFor: ValidityPeriod;
+  operator: string;
+};
+
+// Determines how many of the listed services a client should use
+export type ServiceSelector = 'ALL' | 'ANY' | 'EXACT';
+
+export type ServiceConfiguration = {
+  selector: ServiceSelector;
+  // Only used with the EXACT selector
+  count?: number;
+};
+
+// The service endpoints distributed via the signing_config.json TUF target.
+// Both the v0.1 (single CA URL) and v0.2 (list of services) formats are
+// normalized into this shape.
+export type SigningConfig = {
+  mediaType: string;
+  caUrls: Service[];
+  oidcUrls: Service[];
+  rekorTlogUrls: Service[];
+  rekorTlogConfig: ServiceConfiguration;
+  tsaUrls: Service[];
+  tsaConfig: ServiceConfiguration;
+};
+
+const SIGNING_CONFIG_V01_MEDIA_TYPE =
+  'application/vnd.dev.sigstore.signingconfig.v0.1+json';
+const SIGNING_CONFIG_V02_MEDIA_TYPE =
+  'application/vnd.dev.sigstore.signingconfig.v0.2+json';
+
+const SERVICE_SELECTORS: Record<string, ServiceSelector> = {
+  ALL: 'ALL',
+  ANY: 'ANY',
+  EXACT: 'EXACT',
+};
+
+type JSONObject = Record<string, unknown>;
+
+// Parses the JSON-encoded signing config. Throws a TUFError if the media type
+// is not recognized or if any of the services are malformed.
+export function parseSigningConfig(json: unknown): SigningConfig {
+  const config = parseObject(json, 'signing config');
+
+  switch (config.mediaType) {
+    // The v0.1 format lists bare URLs with no API version or validity period
+    case SIGNING_CONFIG_V01_MEDIA_TYPE:
+      return {
+        mediaType: SIGNING_CONFIG_V01_MEDIA_TYPE,
+        caUrls: toLegacyServices(
+          config.caUrl === undefined ? [] : [config.caUrl],
+          'caUrl'
+        ),
+        oidcUrls: toLegacyServices(
+          config.oidcUrl === undefined ? [] : [config.oidcUrl],
+          'oidcUrl'
+        ),
+        rekorTlogUrls: toLegacyServices(config.tlogUrls, 'tlogUrls'),
+        rekorTlogConfig: { selector: 'ALL' },
+        tsaUrls: toLegacyServices(config.tsaUrls, 'tsaUrls'),
+        tsaConfig: { selector: 'ALL' },
+      };
+    case SIGNING_CONFIG_V02_MEDIA_TYPE:
+      return {
+        mediaType: SIGNING_CONFIG_V02_MEDIA_TYPE,
+        caUrls: toServices(config.caUrls, 'caUrls'),
+        oidcUrls: toServices(config.oidcUrls, 'oidcUrls'),
+        rekorTlogUrls: toServices(config.rekorTlogUrls, 'rekorTlogUrls'),
+        rekorTlogConfig: toServiceConfiguration(
+          config.rekorTlogConfig,
+          'rekorTlogConfig'
+        ),
+        tsaUrls: toServices(config.tsaUrls, 'tsaUrls'),
+        tsaConfig: toServiceConfiguration(config.tsaConfig, 'tsaConfig'),
+      };
+    default:
+      throw invalidSigningConfig(
+        `unsupported media type: ${JSON.stringify(config.mediaType)}`
+      );
+  }
+}
+
+// Returns the services which should be used at the given time.
+// Only services which are currently valid and which implement one of the
+// supported API versions are considered. The newest service from each
+// operator is preferred. Throws a TUFError if the selector cannot be
+// satisfied.
+export function selectServices(
+  services: Service[],
+  config: ServiceConfiguration,
+  apiVersions: number[],
+  now: Date = new Date()
+): Service[] {
+  const candidates = services
+    .filter(
+      (service) =>
+        apiVersions.includes(service.majorApiVersion) &&
+        service.validFor.start <= now &&
+        (!service.validFor.end || now < service.validFor.end)
+    )
+    .sort((a, b) => b.validFor.start.getTime() - a.validFor.start.getTime())
+    .filter(
+      (service, i, list) =>
+        list.findIndex((s) => s.operator === service.operator) === i
+    );
+
+  const count = config.selector === 'EXACT' ? config.count || 1 : 1;
+
+  if (candidates.length < count) {
+    throw new TUFError({
+      code: 'TUF_SIGNING_CONFIG_ERROR',
+      message: `signing config does not contain ${count} valid service(s) for API version ${apiVersions.join(', ')}`,
+    });
+  }
+
+  switch (config.selector) {
+    case 'ALL':
+      return candidates;
+    case 'ANY':
+      return candidates.slice(0, 1);
+    case 'EXACT':
+      return candidates.slice(0, count);
+  }
+}
+
+function toServices(services: unknown, field: string): Service[] {
+  return parseArray(services, field).map((value, i) => {
+    const service = parseObject(value, `${field}[${i}]`);
+    const validFor = parseObject(service.validFor, `${field}[${i}].validFor`);
+
+    return {
+      url: parseString(service.url, `${field}[${i}].url`),
+      majorApiVersion: parseNumber(
+        service.majorApiVersion,
+        `${field}[${i}].majorApiVersion`
+      ),
+      validFor: {
+        start: parseDate(validFor.start, `${field}[${i}].validFor.start`),
+        end:
+          validFor.end === undefined
+            ? undefined
+            : parseDate(validFor.end, `${field}[${i}].validFor.end`),
+      },
+      operator:
+        service.operator === undefined
+          ? ''
+          : parseString(service.operator, `${field}[${i}].operator`),
+    };
+  });
+}
+
+// Legacy services are always valid and are each treated as a distinct
+// operator so that none are dropped during selection
+function toLegacyServices(urls: unknown, field: string): Service[] {
+  return parseArray(urls, field).map((value) => {
+    const url = parseString(value, field);
+    return {
+      url,
+      majorApiVersion: 1,
+      validFor: { start: new Date(0) },
+      operator: url,
+    };
+  });
+}
+
+// An unspecified (or unrecognized) selector is treated as ANY
+function toServiceConfiguration(
+  value: unknown,
+  field: string
+): ServiceConfiguration {
+  const config = value === undefined ? {} : parseObject(value, field);
+
+  return {
+    selector: SERVICE_SELECTORS[String(config.selector)] || 'ANY',
+    count:
+      config.count === undefined
+        ? undefined
+        : parseNumber(config.count, `${field}.count`),
+  };
+}
+
+function parseObject(value: unknown, field: string): JSONObject {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidSigningConfig(`${field} must be an object`);
+  }
+  return value as JSONObject;
+}
+
+// Empty lists are omitted from the JSON encoding of the signing config
+function parseArray(value: unknown, field: string): unknown[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(value)) {
+    throw invalidSigningConfig(`${field} must be an array`);
+  }
+  return value;
+}
+
+function parseString(value: unknown, field: string): string {
+  if (typeof value !== 'string') {
+    throw invalidSigningConfig(`${field} must be a string`);
+  }
+  return value;
+}
+
+function parseNumber(value: unknown, field: string): number {
+  if (typeof value !== 'number') {
+    throw invalidSigningConfig(`${field} must be a number`);
+  }
+  return value;
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = new Date(parseString(value, field));
+
+  if (isNaN(date.getTime())) {
+    throw invalidSigningConfig(`${field} must be a valid timestamp`);
+  }
+  return date;
+}
+
+function invalidSigningConfig(message: string): TUFError {
+  return new TUFError({
+    code: 'TUF_SIGNING_CONFIG_ERROR',
+    message: `invalid signing config: ${message}`,
+  });
+}
@@ -220,6 +220,200 @@ export const V3 = {
   },
 };
 
+// Bundles signed with a public key and recorded in a Rekor v2 log (generated
+// with the @sigstore/mock Rekor v2 handler). The entries carry only an
+// inclusion proof and checkpoint -- no SET and no integrated time.
+export const REKOR_V2 = {
+  MESSAGE_SIGNATURE: {
+    mediaType: 'application/vnd.dev.sigstore.bundle+json;version=0.2',
+    verificationMaterial: {
+      publicKey: {
+        hint: 'rekor-v2-key',
+      },
+      tlogEntries: [
+        {
+          logIndex: '4204400',
+          logId: {
+            keyId: 'RjMuO20QJDA+PuEQpIei+qxev2kOnW6Z1cwcH5rvHNo=',
+          },
+          kindVersion: {
+            kind: 'hashedrekord',
+            version: '0.0.2',
+          },
+          inclusionProof: {
+            rootHash: 'r3+n9myBs8+y613bWHBqi+qaXluwAUILN86mNVSUxqs=',
+            treeSize: '1',
+            checkpoint: {
+              envelope:
+                'rekor-v2.example.com\n1\nr3+n9myBs8+y613bWHBqi+qaXluwAUILN86mNVSUxqs=\nTimestamp: 1792411404000000000\n\n\u2014 rekor-v2.example.com RjMuOzBFAiAFbvCJcgo/5/FE/jH7hw7g9CpR9/4EAr23blI586KcSQIhALjOnuoAvrTzn39Jxz9rtrHA6q8wXS6IeMSsZcBWksrn\n',
+            },
+          },
+          canonicalizedBody:
+            'eyJhcGlWZXJzaW9uIjoiMC4wLjIiLCJraW5kIjoiaGFzaGVkcmVrb3JkIiwic3BlYyI6eyJoYXNoZWRSZWtvcmRWMDAyIjp7ImRhdGEiOnsiYWxnb3JpdGhtIjoiU0hBMl8yNTYiLCJkaWdlc3QiOiJhT1pXc2xIbWZvTll2dmhJT3JEVkhHWVo4K2VocWZEbldEalVIL05vOXlnPSJ9LCJzaWduYXR1cmUiOnsiY29udGVudCI6Ik1FUUNJQzVEcHhBY3l1NzBRaFlyUW9IVDVja285ekU1Ui82TFNEd0szYTRKcGpzQ0FpQnhhRkdjZm83VDFSVElPUENFanN6aWIrcFNzb01UYXA0TWV1OFp5S1lWVlE9PSIsInZlcmlmaWVyIjp7ImtleURldGFpbHMiOiJQS0lYX0VDRFNBX1AyNTZfU0hBXzI1NiIsInB1YmxpY0tleSI6eyJyYXdCeXRlcyI6Ik1Ga3dFd1lIS29aSXpqMENBUVlJS29aSXpqMERBUWNEUWdBRVFSYk1VTU9sT01uWlJ1SFg4dFRXckxYeWRZWnkxdlpLNGZORGk4K3pkeFIvWG5wRXhFMHdUQ01KTmRxYmlBWlhPWDZDaW9iUXR4c2RKdnY0cmNnTnNRPT0ifX19fX19',
+        },
+      ],
+      timestampVerificationData: {
+        rfc3161Timestamps: [
+          {
+            signedTimestamp:
+              'MIICHjADAgEAMIICFQYJKoZIhvcNAQcCoIICBjCCAgICAQMxDzANBglghkgBZQMEAgEFADB1BgsqhkiG9w0BCRABBKBmBGQwYgIBAQYJKwYBBAGDvzACMC8wCwYJYIZIAWUDBAIBBCAknjr4OPS8b2O85VPyLOeeuxnSyn+Ja0+cgx0pcpF0sgIE3q2+7xgTMjAyNjEwMTkxMzU1NTUuNjE0WjADAgEBAgEqoAAxggFxMIIBbQIBATArMCYxDDAKBgNVBAMTA3RzYTEWMBQGA1UEChMNc2lnc3RvcmUubW9jawIBAjANBglghkgBZQMEAgEFAKCB1TAaBgkqhkiG9w0BCQMxDQYLKoZIhvcNAQkQAQQwHAYJKoZIhvcNAQkFMQ8XDTI2MTAxOTEzNTU1NVowLwYJKoZIhvcNAQkEMSIEID5MNAOzq5kPkY7iywSJcCM5ePSx8mfRy7o6ra6MVXCcMGgGCyqGSIb3DQEJEAIvMVkwVzBVMFMEIJ4lOm1zoA3gBNpFzNDpCI+vVGbb3uPRDdkYO1vqOD6SMC8wKqQoMCYxDDAKBgNVBAMTA3RzYTEWMBQGA1UEChMNc2lnc3RvcmUubW9jawIBAjAKBggqhkjOPQQDAgRIMEYCIQCNYNGc3DZ0WrXFdAFs4cdXgNTxiDPrM0/JbczOzTDWUwIhAPEk4xFIoigCIWhXUk9oZWYp4zNDO6fwDBjr0kWvlq+m',
+          },
+        ],
+      },
+    },
+    messageSignature: {
+      messageDigest: {
+        algorithm: 'SHA2_256',
+        digest: 'aOZWslHmfoNYvvhIOrDVHGYZ8+ehqfDnWDjUH/No9yg=',
+      },
+      signature:
+        'MEQCIC5DpxAcyu70QhYrQoHT5cko9zE5R/6LSDwK3a4JpjsCAiBxaFGcfo7T1RTIOPCEjszib+pSsoMTap4Meu8ZyKYVVQ==',
+    },
+  },
+  DSSE: {
+    mediaType: 'application/vnd.dev.sigstore.bundle.v0.3+json',
+    verificationMaterial: {
+      publicKey: {
+        hint: 'rekor-v2-key',
+      },
+      tlogEntries: [
+        {
+          logIndex: '4367707',
+          logId: {
+            keyId: 'RjMuO20QJDA+PuEQpIei+qxev2kOnW6Z1cwcH5rvHNo=',
+          },
+          kindVersion: {
+            kind: 'dsse',
+            version: '0.0.2',
+          },
+          inclusionProof: {
+            rootHash: 'tNhldM/luBoMGxgAmTCzI+ZTzFXtwwaokk2eqb/FLhY=',
+            treeSize: '1',
+            checkpoint: {
+              envelope:
+                'rekor-v2.example.com\n1\ntNhldM/luBoMGxgAmTCzI+ZTzFXtwwaokk2eqb/FLhY=\nTimestamp: 1792411404000000000\n\n\u2014 rekor-v2.example.com RjMuOzBFAiEA4RdxE6wuQgrPZfV5H9ea3mixTwud1h8KosNCVK9b+r0CIHLKF+50dOf+IZoQFjRVc6ourav5/4cWwTg1eK+uFcsJ\n',
+            },
+          },
+          canonicalizedBody:
+            'eyJhcGlWZXJzaW9uIjoiMC4wLjIiLCJraW5kIjoiZHNzZSIsInNwZWMiOnsiZHNzZVYwMDIiOnsicGF5bG9hZEhhc2giOnsiYWxnb3JpdGhtIjoiU0hBMl8yNTYiLCJkaWdlc3QiOiJrNkk1Y2FrVTVlckw4S2pTVVZUTm93bkR3Y2N2dTVrVTFIeGc4OHRvRllnPSJ9LCJzaWduYXR1cmVzIjpbeyJjb250ZW50IjoiTUVRQ0lHWjUvWTFSSkFPRlJZdjZ2aDdtNi9YWFgxYmZJRHUvZVRmODNMaGhGZ245QWlBYisrSGFJOVR5aGJTNXFqM2Nhem5qVStrL1lRYjgyaGFsWGhvQTRUbDdydz09IiwidmVyaWZpZXIiOnsia2V5RGV0YWlscyI6IlBLSVhfRUNEU0FfUDI1Nl9TSEFfMjU2IiwicHVibGljS2V5Ijp7InJhd0J5dGVzIjoiTUZrd0V3WUhLb1pJemowQ0FRWUlLb1pJemowREFRY0RRZ0FFUVJiTVVNT2xPTW5aUnVIWDh0VFdyTFh5ZFlaeTF2Wks0Zk5EaTgremR4Ui9YbnBFeEUwd1RDTUpOZHFiaUFaWE9YNkNpb2JRdHhzZEp2djRyY2dOc1E9PSJ9fX1dfX19',
+        },
+      ],
+      timestampVerificationData: {
+        rfc3161Timestamps: [
+          {
+            signedTimestamp:
+              'MIICHjADAgEAMIICFQYJKoZIhvcNAQcCoIICBjCCAgICAQMxDzANBglghkgBZQMEAgEFADB1BgsqhkiG9w0BCRABBKBmBGQwYgIBAQYJKwYBBAGDvzACMC8wCwYJYIZIAWUDBAIBBCD/Xtbr4hl2UrFK3diKctDR4W04cxpq6QalL4TfnZHejAIE3q2+7xgTMjAyNjEwMTkxMzU1NTUuNjMwWjADAgEBAgEqoAAxggFxMIIBbQIBATArMCYxDDAKBgNVBAMTA3RzYTEWMBQGA1UEChMNc2lnc3RvcmUubW9jawIBAjANBglghkgBZQMEAgEFAKCB1TAaBgkqhkiG9w0BCQMxDQYLKoZIhvcNAQkQAQQwHAYJKoZIhvcNAQkFMQ8XDTI2MTAxOTEzNTU1NVowLwYJKoZIhvcNAQkEMSIEIE8toz3s/3qQFxX0X5p7IsZPAuQ248bQkeQvw/0Nt6UDMGgGCyqGSIb3DQEJEAIvMVkwVzBVMFMEIJ4lOm1zoA3gBNpFzNDpCI+vVGbb3uPRDdkYO1vqOD6SMC8wKqQoMCYxDDAKBgNVBAMTA3RzYTEWMBQGA1UEChMNc2lnc3RvcmUubW9jawIBAjAKBggqhkjOPQQDAgRIMEYCIQD+RqtXLlAwwY89dXDVyT/u3Zo5/or3BdTIOcqLRKWqsQIhAPwrzLr66Pb1Nj3OXEF86pAeUyCiC/hAkov/yotmWSmV',
+          },
+        ],
+      },
+    },
+    dsseEnvelope: {
+      payload: 'eyJoZWxsbyI6IndvcmxkIn0=',
+      payloadType: 'application/json',
+      signatures: [
+        {
+          sig: 'MEQCIGZ5/Y1RJAOFRYv6vh7m6/XXX1bfIDu/eTf83LhhFgn9AiAb++HaI9TyhbS5qj3caznjU+k/YQb82halXhoA4Tl7rw==',
+          keyid: 'rekor-v2-key',
+        },
+      ],
+    },
+  },
+  // Public key of the Rekor v2 log
+  TLOG_KEY:
+    '-----BEGIN PUBLIC KEY-----\nMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE9sTEyg9Z3HGqrHqjUgCF3LFkYMdT\nxmtrY01fnHBkrYLQW1Otd+oEBY+Ttsl0z+Pwp4H+rkHoJyoICWROhdE95w==\n-----END PUBLIC KEY-----\n',
+  // Certificate chain (intermediate and root) of the TSA which timestamped the
+  // bundle signatures
+  TSA_CERT_CHAIN: [
+    'MIIBujCCAWGgAwIBAgIBAjAKBggqhkjOPQQDAzAmMQwwCgYDVQQDEwN0c2ExFjAUBgNVBAoTDXNpZ3N0b3JlLm1vY2swHhcNMjYxMDE5MTM1NTU1WhcNMjcxMDE5MTM1NTU1WjAuMRQwEgYDVQQDEwt0c2Egc2lnbmluZzEWMBQGA1UEChMNc2lnc3RvcmUubW9jazBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABOgg3KD7g2NuLIUFmgTiPe7S2dRN1j1ZJSCKwdB3wGsnyhQvmXrQCaCnKJZGBU74HBGc4ouP5DN38BPAfxkdhq2jeDB2MAwGA1UdEwEB/wQCMAAwDgYDVR0PAQH/BAQDAgeAMBYGA1UdJQEB/wQMMAoGCCsGAQUFBwMIMB0GA1UdDgQWBBQM/V1Q3wrPksYntNRYjyB25egUxTAfBgNVHSMEGDAWgBQM/V1Q3wrPksYntNRYjyB25egUxTAKBggqhkjOPQQDAwNHADBEAiBHGhuA6aIeqXxTLX1iP0ZB0TJv6N7XZuD1//hz1hddNQIgLieqOyCVfwCm45TvhKoT+fU62YTROm2vJiuXHjbduZw=',
+    'MIIBnjCCAUSgAwIBAgIBATAKBggqhkjOPQQDAzAmMQwwCgYDVQQDEwN0c2ExFjAUBgNVBAoTDXNpZ3N0b3JlLm1vY2swHhcNMjYxMDE5MTM1NTU1WhcNMjcxMDE5MTM1NTU1WjAmMQwwCgYDVQQDEwN0c2ExFjAUBgNVBAoTDXNpZ3N0b3JlLm1vY2swWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAAToINyg+4NjbiyFBZoE4j3u0tnUTdY9WSUgisHQd8BrJ8oUL5l60AmgpyiWRgVO+BwRnOKLj+Qzd/ATwH8ZHYato2MwYTAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwIBBjAdBgNVHQ4EFgQUDP1dUN8Kz5LGJ7TUWI8gduXoFMUwHwYDVR0jBBgwFoAUDP1dUN8Kz5LGJ7TUWI8gduXoFMUwCgYIKoZIzj0EAwMDSAAwRQIhAMf1jguy5HdHIfCtkHvTaB1LP6CNJVufRbjMhNqkX3obAiBbE468Vk+JcO6An0VHebt9n17T2j66+wz9w2CV2WfklQ==',
+  ],
+  // Public key which signed the bundles (hint: "rekor-v2-key")
+  PUBLIC_KEY:
+    '-----BEGIN PUBLIC KEY-----\nMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEQRbMUMOlOMnZRuHX8tTWrLXydYZy\n1vZK4fNDi8+zdxR/XnpExE0wTCMJNdqbiAZXOX6CiobQtxsdJvv4rcgNsQ==\n-----END PUBLIC KEY-----\n',
+};
+
+// Bundle signed with a public key and recorded in a Rekor v1 log (generated
+// with the @sigstore/mock Rekor handler). The bundle carries only an inclusion
+// promise (SET). The inclusion proof which was returned when the entry was
+// created is included separately, along with the log's response when the
+// entry was later retrieved from a tree of size 3.
+export const REKOR_V1 = {
+  MESSAGE_SIGNATURE: {
+    mediaType: 'application/vnd.dev.sigstore.bundle+json;version=0.1',
+    verificationMaterial: {
+      publicKey: {
+        hint: 'rekor-v1-key',
+      },
+      tlogEntries: [
+        {
+          logIndex: '0',
+          logId: {
+            keyId: 'pwtSUXn8OLQmwNbYgO1Q2qhT4pqjBObOxI997NmVMDU=',
+          },
+          kindVersion: {
+            kind: 'hashedrekord',
+            version: '0.0.1',
+          },
+          integratedTime: '1792412668',
+          inclusionPromise: {
+            signedEntryTimestamp:
+              'MEYCIQCeOwzYSOaCQLViy6tqSezxLM0GdiV3rOohnD68nTZX8QIhANMlFi8U2uOm2OB7It2+GoxFI52yQI4uOw4M2lncrQ1J',
+          },
+          canonicalizedBody:
+            'eyJhcGlWZXJzaW9uIjoiMC4wLjEiLCJraW5kIjoiaGFzaGVkcmVrb3JkIiwic3BlYyI6eyJkYXRhIjp7Imhhc2giOnsiYWxnb3JpdGhtIjoic2hhMjU2IiwidmFsdWUiOiI2OGU2NTZiMjUxZTY3ZTgzNThiZWY4NDgzYWIwZDUxYzY2MTlmM2U3YTFhOWYwZTc1ODM4ZDQxZmYzNjhmNzI4In19LCJzaWduYXR1cmUiOnsiY29udGVudCI6Ik1FVUNJRm5VR0V0UkdFSlhpNDRKVlMyWE9OWm4zM1I3K3FtR1g5aVJ5MGYwZUIwMUFpRUEzaXRqSEw0UnJ5VGZjaFkwOGZzc2tEV2hXT2hlclZPSVhNK1prMXA5Q2RzPSIsInB1YmxpY0tleSI6eyJjb250ZW50IjoiTFMwdExTMUNSVWRKVGlCUVZVSk1TVU1nUzBWWkxTMHRMUzBLVFVacmQwVjNXVWhMYjFwSmVtb3dRMEZSV1VsTGIxcEplbW93UkVGUlkwUlJaMEZGZVVjeE5VWmlVbkJQZUhsV2RqaEdjVXBTYXpreWVsZGpVRGtyYXdvMVJGUkVVRGxoU1dSSWEybEhjMFpIYTNobFJrSmhhalpqWTJ0SVJEZzBaMFZxZDFsUmNERkZTMWhQTjNRd1FqZHVOSGt5VTBNeFNHRjNQVDBLTFMwdExTMUZUa1FnVUZWQ1RFbERJRXRGV1MwdExTMHRDZz09In19fX0=',
+        },
+      ],
+      timestampVerificationData: {},
+    },
+    messageSignature: {
+      messageDigest: {
+        algorithm: 'SHA2_256',
+        digest: 'aOZWslHmfoNYvvhIOrDVHGYZ8+ehqfDnWDjUH/No9yg=',
+      },
+      signature:
+        'MEUCIFnUGEtRGEJXi44JVS2XONZn33R7+qmGX9iRy0f0eB01AiEA3itjHL4RryTfchY08fsskDWhWOherVOIXM+Zk1p9Cds=',
+    },
+  },
+  INCLUSION_PROOF: {
+    rootHash: '4emvQLxuthyZ9TNO4y6cu4sF74CVpKSUNI2EIjPnMo8=',
+    treeSize: '1',
+    checkpoint: {
+      envelope:
+        'rekor-v1.example.com - 114266814859897\n1\n4emvQLxuthyZ9TNO4y6cu4sF74CVpKSUNI2EIjPnMo8=\nTimestamp: 1792412668000000000\n\n\u2014 rekor-v1.example.com pwtSUTBFAiEAz5mIjrJ5+zV+vyRB2Iw2CDjnfjYYo0E8tPnBKnUsZOUCIFxdxZCok+KQbqZvN8BcgOmDSSjl3NaxP939jvgc93wE\n',
+    },
+  },
+  ENTRY: {
+    e1e9af40bc6eb61c99f5334ee32e9cbb8b05ef8095a4a494348d842233e7328f: {
+      body: 'eyJhcGlWZXJzaW9uIjoiMC4wLjEiLCJraW5kIjoiaGFzaGVkcmVrb3JkIiwic3BlYyI6eyJkYXRhIjp7Imhhc2giOnsiYWxnb3JpdGhtIjoic2hhMjU2IiwidmFsdWUiOiI2OGU2NTZiMjUxZTY3ZTgzNThiZWY4NDgzYWIwZDUxYzY2MTlmM2U3YTFhOWYwZTc1ODM4ZDQxZmYzNjhmNzI4In19LCJzaWduYXR1cmUiOnsiY29udGVudCI6Ik1FVUNJRm5VR0V0UkdFSlhpNDRKVlMyWE9OWm4zM1I3K3FtR1g5aVJ5MGYwZUIwMUFpRUEzaXRqSEw0UnJ5VGZjaFkwOGZzc2tEV2hXT2hlclZPSVhNK1prMXA5Q2RzPSIsInB1YmxpY0tleSI6eyJjb250ZW50IjoiTFMwdExTMUNSVWRKVGlCUVZVSk1TVU1nUzBWWkxTMHRMUzBLVFVacmQwVjNXVWhMYjFwSmVtb3dRMEZSV1VsTGIxcEplbW93UkVGUlkwUlJaMEZGZVVjeE5VWmlVbkJQZUhsV2RqaEdjVXBTYXpreWVsZGpVRGtyYXdvMVJGUkVVRGxoU1dSSWEybEhjMFpIYTNobFJrSmhhalpqWTJ0SVJEZzBaMFZxZDFsUmNERkZTMWhQTjNRd1FqZHVOSGt5VTBNeFNHRjNQVDBLTFMwdExTMUZUa1FnVUZWQ1RFbERJRXRGV1MwdExTMHRDZz09In19fX0=',
+      integratedTime: 1792412668,
+      logID: 'a70b525179fc38b426c0d6d880ed50daa853e29aa304e6cec48f7decd9953035',
+      logIndex: 0,
+      verification: {
+        inclusionProof: {
+          logIndex: 0,
+          treeSize: 3,
+          checkpoint:
+            'rekor-v1.example.com - 114266814859897\n3\n2RMMjh3ZToyidXCC9+dAIbLFCEcmR75ss7EpxHUQhKA=\nTimestamp: 1792412668000000000\n\n\u2014 rekor-v1.example.com pwtSUTBGAiEAoo8cIE3YWAtBAS9VQifkfYTsUxxmzmZnbZrIEw+hZAYCIQDXyKyYqRN5vKxLWQ+kaX2ZTAk8iaTH4ZOha6C/y3OHJA==\n',
+          hashes: [
+            'd974c051326f02bc277960ab09b7bad536ad286f6468d6a35260d62e518fcb6b',
+            '0fb4b9463b4b6450769a75eda60a19f718c600a9a35dacc07badc5a42fec5c02',
+          ],
+          rootHash:
+            'd9130c8e1dd94e8ca2757082f7e74021b2c508472647be6cb3b129c4751084a0',
+        },
+        signedEntryTimestamp:
+          'MEYCIQCeOwzYSOaCQLViy6tqSezxLM0GdiV3rOohnD68nTZX8QIhANMlFi8U2uOm2OB7It2+GoxFI52yQI4uOw4M2lncrQ1J',
+      },
+    },
+  },
+  // Public key of the Rekor v1 log
+  TLOG_KEY:
+    '-----BEGIN PUBLIC KEY-----\nMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEImMkV3m6WIDafpoilPzO7NDhbH5A\nfvIAlzw1kbGla1hoHVycil2h4QrAbgRrLn/W8f8UR9JdHj83brBQgEMkGQ==\n-----END PUBLIC KEY-----\n',
+  // Public key which signed the bundle (hint: "rekor-v1-key")
+  PUBLIC_KEY:
+    '-----BEGIN PUBLIC KEY-----\nMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEyG15FbRpOxyVv8FqJRk92zWcP9+k\n5DTDP9aIdHkiGsFGkxeFBaj6cckHD84gEjwYQp1EKXO7t0B7n4y2SC1Haw==\n-----END PUBLIC KEY-----\n',
+};
+
 // Public key material for verifying the key-signed bundles
 export const PUBLIC_KEY = `-----BEGIN PUBLIC KEY-----
 MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE9DbYBIMQLtWb6J5gtL69jgRwwEfd
@@ -0,0 +1,152 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+// Certificates generated with OpenSSL. The root's name constraints permit
+// names under example.com, 10.0.0.0/8 and O=sigstore.mock, but exclude
+// bad.example.com. All of the leaves were issued by the root.
+export const certificates = {
+  root: `-----BEGIN CERTIFICATE-----
+MIICBzCCAa2gAwIBAgIBATAKBggqhkjOPQQDAjAqMRYwFAYDVQQKDA1zaWdzdG9y
+ZS5tb2NrMRAwDgYDVQQDDAduYyByb290MCAXDTI2MTAxOTEzMDE0OFoYDzIxMjYw
+OTI1MTMwMTQ4WjAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdu
+YyByb290MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEqCPw8Xokm4v7uuNNP8Q/
+Byvt5YlXywVhCp3GR8GUg9Op0MCeR7LLYrJaOxlpycp/1qJ38C1bHd1vrvVsr+zK
+AKOBwTCBvjAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwIBBjAdBgNVHQ4E
+FgQUbkG0lGlx9ShcSy4LXRM8OwqwAJ8wfAYDVR0eAQH/BHIwcKBZMA2CC2V4YW1w
+bGUuY29tMA6BDC5leGFtcGxlLmNvbTAOhgwuZXhhbXBsZS5jb20wCocICgAAAP8A
+AAAwHKQaMBgxFjAUBgNVBAoMDXNpZ3N0b3JlLm1vY2uhEzARgg9iYWQuZXhhbXBs
+ZS5jb20wCgYIKoZIzj0EAwIDSAAwRQIhANEJVQ6Lql5kS7ZHnmKp6ldWH3zcFOVw
+n9McWgEOdJWNAiAQnjaiH6Q1+h9fQLuIkpZVjW5UNqPailMrgkYa4O8C+A==
+-----END CERTIFICATE-----`,
+
+  // SANs: foo.example.com, alice@sub.example.com,
+  // https://www.example.com/path and 10.1.2.3. EKU: codeSigning
+  leaf: `-----BEGIN CERTIFICATE-----
+MIICFjCCAbygAwIBAgIBAjAKBggqhkjOPQQDAjAqMRYwFAYDVQQKDA1zaWdzdG9y
+ZS5tb2NrMRAwDgYDVQQDDAduYyByb290MCAXDTI2MTAxOTEzMDE0OFoYDzIxMjYw
+OTI1MTMwMTQ4WjAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdu
+YyBsZWFmMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEhnrzzay2exUw4oa4tFAY
+vhl84MG7F/B92k0fehezeqVyL6orerJHJFDwHobXd870djyQMNztsbSxF9d5B1Ti
+cKOB0DCBzTAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIHgDATBgNVHSUEDDAK
+BggrBgEFBQcDAzAdBgNVHQ4EFgQULrt/66ffk1Fv8dALd96FdhsEgHgwHwYDVR0j
+BBgwFoAUbkG0lGlx9ShcSy4LXRM8OwqwAJ8wWAYDVR0RAQH/BE4wTIIPZm9vLmV4
+YW1wbGUuY29tgRVhbGljZUBzdWIuZXhhbXBsZS5jb22GHGh0dHBzOi8vd3d3LmV4
+YW1wbGUuY29tL3BhdGiHBAoBAgMwCgYIKoZIzj0EAwIDSAAwRQIgKiLhbq/wh34l
+TPKNWt5ajF3MPmTbsLRVa5rQ7fcegWACIQDQ/TTM97n+4rj6+TrWuT0zNhxcZBk4
+zigvhdK3eJl1Pg==
+-----END CERTIFICATE-----`,
+
+  // SAN: bad.example.com. No EKU
+  excluded: `-----BEGIN CERTIFICATE-----
+MIIBwzCCAWqgAwIBAgIBAzAKBggqhkjOPQQDAjAqMRYwFAYDVQQKDA1zaWdzdG9y
+ZS5tb2NrMRAwDgYDVQQDDAduYyByb290MCAXDTI2MTAxOTEzMDE0OFoYDzIxMjYw
+OTI1MTMwMTQ4WjAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdu
+YyBsZWFmMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEhnrzzay2exUw4oa4tFAY
+vhl84MG7F/B92k0fehezeqVyL6orerJHJFDwHobXd870djyQMNztsbSxF9d5B1Ti
+cKN/MH0wDAYDVR0TAQH/BAIwADAOBgNVHQ8BAf8EBAMCB4AwHQYDVR0OBBYEFC67
+f+un35NRb/HQC3fehXYbBIB4MB8GA1UdIwQYMBaAFG5BtJRpcfUoXEsuC10TPDsK
+sACfMB0GA1UdEQEB/wQTMBGCD2JhZC5leGFtcGxlLmNvbTAKBggqhkjOPQQDAgNH
+ADBEAiBUdgfUTrePKq/0iENeFVnJKjxyLHQjiJcNbLl+CR/rxQIgDy0dfZt63uFI
+ZdwDhwSfcFt0FN11Ui7d6Xiq/0UqilY=
+-----END CERTIFICATE-----`,
+
+  // SAN: foo.example.com. EKU: serverAuth
+  serverauth: `-----BEGIN CERTIFICATE-----
+MIIB2jCCAYGgAwIBAgIBBDAKBggqhkjOPQQDAjAqMRYwFAYDVQQKDA1zaWdzdG9y
+ZS5tb2NrMRAwDgYDVQQDDAduYyByb290MCAXDTI2MTAxOTEzMDE0OFoYDzIxMjYw
+OTI1MTMwMTQ4WjAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdu
+YyBsZWFmMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEhnrzzay2exUw4oa4tFAY
+vhl84MG7F/B92k0fehezeqVyL6orerJHJFDwHobXd870djyQMNztsbSxF9d5B1Ti
+cKOBlTCBkjAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIHgDATBgNVHSUEDDAK
+BggrBgEFBQcDATAdBgNVHQ4EFgQULrt/66ffk1Fv8dALd96FdhsEgHgwHwYDVR0j
+BBgwFoAUbkG0lGlx9ShcSy4LXRM8OwqwAJ8wHQYDVR0RAQH/BBMwEYIPZm9vLmV4
+YW1wbGUuY29tMAoGCCqGSM49BAMCA0cAMEQCIDfyhTnQoeF01qd/uSsGpCJt2FOa
+ZfVm7VhxStSsEJXxAiBOsliJa4jNb8FVlr4cRxRrMVzurayhYJOqFYgczod/Ew==
+-----END CERTIFICATE-----`,
+
+  // SAN: foo.example.com. Critical certificate policies extension
+  unknowncritical: `-----BEGIN CERTIFICATE-----
+MIIB2zCCAYGgAwIBAgIBBTAKBggqhkjOPQQDAjAqMRYwFAYDVQQKDA1zaWdzdG9y
+ZS5tb2NrMRAwDgYDVQQDDAduYyByb290MCAXDTI2MTAxOTEzMDE0OFoYDzIxMjYw
+OTI1MTMwMTQ4WjAqMRYwFAYDVQQKDA1zaWdzdG9yZS5tb2NrMRAwDgYDVQQDDAdu
+YyBsZWFmMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEhnrzzay2exUw4oa4tFAY
+vhl84MG7F/B92k0fehezeqVyL6orerJHJFDwHobXd870djyQMNztsbSxF9d5B1Ti
+cKOBlTCBkjAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIHgDAdBgNVHQ4EFgQU
+Lrt/66ffk1Fv8dALd96FdhsEgHgwHwYDVR0jBBgwFoAUbkG0lGlx9ShcSy4LXRM8
+OwqwAJ8wHQYDVR0RAQH/BBMwEYIPZm9vLmV4YW1wbGUuY29tMBMGA1UdIAEB/wQJ
+MAcwBQYDKgMEMAoGCCqGSM49BAMCA0gAMEUCIQCuLO1cJ1fdR1vfTszRXukooiLq
+5yaAEJ3qmx4kMby68QIgZotoAJ5X5ulMc79al1wMSTnuXlSipG2g55BUnObG76o=
+-----END CERTIFICATE-----`,
+
+  // Intermediate restricted to the serverAuth EKU
+  serverauthint: `-----BEGIN CERTIFICATE-----
+MIIBzTCCAXSgAwIBAgIDAesuMAoGCCqGSM49BAMCMCoxFjAUBgNVBAoMDXNpZ3N0
+b3JlLm1vY2sxEDAOBgNVBAMMB25jIHJvb3QwIBcNMjYxMDE5MTMwNTIxWhgPMjEy
+NjA5MjUxMzA1MjFaMDkxFjAUBgNVBAoMDXNpZ3N0b3JlLm1vY2sxHzAdBgNVBAMM
+Fm5jIHNlcnZlciBpbnRlcm1lZGlhdGUwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNC
+AAQd35nCzwYAImVD6iBBlaoL1GETBzWB6PY9TgI3RSAapZOY73JXkoe3ZF1X3hCP
+K2QUhsuIVVM4XSZlN6kMHzsHo3gwdjAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB
+/wQEAwIBBjATBgNVHSUEDDAKBggrBgEFBQcDATAdBgNVHQ4EFgQUlXO4IQu4FQcq
+Yz5AcCdSuWZOquUwHwYDVR0jBBgwFoAUbkG0lGlx9ShcSy4LXRM8OwqwAJ8wCgYI
+KoZIzj0EAwIDRwAwRAIgWKYP7XfnKPpphIv//2Az5TqgJxneunwrolCx9IFm8dkC
+IEsh9JmollmIV0gsAZuQO9FjPu/LIDV4oKikcr/dA97A
+-----END CERTIFICATE-----`,
+
+  // Issued by the serverAuth intermediate. EKU: codeSigning
+  serverauthintleaf: `-----BEGIN CERTIFICATE-----
+MIICKDCCAc2gAwIBAgIDA1X9MAoGCCqGSM49BAMCMDkxFjAUBgNVBAoMDXNpZ3N0
+b3JlLm1vY2sxHzAdBgNVBAMMFm5jIHNlcnZlciBpbnRlcm1lZGlhdGUwIBcNMjYx
+MDE5MTMwNTIxWhgPMjEyNjA5MjUxMzA1MjFaMCoxFjAUBgNVBAoMDXNpZ3N0b3Jl
+Lm1vY2sxEDAOBgNVBAMMB25jIGxlYWYwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNC
+AASGevPNrLZ7FTDihri0UBi+GXzgwbsX8H3aTR96F7N6pXIvqit6skckUPAehtd3
+zvR2PJAw3O2xtLEX13kHVOJwo4HQMIHNMAwGA1UdEwEB/wQCMAAwDgYDVR0PAQH/
+BAQDAgeAMBMGA1UdJQQMMAoGCCsGAQUFBwMDMB0GA1UdDgQWBBQuu3/rp9+TUW/x
+0At33oV2GwSAeDAfBgNVHSMEGDAWgBSVc7ghC7gVBypjPkBwJ1K5Zk6q5TBYBgNV
+HREBAf8ETjBMgg9mb28uZXhhbXBsZS5jb22BFWFsaWNlQHN1Yi5leGFtcGxlLmNv
+bYYcaHR0cHM6Ly93d3cuZXhhbXBsZS5jb20vcGF0aIcECgECAzAKBggqhkjOPQQD
+AgNJADBGAiEAq5j/hxoiOSntXwAk2AA2tFzXx6FhWPzU239F5c76wA4CIQDK2eXD
+BeR1gcC1K7Vr/DaKvHN+5OqziT5tkj8McrbXNQ==
+-----END CERTIFICATE-----`,
+
+  // Intermediate with the anyExtendedKeyUsage EKU
+  anyint: `-----BEGIN CERTIFICATE-----
+MIIByDCCAW2gAwIBAgIDAcUDMAoGCCqGSM49BAMCMCoxFjAUBgNVBAoMDXNpZ3N0
+b3JlLm1vY2sxEDAOBgNVBAMMB25jIHJvb3QwIBcNMjYxMDE5MTMwNTIxWhgPMjEy
+NjA5MjUxMzA1MjFaMDYxFjAUBgNVBAoMDXNpZ3N0b3JlLm1vY2sxHDAaBgNVBAMM
+E25jIGFueSBpbnRlcm1lZGlhdGUwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAASd
+lu6aI3jZUsjRZF7LJg73WozBmis5r3SM0ZKkibF7JNSSTtMl3p+zFTRsTdOXJv2f
+wCuvFmA9FZnJe5/wjLKMo3QwcjAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQE
+AwIBBjAPBgNVHSUECDAGBgRVHSUAMB0GA1UdDgQWBBRnLDms0N8LG0H2PmN7WMwV
+2rBQozAfBgNVHSMEGDAWgBRuQbSUaXH1KFxLLgtdEzw7CrAAnzAKBggqhkjOPQQD
+AgNJADBGAiEApPPC0U4lgZKwMJRLLn4GNCeaWWaR3z+zDz1HxDVMOW4CIQCG9vzV
+2/ccsNoBs70Gy7I6gX7JfWN5GsjyvUFkBA1utA==
+-----END CERTIFICATE-----`,
+
+  // Issued by the anyExtendedKeyUsage intermediate. EKU: codeSigning
+  anyintleaf: `-----BEGIN CERTIFICATE-----
+MIICIjCCAcmgAwIBAgICdDwwCgYIKoZIzj0EAwIwNjEWMBQGA1UECgwNc2lnc3Rv
+cmUubW9jazEcMBoGA1UEAwwTbmMgYW55IGludGVybWVkaWF0ZTAgFw0yNjEwMTkx
+MzA1MjFaGA8yMTI2MDkyNTEzMDUyMVowKjEWMBQGA1UECgwNc2lnc3RvcmUubW9j
+azEQMA4GA1UEAwwHbmMgbGVhZjBZMBMGByqGSM49AgEGCCqGSM49AwEHA0IABIZ6
+882stnsVMOKGuLRQGL4ZfODBuxfwfdpNH3oXs3qlci+qK3qyRyRQ8B6G13fO9HY8
+kDDc7bG0sRfXeQdU4nCjgdAwgc0wDAYDVR0TAQH/BAIwADAOBgNVHQ8BAf8EBAMC
+B4AwEwYDVR0lBAwwCgYIKwYBBQUHAwMwHQYDVR0OBBYEFC67f+un35NRb/HQC3fe
+hXYbBIB4MB8GA1UdIwQYMBaAFGcsOazQ3wsbQfY+Y3tYzBXasFCjMFgGA1UdEQEB
+/wROMEyCD2Zvby5leGFtcGxlLmNvbYEVYWxpY2VAc3ViLmV4YW1wbGUuY29thhxo
+dHRwczovL3d3dy5leGFtcGxlLmNvbS9wYXRohwQKAQIDMAoGCCqGSM49BAMCA0cA
+MEQCIGXbJQgxCxYPfrfdQ2vAtZWp5ytW74+zrwBKIJvsezijAiBjIM3KJ73/aAfw
+GI8JwydC4xZ4Lp7lok0i5o5awoY+KA==
+-----END CERTIFICATE-----`,
+};
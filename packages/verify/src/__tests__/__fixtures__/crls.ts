@@ -0,0 +1,161 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import * as x509 from '@peculiar/x509';
+import { X509CRL, X509Certificate } from '@sigstore/core';
+import { webcrypto } from 'crypto';
+
+const crypto = webcrypto as unknown as Crypto;
+const KEY_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGNING_ALGORITHM = { name: 'ECDSA', hash: 'SHA-256' };
+
+const OID_CODE_SIGNING = '1.3.6.1.5.5.7.3.3';
+
+export type CRLOptions = {
+  // Hex-encoded serial numbers of the revoked certificates
+  revoked?: string[];
+  thisUpdate?: Date;
+  nextUpdate?: Date;
+  extensions?: x509.Extension[];
+};
+
+export type CRLIssuer = {
+  certificate: X509Certificate;
+  createCRL: (options?: CRLOptions) => Promise<X509CRL>;
+};
+
+// A root, an intermediate and two leaves issued by the intermediate (serials
+// 1000 and 1001). Nothing is revoked until a CRL listing it is created.
+export type PKI = {
+  root: CRLIssuer;
+  intermediate: CRLIssuer;
+  leaf: X509Certificate;
+  revoked: X509Certificate;
+};
+
+export type PKIOptions = {
+  // Whether the intermediate may sign CRLs. Defaults to true.
+  intermediateCRLSign?: boolean;
+};
+
+export async function createPKI(options: PKIOptions = {}): Promise<PKI> {
+  const validity = {
+    notBefore: new Date('2020-01-01'),
+    notAfter: new Date('2100-01-01'),
+  };
+
+  const rootKeys = await generateKeys();
+  const root = await x509.X509CertificateGenerator.createSelfSigned(
+    {
+      ...validity,
+      serialNumber: '01',
+      name: 'O=sigstore.mock, CN=crl root',
+      keys: rootKeys,
+      signingAlgorithm: SIGNING_ALGORITHM,
+      extensions: [
+        new x509.BasicConstraintsExtension(true, undefined, true),
+        caKeyUsage(true),
+      ],
+    },
+    crypto
+  );
+
+  const intKeys = await generateKeys();
+  const intermediate = await x509.X509CertificateGenerator.create(
+    {
+      ...validity,
+      serialNumber: '02',
+      subject: 'O=sigstore.mock, CN=crl intermediate',
+      issuer: root.subject,
+      publicKey: intKeys.publicKey,
+      signingKey: rootKeys.privateKey,
+      signingAlgorithm: SIGNING_ALGORITHM,
+      extensions: [
+        new x509.BasicConstraintsExtension(true, 0, true),
+        caKeyUsage(options.intermediateCRLSign ?? true),
+      ],
+    },
+    crypto
+  );
+
+  const issueLeaf = async (serialNumber: string) =>
+    x509.X509CertificateGenerator.create(
+      {
+        ...validity,
+        serialNumber,
+        subject: 'O=sigstore.mock, CN=crl leaf',
+        issuer: intermediate.subject,
+        publicKey: (await generateKeys()).publicKey,
+        signingKey: intKeys.privateKey,
+        signingAlgorithm: SIGNING_ALGORITHM,
+        extensions: [
+          new x509.BasicConstraintsExtension(false, undefined, true),
+          new x509.KeyUsagesExtension(
+            x509.KeyUsageFlags.digitalSignature,
+            true
+          ),
+          new x509.ExtendedKeyUsageExtension([OID_CODE_SIGNING]),
+        ],
+      },
+      crypto
+    ).then(toCertificate);
+
+  return {
+    root: crlIssuer(root, rootKeys),
+    intermediate: crlIssuer(intermediate, intKeys),
+    leaf: await issueLeaf('1000'),
+    revoked: await issueLeaf('1001'),
+  };
+}
+
+function crlIssuer(cert: x509.X509Certificate, keys: CryptoKeyPair): CRLIssuer {
+  return {
+    certificate: toCertificate(cert),
+    createCRL: async (options: CRLOptions = {}) => {
+      const thisUpdate = options.thisUpdate || new Date('2020-01-01');
+      const crl = await x509.X509CrlGenerator.create(
+        {
+          issuer: cert.subject,
+          thisUpdate,
+          nextUpdate: options.nextUpdate || new Date('2100-01-01'),
+          entries: (options.revoked || []).map((serialNumber) => ({
+            serialNumber,
+            revocationDate: thisUpdate,
+          })),
+          extensions: options.extensions,
+          signingKey: keys.privateKey,
+          signingAlgorithm: SIGNING_ALGORITHM,
+        },
+        crypto
+      );
+      return X509CRL.parse(Buffer.from(crl.rawData));
+    },
+  };
+}
+
+function caKeyUsage(cRLSign: boolean): x509.KeyUsagesExtension {
+  const usages = cRLSign
+    ? x509.KeyUsageFlags.keyCertSign | x509.KeyUsageFlags.cRLSign
+    : x509.KeyUsageFlags.keyCertSign;
+  return new x509.KeyUsagesExtension(usages, true);
+}
+
+async function generateKeys(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+}
+
+function toCertificate(cert: x509.X509Certificate): X509Certificate {
+  return X509Certificate.parse(Buffer.from(cert.rawData));
+}
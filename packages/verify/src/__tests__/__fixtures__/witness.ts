@@ -0,0 +1,42 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto from 'crypto';
+
+// Generates an Ed25519 witness (or uses the supplied key pair) and returns its
+// verifier key along with a function which produces a signature line for the
+// note
+export function newWitness(
+  name: string,
+  keyPair: crypto.KeyPairKeyObjectResult = crypto.generateKeyPairSync('ed25519')
+) {
+  const { publicKey, privateKey } = keyPair;
+  const rawKey = publicKey.export({ format: 'der', type: 'spki' }).subarray(12);
+  const keyData = Buffer.concat([Buffer.from([0x01]), rawKey]);
+  const keyHint = crypto
+    .createHash('sha256')
+    .update(`${name}\n`)
+    .update(keyData)
+    .digest()
+    .subarray(0, 4);
+
+  const vkey = `${name}+${keyHint.toString('hex')}+${keyData.toString('base64')}`;
+  const cosign = (data: string) => {
+    const sig = crypto.sign(null, Buffer.from(data), privateKey);
+    return `— ${name} ${Buffer.concat([keyHint, sig]).toString('base64')}\n`;
+  };
+
+  return { vkey, keyHint, cosign };
+}
@@ -96,5 +96,38 @@ describe('DSSESignatureContent', () => {
         expect(subject.verifySignature(invalidKey.publicKey)).toBe(false);
       });
     });
+
+    describe('when the envelope has been co-signed', () => {
+      const cosignerKey = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'secp256k1',
+      });
+      const cosigned: Envelope = {
+        ...env,
+        signatures: [
+          ...env.signatures,
+          { sig: crypto.sign(null, pae, cosignerKey.privateKey), keyid: '' },
+        ],
+      };
+      const subject = new DSSESignatureContent(cosigned);
+
+      it('verifies the final signature', () => {
+        expect(subject.verifySignature(cosignerKey.publicKey)).toBe(true);
+        expect(subject.verifySignature(key.publicKey)).toBe(false);
+      });
+    });
+  });
+
+  describe('#payloadDigest', () => {
+    it('returns the digest of the pre-authentication encoding', () => {
+      expect(subject.payloadDigest).toEqual(core.digest('sha256', pae));
+    });
+
+    describe('when the payload type differs', () => {
+      const other = new DSSESignatureContent({ ...env, payloadType: 'other' });
+
+      it('returns a different digest', () => {
+        expect(other.payloadDigest).not.toEqual(subject.payloadDigest);
+      });
+    });
   });
 });
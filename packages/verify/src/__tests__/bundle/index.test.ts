@@ -14,9 +14,11 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import { bundleFromJSON } from '@sigstore/bundle';
-import { X509Certificate } from '@sigstore/core';
+import { X509Certificate, crypto } from '@sigstore/core';
+import { HashAlgorithm } from '@sigstore/protobuf-specs';
 import assert from 'assert';
-import { toSignedEntity } from '../../bundle';
+import { Readable } from 'stream';
+import { toArtifactDigest, toSignedEntity } from '../../bundle';
 import * as bundles from '../__fixtures__/bundles';
 
 describe('toSignedEntity', () => {
@@ -94,3 +96,37 @@ describe('toSignedEntity', () => {
     });
   });
 });
+
+describe('toArtifactDigest', () => {
+  const data = Buffer.from('hello, world!');
+  const stream = () => Readable.from([data.subarray(0, 5), data.subarray(5)]);
+
+  describe('when the bundle is a messageSignature', () => {
+    it.each([
+      [HashAlgorithm.SHA2_256, 'sha256'],
+      [HashAlgorithm.SHA2_384, 'sha384'],
+      [HashAlgorithm.SHA2_512, 'sha512'],
+    ])(
+      'uses the algorithm of the message digest (%s)',
+      async (algorithm, expected) => {
+        const bundle = bundleFromJSON(
+          bundles.V1.MESSAGE_SIGNATURE.WITH_PUBLIC_KEY
+        );
+        assert(bundle.content.$case === 'messageSignature');
+        bundle.content.messageSignature.messageDigest.algorithm = algorithm;
+
+        const result = await toArtifactDigest(bundle, stream());
+        expect(result.digest).toEqual(crypto.digest(expected, data));
+      }
+    );
+  });
+
+  describe('when the bundle is a dsseEnvelope', () => {
+    const bundle = bundleFromJSON(bundles.V1.DSSE.WITH_SIGNING_CERT.TLOG_DSSE);
+
+    it('returns the SHA-256 digest', async () => {
+      const result = await toArtifactDigest(bundle, stream());
+      expect(result.digest).toEqual(crypto.digest('sha256', data));
+    });
+  });
+});
@@ -76,5 +76,143 @@ describe('MessageSignatureContent', () => {
         expect(subject.verifySignature(key.publicKey)).toBe(true);
       });
     });
+
+    describe('when the key is Ed25519', () => {
+      const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+      const subject = new MessageSignatureContent(
+        {
+          ...messageSignature,
+          signature: crypto.sign(null, message, privateKey),
+        },
+        message
+      );
+
+      it('returns true', () => {
+        expect(subject.verifySignature(publicKey)).toBe(true);
+      });
+    });
+
+    describe('when only the artifact digest is supplied', () => {
+      const keypairs = {
+        'ECDSA P-256': crypto.generateKeyPairSync('ec', {
+          namedCurve: 'P-256',
+        }),
+        'ECDSA P-384': crypto.generateKeyPairSync('ec', {
+          namedCurve: 'P-384',
+        }),
+        RSA: crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }),
+      };
+
+      describe.each(Object.entries(keypairs))(
+        'when the key is %s',
+        (_, { privateKey, publicKey }) => {
+          const messageSignature: MessageSignature = {
+            messageDigest: {
+              digest: messageDigest,
+              algorithm: HashAlgorithm.SHA2_256,
+            },
+            signature: crypto.sign('sha256', message, privateKey),
+          };
+
+          it('returns true when the digest matches', () => {
+            const subject = new MessageSignatureContent(messageSignature, {
+              digest: messageDigest,
+            });
+            expect(subject.verifySignature(publicKey)).toBe(true);
+          });
+
+          it('returns false when the digest does NOT match', () => {
+            const subject = new MessageSignatureContent(messageSignature, {
+              digest: core.digest('sha256', Buffer.from('other')),
+            });
+            expect(subject.verifySignature(publicKey)).toBe(false);
+          });
+        }
+      );
+
+      describe('when the key is RSA-PSS', () => {
+        const { privateKey, publicKey } = crypto.generateKeyPairSync(
+          'rsa-pss',
+          { modulusLength: 2048 }
+        );
+        const messageSignature: MessageSignature = {
+          messageDigest: {
+            digest: messageDigest,
+            algorithm: HashAlgorithm.SHA2_256,
+          },
+          signature: crypto.sign('sha256', message, privateKey),
+        };
+
+        it('returns true', () => {
+          const subject = new MessageSignatureContent(messageSignature, {
+            digest: messageDigest,
+          });
+          expect(subject.verifySignature(publicKey)).toBe(true);
+        });
+      });
+
+      describe('when an RSA key produced a PSS signature', () => {
+        const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+          modulusLength: 2048,
+        });
+        const messageSignature: MessageSignature = {
+          messageDigest: {
+            digest: messageDigest,
+            algorithm: HashAlgorithm.SHA2_256,
+          },
+          signature: crypto.sign('sha256', message, {
+            key: privateKey,
+            padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+          }),
+        };
+
+        it('returns false', () => {
+          const subject = new MessageSignatureContent(messageSignature, {
+            digest: messageDigest,
+          });
+          expect(subject.verifySignature(publicKey)).toBe(false);
+        });
+      });
+
+      describe.each([
+        ['SHA-384', HashAlgorithm.SHA2_384, 'sha384'],
+        ['SHA-512', HashAlgorithm.SHA2_512, 'sha512'],
+      ])('when the message digest is %s', (_, algorithm, hash) => {
+        const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+          modulusLength: 2048,
+        });
+        const digest = core.digest(hash, message);
+        const messageSignature: MessageSignature = {
+          messageDigest: { digest, algorithm },
+          signature: crypto.sign(hash, message, privateKey),
+        };
+
+        it('returns true', () => {
+          const subject = new MessageSignatureContent(messageSignature, {
+            digest,
+          });
+          expect(subject.verifySignature(publicKey)).toBe(true);
+        });
+
+        it('returns true when the artifact is supplied', () => {
+          const subject = new MessageSignatureContent(
+            messageSignature,
+            message
+          );
+          expect(subject.verifySignature(publicKey)).toBe(true);
+        });
+
+        it('returns false when the signature used another hash', () => {
+          const subject = new MessageSignatureContent(
+            {
+              ...messageSignature,
+              signature: crypto.sign('sha256', message, privateKey),
+            },
+            { digest }
+          );
+          expect(subject.verifySignature(publicKey)).toBe(false);
+        });
+      });
+    });
   });
 });
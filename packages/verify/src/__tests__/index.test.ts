@@ -15,28 +15,48 @@ limitations under the License.
 */
 import { fromPartial } from '@total-typescript/shoehorn';
 import {
+  CheckpointStore,
+  ConsistencyProofFunc,
   KeyFinderFunc,
+  LogCheckpoint,
+  MemoryCheckpointStore,
   PolicyError,
+  SignedNote,
   SignedEntity,
   Signer,
+  TLogClient,
   TrustMaterial,
+  TrustedRootBuilder,
+  TrustedRootError,
   VerificationError,
   VerificationPolicy,
   Verifier,
   VerifierOptions,
+  WitnessKey,
+  parseWitnessKey,
+  toArtifactDigest,
   toSignedEntity,
   toTrustMaterial,
+  verifySignedNote,
 } from '..';
 
 it('exports classes', () => {
   expect(Verifier).toBeDefined();
   expect(VerificationError).toBeDefined();
   expect(PolicyError).toBeDefined();
+  expect(SignedNote).toBeDefined();
+  expect(LogCheckpoint).toBeDefined();
+  expect(MemoryCheckpointStore).toBeDefined();
+  expect(TrustedRootBuilder).toBeDefined();
+  expect(TrustedRootError).toBeDefined();
 });
 
 it('exports functions', () => {
+  expect(toArtifactDigest).toBeInstanceOf(Function);
   expect(toSignedEntity).toBeInstanceOf(Function);
   expect(toTrustMaterial).toBeInstanceOf(Function);
+  expect(verifySignedNote).toBeInstanceOf(Function);
+  expect(parseWitnessKey).toBeInstanceOf(Function);
 });
 
 it('exports types', async () => {
@@ -57,4 +77,16 @@ it('exports types', async () => {
 
   const verificationPolicy: VerificationPolicy = fromPartial({});
   expect(verificationPolicy).toBeDefined();
+
+  const checkpointStore: CheckpointStore = fromPartial({});
+  expect(checkpointStore).toBeDefined();
+
+  const consistencyProofFunc: ConsistencyProofFunc = fromPartial({});
+  expect(consistencyProofFunc).toBeDefined();
+
+  const tlogClient: TLogClient = fromPartial({});
+  expect(tlogClient).toBeDefined();
+
+  const witnessKey: WitnessKey = fromPartial({});
+  expect(witnessKey).toBeDefined();
 });
@@ -17,8 +17,12 @@ import { X509Certificate } from '@sigstore/core';
 import { VerificationError } from '../../error';
 import { verifyCertificateChain } from '../../key/certificate';
 import { certificates } from '../__fixtures__/certs';
+import * as constraints from '../__fixtures__/constraints';
+import { createPKI } from '../__fixtures__/crls';
 
+import type { RevocationPolicy } from '../../key/revocation';
 import type { CertAuthority } from '../../trust';
+import type { PKI } from '../__fixtures__/crls';
 
 describe('verifyCertificateChain', () => {
   const rootCert = X509Certificate.parse(certificates.root);
@@ -110,7 +114,11 @@ describe('verifyCertificateChain', () => {
     });
 
     it('returns the trusted chain', () => {
-      const trustedChain = verifyCertificateChain(leafCert, cas);
+      const { certAuthority, path: trustedChain } = verifyCertificateChain(
+        leafCert,
+        cas
+      );
+      expect(certAuthority).toBe(cas[0]);
       expect(trustedChain).toBeDefined();
       expect(trustedChain).toHaveLength(3);
 
@@ -132,10 +140,152 @@ describe('verifyCertificateChain', () => {
     });
 
     it('returns the trusted chain', () => {
-      const trustedChain = verifyCertificateChain(rootCert, cas);
+      const { certAuthority, path: trustedChain } = verifyCertificateChain(
+        rootCert,
+        cas
+      );
+      expect(certAuthority).toBe(cas[0]);
       expect(trustedChain).toBeDefined();
       expect(trustedChain).toHaveLength(1);
       expect(trustedChain[0]).toEqual(rootCert);
     });
   });
+
+  describe('when a revocation policy is supplied', () => {
+    let pki: PKI;
+    let cas: CertAuthority[];
+    let policy: RevocationPolicy;
+
+    beforeAll(async () => {
+      pki = await createPKI();
+      cas = [
+        {
+          certChain: [rootCert, intCert],
+          validFor: { start: new Date(0), end: new Date('2100-01-01') },
+        },
+        {
+          certChain: [pki.root.certificate, pki.intermediate.certificate],
+          validFor: { start: new Date(0), end: new Date('2200-01-01') },
+        },
+      ];
+      policy = {
+        crls: [await pki.intermediate.createCRL({ revoked: ['1001'] })],
+        mode: 'soft-fail',
+      };
+    });
+
+    describe('when the certificate has NOT been revoked', () => {
+      it('returns the trusted chain', () => {
+        const { certAuthority, path } = verifyCertificateChain(
+          pki.leaf,
+          cas,
+          policy
+        );
+        expect(certAuthority).toBe(cas[1]);
+        expect(path).toHaveLength(3);
+      });
+    });
+
+    describe('when the certificate has been revoked', () => {
+      it('throws a revocation error', () => {
+        expect(() =>
+          verifyCertificateChain(pki.revoked, cas, policy)
+        ).toThrowWithCode(VerificationError, 'CERTIFICATE_REVOCATION_ERROR');
+      });
+    });
+  });
+
+  describe('when validating extensions', () => {
+    const root = X509Certificate.parse(constraints.certificates.root);
+    const cas: CertAuthority[] = [
+      {
+        certChain: [root],
+        validFor: { start: new Date(0), end: new Date('2200-01-01') },
+      },
+    ];
+
+    describe('when the leaf has the code signing EKU', () => {
+      const leaf = X509Certificate.parse(constraints.certificates.leaf);
+
+      it('returns the trusted chain', () => {
+        const { path } = verifyCertificateChain(leaf, cas);
+        expect(path).toEqual([leaf, root]);
+      });
+    });
+
+    describe('when the leaf does NOT have the code signing EKU', () => {
+      const leaf = X509Certificate.parse(constraints.certificates.serverauth);
+
+      it('throws an error', () => {
+        expect(() => verifyCertificateChain(leaf, cas)).toThrowWithCode(
+          VerificationError,
+          'CERTIFICATE_ERROR'
+        );
+      });
+    });
+
+    describe('when the leaf does NOT have an EKU extension', () => {
+      const leaf = X509Certificate.parse(constraints.certificates.excluded);
+
+      it('throws an error', () => {
+        expect(() => verifyCertificateChain(leaf, cas)).toThrowWithCode(
+          VerificationError,
+          'CERTIFICATE_ERROR'
+        );
+      });
+    });
+
+    describe('when an intermediate restricts the EKU', () => {
+      const intermediate = X509Certificate.parse(
+        constraints.certificates.serverauthint
+      );
+      const leaf = X509Certificate.parse(
+        constraints.certificates.serverauthintleaf
+      );
+      const cas: CertAuthority[] = [
+        {
+          certChain: [root, intermediate],
+          validFor: { start: new Date(0), end: new Date('2200-01-01') },
+        },
+      ];
+
+      it('throws an error', () => {
+        expect(() => verifyCertificateChain(leaf, cas)).toThrowWithCode(
+          VerificationError,
+          'CERTIFICATE_ERROR'
+        );
+      });
+    });
+
+    describe('when an intermediate permits any EKU', () => {
+      const intermediate = X509Certificate.parse(
+        constraints.certificates.anyint
+      );
+      const leaf = X509Certificate.parse(constraints.certificates.anyintleaf);
+      const cas: CertAuthority[] = [
+        {
+          certChain: [root, intermediate],
+          validFor: { start: new Date(0), end: new Date('2200-01-01') },
+        },
+      ];
+
+      it('returns the trusted chain', () => {
+        const { path } = verifyCertificateChain(leaf, cas);
+        expect(path).toEqual([leaf, intermediate, root]);
+      });
+    });
+
+    describe('when a certificate has an unsupported critical extension', () => {
+      const leaf = X509Certificate.parse(
+        constraints.certificates.unknowncritical
+      );
+
+      it('throws an error', () => {
+        expect(() => verifyCertificateChain(leaf, cas)).toThrowWithCode(
+          VerificationError,
+          'CERTIFICATE_ERROR'
+        );
+      });
+    });
+  });
 });
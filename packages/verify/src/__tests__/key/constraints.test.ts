@@ -0,0 +1,224 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { X509Certificate } from '@sigstore/core';
+import { fromPartial } from '@total-typescript/shoehorn';
+import { VerificationError } from '../../error';
+import { verifyNameConstraints } from '../../key/constraints';
+import { certificates } from '../__fixtures__/constraints';
+
+import type { GeneralName, GeneralNameType } from '@sigstore/core';
+
+describe('verifyNameConstraints', () => {
+  describe('when the certificates were issued by a constrained CA', () => {
+    const root = X509Certificate.parse(certificates.root);
+
+    describe('when all of the names are permitted', () => {
+      const leaf = X509Certificate.parse(certificates.leaf);
+
+      it('does not throw an error', () => {
+        expect(() => verifyNameConstraints([leaf, root])).not.toThrow();
+      });
+    });
+
+    describe('when a name is excluded', () => {
+      const leaf = X509Certificate.parse(certificates.excluded);
+
+      it('throws an error', () => {
+        expect(() => verifyNameConstraints([leaf, root])).toThrowWithCode(
+          VerificationError,
+          'CERTIFICATE_ERROR'
+        );
+      });
+    });
+
+    describe('when the path contains only the root', () => {
+      it('does not throw an error', () => {
+        expect(() => verifyNameConstraints([root])).not.toThrow();
+      });
+    });
+  });
+
+  describe('when matching names', () => {
+    const name = (type: GeneralNameType, value: string | Buffer) => ({
+      type,
+      value: Buffer.isBuffer(value) ? value : Buffer.from(value),
+    });
+
+    const leaf = (names: GeneralName[], subject = Buffer.alloc(0)) =>
+      fromPartial<X509Certificate>({
+        isCA: false,
+        subject,
+        issuer: Buffer.from('issuer'),
+        extSubjectAltName: fromPartial({ names }),
+      });
+
+    const ca = (permitted: GeneralName[], excluded: GeneralName[] = []) =>
+      fromPartial<X509Certificate>({
+        extNameConstraints: fromPartial({
+          permittedSubtrees: permitted,
+          excludedSubtrees: excluded,
+        }),
+      });
+
+    const permits = (n: GeneralName, constraint: GeneralName) => {
+      try {
+        verifyNameConstraints([leaf([n]), ca([constraint])]);
+        return true;
+      } catch (e) {
+        return false;
+      }
+    };
+
+    it('matches DNS names', () => {
+      const constraint = name('dNSName', 'example.com');
+      expect(permits(name('dNSName', 'example.com'), constraint)).toBe(true);
+      expect(permits(name('dNSName', 'a.b.EXAMPLE.com'), constraint)).toBe(
+        true
+      );
+      expect(permits(name('dNSName', 'badexample.com'), constraint)).toBe(
+        false
+      );
+      expect(permits(name('dNSName', 'foo.com'), name('dNSName', ''))).toBe(
+        true
+      );
+    });
+
+    it('matches email addresses', () => {
+      const mailbox = name('rfc822Name', 'alice@example.com');
+      expect(permits(name('rfc822Name', 'alice@example.com'), mailbox)).toBe(
+        true
+      );
+      expect(permits(name('rfc822Name', 'bob@example.com'), mailbox)).toBe(
+        false
+      );
+
+      const host = name('rfc822Name', 'example.com');
+      expect(permits(name('rfc822Name', 'bob@example.com'), host)).toBe(true);
+      expect(permits(name('rfc822Name', 'bob@a.example.com'), host)).toBe(
+        false
+      );
+
+      const domain = name('rfc822Name', '.example.com');
+      expect(permits(name('rfc822Name', 'bob@a.example.com'), domain)).toBe(
+        true
+      );
+      expect(permits(name('rfc822Name', 'bob@example.com'), domain)).toBe(
+        false
+      );
+    });
+
+    it('matches URIs', () => {
+      const uri = (value: string) => name('uniformResourceIdentifier', value);
+
+      const host = uri('example.com');
+      expect(permits(uri('https://example.com/foo'), host)).toBe(true);
+      expect(permits(uri('https://www.example.com/foo'), host)).toBe(false);
+      expect(permits(uri('not a uri'), host)).toBe(false);
+
+      const domain = uri('.example.com');
+      expect(permits(uri('spiffe://www.example.com/foo'), domain)).toBe(true);
+      expect(permits(uri('https://example.com/foo'), domain)).toBe(false);
+    });
+
+    it('matches IP addresses', () => {
+      const constraint = name(
+        'iPAddress',
+        Buffer.from([192, 168, 0, 0, 255, 255, 0, 0])
+      );
+      const ip = (...bytes: number[]) => name('iPAddress', Buffer.from(bytes));
+
+      expect(permits(ip(192, 168, 1, 2), constraint)).toBe(true);
+      expect(permits(ip(192, 169, 1, 2), constraint)).toBe(false);
+      expect(permits(ip(...new Array(16).fill(0)), constraint)).toBe(false);
+    });
+
+    it('matches directory names', () => {
+      const constraint = name('directoryName', Buffer.from('0102', 'hex'));
+      const dn = (hex: string) =>
+        name('directoryName', Buffer.from(hex, 'hex'));
+
+      expect(permits(dn('0102'), constraint)).toBe(true);
+      expect(permits(dn('010203'), constraint)).toBe(true);
+      expect(permits(dn('0201'), constraint)).toBe(false);
+    });
+
+    it('checks the subject as a directory name', () => {
+      const constraint = name('directoryName', Buffer.from('0102', 'hex'));
+      const cert = (subject: string) => leaf([], Buffer.from(subject, 'hex'));
+
+      expect(() =>
+        verifyNameConstraints([cert('010203'), ca([constraint])])
+      ).not.toThrow();
+      expect(() =>
+        verifyNameConstraints([cert('0201'), ca([constraint])])
+      ).toThrowWithCode(VerificationError, 'CERTIFICATE_ERROR');
+    });
+
+    it('does not restrict names of a different type', () => {
+      expect(
+        permits(name('dNSName', 'foo.com'), name('rfc822Name', 'example.com'))
+      ).toBe(true);
+    });
+
+    it('rejects names of a constrained type which is not supported', () => {
+      const other = name('otherName', 'foo');
+      expect(permits(other, name('otherName', 'foo'))).toBe(false);
+      expect(() =>
+        verifyNameConstraints([leaf([other]), ca([], [other])])
+      ).toThrowWithCode(VerificationError, 'CERTIFICATE_ERROR');
+    });
+
+    it('ignores names which do not match an excluded subtree', () => {
+      expect(() =>
+        verifyNameConstraints([
+          leaf([name('dNSName', 'good.example.com')]),
+          ca([], [name('dNSName', 'bad.example.com')]),
+        ])
+      ).not.toThrow();
+    });
+
+    describe('when a self-issued intermediate follows the CA', () => {
+      const intermediate = fromPartial<X509Certificate>({
+        isCA: true,
+        subject: Buffer.from('issuer'),
+        issuer: Buffer.from('issuer'),
+      });
+
+      it('does not apply the constraints to the intermediate', () => {
+        expect(() =>
+          verifyNameConstraints([
+            intermediate,
+            ca([name('directoryName', Buffer.from('other'))]),
+          ])
+        ).not.toThrow();
+      });
+    });
+
+    describe('when the certificate has no subject alternative names', () => {
+      const cert = fromPartial<X509Certificate>({
+        isCA: false,
+        subject: Buffer.alloc(0),
+        issuer: Buffer.from('issuer'),
+      });
+
+      it('does not throw an error', () => {
+        expect(() =>
+          verifyNameConstraints([cert, ca([name('dNSName', 'example.com')])])
+        ).not.toThrow();
+      });
+    });
+  });
+});
@@ -16,7 +16,12 @@ limitations under the License.
 import { X509Certificate, crypto } from '@sigstore/core';
 import { fromPartial } from '@total-typescript/shoehorn';
 import { VerificationError } from '../../error';
-import { verifyCertificate, verifyPublicKey } from '../../key';
+import {
+  FULCIO_EXTENSIONS,
+  getFulcioExtension,
+  verifyCertificate,
+  verifyPublicKey,
+} from '../../key';
 
 import type { CertAuthority, TLogAuthority, TrustMaterial } from '../../trust';
 
@@ -163,6 +168,64 @@ describe('verifyCertificate', () => {
       );
       expect(result.signer.key).toBeDefined();
     });
+
+    it('returns all of the Fulcio extensions', () => {
+      const result = verifyCertificate(leaf, timestamps, trustMaterial);
+      expect(result.signer.identity?.extensions).toEqual({
+        issuer: 'https://token.actions.githubusercontent.com',
+        githubWorkflowTrigger: 'push',
+        githubWorkflowSHA: '26d16513386ffaa790b1c32f927544f1322e4194',
+        githubWorkflowName: 'Release',
+        githubWorkflowRepository: 'sigstore/sigstore-js',
+        githubWorkflowRef: 'refs/heads/main',
+        buildSignerURI:
+          'https://github.com/sigstore/sigstore-js/.github/workflows/release.yml@refs/heads/main',
+        buildSignerDigest: '26d16513386ffaa790b1c32f927544f1322e4194',
+        runnerEnvironment: 'github-hosted',
+        sourceRepositoryURI: 'https://github.com/sigstore/sigstore-js',
+        sourceRepositoryDigest: '26d16513386ffaa790b1c32f927544f1322e4194',
+        sourceRepositoryRef: 'refs/heads/main',
+        sourceRepositoryIdentifier: '495574555',
+        sourceRepositoryOwnerURI: 'https://github.com/sigstore',
+        sourceRepositoryOwnerIdentifier: '71096353',
+        buildConfigURI:
+          'https://github.com/sigstore/sigstore-js/.github/workflows/release.yml@refs/heads/main',
+        buildConfigDigest: '26d16513386ffaa790b1c32f927544f1322e4194',
+        buildTrigger: 'push',
+        runInvocationURI:
+          'https://github.com/sigstore/sigstore-js/actions/runs/6014488666/attempts/1',
+        sourceRepositoryVisibilityAtSigning: 'public',
+      });
+    });
+
+    it('returns the raw values of all the extensions', () => {
+      const result = verifyCertificate(leaf, timestamps, trustMaterial);
+      const oids = result.signer.identity?.oids;
+      expect(oids).toBeDefined();
+      expect(oids?.['1.3.6.1.4.1.57264.1.1']?.toString()).toEqual(
+        'https://token.actions.githubusercontent.com'
+      );
+      // DER-encoded UTF8String
+      expect(oids?.['1.3.6.1.4.1.57264.1.22']).toEqual(
+        Buffer.from([0x0c, 0x06, ...Buffer.from('public')])
+      );
+    });
+  });
+
+  describe('getFulcioExtension', () => {
+    it('decodes legacy extensions', () => {
+      expect(
+        FULCIO_EXTENSIONS.find(({ oid }) => oid === '1.3.6.1.4.1.57264.1.1')
+      ).toEqual({ name: 'issuer', oid: '1.3.6.1.4.1.57264.1.1', legacy: true });
+
+      expect(getFulcioExtension(leaf, '1.3.6.1.4.1.57264.1.1')).toEqual(
+        'https://github.com/login/oauth'
+      );
+    });
+
+    it('returns undefined for missing extensions', () => {
+      expect(getFulcioExtension(leaf, '1.3.6.1.4.1.57264.1.8')).toBeUndefined();
+    });
   });
 
   describe('when a public key is supplied', () => {
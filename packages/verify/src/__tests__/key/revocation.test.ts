@@ -0,0 +1,256 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { Extension } from '@peculiar/x509';
+import { X509CRL, X509Certificate } from '@sigstore/core';
+import { VerificationError } from '../../error';
+import { isRevocationError, verifyRevocation } from '../../key/revocation';
+import { createPKI } from '../__fixtures__/crls';
+
+import type { RevocationPolicy } from '../../key/revocation';
+import type { PKI } from '../__fixtures__/crls';
+
+describe('verifyRevocation', () => {
+  let pki: PKI;
+  let path: X509Certificate[];
+  let intEmpty: X509CRL;
+  let intRevoked: X509CRL;
+  let rootEmpty: X509CRL;
+  let rootRevoked: X509CRL;
+
+  beforeAll(async () => {
+    pki = await createPKI();
+    path = [pki.leaf, pki.intermediate.certificate, pki.root.certificate];
+
+    intEmpty = await pki.intermediate.createCRL();
+    intRevoked = await pki.intermediate.createCRL({ revoked: ['1001'] });
+    rootEmpty = await pki.root.createCRL();
+    rootRevoked = await pki.root.createCRL({ revoked: ['02'] });
+  });
+
+  describe('when none of the certificates have been revoked', () => {
+    it('does not throw an error', () => {
+      const policy: RevocationPolicy = {
+        crls: [intRevoked, rootEmpty],
+        mode: 'hard-fail',
+      };
+
+      expect(() => verifyRevocation(path, policy)).not.toThrow();
+    });
+  });
+
+  describe('when the leaf certificate has been revoked', () => {
+    it('throws an error', () => {
+      const policy: RevocationPolicy = {
+        crls: [intRevoked],
+        mode: 'soft-fail',
+      };
+
+      expect(() =>
+        verifyRevocation([pki.revoked, ...path.slice(1)], policy)
+      ).toThrowWithCode(VerificationError, 'CERTIFICATE_REVOCATION_ERROR');
+    });
+  });
+
+  describe('when the intermediate certificate has been revoked', () => {
+    it('throws an error', () => {
+      const policy: RevocationPolicy = {
+        crls: [intEmpty, rootRevoked],
+        mode: 'soft-fail',
+      };
+
+      expect(() => verifyRevocation(path, policy)).toThrowWithCode(
+        VerificationError,
+        'CERTIFICATE_REVOCATION_ERROR'
+      );
+    });
+  });
+
+  describe('when the path contains only the root', () => {
+    it('does not throw an error', () => {
+      const policy: RevocationPolicy = { crls: [], mode: 'hard-fail' };
+
+      expect(() =>
+        verifyRevocation([pki.root.certificate], policy)
+      ).not.toThrow();
+    });
+  });
+
+  describe('when there is no CRL from an issuer', () => {
+    describe('when the mode is soft-fail', () => {
+      it('does not throw an error', () => {
+        const policy: RevocationPolicy = {
+          crls: [intEmpty],
+          mode: 'soft-fail',
+        };
+
+        expect(() => verifyRevocation(path, policy)).not.toThrow();
+      });
+    });
+
+    describe('when the mode is hard-fail', () => {
+      it('throws an error', () => {
+        const policy: RevocationPolicy = {
+          crls: [intEmpty],
+          mode: 'hard-fail',
+        };
+
+        expect(() => verifyRevocation(path, policy)).toThrowWithCode(
+          VerificationError,
+          'CERTIFICATE_REVOCATION_ERROR'
+        );
+      });
+    });
+  });
+
+  describe('when the CRL has expired', () => {
+    let policy: RevocationPolicy;
+
+    beforeAll(async () => {
+      const intExpired = await pki.intermediate.createCRL({
+        thisUpdate: new Date('2020-01-01'),
+        nextUpdate: new Date('2020-02-01'),
+      });
+      policy = { crls: [intExpired], mode: 'hard-fail' };
+    });
+
+    it('throws an error', () => {
+      expect(() => verifyRevocation(path.slice(0, 2), policy)).toThrowWithCode(
+        VerificationError,
+        'CERTIFICATE_REVOCATION_ERROR'
+      );
+    });
+
+    describe('when checking a date within the update window', () => {
+      it('does not throw an error', () => {
+        const date = new Date('2020-01-15');
+
+        expect(() =>
+          verifyRevocation(path.slice(0, 2), policy, date)
+        ).not.toThrow();
+      });
+    });
+  });
+
+  describe('when the CRL was not signed by the issuer', () => {
+    it('ignores the CRL', () => {
+      // Corrupt the last byte of the CRL's signature
+      const der = intRevoked.root.toDER();
+      der[der.length - 1] ^= 0xff;
+      const forged = X509CRL.parse(der);
+
+      const policy: RevocationPolicy = { crls: [forged], mode: 'soft-fail' };
+
+      expect(() =>
+        verifyRevocation([pki.revoked, ...path.slice(1)], policy)
+      ).not.toThrow();
+    });
+  });
+
+  describe('when the CRL is not complete', () => {
+    // deltaCRLIndicator with a base CRL number of 1
+    const deltaCRLIndicator = new Extension(
+      '2.5.29.27',
+      true,
+      Buffer.from('020101', 'hex')
+    );
+    // issuingDistributionPoint scoped to end-entity certificates
+    const issuingDistributionPoint = new Extension(
+      '2.5.29.28',
+      true,
+      Buffer.from('30038101ff', 'hex')
+    );
+
+    it.each([
+      ['a delta CRL', deltaCRLIndicator],
+      ['scoped by an issuing distribution point', issuingDistributionPoint],
+      [
+        'has an unknown critical extension',
+        new Extension('1.2.3.4', true, Buffer.from('0500', 'hex')),
+      ],
+    ])('ignores the CRL when it is %s', async (_, extension) => {
+      const crl = await pki.intermediate.createCRL({
+        revoked: ['1001'],
+        extensions: [extension],
+      });
+
+      expect(() =>
+        verifyRevocation([pki.revoked, ...path.slice(1)], {
+          crls: [crl, rootEmpty],
+          mode: 'soft-fail',
+        })
+      ).not.toThrow();
+      expect(() =>
+        verifyRevocation(path, { crls: [crl, rootEmpty], mode: 'hard-fail' })
+      ).toThrowWithCode(VerificationError, 'CERTIFICATE_REVOCATION_ERROR');
+    });
+
+    describe('when the CRL has non-critical extensions', () => {
+      it('uses the CRL', async () => {
+        // cRLNumber of 1
+        const crl = await pki.intermediate.createCRL({
+          extensions: [
+            new Extension('2.5.29.20', false, Buffer.from('020101', 'hex')),
+          ],
+        });
+
+        expect(() =>
+          verifyRevocation(path, { crls: [crl, rootEmpty], mode: 'hard-fail' })
+        ).not.toThrow();
+      });
+    });
+  });
+
+  describe('when the issuer is not permitted to sign CRLs', () => {
+    it('ignores the CRL', async () => {
+      const pki = await createPKI({ intermediateCRLSign: false });
+      const policy: RevocationPolicy = {
+        crls: [
+          await pki.intermediate.createCRL({ revoked: ['1001'] }),
+          await pki.root.createCRL(),
+        ],
+        mode: 'hard-fail',
+      };
+      const root = pki.root.certificate;
+      const intermediate = pki.intermediate.certificate;
+
+      expect(() =>
+        verifyRevocation([pki.leaf, intermediate, root], policy)
+      ).toThrow(/no current CRL/);
+      expect(() =>
+        verifyRevocation([pki.revoked, intermediate, root], policy)
+      ).toThrow(/no current CRL/);
+    });
+  });
+});
+
+describe('isRevocationError', () => {
+  it('returns true for revocation errors', () => {
+    const err = new VerificationError({
+      code: 'CERTIFICATE_REVOCATION_ERROR',
+      message: 'revoked',
+    });
+    expect(isRevocationError(err)).toBe(true);
+  });
+
+  it('returns false for other errors', () => {
+    const err = new VerificationError({
+      code: 'CERTIFICATE_ERROR',
+      message: 'invalid',
+    });
+    expect(isRevocationError(err)).toBe(false);
+    expect(isRevocationError(new Error('oops'))).toBe(false);
+  });
+});
@@ -1,5 +1,11 @@
 import { PolicyError } from '../error';
-import { verifyExtensions, verifySubjectAlternativeName } from '../policy';
+import {
+  verifyCertificateIdentity,
+  verifyExtensions,
+  verifyOIDs,
+  verifySubjectAlternativeName,
+} from '../policy';
+import { CertificateIdentity, ValueMatcher } from '../shared.types';
 
 describe('verifySubjectAlternativeName', () => {
   describe('when the signer identity is undefined', () => {
@@ -24,6 +30,91 @@ describe('verifySubjectAlternativeName', () => {
       expect(() => verifySubjectAlternativeName('foo', 'foo')).not.toThrow();
     });
   });
+
+  describe('when the policy is an exact matcher', () => {
+    it('matches only the exact value', () => {
+      expect(() =>
+        verifySubjectAlternativeName({ exact: 'foo' }, 'foo')
+      ).not.toThrow();
+      expect(() =>
+        verifySubjectAlternativeName({ exact: 'foo' }, 'foobar')
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when the policy is a regex matcher', () => {
+    it('matches values satisfying the regex', () => {
+      expect(() =>
+        verifySubjectAlternativeName({ regex: /^foo@.*\.com$/ }, 'foo@bar.com')
+      ).not.toThrow();
+      expect(() =>
+        verifySubjectAlternativeName({ regex: '^foo@.*\\.com$' }, 'foo@bar.org')
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when the regex has the global or sticky flag', () => {
+    it('matches consistently across verifications', () => {
+      const policy = { regex: /^foo@bar\.com$/giy };
+
+      for (let i = 0; i < 3; i++) {
+        expect(() =>
+          verifySubjectAlternativeName(policy, 'FOO@bar.com')
+        ).not.toThrow();
+      }
+      expect(policy.regex.lastIndex).toEqual(0);
+    });
+  });
+
+  describe('when the matcher is malformed', () => {
+    it.each([
+      ['an empty object', {}],
+      ['null', null],
+      ['a non-string glob', { glob: 42 }],
+      ['a non-string exact value', { exact: undefined }],
+    ])('throws a policy error for %s', (_, matcher) => {
+      expect(() =>
+        verifySubjectAlternativeName(matcher as ValueMatcher, 'foo')
+      ).toThrowWithCode(PolicyError, 'INVALID_POLICY_ERROR');
+    });
+
+    it('throws a policy error when there is no signer value', () => {
+      expect(() =>
+        verifyExtensions({ issuer: {} as ValueMatcher }, {})
+      ).toThrowWithCode(PolicyError, 'INVALID_POLICY_ERROR');
+    });
+  });
+
+  describe('when the policy is a glob matcher', () => {
+    const glob = 'https://github.com/foo/*/.github/workflows/*.yml@**';
+
+    it('matches values satisfying the glob', () => {
+      expect(() =>
+        verifySubjectAlternativeName(
+          { glob },
+          'https://github.com/foo/bar/.github/workflows/release.yml@refs/tags/v1.0.0'
+        )
+      ).not.toThrow();
+    });
+
+    it('does not match across path separators with a single wildcard', () => {
+      expect(() =>
+        verifySubjectAlternativeName(
+          { glob },
+          'https://github.com/foo/bar/baz/.github/workflows/release.yml@refs/heads/main'
+        )
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+
+    it('escapes regex metacharacters', () => {
+      expect(() =>
+        verifySubjectAlternativeName({ glob: 'a.b?' }, 'axbc')
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+      expect(() =>
+        verifySubjectAlternativeName({ glob: 'a.b?' }, 'a.bc')
+      ).not.toThrow();
+    });
+  });
 });
 
 describe('verifyExtensions', () => {
@@ -58,4 +149,250 @@ describe('verifyExtensions', () => {
       ).not.toThrow();
     });
   });
+
+  describe('when a bare string is used as an extension matcher', () => {
+    it('requires an exact match', () => {
+      expect(() =>
+        verifyExtensions({ issuer: 'foo' }, { issuer: 'foobar' })
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when multiple extensions are specified', () => {
+    const extensions = {
+      sourceRepositoryURI: 'https://github.com/foo/bar',
+      sourceRepositoryRef: 'refs/tags/v1.0.0',
+      runnerEnvironment: 'github-hosted',
+    };
+
+    it('matches when all of the extensions match', () => {
+      expect(() =>
+        verifyExtensions(
+          {
+            sourceRepositoryURI: { exact: 'https://github.com/foo/bar' },
+            sourceRepositoryRef: { glob: 'refs/tags/v*' },
+            runnerEnvironment: { regex: '^github-' },
+          },
+          extensions
+        )
+      ).not.toThrow();
+    });
+
+    it('throws when any of the extensions do not match', () => {
+      expect(() =>
+        verifyExtensions(
+          {
+            sourceRepositoryURI: { exact: 'https://github.com/foo/bar' },
+            runnerEnvironment: { exact: 'self-hosted' },
+          },
+          extensions
+        )
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+});
+
+describe('verifyOIDs', () => {
+  const oids = {
+    // Legacy extension with the raw value
+    '1.3.6.1.4.1.57264.1.1': Buffer.from('https://github.com/login/oauth'),
+    // Extension with a DER-encoded UTF8String value
+    '1.3.6.1.4.1.57264.1.8': Buffer.from(
+      '0c1e68747470733a2f2f6769746875622e636f6d2f6c6f67696e2f6f61757468',
+      'hex'
+    ),
+  };
+
+  describe('when the signer OIDs are undefined', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyOIDs({ '1.3.6.1.4.1.57264.1.1': 'foo' }, undefined)
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when the OID is not present in the certificate', () => {
+    it('throws an error naming the OID', () => {
+      expect(() => verifyOIDs({ '1.2.3.4': 'foo' }, oids)).toThrow(
+        /1\.2\.3\.4=foo/
+      );
+    });
+  });
+
+  describe('when the OID names an Object prototype property', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyOIDs({ constructor: { regex: '.*' } }, oids)
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when the raw (v1) extension value matches', () => {
+    it('does not throw an error', () => {
+      expect(() =>
+        verifyOIDs(
+          { '1.3.6.1.4.1.57264.1.1': 'https://github.com/login/oauth' },
+          oids
+        )
+      ).not.toThrow();
+    });
+  });
+
+  describe('when the DER-encoded (v2) extension value matches', () => {
+    it('does not throw an error', () => {
+      expect(() =>
+        verifyOIDs(
+          { '1.3.6.1.4.1.57264.1.8': 'https://github.com/login/oauth' },
+          oids
+        )
+      ).not.toThrow();
+    });
+  });
+
+  describe('when the extension value does not match', () => {
+    it('throws an error naming the OID', () => {
+      expect(() =>
+        verifyOIDs(
+          {
+            '1.3.6.1.4.1.57264.1.1': 'https://github.com/login/oauth',
+            '1.3.6.1.4.1.57264.1.8': 'https://accounts.google.com',
+          },
+          oids
+        )
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+      expect(() =>
+        verifyOIDs(
+          { '1.3.6.1.4.1.57264.1.8': 'https://accounts.google.com' },
+          oids
+        )
+      ).toThrow(/1\.3\.6\.1\.4\.1\.57264\.1\.8/);
+    });
+  });
+
+  describe('when a non-UTF8String DER value is present', () => {
+    it('matches against the raw value', () => {
+      const raw = Buffer.from('0403666f6f', 'hex');
+      expect(() =>
+        verifyOIDs({ '1.2.3.4': raw.toString('utf8') }, { '1.2.3.4': raw })
+      ).not.toThrow();
+    });
+  });
+});
+
+describe('verifyCertificateIdentity', () => {
+  const identity: CertificateIdentity = {
+    subjectAlternativeName:
+      'https://github.com/foo/bar/.github/workflows/release.yml@refs/heads/main',
+    extensions: {
+      issuer: 'https://token.actions.githubusercontent.com',
+      sourceRepositoryURI: 'https://github.com/foo/bar',
+      sourceRepositoryRef: 'refs/heads/main',
+      sourceRepositoryVisibilityAtSigning: 'public',
+    },
+  };
+
+  describe('when the "oids" policy matches', () => {
+    it('does not throw an error', () => {
+      expect(() =>
+        verifyCertificateIdentity(
+          { oids: { '1.2.3.4': { glob: 'foo*' } } },
+          { ...identity, oids: { '1.2.3.4': Buffer.from('foobar') } }
+        )
+      ).not.toThrow();
+    });
+  });
+
+  describe('when the "oids" policy does not match', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyCertificateIdentity({ oids: { '1.2.3.4': 'foo' } }, identity)
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when the policy is empty', () => {
+    it('does not throw an error', () => {
+      expect(() => verifyCertificateIdentity({}, identity)).not.toThrow();
+    });
+  });
+
+  describe('when all of the "allOf" policies match', () => {
+    it('does not throw an error', () => {
+      expect(() =>
+        verifyCertificateIdentity(
+          {
+            allOf: [
+              { extensions: { issuer: identity.extensions?.issuer } },
+              { subjectAlternativeName: { glob: 'https://github.com/foo/**' } },
+            ],
+          },
+          identity
+        )
+      ).not.toThrow();
+    });
+  });
+
+  describe('when one of the "allOf" policies does not match', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyCertificateIdentity(
+          {
+            allOf: [
+              { extensions: { issuer: identity.extensions?.issuer } },
+              {
+                extensions: { sourceRepositoryVisibilityAtSigning: 'private' },
+              },
+            ],
+          },
+          identity
+        )
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when one of the "anyOf" policies matches', () => {
+    it('does not throw an error', () => {
+      expect(() =>
+        verifyCertificateIdentity(
+          {
+            anyOf: [
+              { extensions: { sourceRepositoryRef: 'refs/heads/release' } },
+              { extensions: { sourceRepositoryRef: 'refs/heads/main' } },
+            ],
+          },
+          identity
+        )
+      ).not.toThrow();
+    });
+  });
+
+  describe('when none of the "anyOf" policies match', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyCertificateIdentity(
+          {
+            anyOf: [
+              { extensions: { sourceRepositoryRef: 'refs/heads/release' } },
+              { extensions: { sourceRepositoryRef: { glob: 'refs/tags/*' } } },
+            ],
+          },
+          identity
+        )
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
+
+  describe('when the top-level criteria do not match', () => {
+    it('throws an error even if the "anyOf" policies match', () => {
+      expect(() =>
+        verifyCertificateIdentity(
+          {
+            extensions: { issuer: 'https://accounts.google.com' },
+            anyOf: [{ extensions: { sourceRepositoryRef: 'refs/heads/main' } }],
+          },
+          identity
+        )
+      ).toThrowWithCode(PolicyError, 'UNTRUSTED_SIGNER_ERROR');
+    });
+  });
 });
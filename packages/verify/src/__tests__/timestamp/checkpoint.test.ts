@@ -15,8 +15,16 @@ limitations under the License.
 */
 import { crypto } from '@sigstore/core';
 import { fromPartial } from '@total-typescript/shoehorn';
+import nodeCrypto from 'crypto';
 import { VerificationError } from '../../error';
-import { verifyCheckpoint } from '../../timestamp/checkpoint';
+import {
+  LogCheckpoint,
+  SignedNote,
+  verifyCheckpoint,
+  verifySignedNote,
+} from '../../timestamp/checkpoint';
+import { parseWitnessKey } from '../../timestamp/witness';
+import { newWitness } from '../__fixtures__/witness';
 
 import type { TLogEntryWithInclusionProof } from '@sigstore/bundle';
 import type { TLogAuthority } from '../../trust';
@@ -59,6 +67,58 @@ describe('verifyCheckpoint', () => {
     });
   });
 
+  describe('when a witness policy is supplied', () => {
+    const note = checkpoint.slice(0, checkpoint.indexOf('\n\n') + 1);
+    const alice = newWitness('alice.example.com');
+    const bob = newWitness('bob.example.com');
+    const witnesses = [alice, bob].map((w) => parseWitnessKey(w.vkey));
+
+    const cosignedEntry = (envelope: string): TLogEntryWithInclusionProof =>
+      fromPartial({
+        inclusionProof: { ...inclusionProof, checkpoint: { envelope } },
+        integratedTime: '1688058655',
+      });
+
+    describe('when the threshold is met', () => {
+      const envelope = checkpoint + alice.cosign(note) + bob.cosign(note);
+
+      it('does NOT throw an error', () => {
+        expect(
+          verifyCheckpoint(cosignedEntry(envelope), tlogs, {
+            witnesses,
+            threshold: 2,
+          })
+        ).toBeUndefined();
+      });
+    });
+
+    describe('when the threshold is NOT met', () => {
+      const envelope = checkpoint + alice.cosign(note);
+
+      it('throws an error', () => {
+        expect(() =>
+          verifyCheckpoint(cosignedEntry(envelope), tlogs, {
+            witnesses,
+            threshold: 2,
+          })
+        ).toThrowWithCode(VerificationError, 'TLOG_WITNESS_ERROR');
+      });
+    });
+
+    describe('when a witness signature is invalid', () => {
+      const envelope = checkpoint + alice.cosign('foo\n');
+
+      it('throws an error', () => {
+        expect(() =>
+          verifyCheckpoint(cosignedEntry(envelope), tlogs, {
+            witnesses,
+            threshold: 1,
+          })
+        ).toThrowWithCode(VerificationError, 'TLOG_INCLUSION_PROOF_ERROR');
+      });
+    });
+  });
+
   describe('when the checkpoint has no separator', () => {
     const entryWithInvalidCheckpoint: TLogEntryWithInclusionProof = fromPartial(
       {
@@ -275,3 +335,131 @@ describe('verifyCheckpoint', () => {
     });
   });
 });
+
+describe('SignedNote', () => {
+  const envelope =
+    'rekor.sigstore.dev - 2605736670972794746\n21428036\nrxnoKyFZlJ7/R6bMh/d3lcqwKqAy5CL1LcNBJP17kgQ=\nTimestamp: 1688058656037355364\n\n— rekor.sigstore.dev wNI9ajBFAiEAuDk7uu5Ae8Own/MjhSZNuVzbLuYH2jBMxbSA0WaNDNACIDV4reKpYiOpkwtvazCClnpUuduF2o/th2xR3gRZAUU4\n';
+
+  describe('.fromString', () => {
+    it('parses the note and signatures', () => {
+      const signedNote = SignedNote.fromString(envelope);
+
+      expect(signedNote.note).toEqual(
+        'rekor.sigstore.dev - 2605736670972794746\n21428036\nrxnoKyFZlJ7/R6bMh/d3lcqwKqAy5CL1LcNBJP17kgQ=\nTimestamp: 1688058656037355364\n'
+      );
+      expect(signedNote.signatures).toHaveLength(1);
+      expect(signedNote.signatures[0].name).toEqual('rekor.sigstore.dev');
+      expect(signedNote.signatures[0].keyHint).toEqual(
+        Buffer.from('c0d23d6a', 'hex')
+      );
+    });
+  });
+
+  describe('verifySignedNote', () => {
+    const keyBytes = Buffer.from(
+      'MFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAE2G2Y+2tabdTV5BcGiBIx0a9fAFwrkBbmLSGtks4L3qX6yYY0zufBnhC8Ur/iy55GhWP/9A/bY2LhC30M9+RYtw==',
+      'base64'
+    );
+
+    const tlog: TLogAuthority = {
+      publicKey: crypto.createPublicKey(keyBytes),
+      logID: crypto.digest('sha256', keyBytes),
+      validFor: { start: new Date('2000-01-01'), end: new Date('2100-01-01') },
+    };
+
+    it('returns true when the signatures are valid', () => {
+      const signedNote = SignedNote.fromString(envelope);
+      expect(verifySignedNote(signedNote, [tlog])).toBe(true);
+    });
+
+    it('returns false when the note has been modified', () => {
+      const signedNote = SignedNote.fromString(
+        envelope.replace('21428036', '21428037')
+      );
+      expect(verifySignedNote(signedNote, [tlog])).toBe(false);
+    });
+
+    it('ignores signatures from unknown signers', () => {
+      const signedNote = SignedNote.fromString(
+        envelope + newWitness('witness.example.com').cosign('foo\n')
+      );
+      expect(verifySignedNote(signedNote, [tlog])).toBe(true);
+    });
+
+    it('returns false when only witnesses signed the note', () => {
+      const witness = newWitness('witness.example.com');
+      const note = envelope.slice(0, envelope.indexOf('\n\n') + 1);
+      const signedNote = SignedNote.fromString(
+        `${note}\n${witness.cosign(note)}`
+      );
+      expect(
+        verifySignedNote(signedNote, [tlog], [parseWitnessKey(witness.vkey)])
+      ).toBe(false);
+    });
+
+    it('returns false when there is no matching log', () => {
+      const signedNote = SignedNote.fromString(envelope);
+      expect(verifySignedNote(signedNote, [])).toBe(false);
+    });
+
+    describe('when the log key is RSA-PSS', () => {
+      const { publicKey, privateKey } = nodeCrypto.generateKeyPairSync('rsa', {
+        modulusLength: 2048,
+      });
+      const rsaLog: TLogAuthority = {
+        publicKey,
+        logID: crypto.digest(
+          'sha256',
+          publicKey.export({ format: 'der', type: 'spki' })
+        ),
+        signatureAlgorithm: { hash: 'sha256', padding: 'pss' },
+        validFor: {
+          start: new Date('2000-01-01'),
+          end: new Date('2100-01-01'),
+        },
+      };
+
+      const note = `rsa.example.com\n1\n${Buffer.alloc(32).toString('base64')}\n`;
+      const signNote = (padding: number): SignedNote => {
+        const signature = nodeCrypto.sign('sha256', Buffer.from(note), {
+          key: privateKey,
+          padding,
+          saltLength: 32,
+        });
+        const sig = Buffer.concat([rsaLog.logID.subarray(0, 4), signature]);
+        return SignedNote.fromString(
+          `${note}\n\u2014 rsa.example.com ${sig.toString('base64')}\n`
+        );
+      };
+
+      it('returns true for a PSS signature', () => {
+        const signedNote = signNote(nodeCrypto.constants.RSA_PKCS1_PSS_PADDING);
+        expect(verifySignedNote(signedNote, [rsaLog])).toBe(true);
+      });
+
+      it('returns false for a PKCS#1 v1.5 signature', () => {
+        const signedNote = signNote(nodeCrypto.constants.RSA_PKCS1_PADDING);
+        expect(verifySignedNote(signedNote, [rsaLog])).toBe(false);
+      });
+    });
+  });
+});
+
+describe('LogCheckpoint', () => {
+  describe('.fromString', () => {
+    it('parses the checkpoint body', () => {
+      const checkpoint = LogCheckpoint.fromString(
+        'rekor.sigstore.dev - 2605736670972794746\n21428036\nrxnoKyFZlJ7/R6bMh/d3lcqwKqAy5CL1LcNBJP17kgQ=\nTimestamp: 1688058656037355364\n'
+      );
+
+      expect(checkpoint.origin).toEqual(
+        'rekor.sigstore.dev - 2605736670972794746'
+      );
+      expect(checkpoint.logSize).toEqual(21428036n);
+      expect(checkpoint.logHash).toEqual(
+        Buffer.from('rxnoKyFZlJ7/R6bMh/d3lcqwKqAy5CL1LcNBJP17kgQ=', 'base64')
+      );
+      expect(checkpoint.rest).toEqual(['Timestamp: 1688058656037355364']);
+    });
+  });
+});
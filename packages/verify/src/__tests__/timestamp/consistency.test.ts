@@ -0,0 +1,219 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { fromPartial } from '@total-typescript/shoehorn';
+import { VerificationError } from '../../error';
+import { LogCheckpoint } from '../../timestamp/checkpoint';
+import {
+  MemoryCheckpointStore,
+  requiredConsistencyProofs,
+  verifyCheckpointConsistency,
+} from '../../timestamp/consistency';
+
+import type { TransparencyLogEntry } from '@sigstore/bundle';
+
+describe('MemoryCheckpointStore', () => {
+  it('stores checkpoints by origin', () => {
+    const store = new MemoryCheckpointStore();
+    const checkpoint = new LogCheckpoint('foo', 1n, Buffer.from('a'), []);
+
+    expect(store.get('foo')).toBeUndefined();
+    store.set(checkpoint);
+    expect(store.get('foo')).toBe(checkpoint);
+    expect(store.get('bar')).toBeUndefined();
+  });
+});
+
+describe('verifyCheckpointConsistency', () => {
+  const origin = 'rekor.example.com - 1234';
+
+  // Root hashes and consistency proofs for a tree of 7 leaves (see
+  // merkle.test.ts)
+  const root3 = Buffer.from(
+    'cf763a041c81ceef1578a6083f75c61bef2e0014f2a3e683a97fcfca5be7f19a',
+    'hex'
+  );
+  const root7 = Buffer.from(
+    '0b007fb915eb9b2a146f54b1c86ec53b664f8e455b7660b0b6ee13edc0d921c0',
+    'hex'
+  );
+  const proof3to7 = [
+    'fca89f57c9f8c8eb4047a7ff9d333acf9e0f3384b20b255bceab0f216dcca267',
+    'f76836325aec5699d8d71f8e42e9d47c5c29b08059ba296384f7ca40ad3a40ae',
+    '60a53eed0de87a90c8e59427c59c46253c33a76a09502a51801300927b7e6bdc',
+    '8eae6bd3b3a07f1f75ee72a531629e6eb31e42e62f760e47de52a53c3641ef23',
+  ].map((h) => Buffer.from(h, 'hex'));
+
+  // The checkpoint signature is not checked here, so any signature will do
+  const entryFor = (size: number, rootHash: Buffer): TransparencyLogEntry =>
+    fromPartial({
+      inclusionProof: {
+        checkpoint: {
+          envelope: `${origin}\n${size}\n${rootHash.toString('base64')}\n\n— rekor.example.com AAAAAAAA\n`,
+        },
+      },
+    });
+
+  const checkpoint3 = new LogCheckpoint(origin, 3n, root3, []);
+  const checkpoint7 = new LogCheckpoint(origin, 7n, root7, []);
+
+  let store: MemoryCheckpointStore;
+
+  beforeEach(() => {
+    store = new MemoryCheckpointStore();
+  });
+
+  describe('when the entry has no checkpoint', () => {
+    it('does nothing', () => {
+      verifyCheckpointConsistency(fromPartial({}), store);
+      verifyCheckpointConsistency(fromPartial({ inclusionProof: {} }), store);
+      expect(store.get(origin)).toBeUndefined();
+    });
+  });
+
+  describe('when no checkpoint has been recorded for the log', () => {
+    it('records the checkpoint', () => {
+      verifyCheckpointConsistency(entryFor(3, root3), store);
+      expect(store.get(origin)).toEqual(checkpoint3);
+    });
+  });
+
+  describe('when the recorded checkpoint is for the same tree', () => {
+    it('does NOT throw an error', () => {
+      store.set(checkpoint7);
+      expect(
+        verifyCheckpointConsistency(entryFor(7, root7), store)
+      ).toBeUndefined();
+      expect(store.get(origin)).toBe(checkpoint7);
+    });
+  });
+
+  describe('when the log presents a different root for the same size', () => {
+    it('throws an error', () => {
+      store.set(checkpoint7);
+      expect(() =>
+        verifyCheckpointConsistency(entryFor(7, root3), store)
+      ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+    });
+  });
+
+  describe('when the checkpoint is for a larger tree', () => {
+    beforeEach(() => {
+      store.set(checkpoint3);
+    });
+
+    describe('when the consistency proof is valid', () => {
+      it('records the new checkpoint', () => {
+        const consistencyProof = jest.fn().mockReturnValue(proof3to7);
+
+        verifyCheckpointConsistency(
+          entryFor(7, root7),
+          store,
+          consistencyProof
+        );
+
+        expect(consistencyProof).toHaveBeenCalledWith(origin, 3n, 7n);
+        expect(store.get(origin)).toEqual(checkpoint7);
+      });
+    });
+
+    describe('when the consistency proof is invalid', () => {
+      it('throws an error', () => {
+        expect(() =>
+          verifyCheckpointConsistency(entryFor(7, root7), store, () =>
+            proof3to7.slice(1)
+          )
+        ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+        expect(store.get(origin)).toBe(checkpoint3);
+      });
+    });
+
+    describe('when no consistency proof is available', () => {
+      it('throws an error', () => {
+        expect(() =>
+          verifyCheckpointConsistency(
+            entryFor(7, root7),
+            store,
+            () => undefined
+          )
+        ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+      });
+    });
+
+    describe('when no consistency proof function is supplied', () => {
+      it('throws an error', () => {
+        expect(() =>
+          verifyCheckpointConsistency(entryFor(7, root7), store)
+        ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+      });
+    });
+  });
+
+  describe('when the checkpoint is for a smaller tree', () => {
+    it('checks consistency with the recorded checkpoint', () => {
+      store.set(checkpoint7);
+      const consistencyProof = jest.fn().mockReturnValue(proof3to7);
+
+      verifyCheckpointConsistency(entryFor(3, root3), store, consistencyProof);
+
+      expect(consistencyProof).toHaveBeenCalledWith(origin, 3n, 7n);
+      expect(store.get(origin)).toBe(checkpoint7);
+    });
+  });
+});
+
+describe('requiredConsistencyProofs', () => {
+  const origin = 'rekor.example.com - 1234';
+
+  const entryFor = (size: number): TransparencyLogEntry =>
+    fromPartial({
+      inclusionProof: {
+        checkpoint: {
+          envelope: `${origin}\n${size}\nAAAA\n\n— rekor.example.com AAAAAAAA\n`,
+        },
+      },
+    });
+
+  let store: MemoryCheckpointStore;
+
+  beforeEach(() => {
+    store = new MemoryCheckpointStore();
+  });
+
+  describe('when no checkpoint has been recorded for the log', () => {
+    it('returns proofs between the checkpoints of the entries', () => {
+      const entries = [entryFor(3), entryFor(7), entryFor(5)];
+
+      expect(
+        requiredConsistencyProofs([fromPartial({}), ...entries], store)
+      ).toEqual([
+        { entry: entries[1], origin, oldSize: 3n, newSize: 7n },
+        { entry: entries[2], origin, oldSize: 5n, newSize: 7n },
+      ]);
+    });
+  });
+
+  describe('when a checkpoint has been recorded for the log', () => {
+    it('returns proofs from the recorded checkpoint', () => {
+      store.set(new LogCheckpoint(origin, 3n, Buffer.from('a'), []));
+      const entries = [entryFor(3), entryFor(7)];
+
+      expect(requiredConsistencyProofs(entries, store)).toEqual([
+        { entry: entries[1], origin, oldSize: 3n, newSize: 7n },
+      ]);
+      expect(store.get(origin)?.logSize).toEqual(3n);
+    });
+  });
+});
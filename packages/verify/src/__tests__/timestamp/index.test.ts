@@ -64,6 +64,17 @@ describe('verifyTLogTimestamp', () => {
       expect(result.logID).toEqual(keyID);
       expect(result.timestamp).toBeDefined();
     });
+
+    describe('when witness cosignatures are required', () => {
+      it('throws an error', () => {
+        expect(() =>
+          verifyTLogTimestamp(tlogEntry, [validTLog], {
+            witnesses: [],
+            threshold: 1,
+          })
+        ).toThrowWithCode(VerificationError, 'TLOG_WITNESS_ERROR');
+      });
+    });
   });
 
   describe('when a valid bundle with inclusion proof is provided', () => {
@@ -16,7 +16,10 @@ limitations under the License.
 import { crypto } from '@sigstore/core';
 import { fromPartial } from '@total-typescript/shoehorn';
 import { VerificationError } from '../../error';
-import { verifyMerkleInclusion } from '../../timestamp/merkle';
+import {
+  verifyConsistencyProof,
+  verifyMerkleInclusion,
+} from '../../timestamp/merkle';
 
 import type { TLogEntryWithInclusionProof } from '@sigstore/bundle';
 
@@ -208,3 +211,215 @@ describe('verifyMerkleInclusion', () => {
     });
   });
 });
+
+describe('verifyConsistencyProof', () => {
+  // Tree of 7 leaves (leaf-0 ... leaf-6) generated with the RFC 6962 tree in
+  // @sigstore/mock. Root hashes are listed for each tree size along with the
+  // proofs of consistency with the full tree.
+  const roots: Record<number, string> = {
+    1: '305df59f9590c3c9ac63d2b2743c388e3792449078cebf7fb3dbe6471643b2b7',
+    2: '60a53eed0de87a90c8e59427c59c46253c33a76a09502a51801300927b7e6bdc',
+    3: 'cf763a041c81ceef1578a6083f75c61bef2e0014f2a3e683a97fcfca5be7f19a',
+    4: 'bdd1c5ff55b19cb6b0e7c761bf9a6ccaa27fbbfc07b74f1fabb6e911a0bd2ab3',
+    5: '00d21829a5503145348abcf712513eacf2a274211ad83e970202bb5b6d80b286',
+    6: '160cf1a616e8792f9078a9665cb06520d95a33f467d0826f2310219d31383d73',
+    7: '0b007fb915eb9b2a146f54b1c86ec53b664f8e455b7660b0b6ee13edc0d921c0',
+  };
+  const proofs: Record<number, string[]> = {
+    1: [
+      '3145c409f259b7c53e32036090ff76751025a2498ba9823ef718cac50b4e616f',
+      'bd45ff28796704d88bdac51b1df553fda59837b616d6d1cb2114dbc3b087ff69',
+      '8eae6bd3b3a07f1f75ee72a531629e6eb31e42e62f760e47de52a53c3641ef23',
+    ],
+    2: [
+      'bd45ff28796704d88bdac51b1df553fda59837b616d6d1cb2114dbc3b087ff69',
+      '8eae6bd3b3a07f1f75ee72a531629e6eb31e42e62f760e47de52a53c3641ef23',
+    ],
+    3: [
+      'fca89f57c9f8c8eb4047a7ff9d333acf9e0f3384b20b255bceab0f216dcca267',
+      'f76836325aec5699d8d71f8e42e9d47c5c29b08059ba296384f7ca40ad3a40ae',
+      '60a53eed0de87a90c8e59427c59c46253c33a76a09502a51801300927b7e6bdc',
+      '8eae6bd3b3a07f1f75ee72a531629e6eb31e42e62f760e47de52a53c3641ef23',
+    ],
+    4: ['8eae6bd3b3a07f1f75ee72a531629e6eb31e42e62f760e47de52a53c3641ef23'],
+    5: [
+      'ea9fc1a1b6e191b460d0d6306e3e870c173f39330f13cda1b70cfc72bdc398ba',
+      '8f1593cb92f429d9340b9bbc1f0bb122adf8026c42a4a42142e2168931727236',
+      '676f3782f5b3a5fb4370ed49572cedc523f4a66322269c85f2af0509d17b0a4d',
+      'bdd1c5ff55b19cb6b0e7c761bf9a6ccaa27fbbfc07b74f1fabb6e911a0bd2ab3',
+    ],
+    6: [
+      '985bb5d36b927800876871da925a7e82abe83a9ddba5882920a007a55ea2b376',
+      '676f3782f5b3a5fb4370ed49572cedc523f4a66322269c85f2af0509d17b0a4d',
+      'bdd1c5ff55b19cb6b0e7c761bf9a6ccaa27fbbfc07b74f1fabb6e911a0bd2ab3',
+    ],
+  };
+
+  const root = (size: number) => Buffer.from(roots[size], 'hex');
+  const proof = (size: number) =>
+    proofs[size].map((h) => Buffer.from(h, 'hex'));
+
+  describe('when the consistency proof is valid', () => {
+    it('does NOT throw an error', () => {
+      for (let size = 1; size < 7; size++) {
+        expect(
+          verifyConsistencyProof({
+            oldSize: BigInt(size),
+            newSize: 7n,
+            oldRoot: root(size),
+            newRoot: root(7),
+            hashes: proof(size),
+          })
+        ).toBeUndefined();
+      }
+    });
+  });
+
+  describe('when the new tree is not a complete tree', () => {
+    // Proof of consistency between trees of size 5 and 6
+    const hashes = [
+      'ea9fc1a1b6e191b460d0d6306e3e870c173f39330f13cda1b70cfc72bdc398ba',
+      '8f1593cb92f429d9340b9bbc1f0bb122adf8026c42a4a42142e2168931727236',
+      'bdd1c5ff55b19cb6b0e7c761bf9a6ccaa27fbbfc07b74f1fabb6e911a0bd2ab3',
+    ].map((h) => Buffer.from(h, 'hex'));
+
+    it('does NOT throw an error', () => {
+      expect(
+        verifyConsistencyProof({
+          oldSize: 5n,
+          newSize: 6n,
+          oldRoot: root(5),
+          newRoot: root(6),
+          hashes,
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('when the trees are the same size', () => {
+    it('does NOT throw an error', () => {
+      expect(
+        verifyConsistencyProof({
+          oldSize: 7n,
+          newSize: 7n,
+          oldRoot: root(7),
+          newRoot: root(7),
+          hashes: [],
+        })
+      ).toBeUndefined();
+    });
+
+    describe('when the root hashes differ', () => {
+      it('throws an error', () => {
+        expect(() =>
+          verifyConsistencyProof({
+            oldSize: 7n,
+            newSize: 7n,
+            oldRoot: root(6),
+            newRoot: root(7),
+            hashes: [],
+          })
+        ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+      });
+    });
+
+    describe('when the proof is not empty', () => {
+      it('throws an error', () => {
+        expect(() =>
+          verifyConsistencyProof({
+            oldSize: 7n,
+            newSize: 7n,
+            oldRoot: root(7),
+            newRoot: root(7),
+            hashes: proof(6),
+          })
+        ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+      });
+    });
+  });
+
+  describe('when the old tree is empty', () => {
+    it('does NOT throw an error', () => {
+      expect(
+        verifyConsistencyProof({
+          oldSize: 0n,
+          newSize: 7n,
+          oldRoot: Buffer.alloc(0),
+          newRoot: root(7),
+          hashes: [],
+        })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('when the old tree is larger than the new tree', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyConsistencyProof({
+          oldSize: 7n,
+          newSize: 6n,
+          oldRoot: root(7),
+          newRoot: root(6),
+          hashes: proof(6),
+        })
+      ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+    });
+  });
+
+  describe('when the proof is empty', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyConsistencyProof({
+          oldSize: 4n,
+          newSize: 7n,
+          oldRoot: root(4),
+          newRoot: root(7),
+          hashes: [],
+        })
+      ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+    });
+  });
+
+  describe('when the proof has too many hashes', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyConsistencyProof({
+          oldSize: 4n,
+          newSize: 7n,
+          oldRoot: root(4),
+          newRoot: root(7),
+          hashes: [...proof(4), root(1)],
+        })
+      ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+    });
+  });
+
+  describe('when the new root hash does not match', () => {
+    // Simulates a log presenting a forked view of the tree
+    it('throws an error', () => {
+      expect(() =>
+        verifyConsistencyProof({
+          oldSize: 3n,
+          newSize: 7n,
+          oldRoot: root(3),
+          newRoot: root(6),
+          hashes: proof(3),
+        })
+      ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+    });
+  });
+
+  describe('when the old root hash does not match', () => {
+    it('throws an error', () => {
+      expect(() =>
+        verifyConsistencyProof({
+          oldSize: 5n,
+          newSize: 7n,
+          oldRoot: root(4),
+          newRoot: root(7),
+          hashes: proof(5),
+        })
+      ).toThrowWithCode(VerificationError, 'TLOG_CONSISTENCY_PROOF_ERROR');
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { crypto } from '@sigstore/core';
+import { fromPartial } from '@total-typescript/shoehorn';
+import { VerificationError } from '../../error';
+import {
+  fetchConsistencyProof,
+  fetchInclusionProof,
+} from '../../timestamp/online';
+import * as bundles from '../__fixtures__/bundles';
+
+import type { TransparencyLogEntry } from '@sigstore/bundle';
+import type { TLogClient } from '../../timestamp/online';
+import type { TLogAuthority } from '../../trust';
+
+const baseURL = 'https://rekor-v1.example.com';
+const json = bundles.REKOR_V1.MESSAGE_SIGNATURE.verificationMaterial;
+
+const entry: TransparencyLogEntry = fromPartial({
+  logId: { keyId: Buffer.from(json.tlogEntries[0].logId.keyId, 'base64') },
+  canonicalizedBody: Buffer.from(
+    json.tlogEntries[0].canonicalizedBody,
+    'base64'
+  ),
+});
+
+describe('fetchInclusionProof', () => {
+  const tlogKey = crypto.createPublicKey(bundles.REKOR_V1.TLOG_KEY);
+  const tlog: TLogAuthority = {
+    logID: entry.logId.keyId,
+    publicKey: tlogKey,
+    baseURL,
+    validFor: { start: new Date(0), end: new Date(8640000000000000) },
+  };
+
+  const inclusionProof = fromPartial({ treeSize: '3' });
+  const client: TLogClient = {
+    getInclusionProof: jest.fn().mockResolvedValue(inclusionProof),
+    getConsistencyProof: jest.fn(),
+  };
+
+  describe('when the log has a base URL', () => {
+    it('returns the entry with the fetched proof', async () => {
+      const result = await fetchInclusionProof(entry, [tlog], client);
+
+      expect(client.getInclusionProof).toHaveBeenCalledWith(baseURL, entry);
+      expect(result.inclusionProof).toBe(inclusionProof);
+      expect(result.canonicalizedBody).toBe(entry.canonicalizedBody);
+    });
+  });
+
+  describe('when the log has no base URL', () => {
+    it('throws an error', async () => {
+      await expect(
+        fetchInclusionProof(entry, [{ ...tlog, baseURL: '' }], client)
+      ).rejects.toThrowWithCode(
+        VerificationError,
+        'TLOG_INCLUSION_PROOF_ERROR'
+      );
+    });
+  });
+
+  describe('when the log is not trusted', () => {
+    it('throws an error', async () => {
+      await expect(
+        fetchInclusionProof(
+          entry,
+          [{ ...tlog, logID: Buffer.from('foo') }],
+          client
+        )
+      ).rejects.toThrowWithCode(
+        VerificationError,
+        'TLOG_INCLUSION_PROOF_ERROR'
+      );
+    });
+  });
+
+  describe('when the proof cannot be fetched', () => {
+    const failingClient: TLogClient = {
+      getInclusionProof: jest.fn().mockRejectedValue(new Error('oops')),
+      getConsistencyProof: jest.fn(),
+    };
+
+    it('throws an error', async () => {
+      await expect(
+        fetchInclusionProof(entry, [tlog], failingClient)
+      ).rejects.toThrowWithCode(
+        VerificationError,
+        'TLOG_INCLUSION_PROOF_ERROR'
+      );
+    });
+  });
+});
+
+describe('fetchConsistencyProof', () => {
+  const tlogKey = crypto.createPublicKey(bundles.REKOR_V1.TLOG_KEY);
+  const tlog: TLogAuthority = {
+    logID: entry.logId.keyId,
+    publicKey: tlogKey,
+    baseURL,
+    validFor: { start: new Date(0), end: new Date(8640000000000000) },
+  };
+
+  const hashes = [Buffer.from('0102', 'hex')];
+
+  describe('when the log has a base URL', () => {
+    const client: TLogClient = {
+      getInclusionProof: jest.fn(),
+      getConsistencyProof: jest.fn().mockResolvedValue(hashes),
+    };
+
+    it('returns the fetched proof', async () => {
+      const result = await fetchConsistencyProof(entry, [tlog], client, 2n, 5n);
+
+      expect(client.getConsistencyProof).toHaveBeenCalledWith(baseURL, 2n, 5n);
+      expect(result).toBe(hashes);
+    });
+  });
+
+  describe('when the log is not trusted', () => {
+    const client: TLogClient = {
+      getInclusionProof: jest.fn(),
+      getConsistencyProof: jest.fn(),
+    };
+
+    it('throws an error', async () => {
+      await expect(
+        fetchConsistencyProof(entry, [], client, 2n, 5n)
+      ).rejects.toThrowWithCode(
+        VerificationError,
+        'TLOG_INCLUSION_PROOF_ERROR'
+      );
+    });
+  });
+
+  describe('when the proof cannot be fetched', () => {
+    const client: TLogClient = {
+      getInclusionProof: jest.fn(),
+      getConsistencyProof: jest.fn().mockRejectedValue(new Error('oops')),
+    };
+
+    it('throws an error', async () => {
+      await expect(
+        fetchConsistencyProof(entry, [tlog], client, 2n, 5n)
+      ).rejects.toThrowWithCode(
+        VerificationError,
+        'TLOG_CONSISTENCY_PROOF_ERROR'
+      );
+    });
+  });
+});
@@ -1,8 +1,12 @@
-import { RFC3161Timestamp, X509Certificate } from '@sigstore/core';
+import { RFC3161Timestamp, X509Certificate, crypto } from '@sigstore/core';
+import { initializeTSA } from '@sigstore/mock';
+import nodeCrypto from 'crypto';
 import { VerificationError } from '../../error';
-import { verifyRFC3161Timestamp } from '../../timestamp/tsa';
+import { TSAPolicy, verifyRFC3161Timestamp } from '../../timestamp/tsa';
 import { CertAuthority } from '../../trust';
 
+import type { TSA, TSATimestampOptions } from '@sigstore/mock';
+
 describe('verifyRFC3161Timestamp', () => {
   const artifact = Buffer.from('hello, world!');
   const tsBytes = Buffer.from(
@@ -42,8 +46,9 @@ AiB13l000lcAWegsMFZJmPEpKNCndg9LC4ttahNN7REmjw==
       validFor: { start: new Date(1), end: new Date() },
     };
 
-    it('does NOT throw an error', () => {
-      verifyRFC3161Timestamp(ts, artifact, [certAuthority]);
+    it('returns the CA which verified the timestamp', () => {
+      const result = verifyRFC3161Timestamp(ts, artifact, [certAuthority]);
+      expect(result).toBe(certAuthority);
     });
   });
 
@@ -118,4 +123,223 @@ AiB13l000lcAWegsMFZJmPEpKNCndg9LC4ttahNN7REmjw==
       ).toThrowWithCode(VerificationError, 'TIMESTAMP_ERROR');
     });
   });
+
+  describe('when a TSA policy is supplied', () => {
+    const OID_TSA_POLICY = '1.3.6.1.4.1.57264.2';
+    const OID_SHA256 = '2.16.840.1.101.3.4.2.1';
+    const keyPair = nodeCrypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+
+    const strictPolicy: TSAPolicy = {
+      policyOIDs: [OID_TSA_POLICY],
+      maxAccuracy: 1000,
+      strict: true,
+    };
+
+    // Returns a timestamp over the artifact from the TSA
+    const createTimestamp = async (tsa: TSA): Promise<RFC3161Timestamp> => {
+      const der = await tsa.timestamp({
+        artifactHash: crypto.digest('sha256', artifact),
+        hashAlgorithmOID: OID_SHA256,
+        nonce: 42,
+        policyOID: OID_TSA_POLICY,
+      });
+      return RFC3161Timestamp.parse(der);
+    };
+
+    // Returns a CA for the TSA's certificate chain
+    const toCertAuthority = (tsa: TSA): CertAuthority => ({
+      certChain: [
+        X509Certificate.parse(tsa.intCertificate),
+        X509Certificate.parse(tsa.rootCertificate),
+      ],
+      validFor: { start: new Date(0), end: new Date('2100-01-01') },
+    });
+
+    // Creates a TSA along with a timestamp and matching CA
+    const setup = async (
+      options: TSATimestampOptions = {}
+    ): Promise<{ timestamp: RFC3161Timestamp; ca: CertAuthority }> => {
+      const tsa = await initializeTSA(keyPair, undefined, options);
+      return {
+        timestamp: await createTimestamp(tsa),
+        ca: toCertAuthority(tsa),
+      };
+    };
+
+    describe('when the timestamp satisfies the policy', () => {
+      it('returns the CA which verified the timestamp', async () => {
+        const { timestamp, ca } = await setup();
+        const result = verifyRFC3161Timestamp(
+          timestamp,
+          artifact,
+          [ca],
+          strictPolicy
+        );
+        expect(result).toBe(ca);
+      });
+    });
+
+    describe('when the policy OID is not trusted', () => {
+      it('throws an error', async () => {
+        const { timestamp, ca } = await setup();
+        const policy = { ...strictPolicy, policyOIDs: ['1.2.3.4'] };
+
+        expect(() =>
+          verifyRFC3161Timestamp(timestamp, artifact, [ca], policy)
+        ).toThrowWithCode(VerificationError, 'TIMESTAMP_ERROR');
+        expect(() =>
+          verifyRFC3161Timestamp(timestamp, artifact, [ca], policy)
+        ).toThrow(/untrusted policy: 1.3.6.1.4.1.57264.2/);
+      });
+    });
+
+    describe('when any policy OID is accepted', () => {
+      it('returns the CA which verified the timestamp', async () => {
+        const { timestamp, ca } = await setup();
+        const policy = { ...strictPolicy, policyOIDs: [] };
+
+        const result = verifyRFC3161Timestamp(
+          timestamp,
+          artifact,
+          [ca],
+          policy
+        );
+        expect(result).toBe(ca);
+      });
+    });
+
+    describe('when the accuracy exceeds the maximum', () => {
+      it('throws an error', async () => {
+        const { timestamp, ca } = await setup({ accuracy: 2 });
+
+        expect(() =>
+          verifyRFC3161Timestamp(timestamp, artifact, [ca], strictPolicy)
+        ).toThrow(/accuracy of 2000ms exceeds 1000ms/);
+      });
+    });
+
+    describe('when the accuracy is absent', () => {
+      describe('when a maximum accuracy is required', () => {
+        it('throws an error', async () => {
+          const { timestamp, ca } = await setup({ accuracy: 0 });
+
+          expect(() =>
+            verifyRFC3161Timestamp(timestamp, artifact, [ca], strictPolicy)
+          ).toThrow(/does not specify an accuracy/);
+        });
+      });
+
+      describe('when no maximum accuracy is required', () => {
+        it('returns the CA which verified the timestamp', async () => {
+          const { timestamp, ca } = await setup({ accuracy: 0 });
+          const policy = { ...strictPolicy, maxAccuracy: undefined };
+
+          const result = verifyRFC3161Timestamp(
+            timestamp,
+            artifact,
+            [ca],
+            policy
+          );
+          expect(result).toBe(ca);
+        });
+      });
+    });
+
+    describe('when the signing certificate attribute is missing', () => {
+      describe('when the policy is strict', () => {
+        it('throws an error', async () => {
+          const { timestamp, ca } = await setup({ signingCertificate: false });
+
+          expect(() =>
+            verifyRFC3161Timestamp(timestamp, artifact, [ca], strictPolicy)
+          ).toThrowWithCode(VerificationError, 'TIMESTAMP_ERROR');
+        });
+      });
+
+      describe('when the policy is NOT strict', () => {
+        it('returns the CA which verified the timestamp', async () => {
+          const { timestamp, ca } = await setup({ signingCertificate: false });
+          const policy = { ...strictPolicy, strict: false };
+
+          const result = verifyRFC3161Timestamp(
+            timestamp,
+            artifact,
+            [ca],
+            policy
+          );
+          expect(result).toBe(ca);
+        });
+      });
+    });
+
+    describe('when the signing certificate does not match the timestamp', () => {
+      // A second TSA with the same key, serial number and issuer, but a
+      // different signing certificate
+      it('throws an error', async () => {
+        const { timestamp } = await setup();
+        const { ca } = await setup();
+
+        expect(() =>
+          verifyRFC3161Timestamp(timestamp, artifact, [ca], strictPolicy)
+        ).toThrowWithCode(VerificationError, 'TIMESTAMP_ERROR');
+      });
+    });
+
+    describe('when the signing certificate has no timeStamping EKU', () => {
+      describe('when the policy is strict', () => {
+        it('throws an error', async () => {
+          const { timestamp, ca } = await setup({ timeStampingEKU: false });
+
+          expect(() =>
+            verifyRFC3161Timestamp(timestamp, artifact, [ca], strictPolicy)
+          ).toThrowWithCode(VerificationError, 'TIMESTAMP_ERROR');
+        });
+      });
+
+      describe('when the policy is NOT strict', () => {
+        it('returns the CA which verified the timestamp', async () => {
+          const { timestamp, ca } = await setup({ timeStampingEKU: false });
+
+          const result = verifyRFC3161Timestamp(timestamp, artifact, [ca]);
+          expect(result).toBe(ca);
+        });
+      });
+    });
+  });
+
+  describe('when a revocation policy is supplied', () => {
+    const ts = RFC3161Timestamp.parse(tsBytes);
+    const signingCert = X509Certificate.parse(signingPEM);
+    const rootCert = X509Certificate.parse(rootPEM);
+    const certAuthority: CertAuthority = {
+      certChain: [signingCert, rootCert],
+      validFor: { start: new Date(1), end: new Date() },
+    };
+
+    describe('when the revocation status is not required', () => {
+      it('returns the CA which verified the timestamp', () => {
+        const result = verifyRFC3161Timestamp(
+          ts,
+          artifact,
+          [certAuthority],
+          undefined,
+          { crls: [], mode: 'soft-fail' }
+        );
+        expect(result).toBe(certAuthority);
+      });
+    });
+
+    describe('when the revocation status is required but unavailable', () => {
+      it('throws a revocation error', () => {
+        expect(() =>
+          verifyRFC3161Timestamp(ts, artifact, [certAuthority], undefined, {
+            crls: [],
+            mode: 'hard-fail',
+          })
+        ).toThrowWithCode(VerificationError, 'CERTIFICATE_REVOCATION_ERROR');
+      });
+    });
+  });
 });
@@ -0,0 +1,162 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import crypto from 'crypto';
+import { VerificationError } from '../../error';
+import { SignedNote } from '../../timestamp/checkpoint';
+import {
+  countWitnessSignatures,
+  parseWitnessKey,
+} from '../../timestamp/witness';
+import { newWitness } from '../__fixtures__/witness';
+
+const note =
+  'example.com/log\n5\nrxnoKyFZlJ7/R6bMh/d3lcqwKqAy5CL1LcNBJP17kgQ=\n';
+
+describe('parseWitnessKey', () => {
+  const witness = newWitness('witness.example.com');
+
+  describe('when the key is valid', () => {
+    it('returns the witness key', () => {
+      const key = parseWitnessKey(witness.vkey);
+
+      expect(key.name).toEqual('witness.example.com');
+      expect(key.keyHint).toEqual(witness.keyHint);
+      expect(key.publicKey.asymmetricKeyType).toEqual('ed25519');
+    });
+  });
+
+  describe('when the key is missing components', () => {
+    it('throws an error', () => {
+      expect(() =>
+        parseWitnessKey(witness.vkey.split('+').slice(0, 2).join('+'))
+      ).toThrowWithCode(VerificationError, 'TLOG_WITNESS_ERROR');
+    });
+  });
+
+  describe('when the key name is empty', () => {
+    it('throws an error', () => {
+      expect(() =>
+        parseWitnessKey(witness.vkey.replace('witness.example.com', ''))
+      ).toThrowWithCode(VerificationError, 'TLOG_WITNESS_ERROR');
+    });
+  });
+
+  describe('when the key is not an Ed25519 key', () => {
+    const [name, hash, ...data] = witness.vkey.split('+');
+    const keyData = Buffer.from(data.join('+'), 'base64');
+    keyData[0] = 0x02;
+
+    it('throws an error', () => {
+      expect(() =>
+        parseWitnessKey(`${name}+${hash}+${keyData.toString('base64')}`)
+      ).toThrowWithCode(VerificationError, 'TLOG_WITNESS_ERROR');
+    });
+  });
+
+  describe('when the key data has the wrong length', () => {
+    const [name, hash, ...data] = witness.vkey.split('+');
+    const keyData = Buffer.from(data.join('+'), 'base64').subarray(0, 32);
+
+    it('throws an error', () => {
+      expect(() =>
+        parseWitnessKey(`${name}+${hash}+${keyData.toString('base64')}`)
+      ).toThrowWithCode(VerificationError, 'TLOG_WITNESS_ERROR');
+    });
+  });
+
+  describe('when the key hash does not match', () => {
+    it('throws an error', () => {
+      expect(() =>
+        parseWitnessKey(witness.vkey.replace('witness.example.com', 'other'))
+      ).toThrowWithCode(VerificationError, 'TLOG_WITNESS_ERROR');
+    });
+  });
+});
+
+describe('countWitnessSignatures', () => {
+  const alice = newWitness('alice.example.com');
+  const bob = newWitness('bob.example.com');
+  const carol = newWitness('carol.example.com');
+
+  const witnesses = [alice, bob, carol].map((w) => parseWitnessKey(w.vkey));
+
+  describe('when the note is cosigned by some of the witnesses', () => {
+    const signedNote = SignedNote.fromString(
+      `${note}\n${alice.cosign(note)}${bob.cosign(note)}`
+    );
+
+    it('returns the number of witnesses', () => {
+      expect(countWitnessSignatures(signedNote, witnesses)).toEqual(2);
+    });
+  });
+
+  describe('when a witness signed the note more than once', () => {
+    const signedNote = SignedNote.fromString(
+      `${note}\n${alice.cosign(note)}${alice.cosign(note)}`
+    );
+
+    it('counts the witness once', () => {
+      expect(countWitnessSignatures(signedNote, witnesses)).toEqual(1);
+    });
+  });
+
+  describe('when a witness is configured more than once', () => {
+    const signedNote = SignedNote.fromString(`${note}\n${alice.cosign(note)}`);
+
+    it('counts the witness once', () => {
+      expect(
+        countWitnessSignatures(signedNote, [...witnesses, witnesses[0]])
+      ).toEqual(1);
+    });
+  });
+
+  describe('when a witness key is configured under two names', () => {
+    const keyPair = crypto.generateKeyPairSync('ed25519');
+    const dave = newWitness('dave.example.com', keyPair);
+    const eve = newWitness('eve.example.com', keyPair);
+    const signedNote = SignedNote.fromString(
+      `${note}\n${dave.cosign(note)}${eve.cosign(note)}`
+    );
+
+    it('counts the key once', () => {
+      expect(
+        countWitnessSignatures(signedNote, [
+          parseWitnessKey(dave.vkey),
+          parseWitnessKey(eve.vkey),
+        ])
+      ).toEqual(1);
+    });
+  });
+
+  describe('when a witness signature is invalid', () => {
+    const signedNote = SignedNote.fromString(
+      `${note}\n${alice.cosign(note)}${bob.cosign('other note\n')}`
+    );
+
+    it('does not count the witness', () => {
+      expect(countWitnessSignatures(signedNote, witnesses)).toEqual(1);
+    });
+  });
+
+  describe('when the note is signed by an unknown witness', () => {
+    const dave = newWitness('dave.example.com');
+    const signedNote = SignedNote.fromString(`${note}\n${dave.cosign(note)}`);
+
+    it('does not count the witness', () => {
+      expect(countWitnessSignatures(signedNote, witnesses)).toEqual(0);
+    });
+  });
+});
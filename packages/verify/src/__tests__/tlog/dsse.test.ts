@@ -19,7 +19,7 @@ import { VerificationError } from '../../error';
 import { verifyDSSETLogBody } from '../../tlog/dsse';
 import * as bundles from '../__fixtures__/bundles';
 
-import type { ProposedDSSEEntry } from '@sigstore/rekor-types';
+import type { DSSEEntryV002, ProposedDSSEEntry } from '@sigstore/rekor-types';
 
 describe('verifyDSSETLogBody', () => {
   describe('when everything is valid', () => {
@@ -157,4 +157,72 @@ describe('verifyDSSETLogBody', () => {
       );
     });
   });
+
+  describe('when the entry is a v0.0.2 (Rekor v2) entry', () => {
+    const bundle = bundleFromJSON(bundles.REKOR_V2.DSSE);
+    const content = signatureContent(bundle);
+    const parseBody = (): DSSEEntryV002 =>
+      JSON.parse(
+        bundle.verificationMaterial.tlogEntries[0].canonicalizedBody.toString(
+          'utf8'
+        )
+      );
+
+    describe('when everything is valid', () => {
+      it('does NOT throw an error', () => {
+        expect(verifyDSSETLogBody(parseBody(), content)).toBeUndefined();
+      });
+    });
+
+    describe('when the tlog entry has more than one signature', () => {
+      const body = parseBody();
+      body.spec.dsseV002.signatures.push(body.spec.dsseV002.signatures[0]);
+
+      it('throws an error', () => {
+        expect(() => verifyDSSETLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+
+    describe('when the signature does NOT match the value in the tlog entry', () => {
+      const body = parseBody();
+      body.spec.dsseV002.signatures[0].content =
+        Buffer.from('oops').toString('base64');
+
+      it('throws an error', () => {
+        expect(() => verifyDSSETLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+
+    describe('when the tlog entry is missing the payload hash', () => {
+      const body = parseBody();
+      (body.spec.dsseV002 as Partial<typeof body.spec.dsseV002>).payloadHash =
+        undefined;
+
+      it('throws an error', () => {
+        expect(() => verifyDSSETLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+
+    describe('when the payload hash does NOT match the value in the tlog entry', () => {
+      const body = parseBody();
+      body.spec.dsseV002.payloadHash.digest =
+        Buffer.from('oops').toString('base64');
+
+      it('throws an error', () => {
+        expect(() => verifyDSSETLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+  });
 });
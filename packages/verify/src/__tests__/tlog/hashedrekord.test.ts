@@ -19,7 +19,10 @@ import { VerificationError } from '../../error';
 import { verifyHashedRekordTLogBody } from '../../tlog/hashedrekord';
 import * as bundles from '../__fixtures__/bundles';
 
-import type { ProposedHashedRekordEntry } from '@sigstore/rekor-types';
+import type {
+  HashedRekordEntryV002,
+  ProposedHashedRekordEntry,
+} from '@sigstore/rekor-types';
 
 describe('verifyHashedRekordTLogBody', () => {
   describe('when everything is valid', () => {
@@ -147,4 +150,77 @@ describe('verifyHashedRekordTLogBody', () => {
       );
     });
   });
+
+  describe('when the entry is a v0.0.2 (Rekor v2) entry', () => {
+    const bundle = bundleFromJSON(bundles.REKOR_V2.MESSAGE_SIGNATURE);
+    const content = signatureContent(bundle, bundles.ARTIFACT);
+    const parseBody = (): HashedRekordEntryV002 =>
+      JSON.parse(
+        bundle.verificationMaterial.tlogEntries[0].canonicalizedBody.toString(
+          'utf8'
+        )
+      );
+
+    describe('when everything is valid', () => {
+      it('does NOT throw an error', () => {
+        expect(
+          verifyHashedRekordTLogBody(parseBody(), content)
+        ).toBeUndefined();
+      });
+    });
+
+    describe('when the signature does NOT match the value in the tlog entry', () => {
+      const body = parseBody();
+      body.spec.hashedRekordV002.signature.content =
+        Buffer.from('oops').toString('base64');
+
+      it('throws an error', () => {
+        expect(() => verifyHashedRekordTLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+
+    describe('when the tlog entry is missing the signature', () => {
+      const body = parseBody();
+      (
+        body.spec.hashedRekordV002 as Partial<typeof body.spec.hashedRekordV002>
+      ).signature = undefined;
+
+      it('throws an error', () => {
+        expect(() => verifyHashedRekordTLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+
+    describe('when the digest does NOT match the value in the tlog entry', () => {
+      const body = parseBody();
+      body.spec.hashedRekordV002.data.digest =
+        Buffer.from('oops').toString('base64');
+
+      it('throws an error', () => {
+        expect(() => verifyHashedRekordTLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+
+    describe('when the tlog entry is missing the digest', () => {
+      const body = parseBody();
+      (
+        body.spec.hashedRekordV002 as Partial<typeof body.spec.hashedRekordV002>
+      ).data = undefined;
+
+      it('throws an error', () => {
+        expect(() => verifyHashedRekordTLogBody(body, content)).toThrowWithCode(
+          VerificationError,
+          'TLOG_BODY_ERROR'
+        );
+      });
+    });
+  });
 });
@@ -0,0 +1,355 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { X509Certificate, pem } from '@sigstore/core';
+import { PublicKeyDetails, TrustedRoot } from '@sigstore/protobuf-specs';
+import crypto from 'crypto';
+import { TrustedRootError } from '../../error';
+import { TrustedRootBuilder, toTrustMaterial } from '../../trust';
+import { certificates } from '../__fixtures__/certs';
+
+describe('TrustedRootBuilder', () => {
+  const { root, intermediate, leaf } = certificates;
+  const keyPair = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const publicKey = keyPair.publicKey.export({ format: 'pem', type: 'spki' });
+  const spki = keyPair.publicKey.export({ format: 'der', type: 'spki' });
+  const logID = crypto.createHash('sha256').update(spki).digest();
+
+  describe('#build', () => {
+    const subject = new TrustedRootBuilder()
+      .addCertificateAuthority({
+        certChain: [intermediate, root],
+        uri: 'https://fulcio.example.com',
+      })
+      .addTimestampAuthority({
+        certChain: [leaf, intermediate, root].map(pem.toDER),
+      })
+      .addTLog({ baseURL: 'https://rekor.example.com', publicKey })
+      .addCTLog({ baseURL: 'https://ctfe.example.com', publicKey: spki });
+
+    const trustedRoot = subject.build();
+
+    it('returns a trusted root', () => {
+      expect(trustedRoot.mediaType).toEqual(
+        'application/vnd.dev.sigstore.trustedroot+json;version=0.1'
+      );
+    });
+
+    it('populates the certificate authorities', () => {
+      const [ca] = trustedRoot.certificateAuthorities;
+      expect(trustedRoot.certificateAuthorities).toHaveLength(1);
+      expect(ca.uri).toEqual('https://fulcio.example.com');
+      expect(ca.subject).toEqual({
+        organization: 'foobar.dev',
+        commonName: 'foobar',
+      });
+      expect(ca.certChain?.certificates).toEqual([
+        { rawBytes: pem.toDER(intermediate) },
+        { rawBytes: pem.toDER(root) },
+      ]);
+      expect(ca.validFor).toEqual({
+        start: X509Certificate.parse(intermediate).notBefore,
+        end: undefined,
+      });
+    });
+
+    it('populates the timestamp authorities', () => {
+      const [tsa] = trustedRoot.timestampAuthorities;
+      expect(trustedRoot.timestampAuthorities).toHaveLength(1);
+      expect(tsa.uri).toEqual('');
+      expect(tsa.certChain?.certificates).toHaveLength(3);
+    });
+
+    it('populates the transparency logs', () => {
+      for (const log of [...trustedRoot.tlogs, ...trustedRoot.ctlogs]) {
+        expect(log.logId?.keyId).toEqual(logID);
+        expect(log.publicKey?.rawBytes).toEqual(spki);
+        expect(log.publicKey?.keyDetails).toEqual(
+          PublicKeyDetails.PKIX_ECDSA_P256_SHA_256
+        );
+        expect(log.publicKey?.validFor).toEqual({
+          start: new Date(0),
+          end: undefined,
+        });
+      }
+      expect(trustedRoot.tlogs[0].baseUrl).toEqual('https://rekor.example.com');
+      expect(trustedRoot.ctlogs[0].baseUrl).toEqual('https://ctfe.example.com');
+    });
+
+    it('can be converted to trust material', () => {
+      const trustMaterial = toTrustMaterial(trustedRoot);
+      expect(trustMaterial.certificateAuthorities).toHaveLength(1);
+      expect(trustMaterial.tlogs[0].logID).toEqual(logID);
+    });
+  });
+
+  describe('when the optional fields are specified', () => {
+    const validFor = {
+      start: new Date('2024-01-01'),
+      end: new Date('2025-01-01'),
+    };
+    const trustedRoot = new TrustedRootBuilder()
+      .addCertificateAuthority({
+        certChain: [root],
+        subject: { organization: 'example', commonName: 'example' },
+        validFor,
+      })
+      .addTLog({
+        baseURL: 'https://rekor.example.com',
+        publicKey,
+        keyDetails: PublicKeyDetails.PKIX_ECDSA_P256_SHA_256,
+        validFor,
+      })
+      .build();
+
+    it('uses the specified values', () => {
+      expect(trustedRoot.certificateAuthorities[0].subject).toEqual({
+        organization: 'example',
+        commonName: 'example',
+      });
+      expect(trustedRoot.certificateAuthorities[0].validFor).toEqual(validFor);
+      expect(trustedRoot.tlogs[0].publicKey?.validFor).toEqual(validFor);
+    });
+  });
+
+  describe('when the root has no organization', () => {
+    // Self-signed Ed25519 CA with a subject of CN=unnamed root
+    const unnamedRoot = `-----BEGIN CERTIFICATE-----
+MIIBIDCB06ADAgECAgEIMAUGAytlcDAXMRUwEwYDVQQDDAx1bm5hbWVkIHJvb3Qw
+IBcNMjYxMDE5MTMyMDI4WhgPMjEyNjA5MjUxMzIwMjhaMBcxFTATBgNVBAMMDHVu
+bmFtZWQgcm9vdDAqMAUGAytlcAMhAHyyW22NWmBJ1O5QA3NxAYtVKGO+jKI7zdcK
+DnBKZsA+o0IwQDAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwIBBjAdBgNV
+HQ4EFgQUR3TL3G3y6udKJ+3peBv7YoGMc3cwBQYDK2VwA0EAy1iz4XO3297/x/RF
+v98t0AIRnJm1VjWNg9q5l6y+2Ec8hK3slKLTzry9ed628UVIrgD3iNqJY7hs3Ecn
+V6nxBw==
+-----END CERTIFICATE-----`;
+
+    const trustedRoot = new TrustedRootBuilder()
+      .addCertificateAuthority({ certChain: [unnamedRoot] })
+      .build();
+
+    it('leaves the organization empty', () => {
+      expect(trustedRoot.certificateAuthorities[0].subject).toEqual({
+        organization: '',
+        commonName: 'unnamed root',
+      });
+    });
+  });
+
+  describe('#toJSON', () => {
+    const subject = new TrustedRootBuilder().addTLog({
+      baseURL: 'https://rekor.example.com',
+      publicKey,
+    });
+
+    it('returns the serialized trusted root', () => {
+      const json = subject.toJSON();
+      expect(json).toHaveProperty('tlogs');
+      expect(TrustedRoot.fromJSON(json).tlogs[0].logId?.keyId).toEqual(logID);
+    });
+  });
+
+  describe('key details detection', () => {
+    const spkiOf = (key: crypto.KeyObject) =>
+      key.export({ format: 'der', type: 'spki' });
+
+    it.each([
+      ['P-384', PublicKeyDetails.PKIX_ECDSA_P384_SHA_384],
+      ['P-521', PublicKeyDetails.PKIX_ECDSA_P521_SHA_512],
+    ])('detects ECDSA %s keys', (namedCurve, keyDetails) => {
+      const { publicKey } = crypto.generateKeyPairSync('ec', { namedCurve });
+      const trustedRoot = new TrustedRootBuilder()
+        .addTLog({ baseURL: '', publicKey: spkiOf(publicKey) })
+        .build();
+      expect(trustedRoot.tlogs[0].publicKey?.keyDetails).toEqual(keyDetails);
+    });
+
+    it.each([
+      ['rsa', 2048, PublicKeyDetails.PKIX_RSA_PKCS1V15_2048_SHA256],
+      ['rsa', 1024, PublicKeyDetails.PKIX_RSA_PKCS1V5],
+      ['rsa-pss', 2048, PublicKeyDetails.PKIX_RSA_PSS_2048_SHA256],
+      ['rsa-pss', 1024, PublicKeyDetails.PKIX_RSA_PSS],
+    ] as const)('detects %s %i keys', (type, modulusLength, keyDetails) => {
+      const { publicKey } =
+        type === 'rsa'
+          ? crypto.generateKeyPairSync('rsa', { modulusLength })
+          : crypto.generateKeyPairSync('rsa-pss', { modulusLength });
+      const trustedRoot = new TrustedRootBuilder()
+        .addTLog({ baseURL: '', publicKey: spkiOf(publicKey) })
+        .build();
+      expect(trustedRoot.tlogs[0].publicKey?.keyDetails).toEqual(keyDetails);
+    });
+
+    it('detects Ed25519 keys', () => {
+      const { publicKey } = crypto.generateKeyPairSync('ed25519');
+      const trustedRoot = new TrustedRootBuilder()
+        .addTLog({ baseURL: '', publicKey: spkiOf(publicKey) })
+        .build();
+      expect(trustedRoot.tlogs[0].publicKey?.keyDetails).toEqual(
+        PublicKeyDetails.PKIX_ED25519
+      );
+    });
+
+    it('throws an error for unsupported curves', () => {
+      const { publicKey } = crypto.generateKeyPairSync('ec', {
+        namedCurve: 'secp256k1',
+      });
+      expect(() =>
+        new TrustedRootBuilder().addTLog({
+          baseURL: '',
+          publicKey: spkiOf(publicKey),
+        })
+      ).toThrowWithCode(TrustedRootError, 'PUBLIC_KEY_ERROR');
+    });
+
+    it('throws an error for unsupported key types', () => {
+      const { publicKey } = crypto.generateKeyPairSync('ed448');
+      expect(() =>
+        new TrustedRootBuilder().addCTLog({
+          baseURL: '',
+          publicKey: spkiOf(publicKey),
+        })
+      ).toThrowWithCode(TrustedRootError, 'PUBLIC_KEY_ERROR');
+    });
+  });
+
+  describe('when the input is malformed', () => {
+    it('throws an error for an empty certificate chain', () => {
+      expect(() =>
+        new TrustedRootBuilder().addCertificateAuthority({ certChain: [] })
+      ).toThrowWithCode(TrustedRootError, 'CERTIFICATE_CHAIN_ERROR');
+    });
+
+    it('throws an error for an invalid certificate', () => {
+      expect(() =>
+        new TrustedRootBuilder().addTimestampAuthority({
+          certChain: [Buffer.from('oops')],
+        })
+      ).toThrowWithCode(TrustedRootError, 'CERTIFICATE_CHAIN_ERROR');
+    });
+
+    it('throws an error for an invalid public key', () => {
+      expect(() =>
+        new TrustedRootBuilder().addTLog({ baseURL: '', publicKey: 'oops' })
+      ).toThrowWithCode(TrustedRootError, 'PUBLIC_KEY_ERROR');
+    });
+  });
+
+  describe('#validate', () => {
+    describe('when a CA chain includes a non-CA certificate', () => {
+      const subject = new TrustedRootBuilder().addCertificateAuthority({
+        certChain: [leaf, intermediate, root],
+      });
+
+      it('throws an error', () => {
+        expect(() => subject.validate()).toThrowWithCode(
+          TrustedRootError,
+          'CERTIFICATE_CHAIN_ERROR'
+        );
+      });
+    });
+
+    describe('when the chain is out of order', () => {
+      const subject = new TrustedRootBuilder().addCertificateAuthority({
+        certChain: [root, intermediate],
+      });
+
+      it('throws an error', () => {
+        expect(() => subject.validate()).toThrowWithCode(
+          TrustedRootError,
+          'CERTIFICATE_CHAIN_ERROR'
+        );
+      });
+    });
+
+    describe('when the chain does not end with a root', () => {
+      const subject = new TrustedRootBuilder().addTimestampAuthority({
+        certChain: [leaf, intermediate],
+      });
+
+      it('throws an error', () => {
+        expect(() => subject.validate()).toThrowWithCode(
+          TrustedRootError,
+          'CERTIFICATE_CHAIN_ERROR'
+        );
+      });
+    });
+
+    describe('when a validity period ends before it starts', () => {
+      const subject = new TrustedRootBuilder().addTLog({
+        baseURL: '',
+        publicKey,
+        validFor: {
+          start: new Date('2025-01-01'),
+          end: new Date('2024-01-01'),
+        },
+      });
+
+      it('throws an error', () => {
+        expect(() => subject.build()).toThrowWithCode(
+          TrustedRootError,
+          'VALIDITY_PERIOD_ERROR'
+        );
+      });
+    });
+
+    describe('when a log appears more than once', () => {
+      const first = {
+        start: new Date('2023-01-01'),
+        end: new Date('2024-01-01'),
+      };
+
+      it('throws an error if the validity periods overlap', () => {
+        const subject = new TrustedRootBuilder()
+          .addCTLog({ baseURL: '', publicKey, validFor: first })
+          .addCTLog({
+            baseURL: '',
+            publicKey,
+            validFor: { start: new Date('2023-06-01') },
+          });
+
+        expect(() => subject.validate()).toThrowWithCode(
+          TrustedRootError,
+          'VALIDITY_PERIOD_ERROR'
+        );
+      });
+
+      it('succeeds if the validity periods are distinct', () => {
+        const subject = new TrustedRootBuilder()
+          .addTLog({
+            baseURL: '',
+            publicKey,
+            validFor: { start: new Date('2024-01-01') },
+          })
+          .addTLog({ baseURL: '', publicKey, validFor: first });
+
+        expect(() => subject.validate()).not.toThrow();
+      });
+    });
+
+    describe('when a CA appears more than once', () => {
+      const subject = new TrustedRootBuilder()
+        .addTimestampAuthority({ certChain: [leaf, intermediate, root] })
+        .addTimestampAuthority({ certChain: [leaf, intermediate, root] });
+
+      it('throws an error', () => {
+        expect(() => subject.validate()).toThrowWithCode(
+          TrustedRootError,
+          'VALIDITY_PERIOD_ERROR'
+        );
+      });
+    });
+  });
+});
@@ -13,6 +13,8 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import { PublicKeyDetails } from '@sigstore/protobuf-specs';
+import crypto from 'crypto';
 import { VerificationError } from '../../error';
 import { toTrustMaterial } from '../../trust';
 import { trustedRoot } from '../__fixtures__/trust';
@@ -24,6 +26,7 @@ describe('toTrustMaterial', () => {
     expect(result.certificateAuthorities).toHaveLength(2);
     expect(result.timestampAuthorities).toHaveLength(1);
     expect(result.tlogs).toHaveLength(1);
+    expect(result.tlogs[0].baseURL).toEqual('https://tlog.sigstore.dev');
     expect(result.ctlogs).toHaveLength(3);
 
     expect(() => result.publicKey('FOO')).toThrowWithCode(
@@ -76,6 +79,99 @@ describe('toTrustMaterial', () => {
     });
   });
 
+  describe('when the log keys are not ECDSA P-256', () => {
+    const rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const spki = (key: crypto.KeyObject) =>
+      key.export({ format: 'der', type: 'spki' });
+    const pkcs1 = rsa.publicKey.export({ format: 'der', type: 'pkcs1' });
+    const ed25519 = spki(crypto.generateKeyPairSync('ed25519').publicKey);
+    const p384 = spki(
+      crypto.generateKeyPairSync('ec', { namedCurve: 'P-384' }).publicKey
+    );
+    const p521 = spki(
+      crypto.generateKeyPairSync('ec', { namedCurve: 'P-521' }).publicKey
+    );
+
+    const pss = { hash: 'sha256', padding: 'pss' };
+
+    it.each([
+      [PublicKeyDetails.PKCS1_RSA_PKCS1V5, pkcs1, 'rsa', undefined],
+      [
+        PublicKeyDetails.PKIX_RSA_PKCS1V5,
+        spki(rsa.publicKey),
+        'rsa',
+        undefined,
+      ],
+      [PublicKeyDetails.PKCS1_RSA_PSS, pkcs1, 'rsa', pss],
+      [PublicKeyDetails.PKIX_RSA_PSS, spki(rsa.publicKey), 'rsa', pss],
+      [
+        PublicKeyDetails.PKIX_RSA_PSS_2048_SHA256,
+        spki(rsa.publicKey),
+        'rsa',
+        pss,
+      ],
+      [
+        PublicKeyDetails.PKIX_RSA_PSS_3072_SHA256,
+        spki(rsa.publicKey),
+        'rsa',
+        pss,
+      ],
+      [
+        PublicKeyDetails.PKIX_RSA_PSS_4096_SHA256,
+        spki(rsa.publicKey),
+        'rsa',
+        pss,
+      ],
+      [
+        PublicKeyDetails.PKIX_ECDSA_P384_SHA_384,
+        p384,
+        'ec',
+        { hash: 'sha384' },
+      ],
+      [
+        PublicKeyDetails.PKIX_ECDSA_P521_SHA_512,
+        p521,
+        'ec',
+        { hash: 'sha512' },
+      ],
+      [PublicKeyDetails.PKIX_ED25519, ed25519, 'ed25519', {}],
+    ])(
+      'detects the key type for key details %i',
+      (keyDetails, rawBytes, keyType, signatureAlgorithm) => {
+        const root = {
+          ...trustedRoot,
+          tlogs: [
+            {
+              ...trustedRoot.tlogs[0],
+              publicKey: {
+                ...trustedRoot.tlogs[0].publicKey,
+                keyDetails,
+                rawBytes,
+              },
+            },
+          ],
+        };
+
+        const [tlog] = toTrustMaterial(root).tlogs;
+        expect(tlog.publicKey.asymmetricKeyType).toEqual(keyType);
+        expect(tlog.signatureAlgorithm).toEqual(signatureAlgorithm);
+      }
+    );
+
+    it('detects the encoding of looked-up keys', () => {
+      const result = toTrustMaterial(trustedRoot, {
+        RSA: {
+          rawBytes: pkcs1,
+          keyDetails: PublicKeyDetails.PKCS1_RSA_PKCS1V5,
+        },
+      });
+
+      expect(result.publicKey('RSA').publicKey.asymmetricKeyType).toEqual(
+        'rsa'
+      );
+    });
+  });
+
   describe('when provided with a key finder function', () => {
     const key = {
       /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
@@ -13,17 +13,25 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
+import assert from 'assert';
 import { bundleFromJSON } from '@sigstore/bundle';
-import { crypto } from '@sigstore/core';
-import { PublicKeyDetails } from '@sigstore/protobuf-specs';
+import { crypto, dsse } from '@sigstore/core';
+import { PublicKeyDetails, TrustedRoot } from '@sigstore/protobuf-specs';
 import { fromPartial } from '@total-typescript/shoehorn';
-import { toSignedEntity } from '../bundle';
+import nodeCrypto from 'crypto';
+import { Readable } from 'stream';
+import { toArtifactDigest, toSignedEntity } from '../bundle';
 import { PolicyError, VerificationError } from '../error';
-import { CertificateIdentity } from '../shared.types';
+import { CertificateIdentity, SignedEntity, Timestamp } from '../shared.types';
+import { LogCheckpoint, MemoryCheckpointStore, SignedNote } from '../timestamp';
 import { TrustMaterial, toTrustMaterial } from '../trust';
-import { Verifier } from '../verifier';
+import { VerificationReport, Verifier } from '../verifier';
 import * as bundles from './__fixtures__/bundles';
 import { trustedRoot } from './__fixtures__/trust';
+import { newWitness } from './__fixtures__/witness';
+
+import type { Bundle, Envelope, InclusionProof } from '@sigstore/bundle';
+import type { TLogClient } from '../timestamp';
 
 describe('Verifier', () => {
   describe('constructor', () => {
@@ -62,6 +70,46 @@ describe('Verifier', () => {
       it('returns without error', () => {
         subject.verify(signedEntity);
       });
+
+      it('returns the verification result', () => {
+        const result = subject.verify(signedEntity);
+
+        expect(result.key).toBeDefined();
+        expect(result.identity?.extensions?.issuer).toEqual(
+          'https://github.com/login/oauth'
+        );
+
+        // Timestamps from both the tlog and the TSA
+        expect(result.timestamps).toHaveLength(2);
+        const [tlogTimestamp, tsaTimestamp] = result.timestamps;
+        expect(tlogTimestamp.type).toEqual('transparency-log');
+        expect(tlogTimestamp.logID).toEqual(
+          bundle.verificationMaterial.tlogEntries[0].logId.keyId
+        );
+        expect(tlogTimestamp.timestampAuthority).toBeUndefined();
+        expect(tsaTimestamp.type).toEqual('timestamp-authority');
+        expect(trustMaterial.timestampAuthorities).toContain(
+          tsaTimestamp.timestampAuthority
+        );
+
+        // Certificate chain
+        expect(trustMaterial.certificateAuthorities).toContain(
+          result.certificateChain?.certAuthority
+        );
+        expect(result.certificateChain?.path.length).toBeGreaterThan(1);
+        expect(result.certificateChain?.path[0]).toEqual(
+          signedEntity.key.$case === 'certificate' &&
+            signedEntity.key.certificate
+        );
+
+        expect(result.sctLogIDs).toHaveLength(1);
+        expect(trustMaterial.ctlogs.map((log) => log.logID)).toContainEqual(
+          result.sctLogIDs[0]
+        );
+        expect(result.tlogEntries).toEqual(
+          bundle.verificationMaterial.tlogEntries
+        );
+      });
     });
 
     describe('when the key-signed message signature bundle is valid', () => {
@@ -73,6 +121,17 @@ describe('Verifier', () => {
       it('returns without error', () => {
         subject.verify(signedEntity);
       });
+
+      it('returns the verification result', () => {
+        const result = subject.verify(signedEntity);
+
+        expect(result.key).toBeDefined();
+        expect(result.identity).toBeUndefined();
+        expect(result.timestamps).toHaveLength(2);
+        expect(result.certificateChain).toBeUndefined();
+        expect(result.sctLogIDs).toHaveLength(0);
+        expect(result.tlogEntries).toHaveLength(1);
+      });
     });
 
     describe('when the certificate-signed DSSE bundle is valid', () => {
@@ -102,6 +161,44 @@ describe('Verifier', () => {
       });
     });
 
+    describe('when only the digest of the artifact is supplied', () => {
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+
+      it('returns without error', () => {
+        const signedEntity = toSignedEntity(bundle, {
+          digest: crypto.digest('sha256', bundles.ARTIFACT),
+        });
+        expect(subject.verify(signedEntity)).toBeDefined();
+      });
+
+      it('throws an error when the digest does not match', () => {
+        const signedEntity = toSignedEntity(bundle, {
+          digest: crypto.digest('sha256', Buffer.from('foo')),
+        });
+        expect(() => subject.verify(signedEntity)).toThrowWithCode(
+          VerificationError,
+          'SIGNATURE_ERROR'
+        );
+      });
+    });
+
+    describe('when the artifact is streamed', () => {
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+
+      it('returns without error', async () => {
+        const digest = await toArtifactDigest(
+          bundle,
+          Readable.from([bundles.ARTIFACT])
+        );
+        const signedEntity = toSignedEntity(bundle, digest);
+        expect(subject.verify(signedEntity)).toBeDefined();
+      });
+    });
+
     describe('when the a matching policy is specified', () => {
       const bundle = bundleFromJSON(
         bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
@@ -190,6 +287,102 @@ describe('Verifier', () => {
       });
     });
 
+    describe('when a TSA policy is supplied', () => {
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      describe('when the timestamp satisfies the policy', () => {
+        const subject = new Verifier(trustMaterial, {
+          tsaThreshold: 1,
+          tsaPolicyOIDs: ['1.3.6.1.4.1.57264.2'],
+          tsaMaxAccuracy: 1000,
+        });
+
+        it('returns without error', () => {
+          subject.verify(signedEntity);
+        });
+      });
+
+      describe('when the timestamp was issued under a different policy', () => {
+        const subject = new Verifier(trustMaterial, {
+          tsaPolicyOIDs: ['1.2.3.4'],
+        });
+
+        it('throws an error', () => {
+          expect(() => subject.verify(signedEntity)).toThrowWithCode(
+            VerificationError,
+            'TIMESTAMP_ERROR'
+          );
+        });
+      });
+
+      describe('when the timestamp accuracy exceeds the maximum', () => {
+        const subject = new Verifier(trustMaterial, { tsaMaxAccuracy: 500 });
+
+        it('throws an error', () => {
+          expect(() => subject.verify(signedEntity)).toThrowWithCode(
+            VerificationError,
+            'TIMESTAMP_ERROR'
+          );
+        });
+      });
+
+      describe('when the policy is strict', () => {
+        // The fixture's TSA issued the timestamp with a different signing
+        // certificate than the one in the trusted root
+        const subject = new Verifier(trustMaterial, { tsaStrict: true });
+
+        it('throws an error', () => {
+          expect(() => subject.verify(signedEntity)).toThrowWithCode(
+            VerificationError,
+            'TIMESTAMP_ERROR'
+          );
+        });
+      });
+    });
+
+    describe('when a revocation mode is supplied', () => {
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      describe('when the mode is soft-fail', () => {
+        const subject = new Verifier(
+          { ...trustMaterial, crls: [] },
+          { revocationMode: 'soft-fail' }
+        );
+
+        it('returns without error', () => {
+          subject.verify(signedEntity);
+        });
+      });
+
+      describe('when CRLs are supplied without a mode', () => {
+        // Defaults to soft-fail
+        const subject = new Verifier({ ...trustMaterial, crls: [] });
+
+        it('returns without error', () => {
+          subject.verify(signedEntity);
+        });
+      });
+
+      describe('when the mode is hard-fail and no CRLs are available', () => {
+        const subject = new Verifier(trustMaterial, {
+          revocationMode: 'hard-fail',
+        });
+
+        it('throws an error', () => {
+          expect(() => subject.verify(signedEntity)).toThrowWithCode(
+            VerificationError,
+            'CERTIFICATE_REVOCATION_ERROR'
+          );
+        });
+      });
+    });
+
     describe('when the ctlog threshold is not met', () => {
       const subject = new Verifier(trustMaterial, { ctlogThreshold: 2 });
       const bundle = bundleFromJSON(
@@ -221,5 +414,1043 @@ describe('Verifier', () => {
         );
       });
     });
+
+    describe('when the certificate-signed bundle has no timestamps', () => {
+      const subject = new Verifier(trustMaterial, { tlogThreshold: 0 });
+      const bundle = bundleFromJSON({
+        ...bundles.V3.MESSAGE_SIGNATURE.WITH_SIGNING_CERT,
+        verificationMaterial: {
+          ...bundles.V3.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+            .verificationMaterial,
+          timestampVerificationData: { rfc3161Timestamps: [] },
+        },
+      });
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      it('throws an error', () => {
+        expect(() => subject.verify(signedEntity)).toThrowWithCode(
+          VerificationError,
+          'TIMESTAMP_ERROR'
+        );
+      });
+    });
+
+    describe('when the bundle was recorded in a Rekor v2 log', () => {
+      const tlogKey = crypto.createPublicKey(bundles.REKOR_V2.TLOG_KEY);
+      const signingKey = crypto.createPublicKey(bundles.REKOR_V2.PUBLIC_KEY);
+
+      const trustMaterial = toTrustMaterial(
+        TrustedRoot.fromJSON({
+          ...TrustedRoot.toJSON(trustedRoot),
+          tlogs: [
+            {
+              baseUrl: 'https://rekor-v2.example.com',
+              hashAlgorithm: 'SHA2_256',
+              publicKey: {
+                rawBytes: tlogKey
+                  .export({ type: 'spki', format: 'der' })
+                  .toString('base64'),
+                keyDetails: 'PKIX_ECDSA_P256_SHA_256',
+                validFor: { start: '2024-01-01T00:00:00Z' },
+              },
+              logId: {
+                keyId: crypto
+                  .digest(
+                    'sha256',
+                    tlogKey.export({ type: 'spki', format: 'der' })
+                  )
+                  .toString('base64'),
+              },
+            },
+          ],
+          timestampAuthorities: [
+            {
+              subject: { organization: 'sigstore.mock', commonName: 'tsa' },
+              certChain: {
+                certificates: bundles.REKOR_V2.TSA_CERT_CHAIN.map(
+                  (rawBytes) => ({ rawBytes })
+                ),
+              },
+              validFor: { start: '2024-01-01T00:00:00Z' },
+            },
+          ],
+        }),
+        {
+          'rekor-v2-key': {
+            rawBytes: signingKey.export({ type: 'spki', format: 'der' }),
+            keyDetails: PublicKeyDetails.PKIX_ECDSA_P256_SHA_256,
+            validFor: { start: new Date(0) },
+          },
+        }
+      );
+      const subject = new Verifier(trustMaterial);
+
+      describe('when the bundle is a message signature', () => {
+        const bundle = bundleFromJSON(bundles.REKOR_V2.MESSAGE_SIGNATURE);
+        const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+        it('verifies the inclusion proof without a tlog timestamp', () => {
+          const result = subject.verify(signedEntity);
+
+          expect(result.timestamps).toHaveLength(1);
+          expect(result.timestamps[0].type).toEqual('timestamp-authority');
+          expect(result.tlogEntries).toHaveLength(1);
+          expect(result.tlogEntries[0].integratedTime).toEqual('0');
+        });
+
+        describe('when there is no TSA timestamp', () => {
+          const entity = {
+            ...signedEntity,
+            timestamps: signedEntity.timestamps.filter(
+              (t) => t.$case === 'transparency-log'
+            ),
+          };
+
+          it('throws an error', () => {
+            expect(() => subject.verify(entity)).toThrowWithCode(
+              VerificationError,
+              'TLOG_INCLUSION_PROOF_ERROR'
+            );
+          });
+        });
+
+        describe('when the log key was not valid at the TSA timestamp', () => {
+          const subject = new Verifier({
+            ...trustMaterial,
+            tlogs: trustMaterial.tlogs.map((tlog) => ({
+              ...tlog,
+              validFor: { start: new Date(0), end: new Date('2024-01-01') },
+            })),
+          });
+
+          it('throws an error', () => {
+            expect(() => subject.verify(signedEntity)).toThrowWithCode(
+              VerificationError,
+              'TLOG_INCLUSION_PROOF_ERROR'
+            );
+          });
+        });
+      });
+
+      describe('when the bundle is a DSSE envelope', () => {
+        const bundle = bundleFromJSON(bundles.REKOR_V2.DSSE);
+        const signedEntity = toSignedEntity(bundle);
+
+        it('returns without error', () => {
+          expect(subject.verify(signedEntity).tlogEntries).toHaveLength(1);
+        });
+      });
+
+      describe('when a checkpoint store is supplied', () => {
+        const origin = 'rekor-v2.example.com';
+        const bundle = bundleFromJSON(bundles.REKOR_V2.MESSAGE_SIGNATURE);
+        const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+        const rootHash =
+          bundle.verificationMaterial.tlogEntries[0].inclusionProof.rootHash;
+
+        // A larger tree with the bundle's single-leaf tree as its prefix
+        const sibling = crypto.digest('sha256', Buffer.from('sibling'));
+        const largerRoot = crypto.digest(
+          'sha256',
+          Buffer.from([0x01]),
+          rootHash,
+          sibling
+        );
+
+        let checkpointStore: MemoryCheckpointStore;
+
+        beforeEach(() => {
+          checkpointStore = new MemoryCheckpointStore();
+        });
+
+        it('records the checkpoint', () => {
+          new Verifier(trustMaterial, { checkpointStore }).verify(signedEntity);
+
+          const checkpoint = checkpointStore.get(origin);
+          expect(checkpoint?.logSize).toEqual(1n);
+          expect(checkpoint?.logHash).toEqual(rootHash);
+        });
+
+        describe('when the log presented a different view of the tree', () => {
+          it('throws an error', () => {
+            checkpointStore.set(
+              new LogCheckpoint(origin, 1n, Buffer.alloc(32), [])
+            );
+            const subject = new Verifier(trustMaterial, { checkpointStore });
+
+            expect(() => subject.verify(signedEntity)).toThrowWithCode(
+              VerificationError,
+              'TLOG_CONSISTENCY_PROOF_ERROR'
+            );
+          });
+        });
+
+        describe('when a larger checkpoint has been recorded', () => {
+          const larger = new LogCheckpoint(origin, 2n, largerRoot, []);
+
+          it('verifies the consistency proof', () => {
+            checkpointStore.set(larger);
+            const consistencyProof = jest.fn().mockReturnValue([sibling]);
+            const subject = new Verifier(trustMaterial, {
+              checkpointStore,
+              consistencyProof,
+            });
+
+            subject.verify(signedEntity);
+            expect(consistencyProof).toHaveBeenCalledWith(origin, 1n, 2n);
+            expect(checkpointStore.get(origin)).toBe(larger);
+          });
+
+          it('throws an error when no proof is available', () => {
+            checkpointStore.set(larger);
+            const subject = new Verifier(trustMaterial, { checkpointStore });
+
+            expect(() => subject.verify(signedEntity)).toThrowWithCode(
+              VerificationError,
+              'TLOG_CONSISTENCY_PROOF_ERROR'
+            );
+          });
+        });
+      });
+
+      describe('when witness cosignatures are required', () => {
+        const witness = newWitness('witness.example.com');
+        const json = bundles.REKOR_V2.MESSAGE_SIGNATURE;
+        const { checkpoint } =
+          json.verificationMaterial.tlogEntries[0].inclusionProof;
+        const note = checkpoint.envelope.slice(
+          0,
+          checkpoint.envelope.indexOf('\n\n') + 1
+        );
+
+        const bundle = bundleFromJSON(json);
+        const cosignedBundle = bundleFromJSON({
+          ...json,
+          verificationMaterial: {
+            ...json.verificationMaterial,
+            tlogEntries: [
+              {
+                ...json.verificationMaterial.tlogEntries[0],
+                inclusionProof: {
+                  ...json.verificationMaterial.tlogEntries[0].inclusionProof,
+                  checkpoint: {
+                    envelope: checkpoint.envelope + witness.cosign(note),
+                  },
+                },
+              },
+            ],
+          },
+        });
+
+        describe('when the checkpoint was cosigned by the witness', () => {
+          const subject = new Verifier(trustMaterial, {
+            witnessKeys: [witness.vkey],
+            witnessThreshold: 1,
+          });
+
+          it('returns without error', () => {
+            const signedEntity = toSignedEntity(
+              cosignedBundle,
+              bundles.ARTIFACT
+            );
+            expect(subject.verify(signedEntity).tlogEntries).toHaveLength(1);
+          });
+        });
+
+        describe('when the checkpoint was NOT cosigned by the witness', () => {
+          const subject = new Verifier(trustMaterial, {
+            witnessKeys: [witness.vkey],
+            witnessThreshold: 1,
+          });
+
+          it('throws an error', () => {
+            const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+            expect(() => subject.verify(signedEntity)).toThrowWithCode(
+              VerificationError,
+              'TLOG_WITNESS_ERROR'
+            );
+          });
+        });
+
+        describe('when no witness keys are supplied', () => {
+          const subject = new Verifier(trustMaterial, { witnessThreshold: 1 });
+
+          it('throws an error', () => {
+            const signedEntity = toSignedEntity(
+              cosignedBundle,
+              bundles.ARTIFACT
+            );
+            expect(() => subject.verify(signedEntity)).toThrowWithCode(
+              VerificationError,
+              'TLOG_WITNESS_ERROR'
+            );
+          });
+        });
+
+        describe('when no threshold is supplied', () => {
+          const subject = new Verifier(trustMaterial, {
+            witnessKeys: [witness.vkey],
+          });
+
+          it('verifies any witness signatures which are present', () => {
+            const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+            expect(subject.verify(signedEntity).tlogEntries).toHaveLength(1);
+          });
+        });
+      });
+
+      describe('when the checkpoint was signed by an untrusted log', () => {
+        const subject = new Verifier({
+          ...trustMaterial,
+          tlogs: toTrustMaterial(trustedRoot, {}).tlogs,
+        });
+        const bundle = bundleFromJSON(bundles.REKOR_V2.MESSAGE_SIGNATURE);
+        const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+        it('throws an error', () => {
+          expect(() => subject.verify(signedEntity)).toThrowWithCode(
+            VerificationError,
+            'TLOG_INCLUSION_PROOF_ERROR'
+          );
+        });
+      });
+    });
+  });
+
+  describe('#verifyOnline', () => {
+    const tlogKey = crypto.createPublicKey(bundles.REKOR_V1.TLOG_KEY);
+    const signingKey = crypto.createPublicKey(bundles.REKOR_V1.PUBLIC_KEY);
+
+    const trustMaterial = toTrustMaterial(
+      TrustedRoot.fromJSON({
+        ...TrustedRoot.toJSON(trustedRoot),
+        tlogs: [
+          {
+            baseUrl: 'https://rekor-v1.example.com',
+            hashAlgorithm: 'SHA2_256',
+            publicKey: {
+              rawBytes: tlogKey
+                .export({ type: 'spki', format: 'der' })
+                .toString('base64'),
+              keyDetails: 'PKIX_ECDSA_P256_SHA_256',
+              validFor: { start: '2024-01-01T00:00:00Z' },
+            },
+            logId: {
+              keyId: crypto
+                .digest(
+                  'sha256',
+                  tlogKey.export({ type: 'spki', format: 'der' })
+                )
+                .toString('base64'),
+            },
+          },
+        ],
+      }),
+      {
+        'rekor-v1-key': {
+          rawBytes: signingKey.export({ type: 'spki', format: 'der' }),
+          keyDetails: PublicKeyDetails.PKIX_ECDSA_P256_SHA_256,
+          validFor: { start: new Date(0) },
+        },
+      }
+    );
+
+    // The inclusion proof for the entry as currently served by the log
+    const { inclusionProof } = Object.values(bundles.REKOR_V1.ENTRY)[0]
+      .verification;
+    const onlineProof: InclusionProof = {
+      logIndex: inclusionProof.logIndex.toString(),
+      treeSize: inclusionProof.treeSize.toString(),
+      rootHash: Buffer.from(inclusionProof.rootHash, 'hex'),
+      hashes: inclusionProof.hashes.map((h) => Buffer.from(h, 'hex')),
+      checkpoint: { envelope: inclusionProof.checkpoint },
+    };
+
+    const promiseOnlyBundle = bundleFromJSON(
+      bundles.REKOR_V1.MESSAGE_SIGNATURE
+    );
+
+    const json = bundles.REKOR_V1.MESSAGE_SIGNATURE;
+    const proofBundle = bundleFromJSON({
+      ...json,
+      mediaType: 'application/vnd.dev.sigstore.bundle+json;version=0.2',
+      verificationMaterial: {
+        ...json.verificationMaterial,
+        tlogEntries: [
+          {
+            ...json.verificationMaterial.tlogEntries[0],
+            inclusionProof: bundles.REKOR_V1.INCLUSION_PROOF,
+          },
+        ],
+      },
+    });
+
+    describe('when the log serves a valid inclusion proof', () => {
+      const tlogClient = {
+        getInclusionProof: jest.fn().mockResolvedValue(onlineProof),
+        getConsistencyProof: jest.fn(),
+      };
+      const subject = new Verifier(trustMaterial, { tlogClient });
+
+      describe('when the entry has only an inclusion promise', () => {
+        const signedEntity = toSignedEntity(
+          promiseOnlyBundle,
+          bundles.ARTIFACT
+        );
+
+        it('upgrades the entry with the fetched proof', async () => {
+          const result = await subject.verifyOnline(signedEntity);
+
+          expect(tlogClient.getInclusionProof).toHaveBeenCalledWith(
+            'https://rekor-v1.example.com',
+            signedEntity.tlogEntries[0]
+          );
+          expect(result.timestamps).toHaveLength(1);
+          expect(result.tlogEntries[0].inclusionProof).toBe(onlineProof);
+        });
+      });
+
+      describe('when the entity has other timestamps', () => {
+        const signedEntity = toSignedEntity(
+          promiseOnlyBundle,
+          bundles.ARTIFACT
+        );
+        const tsaTimestamp = fromPartial<Timestamp>({
+          $case: 'timestamp-authority',
+        });
+
+        it('passes them through unchanged', async () => {
+          const verify = jest
+            .spyOn(subject, 'verify')
+            .mockReturnValue(fromPartial({ timestamps: [] }));
+
+          await subject.verifyOnline({
+            ...signedEntity,
+            timestamps: [...signedEntity.timestamps, tsaTimestamp],
+          });
+
+          expect(verify.mock.calls[0][0].timestamps[1]).toBe(tsaTimestamp);
+          verify.mockRestore();
+        });
+      });
+
+      describe('when the entry already has an inclusion proof', () => {
+        const signedEntity = toSignedEntity(proofBundle, bundles.ARTIFACT);
+
+        it('verifies both inclusion proofs', async () => {
+          const result = await subject.verifyOnline(signedEntity);
+
+          expect(result.tlogEntries[0].inclusionProof?.treeSize).toEqual('1');
+        });
+      });
+    });
+
+    describe('when the log serves an invalid inclusion proof', () => {
+      const subject = new Verifier(trustMaterial, {
+        tlogClient: {
+          getInclusionProof: jest
+            .fn()
+            .mockResolvedValue({ ...onlineProof, hashes: [] }),
+          getConsistencyProof: jest.fn(),
+        },
+      });
+
+      describe('when the entry has only an inclusion promise', () => {
+        const signedEntity = toSignedEntity(
+          promiseOnlyBundle,
+          bundles.ARTIFACT
+        );
+
+        it('throws an error', async () => {
+          await expect(
+            subject.verifyOnline(signedEntity)
+          ).rejects.toThrowWithCode(
+            VerificationError,
+            'TLOG_INCLUSION_PROOF_ERROR'
+          );
+        });
+      });
+
+      describe('when the entry already has an inclusion proof', () => {
+        const signedEntity = toSignedEntity(proofBundle, bundles.ARTIFACT);
+
+        it('throws an error', async () => {
+          await expect(
+            subject.verifyOnline(signedEntity)
+          ).rejects.toThrowWithCode(
+            VerificationError,
+            'TLOG_INCLUSION_PROOF_ERROR'
+          );
+        });
+      });
+    });
+
+    describe('when a checkpoint store is supplied', () => {
+      const origin = LogCheckpoint.fromString(
+        SignedNote.fromString(inclusionProof.checkpoint).note
+      ).origin;
+      const signedEntity = toSignedEntity(promiseOnlyBundle, bundles.ARTIFACT);
+
+      // The fetched proof is for the first leaf of a 3-leaf tree. A 4-leaf
+      // tree with an arbitrary fourth leaf is built from it.
+      const node = (left: Buffer, right: Buffer) =>
+        crypto.digest('sha256', Buffer.from([0x01]), left, right);
+      const leaf0 = crypto.digest(
+        'sha256',
+        Buffer.from([0x00]),
+        signedEntity.tlogEntries[0].canonicalizedBody
+      );
+      const [leaf1, leaf2] = onlineProof.hashes;
+      const leaf3 = crypto.digest('sha256', Buffer.from('leaf3'));
+      const larger = new LogCheckpoint(
+        origin,
+        4n,
+        node(node(leaf0, leaf1), node(leaf2, leaf3)),
+        []
+      );
+
+      let checkpointStore: MemoryCheckpointStore;
+      let tlogClient: TLogClient;
+
+      beforeEach(() => {
+        checkpointStore = new MemoryCheckpointStore();
+        checkpointStore.set(larger);
+        tlogClient = {
+          getInclusionProof: jest.fn().mockResolvedValue(onlineProof),
+          getConsistencyProof: jest
+            .fn()
+            .mockResolvedValue([leaf2, leaf3, node(leaf0, leaf1)]),
+        };
+      });
+
+      it('fetches the consistency proof from the log', async () => {
+        const subject = new Verifier(trustMaterial, {
+          checkpointStore,
+          tlogClient,
+        });
+
+        await subject.verifyOnline(signedEntity);
+        await subject.verifyOnline(signedEntity);
+
+        expect(tlogClient.getConsistencyProof).toHaveBeenCalledTimes(1);
+        expect(tlogClient.getConsistencyProof).toHaveBeenCalledWith(
+          'https://rekor-v1.example.com',
+          3n,
+          4n
+        );
+        expect(checkpointStore.get(origin)).toBe(larger);
+      });
+
+      describe('when the entry already has an inclusion proof', () => {
+        const signedEntity = toSignedEntity(proofBundle, bundles.ARTIFACT);
+
+        beforeEach(() => {
+          checkpointStore = new MemoryCheckpointStore();
+        });
+
+        it('checks the fetched checkpoint against the store', async () => {
+          // The embedded checkpoint is for the 1-leaf tree containing the
+          // entry, so only the second and third leaves are needed to prove
+          // the fetched checkpoint consistent with it
+          jest
+            .mocked(tlogClient.getConsistencyProof)
+            .mockResolvedValue([leaf1, leaf2]);
+          const subject = new Verifier(trustMaterial, {
+            checkpointStore,
+            tlogClient,
+          });
+
+          await subject.verifyOnline(signedEntity);
+
+          expect(tlogClient.getConsistencyProof).toHaveBeenCalledWith(
+            'https://rekor-v1.example.com',
+            1n,
+            3n
+          );
+          expect(checkpointStore.get(origin)?.logSize).toEqual(3n);
+        });
+
+        it('throws when the fetched checkpoint is inconsistent', async () => {
+          jest
+            .mocked(tlogClient.getConsistencyProof)
+            .mockResolvedValue([leaf1, leaf3]);
+          const subject = new Verifier(trustMaterial, {
+            checkpointStore,
+            tlogClient,
+          });
+
+          await expect(
+            subject.verifyOnline(signedEntity)
+          ).rejects.toThrowWithCode(
+            VerificationError,
+            'TLOG_CONSISTENCY_PROOF_ERROR'
+          );
+          expect(checkpointStore.get(origin)?.logSize).toEqual(1n);
+        });
+      });
+
+      describe('when the log serves an invalid consistency proof', () => {
+        it('throws an error', async () => {
+          jest
+            .mocked(tlogClient.getConsistencyProof)
+            .mockResolvedValue([leaf3]);
+          const subject = new Verifier(trustMaterial, {
+            checkpointStore,
+            tlogClient,
+          });
+
+          await expect(
+            subject.verifyOnline(signedEntity)
+          ).rejects.toThrowWithCode(
+            VerificationError,
+            'TLOG_CONSISTENCY_PROOF_ERROR'
+          );
+        });
+      });
+    });
+
+    describe('when no tlog client is supplied', () => {
+      const subject = new Verifier(trustMaterial);
+      const signedEntity = toSignedEntity(promiseOnlyBundle, bundles.ARTIFACT);
+
+      it('throws an error', async () => {
+        await expect(
+          subject.verifyOnline(signedEntity)
+        ).rejects.toThrowWithCode(
+          VerificationError,
+          'TLOG_INCLUSION_PROOF_ERROR'
+        );
+      });
+    });
+
+    describe('when the log cannot be reached', () => {
+      const subject = new Verifier(trustMaterial, {
+        tlogClient: {
+          getInclusionProof: jest.fn().mockRejectedValue(new Error('oops')),
+          getConsistencyProof: jest.fn(),
+        },
+      });
+      const signedEntity = toSignedEntity(promiseOnlyBundle, bundles.ARTIFACT);
+
+      it('throws an error', async () => {
+        await expect(
+          subject.verifyOnline(signedEntity)
+        ).rejects.toThrowWithCode(
+          VerificationError,
+          'TLOG_INCLUSION_PROOF_ERROR'
+        );
+      });
+    });
+  });
+
+  describe('#diagnose', () => {
+    const publicKey = crypto.createPublicKey(bundles.PUBLIC_KEY);
+
+    const keys = {
+      '9a76331edc1cfd3933040996615b1c06adbe6f9b4f11df4106dcceb66e3bdb1b': {
+        rawBytes: publicKey.export({ type: 'spki', format: 'der' }),
+        keyDetails: PublicKeyDetails.PKIX_ECDSA_P256_SHA_256,
+        validFor: { start: new Date(0) },
+      },
+    };
+    const trustMaterial = toTrustMaterial(trustedRoot, keys);
+    const subject = new Verifier(trustMaterial);
+
+    // Returns a map of check names to statuses for easier assertions
+    const statuses = (report: VerificationReport) =>
+      Object.fromEntries(report.checks.map((c) => [c.check, c.status]));
+
+    describe('when the certificate-signed bundle is valid', () => {
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      it('reports all of the checks as passing', () => {
+        const report = subject.diagnose(signedEntity);
+
+        expect(report.verified).toBe(true);
+        expect(statuses(report)).toEqual({
+          timestamps: 'pass',
+          'public-key': 'skipped',
+          'certificate-chain': 'pass',
+          sct: 'pass',
+          'tlog-body': 'pass',
+          signature: 'pass',
+          policy: 'skipped',
+        });
+      });
+    });
+
+    describe('when the signature and policy checks fail', () => {
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const signedEntity = toSignedEntity(
+        bundle,
+        Buffer.from('not the artifact')
+      );
+      const policy = { subjectAlternativeName: 'foo@bar.com' };
+
+      it('reports every failure', () => {
+        const report = subject.diagnose(signedEntity, policy);
+
+        expect(report.verified).toBe(false);
+        expect(statuses(report)).toEqual({
+          timestamps: 'pass',
+          'public-key': 'skipped',
+          'certificate-chain': 'pass',
+          sct: 'pass',
+          'tlog-body': 'pass',
+          signature: 'fail',
+          policy: 'fail',
+        });
+
+        const failures = report.checks.filter((c) => c.status === 'fail');
+        expect(failures.map((c) => c.code)).toEqual([
+          'SIGNATURE_ERROR',
+          'UNTRUSTED_SIGNER_ERROR',
+        ]);
+        failures.forEach((c) => expect(c.message).toBeDefined());
+      });
+    });
+
+    describe('when the revocation status of the certificate is unavailable', () => {
+      const subject = new Verifier(trustMaterial, {
+        revocationMode: 'hard-fail',
+      });
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const entity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      // The TSA certificate would fail the revocation check as well, so only
+      // the tlog timestamp is kept
+      const signedEntity: SignedEntity = {
+        ...entity,
+        timestamps: entity.timestamps.filter(
+          (t) => t.$case === 'transparency-log'
+        ),
+      };
+
+      it('reports the certificate chain as failing', () => {
+        const report = subject.diagnose(signedEntity);
+        const check = report.checks.find(
+          (c) => c.check === 'certificate-chain'
+        );
+
+        expect(report.verified).toBe(false);
+        expect(check?.status).toBe('fail');
+        expect(check?.code).toBe('CERTIFICATE_REVOCATION_ERROR');
+      });
+    });
+
+    describe('when the timestamps and certificate chain cannot be verified', () => {
+      const subject = new Verifier(
+        { ...trustMaterial, certificateAuthorities: [] },
+        { tlogThreshold: 2 }
+      );
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      it('continues with the remaining checks', () => {
+        const report = subject.diagnose(signedEntity);
+
+        expect(report.verified).toBe(false);
+        expect(statuses(report)).toEqual({
+          timestamps: 'fail',
+          'public-key': 'skipped',
+          'certificate-chain': 'fail',
+          sct: 'skipped',
+          'tlog-body': 'pass',
+          signature: 'pass',
+          policy: 'skipped',
+        });
+        expect(report.checks[0].code).toEqual('TIMESTAMP_ERROR');
+      });
+    });
+
+    describe('when the certificate-signed bundle has no verified timestamps', () => {
+      const subject = new Verifier(trustMaterial, { tlogThreshold: 0 });
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      it('reports the certificate chain as failing', () => {
+        const report = subject.diagnose({ ...signedEntity, timestamps: [] });
+        const check = report.checks.find(
+          (c) => c.check === 'certificate-chain'
+        );
+
+        expect(report.verified).toBe(false);
+        expect(check?.status).toBe('fail');
+        expect(check?.code).toBe('TIMESTAMP_ERROR');
+        expect(statuses(report).sct).toBe('skipped');
+      });
+    });
+
+    describe('when the key-signed bundle does not satisfy the policy', () => {
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_PUBLIC_KEY
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      it('reports the policy failure', () => {
+        const report = subject.diagnose(signedEntity, {
+          subjectAlternativeName: 'foo@bar.com',
+        });
+
+        expect(report.verified).toBe(false);
+        expect(statuses(report)).toEqual({
+          timestamps: 'pass',
+          'public-key': 'pass',
+          'certificate-chain': 'skipped',
+          sct: 'skipped',
+          'tlog-body': 'pass',
+          signature: 'pass',
+          policy: 'fail',
+        });
+      });
+    });
+
+    describe('when the public key cannot be found', () => {
+      const subject = new Verifier(toTrustMaterial(trustedRoot));
+      const bundle = bundleFromJSON(
+        bundles.V1.MESSAGE_SIGNATURE.WITH_PUBLIC_KEY
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      it('skips the checks which require the key', () => {
+        const report = subject.diagnose(signedEntity, {
+          subjectAlternativeName: 'foo@bar.com',
+        });
+
+        expect(report.verified).toBe(false);
+        expect(statuses(report)).toEqual({
+          timestamps: 'pass',
+          'public-key': 'fail',
+          'certificate-chain': 'skipped',
+          sct: 'skipped',
+          'tlog-body': 'pass',
+          signature: 'skipped',
+          policy: 'skipped',
+        });
+        expect(report.checks[1].code).toEqual('PUBLIC_KEY_ERROR');
+      });
+    });
+
+    describe('when the bundle has no tlog entries', () => {
+      const subject = new Verifier(trustMaterial, {
+        tlogThreshold: 0,
+        tsaThreshold: 1,
+      });
+      const bundle = bundleFromJSON(
+        bundles.V3.MESSAGE_SIGNATURE.WITH_SIGNING_CERT
+      );
+      const signedEntity = toSignedEntity(bundle, bundles.ARTIFACT);
+
+      it('skips the tlog body check', () => {
+        const report = subject.diagnose(signedEntity);
+
+        expect(report.verified).toBe(true);
+        expect(statuses(report)['tlog-body']).toEqual('skipped');
+      });
+    });
+  });
+
+  describe('#verifyThreshold', () => {
+    // Key used to co-sign the DSSE envelope from the certificate-signed bundle
+    const cosignerKey = nodeCrypto.generateKeyPairSync('ec', {
+      namedCurve: 'prime256v1',
+    });
+
+    const keys = {
+      cosigner: {
+        rawBytes: cosignerKey.publicKey.export({ type: 'spki', format: 'der' }),
+        keyDetails: PublicKeyDetails.PKIX_ECDSA_P256_SHA_256,
+        validFor: { start: new Date(0) },
+      },
+    };
+    const trustMaterial = toTrustMaterial(trustedRoot, keys);
+
+    // The co-signer's bundle carries no tlog entries
+    const subject = new Verifier(trustMaterial, { tlogThreshold: 0 });
+
+    const bundle = bundleFromJSON(bundles.V1.DSSE.WITH_SIGNING_CERT.TLOG_DSSE);
+    assert(bundle.content.$case === 'dsseEnvelope');
+    const envelope = bundle.content.dsseEnvelope;
+
+    const cosign = (env: Envelope, key = cosignerKey.privateKey): Bundle => ({
+      mediaType: 'application/vnd.dev.sigstore.bundle.v0.3+json',
+      verificationMaterial: {
+        content: { $case: 'publicKey', publicKey: { hint: 'cosigner' } },
+        tlogEntries: [],
+        timestampVerificationData: { rfc3161Timestamps: [] },
+      },
+      content: {
+        $case: 'dsseEnvelope',
+        dsseEnvelope: {
+          ...env,
+          signatures: [
+            ...env.signatures,
+            {
+              keyid: 'cosigner',
+              sig: nodeCrypto.sign(
+                'sha256',
+                dsse.preAuthEncoding(env.payloadType, env.payload),
+                key
+              ),
+            },
+          ],
+        },
+      },
+    });
+
+    const signer = toSignedEntity(bundle);
+    const cosigner = toSignedEntity(cosign(envelope));
+
+    const githubIdentity = {
+      extensions: { issuer: 'https://github.com/login/oauth' },
+    };
+
+    describe('when the threshold is met', () => {
+      // The co-signer can only satisfy the second identity, so the
+      // certificate signer must be matched to the first
+      const policy = { threshold: 2, identities: [{}, githubIdentity] };
+
+      it('returns the results for the matched signers', () => {
+        const results = subject.verifyThreshold([cosigner, signer], policy);
+
+        expect(results).toHaveLength(2);
+        expect(results[0].identity).toBeUndefined();
+        expect(results[1].identity?.extensions?.issuer).toEqual(
+          githubIdentity.extensions.issuer
+        );
+      });
+    });
+
+    describe('when a single signer satisfies several identities', () => {
+      const policy = {
+        threshold: 2,
+        identities: [githubIdentity, githubIdentity],
+      };
+
+      it('throws an error', () => {
+        expect(() =>
+          subject.verifyThreshold([signer, cosigner], policy)
+        ).toThrowWithCode(PolicyError, 'SIGNER_THRESHOLD_ERROR');
+      });
+    });
+
+    describe('when the same signer signed more than once', () => {
+      const cosigned = cosign(envelope).content;
+      assert(cosigned.$case === 'dsseEnvelope');
+      const again = toSignedEntity(cosign(cosigned.dsseEnvelope));
+
+      it('counts the signer once', () => {
+        expect(
+          subject.verifyThreshold([cosigner, again], {
+            threshold: 1,
+            identities: [{}, {}],
+          })
+        ).toHaveLength(1);
+
+        expect(() =>
+          subject.verifyThreshold([cosigner, again], {
+            threshold: 2,
+            identities: [{}, {}],
+          })
+        ).toThrowWithCode(PolicyError, 'SIGNER_THRESHOLD_ERROR');
+      });
+    });
+
+    describe('when a co-signed envelope is verified on its own', () => {
+      it('throws an error', () => {
+        expect(() => subject.verify(cosigner)).toThrowWithCode(
+          VerificationError,
+          'SIGNATURE_ERROR'
+        );
+      });
+
+      it('reports the signature check as failed', () => {
+        const report = subject.diagnose(cosigner);
+
+        expect(report.verified).toBe(false);
+        expect(
+          report.checks.find(({ check }) => check === 'signature')
+        ).toEqual(expect.objectContaining({ status: 'fail' }));
+      });
+    });
+
+    describe('when one of the signatures cannot be verified', () => {
+      const invalid = toSignedEntity(
+        cosign(
+          envelope,
+          nodeCrypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+            .privateKey
+        )
+      );
+
+      it('does not count the signer towards the threshold', () => {
+        expect(
+          subject.verifyThreshold([signer, invalid], {
+            threshold: 1,
+            identities: [{}, {}],
+          })
+        ).toHaveLength(1);
+
+        expect(() =>
+          subject.verifyThreshold([signer, invalid], {
+            threshold: 2,
+            identities: [{}, {}],
+          })
+        ).toThrowWithCode(PolicyError, 'SIGNER_THRESHOLD_ERROR');
+      });
+    });
+
+    describe('when the envelopes have different payloads', () => {
+      const other = toSignedEntity(
+        cosign({ ...envelope, payload: Buffer.from('other') })
+      );
+
+      it('throws an error', () => {
+        expect(() =>
+          subject.verifyThreshold([signer, other], {
+            threshold: 1,
+            identities: [{}],
+          })
+        ).toThrowWithCode(VerificationError, 'SIGNATURE_ERROR');
+      });
+    });
+
+    describe('when the same signature is supplied more than once', () => {
+      it('throws an error', () => {
+        expect(() =>
+          subject.verifyThreshold([signer, signer], {
+            threshold: 1,
+            identities: [{}],
+          })
+        ).toThrowWithCode(VerificationError, 'SIGNATURE_ERROR');
+      });
+    });
+
+    describe('when one of the bundles is a message signature', () => {
+      const message = toSignedEntity(
+        bundleFromJSON(bundles.V1.MESSAGE_SIGNATURE.WITH_SIGNING_CERT),
+        bundles.ARTIFACT
+      );
+
+      it('throws an error', () => {
+        expect(() =>
+          subject.verifyThreshold([signer, message], {
+            threshold: 1,
+            identities: [{}],
+          })
+        ).toThrowWithCode(VerificationError, 'SIGNATURE_ERROR');
+      });
+    });
   });
 });
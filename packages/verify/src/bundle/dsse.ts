@@ -40,12 +40,25 @@ export class DSSESignatureContent implements SignatureContent {
     return crypto.verify(this.preAuthEncoding, key, this.signature);
   }
 
+  // Envelopes may carry signatures from several co-signers. Each signer's
+  // bundle contains the verification material for the final signature in the
+  // envelope (the one they added).
   public get signature(): Buffer {
     return this.env.signatures.length > 0
-      ? this.env.signatures[0].sig
+      ? this.env.signatures[this.env.signatures.length - 1].sig
       : Buffer.from('');
   }
 
+  public get signatureCount(): number {
+    return this.env.signatures.length;
+  }
+
+  // Digest of the payload type and payload. Used to confirm that co-signed
+  // bundles all cover the same statement.
+  public get payloadDigest(): Buffer {
+    return crypto.digest('sha256', this.preAuthEncoding);
+  }
+
   // DSSE Pre-Authentication Encoding
   private get preAuthEncoding(): Buffer {
     return dsse.preAuthEncoding(this.env.payloadType, this.env.payload);
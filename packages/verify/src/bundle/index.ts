@@ -14,11 +14,12 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import { Bundle } from '@sigstore/bundle';
-import { RFC3161Timestamp, X509Certificate } from '@sigstore/core';
+import { RFC3161Timestamp, X509Certificate, crypto } from '@sigstore/core';
 import { DSSESignatureContent } from './dsse';
-import { MessageSignatureContent } from './message';
+import { MessageSignatureContent, hashAlgorithm } from './message';
 
 import type {
+  ArtifactDigest,
   SignatureContent,
   SignedEntity,
   Timestamp,
@@ -27,7 +28,7 @@ import type {
 
 export function toSignedEntity(
   bundle: Bundle,
-  artifact?: Buffer
+  artifact?: Buffer | ArtifactDigest
 ): SignedEntity {
   const { tlogEntries, timestampVerificationData } =
     bundle.verificationMaterial;
@@ -55,9 +56,25 @@ export function toSignedEntity(
   };
 }
 
+// Computes the digest of an artifact which is read incrementally (e.g. from a
+// Readable stream) using the hash algorithm of the message digest recorded in
+// the bundle. The result can be supplied to toSignedEntity in place of the
+// artifact so that the artifact never needs to be held in memory in full.
+export async function toArtifactDigest(
+  bundle: Bundle,
+  data: AsyncIterable<Uint8Array | string>
+): Promise<ArtifactDigest> {
+  const algorithm =
+    bundle.content.$case === 'messageSignature'
+      ? hashAlgorithm(bundle.content.messageSignature.messageDigest.algorithm)
+      : 'sha256';
+
+  return { digest: await crypto.digestStream(algorithm, data) };
+}
+
 export function signatureContent(
   bundle: Bundle,
-  artifact?: Buffer
+  artifact?: Buffer | ArtifactDigest
 ): SignatureContent {
   switch (bundle.content.$case) {
     case 'dsseEnvelope':
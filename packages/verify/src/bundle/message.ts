@@ -14,18 +14,26 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import { crypto } from '@sigstore/core';
+import { HashAlgorithm } from '@sigstore/protobuf-specs';
 
 import type { MessageSignature } from '@sigstore/bundle';
-import type { SignatureContent } from '../shared.types';
+import type { ArtifactDigest, SignatureContent } from '../shared.types';
 
 export class MessageSignatureContent implements SignatureContent {
   public readonly signature: Buffer;
   private readonly messageDigest: Buffer;
-  private readonly artifact: Buffer;
+  private readonly digestAlgorithm: string;
+  private readonly artifact: Buffer | ArtifactDigest;
 
-  constructor(messageSignature: MessageSignature, artifact: Buffer) {
+  constructor(
+    messageSignature: MessageSignature,
+    artifact: Buffer | ArtifactDigest
+  ) {
     this.signature = messageSignature.signature;
     this.messageDigest = messageSignature.messageDigest.digest;
+    this.digestAlgorithm = hashAlgorithm(
+      messageSignature.messageDigest.algorithm
+    );
     this.artifact = artifact;
   }
 
@@ -38,6 +46,37 @@ export class MessageSignatureContent implements SignatureContent {
   }
 
   public verifySignature(key: crypto.KeyObject): boolean {
-    return crypto.verify(this.artifact, key, this.signature);
+    if (Buffer.isBuffer(this.artifact)) {
+      // Ed25519 signatures are computed over the message itself, so no hash
+      // algorithm may be specified
+      const hash =
+        key.asymmetricKeyType === 'ed25519' ? undefined : this.digestAlgorithm;
+      return crypto.verify(this.artifact, key, this.signature, hash);
+    }
+
+    // When only the digest of the artifact is available, it must match the
+    // digest recorded in the bundle and the signature is verified against the
+    // digest directly using the hash algorithm recorded in the bundle
+    return (
+      crypto.bufferEqual(this.artifact.digest, this.messageDigest) &&
+      crypto.verifyDigest(
+        this.artifact.digest,
+        key,
+        this.signature,
+        this.digestAlgorithm
+      )
+    );
+  }
+}
+
+// Maps the algorithm of the message digest to the name of the hash function
+export function hashAlgorithm(algorithm: HashAlgorithm): string {
+  switch (algorithm) {
+    case HashAlgorithm.SHA2_384:
+      return 'sha384';
+    case HashAlgorithm.SHA2_512:
+      return 'sha512';
+    default:
+      return 'sha256';
   }
 }
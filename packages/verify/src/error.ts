@@ -33,19 +33,32 @@ class BaseError<T extends string> extends Error {
   }
 }
 
-type VerificationErrorCode =
+export type VerificationErrorCode =
   | 'NOT_IMPLEMENTED_ERROR'
   | 'TLOG_INCLUSION_PROOF_ERROR'
+  | 'TLOG_CONSISTENCY_PROOF_ERROR'
+  | 'TLOG_WITNESS_ERROR'
   | 'TLOG_INCLUSION_PROMISE_ERROR'
   | 'TLOG_MISSING_INCLUSION_ERROR'
   | 'TLOG_BODY_ERROR'
   | 'CERTIFICATE_ERROR'
+  | 'CERTIFICATE_REVOCATION_ERROR'
   | 'PUBLIC_KEY_ERROR'
   | 'SIGNATURE_ERROR'
   | 'TIMESTAMP_ERROR';
 
 export class VerificationError extends BaseError<VerificationErrorCode> {}
 
-type PolicyErrorCode = 'UNTRUSTED_SIGNER_ERROR';
+export type PolicyErrorCode =
+  | 'UNTRUSTED_SIGNER_ERROR'
+  | 'SIGNER_THRESHOLD_ERROR'
+  | 'INVALID_POLICY_ERROR';
 
 export class PolicyError extends BaseError<PolicyErrorCode> {}
+
+export type TrustedRootErrorCode =
+  | 'CERTIFICATE_CHAIN_ERROR'
+  | 'PUBLIC_KEY_ERROR'
+  | 'VALIDITY_PERIOD_ERROR';
+
+export class TrustedRootError extends BaseError<TrustedRootErrorCode> {}
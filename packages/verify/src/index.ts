@@ -14,9 +14,61 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-export { toSignedEntity } from './bundle';
-export { PolicyError, VerificationError } from './error';
-export { KeyFinderFunc, TrustMaterial, toTrustMaterial } from './trust';
-export { Verifier, VerifierOptions } from './verifier';
+export { toArtifactDigest, toSignedEntity } from './bundle';
+export { PolicyError, TrustedRootError, VerificationError } from './error';
+export { FULCIO_EXTENSIONS, getFulcioExtension } from './key';
+export {
+  LogCheckpoint,
+  MemoryCheckpointStore,
+  SignedNote,
+  parseWitnessKey,
+  verifySignedNote,
+} from './timestamp';
+export {
+  CertAuthority,
+  KeyFinderFunc,
+  TLogAuthority,
+  TrustMaterial,
+  TrustedRootBuilder,
+  toTrustMaterial,
+} from './trust';
+export {
+  VerificationCheck,
+  VerificationCheckName,
+  VerificationReport,
+  VerificationResult,
+  Verifier,
+  VerifierOptions,
+} from './verifier';
 
-export type { SignedEntity, Signer, VerificationPolicy } from './shared.types';
+export type {
+  PolicyErrorCode,
+  TrustedRootErrorCode,
+  VerificationErrorCode,
+} from './error';
+export type { FulcioExtension, RevocationMode } from './key';
+export type { CertificateChainVerificationResult } from './key/certificate';
+export type {
+  CheckpointStore,
+  ConsistencyProofFunc,
+  TimestampVerificationResult,
+  TLogClient,
+  TLogSignature,
+  WitnessKey,
+} from './timestamp';
+export type {
+  CertificateAuthorityOptions,
+  TransparencyLogOptions,
+  ValidityPeriod,
+} from './trust';
+export type {
+  ArtifactDigest,
+  CertificateExtensionName,
+  CertificateExtensions,
+  CertificateIdentity,
+  SignedEntity,
+  Signer,
+  ThresholdPolicy,
+  ValueMatcher,
+  VerificationPolicy,
+} from './shared.types';
@@ -16,13 +16,38 @@ limitations under the License.
 import { X509Certificate } from '@sigstore/core';
 import { VerificationError } from '../error';
 import { filterCertAuthorities } from '../trust';
+import { verifyNameConstraints } from './constraints';
+import { isRevocationError, verifyRevocation } from './revocation';
 
 import { CertAuthority } from '../trust';
+import type { RevocationPolicy } from './revocation';
+
+const OID_EKU_CODE_SIGNING = '1.3.6.1.5.5.7.3.3';
+const OID_EKU_ANY = '2.5.29.37.0';
+
+// Extensions which are processed during path validation and may therefore be
+// marked as critical: key usage, subject alt name, basic constraints, name
+// constraints and extended key usage
+const SUPPORTED_CRITICAL_EXTENSIONS = [
+  '2.5.29.15',
+  '2.5.29.17',
+  '2.5.29.19',
+  '2.5.29.30',
+  '2.5.29.37',
+];
+
+export type CertificateChainVerificationResult = {
+  // The trusted CA to which the leaf certificate was chained
+  certAuthority: CertAuthority;
+  // The verified certificate path, ordered from leaf to root
+  path: X509Certificate[];
+};
 
 export function verifyCertificateChain(
   leaf: X509Certificate,
-  certificateAuthorities: CertAuthority[]
-): X509Certificate[] {
+  certificateAuthorities: CertAuthority[],
+  revocationPolicy?: RevocationPolicy
+): CertificateChainVerificationResult {
   // Filter list of trusted CAs to those which are valid for the given
   // leaf certificate.
   const cas = filterCertAuthorities(certificateAuthorities, {
@@ -32,18 +57,30 @@ export function verifyCertificateChain(
 
   /* eslint-disable-next-line @typescript-eslint/no-explicit-any */
   let error: any;
+  let revocationError: VerificationError | undefined;
   for (const ca of cas) {
     try {
       const verifier = new CertificateChainVerifier({
         trustedCerts: ca.certChain,
         untrustedCert: leaf,
+        extendedKeyUsage: OID_EKU_CODE_SIGNING,
+        revocationPolicy,
       });
-      return verifier.verify();
+      return { certAuthority: ca, path: verifier.verify() };
     } catch (err) {
       error = err;
+      if (isRevocationError(err)) {
+        revocationError = err;
+      }
     }
   }
 
+  // A revoked certificate is reported as-is so that the specific error code
+  // is not masked
+  if (revocationError) {
+    throw revocationError;
+  }
+
   // If we failed to verify the certificate chain for all of the trusted
   // CAs, throw the last error we encountered.
   throw new VerificationError({
@@ -56,16 +93,26 @@ export function verifyCertificateChain(
 interface CertificateChainVerifierOptions {
   trustedCerts: X509Certificate[];
   untrustedCert: X509Certificate;
+  // When supplied, the leaf certificate must carry an extended key usage
+  // extension which includes this key purpose
+  extendedKeyUsage?: string;
+  // When supplied, each certificate in the path is checked against the CRLs
+  // published by its issuer
+  revocationPolicy?: RevocationPolicy;
 }
 
 export class CertificateChainVerifier {
   private untrustedCert: X509Certificate;
   private trustedCerts: X509Certificate[];
   private localCerts: X509Certificate[];
+  private extendedKeyUsage?: string;
+  private revocationPolicy?: RevocationPolicy;
 
   constructor(opts: CertificateChainVerifierOptions) {
     this.untrustedCert = opts.untrustedCert;
     this.trustedCerts = opts.trustedCerts;
+    this.extendedKeyUsage = opts.extendedKeyUsage;
+    this.revocationPolicy = opts.revocationPolicy;
     this.localCerts = dedupeCertificates([
       ...opts.trustedCerts,
       opts.untrustedCert,
@@ -79,6 +126,11 @@ export class CertificateChainVerifier {
     // Perform validation checks on each certificate in the path
     this.checkPath(certificatePath);
 
+    // Check that none of the certificates in the path have been revoked
+    if (this.revocationPolicy) {
+      verifyRevocation(certificatePath, this.revocationPolicy);
+    }
+
     // Return verified certificate path
     return certificatePath;
   }
@@ -252,6 +304,64 @@ export class CertificateChainVerifier {
         }
       }
     }
+
+    // Reject certificates with critical extensions which can't be processed
+    for (const cert of path) {
+      const unsupported = cert.extensions
+        .map((ext) => ext.subs[0].toOID())
+        .find(
+          (oid) =>
+            cert.extension(oid)?.critical &&
+            !SUPPORTED_CRITICAL_EXTENSIONS.includes(oid)
+        );
+
+      if (unsupported) {
+        throw new VerificationError({
+          code: 'CERTIFICATE_ERROR',
+          message: `unsupported critical extension: ${unsupported}`,
+        });
+      }
+    }
+
+    // A trusted certificate on its own is not subject to key purpose checks
+    if (this.extendedKeyUsage && path.length > 1) {
+      this.checkExtendedKeyUsage(path, this.extendedKeyUsage);
+    }
+
+    // Check that the names in each certificate are permitted by the CAs
+    verifyNameConstraints(path);
+  }
+
+  // The leaf must be valid for the key purpose. Any CA which restricts its own
+  // key purposes must also permit it.
+  private checkExtendedKeyUsage(
+    path: X509Certificate[],
+    purpose: string
+  ): void {
+    const [leaf, ...cas] = path;
+
+    if (!leaf.extExtendedKeyUsage?.keyPurposeIDs.includes(purpose)) {
+      throw new VerificationError({
+        code: 'CERTIFICATE_ERROR',
+        message: `certificate is not valid for key purpose: ${purpose}`,
+      });
+    }
+
+    const permitted = cas.every((cert) => {
+      const purposes = cert.extExtendedKeyUsage?.keyPurposeIDs;
+      return (
+        !purposes ||
+        purposes.includes(purpose) ||
+        purposes.includes(OID_EKU_ANY)
+      );
+    });
+
+    if (!permitted) {
+      throw new VerificationError({
+        code: 'CERTIFICATE_ERROR',
+        message: `CA certificate is not valid for key purpose: ${purpose}`,
+      });
+    }
   }
 }
 
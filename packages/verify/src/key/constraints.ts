@@ -0,0 +1,165 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { VerificationError } from '../error';
+
+import type { GeneralName, X509Certificate } from '@sigstore/core';
+
+// Checks the names of each certificate in the path (ordered from leaf to root)
+// against the name constraints of the CAs which follow it.
+// https://www.rfc-editor.org/rfc/rfc5280#section-4.2.1.10
+export function verifyNameConstraints(path: X509Certificate[]): void {
+  for (let i = 1; i < path.length; i++) {
+    const constraints = path[i].extNameConstraints;
+    if (!constraints) {
+      continue;
+    }
+
+    const permitted = constraints.permittedSubtrees;
+    const excluded = constraints.excludedSubtrees;
+
+    // Constraints apply to all of the certificates issued beneath the CA
+    for (const cert of path.slice(0, i)) {
+      // Self-issued intermediates are exempt from the constraints
+      if (cert.isCA && cert.subject.equals(cert.issuer)) {
+        continue;
+      }
+
+      for (const name of certificateNames(cert)) {
+        checkName(name, permitted, excluded);
+      }
+    }
+  }
+}
+
+function checkName(
+  name: GeneralName,
+  permitted: GeneralName[],
+  excluded: GeneralName[]
+): void {
+  if (excluded.some((constraint) => matches(name, constraint))) {
+    throw new VerificationError({
+      code: 'CERTIFICATE_ERROR',
+      message: `${name.type} is excluded by name constraints`,
+    });
+  }
+
+  // Names are only restricted by permitted subtrees of the same type
+  const permittedOfType = permitted.filter((c) => c.type === name.type);
+  if (
+    permittedOfType.length > 0 &&
+    !permittedOfType.some((constraint) => matches(name, constraint))
+  ) {
+    throw new VerificationError({
+      code: 'CERTIFICATE_ERROR',
+      message: `${name.type} is not permitted by name constraints`,
+    });
+  }
+}
+
+// Returns the names subject to name constraints: the subject (if not empty)
+// and each of the subject alternative names
+function certificateNames(cert: X509Certificate): GeneralName[] {
+  const names: GeneralName[] = [];
+
+  if (cert.subject.length > 0) {
+    names.push({ type: 'directoryName', value: cert.subject });
+  }
+
+  return names.concat(cert.extSubjectAltName?.names || []);
+}
+
+function matches(name: GeneralName, constraint: GeneralName): boolean {
+  if (name.type !== constraint.type) {
+    return false;
+  }
+
+  switch (name.type) {
+    case 'dNSName':
+      return matchesDNSName(toString(name), toString(constraint));
+    case 'rfc822Name':
+      return matchesEmail(toString(name), toString(constraint));
+    case 'uniformResourceIdentifier':
+      return matchesURI(toString(name), toString(constraint));
+    case 'iPAddress':
+      return matchesIPAddress(name.value, constraint.value);
+    case 'directoryName':
+      // The constraint must be a prefix of the name. As both are sequences of
+      // DER-encoded RDNs, a byte-wise prefix comparison is sufficient.
+      return name.value
+        .subarray(0, constraint.value.length)
+        .equals(constraint.value);
+    default:
+      // Constraints on other name types can't be processed, so any name of
+      // the constrained type must be rejected
+      throw new VerificationError({
+        code: 'CERTIFICATE_ERROR',
+        message: `unsupported name constraint type: ${name.type}`,
+      });
+  }
+}
+
+// A DNS name matches if it is the constraint itself or a subdomain of it. An
+// empty constraint matches all names.
+function matchesDNSName(name: string, constraint: string): boolean {
+  return (
+    constraint === '' || name === constraint || name.endsWith(`.${constraint}`)
+  );
+}
+
+// The constraint is either a complete mailbox, a host (matching all mailboxes
+// on that host), or a domain with a leading period (matching all mailboxes on
+// hosts in the domain)
+function matchesEmail(name: string, constraint: string): boolean {
+  if (constraint.includes('@')) {
+    return name === constraint;
+  }
+
+  const host = name.slice(name.lastIndexOf('@') + 1);
+  return constraint.startsWith('.')
+    ? host.endsWith(constraint)
+    : host === constraint;
+}
+
+// The constraint applies to the host portion of the URI. A constraint with a
+// leading period matches all hosts in the domain.
+function matchesURI(name: string, constraint: string): boolean {
+  let host: string;
+  try {
+    host = new URL(name).hostname.toLowerCase();
+  } catch (e) {
+    return false;
+  }
+
+  return constraint.startsWith('.')
+    ? host.endsWith(constraint)
+    : host === constraint;
+}
+
+// The constraint is an address followed by a subnet mask of the same length
+function matchesIPAddress(name: Buffer, constraint: Buffer): boolean {
+  if (constraint.length !== name.length * 2) {
+    return false;
+  }
+
+  const address = constraint.subarray(0, name.length);
+  const mask = constraint.subarray(name.length);
+  return name.every((byte, i) => (byte & mask[i]) === (address[i] & mask[i]));
+}
+
+// DNS names are case-insensitive
+function toString(name: GeneralName): string {
+  return name.value.toString('ascii').toLowerCase();
+}
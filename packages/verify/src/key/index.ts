@@ -15,18 +15,69 @@ limitations under the License.
 */
 import { X509Certificate, crypto } from '@sigstore/core';
 import { VerificationError } from '../error';
-import { verifyCertificateChain } from './certificate';
+import {
+  CertificateChainVerificationResult,
+  verifyCertificateChain,
+} from './certificate';
 import { VerifiedSCTProvider, verifySCTs } from './sct';
 
-import type { CertificateIdentity, Signer } from '../shared.types';
+import type {
+  CertificateExtensionName,
+  CertificateExtensions,
+  CertificateIdentity,
+  Signer,
+} from '../shared.types';
 import type { TrustMaterial } from '../trust';
+import type { RevocationPolicy } from './revocation';
+
+export type { RevocationMode, RevocationPolicy } from './revocation';
+
+// Fulcio certificate extensions. Legacy extensions (1.3.6.1.4.1.57264.1.1 -
+// 1.3.6.1.4.1.57264.1.6) contain the raw string value, while the newer
+// extensions contain a DER-encoded UTF8String.
+// https://github.com/sigstore/fulcio/blob/main/docs/oid-info.md
+export type FulcioExtension = {
+  name: CertificateExtensionName;
+  oid: string;
+  legacy?: boolean;
+};
 
-const OID_FULCIO_ISSUER_V1 = '1.3.6.1.4.1.57264.1.1';
-const OID_FULCIO_ISSUER_V2 = '1.3.6.1.4.1.57264.1.8';
+export const FULCIO_EXTENSIONS: FulcioExtension[] = [
+  // The V2 issuer extension takes precedence over the legacy V1 extension
+  { name: 'issuer', oid: '1.3.6.1.4.1.57264.1.8' },
+  { name: 'issuer', oid: '1.3.6.1.4.1.57264.1.1', legacy: true },
+  { name: 'githubWorkflowTrigger', oid: '1.3.6.1.4.1.57264.1.2', legacy: true },
+  { name: 'githubWorkflowSHA', oid: '1.3.6.1.4.1.57264.1.3', legacy: true },
+  { name: 'githubWorkflowName', oid: '1.3.6.1.4.1.57264.1.4', legacy: true },
+  {
+    name: 'githubWorkflowRepository',
+    oid: '1.3.6.1.4.1.57264.1.5',
+    legacy: true,
+  },
+  { name: 'githubWorkflowRef', oid: '1.3.6.1.4.1.57264.1.6', legacy: true },
+  { name: 'buildSignerURI', oid: '1.3.6.1.4.1.57264.1.9' },
+  { name: 'buildSignerDigest', oid: '1.3.6.1.4.1.57264.1.10' },
+  { name: 'runnerEnvironment', oid: '1.3.6.1.4.1.57264.1.11' },
+  { name: 'sourceRepositoryURI', oid: '1.3.6.1.4.1.57264.1.12' },
+  { name: 'sourceRepositoryDigest', oid: '1.3.6.1.4.1.57264.1.13' },
+  { name: 'sourceRepositoryRef', oid: '1.3.6.1.4.1.57264.1.14' },
+  { name: 'sourceRepositoryIdentifier', oid: '1.3.6.1.4.1.57264.1.15' },
+  { name: 'sourceRepositoryOwnerURI', oid: '1.3.6.1.4.1.57264.1.16' },
+  { name: 'sourceRepositoryOwnerIdentifier', oid: '1.3.6.1.4.1.57264.1.17' },
+  { name: 'buildConfigURI', oid: '1.3.6.1.4.1.57264.1.18' },
+  { name: 'buildConfigDigest', oid: '1.3.6.1.4.1.57264.1.19' },
+  { name: 'buildTrigger', oid: '1.3.6.1.4.1.57264.1.20' },
+  { name: 'runInvocationURI', oid: '1.3.6.1.4.1.57264.1.21' },
+  {
+    name: 'sourceRepositoryVisibilityAtSigning',
+    oid: '1.3.6.1.4.1.57264.1.22',
+  },
+];
 
 export type CertificateVerificationResult = {
   signer: Signer;
   scts: VerifiedSCTProvider[];
+  certificateChain: CertificateChainVerificationResult;
 };
 
 export function verifyPublicKey(
@@ -51,17 +102,42 @@ export function verifyPublicKey(
 export function verifyCertificate(
   leaf: X509Certificate,
   timestamps: Date[],
-  trustMaterial: TrustMaterial
+  trustMaterial: TrustMaterial,
+  revocationPolicy?: RevocationPolicy
 ): CertificateVerificationResult {
+  const certificateChain = verifyCertificatePath(
+    leaf,
+    timestamps,
+    trustMaterial,
+    revocationPolicy
+  );
+  const path = certificateChain.path;
+
+  return {
+    scts: verifySCTs(path[0], path[1], trustMaterial.ctlogs),
+    signer: getSigner(path[0]),
+    certificateChain,
+  };
+}
+
+// Checks that the leaf certificate chains to a trusted CA and that all of the
+// certificates in the path are valid for all of the supplied timestamps.
+export function verifyCertificatePath(
+  leaf: X509Certificate,
+  timestamps: Date[],
+  trustMaterial: TrustMaterial,
+  revocationPolicy?: RevocationPolicy
+): CertificateChainVerificationResult {
   // Check that leaf certificate chains to a trusted CA
-  const path = verifyCertificateChain(
+  const certificateChain = verifyCertificateChain(
     leaf,
-    trustMaterial.certificateAuthorities
+    trustMaterial.certificateAuthorities,
+    revocationPolicy
   );
 
   // Check that ALL certificates are valid for ALL of the timestamps
   const validForDate = timestamps.every((timestamp) =>
-    path.every((cert) => cert.validForDate(timestamp))
+    certificateChain.path.every((cert) => cert.validForDate(timestamp))
   );
 
   if (!validForDate) {
@@ -71,26 +147,14 @@ export function verifyCertificate(
     });
   }
 
-  return {
-    scts: verifySCTs(path[0], path[1], trustMaterial.ctlogs),
-    signer: getSigner(path[0]),
-  };
+  return certificateChain;
 }
 
-function getSigner(cert: X509Certificate): Signer {
-  let issuer: string | undefined;
-  const issuerExtension = cert.extension(OID_FULCIO_ISSUER_V2);
-
-  /* istanbul ignore next */
-  if (issuerExtension) {
-    issuer = issuerExtension.valueObj.subs?.[0]?.value.toString('ascii');
-  } else {
-    issuer = cert.extension(OID_FULCIO_ISSUER_V1)?.value.toString('ascii');
-  }
-
+export function getSigner(cert: X509Certificate): Signer {
   const identity: CertificateIdentity = {
-    extensions: { issuer },
+    extensions: getExtensions(cert),
     subjectAlternativeName: cert.subjectAltName,
+    oids: getOIDs(cert),
   };
 
   return {
@@ -98,3 +162,55 @@ function getSigner(cert: X509Certificate): Signer {
     identity,
   };
 }
+
+// Extracts the values of all the Fulcio extensions present in the certificate
+function getExtensions(cert: X509Certificate): CertificateExtensions {
+  const extensions: CertificateExtensions = {};
+
+  for (const { name, oid } of FULCIO_EXTENSIONS) {
+    // Skip extensions which have already been populated from a higher
+    // precedence OID
+    if (extensions[name] !== undefined) {
+      continue;
+    }
+
+    const value = getFulcioExtension(cert, oid);
+    if (value !== undefined) {
+      extensions[name] = value;
+    }
+  }
+
+  return extensions;
+}
+
+// Returns the decoded value of the Fulcio extension with the given OID, or
+// undefined if the certificate doesn't carry it. OIDs missing from
+// FULCIO_EXTENSIONS are decoded in the format of the newer extensions.
+export function getFulcioExtension(
+  cert: X509Certificate,
+  oid: string
+): string | undefined {
+  const ext = cert.extension(oid);
+  if (!ext) {
+    return undefined;
+  }
+
+  const legacy = FULCIO_EXTENSIONS.find((e) => e.oid === oid)?.legacy;
+  return legacy
+    ? ext.value.toString('ascii')
+    : ext.valueObj.subs[0]?.value.toString('utf8');
+}
+
+// Collects the raw values of all the extensions in the certificate
+function getOIDs(cert: X509Certificate): Record<string, Buffer> {
+  const oids: Record<string, Buffer> = {};
+
+  for (const ext of cert.extensions) {
+    // The OID is the first element of the extension sequence and the value is
+    // the last element
+    const oid = ext.subs[0].toOID();
+    oids[oid] = ext.subs[ext.subs.length - 1].value;
+  }
+
+  return oids;
+}
@@ -0,0 +1,97 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { VerificationError } from '../error';
+
+import type { X509CRL, X509Certificate } from '@sigstore/core';
+
+// CRL extensions which limit a CRL to a subset of the issuer's revocations
+// https://www.rfc-editor.org/rfc/rfc5280#section-5.2
+const OID_DELTA_CRL_INDICATOR = '2.5.29.27';
+const OID_ISSUING_DISTRIBUTION_POINT = '2.5.29.28';
+
+// Determines how a certificate is treated when there is no current CRL from
+// its issuer. With "soft-fail" the certificate is accepted, while with
+// "hard-fail" it is rejected. Certificates which appear in a CRL are always
+// rejected.
+export type RevocationMode = 'soft-fail' | 'hard-fail';
+
+export type RevocationPolicy = {
+  crls: X509CRL[];
+  mode: RevocationMode;
+};
+
+// Checks each certificate in the path (ordered from leaf to root) against the
+// CRLs published by its issuer. The root is a trust anchor and is not checked.
+export function verifyRevocation(
+  path: X509Certificate[],
+  policy: RevocationPolicy,
+  date: Date = new Date()
+): void {
+  for (let i = 0; i < path.length - 1; i++) {
+    const cert = path[i];
+    const issuer = path[i + 1];
+
+    // Only consider complete CRLs which are current and were signed by an
+    // issuer permitted to sign CRLs
+    const crls = policy.crls.filter(
+      (crl) =>
+        crl.issuer.equals(issuer.subject) &&
+        crl.validForDate(date) &&
+        isCompleteCRL(crl) &&
+        !!issuer.extKeyUsage?.crlSign &&
+        crl.verify(issuer)
+    );
+
+    if (crls.some((crl) => crl.isRevoked(cert))) {
+      throw new VerificationError({
+        code: 'CERTIFICATE_REVOCATION_ERROR',
+        message: `certificate has been revoked: ${serial(cert)}`,
+      });
+    }
+
+    if (crls.length === 0 && policy.mode === 'hard-fail') {
+      throw new VerificationError({
+        code: 'CERTIFICATE_REVOCATION_ERROR',
+        message: `no current CRL for certificate: ${serial(cert)}`,
+      });
+    }
+  }
+}
+
+export function isRevocationError(err: unknown): err is VerificationError {
+  return (
+    err instanceof VerificationError &&
+    err.code === 'CERTIFICATE_REVOCATION_ERROR'
+  );
+}
+
+// Delta CRLs and CRLs scoped by an issuing distribution point list only some
+// of the issuer's revocations, so they can't show that a certificate has not
+// been revoked. None of the other critical CRL extensions are supported, and
+// a CRL with an unsupported critical extension must not be used.
+// https://www.rfc-editor.org/rfc/rfc5280#section-6.3.3
+function isCompleteCRL(crl: X509CRL): boolean {
+  return crl.extensions.every(
+    (ext) =>
+      !ext.critical &&
+      ext.oid !== OID_DELTA_CRL_INDICATOR &&
+      ext.oid !== OID_ISSUING_DISTRIBUTION_POINT
+  );
+}
+
+function serial(cert: X509Certificate): string {
+  return cert.serialNumber.toString('hex');
+}
@@ -1,29 +1,246 @@
+import { ASN1Obj } from '@sigstore/core';
 import { PolicyError } from './error';
-import { CertificateExtensions } from './shared.types';
+
+import type {
+  CertificateExtensions,
+  CertificateExtensionsPolicy,
+  CertificateIdentity,
+  ValueMatcher,
+  VerificationPolicy,
+} from './shared.types';
+
+// Evaluates the policy against the signer's identity. All of the criteria
+// specified at each level of the policy must be satisfied.
+export function verifyCertificateIdentity(
+  policy: VerificationPolicy,
+  identity: CertificateIdentity
+): void {
+  // Check the subject alternative name of the signer matches the policy
+  if (policy.subjectAlternativeName) {
+    verifySubjectAlternativeName(
+      policy.subjectAlternativeName,
+      identity.subjectAlternativeName
+    );
+  }
+
+  // Check that the extensions of the signer match the policy
+  if (policy.extensions) {
+    verifyExtensions(policy.extensions, identity.extensions);
+  }
+
+  // Check that the arbitrary certificate extensions match the policy
+  if (policy.oids) {
+    verifyOIDs(policy.oids, identity.oids);
+  }
+
+  // Every one of the "allOf" policies must be satisfied
+  policy.allOf?.forEach((p) => verifyCertificateIdentity(p, identity));
+
+  // At least one of the "anyOf" policies must be satisfied
+  if (policy.anyOf && policy.anyOf.length > 0) {
+    const errors: PolicyError[] = [];
+    const satisfied = policy.anyOf.some((p) => {
+      try {
+        verifyCertificateIdentity(p, identity);
+        return true;
+      } catch (err) {
+        /* istanbul ignore if */
+        if (!(err instanceof PolicyError)) {
+          throw err;
+        }
+        errors.push(err);
+        return false;
+      }
+    });
+
+    if (!satisfied) {
+      throw new PolicyError({
+        code: 'UNTRUSTED_SIGNER_ERROR',
+        message: `certificate identity error - none of the alternatives matched: ${errors.map((e) => e.message).join('; ')}`,
+        cause: errors,
+      });
+    }
+  }
+}
 
 export function verifySubjectAlternativeName(
-  policyIdentity: string,
+  policyIdentity: ValueMatcher,
   signerIdentity: string | undefined
 ): void {
-  if (signerIdentity === undefined || !signerIdentity.match(policyIdentity)) {
+  // For backwards compatibility, a bare string is treated as a regular
+  // expression when matching the SAN
+  const matcher =
+    typeof policyIdentity === 'string'
+      ? { regex: policyIdentity }
+      : policyIdentity;
+
+  if (!matchValue(matcher, signerIdentity)) {
     throw new PolicyError({
       code: 'UNTRUSTED_SIGNER_ERROR',
-      message: `certificate identity error - expected ${policyIdentity}, got ${signerIdentity}`,
+      message: `certificate identity error - expected ${describeMatcher(policyIdentity)}, got ${signerIdentity}`,
     });
   }
 }
 
 export function verifyExtensions(
-  policyExtensions: CertificateExtensions,
+  policyExtensions: CertificateExtensionsPolicy,
   signerExtensions: CertificateExtensions = {}
 ): void {
   let key: keyof typeof policyExtensions;
   for (key in policyExtensions) {
-    if (signerExtensions[key] !== policyExtensions[key]) {
+    const matcher = policyExtensions[key];
+    const value = signerExtensions[key];
+
+    /* istanbul ignore if */
+    if (matcher === undefined) {
+      continue;
+    }
+
+    if (!matchValue(matcher, value)) {
+      throw new PolicyError({
+        code: 'UNTRUSTED_SIGNER_ERROR',
+        message: `invalid certificate extension - expected ${key}=${describeMatcher(matcher)}, got ${key}=${value}`,
+      });
+    }
+  }
+}
+
+export function verifyOIDs(
+  policyOIDs: Record<string, ValueMatcher>,
+  signerOIDs: Record<string, Buffer> = {}
+): void {
+  // Only the signer's own OIDs are considered, so keys like "constructor"
+  // don't resolve through the prototype chain
+  const signer = new Map(Object.entries(signerOIDs));
+
+  for (const [oid, matcher] of Object.entries(policyOIDs)) {
+    const raw = signer.get(oid);
+    const value = raw && decodeExtensionValue(raw);
+
+    if (!matchValue(matcher, value)) {
       throw new PolicyError({
         code: 'UNTRUSTED_SIGNER_ERROR',
-        message: `invalid certificate extension - expected ${key}=${policyExtensions[key]}, got ${key}=${signerExtensions[key]}`,
+        message: `invalid certificate extension - expected ${oid}=${describeMatcher(matcher)}, got ${oid}=${value}`,
       });
     }
   }
 }
+
+// Decodes the value of a certificate extension. Newer extensions contain a
+// DER-encoded UTF8String while legacy extensions contain the raw string value.
+function decodeExtensionValue(value: Buffer): string {
+  try {
+    const obj = ASN1Obj.parseBuffer(value);
+
+    // Only treat the value as DER-encoded if it is a UTF8String which spans
+    // the entire extension value
+    if (obj.tag.isUTF8String() && obj.toDER().length === value.length) {
+      return obj.value.toString('utf8');
+    }
+  } catch (e) {
+    // Not DER-encoded, fall through to treat as a raw value
+  }
+
+  return value.toString('utf8');
+}
+
+// Tests the value against the matcher. A bare string is an exact match. A
+// missing value never matches. Throws a PolicyError if the matcher is
+// malformed.
+function matchValue(matcher: ValueMatcher, value: string | undefined): boolean {
+  validateMatcher(matcher);
+
+  if (value === undefined) {
+    return false;
+  }
+
+  if (typeof matcher === 'string') {
+    return matcher === value;
+  }
+
+  if ('exact' in matcher) {
+    return matcher.exact === value;
+  }
+
+  if ('regex' in matcher) {
+    return toRegExp(matcher.regex).test(value);
+  }
+
+  return globToRegExp(matcher.glob).test(value);
+}
+
+// Policies may be constructed from untyped input (e.g. parsed JSON), so the
+// shape of each matcher is checked before it is used
+function validateMatcher(matcher: ValueMatcher): void {
+  if (typeof matcher === 'string') {
+    return;
+  }
+
+  const valid =
+    typeof matcher === 'object' &&
+    matcher !== null &&
+    (('exact' in matcher && typeof matcher.exact === 'string') ||
+      ('regex' in matcher &&
+        (typeof matcher.regex === 'string' ||
+          matcher.regex instanceof RegExp)) ||
+      ('glob' in matcher && typeof matcher.glob === 'string'));
+
+  if (!valid) {
+    throw new PolicyError({
+      code: 'INVALID_POLICY_ERROR',
+      message: `invalid value matcher: ${JSON.stringify(matcher)}`,
+    });
+  }
+}
+
+// The global and sticky flags make RegExp.test() stateful (it resumes from
+// lastIndex), so the expression is rebuilt without them
+function toRegExp(regex: string | RegExp): RegExp {
+  return typeof regex === 'string'
+    ? new RegExp(regex)
+    : new RegExp(regex.source, regex.flags.replace(/[gy]/g, ''));
+}
+
+function describeMatcher(matcher: ValueMatcher): string {
+  if (typeof matcher === 'string') {
+    return matcher;
+  }
+
+  if ('exact' in matcher) {
+    return matcher.exact;
+  }
+
+  if ('regex' in matcher) {
+    return `regex(${matcher.regex.toString()})`;
+  }
+
+  return `glob(${matcher.glob})`;
+}
+
+// Converts a glob pattern into an anchored regular expression. Supports the
+// following wildcards:
+//   - "**" matches any sequence of characters
+//   - "*" matches any sequence of characters except "/"
+//   - "?" matches any single character except "/"
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        pattern += '.*';
+        i++;
+      } else {
+        pattern += '[^/]*';
+      }
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
@@ -16,7 +16,31 @@ limitations under the License.
 import type { TransparencyLogEntry } from '@sigstore/bundle';
 import type { RFC3161Timestamp, X509Certificate, crypto } from '@sigstore/core';
 
-export type CertificateExtensionName = 'issuer';
+// Names of the Fulcio certificate extensions which can be extracted from a
+// signing certificate.
+// https://github.com/sigstore/fulcio/blob/main/docs/oid-info.md
+export type CertificateExtensionName =
+  | 'issuer'
+  | 'githubWorkflowTrigger'
+  | 'githubWorkflowSHA'
+  | 'githubWorkflowName'
+  | 'githubWorkflowRepository'
+  | 'githubWorkflowRef'
+  | 'buildSignerURI'
+  | 'buildSignerDigest'
+  | 'runnerEnvironment'
+  | 'sourceRepositoryURI'
+  | 'sourceRepositoryDigest'
+  | 'sourceRepositoryRef'
+  | 'sourceRepositoryIdentifier'
+  | 'sourceRepositoryOwnerURI'
+  | 'sourceRepositoryOwnerIdentifier'
+  | 'buildConfigURI'
+  | 'buildConfigDigest'
+  | 'buildTrigger'
+  | 'runInvocationURI'
+  | 'sourceRepositoryVisibilityAtSigning';
+
 export type CertificateExtensions = {
   [key in CertificateExtensionName]?: string;
 };
@@ -24,9 +48,41 @@ export type CertificateExtensions = {
 export type CertificateIdentity = {
   subjectAlternativeName?: string;
   extensions?: CertificateExtensions;
+  // Raw values of all the extensions in the certificate, keyed by OID
+  oids?: Record<string, Buffer>;
 };
 
-export type VerificationPolicy = CertificateIdentity;
+// A matcher for a single identity value. A bare string is treated as an exact
+// match for extension values and as a regular expression for the subject
+// alternative name (for backwards compatibility).
+export type ValueMatcher =
+  | string
+  | { exact: string }
+  | { regex: string | RegExp }
+  | { glob: string };
+
+export type CertificateExtensionsPolicy = {
+  [key in CertificateExtensionName]?: ValueMatcher;
+};
+
+// All of the criteria specified in a policy must be satisfied. Policies can be
+// composed with "allOf" (every sub-policy must be satisfied) and "anyOf" (at
+// least one sub-policy must be satisfied).
+export type VerificationPolicy = {
+  subjectAlternativeName?: ValueMatcher;
+  extensions?: CertificateExtensionsPolicy;
+  // Matchers for arbitrary certificate extensions, keyed by OID
+  oids?: Record<string, ValueMatcher>;
+  allOf?: VerificationPolicy[];
+  anyOf?: VerificationPolicy[];
+};
+
+// Policy for co-signed DSSE envelopes. At least "threshold" of the identities
+// must each be satisfied by a different signer of the envelope.
+export type ThresholdPolicy = {
+  threshold: number;
+  identities: VerificationPolicy[];
+};
 
 export type Signer = {
   key: crypto.KeyObject;
@@ -60,6 +116,12 @@ export type SignatureContent = {
   verifySignature(key: crypto.KeyObject): boolean;
 };
 
+// The digest of an artifact. May be supplied in place of the artifact itself
+// when verifying a message signature bundle.
+export type ArtifactDigest = {
+  digest: Buffer;
+};
+
 export type TimestampProvider = {
   timestamps: Timestamp[];
 };
@@ -16,8 +16,10 @@ limitations under the License.
 import { crypto } from '@sigstore/core';
 import { VerificationError } from '../error';
 import { filterTLogAuthorities, TLogAuthority } from '../trust';
+import { countWitnessSignatures, findWitness } from './witness';
 
 import type { TLogEntryWithInclusionProof } from '@sigstore/bundle';
+import type { WitnessKey, WitnessPolicy } from './witness';
 
 // Separator between the note and the signatures in a checkpoint
 const CHECKPOINT_SEPARATOR = '\n\n';
@@ -31,41 +33,71 @@ const CHECKPOINT_SEPARATOR = '\n\n';
 //   associated public key followed by the signature bytes.
 const SIGNATURE_REGEX = /\u2014 (\S+) (\S+)\n/g;
 
-interface TLogSignature {
+export interface TLogSignature {
   name: string;
   keyHint: Buffer;
   signature: Buffer;
 }
 
-// Verifies the checkpoint value in the given tlog entry. There are two steps
-// to the verification:
-// 1. Verify that all signatures in the checkpoint can be verified against a
-//    trusted public key
-// 2. Verify that the root hash in the checkpoint matches the root hash in the
+// Verifies the checkpoint value in the given tlog entry. There are three
+// steps to the verification:
+// 1. Verify that the checkpoint was signed by a trusted log and that any
+//    signatures from known logs or witnesses are valid
+// 2. Verify that the checkpoint was cosigned by the required number of
+//    trusted witnesses (if a witness policy is supplied)
+// 3. Verify that the root hash in the checkpoint matches the root hash in the
 //    inclusion proof
 // See: https://github.com/transparency-dev/formats/blob/main/log/README.md
+//
+// Rekor v2 entries have no integrated time, so the trusted timestamps (from
+// a TSA) are used to determine which log keys were valid instead.
 export function verifyCheckpoint(
   entry: TLogEntryWithInclusionProof,
-  tlogs: TLogAuthority[]
+  tlogs: TLogAuthority[],
+  witnessPolicy?: WitnessPolicy,
+  timestamps: Date[] = []
 ): void {
-  // Filter tlog instances to just those which were valid at the time of the
-  // entry
-  const validTLogs = filterTLogAuthorities(tlogs, {
-    targetDate: new Date(Number(entry.integratedTime) * 1000),
-  });
-
   const inclusionProof = entry.inclusionProof;
   const signedNote = SignedNote.fromString(inclusionProof.checkpoint.envelope);
   const checkpoint = LogCheckpoint.fromString(signedNote.note);
 
+  const integratedTime = Number(entry.integratedTime);
+  const dates =
+    integratedTime > 0 ? [new Date(integratedTime * 1000)] : timestamps;
+
+  if (dates.length === 0) {
+    throw new VerificationError({
+      code: 'TLOG_INCLUSION_PROOF_ERROR',
+      message: 'no trusted timestamp to verify checkpoint',
+    });
+  }
+
+  // Filter tlog instances to just those which were valid at all of the dates
+  const validTLogs = dates.reduce(
+    (valid, targetDate) => filterTLogAuthorities(valid, { targetDate }),
+    tlogs
+  );
+
   // Verify that the signatures in the checkpoint are all valid
-  if (!verifySignedNote(signedNote, validTLogs)) {
+  const witnesses = witnessPolicy?.witnesses || [];
+  if (!verifySignedNote(signedNote, validTLogs, witnesses)) {
     throw new VerificationError({
       code: 'TLOG_INCLUSION_PROOF_ERROR',
       message: 'invalid checkpoint signature',
     });
   }
 
+  // Verify that enough of the trusted witnesses cosigned the checkpoint
+  if (witnessPolicy) {
+    const count = countWitnessSignatures(signedNote, witnesses);
+    if (count < witnessPolicy.threshold) {
+      throw new VerificationError({
+        code: 'TLOG_WITNESS_ERROR',
+        message: `expected ${witnessPolicy.threshold} witness signatures, got ${count}`,
+      });
+    }
+  }
+
   // Verify that the root hash from the checkpoint matches the root hash in the
   // inclusion proof
   if (!crypto.bufferEqual(checkpoint.logHash, inclusionProof.rootHash)) {
@@ -77,33 +109,50 @@ export function verifyCheckpoint(
 }
 
 // Verifies the signatures in the SignedNote. For each signature, the
-// corresponding transparency log is looked up by the key hint and the
-// signature is verified against the public key in the transparency log.
-// Throws an error if any of the signatures are invalid.
-function verifySignedNote(
+// corresponding transparency log (or witness) is looked up by the key hint
+// and the signature is verified against its public key. Signatures from
+// unknown signers are ignored, as recommended by the signed note format.
+// Returns false if any of the known signatures are invalid or if the note
+// was not signed by at least one of the transparency logs.
+export function verifySignedNote(
   signedNote: SignedNote,
-  tlogs: TLogAuthority[]
+  tlogs: TLogAuthority[],
+  witnesses: WitnessKey[] = []
 ): boolean {
   const data = Buffer.from(signedNote.note, 'utf-8');
+  let signedByLog = false;
 
-  return signedNote.signatures.every((signature) => {
+  const valid = signedNote.signatures.every((signature) => {
     // Find the transparency log instance with the matching key hint
     const tlog = tlogs.find((tlog) =>
       crypto.bufferEqual(tlog.logID.subarray(0, 4), signature.keyHint)
     );
 
-    if (!tlog) {
-      return false;
+    if (tlog) {
+      signedByLog = true;
+      return crypto.verify(
+        data,
+        tlog.publicKey,
+        signature.signature,
+        tlog.signatureAlgorithm
+      );
+    }
+
+    const witness = findWitness(witnesses, signature);
+    if (witness) {
+      return crypto.verify(data, witness.publicKey, signature.signature);
     }
 
-    return crypto.verify(data, tlog.publicKey, signature.signature);
+    return true;
   });
+
+  return valid && signedByLog;
 }
 
 // SignedNote represents a signed note from a transparency log checkpoint. Consists
 // of a body (or note) and one more signatures calculated over the body. See
 // https://github.com/transparency-dev/formats/blob/main/log/README.md#signed-envelope
-class SignedNote {
+export class SignedNote {
   readonly note: string;
   readonly signatures: TLogSignature[];
 
@@ -169,7 +218,7 @@ class SignedNote {
 //  - rest: the rest of the checkpoint body, which is a list of log entries
 // See:
 // https://github.com/transparency-dev/formats/blob/main/log/README.md#checkpoint-body
-class LogCheckpoint {
+export class LogCheckpoint {
   readonly origin: string;
   readonly logSize: bigint;
   readonly logHash: Buffer;
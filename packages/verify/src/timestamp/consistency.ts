@@ -0,0 +1,162 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { VerificationError } from '../error';
+import { LogCheckpoint, SignedNote } from './checkpoint';
+import { verifyConsistencyProof } from './merkle';
+
+import type { TransparencyLogEntry } from '@sigstore/bundle';
+
+// Retains the largest verified checkpoint for each transparency log, keyed by
+// the checkpoint origin. Implementations may persist the checkpoints so that
+// the view of each log is carried across verifications.
+export interface CheckpointStore {
+  get(origin: string): LogCheckpoint | undefined;
+  set(checkpoint: LogCheckpoint): void;
+}
+
+// Returns the consistency proof hashes between the two sizes of the log with
+// the given origin. Returns undefined if no proof is available. Proofs must be
+// available up-front -- Verifier.verifyOnline retrieves any missing proofs
+// from the log itself before verifying.
+export type ConsistencyProofFunc = (
+  origin: string,
+  oldSize: bigint,
+  newSize: bigint
+) => Buffer[] | undefined;
+
+// CheckpointStore implementation which holds the checkpoints in memory for the
+// lifetime of the store
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, LogCheckpoint>();
+
+  public get(origin: string): LogCheckpoint | undefined {
+    return this.checkpoints.get(origin);
+  }
+
+  public set(checkpoint: LogCheckpoint): void {
+    this.checkpoints.set(checkpoint.origin, checkpoint);
+  }
+}
+
+// A consistency proof which is required to check an entry's checkpoint against
+// the checkpoint store
+export type ConsistencyProofRequest = {
+  entry: TransparencyLogEntry;
+  origin: string;
+  oldSize: bigint;
+  newSize: bigint;
+};
+
+// Returns the consistency proofs which verifyCheckpointConsistency will need
+// to check the entries (in order) against the store. The store is not
+// modified, but the checkpoints it would record are accounted for.
+export function requiredConsistencyProofs(
+  entries: TransparencyLogEntry[],
+  store: CheckpointStore
+): ConsistencyProofRequest[] {
+  const sizes = new Map<string, bigint>();
+  const requests: ConsistencyProofRequest[] = [];
+
+  entries.forEach((entry) => {
+    const envelope = entry.inclusionProof?.checkpoint?.envelope;
+    if (!envelope) {
+      return;
+    }
+
+    const { origin, logSize } = LogCheckpoint.fromString(
+      SignedNote.fromString(envelope).note
+    );
+
+    const recorded = sizes.get(origin) ?? store.get(origin)?.logSize;
+    if (recorded !== undefined && recorded !== logSize) {
+      requests.push({
+        entry,
+        origin,
+        oldSize: recorded < logSize ? recorded : logSize,
+        newSize: recorded < logSize ? logSize : recorded,
+      });
+    }
+
+    if (recorded === undefined || recorded < logSize) {
+      sizes.set(origin, logSize);
+    }
+  });
+
+  return requests;
+}
+
+// Verifies that the checkpoint in the entry's inclusion proof is consistent
+// with the checkpoint previously recorded for the same log. A log which
+// presents checkpoints that can't be proven consistent is serving a forked
+// (split) view. The checkpoint signature must already have been verified.
+// Entries with only an inclusion promise (SET) carry no checkpoint.
+//
+// The first checkpoint seen for a log is recorded as-is. After that, the
+// store is only updated when a checkpoint for a larger tree has been proven
+// consistent with the recorded one.
+export function verifyCheckpointConsistency(
+  entry: TransparencyLogEntry,
+  store: CheckpointStore,
+  consistencyProof?: ConsistencyProofFunc
+): void {
+  const envelope = entry.inclusionProof?.checkpoint?.envelope;
+  if (!envelope) {
+    return;
+  }
+
+  const signedNote = SignedNote.fromString(envelope);
+  const checkpoint = LogCheckpoint.fromString(signedNote.note);
+
+  const recorded = store.get(checkpoint.origin);
+  if (!recorded) {
+    store.set(checkpoint);
+    return;
+  }
+
+  const [older, newer] =
+    recorded.logSize <= checkpoint.logSize
+      ? [recorded, checkpoint]
+      : [checkpoint, recorded];
+
+  let hashes: Buffer[] = [];
+  if (older.logSize !== newer.logSize) {
+    const proof = consistencyProof?.(
+      checkpoint.origin,
+      older.logSize,
+      newer.logSize
+    );
+
+    if (!proof) {
+      throw new VerificationError({
+        code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+        message: `missing consistency proof for ${checkpoint.origin} between tree sizes ${older.logSize} and ${newer.logSize}`,
+      });
+    }
+    hashes = proof;
+  }
+
+  verifyConsistencyProof({
+    oldSize: older.logSize,
+    newSize: newer.logSize,
+    oldRoot: older.logHash,
+    newRoot: newer.logHash,
+    hashes,
+  });
+
+  if (checkpoint.logSize > recorded.logSize) {
+    store.set(checkpoint);
+  }
+}
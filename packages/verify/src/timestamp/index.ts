@@ -25,7 +25,24 @@ import type {
   TLogEntryWithInclusionProof,
   TransparencyLogEntry,
 } from '@sigstore/bundle';
+import type { RevocationPolicy } from '../key/revocation';
 import type { CertAuthority, TLogAuthority } from '../trust';
+import type { TSAPolicy } from './tsa';
+import type { WitnessPolicy } from './witness';
+
+export { LogCheckpoint, SignedNote, verifySignedNote } from './checkpoint';
+export {
+  MemoryCheckpointStore,
+  requiredConsistencyProofs,
+  verifyCheckpointConsistency,
+} from './consistency';
+export { fetchConsistencyProof, fetchInclusionProof } from './online';
+export { parseWitnessKey } from './witness';
+export type { TLogSignature } from './checkpoint';
+export type { CheckpointStore, ConsistencyProofFunc } from './consistency';
+export type { TLogClient } from './online';
+export type { TSAPolicy } from './tsa';
+export type { WitnessKey, WitnessPolicy } from './witness';
 
 export type TimestampType = 'transparency-log' | 'timestamp-authority';
 
@@ -33,28 +50,68 @@ export type TimestampVerificationResult = {
   type: TimestampType;
   logID: Buffer;
   timestamp: Date;
+  // The trusted timestamp authority which verified the timestamp. Only
+  // present for timestamps of type "timestamp-authority".
+  timestampAuthority?: CertAuthority;
 };
 
 export function verifyTSATimestamp(
   timestamp: RFC3161Timestamp,
   data: Buffer,
-  timestampAuthorities: CertAuthority[]
+  timestampAuthorities: CertAuthority[],
+  tsaPolicy?: TSAPolicy,
+  revocationPolicy?: RevocationPolicy
 ): TimestampVerificationResult {
-  verifyRFC3161Timestamp(timestamp, data, timestampAuthorities);
+  const timestampAuthority = verifyRFC3161Timestamp(
+    timestamp,
+    data,
+    timestampAuthorities,
+    tsaPolicy,
+    revocationPolicy
+  );
 
   return {
     type: 'timestamp-authority',
     logID: timestamp.signerSerialNumber,
     timestamp: timestamp.signingTime,
+    timestampAuthority,
   };
 }
 
 export function verifyTLogTimestamp(
   entry: TransparencyLogEntry,
-  tlogAuthorities: TLogAuthority[]
+  tlogAuthorities: TLogAuthority[],
+  witnessPolicy?: WitnessPolicy
 ): TimestampVerificationResult {
+  verifyTLogInclusion(entry, tlogAuthorities, witnessPolicy);
+
+  return {
+    type: 'transparency-log',
+    logID: entry.logId.keyId,
+    timestamp: new Date(Number(entry.integratedTime) * 1000),
+  };
+}
+
+// Verifies that the entry was included in the log, either via the inclusion
+// promise (SET) or the inclusion proof. When a witness policy requires
+// cosignatures, the entry must carry an inclusion proof with a checkpoint.
+// The timestamps are only used to check the checkpoint of entries which have
+// no integrated time.
+export function verifyTLogInclusion(
+  entry: TransparencyLogEntry,
+  tlogAuthorities: TLogAuthority[],
+  witnessPolicy?: WitnessPolicy,
+  timestamps?: Date[]
+): void {
   let inclusionVerified = false;
 
+  if (witnessPolicy?.threshold && !isTLogEntryWithInclusionProof(entry)) {
+    throw new VerificationError({
+      code: 'TLOG_WITNESS_ERROR',
+      message: 'entry has no checkpoint to verify witness signatures',
+    });
+  }
+
   if (isTLogEntryWithInclusionPromise(entry)) {
     verifyTLogSET(entry, tlogAuthorities);
     inclusionVerified = true;
@@ -62,7 +119,7 @@ export function verifyTLogTimestamp(
 
   if (isTLogEntryWithInclusionProof(entry)) {
     verifyMerkleInclusion(entry);
-    verifyCheckpoint(entry, tlogAuthorities);
+    verifyCheckpoint(entry, tlogAuthorities, witnessPolicy, timestamps);
     inclusionVerified = true;
   }
 
@@ -72,12 +129,12 @@ export function verifyTLogTimestamp(
       message: 'inclusion could not be verified',
     });
   }
+}
 
-  return {
-    type: 'transparency-log',
-    logID: entry.logId.keyId,
-    timestamp: new Date(Number(entry.integratedTime) * 1000),
-  };
+// Rekor v2 entries carry no integrated time (the field is always zero), so
+// they attest to inclusion in the log but NOT to the time of signing
+export function hasIntegratedTime(entry: TransparencyLogEntry): boolean {
+  return Number(entry.integratedTime) > 0;
 }
 
 function isTLogEntryWithInclusionPromise(
@@ -67,6 +67,102 @@ export function verifyMerkleInclusion(
   }
 }
 
+// Verifies that the tree of size oldSize is a prefix of the tree of size
+// newSize using the consistency proof hashes. The algorithm is described in
+// RFC 9162 section 2.1.4.2.
+export function verifyConsistencyProof({
+  oldSize,
+  newSize,
+  oldRoot,
+  newRoot,
+  hashes,
+}: {
+  oldSize: bigint;
+  newSize: bigint;
+  oldRoot: Buffer;
+  newRoot: Buffer;
+  hashes: Buffer[];
+}): void {
+  if (oldSize < 0n || oldSize > newSize) {
+    throw new VerificationError({
+      code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+      message: `invalid tree sizes: ${oldSize}, ${newSize}`,
+    });
+  }
+
+  // Trees of the same size are only consistent if they are identical, while
+  // the empty tree is consistent with every tree
+  if (oldSize === newSize || oldSize === 0n) {
+    if (hashes.length > 0) {
+      throw new VerificationError({
+        code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+        message: 'invalid hash count',
+      });
+    }
+
+    if (oldSize === newSize && !crypto.bufferEqual(oldRoot, newRoot)) {
+      throw new VerificationError({
+        code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+        message: 'root hash mismatch for trees of the same size',
+      });
+    }
+    return;
+  }
+
+  if (hashes.length === 0) {
+    throw new VerificationError({
+      code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+      message: 'invalid hash count',
+    });
+  }
+
+  // When the old tree is a complete subtree, its root is the starting point
+  // for the proof
+  const path = isPowerOfTwo(oldSize) ? [oldRoot, ...hashes] : hashes;
+
+  let fn = oldSize - 1n;
+  let sn = newSize - 1n;
+  while (fn & 1n) {
+    fn >>= 1n;
+    sn >>= 1n;
+  }
+
+  let fr = path[0];
+  let sr = path[0];
+  for (const h of path.slice(1)) {
+    if (sn === 0n) {
+      throw new VerificationError({
+        code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+        message: 'invalid hash count',
+      });
+    }
+
+    if (fn & 1n || fn === sn) {
+      fr = hashChildren(h, fr);
+      sr = hashChildren(h, sr);
+      while (!(fn & 1n) && fn !== 0n) {
+        fn >>= 1n;
+        sn >>= 1n;
+      }
+    } else {
+      sr = hashChildren(sr, h);
+    }
+    fn >>= 1n;
+    sn >>= 1n;
+  }
+
+  if (
+    sn !== 0n ||
+    !crypto.bufferEqual(fr, oldRoot) ||
+    !crypto.bufferEqual(sr, newRoot)
+  ) {
+    throw new VerificationError({
+      code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+      message: 'calculated root hashes do not match consistency proof',
+    });
+  }
+}
+
 // Breaks down inclusion proof for a leaf at the specified index in a tree of
 // the specified size. The split point is where paths to the index leaf and
 // the (size - 1) leaf diverge. Returns lengths of the bottom and upper proof
@@ -108,6 +204,10 @@ function onesCount(num: bigint): number {
   return num.toString(2).split('1').length - 1;
 }
 
+function isPowerOfTwo(n: bigint): boolean {
+  return (n & (n - 1n)) === 0n;
+}
+
 // Returns the number of bits necessary to represent an integer in binary.
 function bitLength(n: bigint): number {
   if (n === 0n) {
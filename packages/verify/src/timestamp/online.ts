@@ -0,0 +1,104 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { crypto } from '@sigstore/core';
+import { VerificationError } from '../error';
+
+import type {
+  InclusionProof,
+  TLogEntryWithInclusionProof,
+  TransparencyLogEntry,
+} from '@sigstore/bundle';
+import type { TLogAuthority } from '../trust';
+
+// Client used to retrieve the current inclusion proof for an entry (and the
+// consistency proofs between checkpoints) directly from the transparency log
+// which issued it. A client for the Rekor v1 API is provided by
+// @sigstore/sign.
+export interface TLogClient {
+  getInclusionProof(
+    baseURL: string,
+    entry: TransparencyLogEntry
+  ): Promise<InclusionProof>;
+  getConsistencyProof(
+    baseURL: string,
+    oldSize: bigint,
+    newSize: bigint
+  ): Promise<Buffer[]>;
+}
+
+// Retrieves the current inclusion proof for the entry from the log which
+// issued it. The log is located via the base URL recorded for it in the
+// trusted root. The returned entry carries the fetched proof in place of any
+// proof which was embedded in the original entry.
+export async function fetchInclusionProof(
+  entry: TransparencyLogEntry,
+  tlogAuthorities: TLogAuthority[],
+  client: TLogClient
+): Promise<TLogEntryWithInclusionProof> {
+  const baseURL = tlogBaseURL(entry, tlogAuthorities);
+
+  try {
+    const inclusionProof = await client.getInclusionProof(baseURL, entry);
+    return { ...entry, inclusionProof };
+  } catch (err) {
+    throw new VerificationError({
+      code: 'TLOG_INCLUSION_PROOF_ERROR',
+      message: 'error fetching inclusion proof',
+      cause: err,
+    });
+  }
+}
+
+// Retrieves the consistency proof between the two sizes of the log which
+// issued the entry. The proof itself is verified against the checkpoints by
+// verifyCheckpointConsistency.
+export async function fetchConsistencyProof(
+  entry: TransparencyLogEntry,
+  tlogAuthorities: TLogAuthority[],
+  client: TLogClient,
+  oldSize: bigint,
+  newSize: bigint
+): Promise<Buffer[]> {
+  const baseURL = tlogBaseURL(entry, tlogAuthorities);
+
+  try {
+    return await client.getConsistencyProof(baseURL, oldSize, newSize);
+  } catch (err) {
+    throw new VerificationError({
+      code: 'TLOG_CONSISTENCY_PROOF_ERROR',
+      message: 'error fetching consistency proof',
+      cause: err,
+    });
+  }
+}
+
+function tlogBaseURL(
+  entry: TransparencyLogEntry,
+  tlogAuthorities: TLogAuthority[]
+): string {
+  const tlog = tlogAuthorities.find(
+    (tlog) => tlog.baseURL && crypto.bufferEqual(tlog.logID, entry.logId.keyId)
+  );
+
+  if (!tlog?.baseURL) {
+    throw new VerificationError({
+      code: 'TLOG_INCLUSION_PROOF_ERROR',
+      message: 'no URL for the transparency log which issued the entry',
+    });
+  }
+
+  return tlog.baseURL;
+}
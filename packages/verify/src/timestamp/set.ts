@@ -52,7 +52,12 @@ export function verifyTLogSET(
     // Extract the SET from the tlog entry
     const signature = entry.inclusionPromise.signedEntryTimestamp;
 
-    return crypto.verify(data, tlog.publicKey, signature);
+    return crypto.verify(
+      data,
+      tlog.publicKey,
+      signature,
+      tlog.signatureAlgorithm
+    );
   });
 
   if (!verified) {
@@ -1,15 +1,40 @@
-import { RFC3161Timestamp, crypto } from '@sigstore/core';
+import { RFC3161Timestamp, X509Certificate, crypto } from '@sigstore/core';
 import { VerificationError } from '../error';
 import { CertificateChainVerifier } from '../key/certificate';
+import { isRevocationError } from '../key/revocation';
 import { CertAuthority, filterCertAuthorities } from '../trust';
 
+import type { RevocationPolicy } from '../key/revocation';
+
+const OID_EKU_TIMESTAMPING = '1.3.6.1.5.5.7.3.8';
+
+// Additional requirements placed on RFC 3161 timestamps beyond the validity of
+// the signature and certificate chain
+export type TSAPolicy = {
+  // The policy OIDs under which timestamps must have been issued. Any policy
+  // is accepted when empty.
+  policyOIDs: string[];
+  // The maximum accuracy (in milliseconds) of the timestamp's genTime.
+  // Timestamps which don't declare an accuracy are rejected when set.
+  maxAccuracy?: number;
+  // When true, the timestamp must identify the TSA signing certificate with
+  // a matching ESSCertIDv2 and the certificate must carry the timeStamping EKU
+  strict: boolean;
+};
+
 export function verifyRFC3161Timestamp(
   timestamp: RFC3161Timestamp,
   data: Buffer,
-  timestampAuthorities: CertAuthority[]
-): void {
+  timestampAuthorities: CertAuthority[],
+  tsaPolicy?: TSAPolicy,
+  revocationPolicy?: RevocationPolicy
+): CertAuthority {
   const signingTime = timestamp.signingTime;
 
+  if (tsaPolicy) {
+    verifyTimestampPolicy(timestamp, tsaPolicy);
+  }
+
   // Filter for CAs which were valid at the time of signing
   timestampAuthorities = filterCertAuthorities(timestampAuthorities, {
     start: signingTime,
@@ -24,27 +49,80 @@ export function verifyRFC3161Timestamp(
 
   // Check that we can verify the timestamp with AT LEAST ONE of the remaining
   // CAs
-  const verified = timestampAuthorities.some((ca) => {
+  let revocationError: VerificationError | undefined;
+  const verifiedCA = timestampAuthorities.find((ca) => {
     try {
-      verifyTimestampForCA(timestamp, data, ca);
+      verifyTimestampForCA(
+        timestamp,
+        data,
+        ca,
+        tsaPolicy?.strict ?? false,
+        revocationPolicy
+      );
       return true;
     } catch (e) {
+      if (isRevocationError(e)) {
+        revocationError = e;
+      }
       return false;
     }
   });
 
-  if (!verified) {
+  if (!verifiedCA) {
+    // Report a revoked TSA certificate with its specific error code
+    if (revocationError) {
+      throw revocationError;
+    }
+
     throw new VerificationError({
       code: 'TIMESTAMP_ERROR',
       message: 'timestamp could not be verified',
     });
   }
+
+  return verifiedCA;
+}
+
+// Checks the policy OID and accuracy of the timestamp against the policy
+function verifyTimestampPolicy(
+  timestamp: RFC3161Timestamp,
+  tsaPolicy: TSAPolicy
+): void {
+  const { policy, accuracy } = timestamp.tstInfo;
+
+  if (
+    tsaPolicy.policyOIDs.length > 0 &&
+    !tsaPolicy.policyOIDs.includes(policy)
+  ) {
+    throw new VerificationError({
+      code: 'TIMESTAMP_ERROR',
+      message: `timestamp issued under untrusted policy: ${policy}`,
+    });
+  }
+
+  if (tsaPolicy.maxAccuracy !== undefined) {
+    if (accuracy === undefined) {
+      throw new VerificationError({
+        code: 'TIMESTAMP_ERROR',
+        message: 'timestamp does not specify an accuracy',
+      });
+    }
+
+    if (accuracy > tsaPolicy.maxAccuracy) {
+      throw new VerificationError({
+        code: 'TIMESTAMP_ERROR',
+        message: `timestamp accuracy of ${accuracy}ms exceeds ${tsaPolicy.maxAccuracy}ms`,
+      });
+    }
+  }
 }
 
 function verifyTimestampForCA(
   timestamp: RFC3161Timestamp,
   data: Buffer,
-  ca: CertAuthority
+  ca: CertAuthority,
+  strict: boolean,
+  revocationPolicy?: RevocationPolicy
 ): void {
   const [leaf, ...cas] = ca.certChain;
   const signingKey = crypto.createPublicKey(leaf.publicKey);
@@ -55,8 +133,13 @@ function verifyTimestampForCA(
     new CertificateChainVerifier({
       untrustedCert: leaf,
       trustedCerts: cas,
+      revocationPolicy,
     }).verify();
   } catch (e) {
+    if (isRevocationError(e)) {
+      throw e;
+    }
+
     throw new VerificationError({
       code: 'TIMESTAMP_ERROR',
       message: 'invalid certificate chain',
@@ -75,11 +158,63 @@ function verifyTimestampForCA(
     });
   }
 
+  // Check that the timestamp identifies the CA's signing certificate and that
+  // the certificate may be used for timestamping
+  if (strict) {
+    verifySigningCertificateID(timestamp, leaf);
+    verifyTimeStampingEKU(leaf);
+  }
+
   // Check that the signing certificate's key can be used to verify the
   // timestamp signature.
   timestamp.verify(data, signingKey);
 }
 
+// Checks that the ESSCertIDv2 in the timestamp's signed attributes matches the
+// signing certificate (RFC 5816)
+function verifySigningCertificateID(
+  timestamp: RFC3161Timestamp,
+  cert: X509Certificate
+): void {
+  const certIDs = timestamp.signingCertificateIDs;
+
+  if (!certIDs) {
+    throw new VerificationError({
+      code: 'TIMESTAMP_ERROR',
+      message: 'timestamp is missing the signing certificate attribute',
+    });
+  }
+
+  // The first ESSCertIDv2 identifies the signing certificate
+  const { hashAlgorithm, certHash } = certIDs[0];
+  const digest = crypto.digest(hashAlgorithm, cert.root.toDER());
+
+  if (!crypto.bufferEqual(digest, certHash)) {
+    throw new VerificationError({
+      code: 'TIMESTAMP_ERROR',
+      message: 'signing certificate does not match timestamp',
+    });
+  }
+}
+
+// Per RFC 3161 section 2.3, the TSA signing certificate must contain a single,
+// critical extended key usage extension with the timeStamping purpose
+function verifyTimeStampingEKU(cert: X509Certificate): void {
+  const eku = cert.extExtendedKeyUsage;
+  const purposes = eku ? eku.keyPurposeIDs : [];
+
+  if (
+    !eku?.critical ||
+    purposes.length !== 1 ||
+    purposes[0] !== OID_EKU_TIMESTAMPING
+  ) {
+    throw new VerificationError({
+      code: 'TIMESTAMP_ERROR',
+      message: 'signing certificate is missing the timeStamping EKU',
+    });
+  }
+}
+
 // Filters the list of CAs to those which have a leaf signing certificate which
 // matches the given serial number and issuer.
 function filterCAsBySerialAndIssuer(
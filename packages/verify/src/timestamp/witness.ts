@@ -0,0 +1,115 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { crypto } from '@sigstore/core';
+import { VerificationError } from '../error';
+
+import type { SignedNote, TLogSignature } from './checkpoint';
+
+// Signature type identifier for Ed25519 signed-note keys
+const ED25519_ALG = 0x01;
+
+// DER-encoded SPKI prefix for a raw 32-byte Ed25519 public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+// A witness which cosigns transparency log checkpoints
+export type WitnessKey = {
+  name: string;
+  keyHint: Buffer;
+  publicKey: crypto.KeyObject;
+};
+
+// The witnesses trusted to cosign checkpoints and the number of them which
+// must have signed each checkpoint
+export type WitnessPolicy = {
+  witnesses: WitnessKey[];
+  threshold: number;
+};
+
+// Parses a witness public key from the signed note verifier key format:
+//   <name>+<key hash>+<base64 key data>
+// where the key data is the signature type byte followed by the public key
+// and the key hash is the hex-encoded first 4 bytes of
+// SHA-256(<name> || "\n" || <key data>).
+// See: https://pkg.go.dev/golang.org/x/mod/sumdb/note#hdr-Verifying_Notes
+export function parseWitnessKey(vkey: string): WitnessKey {
+  // The base64 key data may itself contain '+' characters, so only the first
+  // two separators are significant
+  const [name, hash, ...data] = vkey.split('+');
+  const keyData = Buffer.from(data.join('+'), 'base64');
+
+  if (!name || keyData.length !== 33 || keyData[0] !== ED25519_ALG) {
+    throw new VerificationError({
+      code: 'TLOG_WITNESS_ERROR',
+      message: `malformed witness key: ${vkey}`,
+    });
+  }
+
+  const keyHint = crypto
+    .digest('sha256', Buffer.from(`${name}\n`), keyData)
+    .subarray(0, 4);
+
+  if (keyHint.toString('hex') !== hash) {
+    throw new VerificationError({
+      code: 'TLOG_WITNESS_ERROR',
+      message: `witness key hash mismatch: ${vkey}`,
+    });
+  }
+
+  const publicKey = crypto.createPublicKey(
+    Buffer.concat([ED25519_SPKI_PREFIX, keyData.subarray(1)])
+  );
+
+  return { name, keyHint, publicKey };
+}
+
+// Returns the witness which produced the signature line, if any. Witnesses are
+// identified by both name and key hint.
+export function findWitness(
+  witnesses: WitnessKey[],
+  signature: TLogSignature
+): WitnessKey | undefined {
+  return witnesses.find(
+    (witness) =>
+      witness.name === signature.name &&
+      crypto.bufferEqual(witness.keyHint, signature.keyHint)
+  );
+}
+
+// Counts the distinct witness keys with a valid signature on the note. A key
+// which is configured more than once (under the same or a different name) is
+// only counted once. Only the legacy Ed25519 signature type (0x01) is
+// supported -- cosignature/v1 (0x04) signatures, which also sign a timestamp,
+// are out of scope and are never counted.
+export function countWitnessSignatures(
+  signedNote: SignedNote,
+  witnesses: WitnessKey[]
+): number {
+  const data = Buffer.from(signedNote.note, 'utf-8');
+
+  const signers = witnesses
+    .filter((witness) =>
+      signedNote.signatures.some(
+        (signature) =>
+          findWitness([witness], signature) &&
+          crypto.verify(data, witness.publicKey, signature.signature)
+      )
+    )
+    .map((witness) =>
+      witness.publicKey.export({ format: 'der', type: 'spki' }).toString('hex')
+    );
+
+  return new Set(signers).size;
+}
@@ -15,21 +15,23 @@ limitations under the License.
 */
 import { VerificationError } from '../error';
 
-import type { ProposedDSSEEntry } from '@sigstore/rekor-types';
+import type { DSSEEntryV002, ProposedDSSEEntry } from '@sigstore/rekor-types';
 import type { SignatureContent } from '../shared.types';
 
 // Compare the given intoto tlog entry to the given bundle
 export function verifyDSSETLogBody(
-  tlogEntry: ProposedDSSEEntry,
+  tlogEntry: ProposedDSSEEntry | DSSEEntryV002,
   content: SignatureContent
 ): void {
   switch (tlogEntry.apiVersion) {
     case '0.0.1':
       return verifyDSSE001TLogBody(tlogEntry, content);
+    case '0.0.2':
+      return verifyDSSE002TLogBody(tlogEntry, content);
     default:
       throw new VerificationError({
         code: 'TLOG_BODY_ERROR',
-        message: `unsupported dsse version: ${tlogEntry.apiVersion}`,
+        message: `unsupported dsse version: ${(tlogEntry as { apiVersion: string }).apiVersion}`,
       });
   }
 }
@@ -67,3 +69,40 @@ function verifyDSSE001TLogBody(
     });
   }
 }
+
+// Compare the given dsse v0.0.2 (Rekor v2) tlog entry to the given DSSE
+// envelope
+function verifyDSSE002TLogBody(
+  tlogEntry: DSSEEntryV002,
+  content: SignatureContent
+): void {
+  const spec = tlogEntry.spec.dsseV002;
+
+  // Ensure the bundle's DSSE only contains a single signature
+  if (spec.signatures?.length !== 1) {
+    throw new VerificationError({
+      code: 'TLOG_BODY_ERROR',
+      message: 'signature count mismatch',
+    });
+  }
+
+  const tlogSig = spec.signatures[0].content;
+
+  // Ensure that the signature in the bundle's DSSE matches tlog entry
+  if (!content.compareSignature(Buffer.from(tlogSig, 'base64')))
+    throw new VerificationError({
+      code: 'TLOG_BODY_ERROR',
+      message: 'tlog entry signature mismatch',
+    });
+
+  // Ensure the digest of the bundle's DSSE payload matches the digest in the
+  // tlog entry
+  const tlogHash = spec.payloadHash?.digest || '';
+
+  if (!content.compareDigest(Buffer.from(tlogHash, 'base64'))) {
+    throw new VerificationError({
+      code: 'TLOG_BODY_ERROR',
+      message: 'DSSE payload hash mismatch',
+    });
+  }
+}
@@ -15,21 +15,26 @@ limitations under the License.
 */
 import { VerificationError } from '../error';
 
-import type { ProposedHashedRekordEntry } from '@sigstore/rekor-types';
+import type {
+  HashedRekordEntryV002,
+  ProposedHashedRekordEntry,
+} from '@sigstore/rekor-types';
 import type { SignatureContent } from '../shared.types';
 
 // Compare the given hashedrekord tlog entry to the given bundle
 export function verifyHashedRekordTLogBody(
-  tlogEntry: ProposedHashedRekordEntry,
+  tlogEntry: ProposedHashedRekordEntry | HashedRekordEntryV002,
   content: SignatureContent
 ): void {
   switch (tlogEntry.apiVersion) {
     case '0.0.1':
       return verifyHashedrekord001TLogBody(tlogEntry, content);
+    case '0.0.2':
+      return verifyHashedrekord002TLogBody(tlogEntry, content);
     default:
       throw new VerificationError({
         code: 'TLOG_BODY_ERROR',
-        message: `unsupported hashedrekord version: ${tlogEntry.apiVersion}`,
+        message: `unsupported hashedrekord version: ${(tlogEntry as { apiVersion: string }).apiVersion}`,
       });
   }
 }
@@ -60,3 +65,32 @@ function verifyHashedrekord001TLogBody(
     });
   }
 }
+
+// Compare the given hashedrekord v0.0.2 (Rekor v2) tlog entry to the given
+// message signature
+function verifyHashedrekord002TLogBody(
+  tlogEntry: HashedRekordEntryV002,
+  content: SignatureContent
+): void {
+  const spec = tlogEntry.spec.hashedRekordV002;
+
+  // Ensure that the bundles message signature matches the tlog entry
+  const tlogSig = spec.signature?.content || '';
+
+  if (!content.compareSignature(Buffer.from(tlogSig, 'base64'))) {
+    throw new VerificationError({
+      code: 'TLOG_BODY_ERROR',
+      message: 'signature mismatch',
+    });
+  }
+
+  // Ensure that the bundle's message digest matches the tlog entry
+  const tlogDigest = spec.data?.digest || '';
+
+  if (!content.compareDigest(Buffer.from(tlogDigest, 'base64'))) {
+    throw new VerificationError({
+      code: 'TLOG_BODY_ERROR',
+      message: 'digest mismatch',
+    });
+  }
+}
@@ -19,7 +19,7 @@ import { verifyHashedRekordTLogBody } from './hashedrekord';
 import { verifyIntotoTLogBody } from './intoto';
 
 import type { TransparencyLogEntry } from '@sigstore/bundle';
-import type { ProposedEntry } from '@sigstore/rekor-types';
+import type { EntryV002, ProposedEntry } from '@sigstore/rekor-types';
 import type { SignatureContent } from '../shared.types';
 
 // Verifies that the given tlog entry matches the supplied signature content.
@@ -28,7 +28,7 @@ export function verifyTLogBody(
   sigContent: SignatureContent
 ): void {
   const { kind, version } = entry.kindVersion;
-  const body: ProposedEntry = JSON.parse(
+  const body: ProposedEntry | EntryV002 = JSON.parse(
     entry.canonicalizedBody.toString('utf8')
   );
 
@@ -0,0 +1,344 @@
+/*
+Copyright 2024 The Sigstore Authors.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+*/
+import { X509Certificate, crypto } from '@sigstore/core';
+import {
+  HashAlgorithm,
+  PublicKeyDetails,
+  TrustedRoot,
+  type CertificateAuthority,
+  type DistinguishedName,
+  type TimeRange,
+  type TransparencyLogInstance,
+} from '@sigstore/protobuf-specs';
+import { TrustedRootError } from '../error';
+
+const TRUSTED_ROOT_MEDIA_TYPE =
+  'application/vnd.dev.sigstore.trustedroot+json;version=0.1';
+
+const EC_KEY_DETAILS: Record<string, PublicKeyDetails> = {
+  prime256v1: PublicKeyDetails.PKIX_ECDSA_P256_SHA_256,
+  secp384r1: PublicKeyDetails.PKIX_ECDSA_P384_SHA_384,
+  secp521r1: PublicKeyDetails.PKIX_ECDSA_P521_SHA_512,
+};
+
+const RSA_KEY_DETAILS: Record<number, PublicKeyDetails> = {
+  2048: PublicKeyDetails.PKIX_RSA_PKCS1V15_2048_SHA256,
+  3072: PublicKeyDetails.PKIX_RSA_PKCS1V15_3072_SHA256,
+  4096: PublicKeyDetails.PKIX_RSA_PKCS1V15_4096_SHA256,
+};
+
+const RSA_PSS_KEY_DETAILS: Record<number, PublicKeyDetails> = {
+  2048: PublicKeyDetails.PKIX_RSA_PSS_2048_SHA256,
+  3072: PublicKeyDetails.PKIX_RSA_PSS_3072_SHA256,
+  4096: PublicKeyDetails.PKIX_RSA_PSS_4096_SHA256,
+};
+
+const BEGINNING_OF_TIME = new Date(0);
+
+const OID_COMMON_NAME = '2.5.4.3';
+const OID_ORGANIZATION = '2.5.4.10';
+
+export type ValidityPeriod = {
+  start?: Date;
+  end?: Date;
+};
+
+export type CertificateAuthorityOptions = {
+  // Certificate chain ordered from the issuing certificate up to the root.
+  // Each certificate may be PEM or DER encoded.
+  certChain: (string | Buffer)[];
+  uri?: string;
+  // Defaults to the organization and common name of the root certificate
+  subject?: DistinguishedName;
+  // The start defaults to the notBefore time of the issuing certificate
+  validFor?: ValidityPeriod;
+};
+
+export type TransparencyLogOptions = {
+  baseURL: string;
+  // PEM or DER (SPKI) encoded public key
+  publicKey: string | Buffer;
+  // Detected from the public key when not specified
+  keyDetails?: PublicKeyDetails;
+  // The start defaults to the beginning of time so that entries the log
+  // issued before the trusted root was created can still be verified
+  validFor?: ValidityPeriod;
+};
+
+// Assembles a TrustedRoot from the key material of a set of Sigstore
+// services. The result is validated when it is built.
+export class TrustedRootBuilder {
+  private certificateAuthorities: CertificateAuthority[] = [];
+  private timestampAuthorities: CertificateAuthority[] = [];
+  private tlogs: TransparencyLogInstance[] = [];
+  private ctlogs: TransparencyLogInstance[] = [];
+
+  public addCertificateAuthority(options: CertificateAuthorityOptions): this {
+    this.certificateAuthorities.push(toCertificateAuthority(options));
+    return this;
+  }
+
+  public addTimestampAuthority(options: CertificateAuthorityOptions): this {
+    this.timestampAuthorities.push(toCertificateAuthority(options));
+    return this;
+  }
+
+  public addTLog(options: TransparencyLogOptions): this {
+    this.tlogs.push(toTransparencyLogInstance(options));
+    return this;
+  }
+
+  public addCTLog(options: TransparencyLogOptions): this {
+    this.ctlogs.push(toTransparencyLogInstance(options));
+    return this;
+  }
+
+  // Throws a TrustedRootError if any of the certificate chains are not
+  // well-formed, any validity period is empty, or the same authority appears
+  // more than once with overlapping validity periods.
+  public validate(): void {
+    this.certificateAuthorities.forEach((ca) => validateCertChain(ca, true));
+    this.timestampAuthorities.forEach((ca) => validateCertChain(ca, false));
+
+    validateValidity(
+      [...this.certificateAuthorities, ...this.timestampAuthorities],
+      (ca) => ca.validFor!
+    );
+    validateValidity(
+      [...this.tlogs, ...this.ctlogs],
+      (log) => log.publicKey!.validFor!
+    );
+
+    for (const cas of [
+      this.certificateAuthorities,
+      this.timestampAuthorities,
+    ]) {
+      validateOverlap(
+        cas,
+        (ca) => ca.certChain!.certificates[0].rawBytes,
+        (ca) => ca.validFor!
+      );
+    }
+
+    for (const logs of [this.tlogs, this.ctlogs]) {
+      validateOverlap(
+        logs,
+        (log) => log.logId!.keyId,
+        (log) => log.publicKey!.validFor!
+      );
+    }
+  }
+
+  public build(): TrustedRoot {
+    this.validate();
+
+    return {
+      mediaType: TRUSTED_ROOT_MEDIA_TYPE,
+      certificateAuthorities: this.certificateAuthorities,
+      timestampAuthorities: this.timestampAuthorities,
+      tlogs: this.tlogs,
+      ctlogs: this.ctlogs,
+    };
+  }
+
+  // Returns the JSON representation of the trusted root
+  public toJSON(): unknown {
+    return TrustedRoot.toJSON(this.build());
+  }
+}
+
+function toCertificateAuthority(
+  options: CertificateAuthorityOptions
+): CertificateAuthority {
+  if (options.certChain.length === 0) {
+    throw new TrustedRootError({
+      code: 'CERTIFICATE_CHAIN_ERROR',
+      message: 'certificate chain is empty',
+    });
+  }
+
+  const certs = options.certChain.map(parseCertificate);
+  const root = certs[certs.length - 1];
+
+  return {
+    subject: options.subject || toDistinguishedName(root),
+    uri: options.uri || '',
+    certChain: {
+      certificates: certs.map((cert) => ({ rawBytes: cert.root.toDER() })),
+    },
+    validFor: {
+      start: options.validFor?.start || certs[0].notBefore,
+      end: options.validFor?.end,
+    },
+  };
+}
+
+function toTransparencyLogInstance(
+  options: TransparencyLogOptions
+): TransparencyLogInstance {
+  const key = parsePublicKey(options.publicKey);
+  const rawBytes = key.export({ format: 'der', type: 'spki' });
+
+  return {
+    baseUrl: options.baseURL,
+    hashAlgorithm: HashAlgorithm.SHA2_256,
+    publicKey: {
+      rawBytes,
+      keyDetails: options.keyDetails || toKeyDetails(key),
+      validFor: {
+        start: options.validFor?.start || BEGINNING_OF_TIME,
+        end: options.validFor?.end,
+      },
+    },
+    logId: { keyId: crypto.digest('sha256', rawBytes) },
+    checkpointKeyId: undefined,
+  };
+}
+
+function parseCertificate(cert: string | Buffer): X509Certificate {
+  try {
+    return X509Certificate.parse(cert);
+  } catch (e) {
+    throw new TrustedRootError({
+      code: 'CERTIFICATE_CHAIN_ERROR',
+      message: 'invalid certificate',
+      cause: e,
+    });
+  }
+}
+
+function parsePublicKey(key: string | Buffer): crypto.KeyObject {
+  try {
+    return crypto.createPublicKey(key);
+  } catch (e) {
+    throw new TrustedRootError({
+      code: 'PUBLIC_KEY_ERROR',
+      message: 'invalid public key',
+      cause: e,
+    });
+  }
+}
+
+// Each certificate must be issued by the next one in the chain, which must be
+// a CA, and the chain must end with a self-signed root. A timestamp authority
+// chain starts with the (non-CA) signing certificate.
+function validateCertChain(ca: CertificateAuthority, allCAs: boolean): void {
+  const certs = ca.certChain!.certificates.map((cert) =>
+    X509Certificate.parse(cert.rawBytes)
+  );
+
+  certs.forEach((cert, i) => {
+    const issuer = certs[i + 1] || cert;
+
+    if ((allCAs || i > 0) && !cert.isCA) {
+      throw new TrustedRootError({
+        code: 'CERTIFICATE_CHAIN_ERROR',
+        message: `certificate ${i} in the chain is not a CA`,
+      });
+    }
+
+    if (!issuer.isCA || !cert.verify(issuer)) {
+      throw new TrustedRootError({
+        code: 'CERTIFICATE_CHAIN_ERROR',
+        message: `certificate ${i} in the chain is not signed by its issuer`,
+      });
+    }
+  });
+}
+
+function validateValidity<T>(
+  items: T[],
+  validFor: (item: T) => TimeRange
+): void {
+  items.map(validFor).forEach(({ start, end }) => {
+    if (end && start! >= end) {
+      throw new TrustedRootError({
+        code: 'VALIDITY_PERIOD_ERROR',
+        message: 'validity period ends before it starts',
+      });
+    }
+  });
+}
+
+// The same authority may appear more than once (e.g. a key which was retired
+// and later reinstated), but only for distinct periods of time
+function validateOverlap<T>(
+  items: T[],
+  id: (item: T) => Buffer,
+  validFor: (item: T) => TimeRange
+): void {
+  items.forEach((a, i) => {
+    items.slice(i + 1).forEach((b) => {
+      if (id(a).equals(id(b)) && overlaps(validFor(a), validFor(b))) {
+        throw new TrustedRootError({
+          code: 'VALIDITY_PERIOD_ERROR',
+          message: 'duplicate authority with overlapping validity periods',
+        });
+      }
+    });
+  });
+}
+
+function overlaps(a: TimeRange, b: TimeRange): boolean {
+  return (!a.end || b.start! < a.end) && (!b.end || a.start! < b.end);
+}
+
+function toDistinguishedName(cert: X509Certificate): DistinguishedName {
+  // subject is the sixth element of the tbsCertificate sequence
+  const attrs = cert.tbsCertificate.subs[5].subs.flatMap((rdn) => rdn.subs);
+  const find = (oid: string) =>
+    attrs
+      .find((attr) => attr.subs[0].toOID() === oid)
+      ?.subs[1].value.toString() || '';
+
+  return {
+    organization: find(OID_ORGANIZATION),
+    commonName: find(OID_COMMON_NAME),
+  };
+}
+
+function toKeyDetails(key: crypto.KeyObject): PublicKeyDetails {
+  const details = key.asymmetricKeyDetails;
+  let keyDetails: PublicKeyDetails | undefined;
+
+  switch (key.asymmetricKeyType) {
+    case 'ec':
+      keyDetails = EC_KEY_DETAILS[String(details?.namedCurve)];
+      break;
+    case 'rsa':
+      keyDetails =
+        RSA_KEY_DETAILS[Number(details?.modulusLength)] ??
+        PublicKeyDetails.PKIX_RSA_PKCS1V5;
+      break;
+    case 'rsa-pss':
+      keyDetails =
+        RSA_PSS_KEY_DETAILS[Number(details?.modulusLength)] ??
+        PublicKeyDetails.PKIX_RSA_PSS;
+      break;
+    case 'ed25519':
+      keyDetails = PublicKeyDetails.PKIX_ED25519;
+      break;
+  }
+
+  if (keyDetails === undefined) {
+    throw new TrustedRootError({
+      code: 'PUBLIC_KEY_ERROR',
+      message: `unsupported key type: ${key.asymmetricKeyType}`,
+    });
+  }
+
+  return keyDetails;
+}
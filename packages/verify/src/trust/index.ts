@@ -32,8 +32,15 @@ import type {
 const BEGINNING_OF_TIME = new Date(0);
 const END_OF_TIME = new Date(8640000000000000);
 
+export { TrustedRootBuilder } from './builder';
 export { filterCertAuthorities, filterTLogAuthorities } from './filter';
 
+export type {
+  CertificateAuthorityOptions,
+  TransparencyLogOptions,
+  ValidityPeriod,
+} from './builder';
+
 export type {
   CertAuthority,
   KeyFinderFunc,
@@ -61,20 +68,14 @@ function createTLogAuthority(
   tlogInstance: TransparencyLogInstance
 ): TLogAuthority {
   const keyDetails = tlogInstance.publicKey!.keyDetails;
-  const keyType =
-    keyDetails === PublicKeyDetails.PKCS1_RSA_PKCS1V5 ||
-    keyDetails === PublicKeyDetails.PKIX_RSA_PKCS1V5 ||
-    keyDetails === PublicKeyDetails.PKIX_RSA_PKCS1V15_2048_SHA256 ||
-    keyDetails === PublicKeyDetails.PKIX_RSA_PKCS1V15_3072_SHA256 ||
-    keyDetails === PublicKeyDetails.PKIX_RSA_PKCS1V15_4096_SHA256
-      ? 'pkcs1'
-      : 'spki';
   return {
     logID: tlogInstance.logId!.keyId,
+    baseURL: tlogInstance.baseUrl,
     publicKey: crypto.createPublicKey(
       tlogInstance.publicKey!.rawBytes!,
-      keyType
+      keyType(keyDetails)
     ),
+    signatureAlgorithm: signatureAlgorithm(keyDetails),
     validFor: {
       start: tlogInstance.publicKey!.validFor?.start || BEGINNING_OF_TIME,
       end: tlogInstance.publicKey!.validFor?.end || END_OF_TIME,
@@ -107,7 +108,7 @@ function keyLocator(keys?: Record<string, PublicKey>): KeyFinderFunc {
     }
 
     return {
-      publicKey: crypto.createPublicKey(key.rawBytes!),
+      publicKey: crypto.createPublicKey(key.rawBytes!, keyType(key.keyDetails)),
       validFor: (date: Date) => {
         /* istanbul ignore next */
         return (
@@ -118,3 +119,38 @@ function keyLocator(keys?: Record<string, PublicKey>): KeyFinderFunc {
     };
   };
 }
+
+// The encoding of the raw public key bytes
+function keyType(keyDetails?: PublicKeyDetails): 'spki' | 'pkcs1' {
+  switch (keyDetails) {
+    case PublicKeyDetails.PKCS1_RSA_PKCS1V5:
+    case PublicKeyDetails.PKCS1_RSA_PSS:
+      return 'pkcs1';
+    default:
+      return 'spki';
+  }
+}
+
+// The parameters of signatures generated with the key. Where none are needed
+// the defaults for the key type apply (PKCS#1 v1.5 for RSA keys, SHA-256 for
+// ECDSA keys). The PSS salt length is detected during verification.
+function signatureAlgorithm(
+  keyDetails?: PublicKeyDetails
+): crypto.SignatureAlgorithm | undefined {
+  switch (keyDetails) {
+    case PublicKeyDetails.PKCS1_RSA_PSS:
+    case PublicKeyDetails.PKIX_RSA_PSS:
+    case PublicKeyDetails.PKIX_RSA_PSS_2048_SHA256:
+    case PublicKeyDetails.PKIX_RSA_PSS_3072_SHA256:
+    case PublicKeyDetails.PKIX_RSA_PSS_4096_SHA256:
+      return { hash: 'sha256', padding: 'pss' };
+    case PublicKeyDetails.PKIX_ECDSA_P384_SHA_384:
+      return { hash: 'sha384' };
+    case PublicKeyDetails.PKIX_ECDSA_P521_SHA_512:
+      return { hash: 'sha512' };
+    case PublicKeyDetails.PKIX_ED25519:
+      return {};
+    default:
+      return undefined;
+  }
+}
@@ -13,11 +13,17 @@ WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
 See the License for the specific language governing permissions and
 limitations under the License.
 */
-import type { X509Certificate, crypto } from '@sigstore/core';
+import type { X509CRL, X509Certificate, crypto } from '@sigstore/core';
 
 export type TLogAuthority = {
   logID: Buffer;
   publicKey: crypto.KeyObject;
+  // Parameters for verifying the log's signatures, derived from the key
+  // details. Undefined when the defaults for the key type apply.
+  signatureAlgorithm?: crypto.SignatureAlgorithm;
+  // Base URL of the log's API. Only required when entries are re-checked
+  // against the log.
+  baseURL?: string;
   validFor: {
     start: Date;
     end: Date;
@@ -45,4 +51,7 @@ export type TrustMaterial = {
   tlogs: TLogAuthority[];
   ctlogs: TLogAuthority[];
   publicKey: KeyFinderFunc;
+  // CRLs used to check the revocation status of certificates issued by the
+  // certificate and timestamp authorities
+  crls?: X509CRL[];
 };
@@ -14,29 +14,146 @@ See the License for the specific language governing permissions and
 limitations under the License.
 */
 import { isDeepStrictEqual } from 'util';
-import { VerificationError } from './error';
-import { verifyCertificate, verifyPublicKey } from './key';
-import { verifyExtensions, verifySubjectAlternativeName } from './policy';
-import { verifyTLogTimestamp, verifyTSATimestamp } from './timestamp';
+import { DSSESignatureContent } from './bundle/dsse';
+import { PolicyError, VerificationError } from './error';
+import {
+  getSigner,
+  verifyCertificate,
+  verifyCertificatePath,
+  verifyPublicKey,
+} from './key';
+import { verifySCTs } from './key/sct';
+import { verifyCertificateIdentity } from './policy';
+import {
+  fetchConsistencyProof,
+  fetchInclusionProof,
+  hasIntegratedTime,
+  parseWitnessKey,
+  requiredConsistencyProofs,
+  verifyCheckpointConsistency,
+  verifyTLogInclusion,
+  verifyTLogTimestamp,
+  verifyTSATimestamp,
+} from './timestamp';
 import { verifyTLogBody } from './tlog';
 
+import type { TransparencyLogEntry } from '@sigstore/bundle';
+import type { PolicyErrorCode, VerificationErrorCode } from './error';
+import type { RevocationMode, RevocationPolicy } from './key';
+import type { CertificateChainVerificationResult } from './key/certificate';
 import type {
   CertificateIdentity,
   SignedEntity,
   Signer,
+  ThresholdPolicy,
   VerificationPolicy,
 } from './shared.types';
+import type {
+  CheckpointStore,
+  ConsistencyProofFunc,
+  TLogClient,
+  TSAPolicy,
+  TimestampVerificationResult,
+  WitnessPolicy,
+} from './timestamp';
 import type { TrustMaterial } from './trust';
 
 export type VerifierOptions = {
   tlogThreshold?: number;
   ctlogThreshold?: number;
   tsaThreshold?: number;
+  // When supplied, the checkpoint in each tlog entry must be consistent with
+  // the largest checkpoint previously recorded for the same log
+  checkpointStore?: CheckpointStore;
+  // Supplies the consistency proofs required when a checkpoint is for a
+  // different tree size than the one recorded in the checkpoint store.
+  // verifyOnline fetches any proofs not supplied here from the log.
+  consistencyProof?: ConsistencyProofFunc;
+  // Ed25519 public keys of the witnesses trusted to cosign checkpoints, in
+  // the signed note verifier key format (<name>+<hash>+<base64 key>)
+  witnessKeys?: string[];
+  // Number of trusted witnesses which must have cosigned the checkpoint of
+  // each tlog entry
+  witnessThreshold?: number;
+  // Client used by verifyOnline to retrieve inclusion and consistency proofs
+  // from the transparency logs (e.g. the RekorClient from @sigstore/sign).
+  // Required for online verification.
+  tlogClient?: TLogClient;
+  // Policy OIDs under which RFC 3161 timestamps must have been issued. Any
+  // policy is accepted when omitted.
+  tsaPolicyOIDs?: string[];
+  // Maximum accuracy (in milliseconds) of RFC 3161 timestamps. Timestamps
+  // which don't declare an accuracy are rejected when set.
+  tsaMaxAccuracy?: number;
+  // Requires RFC 3161 timestamps to identify the TSA signing certificate with
+  // a matching ESSCertIDv2 attribute and the certificate to carry the
+  // timeStamping EKU
+  tsaStrict?: boolean;
+  // How certificates are treated when no current CRL from their issuer is
+  // available in the trust material. With "hard-fail" such certificates are
+  // rejected. Defaults to "soft-fail". Certificates listed in a CRL are
+  // always rejected.
+  revocationMode?: RevocationMode;
+};
+
+export type VerificationResult = Signer & {
+  // The verified timestamps along with their source
+  timestamps: TimestampVerificationResult[];
+  // The trusted CA and certificate path for the signing certificate. Only
+  // present when the entity was signed with a certificate.
+  certificateChain?: CertificateChainVerificationResult;
+  // The log IDs of the verified SCTs embedded in the signing certificate
+  sctLogIDs: Buffer[];
+  // The transparency log entries which were checked against the signature
+  tlogEntries: TransparencyLogEntry[];
+};
+
+export type VerificationCheckName =
+  | 'timestamps'
+  | 'public-key'
+  | 'certificate-chain'
+  | 'sct'
+  | 'tlog-body'
+  | 'signature'
+  | 'policy';
+
+export type VerificationCheck = {
+  check: VerificationCheckName;
+  status: 'pass' | 'fail' | 'skipped';
+  // The error code and message are present for failed checks. Skipped checks
+  // carry a message describing why the check was not run.
+  code?: VerificationErrorCode | PolicyErrorCode;
+  message?: string;
 };
 
+export type VerificationReport = {
+  // True if none of the checks failed
+  verified: boolean;
+  checks: VerificationCheck[];
+};
+
+type SigningKeyVerificationResult = {
+  signer: Signer;
+  certificateChain?: CertificateChainVerificationResult;
+  scts: Buffer[];
+};
+
+type ThresholdOptions = Pick<
+  VerifierOptions,
+  'tlogThreshold' | 'ctlogThreshold' | 'tsaThreshold'
+>;
+
 export class Verifier {
   private trustMaterial: TrustMaterial;
-  private options: Required<VerifierOptions>;
+  private options: Required<ThresholdOptions>;
+  private checkpointStore?: CheckpointStore;
+  private consistencyProof: ConsistencyProofFunc;
+  // Consistency proofs fetched from the logs by verifyOnline
+  private fetchedProofs = new Map<string, Buffer[]>();
+  private witnessPolicy?: WitnessPolicy;
+  private tsaPolicy?: TSAPolicy;
+  private revocationPolicy?: RevocationPolicy;
+  private tlogClient?: TLogClient;
 
   constructor(trustMaterial: TrustMaterial, options: VerifierOptions = {}) {
     this.trustMaterial = trustMaterial;
@@ -45,11 +162,321 @@ export class Verifier {
       tlogThreshold: options.tlogThreshold ?? 1,
       tsaThreshold: options.tsaThreshold ?? 0,
     };
+    this.checkpointStore = options.checkpointStore;
+    this.consistencyProof = (origin, oldSize, newSize) =>
+      this.fetchedProofs.get(proofKey(origin, oldSize, newSize)) ||
+      options.consistencyProof?.(origin, oldSize, newSize);
+    this.tlogClient = options.tlogClient;
+
+    if (options.witnessKeys || options.witnessThreshold) {
+      this.witnessPolicy = {
+        witnesses: (options.witnessKeys || []).map(parseWitnessKey),
+        threshold: options.witnessThreshold ?? 0,
+      };
+    }
+
+    if (
+      options.tsaPolicyOIDs ||
+      options.tsaMaxAccuracy !== undefined ||
+      options.tsaStrict
+    ) {
+      this.tsaPolicy = {
+        policyOIDs: options.tsaPolicyOIDs || [],
+        maxAccuracy: options.tsaMaxAccuracy,
+        strict: options.tsaStrict ?? false,
+      };
+    }
+
+    if (trustMaterial.crls || options.revocationMode) {
+      this.revocationPolicy = {
+        crls: trustMaterial.crls || [],
+        mode: options.revocationMode || 'soft-fail',
+      };
+    }
+  }
+
+  public verify(
+    entity: SignedEntity,
+    policy?: VerificationPolicy
+  ): VerificationResult {
+    verifySingleSignature(entity);
+    return this.verifyEntity(entity, policy);
+  }
+
+  // Same as verify, but first re-checks the inclusion of each tlog entry by
+  // fetching a fresh inclusion proof (and checkpoint) from the log itself.
+  // Entries which carry only an inclusion promise are upgraded with the
+  // fetched proof before the entity is verified. Entries which already carry
+  // an inclusion proof are verified against both proofs. When a checkpoint
+  // store is configured, the fetched checkpoints are checked against it along
+  // with the embedded ones, and any consistency proofs this needs are also
+  // fetched from the logs.
+  public async verifyOnline(
+    entity: SignedEntity,
+    policy?: VerificationPolicy
+  ): Promise<VerificationResult> {
+    const client = this.tlogClient;
+    if (!client) {
+      throw new VerificationError({
+        code: 'TLOG_INCLUSION_PROOF_ERROR',
+        message: 'a tlog client is required for online verification',
+      });
+    }
+
+    const upgraded = new Map<TransparencyLogEntry, TransparencyLogEntry>();
+    const refetched: TransparencyLogEntry[] = [];
+
+    for (const entry of entity.tlogEntries) {
+      const onlineEntry = await fetchInclusionProof(
+        entry,
+        this.trustMaterial.tlogs,
+        client
+      );
+
+      if (entry.inclusionProof) {
+        refetched.push(onlineEntry);
+      } else {
+        upgraded.set(entry, onlineEntry);
+      }
+    }
+
+    const upgrade = (entry: TransparencyLogEntry) =>
+      upgraded.get(entry) || entry;
+
+    // The re-fetched entries are checked against the store after the entity
+    // has been verified
+    const store = this.checkpointStore;
+    if (store) {
+      await this.fetchConsistencyProofs(
+        [...entity.tlogEntries.map(upgrade), ...refetched],
+        store,
+        client
+      );
+    }
+
+    const result = this.verify(
+      {
+        ...entity,
+        tlogEntries: entity.tlogEntries.map(upgrade),
+        timestamps: entity.timestamps.map((timestamp) =>
+          timestamp.$case === 'transparency-log'
+            ? { ...timestamp, tlogEntry: upgrade(timestamp.tlogEntry) }
+            : timestamp
+        ),
+      },
+      policy
+    );
+
+    // The fetched proofs are verified once the TSA timestamps are known, as
+    // they're needed to check the checkpoints of entries with no integrated
+    // time
+    const tsaTimes = tsaTimestamps(result.timestamps);
+    refetched.forEach((entry) => {
+      verifyTLogInclusion(
+        entry,
+        this.trustMaterial.tlogs,
+        this.witnessPolicy,
+        tsaTimes
+      );
+
+      if (store) {
+        verifyCheckpointConsistency(entry, store, this.consistencyProof);
+      }
+    });
+
+    return result;
   }
 
-  public verify(entity: SignedEntity, policy?: VerificationPolicy): Signer {
+  private async fetchConsistencyProofs(
+    entries: TransparencyLogEntry[],
+    store: CheckpointStore,
+    client: TLogClient
+  ): Promise<void> {
+    for (const request of requiredConsistencyProofs(entries, store)) {
+      const { entry, origin, oldSize, newSize } = request;
+      const key = proofKey(origin, oldSize, newSize);
+
+      if (!this.fetchedProofs.has(key)) {
+        const proof = await fetchConsistencyProof(
+          entry,
+          this.trustMaterial.tlogs,
+          client,
+          oldSize,
+          newSize
+        );
+        this.fetchedProofs.set(key, proof);
+      }
+    }
+  }
+
+  // Verifies a set of bundles produced by co-signing the same DSSE envelope.
+  // Each entity is verified independently and then matched against the
+  // identities in the policy -- a signer may satisfy at most one identity and
+  // each identity may be satisfied by at most one signer. Entities which fail
+  // verification are not counted towards the threshold, and a signing key
+  // which appears in several entities is only counted once. Returns the
+  // results for the signers which were matched to an identity.
+  public verifyThreshold(
+    entities: SignedEntity[],
+    policy: ThresholdPolicy
+  ): VerificationResult[] {
+    this.verifyCosignedPayload(entities);
+
+    const results: VerificationResult[] = [];
+    entities.forEach((entity) => {
+      try {
+        const result = this.verifyEntity(entity);
+
+        // A signer which signed more than once is only counted once
+        if (!results.some(({ key }) => key.equals(result.key))) {
+          results.push(result);
+        }
+      } catch (err) {
+        // Failed signatures simply don't count towards the threshold
+      }
+    });
+
+    // For each verified signer, the indexes of the identities it satisfies
+    const candidates = results.map((result) =>
+      policy.identities.flatMap((identity, index) => {
+        try {
+          this.verifyPolicy(identity, result.identity || {});
+          return [index];
+        } catch (err) {
+          return [];
+        }
+      })
+    );
+
+    const matched = matchSigners(candidates, policy.identities.length);
+    if (matched.length < policy.threshold) {
+      throw new PolicyError({
+        code: 'SIGNER_THRESHOLD_ERROR',
+        message: `expected ${policy.threshold} signers to satisfy the policy, got ${matched.length}`,
+      });
+    }
+
+    return matched.map((index) => results[index]);
+  }
+
+  // Runs every verification check which can be performed against the entity
+  // and reports the outcome of each one. Unlike verify, this method does NOT
+  // stop at the first failure and does NOT throw on verification errors.
+  public diagnose(
+    entity: SignedEntity,
+    policy?: VerificationPolicy
+  ): VerificationReport {
+    const checks: VerificationCheck[] = [];
+
+    const run = <T>(
+      check: VerificationCheckName,
+      fn: () => T
+    ): T | undefined => {
+      try {
+        const result = fn();
+        checks.push({ check, status: 'pass' });
+        return result;
+      } catch (err) {
+        checks.push(failedCheck(check, err));
+        return undefined;
+      }
+    };
+
+    const skip = (check: VerificationCheckName, message: string) => {
+      checks.push({ check, status: 'skipped', message });
+    };
+
+    // If the timestamps can't be verified, the remaining checks are run
+    // without any timestamps
+    const timestamps = run('timestamps', () => this.verifyTimestamps(entity));
+    const dates = (timestamps || []).map((t) => t.timestamp);
+
+    let signer: Signer | undefined;
+    const key = entity.key;
+    switch (key.$case) {
+      case 'public-key': {
+        signer = run('public-key', () =>
+          verifyPublicKey(key.hint, dates, this.trustMaterial)
+        );
+        skip('certificate-chain', 'not signed with a certificate');
+        skip('sct', 'not signed with a certificate');
+        break;
+      }
+      case 'certificate': {
+        skip('public-key', 'signed with a certificate');
+        const chain = run('certificate-chain', () => {
+          verifyCertificateTimestamps(dates);
+          return verifyCertificatePath(
+            key.certificate,
+            dates,
+            this.trustMaterial,
+            this.revocationPolicy
+          );
+        });
+
+        if (chain) {
+          run('sct', () =>
+            this.verifySCTThreshold(
+              verifySCTs(
+                chain.path[0],
+                chain.path[1],
+                this.trustMaterial.ctlogs
+              )
+            )
+          );
+        } else {
+          skip('sct', 'certificate chain could not be verified');
+        }
+
+        // The signer can be extracted from the certificate even if the
+        // certificate chain could not be verified
+        signer = getSigner(key.certificate);
+        break;
+      }
+    }
+
+    if (entity.tlogEntries.length > 0) {
+      run('tlog-body', () => this.verifyTLogs(entity));
+    } else {
+      skip('tlog-body', 'no transparency log entries');
+    }
+
+    if (signer) {
+      const verifiedSigner = signer;
+      run('signature', () => {
+        verifySingleSignature(entity);
+        this.verifySignature(entity, verifiedSigner);
+      });
+
+      if (policy) {
+        run('policy', () =>
+          this.verifyPolicy(policy, verifiedSigner.identity || {})
+        );
+      } else {
+        skip('policy', 'no policy supplied');
+      }
+    } else {
+      skip('signature', 'signing key could not be determined');
+      skip('policy', 'signing key could not be determined');
+    }
+
+    return {
+      verified: checks.every((check) => check.status !== 'fail'),
+      checks,
+    };
+  }
+
+  // Verifies the entity without checking the number of signatures in the
+  // envelope. Used directly when verifying co-signed envelopes.
+  private verifyEntity(
+    entity: SignedEntity,
+    policy?: VerificationPolicy
+  ): VerificationResult {
     const timestamps = this.verifyTimestamps(entity);
-    const signer = this.verifySigningKey(entity, timestamps);
+    const { signer, certificateChain, scts } = this.verifySigningKey(
+      entity,
+      timestamps.map((t) => t.timestamp)
+    );
     this.verifyTLogs(entity);
     this.verifySignature(entity, signer);
 
@@ -57,32 +484,66 @@ export class Verifier {
       this.verifyPolicy(policy, signer.identity || {});
     }
 
-    return signer;
+    return {
+      ...signer,
+      timestamps,
+      certificateChain,
+      sctLogIDs: scts,
+      tlogEntries: entity.tlogEntries,
+    };
   }
 
   // Checks that all of the timestamps in the entity are valid and returns them
-  private verifyTimestamps(entity: SignedEntity): Date[] {
+  private verifyTimestamps(
+    entity: SignedEntity
+  ): TimestampVerificationResult[] {
     let tlogCount = 0;
     let tsaCount = 0;
 
-    const timestamps = entity.timestamps.map((timestamp) => {
-      switch (timestamp.$case) {
-        case 'timestamp-authority':
-          tsaCount++;
-          return verifyTSATimestamp(
-            timestamp.timestamp,
-            entity.signature.signature,
-            this.trustMaterial.timestampAuthorities
-          );
-        case 'transparency-log':
-          tlogCount++;
-          return verifyTLogTimestamp(
-            timestamp.tlogEntry,
-            this.trustMaterial.tlogs
-          );
+    // The TSA timestamps are verified first so that they can be used to check
+    // the checkpoints of tlog entries which have no integrated time
+    const tsaResults = entity.timestamps.flatMap((timestamp) => {
+      if (timestamp.$case !== 'timestamp-authority') {
+        return [];
+      }
+
+      tsaCount++;
+      return verifyTSATimestamp(
+        timestamp.timestamp,
+        entity.signature.signature,
+        this.trustMaterial.timestampAuthorities,
+        this.tsaPolicy,
+        this.revocationPolicy
+      );
+    });
+    const tsaTimes = tsaTimestamps(tsaResults);
+
+    const tlogResults = entity.timestamps.flatMap((timestamp) => {
+      if (timestamp.$case !== 'transparency-log') {
+        return [];
       }
+
+      tlogCount++;
+      // Entries without an integrated time still count towards the tlog
+      // threshold, but don't contribute a timestamp
+      if (!hasIntegratedTime(timestamp.tlogEntry)) {
+        verifyTLogInclusion(
+          timestamp.tlogEntry,
+          this.trustMaterial.tlogs,
+          this.witnessPolicy,
+          tsaTimes
+        );
+        return [];
+      }
+      return verifyTLogTimestamp(
+        timestamp.tlogEntry,
+        this.trustMaterial.tlogs,
+        this.witnessPolicy
+      );
     });
 
+    const timestamps = [...tlogResults, ...tsaResults];
+
     // Check for duplicate timestamps
     if (containsDupes(timestamps)) {
       throw new VerificationError({
@@ -105,43 +566,70 @@ export class Verifier {
       });
     }
 
-    return timestamps.map((t) => t.timestamp);
+    // Once the checkpoints have been verified they can be checked against the
+    // view of each log recorded in the checkpoint store
+    const store = this.checkpointStore;
+    if (store) {
+      entity.tlogEntries.forEach((entry) =>
+        verifyCheckpointConsistency(entry, store, this.consistencyProof)
+      );
+    }
+
+    return timestamps;
   }
 
   // Checks that the signing key is valid for all of the the supplied timestamps
   // and returns the signer.
-  private verifySigningKey({ key }: SignedEntity, timestamps: Date[]): Signer {
+  private verifySigningKey(
+    { key }: SignedEntity,
+    timestamps: Date[]
+  ): SigningKeyVerificationResult {
     switch (key.$case) {
       case 'public-key': {
-        return verifyPublicKey(key.hint, timestamps, this.trustMaterial);
+        return {
+          signer: verifyPublicKey(key.hint, timestamps, this.trustMaterial),
+          scts: [],
+        };
       }
       case 'certificate': {
+        verifyCertificateTimestamps(timestamps);
+
         const result = verifyCertificate(
           key.certificate,
           timestamps,
-          this.trustMaterial
+          this.trustMaterial,
+          this.revocationPolicy
         );
 
-        /* istanbul ignore next - no fixture */
-        if (containsDupes(result.scts)) {
-          throw new VerificationError({
-            code: 'CERTIFICATE_ERROR',
-            message: 'duplicate SCT',
-          });
-        }
-
-        if (result.scts.length < this.options.ctlogThreshold) {
-          throw new VerificationError({
-            code: 'CERTIFICATE_ERROR',
-            message: `expected ${this.options.ctlogThreshold} SCTs, got ${result.scts.length}`,
-          });
-        }
+        this.verifySCTThreshold(result.scts);
 
-        return result.signer;
+        return {
+          signer: result.signer,
+          certificateChain: result.certificateChain,
+          scts: result.scts,
+        };
       }
     }
   }
 
+  // Checks that the verified SCTs are unique and satisfy the ctlog threshold
+  private verifySCTThreshold(scts: Buffer[]): void {
+    /* istanbul ignore next - no fixture */
+    if (containsDupes(scts)) {
+      throw new VerificationError({
+        code: 'CERTIFICATE_ERROR',
+        message: 'duplicate SCT',
+      });
+    }
+
+    if (scts.length < this.options.ctlogThreshold) {
+      throw new VerificationError({
+        code: 'CERTIFICATE_ERROR',
+        message: `expected ${this.options.ctlogThreshold} SCTs, got ${scts.length}`,
+      });
+    }
+  }
+
   // Checks that the tlog entries are valid for the supplied content
   private verifyTLogs({ signature: content, tlogEntries }: SignedEntity): void {
     tlogEntries.forEach((entry) => verifyTLogBody(entry, content));
@@ -157,23 +645,128 @@ export class Verifier {
     }
   }
 
+  // Checks that all of the entities are distinct signatures over the same
+  // DSSE payload
+  private verifyCosignedPayload(entities: SignedEntity[]): void {
+    const contents = entities.map(({ signature }) => {
+      if (!(signature instanceof DSSESignatureContent)) {
+        throw new VerificationError({
+          code: 'SIGNATURE_ERROR',
+          message: 'threshold verification requires DSSE envelopes',
+        });
+      }
+      return signature;
+    });
+
+    const digests = contents.map((content) => content.payloadDigest);
+    if (digests.some((digest) => !digest.equals(digests[0]))) {
+      throw new VerificationError({
+        code: 'SIGNATURE_ERROR',
+        message: 'co-signed envelopes do not share the same payload',
+      });
+    }
+
+    if (containsDupes(contents.map((content) => content.signature))) {
+      throw new VerificationError({
+        code: 'SIGNATURE_ERROR',
+        message: 'duplicate signature',
+      });
+    }
+  }
+
   private verifyPolicy(
     policy: VerificationPolicy,
     identity: CertificateIdentity
   ) {
-    // Check the subject alternative name of the signer matches the policy
-    if (policy.subjectAlternativeName) {
-      verifySubjectAlternativeName(
-        policy.subjectAlternativeName,
-        identity.subjectAlternativeName
-      );
-    }
+    // Check that the identity of the signer satisfies the policy
+    verifyCertificateIdentity(policy, identity);
+  }
+}
 
-    // Check that the extensions of the signer match the policy
-    if (policy.extensions) {
-      verifyExtensions(policy.extensions, identity.extensions);
-    }
+// Without a trusted timestamp there is no way to tell whether the signing
+// certificate was valid at the time of signing. This is the case for bundles
+// which only carry Rekor v2 entries and no TSA timestamps.
+function verifyCertificateTimestamps(timestamps: Date[]): void {
+  if (timestamps.length === 0) {
+    throw new VerificationError({
+      code: 'TIMESTAMP_ERROR',
+      message: 'no verified timestamps for signing certificate',
+    });
+  }
+}
+
+// Each bundle only carries the verification material for a single signature,
+// so envelopes with more than one signature can only be verified as a set of
+// co-signed bundles with verifyThreshold
+function verifySingleSignature({ signature }: SignedEntity): void {
+  if (
+    signature instanceof DSSESignatureContent &&
+    signature.signatureCount > 1
+  ) {
+    throw new VerificationError({
+      code: 'SIGNATURE_ERROR',
+      message: 'envelope contains multiple signatures',
+    });
+  }
+}
+
+function tsaTimestamps(timestamps: TimestampVerificationResult[]): Date[] {
+  return timestamps
+    .filter(({ type }) => type === 'timestamp-authority')
+    .map(({ timestamp }) => timestamp);
+}
+
+// Converts an error raised by one of the verification checks into a failed
+// check result
+function failedCheck(
+  check: VerificationCheckName,
+  err: unknown
+): VerificationCheck {
+  if (err instanceof VerificationError || err instanceof PolicyError) {
+    return { check, status: 'fail', code: err.code, message: err.message };
   }
+
+  /* istanbul ignore next */
+  return {
+    check,
+    status: 'fail',
+    message: err instanceof Error ? err.message : String(err),
+  };
+}
+
+// Finds the largest set of signers which can each be paired with a different
+// identity (maximum bipartite matching via augmenting paths). The candidates
+// array lists, for each signer, the identities it satisfies. Returns the
+// indexes of the matched signers.
+function matchSigners(candidates: number[][], identityCount: number): number[] {
+  // The signer currently paired with each identity
+  const owner: (number | undefined)[] = new Array(identityCount);
+
+  const assign = (signer: number, visited: Set<number>): boolean =>
+    candidates[signer].some((identity) => {
+      if (visited.has(identity)) {
+        return false;
+      }
+      visited.add(identity);
+
+      const current = owner[identity];
+      if (current === undefined || assign(current, visited)) {
+        owner[identity] = signer;
+        return true;
+      }
+      return false;
+    });
+
+  candidates.forEach((_, signer) => assign(signer, new Set()));
+
+  return owner
+    .filter((signer): signer is number => signer !== undefined)
+    .sort((a, b) => a - b);
+}
+
+// Cache key for the consistency proof between two sizes of a log
+function proofKey(origin: string, oldSize: bigint, newSize: bigint): string {
+  return `${origin}\n${oldSize}\n${newSize}`;
 }
 
 // Checks for duplicate items in the array. Objects are compared using